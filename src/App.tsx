@@ -9,6 +9,7 @@ import { SiteSettingsProvider } from "@/lib/site-settings-context";
 import { ProtectedRoute } from "@/components/auth/ProtectedRoute";
 import { MobileBottomNav } from "@/components/layout/MobileBottomNav";
 import { PerformanceMonitor } from "@/lib/performance-monitor";
+import { PriceAlertListener } from "@/components/trading/PriceAlertListener";
 import { Loader2 } from "lucide-react";
 
 // Lazy-load all pages for code splitting
@@ -21,12 +22,15 @@ const CoinDetail = lazy(() => import("./pages/CoinDetail"));
 const Dashboard = lazy(() => import("./pages/Dashboard"));
 const Admin = lazy(() => import("./pages/Admin"));
 const CreateCoin = lazy(() => import("./pages/CreateCoin"));
+const CoinRewards = lazy(() => import("./pages/CoinRewards"));
+const CreatorDashboard = lazy(() => import("./pages/CreatorDashboard"));
 const Blockchain = lazy(() => import("./pages/Blockchain"));
 const Terms = lazy(() => import("./pages/Terms"));
 const Privacy = lazy(() => import("./pages/Privacy"));
 const About = lazy(() => import("./pages/About"));
 const Profile = lazy(() => import("./pages/Profile"));
 const Live = lazy(() => import("./pages/Live"));
+const Leaderboards = lazy(() => import("./pages/Leaderboards"));
 const NotFound = lazy(() => import("./pages/NotFound"));
 const ErrorPage = lazy(() => import("./pages/Error"));
 
@@ -59,6 +63,7 @@ const App = () => (
           <Sonner />
           <BrowserRouter>
             <PerformanceMonitor />
+            <PriceAlertListener />
             <Suspense fallback={<PageLoader />}>
               <Routes>
                 <Route path="/" element={<Landing />} />
@@ -73,10 +78,13 @@ const App = () => (
                 <Route path="/privacy" element={<Privacy />} />
                 <Route path="/about" element={<About />} />
                 <Route path="/live" element={<Live />} />
+                <Route path="/leaderboards" element={<Leaderboards />} />
                 <Route path="/error" element={<ErrorPage />} />
                 <Route path="/dashboard" element={<ProtectedRoute><Dashboard /></ProtectedRoute>} />
                 <Route path="/profile" element={<ProtectedRoute><Profile /></ProtectedRoute>} />
                 <Route path="/create-coin" element={<ProtectedRoute><CreateCoin /></ProtectedRoute>} />
+                <Route path="/creator" element={<ProtectedRoute><CreatorDashboard /></ProtectedRoute>} />
+                <Route path="/create-coin/:id/rewards" element={<ProtectedRoute><CoinRewards /></ProtectedRoute>} />
                 <Route path="/admin" element={<ProtectedRoute requireAdmin><Admin /></ProtectedRoute>} />
                 <Route path="*" element={<NotFound />} />
               </Routes>
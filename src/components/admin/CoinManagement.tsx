@@ -11,10 +11,11 @@ import {
 import {
   Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription,
 } from '@/components/ui/dialog';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import {
   Coins, Plus, Trash2, Loader2, Search, Star, TrendingUp,
   CheckCircle, AlertCircle, Flame, Users, Pause, Play, Eye, EyeOff, Edit2, Copy, BarChart3,
-  Upload, Wand2, ImageIcon
+  Upload, Wand2, ImageIcon, Gauge, Scale
 } from 'lucide-react';
 import { generateCoinSVG, svgToDataUri } from '@/lib/coin-avatar-generator';
 import { supabase } from '@/integrations/supabase/client';
@@ -53,8 +54,57 @@ interface Coin {
   use_market_cap_override?: boolean;
   use_liquidity_override?: boolean;
   use_holders_override?: boolean;
+  // Anti-whale limits; null follows the platform default
+  trade_limit_kes_per_hour?: number | null;
+  trade_limit_kes_per_day?: number | null;
+  trade_limit_max_holding_pct?: number | null;
+  trade_limit_cooldown_seconds?: number | null;
+  // House market maker
+  market_maker_enabled?: boolean;
+  market_maker_strategy?: string;
+  market_maker_params?: Record<string, number> | null;
+  market_maker_budget_kes?: number;
+  market_maker_max_inventory?: number;
 }
 
+type TradeLimitField = 'trade_limit_kes_per_hour' | 'trade_limit_kes_per_day' | 'trade_limit_max_holding_pct' | 'trade_limit_cooldown_seconds';
+
+const TRADE_LIMIT_FIELDS: { key: TradeLimitField; label: string }[] = [
+  { key: 'trade_limit_kes_per_hour', label: 'Max buys per hour (KES)' },
+  { key: 'trade_limit_kes_per_day', label: 'Max buys per day (KES)' },
+  { key: 'trade_limit_max_holding_pct', label: 'Max holding (% of supply)' },
+  { key: 'trade_limit_cooldown_seconds', label: 'Min seconds between trades' },
+];
+
+// Defaults match the market-maker edge function
+const MAKER_STRATEGIES: Record<string, { label: string; description: string; params: { key: string; label: string; default: number }[] }> = {
+  mean_reversion: {
+    label: 'Mean reversion',
+    description: 'Trades back toward the bonding-curve price when the market strays from it.',
+    params: [
+      { key: 'threshold_pct', label: 'Act beyond (% from curve)', default: 2 },
+      { key: 'order_kes', label: 'Order size (KES)', default: 500 },
+    ],
+  },
+  spread: {
+    label: 'Spread quoting',
+    description: 'Buys below and sells above a band around the last 30 minutes of organic fills.',
+    params: [
+      { key: 'spread_pct', label: 'Spread (%)', default: 3 },
+      { key: 'order_kes', label: 'Order size (KES)', default: 500 },
+    ],
+  },
+  volume_noise: {
+    label: 'Volume-weighted noise',
+    description: 'Small two-way trades on idle coins, larger when organic volume is higher.',
+    params: [
+      { key: 'min_kes', label: 'Smallest order (KES)', default: 100 },
+      { key: 'max_kes', label: 'Largest order (KES)', default: 1000 },
+      { key: 'idle_seconds', label: 'Only after idle (seconds)', default: 60 },
+    ],
+  },
+};
+
 interface CoinManagementProps {
   userId: string;
   isSuperAdmin: boolean;
@@ -70,6 +120,14 @@ export function CoinManagement({ userId, isSuperAdmin }: CoinManagementProps) {
   const [showHoldersDialog, setShowHoldersDialog] = useState(false);
   const [showApproveDialog, setShowApproveDialog] = useState(false);
   const [showOverrideDialog, setShowOverrideDialog] = useState(false);
+  const [showLimitsDialog, setShowLimitsDialog] = useState(false);
+  const [tradeLimits, setTradeLimits] = useState<Record<TradeLimitField, string>>({
+    trade_limit_kes_per_hour: '', trade_limit_kes_per_day: '', trade_limit_max_holding_pct: '', trade_limit_cooldown_seconds: '',
+  });
+  const [showMakerDialog, setShowMakerDialog] = useState(false);
+  const [maker, setMaker] = useState({
+    enabled: false, strategy: 'mean_reversion', params: {} as Record<string, string>, budget: '', maxInventory: '',
+  });
   const [selectedCoin, setSelectedCoin] = useState<Coin | null>(null);
   const [burnAmount, setBurnAmount] = useState('');
   const [holdersCount, setHoldersCount] = useState('');
@@ -224,6 +282,79 @@ export function CoinManagement({ userId, isSuperAdmin }: CoinManagementProps) {
     }
   };
 
+  const openLimitsDialog = (coin: Coin) => {
+    setSelectedCoin(coin);
+    setTradeLimits({
+      trade_limit_kes_per_hour: coin.trade_limit_kes_per_hour?.toString() ?? '',
+      trade_limit_kes_per_day: coin.trade_limit_kes_per_day?.toString() ?? '',
+      trade_limit_max_holding_pct: coin.trade_limit_max_holding_pct?.toString() ?? '',
+      trade_limit_cooldown_seconds: coin.trade_limit_cooldown_seconds?.toString() ?? '',
+    });
+    setShowLimitsDialog(true);
+  };
+
+  const handleSaveLimits = async () => {
+    if (!selectedCoin) return;
+    const parse = (v: string, round = false) => {
+      if (v.trim() === '') return null;
+      const n = Math.max(0, parseFloat(v) || 0);
+      return round ? Math.round(n) : n;
+    };
+    try {
+      const { error } = await supabase.from('coins').update({
+        trade_limit_kes_per_hour: parse(tradeLimits.trade_limit_kes_per_hour),
+        trade_limit_kes_per_day: parse(tradeLimits.trade_limit_kes_per_day),
+        trade_limit_max_holding_pct: parse(tradeLimits.trade_limit_max_holding_pct),
+        trade_limit_cooldown_seconds: parse(tradeLimits.trade_limit_cooldown_seconds, true),
+      }).eq('id', selectedCoin.id);
+      if (error) throw error;
+      toast.success('Trade limits saved!');
+      setShowLimitsDialog(false);
+      setSelectedCoin(null);
+      fetchCoins();
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to save trade limits');
+    }
+  };
+
+  const openMakerDialog = (coin: Coin) => {
+    setSelectedCoin(coin);
+    setMaker({
+      enabled: !!coin.market_maker_enabled,
+      strategy: coin.market_maker_strategy || 'mean_reversion',
+      params: Object.fromEntries(Object.entries(coin.market_maker_params || {}).map(([k, v]) => [k, String(v)])),
+      budget: coin.market_maker_budget_kes?.toString() ?? '0',
+      maxInventory: coin.market_maker_max_inventory?.toString() ?? '0',
+    });
+    setShowMakerDialog(true);
+  };
+
+  const handleSaveMaker = async () => {
+    if (!selectedCoin) return;
+    // Only the chosen strategy's fields are kept; blanks fall back to its defaults
+    const params: Record<string, number> = {};
+    MAKER_STRATEGIES[maker.strategy].params.forEach(({ key }) => {
+      const v = maker.params[key];
+      if (v !== undefined && v.trim() !== '') params[key] = Math.max(0, parseFloat(v) || 0);
+    });
+    try {
+      const { error } = await supabase.from('coins').update({
+        market_maker_enabled: maker.enabled,
+        market_maker_strategy: maker.strategy,
+        market_maker_params: params,
+        market_maker_budget_kes: Math.max(0, parseFloat(maker.budget) || 0),
+        market_maker_max_inventory: Math.max(0, parseFloat(maker.maxInventory) || 0),
+      }).eq('id', selectedCoin.id);
+      if (error) throw error;
+      toast.success('Market maker saved!');
+      setShowMakerDialog(false);
+      setSelectedCoin(null);
+      fetchCoins();
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to save market maker');
+    }
+  };
+
   const copyContract = async (address: string) => {
     await navigator.clipboard.writeText(address);
     toast.success('Contract address copied!');
@@ -393,6 +524,8 @@ export function CoinManagement({ userId, isSuperAdmin }: CoinManagementProps) {
                                 <ImageIcon className="h-3.5 w-3.5" />
                               </Button>
                               <Button variant="ghost" size="icon" className="h-8 w-8" onClick={() => openOverrideDialog(coin)} title="Override Values"><BarChart3 className="h-3.5 w-3.5" /></Button>
+                              <Button variant="ghost" size="icon" className="h-8 w-8" onClick={() => openLimitsDialog(coin)} title="Trade Limits"><Gauge className="h-3.5 w-3.5" /></Button>
+                              <Button variant="ghost" size="icon" className="h-8 w-8" onClick={() => openMakerDialog(coin)} title="Market Maker"><Scale className={`h-3.5 w-3.5 ${coin.market_maker_enabled ? 'text-primary' : ''}`} /></Button>
                               <Button variant="ghost" size="icon" className="h-8 w-8" onClick={() => handleUpdateCoin(coin.id, { is_featured: !coin.is_featured })} title="Toggle Featured">
                                 <Star className={`h-3.5 w-3.5 ${coin.is_featured ? 'fill-yellow-400 text-yellow-400' : ''}`} />
                               </Button>
@@ -577,6 +710,76 @@ export function CoinManagement({ userId, isSuperAdmin }: CoinManagementProps) {
         </DialogContent>
       </Dialog>
 
+      {/* Trade Limits Dialog */}
+      <Dialog open={showLimitsDialog} onOpenChange={setShowLimitsDialog}>
+        <DialogContent className="glass-card">
+          <DialogHeader>
+            <DialogTitle className="flex items-center gap-2"><Gauge className="h-5 w-5 text-primary" /> Trade Limits - {selectedCoin?.symbol}</DialogTitle>
+            <DialogDescription>Per-user buy limits for this coin. Leave blank to use the platform default; 0 turns a limit off.</DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4">
+            {TRADE_LIMIT_FIELDS.map(({ key, label }) => (
+              <div key={key} className="space-y-2">
+                <Label>{label}</Label>
+                <Input type="number" placeholder="Platform default" value={tradeLimits[key]} onChange={(e) => setTradeLimits({ ...tradeLimits, [key]: e.target.value })} className="bg-muted/30 font-mono" />
+              </div>
+            ))}
+            <div className="flex gap-2">
+              <Button variant="outline" className="flex-1" onClick={() => setShowLimitsDialog(false)}>Cancel</Button>
+              <Button variant="hero" className="flex-1" onClick={handleSaveLimits}>Save Limits</Button>
+            </div>
+          </div>
+        </DialogContent>
+      </Dialog>
+
+      {/* Market Maker Dialog */}
+      <Dialog open={showMakerDialog} onOpenChange={setShowMakerDialog}>
+        <DialogContent className="glass-card">
+          <DialogHeader>
+            <DialogTitle className="flex items-center gap-2"><Scale className="h-5 w-5 text-primary" /> Market Maker - {selectedCoin?.symbol}</DialogTitle>
+            <DialogDescription>House-account trading on this coin. It also needs the market maker switched on in Platform Settings.</DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div className="flex items-center justify-between">
+              <Label>Enabled</Label>
+              <Switch checked={maker.enabled} onCheckedChange={(v) => setMaker({ ...maker, enabled: v })} />
+            </div>
+            <div className="space-y-2">
+              <Label>Strategy</Label>
+              <Select value={maker.strategy} onValueChange={(v) => setMaker({ ...maker, strategy: v })}>
+                <SelectTrigger className="bg-muted/30"><SelectValue /></SelectTrigger>
+                <SelectContent>
+                  {Object.entries(MAKER_STRATEGIES).map(([key, s]) => <SelectItem key={key} value={key}>{s.label}</SelectItem>)}
+                </SelectContent>
+              </Select>
+              <p className="text-xs text-muted-foreground">{MAKER_STRATEGIES[maker.strategy]?.description}</p>
+            </div>
+            <div className="grid grid-cols-2 gap-3">
+              {MAKER_STRATEGIES[maker.strategy]?.params.map(({ key, label, default: def }) => (
+                <div key={key} className="space-y-2">
+                  <Label className="text-xs">{label}</Label>
+                  <Input type="number" placeholder={String(def)} value={maker.params[key] ?? ''} onChange={(e) => setMaker({ ...maker, params: { ...maker.params, [key]: e.target.value } })} className="bg-muted/30 font-mono" />
+                </div>
+              ))}
+            </div>
+            <div className="grid grid-cols-2 gap-3">
+              <div className="space-y-2">
+                <Label className="text-xs">Budget (KES committed)</Label>
+                <Input type="number" value={maker.budget} onChange={(e) => setMaker({ ...maker, budget: e.target.value })} className="bg-muted/30 font-mono" />
+              </div>
+              <div className="space-y-2">
+                <Label className="text-xs">Max inventory (tokens, 0 = no cap)</Label>
+                <Input type="number" value={maker.maxInventory} onChange={(e) => setMaker({ ...maker, maxInventory: e.target.value })} className="bg-muted/30 font-mono" />
+              </div>
+            </div>
+            <div className="flex gap-2">
+              <Button variant="outline" className="flex-1" onClick={() => setShowMakerDialog(false)}>Cancel</Button>
+              <Button variant="hero" className="flex-1" onClick={handleSaveMaker}>Save</Button>
+            </div>
+          </div>
+        </DialogContent>
+      </Dialog>
+
       {/* Avatar Dialog */}
       <Dialog open={showAvatarDialog} onOpenChange={setShowAvatarDialog}>
         <DialogContent className="glass-card max-w-sm">
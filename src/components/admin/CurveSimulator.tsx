@@ -0,0 +1,544 @@
+import { useState, useEffect, useCallback } from 'react';
+import { LineChart, Line, XAxis, YAxis, Tooltip, ResponsiveContainer, Legend } from 'recharts';
+import { supabase } from '@/integrations/supabase/client';
+import type { Json } from '@/integrations/supabase/types';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Switch } from '@/components/ui/switch';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/components/ui/card';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Tabs, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import {
+  Table, TableBody, TableCell, TableHead, TableHeader, TableRow,
+} from '@/components/ui/table';
+import { FlaskConical, Loader2, Play, Save, Trash2, Upload, Download } from 'lucide-react';
+import { toast } from 'sonner';
+import {
+  DEFAULT_CURVE_PARAMS, DEFAULT_SYNTHETIC_FLOW, simulateCurve, loadOrders,
+  type CurveParams, type OrderFlow, type SimResult, type SimStep,
+} from '@/lib/curve-simulator';
+
+interface Scenario {
+  id: string;
+  name: string;
+  description: string | null;
+  params: CurveParams;
+  flow: OrderFlow;
+  updated_at: string;
+}
+
+interface CoinOption {
+  id: string;
+  name: string;
+  symbol: string;
+  initial_price: number;
+  bonding_curve_factor: number;
+  total_supply: number;
+}
+
+type Metric = 'price' | 'marketCap' | 'liquidity' | 'feeRevenue';
+
+const METRICS: { key: Metric; label: string }[] = [
+  { key: 'price', label: 'Price' },
+  { key: 'marketCap', label: 'Market Cap' },
+  { key: 'liquidity', label: 'Liquidity' },
+  { key: 'feeRevenue', label: 'Fee Revenue' },
+];
+
+const PARAM_FIELDS: { key: keyof CurveParams; label: string; step: string }[] = [
+  { key: 'initialPrice', label: 'Initial price (KES)', step: '0.000001' },
+  { key: 'bondingCurveFactor', label: 'Bonding curve factor', step: '0.0000001' },
+  { key: 'totalSupply', label: 'Total supply', step: '1' },
+  { key: 'feePercentage', label: 'Trading fee (%)', step: '0.1' },
+  { key: 'sellPressureMultiplier', label: 'Sell pressure multiplier', step: '0.1' },
+  { key: 'maxBuySupplyPercentage', label: 'Max buy (% of unsold supply)', step: '1' },
+];
+
+const SERIES_COLORS = ['hsl(var(--primary))', '#f59e0b', '#10b981', '#ef4444', '#8b5cf6'];
+const MAX_COMPARE = SERIES_COLORS.length - 1;
+
+const kes = (n: number) => `KES ${n.toLocaleString(undefined, { maximumFractionDigits: n < 1 ? 6 : 2 })}`;
+
+export function CurveSimulator() {
+  const [params, setParams] = useState<CurveParams>(DEFAULT_CURVE_PARAMS);
+  const [flow, setFlow] = useState<OrderFlow>(DEFAULT_SYNTHETIC_FLOW);
+  const [coins, setCoins] = useState<CoinOption[]>([]);
+  const [result, setResult] = useState<SimResult | null>(null);
+  const [metric, setMetric] = useState<Metric>('price');
+  const [running, setRunning] = useState(false);
+  const [scenarios, setScenarios] = useState<Scenario[]>([]);
+  const [compareIds, setCompareIds] = useState<string[]>([]);
+  const [compareResults, setCompareResults] = useState<Record<string, SimResult>>({});
+  const [scenarioName, setScenarioName] = useState('');
+  const [saving, setSaving] = useState(false);
+  const [applying, setApplying] = useState(false);
+
+  const fetchScenarios = useCallback(async () => {
+    const { data, error } = await supabase
+      .from('curve_scenarios')
+      .select('id, name, description, params, flow, updated_at')
+      .order('updated_at', { ascending: false });
+    if (error) {
+      console.error('Error fetching scenarios:', error);
+      return;
+    }
+    setScenarios((data || []) as unknown as Scenario[]);
+  }, []);
+
+  useEffect(() => {
+    // Start from the live platform parameters
+    supabase.from('site_settings').select('*').maybeSingle().then(({ data }) => {
+      if (!data) return;
+      setParams(p => ({
+        ...p,
+        feePercentage: data.fee_percentage ?? p.feePercentage,
+        sellPressureMultiplier: data.sell_pressure_multiplier ?? p.sellPressureMultiplier,
+        maxBuySupplyPercentage: data.max_buy_supply_percentage ?? p.maxBuySupplyPercentage,
+        graduationEnabled: data.graduation_enabled ?? p.graduationEnabled,
+        graduationMetric: (data.graduation_metric as CurveParams['graduationMetric']) ?? p.graduationMetric,
+        graduationThreshold: data.graduation_threshold ?? p.graduationThreshold,
+        graduationSeedRule: (data.graduation_seed_rule as CurveParams['graduationSeedRule']) ?? p.graduationSeedRule,
+        graduationSeedPercentage: data.graduation_seed_percentage ?? p.graduationSeedPercentage,
+      }));
+    });
+    supabase
+      .from('coins')
+      .select('id, name, symbol, initial_price, bonding_curve_factor, total_supply')
+      .order('created_at', { ascending: false })
+      .then(({ data }) => setCoins((data || []) as CoinOption[]));
+    fetchScenarios();
+  }, [fetchScenarios]);
+
+  // Compared scenarios are re-run from their saved parameters and flow
+  useEffect(() => {
+    const missing = compareIds.filter(id => !compareResults[id]);
+    if (missing.length === 0) return;
+    let cancelled = false;
+    (async () => {
+      const next: Record<string, SimResult> = {};
+      const failed: string[] = [];
+      for (const id of missing) {
+        const scenario = scenarios.find(s => s.id === id);
+        try {
+          if (!scenario) throw new Error('Scenario not found');
+          next[id] = simulateCurve(scenario.params, await loadOrders(scenario.flow));
+        } catch (error) {
+          console.error('Error running scenario:', error);
+          toast.error(`Could not run "${scenario?.name || 'scenario'}"`);
+          failed.push(id);
+        }
+      }
+      if (cancelled) return;
+      setCompareResults(prev => ({ ...prev, ...next }));
+      if (failed.length) setCompareIds(ids => ids.filter(id => !failed.includes(id)));
+    })();
+    return () => { cancelled = true; };
+  }, [compareIds, compareResults, scenarios]);
+
+  const handleRun = async () => {
+    if (flow.source === 'historical' && !flow.coinId) {
+      toast.error('Choose a coin to replay');
+      return;
+    }
+    setRunning(true);
+    try {
+      const orders = await loadOrders(flow);
+      if (orders.length === 0) {
+        toast.error('No trades to replay');
+        return;
+      }
+      setResult(simulateCurve(params, orders));
+    } catch (error) {
+      console.error('Simulation error:', error);
+      toast.error(error instanceof Error ? error.message : 'Simulation failed');
+    } finally {
+      setRunning(false);
+    }
+  };
+
+  const handleLoadCoin = (coinId: string) => {
+    const coin = coins.find(c => c.id === coinId);
+    if (!coin) return;
+    setParams(p => ({
+      ...p,
+      initialPrice: Number(coin.initial_price),
+      bondingCurveFactor: Number(coin.bonding_curve_factor),
+      totalSupply: Number(coin.total_supply),
+    }));
+  };
+
+  const handleSaveScenario = async () => {
+    if (!scenarioName.trim()) {
+      toast.error('Name the scenario first');
+      return;
+    }
+    setSaving(true);
+    try {
+      const { data: { user } } = await supabase.auth.getUser();
+      const { error } = await supabase.from('curve_scenarios').insert({
+        name: scenarioName.trim(),
+        params: params as unknown as Json,
+        flow: flow as unknown as Json,
+        created_by: user?.id,
+      });
+      if (error) throw error;
+      toast.success('Scenario saved');
+      setScenarioName('');
+      fetchScenarios();
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to save scenario');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleLoadScenario = (scenario: Scenario) => {
+    setParams({ ...DEFAULT_CURVE_PARAMS, ...scenario.params });
+    setFlow(scenario.flow);
+    setResult(null);
+    toast.success(`Loaded "${scenario.name}"`);
+  };
+
+  const handleDeleteScenario = async (scenario: Scenario) => {
+    if (!confirm(`Delete scenario "${scenario.name}"?`)) return;
+    const { error } = await supabase.from('curve_scenarios').delete().eq('id', scenario.id);
+    if (error) {
+      toast.error(error.message);
+      return;
+    }
+    setCompareIds(ids => ids.filter(id => id !== scenario.id));
+    fetchScenarios();
+  };
+
+  const toggleCompare = (id: string, checked: boolean) => {
+    if (checked && compareIds.length >= MAX_COMPARE) {
+      toast.error(`Compare up to ${MAX_COMPARE} scenarios at a time`);
+      return;
+    }
+    setCompareIds(ids => checked ? [...ids, id] : ids.filter(x => x !== id));
+  };
+
+  // Curve parameters are chosen per coin at creation; the rest are platform-wide
+  const handleApplyPlatform = async () => {
+    if (!confirm('Apply this fee, sell pressure, buy cap and graduation setup to the live platform?')) return;
+    setApplying(true);
+    try {
+      const { data: settings } = await supabase.from('site_settings').select('id').maybeSingle();
+      if (!settings) throw new Error('Platform settings not found');
+      const { error } = await supabase.from('site_settings').update({
+        fee_percentage: params.feePercentage,
+        sell_pressure_multiplier: params.sellPressureMultiplier,
+        max_buy_supply_percentage: params.maxBuySupplyPercentage,
+        graduation_enabled: params.graduationEnabled,
+        graduation_metric: params.graduationMetric,
+        graduation_threshold: params.graduationThreshold,
+        graduation_seed_rule: params.graduationSeedRule,
+        graduation_seed_percentage: params.graduationSeedPercentage,
+      }).eq('id', settings.id);
+      if (error) throw error;
+      toast.success('Platform settings updated');
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to apply settings');
+    } finally {
+      setApplying(false);
+    }
+  };
+
+  const series: { key: string; name: string; steps: SimStep[]; summary: SimResult['summary'] }[] = [
+    ...(result ? [{ key: 'current', name: 'Current', steps: result.steps, summary: result.summary }] : []),
+    ...compareIds
+      .filter(id => compareResults[id])
+      .map(id => ({
+        key: id,
+        name: scenarios.find(s => s.id === id)?.name || 'Scenario',
+        steps: compareResults[id].steps,
+        summary: compareResults[id].summary,
+      })),
+  ];
+
+  const describeFlow = (f: OrderFlow) => {
+    if (f.source === 'synthetic') return `${f.trades} synthetic trades`;
+    const coin = coins.find(c => c.id === f.coinId);
+    return `${coin ? coin.symbol : 'Coin'} trade history`;
+  };
+
+  const rows = Array.from({ length: Math.max(0, ...series.map(s => s.steps.length)) }, (_, i) => {
+    const row: Record<string, number> = { step: i + 1 };
+    series.forEach(s => {
+      if (s.steps[i]) row[s.key] = s.steps[i][metric];
+    });
+    return row;
+  });
+
+  return (
+    <div className="space-y-6">
+      <Card className="glass-card">
+        <CardHeader className="p-4 sm:p-6">
+          <CardTitle className="flex items-center gap-2 text-base sm:text-lg"><FlaskConical className="h-5 w-5 text-primary" />Bonding Curve Simulator</CardTitle>
+          <CardDescription className="text-xs">
+            Replay synthetic or historical order flow from launch through the same pricing as live trades
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-6 p-4 sm:p-6 pt-0">
+          <div className="space-y-2">
+            <Label className="text-sm">Copy curve from coin</Label>
+            <Select onValueChange={handleLoadCoin}>
+              <SelectTrigger><SelectValue placeholder="Choose a coin (optional)" /></SelectTrigger>
+              <SelectContent>
+                {coins.map(c => <SelectItem key={c.id} value={c.id}>{c.name} ({c.symbol})</SelectItem>)}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="grid gap-4 sm:grid-cols-3">
+            {PARAM_FIELDS.map(f => (
+              <div key={f.key} className="space-y-2">
+                <Label className="text-sm">{f.label}</Label>
+                <Input
+                  type="number"
+                  step={f.step}
+                  value={params[f.key] as number}
+                  onChange={(e) => setParams({ ...params, [f.key]: parseFloat(e.target.value) || 0 })}
+                  className="font-mono"
+                />
+              </div>
+            ))}
+          </div>
+
+          <div className="space-y-4 rounded-lg border border-border/50 p-4">
+            <div className="flex items-center justify-between">
+              <Label className="text-sm">Graduation</Label>
+              <Switch checked={params.graduationEnabled} onCheckedChange={(v) => setParams({ ...params, graduationEnabled: v })} />
+            </div>
+            {params.graduationEnabled && (
+              <div className="grid gap-4 sm:grid-cols-4">
+                <div className="space-y-2">
+                  <Label className="text-xs">Graduate when</Label>
+                  <Select value={params.graduationMetric} onValueChange={(v) => setParams({ ...params, graduationMetric: v as CurveParams['graduationMetric'] })}>
+                    <SelectTrigger><SelectValue /></SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="market_cap">Market cap reaches</SelectItem>
+                      <SelectItem value="liquidity">Liquidity reaches</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="space-y-2">
+                  <Label className="text-xs">Threshold (KES)</Label>
+                  <Input type="number" value={params.graduationThreshold} onChange={(e) => setParams({ ...params, graduationThreshold: parseFloat(e.target.value) || 0 })} className="font-mono" />
+                </div>
+                <div className="space-y-2">
+                  <Label className="text-xs">Pool seeding</Label>
+                  <Select value={params.graduationSeedRule} onValueChange={(v) => setParams({ ...params, graduationSeedRule: v as CurveParams['graduationSeedRule'] })}>
+                    <SelectTrigger><SelectValue /></SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="match_price">Match current price</SelectItem>
+                      <SelectItem value="remaining_supply">All unsold supply</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="space-y-2">
+                  <Label className="text-xs">Liquidity seeded (%)</Label>
+                  <Input type="number" value={params.graduationSeedPercentage} onChange={(e) => setParams({ ...params, graduationSeedPercentage: parseFloat(e.target.value) || 0 })} className="font-mono" />
+                </div>
+              </div>
+            )}
+          </div>
+
+          <div className="space-y-4 rounded-lg border border-border/50 p-4">
+            <div className="grid gap-4 sm:grid-cols-4">
+              <div className="space-y-2">
+                <Label className="text-xs">Order flow</Label>
+                <Select
+                  value={flow.source}
+                  onValueChange={(v) => setFlow(v === 'historical' ? { source: 'historical', coinId: '' } : DEFAULT_SYNTHETIC_FLOW)}
+                >
+                  <SelectTrigger><SelectValue /></SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="synthetic">Synthetic</SelectItem>
+                    <SelectItem value="historical">Coin trade history</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+              {flow.source === 'historical' ? (
+                <div className="space-y-2 sm:col-span-3">
+                  <Label className="text-xs">Replay trades of</Label>
+                  <Select value={flow.coinId || undefined} onValueChange={(v) => setFlow({ source: 'historical', coinId: v })}>
+                    <SelectTrigger><SelectValue placeholder="Choose a coin" /></SelectTrigger>
+                    <SelectContent>
+                      {coins.map(c => <SelectItem key={c.id} value={c.id}>{c.name} ({c.symbol})</SelectItem>)}
+                    </SelectContent>
+                  </Select>
+                </div>
+              ) : (
+                <>
+                  <div className="space-y-2">
+                    <Label className="text-xs">Trades</Label>
+                    <Input type="number" value={flow.trades} onChange={(e) => setFlow({ ...flow, trades: parseInt(e.target.value) || 0 })} className="font-mono" />
+                  </div>
+                  <div className="space-y-2">
+                    <Label className="text-xs">Average trade (KES)</Label>
+                    <Input type="number" value={flow.avgTradeKes} onChange={(e) => setFlow({ ...flow, avgTradeKes: parseFloat(e.target.value) || 0 })} className="font-mono" />
+                  </div>
+                  <div className="space-y-2">
+                    <Label className="text-xs">Buys (%) · Seed</Label>
+                    <div className="flex gap-2">
+                      <Input type="number" value={Math.round(flow.buyRatio * 100)} onChange={(e) => setFlow({ ...flow, buyRatio: Math.min(100, Math.max(0, parseFloat(e.target.value) || 0)) / 100 })} className="font-mono" />
+                      <Input type="number" value={flow.seed} onChange={(e) => setFlow({ ...flow, seed: parseInt(e.target.value) || 0 })} className="font-mono" />
+                    </div>
+                  </div>
+                </>
+              )}
+            </div>
+          </div>
+
+          <div className="flex flex-wrap gap-2">
+            <Button onClick={handleRun} disabled={running} className="gap-2">
+              {running ? <Loader2 className="h-4 w-4 animate-spin" /> : <Play className="h-4 w-4" />}
+              Run Simulation
+            </Button>
+            <Button variant="outline" onClick={handleApplyPlatform} disabled={applying} className="gap-2">
+              {applying ? <Loader2 className="h-4 w-4 animate-spin" /> : <Upload className="h-4 w-4" />}
+              Apply to Platform
+            </Button>
+          </div>
+        </CardContent>
+      </Card>
+
+      {series.length > 0 && (
+        <Card className="glass-card">
+          <CardHeader className="p-4 sm:p-6">
+            <div className="flex flex-wrap items-center justify-between gap-2">
+              <CardTitle className="text-base sm:text-lg">Results</CardTitle>
+              <Tabs value={metric} onValueChange={(v) => setMetric(v as Metric)}>
+                <TabsList>
+                  {METRICS.map(m => <TabsTrigger key={m.key} value={m.key} className="text-xs">{m.label}</TabsTrigger>)}
+                </TabsList>
+              </Tabs>
+            </div>
+          </CardHeader>
+          <CardContent className="space-y-6 p-4 sm:p-6 pt-0">
+            <div className="h-72">
+              <ResponsiveContainer width="100%" height="100%">
+                <LineChart data={rows} margin={{ top: 10, right: 10, left: 0, bottom: 0 }}>
+                  <XAxis dataKey="step" tick={{ fontSize: 10 }} axisLine={false} tickLine={false} />
+                  <YAxis tick={{ fontSize: 10 }} axisLine={false} tickLine={false} width={70}
+                    tickFormatter={(v: number) => v.toLocaleString(undefined, { notation: 'compact', maximumSignificantDigits: 3 })} />
+                  <Tooltip
+                    formatter={(v: number) => kes(v)}
+                    labelFormatter={(step) => `Trade ${step}`}
+                    contentStyle={{ background: 'hsl(var(--card))', border: '1px solid hsl(var(--border))', fontSize: 12 }}
+                  />
+                  <Legend wrapperStyle={{ fontSize: 12 }} />
+                  {series.map((s, i) => (
+                    <Line key={s.key} type="monotone" dataKey={s.key} name={s.name} stroke={SERIES_COLORS[i % SERIES_COLORS.length]}
+                      dot={false} strokeWidth={2} isAnimationActive={false} />
+                  ))}
+                </LineChart>
+              </ResponsiveContainer>
+            </div>
+
+            <div className="overflow-x-auto">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Scenario</TableHead>
+                    <TableHead className="text-right">Final price</TableHead>
+                    <TableHead className="text-right">Peak price</TableHead>
+                    <TableHead className="text-right">Market cap</TableHead>
+                    <TableHead className="text-right">Liquidity</TableHead>
+                    <TableHead className="text-right">Fee revenue</TableHead>
+                    <TableHead className="text-right">Avg / max impact</TableHead>
+                    <TableHead className="text-right">Filled</TableHead>
+                    <TableHead>Graduated</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {series.map(s => (
+                    <TableRow key={s.key}>
+                      <TableCell className="font-medium">{s.name}</TableCell>
+                      <TableCell className="text-right font-mono text-xs">{kes(s.summary.finalPrice)}</TableCell>
+                      <TableCell className="text-right font-mono text-xs">{kes(s.summary.peakPrice)}</TableCell>
+                      <TableCell className="text-right font-mono text-xs">{kes(s.summary.finalMarketCap)}</TableCell>
+                      <TableCell className="text-right font-mono text-xs">{kes(s.summary.finalLiquidity)}</TableCell>
+                      <TableCell className="text-right font-mono text-xs">{kes(s.summary.feeRevenue)}</TableCell>
+                      <TableCell className="text-right font-mono text-xs">
+                        {s.summary.avgPriceImpactPct.toFixed(2)}% / {s.summary.maxPriceImpactPct.toFixed(2)}%
+                      </TableCell>
+                      <TableCell className="text-right font-mono text-xs">
+                        {s.summary.trades}
+                        {s.summary.rejected > 0 && <span className="text-destructive"> ({s.summary.rejected} rejected)</span>}
+                      </TableCell>
+                      <TableCell>
+                        {s.summary.graduatedAtStep
+                          ? <Badge variant="secondary" className="text-[10px]">Trade {s.summary.graduatedAtStep}</Badge>
+                          : <span className="text-xs text-muted-foreground">No</span>}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+          </CardContent>
+        </Card>
+      )}
+
+      <Card className="glass-card">
+        <CardHeader className="p-4 sm:p-6">
+          <CardTitle className="text-base sm:text-lg">Saved Scenarios</CardTitle>
+          <CardDescription className="text-xs">Save the current parameters and flow, then tick scenarios to chart them against it</CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4 p-4 sm:p-6 pt-0">
+          <div className="flex gap-2">
+            <Input placeholder="Scenario name" value={scenarioName} onChange={(e) => setScenarioName(e.target.value)} />
+            <Button onClick={handleSaveScenario} disabled={saving} className="gap-2 shrink-0">
+              {saving ? <Loader2 className="h-4 w-4 animate-spin" /> : <Save className="h-4 w-4" />}
+              Save
+            </Button>
+          </div>
+          {scenarios.length === 0 ? (
+            <p className="text-sm text-muted-foreground text-center py-6">No saved scenarios yet</p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead className="w-16">Compare</TableHead>
+                  <TableHead>Name</TableHead>
+                  <TableHead>Flow</TableHead>
+                  <TableHead>Updated</TableHead>
+                  <TableHead className="text-right">Actions</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {scenarios.map(s => (
+                  <TableRow key={s.id}>
+                    <TableCell>
+                      <Checkbox checked={compareIds.includes(s.id)} onCheckedChange={(v) => toggleCompare(s.id, v === true)} />
+                    </TableCell>
+                    <TableCell className="font-medium">{s.name}</TableCell>
+                    <TableCell className="text-xs text-muted-foreground">
+                      {describeFlow(s.flow)}
+                    </TableCell>
+                    <TableCell className="text-xs text-muted-foreground">{new Date(s.updated_at).toLocaleDateString()}</TableCell>
+                    <TableCell className="text-right">
+                      <div className="flex justify-end gap-1">
+                        <Button variant="ghost" size="icon" className="h-8 w-8" title="Load" onClick={() => handleLoadScenario(s)}>
+                          <Download className="h-4 w-4" />
+                        </Button>
+                        <Button variant="ghost" size="icon" className="h-8 w-8 text-destructive" title="Delete" onClick={() => handleDeleteScenario(s)}>
+                          <Trash2 className="h-4 w-4" />
+                        </Button>
+                      </div>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
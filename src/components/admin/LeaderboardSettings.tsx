@@ -0,0 +1,191 @@
+import { useState, useEffect, useCallback } from 'react';
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import {
+  Table, TableBody, TableCell, TableHead, TableHeader, TableRow,
+} from '@/components/ui/table';
+import { Trophy, Loader2, RefreshCw, Plus, Trash2 } from 'lucide-react';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/lib/auth-context';
+import { toast } from 'sonner';
+
+interface Exclusion {
+  user_id: string;
+  reason: string | null;
+  created_at: string;
+  email: string | null;
+  full_name: string | null;
+}
+
+interface RefreshResult {
+  coin_rows: number;
+  trader_rows: number;
+  excluded: number;
+  computed_at: string;
+}
+
+export function LeaderboardSettings() {
+  const { user } = useAuth();
+  const [exclusions, setExclusions] = useState<Exclusion[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [email, setEmail] = useState('');
+  const [reason, setReason] = useState('');
+  const [adding, setAdding] = useState(false);
+  const [refreshing, setRefreshing] = useState(false);
+  const [lastRefresh, setLastRefresh] = useState<RefreshResult | null>(null);
+
+  const fetchExclusions = useCallback(async () => {
+    const { data, error } = await supabase
+      .from('leaderboard_exclusions')
+      .select('user_id, reason, created_at')
+      .order('created_at', { ascending: false });
+    if (error) console.error('Error fetching leaderboard exclusions:', error);
+    const rows = data || [];
+    const { data: profiles } = rows.length
+      ? await supabase.from('profiles').select('user_id, email, full_name').in('user_id', rows.map(r => r.user_id))
+      : { data: [] };
+    const profileMap = new Map((profiles || []).map(p => [p.user_id, p]));
+    setExclusions(rows.map(r => ({
+      ...r,
+      email: profileMap.get(r.user_id)?.email ?? null,
+      full_name: profileMap.get(r.user_id)?.full_name ?? null,
+    })));
+    setLoading(false);
+  }, []);
+
+  useEffect(() => {
+    fetchExclusions();
+  }, [fetchExclusions]);
+
+  const handleAdd = async () => {
+    const target = email.trim().toLowerCase();
+    if (!target) return;
+    setAdding(true);
+    try {
+      const { data: profile, error: lookupError } = await supabase
+        .from('profiles')
+        .select('user_id')
+        .ilike('email', target)
+        .maybeSingle();
+      if (lookupError) throw lookupError;
+      if (!profile) throw new Error('No account with that email');
+
+      const { error } = await supabase
+        .from('leaderboard_exclusions')
+        .upsert({ user_id: profile.user_id, reason: reason.trim() || null, created_by: user?.id });
+      if (error) throw error;
+      toast.success('Account excluded from leaderboards from the next refresh');
+      setEmail('');
+      setReason('');
+      fetchExclusions();
+    } catch (e) {
+      toast.error((e as Error).message || 'Failed to exclude account');
+    }
+    setAdding(false);
+  };
+
+  const handleRemove = async (row: Exclusion) => {
+    const { error } = await supabase.from('leaderboard_exclusions').delete().eq('user_id', row.user_id);
+    if (error) {
+      toast.error(error.message);
+      return;
+    }
+    toast.success('Account will be ranked again from the next refresh');
+    fetchExclusions();
+  };
+
+  const handleRefresh = async () => {
+    setRefreshing(true);
+    const { data, error } = await supabase.rpc('refresh_leaderboards');
+    setRefreshing(false);
+    if (error) {
+      toast.error(error.message);
+      return;
+    }
+    setLastRefresh(data as unknown as RefreshResult);
+    toast.success('Leaderboards refreshed');
+  };
+
+  return (
+    <div className="space-y-4">
+      <Card className="glass-card">
+        <CardHeader className="flex flex-row items-start justify-between gap-4">
+          <div>
+            <CardTitle className="text-base flex items-center gap-2">
+              <Trophy className="h-4 w-4 text-primary" /> Leaderboards
+            </CardTitle>
+            <CardDescription className="text-xs">
+              Rankings are rebuilt every 10 minutes. The market-maker account and its trades are always left out.
+            </CardDescription>
+          </div>
+          <Button variant="outline" size="sm" onClick={handleRefresh} disabled={refreshing} className="gap-1.5 shrink-0">
+            {refreshing ? <Loader2 className="h-3.5 w-3.5 animate-spin" /> : <RefreshCw className="h-3.5 w-3.5" />}
+            Refresh now
+          </Button>
+        </CardHeader>
+        {lastRefresh && (
+          <CardContent className="pt-0">
+            <p className="text-xs text-muted-foreground">
+              Ranked {lastRefresh.coin_rows} coin and {lastRefresh.trader_rows} trader entries, {lastRefresh.excluded} account(s) excluded,
+              at {new Date(lastRefresh.computed_at).toLocaleTimeString()}.
+            </p>
+          </CardContent>
+        )}
+      </Card>
+
+      <Card className="glass-card">
+        <CardHeader>
+          <CardTitle className="text-sm">Excluded accounts</CardTitle>
+          <CardDescription className="text-xs">
+            House, test or promotional accounts that shouldn't rank as traders or count towards coin volume and new holders.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="flex flex-col sm:flex-row gap-2">
+            <Input value={email} onChange={e => setEmail(e.target.value)} placeholder="Account email" className="sm:w-64" />
+            <Input value={reason} onChange={e => setReason(e.target.value)} placeholder="Reason (optional)" maxLength={120} />
+            <Button onClick={handleAdd} disabled={adding || !email.trim()} className="gap-1.5 shrink-0">
+              {adding ? <Loader2 className="h-4 w-4 animate-spin" /> : <Plus className="h-4 w-4" />}
+              Exclude
+            </Button>
+          </div>
+
+          {loading ? (
+            <div className="flex justify-center py-4"><Loader2 className="h-5 w-5 animate-spin text-primary" /></div>
+          ) : exclusions.length === 0 ? (
+            <p className="text-xs text-muted-foreground text-center py-2">No accounts excluded</p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Account</TableHead>
+                  <TableHead>Reason</TableHead>
+                  <TableHead>Since</TableHead>
+                  <TableHead />
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {exclusions.map(row => (
+                  <TableRow key={row.user_id}>
+                    <TableCell>
+                      <p className="text-sm">{row.full_name || row.email || row.user_id}</p>
+                      {row.full_name && row.email && <p className="text-[10px] text-muted-foreground">{row.email}</p>}
+                    </TableCell>
+                    <TableCell className="text-xs text-muted-foreground">{row.reason || '—'}</TableCell>
+                    <TableCell className="text-xs text-muted-foreground">{new Date(row.created_at).toLocaleDateString()}</TableCell>
+                    <TableCell className="text-right">
+                      <Button variant="ghost" size="icon" className="h-8 w-8" title="Rank again" onClick={() => handleRemove(row)}>
+                        <Trash2 className="h-4 w-4 text-destructive" />
+                      </Button>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,265 @@
+import { useState, useEffect, useCallback } from 'react';
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import {
+  Table, TableBody, TableCell, TableHead, TableHeader, TableRow,
+} from '@/components/ui/table';
+import { Scale, Loader2, RefreshCw, Users, Percent, Wallet } from 'lucide-react';
+import { supabase } from '@/integrations/supabase/client';
+
+interface CoinReport {
+  coin_id: string;
+  name: string;
+  symbol: string;
+  enabled: boolean;
+  strategy: string;
+  maker_trades: number;
+  maker_buy_volume: number;
+  maker_sell_volume: number;
+  maker_fees: number;
+  organic_trades: number;
+  organic_buy_volume: number;
+  organic_sell_volume: number;
+  maker_share_pct: number;
+  rejected_actions: number;
+  inventory: number;
+  committed_kes: number;
+  budget_kes: number;
+}
+
+interface MakerAction {
+  id: string;
+  strategy: string;
+  side: string;
+  amount: number;
+  total_value: number | null;
+  price_before: number | null;
+  price_after: number | null;
+  reason: string | null;
+  status: string;
+  error: string | null;
+  params: Record<string, number> | null;
+  created_at: string;
+  coin: { symbol: string } | null;
+}
+
+const PERIODS: Record<string, { label: string; hours: number }> = {
+  '24h': { label: 'Last 24 hours', hours: 24 },
+  '7d': { label: 'Last 7 days', hours: 24 * 7 },
+  '30d': { label: 'Last 30 days', hours: 24 * 30 },
+};
+
+const STRATEGY_LABELS: Record<string, string> = {
+  mean_reversion: 'Mean reversion',
+  spread: 'Spread',
+  volume_noise: 'Volume noise',
+};
+
+const kes = (n: number) => `KES ${Number(n || 0).toLocaleString(undefined, { maximumFractionDigits: 2 })}`;
+
+export function MarketMakerReport() {
+  const [period, setPeriod] = useState('7d');
+  const [rows, setRows] = useState<CoinReport[]>([]);
+  const [actions, setActions] = useState<MakerAction[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  const fetchReport = useCallback(async () => {
+    setLoading(true);
+    try {
+      const from = new Date(Date.now() - PERIODS[period].hours * 3600 * 1000).toISOString();
+      const [{ data: report, error }, { data: recent }] = await Promise.all([
+        supabase.rpc('get_market_maker_report', { _from: from }),
+        supabase
+          .from('market_maker_actions')
+          .select('id, strategy, side, amount, total_value, price_before, price_after, reason, status, error, params, created_at, coin:coins(symbol)')
+          .gte('created_at', from)
+          .order('created_at', { ascending: false })
+          .limit(50),
+      ]);
+      if (error) throw error;
+      setRows((report || []) as CoinReport[]);
+      setActions((recent || []) as unknown as MakerAction[]);
+    } catch (error) {
+      console.error('Error fetching market maker report:', error);
+    } finally {
+      setLoading(false);
+    }
+  }, [period]);
+
+  useEffect(() => {
+    fetchReport();
+  }, [fetchReport]);
+
+  const makerVolume = rows.reduce((sum, r) => sum + Number(r.maker_buy_volume) + Number(r.maker_sell_volume), 0);
+  const organicVolume = rows.reduce((sum, r) => sum + Number(r.organic_buy_volume) + Number(r.organic_sell_volume), 0);
+  const committed = rows.reduce((sum, r) => sum + Number(r.committed_kes), 0);
+  const share = makerVolume + organicVolume > 0 ? makerVolume / (makerVolume + organicVolume) * 100 : 0;
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <div>
+          <h2 className="text-lg font-semibold flex items-center gap-2"><Scale className="h-5 w-5 text-primary" />Market Maker</h2>
+          <p className="text-xs text-muted-foreground">House-account trading kept apart from organic trading on coins it has touched</p>
+        </div>
+        <div className="flex gap-2">
+          <Select value={period} onValueChange={setPeriod}>
+            <SelectTrigger className="w-40"><SelectValue /></SelectTrigger>
+            <SelectContent>
+              {Object.entries(PERIODS).map(([key, p]) => <SelectItem key={key} value={key}>{p.label}</SelectItem>)}
+            </SelectContent>
+          </Select>
+          <Button variant="outline" size="icon" onClick={fetchReport} disabled={loading}>
+            <RefreshCw className={`h-4 w-4 ${loading ? 'animate-spin' : ''}`} />
+          </Button>
+        </div>
+      </div>
+
+      <div className="grid gap-4 md:grid-cols-4">
+        <Card className="glass-card">
+          <CardHeader className="pb-2">
+            <CardTitle className="text-sm font-medium text-muted-foreground flex items-center gap-2"><Scale className="h-4 w-4" />Maker Volume</CardTitle>
+          </CardHeader>
+          <CardContent><div className="text-2xl font-bold">{kes(makerVolume)}</div></CardContent>
+        </Card>
+        <Card className="glass-card">
+          <CardHeader className="pb-2">
+            <CardTitle className="text-sm font-medium text-muted-foreground flex items-center gap-2"><Users className="h-4 w-4" />Organic Volume</CardTitle>
+          </CardHeader>
+          <CardContent><div className="text-2xl font-bold">{kes(organicVolume)}</div></CardContent>
+        </Card>
+        <Card className="glass-card">
+          <CardHeader className="pb-2">
+            <CardTitle className="text-sm font-medium text-muted-foreground flex items-center gap-2"><Percent className="h-4 w-4" />Maker Share</CardTitle>
+          </CardHeader>
+          <CardContent><div className="text-2xl font-bold">{share.toFixed(1)}%</div></CardContent>
+        </Card>
+        <Card className="glass-card">
+          <CardHeader className="pb-2">
+            <CardTitle className="text-sm font-medium text-muted-foreground flex items-center gap-2"><Wallet className="h-4 w-4" />House Committed</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <div className="text-2xl font-bold">{kes(committed)}</div>
+            <p className="text-xs text-muted-foreground mt-1">Buys less sells, all time</p>
+          </CardContent>
+        </Card>
+      </div>
+
+      <Card className="glass-card">
+        <CardHeader>
+          <CardTitle className="text-base">By Coin</CardTitle>
+          <CardDescription>Completed trades in the period, split by who made them</CardDescription>
+        </CardHeader>
+        <CardContent>
+          {loading ? (
+            <div className="flex justify-center py-12"><Loader2 className="h-8 w-8 animate-spin text-primary" /></div>
+          ) : rows.length === 0 ? (
+            <p className="text-center py-12 text-sm text-muted-foreground">No coins have the market maker switched on</p>
+          ) : (
+            <div className="overflow-x-auto">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Coin</TableHead>
+                    <TableHead>Strategy</TableHead>
+                    <TableHead className="text-right">Maker buys / sells</TableHead>
+                    <TableHead className="text-right">Organic buys / sells</TableHead>
+                    <TableHead className="text-right">Maker share</TableHead>
+                    <TableHead className="text-right">Fees paid</TableHead>
+                    <TableHead className="text-right">Inventory</TableHead>
+                    <TableHead className="text-right">Budget used</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {rows.map(r => (
+                    <TableRow key={r.coin_id}>
+                      <TableCell>
+                        <div className="font-medium">{r.symbol}</div>
+                        {!r.enabled && <Badge variant="outline" className="text-[10px]">Off</Badge>}
+                      </TableCell>
+                      <TableCell className="text-xs">{STRATEGY_LABELS[r.strategy] || r.strategy}</TableCell>
+                      <TableCell className="text-right font-mono text-xs">
+                        {kes(r.maker_buy_volume)} / {kes(r.maker_sell_volume)}
+                        <div className="text-muted-foreground">
+                          {r.maker_trades} trades{r.rejected_actions > 0 && <span className="text-destructive">, {r.rejected_actions} refused</span>}
+                        </div>
+                      </TableCell>
+                      <TableCell className="text-right font-mono text-xs">
+                        {kes(r.organic_buy_volume)} / {kes(r.organic_sell_volume)}
+                        <div className="text-muted-foreground">{r.organic_trades} trades</div>
+                      </TableCell>
+                      <TableCell className="text-right font-mono text-xs">{Number(r.maker_share_pct).toFixed(1)}%</TableCell>
+                      <TableCell className="text-right font-mono text-xs">{kes(r.maker_fees)}</TableCell>
+                      <TableCell className="text-right font-mono text-xs">{Number(r.inventory).toLocaleString()}</TableCell>
+                      <TableCell className="text-right font-mono text-xs">{kes(r.committed_kes)} / {kes(r.budget_kes)}</TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card className="glass-card">
+        <CardHeader>
+          <CardTitle className="text-base">Action Log</CardTitle>
+          <CardDescription>Latest 50 market-maker actions with the strategy parameters they ran with</CardDescription>
+        </CardHeader>
+        <CardContent>
+          {actions.length === 0 ? (
+            <p className="text-center py-8 text-sm text-muted-foreground">No actions in this period</p>
+          ) : (
+            <div className="overflow-x-auto">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Time</TableHead>
+                    <TableHead>Coin</TableHead>
+                    <TableHead>Action</TableHead>
+                    <TableHead className="text-right">Value</TableHead>
+                    <TableHead className="text-right">Price</TableHead>
+                    <TableHead>Why</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {actions.map(a => (
+                    <TableRow key={a.id}>
+                      <TableCell className="text-xs text-muted-foreground whitespace-nowrap">{new Date(a.created_at).toLocaleString()}</TableCell>
+                      <TableCell className="font-medium">{a.coin?.symbol || '-'}</TableCell>
+                      <TableCell>
+                        <div className="flex items-center gap-1">
+                          <Badge variant={a.side === 'buy' ? 'default' : 'secondary'} className="text-[10px] uppercase">{a.side}</Badge>
+                          {a.status === 'rejected' && <Badge variant="destructive" className="text-[10px]">Refused</Badge>}
+                        </div>
+                        <div className="text-xs text-muted-foreground mt-0.5">{STRATEGY_LABELS[a.strategy] || a.strategy}</div>
+                      </TableCell>
+                      <TableCell className="text-right font-mono text-xs">
+                        {a.total_value !== null ? kes(a.total_value) : '-'}
+                        <div className="text-muted-foreground">{Number(a.amount).toLocaleString(undefined, { maximumFractionDigits: 2 })} tokens</div>
+                      </TableCell>
+                      <TableCell className="text-right font-mono text-xs whitespace-nowrap">
+                        {a.price_before !== null ? Number(a.price_before).toPrecision(6) : '-'}
+                        {a.price_after !== null && <> → {Number(a.price_after).toPrecision(6)}</>}
+                      </TableCell>
+                      <TableCell className="text-xs max-w-xs">
+                        <div>{a.error || a.reason || '-'}</div>
+                        {a.params && Object.keys(a.params).length > 0 && (
+                          <div className="text-muted-foreground font-mono text-[10px]">
+                            {Object.entries(a.params).map(([k, v]) => `${k}=${v}`).join(' ')}
+                          </div>
+                        )}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -6,10 +6,12 @@ import { Label } from '@/components/ui/label';
 import { Textarea } from '@/components/ui/textarea';
 import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/components/ui/card';
 import { Slider } from '@/components/ui/slider';
+import { Switch } from '@/components/ui/switch';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { 
   Settings, Loader2, Save, Globe, CreditCard, Percent,
   Image as ImageIcon, DollarSign, AlertTriangle, Coins, Gift,
-  Share2, Search as SearchIcon
+  Share2, Search as SearchIcon, GraduationCap, ShieldAlert, Gauge, Scale, KeyRound
 } from 'lucide-react';
 import { toast } from 'sonner';
 
@@ -36,6 +38,36 @@ interface SiteSettings {
   facebook_url: string;
   google_verification_code: string;
   seo_keywords: string;
+  graduation_enabled: boolean;
+  graduation_metric: string;
+  graduation_threshold: number;
+  graduation_seed_rule: string;
+  graduation_seed_percentage: number;
+  circuit_breaker_enabled: boolean;
+  circuit_breaker_move_pct: number;
+  circuit_breaker_window_minutes: number;
+  circuit_breaker_cooldown_minutes: number;
+  circuit_breaker_wallet_share_pct: number;
+  circuit_breaker_min_volume: number;
+  circuit_breaker_auto_resume: boolean;
+  trade_limit_kes_per_hour: number;
+  trade_limit_kes_per_day: number;
+  trade_limit_max_holding_pct: number;
+  trade_limit_cooldown_seconds: number;
+  market_maker_enabled: boolean;
+  market_maker_user_id: string;
+  market_maker_daily_budget_kes: number;
+  public_api_enabled: boolean;
+  public_api_default_rate_limit: number;
+}
+
+interface CircuitBreakerTrip {
+  id: string;
+  message: string;
+  resumes_at: string | null;
+  resolved_at: string | null;
+  created_at: string;
+  coin: { symbol: string } | null;
 }
 
 export function PlatformSettings() {
@@ -43,8 +75,18 @@ export function PlatformSettings() {
   const [loading, setLoading] = useState(true);
   const [saving, setSaving] = useState(false);
   const [uploading, setUploading] = useState(false);
+  const [trips, setTrips] = useState<CircuitBreakerTrip[]>([]);
 
-  useEffect(() => { fetchSettings(); }, []);
+  useEffect(() => { fetchSettings(); fetchTrips(); }, []);
+
+  const fetchTrips = async () => {
+    const { data } = await supabase
+      .from('circuit_breaker_trips')
+      .select('id, message, resumes_at, resolved_at, created_at, coin:coins(symbol)')
+      .order('created_at', { ascending: false })
+      .limit(5);
+    setTrips((data || []) as CircuitBreakerTrip[]);
+  };
 
   const fetchSettings = async () => {
     try {
@@ -64,6 +106,27 @@ export function PlatformSettings() {
           facebook_url: (data as any).facebook_url ?? '',
           google_verification_code: (data as any).google_verification_code ?? '',
           seo_keywords: (data as any).seo_keywords ?? '',
+          graduation_enabled: data.graduation_enabled ?? false,
+          graduation_metric: data.graduation_metric ?? 'market_cap',
+          graduation_threshold: data.graduation_threshold ?? 1000000,
+          graduation_seed_rule: data.graduation_seed_rule ?? 'match_price',
+          graduation_seed_percentage: data.graduation_seed_percentage ?? 100,
+          circuit_breaker_enabled: data.circuit_breaker_enabled ?? false,
+          circuit_breaker_move_pct: data.circuit_breaker_move_pct ?? 25,
+          circuit_breaker_window_minutes: data.circuit_breaker_window_minutes ?? 15,
+          circuit_breaker_cooldown_minutes: data.circuit_breaker_cooldown_minutes ?? 30,
+          circuit_breaker_wallet_share_pct: data.circuit_breaker_wallet_share_pct ?? 60,
+          circuit_breaker_min_volume: data.circuit_breaker_min_volume ?? 50000,
+          circuit_breaker_auto_resume: data.circuit_breaker_auto_resume ?? true,
+          trade_limit_kes_per_hour: data.trade_limit_kes_per_hour ?? 0,
+          trade_limit_kes_per_day: data.trade_limit_kes_per_day ?? 0,
+          trade_limit_max_holding_pct: data.trade_limit_max_holding_pct ?? 0,
+          trade_limit_cooldown_seconds: data.trade_limit_cooldown_seconds ?? 0,
+          market_maker_enabled: data.market_maker_enabled ?? false,
+          market_maker_user_id: data.market_maker_user_id ?? '',
+          market_maker_daily_budget_kes: data.market_maker_daily_budget_kes ?? 0,
+          public_api_enabled: data.public_api_enabled ?? true,
+          public_api_default_rate_limit: data.public_api_default_rate_limit ?? 60,
         } as SiteSettings);
       }
     } catch (error) {
@@ -100,6 +163,27 @@ export function PlatformSettings() {
         facebook_url: settings.facebook_url,
         google_verification_code: settings.google_verification_code,
         seo_keywords: settings.seo_keywords,
+        graduation_enabled: settings.graduation_enabled,
+        graduation_metric: settings.graduation_metric,
+        graduation_threshold: settings.graduation_threshold,
+        graduation_seed_rule: settings.graduation_seed_rule,
+        graduation_seed_percentage: settings.graduation_seed_percentage,
+        circuit_breaker_enabled: settings.circuit_breaker_enabled,
+        circuit_breaker_move_pct: settings.circuit_breaker_move_pct,
+        circuit_breaker_window_minutes: settings.circuit_breaker_window_minutes,
+        circuit_breaker_cooldown_minutes: settings.circuit_breaker_cooldown_minutes,
+        circuit_breaker_wallet_share_pct: settings.circuit_breaker_wallet_share_pct,
+        circuit_breaker_min_volume: settings.circuit_breaker_min_volume,
+        circuit_breaker_auto_resume: settings.circuit_breaker_auto_resume,
+        trade_limit_kes_per_hour: settings.trade_limit_kes_per_hour,
+        trade_limit_kes_per_day: settings.trade_limit_kes_per_day,
+        trade_limit_max_holding_pct: settings.trade_limit_max_holding_pct,
+        trade_limit_cooldown_seconds: settings.trade_limit_cooldown_seconds,
+        market_maker_enabled: settings.market_maker_enabled,
+        market_maker_user_id: settings.market_maker_user_id.trim() || null,
+        market_maker_daily_budget_kes: settings.market_maker_daily_budget_kes,
+        public_api_enabled: settings.public_api_enabled,
+        public_api_default_rate_limit: settings.public_api_default_rate_limit,
       } as any).eq('id', settings.id);
       if (error) throw error;
       toast.success('Settings saved successfully!');
@@ -211,6 +295,190 @@ export function PlatformSettings() {
         </CardContent>
       </Card>
 
+      {/* Anti-Whale Limits */}
+      <Card className="glass-card">
+        <CardHeader className="p-4 sm:p-6">
+          <CardTitle className="flex items-center gap-2 text-base sm:text-lg"><Gauge className="h-5 w-5 text-primary" />Anti-Whale Limits</CardTitle>
+          <CardDescription className="text-xs">Rolling per-user buy limits on each coin so large orders can't be split to get around the per-trade caps. 0 turns a limit off; coins can override these in Coin Management.</CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-6 p-4 sm:p-6 pt-0">
+          <div className="grid gap-4 sm:grid-cols-2">
+            <div className="space-y-2">
+              <Label className="text-sm">Max buys per hour (KES)</Label>
+              <Input type="number" value={settings.trade_limit_kes_per_hour} onChange={(e) => setSettings({ ...settings, trade_limit_kes_per_hour: parseFloat(e.target.value) || 0 })} className="font-mono" />
+            </div>
+            <div className="space-y-2">
+              <Label className="text-sm">Max buys per day (KES)</Label>
+              <Input type="number" value={settings.trade_limit_kes_per_day} onChange={(e) => setSettings({ ...settings, trade_limit_kes_per_day: parseFloat(e.target.value) || 0 })} className="font-mono" />
+            </div>
+            <div className="space-y-2">
+              <Label className="text-sm">Max holding (% of supply)</Label>
+              <Input type="number" step="0.1" value={settings.trade_limit_max_holding_pct} onChange={(e) => setSettings({ ...settings, trade_limit_max_holding_pct: parseFloat(e.target.value) || 0 })} className="font-mono" />
+            </div>
+            <div className="space-y-2">
+              <Label className="text-sm">Min seconds between trades</Label>
+              <Input type="number" value={settings.trade_limit_cooldown_seconds} onChange={(e) => setSettings({ ...settings, trade_limit_cooldown_seconds: parseInt(e.target.value) || 0 })} className="font-mono" />
+            </div>
+          </div>
+          <p className="text-xs text-muted-foreground">Sells are never limited, so holders can always exit.</p>
+        </CardContent>
+      </Card>
+
+      {/* Market Maker */}
+      <Card className="glass-card">
+        <CardHeader className="p-4 sm:p-6">
+          <CardTitle className="flex items-center gap-2 text-base sm:text-lg"><Scale className="h-5 w-5 text-primary" />Market Maker</CardTitle>
+          <CardDescription className="text-xs">Real trades from a house account on coins switched on in Coin Management, each within its own budget. Every action is logged in the Market Maker report.</CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-6 p-4 sm:p-6 pt-0">
+          <div className="flex items-center justify-between">
+            <Label className="text-sm">Enable market maker</Label>
+            <Switch checked={settings.market_maker_enabled} onCheckedChange={(v) => setSettings({ ...settings, market_maker_enabled: v })} />
+          </div>
+          <div className="grid gap-4 sm:grid-cols-2">
+            <div className="space-y-2">
+              <Label className="text-sm">House account user ID</Label>
+              <Input value={settings.market_maker_user_id} onChange={(e) => setSettings({ ...settings, market_maker_user_id: e.target.value })} placeholder="00000000-0000-0000-0000-000000000000" className="font-mono" />
+              <p className="text-xs text-muted-foreground">Its wallet funds the buys; keep it separate from any real user.</p>
+            </div>
+            <div className="space-y-2">
+              <Label className="text-sm">Daily buy budget (KES, all coins)</Label>
+              <Input type="number" value={settings.market_maker_daily_budget_kes} onChange={(e) => setSettings({ ...settings, market_maker_daily_budget_kes: parseFloat(e.target.value) || 0 })} className="font-mono" />
+            </div>
+          </div>
+        </CardContent>
+      </Card>
+
+      {/* Public API */}
+      <Card className="glass-card">
+        <CardHeader className="p-4 sm:p-6">
+          <CardTitle className="flex items-center gap-2 text-base sm:text-lg"><KeyRound className="h-5 w-5 text-primary" />Public Market Data API</CardTitle>
+          <CardDescription className="text-xs">Read-only prices, candles and trades for keys users create on their profile</CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-6 p-4 sm:p-6 pt-0">
+          <div className="flex items-center justify-between">
+            <Label className="text-sm">Enable public API</Label>
+            <Switch checked={settings.public_api_enabled} onCheckedChange={(v) => setSettings({ ...settings, public_api_enabled: v })} />
+          </div>
+          <div className="space-y-2">
+            <Label className="text-sm">Requests per minute for new keys</Label>
+            <Input type="number" min={1} value={settings.public_api_default_rate_limit} onChange={(e) => setSettings({ ...settings, public_api_default_rate_limit: Math.max(1, parseInt(e.target.value) || 1) })} className="font-mono" />
+            <p className="text-xs text-muted-foreground">Existing keys keep the limit they were created with.</p>
+          </div>
+        </CardContent>
+      </Card>
+
+      {/* Graduation */}
+      <Card className="glass-card">
+        <CardHeader className="p-4 sm:p-6">
+          <CardTitle className="flex items-center gap-2 text-base sm:text-lg"><GraduationCap className="h-5 w-5 text-primary" />Coin Graduation</CardTitle>
+          <CardDescription className="text-xs">Move coins off the bonding curve into a constant-product liquidity pool</CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-6 p-4 sm:p-6 pt-0">
+          <div className="flex items-center justify-between">
+            <Label className="text-sm">Enable graduation</Label>
+            <Switch checked={settings.graduation_enabled} onCheckedChange={(v) => setSettings({ ...settings, graduation_enabled: v })} />
+          </div>
+          <div className="grid gap-4 sm:grid-cols-2">
+            <div className="space-y-2">
+              <Label className="text-sm">Graduate when</Label>
+              <Select value={settings.graduation_metric} onValueChange={(v) => setSettings({ ...settings, graduation_metric: v })}>
+                <SelectTrigger><SelectValue /></SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="market_cap">Market cap reaches</SelectItem>
+                  <SelectItem value="liquidity">Liquidity reaches</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label className="text-sm">Threshold (KES)</Label>
+              <Input type="number" value={settings.graduation_threshold} onChange={(e) => setSettings({ ...settings, graduation_threshold: parseFloat(e.target.value) || 0 })} className="font-mono" />
+            </div>
+          </div>
+          <div className="space-y-2">
+            <Label className="text-sm">Pool seeding rule</Label>
+            <Select value={settings.graduation_seed_rule} onValueChange={(v) => setSettings({ ...settings, graduation_seed_rule: v })}>
+              <SelectTrigger><SelectValue /></SelectTrigger>
+              <SelectContent>
+                <SelectItem value="match_price">Keep current price</SelectItem>
+                <SelectItem value="remaining_supply">All unsold supply</SelectItem>
+              </SelectContent>
+            </Select>
+            <p className="text-xs text-muted-foreground">
+              {settings.graduation_seed_rule === 'match_price'
+                ? 'Pairs the seeded liquidity with just enough unsold tokens to keep the price unchanged'
+                : 'Pairs the seeded liquidity with every unsold token; the price resets to liquidity ÷ unsold supply'}
+            </p>
+          </div>
+          <div className="space-y-4">
+            <div className="flex items-center justify-between">
+              <Label className="text-sm">Liquidity used to seed the pool</Label>
+              <span className="text-lg font-bold text-primary">{settings.graduation_seed_percentage}%</span>
+            </div>
+            <Slider value={[settings.graduation_seed_percentage]} onValueChange={(v) => setSettings({ ...settings, graduation_seed_percentage: v[0] })} min={1} max={100} step={1} />
+            <p className="text-xs text-muted-foreground">Share of the coin's accumulated liquidity that becomes the pool's KES reserve</p>
+          </div>
+        </CardContent>
+      </Card>
+
+      {/* Circuit Breakers */}
+      <Card className="glass-card">
+        <CardHeader className="p-4 sm:p-6">
+          <CardTitle className="flex items-center gap-2 text-base sm:text-lg"><ShieldAlert className="h-5 w-5 text-warning" />Circuit Breakers</CardTitle>
+          <CardDescription className="text-xs">Halt a coin automatically when its price swings hard or one wallet dominates its volume</CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-6 p-4 sm:p-6 pt-0">
+          <div className="flex items-center justify-between">
+            <Label className="text-sm">Enable circuit breakers</Label>
+            <Switch checked={settings.circuit_breaker_enabled} onCheckedChange={(v) => setSettings({ ...settings, circuit_breaker_enabled: v })} />
+          </div>
+          <div className="grid gap-4 sm:grid-cols-2">
+            <div className="space-y-2">
+              <Label className="text-sm">Max price move (%)</Label>
+              <Input type="number" value={settings.circuit_breaker_move_pct} onChange={(e) => setSettings({ ...settings, circuit_breaker_move_pct: parseFloat(e.target.value) || 0 })} className="font-mono" />
+            </div>
+            <div className="space-y-2">
+              <Label className="text-sm">Within (minutes)</Label>
+              <Input type="number" value={settings.circuit_breaker_window_minutes} onChange={(e) => setSettings({ ...settings, circuit_breaker_window_minutes: parseInt(e.target.value) || 1 })} className="font-mono" />
+            </div>
+            <div className="space-y-2">
+              <Label className="text-sm">Max single-wallet share of volume (%)</Label>
+              <Input type="number" value={settings.circuit_breaker_wallet_share_pct} onChange={(e) => setSettings({ ...settings, circuit_breaker_wallet_share_pct: parseFloat(e.target.value) || 0 })} className="font-mono" />
+            </div>
+            <div className="space-y-2">
+              <Label className="text-sm">Only when window volume exceeds (KES)</Label>
+              <Input type="number" value={settings.circuit_breaker_min_volume} onChange={(e) => setSettings({ ...settings, circuit_breaker_min_volume: parseFloat(e.target.value) || 0 })} className="font-mono" />
+            </div>
+          </div>
+          <div className="flex items-center justify-between">
+            <div>
+              <Label className="text-sm">Resume automatically</Label>
+              <p className="text-xs text-muted-foreground">Off leaves tripped coins paused for manual review in Coin Management</p>
+            </div>
+            <Switch checked={settings.circuit_breaker_auto_resume} onCheckedChange={(v) => setSettings({ ...settings, circuit_breaker_auto_resume: v })} />
+          </div>
+          {settings.circuit_breaker_auto_resume && (
+            <div className="space-y-2">
+              <Label className="text-sm">Cooldown (minutes)</Label>
+              <Input type="number" value={settings.circuit_breaker_cooldown_minutes} onChange={(e) => setSettings({ ...settings, circuit_breaker_cooldown_minutes: parseInt(e.target.value) || 1 })} className="font-mono" />
+            </div>
+          )}
+          {trips.length > 0 && (
+            <div className="space-y-1.5">
+              <Label className="text-sm">Recent trips</Label>
+              {trips.map(trip => (
+                <div key={trip.id} className="flex items-center justify-between gap-2 text-xs p-2 rounded-lg bg-muted/30 border border-border/50">
+                  <span className="min-w-0 truncate"><span className="font-semibold">{trip.coin?.symbol}</span> · {trip.message}</span>
+                  <span className="text-muted-foreground shrink-0">
+                    {trip.resolved_at ? 'Resumed' : trip.resumes_at ? `Until ${new Date(trip.resumes_at).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}` : 'Needs review'}
+                  </span>
+                </div>
+              ))}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
       {/* Coin Creation & Commissions */}
       <Card className="glass-card">
         <CardHeader className="p-4 sm:p-6">
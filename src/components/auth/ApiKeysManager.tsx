@@ -0,0 +1,155 @@
+import { useState, useEffect, useCallback } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Badge } from '@/components/ui/badge';
+import { KeyRound, Plus, Loader2, Copy, Check, Trash2, ExternalLink } from 'lucide-react';
+import { toast } from 'sonner';
+
+interface ApiKey {
+  id: string;
+  name: string;
+  key_prefix: string;
+  rate_limit_per_minute: number;
+  request_count: number;
+  last_used_at: string | null;
+  revoked_at: string | null;
+  created_at: string;
+}
+
+const API_URL = `${import.meta.env.VITE_SUPABASE_URL}/functions/v1/public-api`;
+
+export function ApiKeysManager({ userId }: { userId: string }) {
+  const [keys, setKeys] = useState<ApiKey[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [name, setName] = useState('');
+  const [creating, setCreating] = useState(false);
+  const [newKey, setNewKey] = useState<string | null>(null);
+  const [copied, setCopied] = useState(false);
+
+  const fetchKeys = useCallback(async () => {
+    const { data, error } = await supabase
+      .from('api_keys')
+      .select('id, name, key_prefix, rate_limit_per_minute, request_count, last_used_at, revoked_at, created_at')
+      .eq('user_id', userId)
+      .order('created_at', { ascending: false });
+    if (error) console.error('Error fetching API keys:', error);
+    setKeys((data || []) as ApiKey[]);
+    setLoading(false);
+  }, [userId]);
+
+  useEffect(() => {
+    fetchKeys();
+  }, [fetchKeys]);
+
+  const handleCreate = async () => {
+    if (!name.trim()) {
+      toast.error('Give the key a name');
+      return;
+    }
+    setCreating(true);
+    try {
+      const { data, error } = await supabase.rpc('create_api_key', { _name: name.trim() });
+      if (error) throw error;
+      setNewKey((data as { key: string }).key);
+      setCopied(false);
+      setName('');
+      fetchKeys();
+    } catch (e) {
+      toast.error((e as Error).message || 'Failed to create key');
+    }
+    setCreating(false);
+  };
+
+  const handleRevoke = async (key: ApiKey) => {
+    if (!confirm(`Revoke "${key.name}"? Anything using it will stop working.`)) return;
+    const { error } = await supabase.rpc('revoke_api_key', { _key_id: key.id });
+    if (error) {
+      toast.error(error.message);
+      return;
+    }
+    toast.success('API key revoked');
+    fetchKeys();
+  };
+
+  const copyKey = async () => {
+    if (!newKey) return;
+    await navigator.clipboard.writeText(newKey);
+    setCopied(true);
+    toast.success('Key copied');
+  };
+
+  const active = keys.filter(k => !k.revoked_at);
+
+  return (
+    <Card className="glass-card mb-4">
+      <CardHeader>
+        <CardTitle className="text-base flex items-center gap-2">
+          <KeyRound className="h-4 w-4 text-primary" /> API Keys
+        </CardTitle>
+        <CardDescription className="text-xs">
+          Read-only access to prices, candles, trades and coin details for your apps and bots.{' '}
+          <a href={`${API_URL}/v1/openapi.json`} target="_blank" rel="noopener noreferrer" className="text-primary inline-flex items-center gap-0.5 hover:underline">
+            API reference <ExternalLink className="h-3 w-3" />
+          </a>
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {newKey && (
+          <div className="p-3 rounded-md bg-success/10 border border-success/30 space-y-2">
+            <p className="text-xs font-medium">Copy your new key now. It won't be shown again.</p>
+            <div className="flex gap-2">
+              <Input readOnly value={newKey} className="font-mono text-xs" onFocus={e => e.target.select()} />
+              <Button variant="outline" size="icon" onClick={copyKey}>
+                {copied ? <Check className="h-4 w-4 text-success" /> : <Copy className="h-4 w-4" />}
+              </Button>
+            </div>
+            <p className="text-[10px] text-muted-foreground">
+              Send it as the <code>X-API-Key</code> header, e.g. <code>curl -H "X-API-Key: …" {API_URL}/v1/tickers</code>
+            </p>
+            <Button variant="ghost" size="sm" className="h-7 text-xs" onClick={() => setNewKey(null)}>Done</Button>
+          </div>
+        )}
+
+        <div className="flex gap-2">
+          <Input value={name} onChange={e => setName(e.target.value)} placeholder="Key name, e.g. Price bot" maxLength={40} />
+          <Button onClick={handleCreate} disabled={creating || active.length >= 5} className="gap-1.5 shrink-0">
+            {creating ? <Loader2 className="h-4 w-4 animate-spin" /> : <Plus className="h-4 w-4" />}
+            Create
+          </Button>
+        </div>
+        {active.length >= 5 && <p className="text-[10px] text-muted-foreground">Revoke a key to create another (5 at most).</p>}
+
+        {loading ? (
+          <div className="flex justify-center py-4"><Loader2 className="h-5 w-5 animate-spin text-primary" /></div>
+        ) : keys.length === 0 ? (
+          <p className="text-xs text-muted-foreground text-center py-2">No API keys yet</p>
+        ) : (
+          <div className="space-y-2">
+            {keys.map(k => (
+              <div key={k.id} className={`flex items-center justify-between gap-2 p-2.5 rounded-md border border-border/50 ${k.revoked_at ? 'opacity-50' : 'bg-muted/30'}`}>
+                <div className="min-w-0">
+                  <div className="flex items-center gap-1.5">
+                    <span className="text-sm font-medium truncate">{k.name}</span>
+                    {k.revoked_at && <Badge variant="outline" className="text-[10px]">Revoked</Badge>}
+                  </div>
+                  <p className="text-[10px] text-muted-foreground font-mono">{k.key_prefix}…</p>
+                  <p className="text-[10px] text-muted-foreground">
+                    {k.rate_limit_per_minute} req/min · {Number(k.request_count).toLocaleString()} requests ·{' '}
+                    {k.last_used_at ? `last used ${new Date(k.last_used_at).toLocaleString()}` : 'never used'}
+                  </p>
+                </div>
+                {!k.revoked_at && (
+                  <Button variant="ghost" size="icon" className="h-8 w-8 shrink-0" title="Revoke key" onClick={() => handleRevoke(k)}>
+                    <Trash2 className="h-4 w-4 text-destructive" />
+                  </Button>
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
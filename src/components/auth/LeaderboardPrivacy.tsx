@@ -0,0 +1,92 @@
+import { useState, useEffect } from 'react';
+import { Link } from 'react-router-dom';
+import { supabase } from '@/integrations/supabase/client';
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Trophy, Loader2, Save } from 'lucide-react';
+import { toast } from 'sonner';
+
+export function LeaderboardPrivacy({ userId }: { userId: string }) {
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [showOnLeaderboard, setShowOnLeaderboard] = useState(false);
+  const [displayName, setDisplayName] = useState('');
+
+  useEffect(() => {
+    supabase
+      .from('profiles')
+      .select('show_on_leaderboard, leaderboard_name')
+      .eq('user_id', userId)
+      .maybeSingle()
+      .then(({ data }) => {
+        if (data) {
+          setShowOnLeaderboard(data.show_on_leaderboard);
+          setDisplayName(data.leaderboard_name || '');
+        }
+        setLoading(false);
+      });
+  }, [userId]);
+
+  const handleSave = async () => {
+    const name = displayName.trim();
+    if (name && (name.length < 2 || name.length > 30)) {
+      toast.error('Display name must be 2–30 characters');
+      return;
+    }
+    setSaving(true);
+    const { error } = await supabase
+      .from('profiles')
+      .update({ show_on_leaderboard: showOnLeaderboard, leaderboard_name: name || null })
+      .eq('user_id', userId);
+    setSaving(false);
+    if (error) {
+      toast.error(error.message);
+      return;
+    }
+    toast.success(showOnLeaderboard ? 'You will appear by name on leaderboards' : 'You will appear anonymously on leaderboards');
+  };
+
+  return (
+    <Card className="glass-card mb-4">
+      <CardHeader>
+        <CardTitle className="text-base flex items-center gap-2">
+          <Trophy className="h-4 w-4 text-primary" /> Leaderboards
+        </CardTitle>
+        <CardDescription className="text-xs">
+          Your rank on the <Link to="/leaderboards" className="text-primary hover:underline">trader leaderboards</Link> is
+          always counted. Unless you opt in, you are shown under an anonymous alias.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {loading ? (
+          <div className="flex justify-center py-2"><Loader2 className="h-5 w-5 animate-spin text-primary" /></div>
+        ) : (
+          <>
+            <div className="flex items-center justify-between">
+              <Label htmlFor="show-on-leaderboard" className="text-sm">Show my name</Label>
+              <Switch id="show-on-leaderboard" checked={showOnLeaderboard} onCheckedChange={setShowOnLeaderboard} />
+            </div>
+            {showOnLeaderboard && (
+              <div className="space-y-2">
+                <Label className="text-xs">Display name</Label>
+                <Input
+                  value={displayName}
+                  onChange={e => setDisplayName(e.target.value)}
+                  placeholder="Defaults to your first name"
+                  maxLength={30}
+                />
+              </div>
+            )}
+            <Button onClick={handleSave} disabled={saving} className="w-full gap-2">
+              {saving ? <Loader2 className="h-4 w-4 animate-spin" /> : <Save className="h-4 w-4" />}
+              Save
+            </Button>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,390 @@
+import { useState } from 'react';
+import { useQueryClient } from '@tanstack/react-query';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Textarea } from '@/components/ui/textarea';
+import { Progress } from '@/components/ui/progress';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import {
+  Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription, DialogFooter,
+} from '@/components/ui/dialog';
+import { supabase } from '@/integrations/supabase/client';
+import {
+  useAirdrops, useAirdropRecipients, useHolderSnapshots, parseRecipientList,
+  type Airdrop, type AirdropPreview,
+} from '@/hooks/use-airdrops';
+import { Gift, Loader2, Upload, Play, X, ListChecks } from 'lucide-react';
+import { toast } from 'sonner';
+
+type Asset = 'token' | 'kes';
+type Distribution = 'pro_rata' | 'equal';
+
+const formatAmount = (v: number) =>
+  Number(v).toLocaleString(undefined, { maximumFractionDigits: 6 });
+
+const STATUS_TONE: Record<string, string> = {
+  running: 'text-warning',
+  completed: 'text-success',
+  cancelled: 'text-muted-foreground',
+  pending: 'text-muted-foreground',
+  sent: 'text-success',
+  failed: 'text-destructive',
+  skipped: 'text-muted-foreground',
+};
+
+function PreviewDialog({ preview, symbol, sending, onConfirm, onOpenChange }: {
+  preview: AirdropPreview | null;
+  symbol: string;
+  sending: boolean;
+  onConfirm: () => void;
+  onOpenChange: (open: boolean) => void;
+}) {
+  const unit = preview?.asset === 'kes' ? 'KES' : symbol;
+  return (
+    <Dialog open={!!preview} onOpenChange={(v) => { if (!sending) onOpenChange(v); }}>
+      <DialogContent className="max-w-md">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2"><Gift className="h-4 w-4 text-primary" /> Review airdrop</DialogTitle>
+          <DialogDescription className="text-xs">
+            Nothing has moved yet. Confirming sets the amount aside from your {preview?.asset === 'kes' ? 'wallet' : 'holding'} and
+            pays recipients in batches; anything not paid out comes back to you.
+          </DialogDescription>
+        </DialogHeader>
+        {preview && (
+          <div className="space-y-3 text-xs">
+            <div className="grid grid-cols-3 gap-2">
+              <div className="rounded-lg bg-muted/30 p-2.5">
+                <p className="text-[10px] uppercase tracking-wider text-muted-foreground">Recipients</p>
+                <p className="text-sm font-semibold font-mono">{preview.recipients.toLocaleString()}</p>
+              </div>
+              <div className="rounded-lg bg-muted/30 p-2.5">
+                <p className="text-[10px] uppercase tracking-wider text-muted-foreground">Paid out</p>
+                <p className="text-sm font-semibold font-mono">{formatAmount(preview.to_distribute)}</p>
+              </div>
+              <div className="rounded-lg bg-muted/30 p-2.5">
+                <p className="text-[10px] uppercase tracking-wider text-muted-foreground">Skipped</p>
+                <p className="text-sm font-semibold font-mono">{preview.skipped.toLocaleString()}</p>
+              </div>
+            </div>
+            <p className="text-muted-foreground">
+              Each gets {preview.min_amount === preview.max_amount
+                ? `${formatAmount(preview.min_amount ?? 0)} ${unit}`
+                : `${formatAmount(preview.min_amount ?? 0)}–${formatAmount(preview.max_amount ?? 0)} ${unit}`}.
+              {Number(preview.remainder) > 0 && ` ${formatAmount(preview.remainder)} ${unit} of rounding stays with you.`}
+            </p>
+            {!preview.sufficient && (
+              <p className="text-destructive">
+                You only have {formatAmount(preview.available)} {unit} available to send.
+              </p>
+            )}
+            <div className="max-h-48 overflow-y-auto divide-y divide-border/30 rounded-md border border-border/50 px-2">
+              {preview.allocations.map((a, i) => (
+                <div key={i} className="flex items-center gap-2 py-1.5">
+                  <span className="font-mono truncate">{a.label}</span>
+                  <span className="ml-auto font-mono">{formatAmount(a.amount)} {unit}</span>
+                </div>
+              ))}
+              {preview.skipped_entries.map((s, i) => (
+                <div key={`s${i}`} className="flex items-center gap-2 py-1.5 text-muted-foreground">
+                  <span className="font-mono truncate">{s.label}</span>
+                  <span className="ml-auto">{s.error}</span>
+                </div>
+              ))}
+            </div>
+            {preview.recipients > preview.allocations.length && (
+              <p className="text-[10px] text-muted-foreground">Showing the largest {preview.allocations.length} allocations.</p>
+            )}
+          </div>
+        )}
+        <DialogFooter>
+          <Button onClick={onConfirm} disabled={sending || !preview?.sufficient || !preview?.recipients} className="w-full gap-2">
+            {sending ? <Loader2 className="h-4 w-4 animate-spin" /> : <Gift className="h-4 w-4" />}
+            Send airdrop
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+function RecipientsDialog({ airdrop, symbol, onOpenChange }: {
+  airdrop: Airdrop | null;
+  symbol: string;
+  onOpenChange: (open: boolean) => void;
+}) {
+  const [status, setStatus] = useState<string>('all');
+  const { data, isLoading } = useAirdropRecipients(airdrop?.id ?? null, status === 'all' ? null : status);
+  const unit = airdrop?.asset === 'kes' ? 'KES' : symbol;
+
+  return (
+    <Dialog open={!!airdrop} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2"><ListChecks className="h-4 w-4 text-primary" /> Recipients</DialogTitle>
+        </DialogHeader>
+        <Select value={status} onValueChange={setStatus}>
+          <SelectTrigger className="h-8 text-xs w-36"><SelectValue /></SelectTrigger>
+          <SelectContent>
+            {['all', 'pending', 'sent', 'failed', 'skipped'].map(s => (
+              <SelectItem key={s} value={s} className="text-xs capitalize">{s}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        {isLoading ? (
+          <div className="flex justify-center py-6"><Loader2 className="h-5 w-5 animate-spin text-primary" /></div>
+        ) : !data?.length ? (
+          <p className="text-xs text-muted-foreground text-center py-6">No recipients</p>
+        ) : (
+          <div className="max-h-80 overflow-y-auto divide-y divide-border/30 text-xs">
+            {data.map(r => (
+              <div key={r.id} className="flex items-center gap-2 py-1.5">
+                <div className="min-w-0">
+                  <p className="font-mono truncate">{r.label}</p>
+                  {r.error && <p className="text-[10px] text-muted-foreground truncate">{r.error}</p>}
+                </div>
+                <div className="ml-auto text-right shrink-0">
+                  <p className="font-mono">{formatAmount(r.amount)} {unit}</p>
+                  <p className={`text-[10px] capitalize ${STATUS_TONE[r.status]}`}>
+                    {r.status}{r.notified_at ? ' · notified' : ''}
+                  </p>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+/**
+ * Creator airdrops: pay tokens or KES to a snapshot's holders or to an
+ * uploaded list, pro-rata or in equal shares. Every airdrop is previewed
+ * before anything moves, then paid out server-side in resumable batches.
+ */
+export function AirdropManager({ coinId, symbol }: { coinId: string; symbol: string }) {
+  const queryClient = useQueryClient();
+  const { data: snapshots } = useHolderSnapshots(coinId);
+  const { data: airdrops, isLoading } = useAirdrops(coinId);
+  const [asset, setAsset] = useState<Asset>('token');
+  const [distribution, setDistribution] = useState<Distribution>('pro_rata');
+  const [source, setSource] = useState<string>('list');
+  const [total, setTotal] = useState('');
+  const [list, setList] = useState('');
+  const [message, setMessage] = useState('');
+  const [preview, setPreview] = useState<AirdropPreview | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [sending, setSending] = useState(false);
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const [viewing, setViewing] = useState<Airdrop | null>(null);
+
+  const takenSnapshots = (snapshots || []).filter(s => s.status === 'taken');
+  const listEntries = source === 'list' ? parseRecipientList(list) : [];
+
+  const request = () => ({
+    _coin_id: coinId,
+    _asset: asset,
+    _distribution: distribution,
+    _total_amount: Number(total),
+    _snapshot_id: source === 'list' ? undefined : source,
+    _recipients: source === 'list' ? listEntries : undefined,
+  });
+
+  const refresh = () => queryClient.invalidateQueries({ queryKey: ['airdrops', coinId] });
+
+  const handleFile = async (file: File | undefined) => {
+    if (!file) return;
+    setList(await file.text());
+  };
+
+  const handlePreview = async () => {
+    setLoading(true);
+    const { data, error } = await supabase.rpc('preview_airdrop', request());
+    setLoading(false);
+    if (error) {
+      toast.error(error.message);
+      return;
+    }
+    setPreview(data as unknown as AirdropPreview);
+  };
+
+  const runBatches = async (airdropId: string) => {
+    const { error } = await supabase.functions.invoke('run-airdrops', { body: { airdrop_id: airdropId } });
+    if (error) toast.error('Payout paused; it will carry on automatically');
+    refresh();
+  };
+
+  const handleSend = async () => {
+    setSending(true);
+    const { data, error } = await supabase.rpc('create_airdrop', { ...request(), _message: message.trim() || undefined });
+    setSending(false);
+    if (error) {
+      toast.error(error.message);
+      return;
+    }
+    const created = data as { id: string };
+    toast.success('Airdrop started');
+    setPreview(null);
+    setTotal('');
+    setList('');
+    setMessage('');
+    refresh();
+    runBatches(created.id);
+  };
+
+  const handleResume = async (id: string) => {
+    setBusyId(id);
+    await runBatches(id);
+    setBusyId(null);
+  };
+
+  const handleCancel = async (id: string) => {
+    setBusyId(id);
+    const { data, error } = await supabase.rpc('cancel_airdrop', { _airdrop_id: id });
+    setBusyId(null);
+    if (error) {
+      toast.error(error.message);
+      return;
+    }
+    const result = data as { cancelled: number; refunded: number };
+    toast.success(`Cancelled ${result.cancelled} pending payment(s)`, {
+      description: `${formatAmount(result.refunded)} returned to you`,
+    });
+    refresh();
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="space-y-3">
+        <div className="grid gap-3 sm:grid-cols-3">
+          <div className="space-y-1.5">
+            <Label className="text-xs">Send</Label>
+            <Select value={asset} onValueChange={v => setAsset(v as Asset)}>
+              <SelectTrigger className="h-9 text-xs"><SelectValue /></SelectTrigger>
+              <SelectContent>
+                <SelectItem value="token" className="text-xs">{symbol} from my holding</SelectItem>
+                <SelectItem value="kes" className="text-xs">KES from my wallet</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-1.5">
+            <Label className="text-xs">Split</Label>
+            <Select value={distribution} onValueChange={v => setDistribution(v as Distribution)}>
+              <SelectTrigger className="h-9 text-xs"><SelectValue /></SelectTrigger>
+              <SelectContent>
+                <SelectItem value="pro_rata" className="text-xs">Pro-rata</SelectItem>
+                <SelectItem value="equal" className="text-xs">Equal shares</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-1.5">
+            <Label className="text-xs">Total ({asset === 'kes' ? 'KES' : symbol})</Label>
+            <Input type="number" min={0} value={total} onChange={e => setTotal(e.target.value)} className="h-9" />
+          </div>
+        </div>
+
+        <div className="space-y-1.5">
+          <Label className="text-xs">Recipients</Label>
+          <Select value={source} onValueChange={setSource}>
+            <SelectTrigger className="h-9 text-xs"><SelectValue /></SelectTrigger>
+            <SelectContent>
+              <SelectItem value="list" className="text-xs">Uploaded list</SelectItem>
+              {takenSnapshots.map(s => (
+                <SelectItem key={s.id} value={s.id} className="text-xs">
+                  Snapshot: {s.label || new Date(s.taken_at!).toLocaleString()} ({s.holder_count} holders)
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        {source === 'list' && (
+          <div className="space-y-1.5">
+            <div className="flex items-center justify-between">
+              <Label className="text-xs">One email per line, optionally followed by a weight</Label>
+              <label className="text-[10px] text-primary hover:underline cursor-pointer flex items-center gap-1">
+                <Upload className="h-3 w-3" /> Upload CSV
+                <input type="file" accept=".csv,.txt" className="hidden" onChange={e => handleFile(e.target.files?.[0])} />
+              </label>
+            </div>
+            <Textarea value={list} onChange={e => setList(e.target.value)} rows={4} className="font-mono text-xs"
+              placeholder={'alice@example.com,2\nbob@example.com'} />
+            <p className="text-[10px] text-muted-foreground">
+              {listEntries.length.toLocaleString()} row(s). Weights only matter for pro-rata; emails without an account are skipped.
+            </p>
+          </div>
+        )}
+
+        <div className="space-y-1.5">
+          <Label className="text-xs">Message to recipients (optional)</Label>
+          <Input value={message} onChange={e => setMessage(e.target.value)} maxLength={280} placeholder="Thanks for being early!" />
+        </div>
+
+        <Button onClick={handlePreview} disabled={loading || !(Number(total) > 0) || (source === 'list' && !listEntries.length)}
+          className="w-full gap-2">
+          {loading ? <Loader2 className="h-4 w-4 animate-spin" /> : <Gift className="h-4 w-4" />}
+          Preview airdrop
+        </Button>
+      </div>
+
+      <div>
+        <p className="text-[10px] uppercase tracking-wider text-muted-foreground mb-2">Airdrops</p>
+        {isLoading ? (
+          <div className="flex justify-center py-6"><Loader2 className="h-5 w-5 animate-spin text-primary" /></div>
+        ) : !airdrops?.length ? (
+          <p className="text-xs text-muted-foreground text-center py-6">No airdrops yet</p>
+        ) : (
+          <div className="divide-y divide-border/30">
+            {airdrops.map(a => {
+              const unit = a.asset === 'kes' ? 'KES' : symbol;
+              const done = a.sent_count + a.failed_count;
+              return (
+                <div key={a.id} className="py-2.5 space-y-1.5 text-xs">
+                  <div className="flex items-center gap-2">
+                    <span className="font-mono font-medium">{formatAmount(a.total_amount)} {unit}</span>
+                    <Badge variant="secondary" className="text-[9px] h-4 px-1">{a.distribution === 'equal' ? 'Equal' : 'Pro-rata'}</Badge>
+                    <span className={`capitalize ${STATUS_TONE[a.status]}`}>{a.status}</span>
+                    <span className="ml-auto text-muted-foreground">{new Date(a.created_at).toLocaleDateString()}</span>
+                  </div>
+                  <Progress value={a.recipient_count > 0 ? (done / a.recipient_count) * 100 : 100} className="h-1.5" />
+                  <div className="flex items-center gap-3 text-[10px] text-muted-foreground">
+                    <span>{a.sent_count}/{a.recipient_count} sent</span>
+                    {a.failed_count > 0 && <span className="text-destructive">{a.failed_count} failed</span>}
+                    {a.skipped_count > 0 && <span>{a.skipped_count} skipped</span>}
+                    <span>{formatAmount(a.distributed_amount)} {unit} paid</span>
+                    <div className="ml-auto flex gap-1">
+                      <Button variant="ghost" size="sm" className="h-6 px-2 text-[10px]" onClick={() => setViewing(a)}>Results</Button>
+                      {a.status === 'running' && (
+                        <>
+                          <Button variant="ghost" size="sm" className="h-6 px-2 text-[10px] gap-1" disabled={busyId === a.id}
+                            onClick={() => handleResume(a.id)}>
+                            <Play className="h-3 w-3" /> Resume
+                          </Button>
+                          <Button variant="ghost" size="sm" className="h-6 px-2 text-[10px] gap-1 text-destructive" disabled={busyId === a.id}
+                            onClick={() => handleCancel(a.id)}>
+                            <X className="h-3 w-3" /> Cancel
+                          </Button>
+                        </>
+                      )}
+                    </div>
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </div>
+
+      <PreviewDialog
+        preview={preview}
+        symbol={symbol}
+        sending={sending}
+        onConfirm={handleSend}
+        onOpenChange={(v) => { if (!v) setPreview(null); }}
+      />
+      <RecipientsDialog airdrop={viewing} symbol={symbol} onOpenChange={(v) => { if (!v) setViewing(null); }} />
+    </div>
+  );
+}
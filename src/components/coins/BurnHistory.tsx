@@ -0,0 +1,164 @@
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import {
+  Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription, DialogFooter,
+} from '@/components/ui/dialog';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/lib/auth-context';
+import { Flame, Loader2 } from 'lucide-react';
+import { toast } from 'sonner';
+import { useBurnHistory } from '@/hooks/use-burn-history';
+
+const formatAmount = (v: number) =>
+  Number(v).toLocaleString(undefined, { notation: 'compact', maximumSignificantDigits: 4 });
+
+function BurnTokensDialog({ open, onOpenChange, coinId, symbol, available, onBurned }: {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  coinId: string;
+  symbol: string;
+  available: number;
+  onBurned: () => void;
+}) {
+  const [amount, setAmount] = useState('');
+  const [confirm, setConfirm] = useState('');
+  const [burning, setBurning] = useState(false);
+  const value = Number(amount);
+
+  const handleBurn = async () => {
+    setBurning(true);
+    const { data, error } = await supabase.rpc('burn_tokens', { _coin_id: coinId, _amount: value });
+    setBurning(false);
+    if (error) {
+      toast.error(error.message);
+      return;
+    }
+    const result = data as { new_market_price: number };
+    toast.success(`Burned ${value.toLocaleString()} ${symbol}`, {
+      description: `New price KES ${Number(result.new_market_price).toFixed(6)}`,
+    });
+    setAmount('');
+    setConfirm('');
+    onOpenChange(false);
+    onBurned();
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={(v) => { if (!burning) onOpenChange(v); }}>
+      <DialogContent className="max-w-sm">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2"><Flame className="h-4 w-4 text-orange-400" /> Burn {symbol}</DialogTitle>
+          <DialogDescription className="text-xs">
+            Burned tokens are destroyed for good and removed from total supply. You receive nothing for them,
+            and the price moves to match the smaller circulating supply.
+          </DialogDescription>
+        </DialogHeader>
+        <div className="space-y-3">
+          <div className="space-y-1.5">
+            <div className="flex items-center justify-between">
+              <Label className="text-xs">Amount ({symbol})</Label>
+              <button type="button" className="text-[10px] text-primary hover:underline" onClick={() => setAmount(String(available))}>
+                Max {available.toLocaleString()}
+              </button>
+            </div>
+            <Input type="number" min={0} value={amount} onChange={e => setAmount(e.target.value)} />
+          </div>
+          <div className="space-y-1.5">
+            <Label className="text-xs">Type BURN to confirm</Label>
+            <Input value={confirm} onChange={e => setConfirm(e.target.value)} placeholder="BURN" />
+          </div>
+        </div>
+        <DialogFooter>
+          <Button
+            variant="destructive"
+            onClick={handleBurn}
+            disabled={burning || !(value > 0) || value > available || confirm.trim().toUpperCase() !== 'BURN'}
+            className="w-full gap-2"
+          >
+            {burning ? <Loader2 className="h-4 w-4 animate-spin" /> : <Flame className="h-4 w-4" />}
+            Burn permanently
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+/**
+ * Burn totals and history for the coin page. Any holder can burn from
+ * their own balance; locked and order-reserved tokens are refused server-side.
+ */
+export function BurnHistory({ coinId, symbol, burnedSupply, userHolding, onBurned }: {
+  coinId: string;
+  symbol: string;
+  burnedSupply?: number;
+  userHolding: number;
+  onBurned: () => void;
+}) {
+  const { user } = useAuth();
+  const [showDialog, setShowDialog] = useState(false);
+  const { data, isLoading } = useBurnHistory(coinId, burnedSupply);
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-start justify-between gap-3">
+        <div className="grid grid-cols-3 gap-2 flex-1">
+          <div className="rounded-lg bg-orange-400/10 p-2.5">
+            <p className="text-[10px] uppercase tracking-wider text-muted-foreground">Burned</p>
+            <p className="text-sm font-semibold font-mono text-orange-400">{formatAmount(data?.burned_supply ?? 0)}</p>
+          </div>
+          <div className="rounded-lg bg-muted/30 p-2.5">
+            <p className="text-[10px] uppercase tracking-wider text-muted-foreground">Of supply</p>
+            <p className="text-sm font-semibold font-mono">{Number(data?.burned_pct ?? 0).toFixed(2)}%</p>
+          </div>
+          <div className="rounded-lg bg-muted/30 p-2.5">
+            <p className="text-[10px] uppercase tracking-wider text-muted-foreground">Burns</p>
+            <p className="text-sm font-semibold font-mono">{(data?.burn_count ?? 0).toLocaleString()}</p>
+          </div>
+        </div>
+        {user && userHolding > 0 && (
+          <Button variant="outline" size="sm" onClick={() => setShowDialog(true)} className="gap-1.5 shrink-0 text-orange-400 border-orange-400/30">
+            <Flame className="h-3.5 w-3.5" /> Burn
+          </Button>
+        )}
+      </div>
+
+      {isLoading ? (
+        <div className="flex justify-center py-6"><Loader2 className="h-5 w-5 animate-spin text-primary" /></div>
+      ) : !data?.burns.length ? (
+        <p className="text-xs text-muted-foreground text-center py-6">No {symbol} has been burned yet</p>
+      ) : (
+        <div className="divide-y divide-border/30">
+          {data.burns.map(b => (
+            <div key={b.id} className="flex items-center gap-2 py-1.5 text-xs">
+              <Flame className="h-3.5 w-3.5 text-orange-400 flex-shrink-0" />
+              <span className="font-mono text-muted-foreground">{b.holder}</span>
+              {b.is_creator && <Badge variant="secondary" className="text-[9px] h-4 px-1">Creator</Badge>}
+              {b.is_you && <Badge variant="outline" className="text-[9px] h-4 px-1">You</Badge>}
+              <div className="ml-auto text-right">
+                <p className="font-mono">{formatAmount(b.amount)} {symbol}</p>
+                <p className="text-[10px] text-muted-foreground">
+                  ≈ KES {formatAmount(b.amount * b.price)} · {new Date(b.burned_at).toLocaleDateString()}
+                </p>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {user && (
+        <BurnTokensDialog
+          open={showDialog}
+          onOpenChange={setShowDialog}
+          coinId={coinId}
+          symbol={symbol}
+          available={userHolding}
+          onBurned={onBurned}
+        />
+      )}
+    </div>
+  );
+}
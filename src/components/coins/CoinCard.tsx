@@ -1,10 +1,11 @@
 import { useMemo } from 'react';
 import { motion } from 'framer-motion';
-import { TrendingUp, Users, DollarSign, Droplet, Flame, ArrowRight, ArrowUpRight, ArrowDownRight, Star } from 'lucide-react';
+import { TrendingUp, Users, DollarSign, Droplet, Flame, ArrowRight, ArrowUpRight, ArrowDownRight, Star, GraduationCap } from 'lucide-react';
 import { generateCoinSVG, svgToDataUri } from '@/lib/coin-avatar-generator';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
 import { useNavigate } from 'react-router-dom';
+import { WatchlistStar } from './WatchlistStar';
 
 interface CoinCardProps {
   coin: {
@@ -21,6 +22,7 @@ interface CoinCardProps {
     is_trending?: boolean;
     is_featured?: boolean;
     trading_paused?: boolean;
+    is_graduated?: boolean;
     burned_supply?: number;
     circulating_supply?: number;
     total_supply?: number;
@@ -98,6 +100,11 @@ export function CoinCard({ coin, index = 0 }: CoinCardProps) {
             {coin.is_trending && (
               <Badge variant="outline" className="text-orange-400 border-orange-400/50 text-[10px] px-1.5 py-0 animate-pulse">🔥</Badge>
             )}
+            {coin.is_graduated && (
+              <Badge variant="outline" className="text-primary border-primary/50 text-[10px] px-1.5 py-0 gap-0.5">
+                <GraduationCap className="h-2.5 w-2.5" /> Graduated
+              </Badge>
+            )}
             {multiplier > 1.1 && (
               <Badge variant="outline" className="text-success border-success/50 text-[10px] px-1.5 py-0">{multiplier.toFixed(1)}x</Badge>
             )}
@@ -149,9 +156,12 @@ export function CoinCard({ coin, index = 0 }: CoinCardProps) {
               Sell
             </Button>
           </div>
-          {coin.trading_paused && (
-            <span className="text-[10px] text-warning">Paused</span>
-          )}
+          <div className="flex items-center gap-1.5">
+            {coin.trading_paused && (
+              <span className="text-[10px] text-warning">Paused</span>
+            )}
+            <WatchlistStar coinId={coin.id} coinSymbol={coin.symbol} />
+          </div>
         </div>
       </div>
     </motion.div>
@@ -3,15 +3,17 @@ import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Copy, Check, Share2, ExternalLink } from 'lucide-react';
 import { toast } from 'sonner';
+import { LockedSupply } from './LockedSupply';
 
 interface CoinContractInfoProps {
   contractAddress: string;
   coinName: string;
   coinSymbol: string;
   coinId: string;
+  creatorId?: string | null;
 }
 
-export function CoinContractInfo({ contractAddress, coinName, coinSymbol, coinId }: CoinContractInfoProps) {
+export function CoinContractInfo({ contractAddress, coinName, coinSymbol, coinId, creatorId }: CoinContractInfoProps) {
   const [copied, setCopied] = useState(false);
 
   const handleCopy = async () => {
@@ -79,6 +81,7 @@ export function CoinContractInfo({ contractAddress, coinName, coinSymbol, coinId
           )}
         </Button>
       </div>
+      <LockedSupply coinId={coinId} symbol={coinSymbol} creatorId={creatorId} />
     </div>
   );
 }
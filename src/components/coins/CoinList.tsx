@@ -1,57 +1,117 @@
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useMemo } from 'react';
+import { useSearchParams } from 'react-router-dom';
 import { CoinCard } from './CoinCard';
 import { Tabs, TabsList, TabsTrigger, TabsContent } from '@/components/ui/tabs';
-import { Flame, Sparkles, Star, Loader2, BarChart3, ArrowUpDown } from 'lucide-react';
-import { useQuery, useQueryClient } from '@tanstack/react-query';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Flame, Sparkles, Star, Loader2, BarChart3, Search, SlidersHorizontal, X } from 'lucide-react';
+import { useQueryClient, type InfiniteData } from '@tanstack/react-query';
 import { supabase } from '@/integrations/supabase/client';
+import { useCoinSearch, type CoinSearchFilters, type CoinSearchPage, type CoinSort, type SearchedCoin } from '@/hooks/use-coin-search';
 
 type FilterTab = 'all' | 'trending' | 'latest' | 'featured';
 
+interface RangeFilters {
+  minPrice: string;
+  maxPrice: string;
+  minMarketCap: string;
+  maxMarketCap: string;
+  maxAgeHours: string;
+  live: boolean;
+}
+
+const EMPTY_RANGES: RangeFilters = { minPrice: '', maxPrice: '', minMarketCap: '', maxMarketCap: '', maxAgeHours: 'any', live: false };
+
+const SORTS: { value: CoinSort; label: string }[] = [
+  { value: 'market_cap', label: 'Market cap' },
+  { value: 'volume_24h', label: 'Volume 24h' },
+  { value: 'gainers', label: 'Top gainers' },
+  { value: 'losers', label: 'Top losers' },
+  { value: 'newest', label: 'Newest' },
+];
+
+const AGES = [
+  { value: 'any', label: 'Any age' },
+  { value: '24', label: 'Last 24 hours' },
+  { value: '168', label: 'Last 7 days' },
+  { value: '720', label: 'Last 30 days' },
+];
+
+const toNumber = (v: string) => (v.trim() && !isNaN(Number(v)) ? Number(v) : undefined);
+
+type CoinsCache = SearchedCoin[] | InfiniteData<CoinSearchPage> | undefined;
+
+/** Applies a row update to both plain coin lists and paged search results in the cache. */
+function patchCoins(old: CoinsCache, patch: (coin: SearchedCoin) => SearchedCoin): CoinsCache {
+  if (Array.isArray(old)) {
+    let changed = false;
+    const next = old.map(c => { const p = patch(c); if (p !== c) changed = true; return p; });
+    return changed ? next : old;
+  }
+  if (old && Array.isArray(old.pages)) {
+    let changed = false;
+    const pages = old.pages.map(page => {
+      const coins = page.coins.map(c => { const p = patch(c); if (p !== c) changed = true; return p; });
+      return { ...page, coins };
+    });
+    return changed ? { ...old, pages } : old;
+  }
+  return old;
+}
+
 export function CoinList() {
+  const [searchParams, setSearchParams] = useSearchParams();
   const [activeTab, setActiveTab] = useState<FilterTab>('all');
+  const [search, setSearch] = useState(searchParams.get('search') || '');
+  const [sort, setSort] = useState<CoinSort | 'auto'>('auto');
+  const [ranges, setRanges] = useState<RangeFilters>(EMPTY_RANGES);
   const queryClient = useQueryClient();
 
-  const { data: coins, isLoading } = useQuery({
-    queryKey: ['coins', activeTab],
-    queryFn: async () => {
-      let query = supabase
-        .from('coins')
-        .select('*')
-        .eq('is_active', true)
-        .eq('is_approved', true);
-
-      if (activeTab === 'trending') {
-        query = query.eq('is_trending', true);
-      } else if (activeTab === 'featured') {
-        query = query.eq('is_featured', true);
-      } else if (activeTab === 'latest') {
-        query = query.order('created_at', { ascending: false });
-      } else {
-        query = query.order('market_cap', { ascending: false, nullsFirst: false });
-      }
-
-      const { data, error } = await query.limit(50);
-      if (error) throw error;
-
-      // Fetch real 24h price changes from price_history
-      const { data: priceChanges } = await supabase.rpc('get_coin_price_changes_24h');
-      const changeMap = new Map<string, number>();
-      if (priceChanges) {
-        priceChanges.forEach((pc: { coin_id: string; price_change_24h: number }) => {
-          changeMap.set(pc.coin_id, pc.price_change_24h);
-        });
-      }
-
-      // Merge real 24h change into non-overridden coins
-      return (data || []).map((coin, i) => ({
-        ...coin,
-        rank: i + 1,
-        price_change_24h: coin.use_price_change_24h_override && coin.price_change_24h_override != null
-          ? coin.price_change_24h_override
-          : (changeMap.get(coin.id) ?? 0),
-      }));
-    },
-  });
+  // The navbar sends unmatched searches here as ?search=
+  useEffect(() => {
+    const fromUrl = searchParams.get('search');
+    if (fromUrl != null) setSearch(fromUrl);
+  }, [searchParams]);
+
+  const filters = useMemo<CoinSearchFilters>(() => ({
+    query: search.trim() || undefined,
+    sort: sort !== 'auto' ? sort : activeTab === 'latest' ? 'newest' : undefined,
+    trending: activeTab === 'trending' ? true : undefined,
+    featured: activeTab === 'featured' ? true : undefined,
+    minPrice: toNumber(ranges.minPrice),
+    maxPrice: toNumber(ranges.maxPrice),
+    minMarketCap: toNumber(ranges.minMarketCap),
+    maxMarketCap: toNumber(ranges.maxMarketCap),
+    maxAgeHours: ranges.maxAgeHours !== 'any' ? Number(ranges.maxAgeHours) : undefined,
+    live: ranges.live || undefined,
+  }), [search, sort, activeTab, ranges]);
+
+  // Typing shouldn't fire a query per keystroke
+  const [debounced, setDebounced] = useState(filters);
+  useEffect(() => {
+    const t = setTimeout(() => setDebounced(filters), 300);
+    return () => clearTimeout(t);
+  }, [filters]);
+
+  const { data, isLoading, fetchNextPage, hasNextPage, isFetchingNextPage } = useCoinSearch(debounced);
+  const coins = useMemo(
+    () => (data?.pages || []).flatMap(p => p.coins).map((coin, i) => ({ ...coin, rank: i + 1 })),
+    [data],
+  );
+
+  const activeRangeCount = [ranges.minPrice, ranges.maxPrice, ranges.minMarketCap, ranges.maxMarketCap]
+    .filter(v => v.trim()).length + (ranges.maxAgeHours !== 'any' ? 1 : 0) + (ranges.live ? 1 : 0);
+
+  const clearSearch = () => {
+    setSearch('');
+    if (searchParams.has('search')) {
+      searchParams.delete('search');
+      setSearchParams(searchParams, { replace: true });
+    }
+  };
 
   useEffect(() => {
     // Live market feed: patch coin rows in place on UPDATE for instant
@@ -60,28 +120,19 @@ export function CoinList() {
     const channel = supabase
       .channel('coins-realtime')
       .on('postgres_changes', { event: 'UPDATE', schema: 'public', table: 'coins' }, (payload) => {
-        const updated = payload.new as any;
-        queryClient.setQueriesData({ queryKey: ['coins'] }, (old: any) => {
-          if (!Array.isArray(old)) return old;
-          let changed = false;
-          const next = old.map((c) => {
-            if (c.id !== updated.id) return c;
-            changed = true;
-            return {
-              ...c,
-              price: updated.price,
-              market_cap: updated.market_cap,
-              liquidity: updated.liquidity,
-              circulating_supply: updated.circulating_supply,
-              holders_count: updated.holders_count,
-              trading_paused: updated.trading_paused,
-              is_active: updated.is_active,
-              is_approved: updated.is_approved,
-              updated_at: updated.updated_at,
-            };
-          });
-          return changed ? next : old;
-        });
+        const updated = payload.new as SearchedCoin;
+        queryClient.setQueriesData<CoinsCache>({ queryKey: ['coins'] }, (old) => patchCoins(old, (c) => c.id !== updated.id ? c : {
+          ...c,
+          price: updated.price,
+          market_cap: updated.market_cap,
+          liquidity: updated.liquidity,
+          circulating_supply: updated.circulating_supply,
+          holders_count: updated.holders_count,
+          trading_paused: updated.trading_paused,
+          is_active: updated.is_active,
+          is_approved: updated.is_approved,
+          updated_at: updated.updated_at,
+        }));
       })
       .on('postgres_changes', { event: 'INSERT', schema: 'public', table: 'coins' }, () => {
         queryClient.invalidateQueries({ queryKey: ['coins'] });
@@ -90,24 +141,94 @@ export function CoinList() {
         queryClient.invalidateQueries({ queryKey: ['coins'] });
       })
       .on('postgres_changes', { event: 'INSERT', schema: 'public', table: 'price_history' }, (payload) => {
-        const row = payload.new as any;
+        const row = payload.new as { coin_id: string; trade_type: string; created_at: string; volume: number | null };
         if (row?.trade_type !== 'buy' && row?.trade_type !== 'sell') return;
-        queryClient.setQueriesData({ queryKey: ['coins'] }, (old: any) => {
-          if (!Array.isArray(old)) return old;
-          return old.map((c) => c.id === row.coin_id
-            ? { ...c, last_trade_at: row.created_at, last_trade_volume: Number(row.volume || 0) }
-            : c);
-        });
+        queryClient.setQueriesData<CoinsCache>({ queryKey: ['coins'] }, (old) => patchCoins(old, (c) => c.id !== row.coin_id ? c : {
+          ...c, last_trade_at: row.created_at, last_trade_volume: Number(row.volume || 0),
+        }));
       })
       .subscribe();
     return () => { supabase.removeChannel(channel); };
   }, [queryClient]);
 
 
-  const showAsList = (coins?.length || 0) > 10;
+  const showAsList = coins.length > 10;
 
   return (
     <div className="space-y-4">
+      <div className="flex flex-col sm:flex-row gap-2">
+        <div className="relative flex-1">
+          <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+          <Input
+            value={search}
+            onChange={(e) => setSearch(e.target.value)}
+            placeholder="Search name, symbol, description or contract..."
+            className="pl-9 pr-9 bg-muted/30"
+          />
+          {search && (
+            <button type="button" onClick={clearSearch} className="absolute right-3 top-1/2 -translate-y-1/2 text-muted-foreground hover:text-foreground">
+              <X className="h-4 w-4" />
+            </button>
+          )}
+        </div>
+        <div className="flex gap-2">
+          <Select value={sort} onValueChange={(v) => setSort(v as CoinSort | 'auto')}>
+            <SelectTrigger className="w-[150px] bg-muted/30">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="auto">{search.trim() ? 'Best match' : activeTab === 'latest' ? 'Newest' : 'Market cap'}</SelectItem>
+              {SORTS.map(s => <SelectItem key={s.value} value={s.value}>{s.label}</SelectItem>)}
+            </SelectContent>
+          </Select>
+          <Popover>
+            <PopoverTrigger asChild>
+              <Button variant="outline" className="gap-1.5 bg-muted/30">
+                <SlidersHorizontal className="h-4 w-4" />
+                Filters
+                {activeRangeCount > 0 && <span className="text-xs text-primary">({activeRangeCount})</span>}
+              </Button>
+            </PopoverTrigger>
+            <PopoverContent align="end" className="w-72 space-y-3">
+              <div className="space-y-1.5">
+                <Label className="text-xs">Price (KES)</Label>
+                <div className="flex gap-2">
+                  <Input type="number" placeholder="Min" value={ranges.minPrice} onChange={(e) => setRanges(r => ({ ...r, minPrice: e.target.value }))} className="h-8 text-xs" />
+                  <Input type="number" placeholder="Max" value={ranges.maxPrice} onChange={(e) => setRanges(r => ({ ...r, maxPrice: e.target.value }))} className="h-8 text-xs" />
+                </div>
+              </div>
+              <div className="space-y-1.5">
+                <Label className="text-xs">Market cap (KES)</Label>
+                <div className="flex gap-2">
+                  <Input type="number" placeholder="Min" value={ranges.minMarketCap} onChange={(e) => setRanges(r => ({ ...r, minMarketCap: e.target.value }))} className="h-8 text-xs" />
+                  <Input type="number" placeholder="Max" value={ranges.maxMarketCap} onChange={(e) => setRanges(r => ({ ...r, maxMarketCap: e.target.value }))} className="h-8 text-xs" />
+                </div>
+              </div>
+              <div className="space-y-1.5">
+                <Label className="text-xs">Listed</Label>
+                <Select value={ranges.maxAgeHours} onValueChange={(v) => setRanges(r => ({ ...r, maxAgeHours: v }))}>
+                  <SelectTrigger className="h-8 text-xs">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {AGES.map(a => <SelectItem key={a.value} value={a.value}>{a.label}</SelectItem>)}
+                  </SelectContent>
+                </Select>
+              </div>
+              <Label className="flex items-center justify-between text-xs">
+                Live now
+                <Switch checked={ranges.live} onCheckedChange={(live) => setRanges(r => ({ ...r, live }))} />
+              </Label>
+              {activeRangeCount > 0 && (
+                <Button variant="ghost" size="sm" className="w-full h-7 text-xs" onClick={() => setRanges(EMPTY_RANGES)}>
+                  Clear filters
+                </Button>
+              )}
+            </PopoverContent>
+          </Popover>
+        </div>
+      </div>
+
       <Tabs value={activeTab} onValueChange={(v) => setActiveTab(v as FilterTab)}>
         <TabsList className="bg-muted/50 border border-border w-full grid grid-cols-4 h-auto p-1 gap-1">
           <TabsTrigger value="all" className="gap-1 px-2 py-2 data-[state=active]:bg-primary/20 data-[state=active]:text-primary text-xs">
@@ -133,24 +254,36 @@ export function CoinList() {
             <div className="flex items-center justify-center py-20">
               <Loader2 className="h-8 w-8 animate-spin text-primary" />
             </div>
-          ) : coins && coins.length > 0 ? (
-            showAsList ? (
-              // List view for 10+ coins - compact table
-              <div className="glass-card overflow-hidden">
-                {coins.map((coin, index) => (
-                  <CoinListRow key={coin.id} coin={coin} index={index} />
-                ))}
-              </div>
-            ) : (
-              <div className="grid gap-4 sm:grid-cols-2 lg:grid-cols-3">
-                {coins.map((coin, index) => (
-                  <CoinCard key={coin.id} coin={coin} index={index} />
-                ))}
-              </div>
-            )
+          ) : coins.length > 0 ? (
+            <>
+              {showAsList ? (
+                // List view for 10+ coins - compact table
+                <div className="glass-card overflow-hidden">
+                  {coins.map((coin, index) => (
+                    <CoinListRow key={coin.id} coin={coin} index={index} />
+                  ))}
+                </div>
+              ) : (
+                <div className="grid gap-4 sm:grid-cols-2 lg:grid-cols-3">
+                  {coins.map((coin, index) => (
+                    <CoinCard key={coin.id} coin={coin} index={index} />
+                  ))}
+                </div>
+              )}
+              {hasNextPage && (
+                <div className="flex justify-center mt-4">
+                  <Button variant="outline" onClick={() => fetchNextPage()} disabled={isFetchingNextPage} className="gap-2">
+                    {isFetchingNextPage && <Loader2 className="h-4 w-4 animate-spin" />}
+                    Load more
+                  </Button>
+                </div>
+              )}
+            </>
           ) : (
             <div className="glass-card p-12 text-center">
-              <p className="text-muted-foreground">No coins found in this category yet.</p>
+              <p className="text-muted-foreground">
+                {search.trim() || activeRangeCount > 0 ? 'No coins match your search.' : 'No coins found in this category yet.'}
+              </p>
             </div>
           )}
         </TabsContent>
@@ -164,6 +297,7 @@ import { useNavigate } from 'react-router-dom';
 import { Button } from '@/components/ui/button';
 import { ArrowUpRight, ArrowDownRight, ArrowRight } from 'lucide-react';
 import { motion } from 'framer-motion';
+import { WatchlistStar } from './WatchlistStar';
 
 function CoinListRow({ coin, index }: { coin: any; index: number }) {
   const navigate = useNavigate();
@@ -213,6 +347,7 @@ function CoinListRow({ coin, index }: { coin: any; index: number }) {
           <div className="flex items-center gap-1">
             <span className="font-semibold text-xs truncate">{coin.name}</span>
             {coin.is_trending && <Flame className="h-3 w-3 text-orange-400 flex-shrink-0" />}
+            <WatchlistStar coinId={coin.id} coinSymbol={coin.symbol} className="h-5 w-5 sm:hidden" />
           </div>
           <span className="text-[10px] text-muted-foreground">{coin.symbol}</span>
         </div>
@@ -233,7 +368,8 @@ function CoinListRow({ coin, index }: { coin: any; index: number }) {
       </span>
       <span className="hidden sm:block text-right text-[10px] text-muted-foreground font-mono">KES {formatMcap(mcap)}</span>
       <span className="hidden sm:block text-right text-[10px] text-muted-foreground">{holders}</span>
-      <div className="hidden sm:flex justify-end" onClick={(e) => e.stopPropagation()}>
+      <div className="hidden sm:flex justify-end items-center gap-1" onClick={(e) => e.stopPropagation()}>
+        <WatchlistStar coinId={coin.id} coinSymbol={coin.symbol} className="h-6 w-6" />
         <Button variant="success" size="sm" className="h-6 text-[10px] px-2" onClick={() => navigate(`/coin/${coin.id}?action=buy`)}>
           Buy
         </Button>
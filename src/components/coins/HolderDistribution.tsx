@@ -0,0 +1,161 @@
+import { useQuery } from '@tanstack/react-query';
+import { BarChart, Bar, XAxis, YAxis, Tooltip, ResponsiveContainer } from 'recharts';
+import { Badge } from '@/components/ui/badge';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/lib/auth-context';
+import { Loader2, Users, PieChart, UserPlus, Crown } from 'lucide-react';
+
+interface HolderEntry {
+  rank: number;
+  alias: string;
+  amount: number;
+  share: number;
+  is_creator: boolean;
+  is_market_maker: boolean;
+}
+
+interface HolderBucket {
+  label: string;
+  holders: number;
+  share: number;
+}
+
+interface HolderStats {
+  holders: number;
+  total_held: number;
+  circulating_supply: number;
+  gini: number;
+  hhi: number;
+  top10_share: number;
+  creator_share: number;
+  market_maker_share: number;
+  new_wallet_holders: number;
+  new_wallet_share: number;
+  buckets: HolderBucket[];
+  top: HolderEntry[];
+  you: { alias: string; amount: number; share: number; rank: number } | null;
+  computed_at: string;
+}
+
+const pct = (v: number) => {
+  const p = Number(v) * 100;
+  if (p > 0 && p < 0.01) return '<0.01%';
+  return `${p.toFixed(2)}%`;
+};
+
+const formatAmount = (v: number) =>
+  Number(v).toLocaleString(undefined, { notation: 'compact', maximumSignificantDigits: 4 });
+
+// US DOJ merger-guideline bands for the HHI
+const concentration = (hhi: number) => {
+  if (hhi >= 2500) return { label: 'Highly concentrated', tone: 'text-destructive' };
+  if (hhi >= 1500) return { label: 'Moderately concentrated', tone: 'text-warning' };
+  return { label: 'Well distributed', tone: 'text-success' };
+};
+
+function Stat({ icon: Icon, label, value, hint }: { icon: React.ElementType; label: string; value: string; hint?: string }) {
+  return (
+    <div className="rounded-lg bg-muted/30 p-2.5">
+      <p className="text-[10px] uppercase tracking-wider text-muted-foreground flex items-center gap-1">
+        <Icon className="h-3 w-3" /> {label}
+      </p>
+      <p className="text-sm font-semibold font-mono mt-0.5">{value}</p>
+      {hint && <p className="text-[10px] text-muted-foreground">{hint}</p>}
+    </div>
+  );
+}
+
+/**
+ * Who holds a coin, without saying who: top holders under per-coin aliases,
+ * a histogram by share of supply and the usual concentration measures.
+ * The server caches the aggregate and recomputes it after trades.
+ */
+export function HolderDistribution({ coinId, symbol }: { coinId: string; symbol: string }) {
+  const { user } = useAuth();
+  const { data, isLoading, error } = useQuery({
+    queryKey: ['holder-distribution', coinId, user?.id],
+    staleTime: 1000 * 30,
+    refetchInterval: 1000 * 60,
+    queryFn: async (): Promise<HolderStats> => {
+      const { data, error } = await supabase.rpc('get_holder_distribution', { _coin_id: coinId, _top: 20 });
+      if (error) throw error;
+      return data as unknown as HolderStats;
+    },
+  });
+
+  if (isLoading) {
+    return <div className="flex justify-center py-10"><Loader2 className="h-5 w-5 animate-spin text-primary" /></div>;
+  }
+  if (error || !data) {
+    return <p className="text-xs text-muted-foreground text-center py-10">Holder data is unavailable right now</p>;
+  }
+  if (data.holders === 0) {
+    return <p className="text-xs text-muted-foreground text-center py-10">No one holds {symbol} yet</p>;
+  }
+
+  const band = concentration(Number(data.hhi));
+
+  return (
+    <div className="space-y-4">
+      <div className="grid grid-cols-2 sm:grid-cols-4 gap-2">
+        <Stat icon={Users} label="Holders" value={data.holders.toLocaleString()} hint={`${formatAmount(data.total_held)} ${symbol} held`} />
+        <Stat icon={PieChart} label="Top 10" value={pct(data.top10_share)} hint="of held supply" />
+        <Stat icon={Crown} label="Creator" value={pct(data.creator_share)} hint={Number(data.market_maker_share) > 0 ? `House: ${pct(data.market_maker_share)}` : undefined} />
+        <Stat icon={UserPlus} label="New wallets" value={pct(data.new_wallet_share)} hint={`${data.new_wallet_holders} account(s) < 24h old`} />
+      </div>
+
+      <div className="flex flex-wrap items-center gap-x-4 gap-y-1 text-xs">
+        <span className={`font-medium ${band.tone}`}>{band.label}</span>
+        <span className="text-muted-foreground">Gini <span className="font-mono text-foreground">{Number(data.gini).toFixed(3)}</span></span>
+        <span className="text-muted-foreground">HHI <span className="font-mono text-foreground">{Math.round(Number(data.hhi)).toLocaleString()}</span></span>
+      </div>
+
+      <div>
+        <p className="text-[10px] uppercase tracking-wider text-muted-foreground mb-1">Holders by share of supply</p>
+        <div className="h-40">
+          <ResponsiveContainer width="100%" height="100%">
+            <BarChart data={data.buckets} margin={{ top: 5, right: 5, left: 0, bottom: 0 }}>
+              <XAxis dataKey="label" tick={{ fontSize: 10 }} axisLine={false} tickLine={false} />
+              <YAxis tick={{ fontSize: 10 }} axisLine={false} tickLine={false} width={32} allowDecimals={false} />
+              <Tooltip
+                formatter={(v: number, _name, item) => [`${v.toLocaleString()} holders · ${pct((item.payload as HolderBucket).share)} of supply`, '']}
+                contentStyle={{ background: 'hsl(var(--card))', border: '1px solid hsl(var(--border))', fontSize: 12 }}
+                cursor={{ fill: 'hsl(var(--muted) / 0.3)' }}
+              />
+              <Bar dataKey="holders" fill="hsl(var(--primary))" radius={[4, 4, 0, 0]} isAnimationActive={false} />
+            </BarChart>
+          </ResponsiveContainer>
+        </div>
+      </div>
+
+      <div>
+        <p className="text-[10px] uppercase tracking-wider text-muted-foreground mb-1">Top holders</p>
+        <div className="divide-y divide-border/30">
+          {data.top.map(h => {
+            const isYou = data.you?.alias === h.alias;
+            return (
+              <div key={h.rank} className={`flex items-center gap-2 px-2 py-1.5 text-xs ${isYou ? 'bg-primary/10 rounded-md' : ''}`}>
+                <span className="w-5 font-mono text-muted-foreground">{h.rank}</span>
+                <span className="font-mono">{h.alias}</span>
+                {h.is_creator && <Badge variant="secondary" className="text-[9px] h-4 px-1">Creator</Badge>}
+                {h.is_market_maker && <Badge variant="outline" className="text-[9px] h-4 px-1">House</Badge>}
+                {isYou && <Badge variant="secondary" className="text-[9px] h-4 px-1">You</Badge>}
+                <span className="ml-auto font-mono text-muted-foreground">{formatAmount(h.amount)}</span>
+                <span className="w-16 text-right font-mono font-medium">{pct(h.share)}</span>
+              </div>
+            );
+          })}
+        </div>
+        {data.you && data.you.rank > data.top.length && (
+          <p className="mt-2 px-2 text-xs text-muted-foreground">
+            You are holder #{data.you.rank.toLocaleString()} with {pct(data.you.share)} of supply.
+          </p>
+        )}
+      </div>
+
+      <p className="text-[10px] text-muted-foreground">
+        Holders are shown under aliases unique to this coin. Updated {new Date(data.computed_at).toLocaleTimeString()}.
+      </p>
+    </div>
+  );
+}
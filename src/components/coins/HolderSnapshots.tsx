@@ -0,0 +1,117 @@
+import { useState } from 'react';
+import { useQueryClient } from '@tanstack/react-query';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Switch } from '@/components/ui/switch';
+import { supabase } from '@/integrations/supabase/client';
+import { useHolderSnapshots } from '@/hooks/use-airdrops';
+import { Camera, Clock, Loader2 } from 'lucide-react';
+import { toast } from 'sonner';
+
+const formatAmount = (v: number) =>
+  Number(v).toLocaleString(undefined, { notation: 'compact', maximumSignificantDigits: 4 });
+
+const formatDateTime = (iso: string) =>
+  new Date(iso).toLocaleString(undefined, { day: 'numeric', month: 'short', hour: '2-digit', minute: '2-digit' });
+
+/**
+ * Snapshots of who held a coin at a moment, taken now or at a scheduled
+ * time. Airdrops pay out against a snapshot rather than live holdings, so
+ * buying in after the snapshot doesn't earn a share.
+ */
+export function HolderSnapshots({ coinId, symbol }: { coinId: string; symbol: string }) {
+  const queryClient = useQueryClient();
+  const { data: snapshots, isLoading } = useHolderSnapshots(coinId);
+  const [label, setLabel] = useState('');
+  const [takeAt, setTakeAt] = useState('');
+  const [minAmount, setMinAmount] = useState('');
+  const [excludeCreator, setExcludeCreator] = useState(true);
+  const [saving, setSaving] = useState(false);
+
+  const handleCreate = async () => {
+    setSaving(true);
+    const { error } = await supabase.rpc('create_holder_snapshot', {
+      _coin_id: coinId,
+      _take_at: takeAt ? new Date(takeAt).toISOString() : undefined,
+      _min_amount: Number(minAmount) || 0,
+      _exclude_creator: excludeCreator,
+      _label: label.trim() || undefined,
+    });
+    setSaving(false);
+    if (error) {
+      toast.error(error.message);
+      return;
+    }
+    toast.success(takeAt && new Date(takeAt) > new Date() ? 'Snapshot scheduled' : 'Snapshot taken');
+    setLabel('');
+    setTakeAt('');
+    queryClient.invalidateQueries({ queryKey: ['holder-snapshots', coinId] });
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="grid gap-3 sm:grid-cols-2">
+        <div className="space-y-1.5">
+          <Label className="text-xs">Label (optional)</Label>
+          <Input value={label} onChange={e => setLabel(e.target.value)} maxLength={80} placeholder="e.g. Launch week holders" />
+        </div>
+        <div className="space-y-1.5">
+          <Label className="text-xs">Take at</Label>
+          <Input type="datetime-local" value={takeAt} onChange={e => setTakeAt(e.target.value)} />
+        </div>
+        <div className="space-y-1.5">
+          <Label className="text-xs">Minimum holding ({symbol})</Label>
+          <Input type="number" min={0} value={minAmount} onChange={e => setMinAmount(e.target.value)} placeholder="0" />
+        </div>
+        <div className="flex items-center justify-between rounded-lg bg-muted/30 px-3 py-2 sm:mt-5">
+          <Label className="text-xs">Leave out my own holding</Label>
+          <Switch checked={excludeCreator} onCheckedChange={setExcludeCreator} />
+        </div>
+      </div>
+      <div className="flex items-center justify-between gap-3">
+        <p className="text-[10px] text-muted-foreground">
+          Leave the time empty to capture now. The house market maker is never included.
+        </p>
+        <Button size="sm" onClick={handleCreate} disabled={saving} className="gap-1.5 shrink-0">
+          {saving ? <Loader2 className="h-3.5 w-3.5 animate-spin" /> : <Camera className="h-3.5 w-3.5" />}
+          {takeAt ? 'Schedule' : 'Take snapshot'}
+        </Button>
+      </div>
+
+      {isLoading ? (
+        <div className="flex justify-center py-6"><Loader2 className="h-5 w-5 animate-spin text-primary" /></div>
+      ) : !snapshots?.length ? (
+        <p className="text-xs text-muted-foreground text-center py-6">No snapshots yet</p>
+      ) : (
+        <div className="divide-y divide-border/30">
+          {snapshots.map(s => (
+            <div key={s.id} className="flex items-center gap-2 py-2 text-xs">
+              {s.status === 'taken'
+                ? <Camera className="h-3.5 w-3.5 text-primary flex-shrink-0" />
+                : <Clock className="h-3.5 w-3.5 text-warning flex-shrink-0" />}
+              <div className="min-w-0">
+                <p className="font-medium truncate">{s.label || formatDateTime(s.taken_at ?? s.take_at)}</p>
+                <p className="text-[10px] text-muted-foreground">
+                  {s.status === 'taken' ? `Taken ${formatDateTime(s.taken_at!)}` : `Scheduled for ${formatDateTime(s.take_at)}`}
+                  {Number(s.min_amount) > 0 && ` · min ${formatAmount(s.min_amount)} ${symbol}`}
+                </p>
+              </div>
+              <div className="ml-auto text-right">
+                {s.status === 'taken' ? (
+                  <>
+                    <p className="font-mono">{s.holder_count.toLocaleString()} holders</p>
+                    <p className="text-[10px] text-muted-foreground font-mono">{formatAmount(s.total_amount)} {symbol}</p>
+                  </>
+                ) : (
+                  <Badge variant="outline" className="text-[9px] h-4 px-1">Scheduled</Badge>
+                )}
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,274 @@
+import { useMemo, useState } from 'react';
+import { useQuery, useQueryClient } from '@tanstack/react-query';
+import { AreaChart, Area, XAxis, YAxis, Tooltip, ResponsiveContainer } from 'recharts';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import {
+  Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription, DialogFooter,
+} from '@/components/ui/dialog';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/lib/auth-context';
+import { Lock, Loader2, Plus } from 'lucide-react';
+import { toast } from 'sonner';
+
+interface TokenLock {
+  id: string;
+  category: 'creator' | 'team';
+  holder: string;
+  is_you: boolean;
+  amount: number;
+  remaining: number;
+  start_at: string;
+  cliff_at: string;
+  end_at: string;
+  note: string | null;
+}
+
+interface TokenLocks {
+  circulating_supply: number;
+  locked_now: number;
+  locks: TokenLock[];
+}
+
+/** Same curve as token_lock_remaining: all held until the cliff, then linear to the end. */
+function lockRemaining(lock: Pick<TokenLock, 'amount' | 'start_at' | 'cliff_at' | 'end_at'>, at: number) {
+  const start = Date.parse(lock.start_at);
+  const cliff = Date.parse(lock.cliff_at);
+  const end = Date.parse(lock.end_at);
+  if (at < cliff) return Number(lock.amount);
+  if (at >= end) return 0;
+  return Number(lock.amount) * (1 - (at - start) / (end - start));
+}
+
+const formatAmount = (v: number) =>
+  Number(v).toLocaleString(undefined, { notation: 'compact', maximumSignificantDigits: 4 });
+
+const formatDate = (iso: string | number) =>
+  new Date(iso).toLocaleDateString(undefined, { day: 'numeric', month: 'short', year: 'numeric' });
+
+function LockTokensDialog({ open, onOpenChange, coinId, symbol, onLocked }: {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  coinId: string;
+  symbol: string;
+  onLocked: () => void;
+}) {
+  const { isAdmin } = useAuth();
+  const [amount, setAmount] = useState('');
+  const [cliffDays, setCliffDays] = useState('30');
+  const [vestingDays, setVestingDays] = useState('180');
+  const [holderEmail, setHolderEmail] = useState('');
+  const [note, setNote] = useState('');
+  const [saving, setSaving] = useState(false);
+
+  const handleLock = async () => {
+    setSaving(true);
+    try {
+      let holderId: string | undefined;
+      if (holderEmail.trim()) {
+        const { data: profile, error } = await supabase
+          .from('profiles')
+          .select('user_id')
+          .ilike('email', holderEmail.trim().toLowerCase())
+          .maybeSingle();
+        if (error) throw error;
+        if (!profile) throw new Error('No account with that email');
+        holderId = profile.user_id;
+      }
+      const { error } = await supabase.rpc('create_token_lock', {
+        _coin_id: coinId,
+        _amount: Number(amount),
+        _cliff_days: Number(cliffDays) || 0,
+        _vesting_days: Number(vestingDays) || 0,
+        _holder_id: holderId,
+        _note: note.trim() || undefined,
+      });
+      if (error) throw error;
+      toast.success(`${Number(amount).toLocaleString()} ${symbol} locked`);
+      setAmount('');
+      setNote('');
+      setHolderEmail('');
+      onOpenChange(false);
+      onLocked();
+    } catch (e) {
+      toast.error((e as Error).message || 'Failed to lock tokens');
+    }
+    setSaving(false);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={(v) => { if (!saving) onOpenChange(v); }}>
+      <DialogContent className="max-w-sm">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2"><Lock className="h-4 w-4 text-primary" /> Lock {symbol}</DialogTitle>
+          <DialogDescription className="text-xs">
+            Locked tokens can't be sold until they unlock. Nothing unlocks before the cliff; the rest then
+            releases evenly until the end. A lock cannot be shortened or removed once created.
+          </DialogDescription>
+        </DialogHeader>
+        <div className="space-y-3">
+          {isAdmin && (
+            <div className="space-y-1.5">
+              <Label className="text-xs">Team member email</Label>
+              <Input value={holderEmail} onChange={e => setHolderEmail(e.target.value)} placeholder="Leave empty to lock your own" />
+            </div>
+          )}
+          <div className="space-y-1.5">
+            <Label className="text-xs">Amount ({symbol})</Label>
+            <Input type="number" min={0} value={amount} onChange={e => setAmount(e.target.value)} />
+          </div>
+          <div className="grid grid-cols-2 gap-2">
+            <div className="space-y-1.5">
+              <Label className="text-xs">Cliff (days)</Label>
+              <Input type="number" min={0} value={cliffDays} onChange={e => setCliffDays(e.target.value)} />
+            </div>
+            <div className="space-y-1.5">
+              <Label className="text-xs">Then vest over (days)</Label>
+              <Input type="number" min={0} value={vestingDays} onChange={e => setVestingDays(e.target.value)} />
+            </div>
+          </div>
+          <p className="text-[10px] text-muted-foreground">Set vesting to 0 for a time lock that releases everything at the cliff.</p>
+          <div className="space-y-1.5">
+            <Label className="text-xs">Note (optional)</Label>
+            <Input value={note} onChange={e => setNote(e.target.value)} maxLength={120} placeholder="e.g. Founder allocation" />
+          </div>
+        </div>
+        <DialogFooter>
+          <Button onClick={handleLock} disabled={saving || !(Number(amount) > 0)} className="w-full gap-2">
+            {saving ? <Loader2 className="h-4 w-4 animate-spin" /> : <Lock className="h-4 w-4" />}
+            Lock tokens
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+/**
+ * Public view of a coin's creator and team locks: how much is held back
+ * now and how it unlocks over time. The creator can add locks from here.
+ */
+export function LockedSupply({ coinId, symbol, creatorId }: { coinId: string; symbol: string; creatorId?: string | null }) {
+  const { user, isAdmin } = useAuth();
+  const queryClient = useQueryClient();
+  const [showDialog, setShowDialog] = useState(false);
+  const canLock = !!user && (user.id === creatorId || isAdmin);
+
+  const { data } = useQuery({
+    queryKey: ['token-locks', coinId, user?.id],
+    staleTime: 1000 * 60,
+    queryFn: async (): Promise<TokenLocks> => {
+      const { data, error } = await supabase.rpc('get_token_locks', { _coin_id: coinId });
+      if (error) throw error;
+      return data as unknown as TokenLocks;
+    },
+  });
+
+  const timeline = useMemo(() => {
+    if (!data?.locks.length) return [];
+    const now = Date.now();
+    const last = Math.max(...data.locks.map(l => Date.parse(l.end_at)));
+    // Sample either side of every cliff and at every end so drops land on the right day, plus an even spread between
+    const points = new Set<number>([now, last]);
+    data.locks.forEach(l => {
+      const cliff = Date.parse(l.cliff_at);
+      if (cliff > now) {
+        points.add(cliff - 1);
+        points.add(cliff);
+      }
+      points.add(Date.parse(l.end_at));
+    });
+    for (let i = 1; i < 40; i++) points.add(now + ((last - now) * i) / 40);
+    return [...points].sort((a, b) => a - b).map(at => ({
+      at,
+      locked: data.locks.reduce((sum, l) => sum + lockRemaining(l, at), 0),
+    }));
+  }, [data]);
+
+  if (!data || (!data.locks.length && !canLock)) return null;
+
+  const lockedPct = data.circulating_supply > 0 ? (Number(data.locked_now) / Number(data.circulating_supply)) * 100 : 0;
+  const nextUnlock = data.locks
+    .map(l => Date.parse(l.cliff_at))
+    .filter(t => t > Date.now())
+    .sort((a, b) => a - b)[0];
+
+  return (
+    <div className="space-y-3 pt-3 border-t border-border/50">
+      <div className="flex items-center justify-between">
+        <p className="text-xs text-muted-foreground font-medium uppercase tracking-wider flex items-center gap-1.5">
+          <Lock className="h-3 w-3" /> Locked Supply
+        </p>
+        {canLock && (
+          <Button variant="ghost" size="sm" onClick={() => setShowDialog(true)} className="gap-1.5 h-7 text-xs">
+            <Plus className="h-3 w-3" /> Lock tokens
+          </Button>
+        )}
+      </div>
+
+      {data.locks.length === 0 ? (
+        <p className="text-xs text-muted-foreground">
+          No tokens are locked. Locking part of your holdings shows buyers you won't sell it before a set date.
+        </p>
+      ) : (
+        <>
+          <div className="flex flex-wrap items-baseline gap-x-4 gap-y-1 text-xs">
+            <span>
+              <span className="font-mono font-semibold">{formatAmount(data.locked_now)} {symbol}</span>
+              <span className="text-muted-foreground"> locked ({lockedPct.toFixed(2)}% of circulating)</span>
+            </span>
+            {nextUnlock && <span className="text-muted-foreground">Next cliff {formatDate(nextUnlock)}</span>}
+          </div>
+
+          <div className="h-28">
+            <ResponsiveContainer width="100%" height="100%">
+              <AreaChart data={timeline} margin={{ top: 5, right: 5, left: 0, bottom: 0 }}>
+                <XAxis dataKey="at" type="number" scale="time" domain={['dataMin', 'dataMax']}
+                  tick={{ fontSize: 10 }} axisLine={false} tickLine={false}
+                  tickFormatter={(v: number) => new Date(v).toLocaleDateString(undefined, { month: 'short', year: '2-digit' })} />
+                <YAxis tick={{ fontSize: 10 }} axisLine={false} tickLine={false} width={44} tickFormatter={formatAmount} />
+                <Tooltip
+                  formatter={(v: number) => [`${formatAmount(v)} ${symbol}`, 'Locked']}
+                  labelFormatter={(v: number) => formatDate(v)}
+                  contentStyle={{ background: 'hsl(var(--card))', border: '1px solid hsl(var(--border))', fontSize: 12 }}
+                />
+                <Area type="linear" dataKey="locked" stroke="hsl(var(--primary))" fill="hsl(var(--primary) / 0.2)"
+                  strokeWidth={2} isAnimationActive={false} />
+              </AreaChart>
+            </ResponsiveContainer>
+          </div>
+
+          <div className="divide-y divide-border/30">
+            {data.locks.map(l => (
+              <div key={l.id} className="flex items-center gap-2 py-1.5 text-xs">
+                <Badge variant="secondary" className="text-[9px] h-4 px-1 capitalize">{l.category}</Badge>
+                <span className="font-mono text-muted-foreground">{l.holder}</span>
+                {l.is_you && <Badge variant="outline" className="text-[9px] h-4 px-1">You</Badge>}
+                <div className="ml-auto text-right">
+                  <p className="font-mono">{formatAmount(l.remaining)} / {formatAmount(l.amount)}</p>
+                  <p className="text-[10px] text-muted-foreground">
+                    {l.cliff_at === l.end_at
+                      ? `Unlocks ${formatDate(l.end_at)}`
+                      : `Cliff ${formatDate(l.cliff_at)} · fully vested ${formatDate(l.end_at)}`}
+                  </p>
+                </div>
+              </div>
+            ))}
+          </div>
+        </>
+      )}
+
+      {canLock && (
+        <LockTokensDialog
+          open={showDialog}
+          onOpenChange={setShowDialog}
+          coinId={coinId}
+          symbol={symbol}
+          onLocked={() => queryClient.invalidateQueries({ queryKey: ['token-locks', coinId] })}
+        />
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,254 @@
+import { useEffect, useState, useCallback } from 'react';
+import { Link } from 'react-router-dom';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Star, Plus, Pencil, Trash2, Check, X, ArrowUpRight, ArrowDownRight, Loader2, Radio } from 'lucide-react';
+import { supabase } from '@/integrations/supabase/client';
+import { useWatchlists } from '@/hooks/use-watchlists';
+import { toast } from 'sonner';
+
+interface TickerCoin {
+  id: string;
+  name: string;
+  symbol: string;
+  logo_url: string | null;
+  price: number;
+  /** Price 24h ago, so live prices can be turned into a live 24h change. */
+  basePrice: number | null;
+  /** Admin override; when set it wins over the live figure, as on CoinCard. */
+  overrideChange: number | null;
+}
+
+// The 24h window slides; refetch its starting prices this often
+const BASELINE_REFRESH_MS = 5 * 60 * 1000;
+
+const formatPrice = (p: number) => {
+  if (p < 0.0001) return p.toFixed(8);
+  if (p < 0.01) return p.toFixed(6);
+  if (p < 1) return p.toFixed(4);
+  return p.toFixed(2);
+};
+
+const changeOf = (c: TickerCoin) => {
+  if (c.overrideChange != null) return c.overrideChange;
+  return c.basePrice && c.basePrice > 0 ? (c.price / c.basePrice - 1) * 100 : 0;
+};
+
+const listError = (error: { code?: string; message?: string }) =>
+  error?.code === '23505' ? 'You already have a list with that name' : error?.message || 'Could not save watchlist';
+
+export function WatchlistPanel() {
+  const { watchlists, isLoading, toggleCoin, createList, renameList, deleteList } = useWatchlists();
+  const [activeId, setActiveId] = useState<string | null>(null);
+  const [coins, setCoins] = useState<TickerCoin[]>([]);
+  const [loadingCoins, setLoadingCoins] = useState(false);
+  const [live, setLive] = useState(false);
+  const [editing, setEditing] = useState<'new' | 'rename' | null>(null);
+  const [draftName, setDraftName] = useState('');
+
+  const active = watchlists.find(w => w.id === activeId) || watchlists[0] || null;
+  const activeListId = active?.id;
+  const coinKey = active ? active.coinIds.join(',') : '';
+
+  const fetchCoins = useCallback(async () => {
+    const ids = coinKey ? coinKey.split(',') : [];
+    if (ids.length === 0) {
+      setCoins([]);
+      return;
+    }
+    setLoadingCoins(true);
+    try {
+      const [{ data, error }, { data: changes }] = await Promise.all([
+        supabase
+          .from('coins')
+          .select('id, name, symbol, logo_url, price, use_price_change_24h_override, price_change_24h_override')
+          .in('id', ids),
+        supabase.rpc('get_coin_price_changes_24h'),
+      ]);
+      if (error) throw error;
+      const changeMap = new Map((changes || []).map(c => [c.coin_id, Number(c.price_change_24h)]));
+      const byId = new Map((data || []).map(c => [c.id, c]));
+      setCoins(ids.flatMap(id => {
+        const c = byId.get(id);
+        if (!c) return [];
+        const price = Number(c.price);
+        const change = changeMap.get(id);
+        return [{
+          id: c.id,
+          name: c.name,
+          symbol: c.symbol,
+          logo_url: c.logo_url,
+          price,
+          basePrice: change !== undefined && change > -100 ? price / (1 + change / 100) : null,
+          overrideChange: c.use_price_change_24h_override && c.price_change_24h_override != null
+            ? Number(c.price_change_24h_override) : null,
+        }];
+      }));
+    } catch (error) {
+      console.error('Error fetching watchlist coins:', error);
+    } finally {
+      setLoadingCoins(false);
+    }
+  }, [coinKey]);
+
+  useEffect(() => {
+    fetchCoins();
+    const interval = setInterval(fetchCoins, BASELINE_REFRESH_MS);
+    return () => clearInterval(interval);
+  }, [fetchCoins]);
+
+  useEffect(() => {
+    if (!activeListId || !coinKey) return;
+    const channel = supabase
+      .channel(`watchlist-${activeListId}`)
+      .on('postgres_changes', { event: 'UPDATE', schema: 'public', table: 'coins', filter: `id=in.(${coinKey})` }, (payload) => {
+        const updated = payload.new as {
+          id: string;
+          price: number;
+          use_price_change_24h_override: boolean | null;
+          price_change_24h_override: number | null;
+        };
+        setCoins(prev => prev.map(c => c.id === updated.id
+          ? {
+              ...c,
+              price: Number(updated.price),
+              overrideChange: updated.use_price_change_24h_override && updated.price_change_24h_override != null
+                ? Number(updated.price_change_24h_override) : null,
+            }
+          : c));
+      })
+      .subscribe(status => setLive(status === 'SUBSCRIBED'));
+    return () => {
+      setLive(false);
+      supabase.removeChannel(channel);
+    };
+  }, [activeListId, coinKey]);
+
+  const startEdit = (mode: 'new' | 'rename') => {
+    setEditing(mode);
+    setDraftName(mode === 'rename' && active ? active.name : '');
+  };
+
+  const saveName = async () => {
+    const name = draftName.trim();
+    if (!name) return;
+    try {
+      if (editing === 'new') {
+        setActiveId(await createList(name));
+      } else if (active) {
+        await renameList(active.id, name);
+      }
+      setEditing(null);
+    } catch (error) {
+      toast.error(listError(error));
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!active || !confirm(`Delete "${active.name}"?`)) return;
+    try {
+      await deleteList(active.id);
+      setActiveId(null);
+    } catch (error) {
+      toast.error(listError(error));
+    }
+  };
+
+  const handleRemove = async (coin: TickerCoin) => {
+    if (!active) return;
+    try {
+      await toggleCoin(coin.id, active.id);
+    } catch (error) {
+      toast.error(listError(error));
+    }
+  };
+
+  return (
+    <Card className="glass-card">
+      <CardHeader className="flex flex-row items-center justify-between gap-2 p-3 sm:p-4 pb-2 sm:pb-2 space-y-0">
+        <CardTitle className="text-sm flex items-center gap-1.5">
+          <Star className="h-4 w-4 text-yellow-400" /> Watchlist
+          {live && <Radio className="h-3 w-3 text-success animate-pulse" aria-label="Live" />}
+        </CardTitle>
+        {editing ? (
+          <div className="flex items-center gap-1">
+            <Input
+              autoFocus
+              value={draftName}
+              maxLength={40}
+              placeholder="List name"
+              onChange={e => setDraftName(e.target.value)}
+              onKeyDown={e => e.key === 'Enter' && saveName()}
+              className="h-7 w-32 sm:w-40 text-xs"
+            />
+            <Button variant="ghost" size="icon" className="h-7 w-7" onClick={saveName}><Check className="h-3.5 w-3.5" /></Button>
+            <Button variant="ghost" size="icon" className="h-7 w-7" onClick={() => setEditing(null)}><X className="h-3.5 w-3.5" /></Button>
+          </div>
+        ) : (
+          <div className="flex items-center gap-1">
+            {watchlists.length > 0 && (
+              <Select value={active?.id} onValueChange={setActiveId}>
+                <SelectTrigger className="h-7 w-32 sm:w-40 text-xs"><SelectValue /></SelectTrigger>
+                <SelectContent>
+                  {watchlists.map(w => (
+                    <SelectItem key={w.id} value={w.id} className="text-xs">{w.name} ({w.coinIds.length})</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            )}
+            {active && (
+              <>
+                <Button variant="ghost" size="icon" className="h-7 w-7" title="Rename list" onClick={() => startEdit('rename')}><Pencil className="h-3.5 w-3.5" /></Button>
+                <Button variant="ghost" size="icon" className="h-7 w-7" title="Delete list" onClick={handleDelete}><Trash2 className="h-3.5 w-3.5" /></Button>
+              </>
+            )}
+            <Button variant="ghost" size="icon" className="h-7 w-7" title="New list" onClick={() => startEdit('new')}><Plus className="h-3.5 w-3.5" /></Button>
+          </div>
+        )}
+      </CardHeader>
+      <CardContent className="p-3 pt-0 sm:p-4 sm:pt-0">
+        {isLoading || (loadingCoins && coins.length === 0) ? (
+          <div className="flex justify-center py-6"><Loader2 className="h-5 w-5 animate-spin text-primary" /></div>
+        ) : !active || coins.length === 0 ? (
+          <p className="text-center py-6 text-xs text-muted-foreground">
+            Star a coin on the <Link to="/launchpad" className="text-primary hover:underline">launchpad</Link> to follow its price here.
+          </p>
+        ) : (
+          <div className="divide-y divide-border/30">
+            {coins.map(c => {
+              const change = changeOf(c);
+              const isUp = change >= 0;
+              return (
+                <div key={c.id} className="flex items-center gap-2 py-2">
+                  <Link to={`/coin/${c.id}`} className="flex items-center gap-2 min-w-0 flex-1 hover:text-primary transition-colors">
+                    <div className="h-7 w-7 rounded-full bg-gradient-to-br from-primary/20 to-accent/20 flex items-center justify-center overflow-hidden flex-shrink-0">
+                      {c.logo_url ? (
+                        <img src={c.logo_url} alt={c.name} className="h-full w-full object-cover" />
+                      ) : (
+                        <span className="text-[10px] font-bold text-primary">{c.symbol.charAt(0)}</span>
+                      )}
+                    </div>
+                    <div className="min-w-0">
+                      <p className="font-semibold text-xs truncate">{c.symbol}</p>
+                      <p className="text-[10px] text-muted-foreground truncate">{c.name}</p>
+                    </div>
+                  </Link>
+                  <span className="font-mono text-xs">KES {formatPrice(c.price)}</span>
+                  <span className={`flex items-center justify-end gap-0.5 w-16 text-xs font-medium ${isUp ? 'text-success' : 'text-destructive'}`}>
+                    {isUp ? <ArrowUpRight className="h-3 w-3" /> : <ArrowDownRight className="h-3 w-3" />}
+                    {Math.abs(change).toFixed(2)}%
+                  </span>
+                  <Button variant="ghost" size="icon" className="h-6 w-6" title="Remove from list" onClick={() => handleRemove(c)}>
+                    <X className="h-3 w-3" />
+                  </Button>
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
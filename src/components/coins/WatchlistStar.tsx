@@ -0,0 +1,82 @@
+import { useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { Star } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import {
+  DropdownMenu, DropdownMenuCheckboxItem, DropdownMenuContent, DropdownMenuLabel,
+  DropdownMenuSeparator, DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import { useWatchlists } from '@/hooks/use-watchlists';
+import { toast } from 'sonner';
+import { cn } from '@/lib/utils';
+
+interface WatchlistStarProps {
+  coinId: string;
+  coinSymbol: string;
+  className?: string;
+}
+
+/**
+ * Star toggle for a coin. One click with a single list (or none yet, which
+ * creates "Watchlist"); a menu of lists once the user has more than one.
+ */
+export function WatchlistStar({ coinId, coinSymbol, className }: WatchlistStarProps) {
+  const navigate = useNavigate();
+  const { watchlists, signedIn, isWatched, toggleCoin } = useWatchlists();
+  const [busy, setBusy] = useState(false);
+  const watched = isWatched(coinId);
+
+  const toggle = async (watchlistId?: string) => {
+    setBusy(true);
+    try {
+      const result = await toggleCoin(coinId, watchlistId);
+      const list = watchlists.find(w => w.id === result.watchlist_id)?.name || 'Watchlist';
+      toast.success(result.watching ? `${coinSymbol} added to ${list}` : `${coinSymbol} removed from ${list}`);
+    } catch (error) {
+      toast.error((error as Error).message || 'Could not update watchlist');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const star = (
+    <Button
+      variant="ghost"
+      size="icon"
+      disabled={busy}
+      className={cn('h-7 w-7', className)}
+      title={watched ? 'On your watchlist' : 'Add to watchlist'}
+      onClick={watchlists.length > 1 ? undefined : () => (signedIn ? toggle() : navigate('/auth'))}
+    >
+      <Star className={cn('h-3.5 w-3.5', watched ? 'fill-yellow-400 text-yellow-400' : 'text-muted-foreground')} />
+    </Button>
+  );
+
+  // Menu items render in a portal but their clicks still bubble through the
+  // React tree, so this wrapper keeps them from opening the coin card
+  return (
+    <span className="inline-flex" onClick={(e) => e.stopPropagation()}>
+      {watchlists.length > 1 ? (
+        <DropdownMenu>
+          <DropdownMenuTrigger asChild>{star}</DropdownMenuTrigger>
+          <DropdownMenuContent align="end">
+            <DropdownMenuLabel className="text-xs">Watchlists</DropdownMenuLabel>
+            <DropdownMenuSeparator />
+            {watchlists.map(w => (
+              <DropdownMenuCheckboxItem
+                key={w.id}
+                checked={w.coinIds.includes(coinId)}
+                disabled={busy}
+                onSelect={(e) => e.preventDefault()}
+                onCheckedChange={() => toggle(w.id)}
+                className="text-xs"
+              >
+                {w.name}
+              </DropdownMenuCheckboxItem>
+            ))}
+          </DropdownMenuContent>
+        </DropdownMenu>
+      ) : star}
+    </span>
+  );
+}
@@ -0,0 +1,132 @@
+import { BarChart, Bar, LineChart, Line, XAxis, YAxis, Tooltip, ResponsiveContainer } from 'recharts';
+import { Badge } from '@/components/ui/badge';
+import { useCreatorCoinInsights } from '@/hooks/use-creator-dashboard';
+import { Loader2, Radio, Users, BarChart3, Crown } from 'lucide-react';
+
+const formatKes = (v: number) =>
+  Number(v).toLocaleString(undefined, { notation: 'compact', maximumSignificantDigits: 4 });
+
+const formatDay = (day: string) =>
+  new Date(day).toLocaleDateString(undefined, { day: 'numeric', month: 'short' });
+
+const formatDateTime = (iso: string) =>
+  new Date(iso).toLocaleString(undefined, { day: 'numeric', month: 'short', hour: '2-digit', minute: '2-digit' });
+
+const tooltipStyle = { background: 'hsl(var(--card))', border: '1px solid hsl(var(--border))', fontSize: 12 };
+
+/**
+ * Day-by-day volume, commission and holders for one coin, plus its biggest
+ * buyers and how trading moved while each live stream was on.
+ */
+export function CreatorCoinInsights({ coinId, symbol, days }: { coinId: string; symbol: string; days: number }) {
+  const { data, isLoading, error } = useCreatorCoinInsights(coinId, days);
+
+  if (isLoading) {
+    return <div className="flex justify-center py-10"><Loader2 className="h-5 w-5 animate-spin text-primary" /></div>;
+  }
+  if (error || !data) {
+    return <p className="text-xs text-muted-foreground text-center py-10">Insights are unavailable right now</p>;
+  }
+
+  return (
+    <div className="space-y-5">
+      <div className="grid gap-4 md:grid-cols-2">
+        <div>
+          <p className="text-[10px] uppercase tracking-wider text-muted-foreground mb-1 flex items-center gap-1">
+            <BarChart3 className="h-3 w-3" /> Volume and commission (KES)
+          </p>
+          <div className="h-44">
+            <ResponsiveContainer width="100%" height="100%">
+              <BarChart data={data.daily} margin={{ top: 5, right: 5, left: 0, bottom: 0 }}>
+                <XAxis dataKey="day" tick={{ fontSize: 10 }} axisLine={false} tickLine={false} tickFormatter={formatDay} minTickGap={16} />
+                <YAxis tick={{ fontSize: 10 }} axisLine={false} tickLine={false} width={40} tickFormatter={formatKes} />
+                <Tooltip
+                  formatter={(v: number, name: string) => [`KES ${formatKes(v)}`, name === 'volume' ? 'Volume' : 'Your commission']}
+                  labelFormatter={formatDay}
+                  contentStyle={tooltipStyle}
+                  cursor={{ fill: 'hsl(var(--muted) / 0.3)' }}
+                />
+                <Bar dataKey="volume" fill="hsl(var(--primary) / 0.35)" radius={[3, 3, 0, 0]} isAnimationActive={false} />
+                <Bar dataKey="earnings" fill="hsl(var(--success))" radius={[3, 3, 0, 0]} isAnimationActive={false} />
+              </BarChart>
+            </ResponsiveContainer>
+          </div>
+        </div>
+        <div>
+          <p className="text-[10px] uppercase tracking-wider text-muted-foreground mb-1 flex items-center gap-1">
+            <Users className="h-3 w-3" /> Holders
+          </p>
+          <div className="h-44">
+            <ResponsiveContainer width="100%" height="100%">
+              <LineChart data={data.daily} margin={{ top: 5, right: 5, left: 0, bottom: 0 }}>
+                <XAxis dataKey="day" tick={{ fontSize: 10 }} axisLine={false} tickLine={false} tickFormatter={formatDay} minTickGap={16} />
+                <YAxis tick={{ fontSize: 10 }} axisLine={false} tickLine={false} width={32} allowDecimals={false} />
+                <Tooltip formatter={(v: number) => [v.toLocaleString(), 'Holders']} labelFormatter={formatDay} contentStyle={tooltipStyle} />
+                <Line type="stepAfter" dataKey="holders" stroke="hsl(var(--primary))" strokeWidth={2} dot={false} isAnimationActive={false} />
+              </LineChart>
+            </ResponsiveContainer>
+          </div>
+        </div>
+      </div>
+
+      <div>
+        <p className="text-[10px] uppercase tracking-wider text-muted-foreground mb-1 flex items-center gap-1">
+          <Crown className="h-3 w-3" /> Top buyers
+        </p>
+        {data.top_buyers.length === 0 ? (
+          <p className="text-xs text-muted-foreground py-3">No buys in this period</p>
+        ) : (
+          <div className="divide-y divide-border/30">
+            {data.top_buyers.map((b, i) => (
+              <div key={b.alias} className="flex items-center gap-2 px-2 py-1.5 text-xs">
+                <span className="w-5 font-mono text-muted-foreground">{i + 1}</span>
+                <span className="font-mono">{b.alias}</span>
+                {Number(b.holding) <= 0 && <Badge variant="outline" className="text-[9px] h-4 px-1">Sold out</Badge>}
+                <span className="ml-auto text-muted-foreground">{b.buys} buy{b.buys === 1 ? '' : 's'}</span>
+                <span className="w-20 text-right font-mono text-muted-foreground">{formatKes(b.bought)} {symbol}</span>
+                <span className="w-20 text-right font-mono font-medium">KES {formatKes(b.spent)}</span>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+
+      <div>
+        <p className="text-[10px] uppercase tracking-wider text-muted-foreground mb-1 flex items-center gap-1">
+          <Radio className="h-3 w-3" /> Live streams
+        </p>
+        {data.streams.length === 0 ? (
+          <p className="text-xs text-muted-foreground py-3">You haven't gone live for {symbol} in this period</p>
+        ) : (
+          <div className="divide-y divide-border/30">
+            {data.streams.map(s => {
+              const lift = Number(data.volume_per_hour) > 0 ? Number(s.volume_per_hour) / Number(data.volume_per_hour) : null;
+              return (
+                <div key={s.id} className="py-2 text-xs space-y-1">
+                  <div className="flex items-center gap-2">
+                    <span className="font-medium truncate">{s.title || 'Untitled stream'}</span>
+                    {s.is_active && <Badge variant="destructive" className="text-[9px] h-4 px-1">Live</Badge>}
+                    <span className="ml-auto text-[10px] text-muted-foreground">
+                      {formatDateTime(s.started_at)} – {formatDateTime(s.ended_at)}
+                    </span>
+                  </div>
+                  <div className="flex flex-wrap gap-x-4 gap-y-0.5 text-muted-foreground">
+                    <span><span className="font-mono text-foreground">KES {formatKes(s.volume)}</span> volume</span>
+                    <span><span className="font-mono text-foreground">{s.trades}</span> trades</span>
+                    <span><span className="font-mono text-foreground">{s.buyers}</span> buyers</span>
+                    <span><span className="font-mono text-foreground">{s.new_holders}</span> first-time buyers</span>
+                    <span><span className="font-mono text-success">KES {formatKes(s.earnings)}</span> commission</span>
+                    {lift !== null && (
+                      <span><span className="font-mono text-foreground">{lift.toFixed(1)}×</span> your usual hourly volume</span>
+                    )}
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+        )}
+        <p className="text-[10px] text-muted-foreground mt-1">Trades count towards a stream when they happen while it is live.</p>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,79 @@
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { useCreatorPayouts } from '@/hooks/use-creator-dashboard';
+import { ChevronLeft, ChevronRight, Loader2, Wallet } from 'lucide-react';
+
+const PAGE_SIZE = 25;
+
+const formatKes = (v: number) =>
+  Number(v).toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 });
+
+/**
+ * Every creator commission credit with the trade that paid it, the rate
+ * applied and the wallet balance right after it landed.
+ */
+export function CreatorPayouts({ coinId }: { coinId: string | null }) {
+  const [page, setPage] = useState(0);
+  const { data, isLoading } = useCreatorPayouts(coinId, page, PAGE_SIZE);
+  const pages = data ? Math.max(1, Math.ceil(data.total_count / PAGE_SIZE)) : 1;
+
+  if (isLoading) {
+    return <div className="flex justify-center py-10"><Loader2 className="h-5 w-5 animate-spin text-primary" /></div>;
+  }
+  if (!data?.payouts.length) {
+    return (
+      <p className="text-xs text-muted-foreground text-center py-10">
+        No commission yet. You earn a share of every trade other people make in your coins.
+      </p>
+    );
+  }
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-baseline justify-between text-xs">
+        <span className="text-muted-foreground">{data.total_count.toLocaleString()} credit(s)</span>
+        <span>
+          <span className="text-muted-foreground">Total </span>
+          <span className="font-mono font-semibold text-success">KES {formatKes(data.total_amount)}</span>
+        </span>
+      </div>
+
+      <div className="divide-y divide-border/30">
+        {data.payouts.map(p => (
+          <div key={p.id} className="flex items-center gap-2 py-2 text-xs">
+            <Wallet className="h-3.5 w-3.5 text-success flex-shrink-0" />
+            <div className="min-w-0">
+              <p className="truncate">
+                {Number(p.commission_rate)}% of a KES {formatKes(p.trade_value)} {p.trade_type} of {p.symbol}
+                {p.source === 'mpesa_buy' && <Badge variant="outline" className="ml-1.5 text-[9px] h-4 px-1">M-Pesa</Badge>}
+              </p>
+              <p className="text-[10px] text-muted-foreground">
+                {new Date(p.created_at).toLocaleString()}
+                {p.transaction_id && <span className="font-mono"> · #{p.transaction_id.slice(0, 8)}</span>}
+              </p>
+            </div>
+            <div className="ml-auto text-right shrink-0">
+              <p className="font-mono font-medium text-success">+KES {formatKes(p.amount)}</p>
+              {p.balance_after !== null && (
+                <p className="text-[10px] text-muted-foreground font-mono">Balance KES {formatKes(p.balance_after)}</p>
+              )}
+            </div>
+          </div>
+        ))}
+      </div>
+
+      {pages > 1 && (
+        <div className="flex items-center justify-end gap-2 text-xs">
+          <Button variant="ghost" size="sm" className="h-7 w-7 p-0" disabled={page === 0} onClick={() => setPage(p => p - 1)}>
+            <ChevronLeft className="h-4 w-4" />
+          </Button>
+          <span className="text-muted-foreground">Page {page + 1} of {pages}</span>
+          <Button variant="ghost" size="sm" className="h-7 w-7 p-0" disabled={page + 1 >= pages} onClick={() => setPage(p => p + 1)}>
+            <ChevronRight className="h-4 w-4" />
+          </Button>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,123 @@
+import { useEffect, useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { Dialog, DialogContent } from '@/components/ui/dialog';
+import { Command, CommandGroup, CommandInput, CommandItem, CommandList } from '@/components/ui/command';
+import { Flame, Loader2, Radio, Search } from 'lucide-react';
+import { searchCoins, type SearchedCoin } from '@/hooks/use-coin-search';
+
+interface CoinSearchDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+const formatPrice = (p: number) => {
+  if (p < 0.0001) return p.toFixed(8);
+  if (p < 0.01) return p.toFixed(6);
+  if (p < 1) return p.toFixed(4);
+  return p.toFixed(2);
+};
+
+/**
+ * Command-palette coin search: type, arrow through matches and press Enter
+ * to open the coin. "See all results" hands the query to the launchpad.
+ */
+export function CoinSearchDialog({ open, onOpenChange }: CoinSearchDialogProps) {
+  const navigate = useNavigate();
+  const [query, setQuery] = useState('');
+  const [results, setResults] = useState<SearchedCoin[]>([]);
+  const [loading, setLoading] = useState(false);
+
+  useEffect(() => {
+    if (!open) setQuery('');
+  }, [open]);
+
+  useEffect(() => {
+    const q = query.trim();
+    if (!q) {
+      setResults([]);
+      setLoading(false);
+      return;
+    }
+    setLoading(true);
+    let cancelled = false;
+    const t = setTimeout(async () => {
+      try {
+        const page = await searchCoins({ query: q }, null, 8);
+        if (!cancelled) setResults(page.coins);
+      } catch (e) {
+        console.error('Coin search failed:', e);
+        if (!cancelled) setResults([]);
+      }
+      if (!cancelled) setLoading(false);
+    }, 200);
+    return () => { cancelled = true; clearTimeout(t); };
+  }, [query]);
+
+  const go = (path: string) => {
+    onOpenChange(false);
+    navigate(path);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="overflow-hidden p-0 shadow-lg">
+        {/* Results come from the server already ranked, so cmdk's own filter is off */}
+        <Command shouldFilter={false} className="[&_[cmdk-input-wrapper]_svg]:h-5 [&_[cmdk-input-wrapper]_svg]:w-5 [&_[cmdk-input]]:h-12 [&_[cmdk-item]]:px-2 [&_[cmdk-item]]:py-2.5">
+          <CommandInput
+            value={query}
+            onValueChange={setQuery}
+            placeholder="Search coins by name, symbol or contract..."
+          />
+          <CommandList>
+            {loading && results.length === 0 && (
+              <div className="flex justify-center py-6"><Loader2 className="h-5 w-5 animate-spin text-primary" /></div>
+            )}
+            {!loading && query.trim() && results.length === 0 && (
+              <p className="py-6 text-center text-sm text-muted-foreground">No coins found.</p>
+            )}
+            {results.length > 0 && (
+              <CommandGroup heading="Coins">
+                {results.map(coin => (
+                  <CommandItem key={coin.id} value={coin.id} onSelect={() => go(`/coin/${coin.id}`)} className="gap-3">
+                    <div className="h-7 w-7 rounded-full bg-gradient-to-br from-primary/20 to-accent/20 flex items-center justify-center overflow-hidden flex-shrink-0">
+                      {coin.logo_url ? (
+                        <img src={coin.logo_url} alt={coin.name} className="h-full w-full object-cover" />
+                      ) : (
+                        <span className="text-[10px] font-bold text-primary">{coin.symbol.charAt(0)}</span>
+                      )}
+                    </div>
+                    <div className="min-w-0 flex-1">
+                      <div className="flex items-center gap-1">
+                        <span className="text-sm font-medium truncate">{coin.name}</span>
+                        {coin.is_trending && <Flame className="h-3 w-3 text-orange-400 flex-shrink-0" />}
+                        {coin.has_live && <Radio className="h-3 w-3 text-destructive flex-shrink-0" />}
+                      </div>
+                      <span className="text-[10px] text-muted-foreground">{coin.symbol}</span>
+                    </div>
+                    <div className="text-right">
+                      <p className="font-mono text-xs">KES {formatPrice(coin.price)}</p>
+                      <p className={`text-[10px] ${coin.price_change_24h >= 0 ? 'text-success' : 'text-destructive'}`}>
+                        {coin.price_change_24h >= 0 ? '+' : ''}{Number(coin.price_change_24h).toFixed(2)}%
+                      </p>
+                    </div>
+                  </CommandItem>
+                ))}
+              </CommandGroup>
+            )}
+            {query.trim() && (
+              <CommandGroup>
+                <CommandItem
+                  value="__all__"
+                  onSelect={() => go(`/launchpad?search=${encodeURIComponent(query.trim())}`)}
+                  className="gap-2 text-muted-foreground"
+                >
+                  <Search className="h-4 w-4" /> See all results for "{query.trim()}"
+                </CommandItem>
+              </CommandGroup>
+            )}
+          </CommandList>
+        </Command>
+      </DialogContent>
+    </Dialog>
+  );
+}
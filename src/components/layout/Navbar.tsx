@@ -2,89 +2,42 @@ import { Link, useNavigate } from 'react-router-dom';
 import { Button } from '@/components/ui/button';
 import { useAuth } from '@/lib/auth-context';
 import { useSiteSettings } from '@/lib/site-settings-context';
-import { Rocket, User, LogOut, LayoutDashboard, Shield, Wallet, Menu, Plus, Search, Blocks } from 'lucide-react';
-import { useState } from 'react';
-import { Input } from '@/components/ui/input';
-import { supabase } from '@/integrations/supabase/client';
+import { Rocket, User, LogOut, LayoutDashboard, Shield, Wallet, Menu, Plus, Search, Blocks, Trophy } from 'lucide-react';
+import { useState, useEffect } from 'react';
 import {
   DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuSeparator, DropdownMenuTrigger,
 } from '@/components/ui/dropdown-menu';
 import {
   Sheet, SheetContent, SheetTrigger, SheetClose,
 } from '@/components/ui/sheet';
-import { toast } from 'sonner';
 import { LiveStreamsBanner } from '@/components/live/LiveStreamsBanner';
+import { CoinSearchDialog } from './CoinSearchDialog';
 
 export function Navbar() {
   const { user, isSuperAdmin, signOut } = useAuth();
   const { settings } = useSiteSettings();
   const navigate = useNavigate();
   const [mobileOpen, setMobileOpen] = useState(false);
-  const [contractSearch, setContractSearch] = useState('');
-  const [showSearch, setShowSearch] = useState(false);
+  const [searchOpen, setSearchOpen] = useState(false);
 
   const handleSignOut = async () => {
     await signOut();
     navigate('/');
   };
 
-  const handleContractSearch = async (e: React.FormEvent) => {
-    e.preventDefault();
-    const query = contractSearch.trim();
-    if (!query) return;
-
-    // Search by exact contract address first
-    const { data: exactMatch } = await supabase
-      .from('coins')
-      .select('id')
-      .eq('contract_address', query)
-      .eq('is_active', true)
-      .maybeSingle();
-
-    if (exactMatch) {
-      navigate(`/coin/${exactMatch.id}`);
-      setContractSearch('');
-      setShowSearch(false);
-      return;
-    }
-
-    // Search by partial contract address
-    const { data: partialMatch } = await supabase
-      .from('coins')
-      .select('id')
-      .ilike('contract_address', `%${query}%`)
-      .eq('is_active', true)
-      .limit(1)
-      .maybeSingle();
-
-    if (partialMatch) {
-      navigate(`/coin/${partialMatch.id}`);
-      setContractSearch('');
-      setShowSearch(false);
-      return;
-    }
-
-    // Search by name or symbol
-    const { data: nameMatch } = await supabase
-      .from('coins')
-      .select('id')
-      .or(`name.ilike.%${query}%,symbol.ilike.%${query}%`)
-      .eq('is_active', true)
-      .limit(1)
-      .maybeSingle();
-
-    if (nameMatch) {
-      navigate(`/coin/${nameMatch.id}`);
-      setContractSearch('');
-      setShowSearch(false);
-      return;
-    }
-
-    toast.error('No coin found with that contract address or name');
-    navigate(`/launchpad?search=${encodeURIComponent(query)}`);
-    setContractSearch('');
-    setShowSearch(false);
-  };
+  // Ctrl/Cmd+K anywhere, or "/" outside a text field, opens coin search
+  useEffect(() => {
+    const onKeyDown = (e: KeyboardEvent) => {
+      const target = e.target as HTMLElement | null;
+      const typing = target?.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target?.tagName || '');
+      if ((e.key === 'k' && (e.metaKey || e.ctrlKey)) || (e.key === '/' && !typing)) {
+        e.preventDefault();
+        setSearchOpen(true);
+      }
+    };
+    window.addEventListener('keydown', onKeyDown);
+    return () => window.removeEventListener('keydown', onKeyDown);
+  }, []);
 
   return (
     <>
@@ -110,6 +63,9 @@ export function Navbar() {
           <Link to="/live" className="text-muted-foreground hover:text-foreground transition-colors text-sm">
             Live
           </Link>
+          <Link to="/leaderboards" className="text-muted-foreground hover:text-foreground transition-colors text-sm">
+            Leaderboards
+          </Link>
           {user && (
             <Link to="/dashboard" className="text-muted-foreground hover:text-foreground transition-colors text-sm">
               Portfolio
@@ -119,26 +75,17 @@ export function Navbar() {
             Learn
           </Link>
 
-          {/* Contract Search */}
-          {showSearch ? (
-            <form onSubmit={handleContractSearch} className="flex items-center gap-2">
-              <Input
-                placeholder="Search contract or name..."
-                value={contractSearch}
-                onChange={(e) => setContractSearch(e.target.value)}
-                className="h-8 w-48 text-xs bg-muted/30"
-                autoFocus
-                onBlur={() => { if (!contractSearch) setShowSearch(false); }}
-              />
-            </form>
-          ) : (
-            <Button variant="ghost" size="icon" className="h-8 w-8" onClick={() => setShowSearch(true)}>
-              <Search className="h-4 w-4" />
-            </Button>
-          )}
+          {/* Coin Search */}
+          <Button variant="ghost" size="sm" className="h-8 gap-2 text-muted-foreground text-xs" onClick={() => setSearchOpen(true)}>
+            <Search className="h-4 w-4" />
+            <kbd className="hidden lg:inline rounded border border-border bg-muted/50 px-1.5 font-mono text-[10px]">⌘K</kbd>
+          </Button>
         </div>
 
         <div className="flex items-center gap-2 sm:gap-3">
+          <Button variant="ghost" size="icon" className="h-8 w-8 md:hidden" onClick={() => setSearchOpen(true)}>
+            <Search className="h-4 w-4" />
+          </Button>
           {user ? (
             <>
               <Button variant="hero" size="sm" className="gap-1.5 hidden sm:flex text-xs" onClick={() => navigate('/create-coin')}>
@@ -206,17 +153,13 @@ export function Navbar() {
                       </div>
                     </div>
 
-                    <form onSubmit={(e) => { handleContractSearch(e); setMobileOpen(false); }}>
-                      <div className="relative">
-                        <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
-                        <Input
-                          placeholder="Search contract address..."
-                          value={contractSearch}
-                          onChange={(e) => setContractSearch(e.target.value)}
-                          className="pl-9 bg-muted/30"
-                        />
-                      </div>
-                    </form>
+                    <button
+                      type="button"
+                      onClick={() => { setMobileOpen(false); setSearchOpen(true); }}
+                      className="flex items-center gap-2 h-10 px-3 rounded-md border border-input bg-muted/30 text-sm text-muted-foreground"
+                    >
+                      <Search className="h-4 w-4" /> Search coins or contracts...
+                    </button>
 
                     <div className="flex flex-col gap-1">
                       <SheetClose asChild>
@@ -229,6 +172,11 @@ export function Navbar() {
                           <Rocket className="h-5 w-5 text-muted-foreground" /> Live
                         </Link>
                       </SheetClose>
+                      <SheetClose asChild>
+                        <Link to="/leaderboards" className="flex items-center gap-3 p-3 rounded-lg hover:bg-muted transition-colors">
+                          <Trophy className="h-5 w-5 text-muted-foreground" /> Leaderboards
+                        </Link>
+                      </SheetClose>
                       <SheetClose asChild>
                         <Link to="/dashboard" className="flex items-center gap-3 p-3 rounded-lg hover:bg-muted transition-colors">
                           <LayoutDashboard className="h-5 w-5 text-muted-foreground" /> Dashboard
@@ -294,6 +242,11 @@ export function Navbar() {
                         <Rocket className="h-5 w-5 text-muted-foreground" /> Live
                       </Link>
                     </SheetClose>
+                    <SheetClose asChild>
+                      <Link to="/leaderboards" className="flex items-center gap-3 p-3 rounded-lg hover:bg-muted transition-colors">
+                        <Trophy className="h-5 w-5 text-muted-foreground" /> Leaderboards
+                      </Link>
+                    </SheetClose>
                     <SheetClose asChild>
                       <Link to="/blockchain" className="flex items-center gap-3 p-3 rounded-lg hover:bg-muted transition-colors">
                         <Blocks className="h-5 w-5 text-muted-foreground" /> How It Works
@@ -318,6 +271,7 @@ export function Navbar() {
         </div>
       </nav>
     </header>
+    <CoinSearchDialog open={searchOpen} onOpenChange={setSearchOpen} />
     </>
   );
 }
@@ -0,0 +1,245 @@
+import { useEffect, useState, useCallback, useRef } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Badge } from '@/components/ui/badge';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { ShieldAlert, Target, TrendingDown, X, Plus, Loader2 } from 'lucide-react';
+import { supabase } from '@/integrations/supabase/client';
+import { toast } from 'sonner';
+
+type ConditionalType = 'stop_loss' | 'take_profit' | 'trailing_stop';
+
+interface ConditionalOrder {
+  id: string;
+  order_type: ConditionalType;
+  amount: number;
+  trigger_price: number | null;
+  trail_percent: number | null;
+  peak_price: number | null;
+  status: string;
+  executed_price: number | null;
+  executed_amount: number | null;
+  failure_reason: string | null;
+  triggered_at: string | null;
+  created_at: string;
+}
+
+interface ConditionalOrdersProps {
+  coinId: string;
+  userId: string;
+  symbol: string;
+  currentPrice: number;
+  holding: number;
+  onChange?: () => void;
+}
+
+const TYPE_LABELS: Record<ConditionalType, string> = {
+  stop_loss: 'Stop-loss',
+  take_profit: 'Take-profit',
+  trailing_stop: 'Trailing stop',
+};
+
+const TYPE_ICONS: Record<ConditionalType, typeof ShieldAlert> = {
+  stop_loss: ShieldAlert,
+  take_profit: Target,
+  trailing_stop: TrendingDown,
+};
+
+export function ConditionalOrders({ coinId, userId, symbol, currentPrice, holding, onChange }: ConditionalOrdersProps) {
+  const [orders, setOrders] = useState<ConditionalOrder[]>([]);
+  const [orderType, setOrderType] = useState<ConditionalType>('stop_loss');
+  const [triggerPrice, setTriggerPrice] = useState('');
+  const [trailPercent, setTrailPercent] = useState('5');
+  const [amount, setAmount] = useState('');
+  const [submitting, setSubmitting] = useState(false);
+  const [busyId, setBusyId] = useState<string | null>(null);
+  // Read through a ref so an inline callback from the parent doesn't resubscribe every render
+  const onChangeRef = useRef(onChange);
+  onChangeRef.current = onChange;
+
+  const fetchOrders = useCallback(async () => {
+    const { data } = await supabase
+      .from('conditional_orders')
+      .select('id, order_type, amount, trigger_price, trail_percent, peak_price, status, executed_price, executed_amount, failure_reason, triggered_at, created_at')
+      .eq('user_id', userId)
+      .eq('coin_id', coinId)
+      .order('created_at', { ascending: false })
+      .limit(20);
+    setOrders((data || []) as ConditionalOrder[]);
+  }, [coinId, userId]);
+
+  useEffect(() => {
+    fetchOrders();
+    const channel = supabase
+      .channel(`conditional-orders-${userId}-${coinId}`)
+      .on('postgres_changes', {
+        event: '*', schema: 'public', table: 'conditional_orders',
+        filter: `user_id=eq.${userId}`,
+      }, (payload) => {
+        const updated = payload.new as ConditionalOrder;
+        if (payload.eventType === 'UPDATE' && updated?.status === 'triggered') {
+          toast.success(`${TYPE_LABELS[updated.order_type]} executed: sold ${Number(updated.executed_amount).toLocaleString()} ${symbol}`);
+          onChangeRef.current?.();
+        } else if (payload.eventType === 'UPDATE' && updated?.status === 'failed') {
+          toast.error(`${TYPE_LABELS[updated.order_type]} failed: ${updated.failure_reason}`);
+        }
+        fetchOrders();
+      })
+      .subscribe();
+    return () => { supabase.removeChannel(channel); };
+  }, [coinId, userId, symbol, fetchOrders]);
+
+  const handleAdd = async () => {
+    const amountNum = parseFloat(amount);
+    const priceNum = parseFloat(triggerPrice);
+    const trailNum = parseFloat(trailPercent);
+    if (!amountNum || amountNum <= 0) { toast.error('Enter an amount to sell'); return; }
+    if (amountNum > holding) { toast.error(`You only hold ${holding.toLocaleString()} ${symbol}`); return; }
+    if (orderType === 'trailing_stop') {
+      if (!trailNum || trailNum <= 0 || trailNum >= 100) { toast.error('Trailing distance must be between 0 and 100%'); return; }
+    } else if (!priceNum || priceNum <= 0) {
+      toast.error('Enter a valid trigger price'); return;
+    }
+
+    setSubmitting(true);
+    const { error } = await supabase.rpc('place_conditional_order', {
+      _coin_id: coinId,
+      _order_type: orderType,
+      _amount: amountNum,
+      _trigger_price: orderType === 'trailing_stop' ? null : priceNum,
+      _trail_percent: orderType === 'trailing_stop' ? trailNum : null,
+    });
+    setSubmitting(false);
+    if (error) { toast.error(error.message); return; }
+    toast.success(`${TYPE_LABELS[orderType]} set for ${amountNum.toLocaleString()} ${symbol}`);
+    setAmount('');
+    setTriggerPrice('');
+    fetchOrders();
+  };
+
+  const handleCancel = async (id: string) => {
+    setBusyId(id);
+    const { error } = await supabase.rpc('cancel_conditional_order', { _order_id: id });
+    setBusyId(null);
+    if (error) { toast.error(error.message); return; }
+    toast.success('Order cancelled');
+    fetchOrders();
+  };
+
+  const active = orders.filter(o => o.status === 'active');
+  const history = orders.filter(o => o.status === 'triggered' || o.status === 'failed').slice(0, 3);
+
+  if (holding <= 0 && orders.length === 0) return null;
+
+  const describe = (o: ConditionalOrder) => {
+    if (o.order_type === 'trailing_stop') {
+      const peak = Number(o.peak_price || currentPrice);
+      const stop = peak * (1 - Number(o.trail_percent) / 100);
+      return `${o.trail_percent}% below peak · stop ≈ KES ${stop.toFixed(6)}`;
+    }
+    return `${o.order_type === 'stop_loss' ? '≤' : '≥'} KES ${Number(o.trigger_price).toFixed(6)}`;
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between">
+        <h3 className="text-sm font-semibold">Stop & Take-Profit</h3>
+        {active.length > 0 && <Badge variant="secondary" className="text-[10px]">{active.length}</Badge>}
+      </div>
+
+      {holding > 0 && (
+        <div className="space-y-2">
+          <Select value={orderType} onValueChange={(v) => setOrderType(v as ConditionalType)}>
+            <SelectTrigger className="h-8 text-xs">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {(Object.keys(TYPE_LABELS) as ConditionalType[]).map(t => (
+                <SelectItem key={t} value={t}>{TYPE_LABELS[t]}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <div className="grid grid-cols-2 gap-2">
+            {orderType === 'trailing_stop' ? (
+              <Input
+                type="number"
+                placeholder="Trail %"
+                value={trailPercent}
+                onChange={(e) => setTrailPercent(e.target.value)}
+                className="h-8 text-xs font-mono"
+                step="0.5"
+              />
+            ) : (
+              <Input
+                type="number"
+                placeholder={orderType === 'stop_loss' ? 'Sell if price ≤' : 'Sell if price ≥'}
+                value={triggerPrice}
+                onChange={(e) => setTriggerPrice(e.target.value)}
+                className="h-8 text-xs font-mono"
+                step="0.000001"
+              />
+            )}
+            <div className="relative">
+              <Input
+                type="number"
+                placeholder={`Amount ${symbol}`}
+                value={amount}
+                onChange={(e) => setAmount(e.target.value)}
+                className="h-8 text-xs font-mono pr-10"
+              />
+              <button
+                type="button"
+                onClick={() => setAmount(String(holding))}
+                className="absolute right-2 top-1/2 -translate-y-1/2 text-[10px] font-semibold text-primary"
+              >
+                MAX
+              </button>
+            </div>
+          </div>
+          <Button size="sm" className="w-full h-8 gap-1 text-xs" onClick={handleAdd} disabled={submitting}>
+            {submitting ? <Loader2 className="h-3.5 w-3.5 animate-spin" /> : <Plus className="h-3.5 w-3.5" />}
+            Add {TYPE_LABELS[orderType]}
+          </Button>
+          <p className="text-[10px] text-muted-foreground">
+            Sells at market when triggered. Proceeds go to your wallet.
+          </p>
+        </div>
+      )}
+
+      {active.map(order => {
+        const Icon = TYPE_ICONS[order.order_type];
+        return (
+          <div key={order.id} className="flex items-center justify-between gap-2 p-2.5 rounded-lg bg-muted/30 border border-border/50">
+            <div className="flex items-center gap-2 min-w-0">
+              <Icon className="h-3.5 w-3.5 shrink-0 text-warning" />
+              <div className="text-xs min-w-0">
+                <p className="font-medium">{TYPE_LABELS[order.order_type]} · {Number(order.amount).toLocaleString()} {symbol}</p>
+                <p className="text-[10px] text-muted-foreground font-mono truncate">{describe(order)}</p>
+              </div>
+            </div>
+            <Button size="icon" variant="ghost" className="h-7 w-7" disabled={busyId === order.id} onClick={() => handleCancel(order.id)}>
+              {busyId === order.id ? <Loader2 className="h-3.5 w-3.5 animate-spin" /> : <X className="h-3.5 w-3.5 text-destructive" />}
+            </Button>
+          </div>
+        );
+      })}
+
+      {history.length > 0 && (
+        <div className="space-y-1 pt-1">
+          {history.map(order => (
+            <div key={order.id} className="flex items-center justify-between text-[10px] text-muted-foreground">
+              <span>{TYPE_LABELS[order.order_type]}</span>
+              {order.status === 'triggered' ? (
+                <span className="text-success font-mono">
+                  Sold {Number(order.executed_amount).toLocaleString()} @ {Number(order.executed_price).toFixed(6)}
+                </span>
+              ) : (
+                <span className="text-destructive truncate max-w-[60%]">{order.failure_reason || 'Failed'}</span>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -73,11 +73,12 @@ export function MarketStats({ coin, priceChange24h = 5.23 }: MarketStatsProps) {
     },
   ];
 
-  // Add burned supply if present
+  // Add burned supply if present. Burns come out of total supply, so the
+  // share is of everything ever minted
   if (coin.burned_supply && coin.burned_supply > 0) {
     stats.push({
       label: 'Burned',
-      value: `${((coin.burned_supply / coin.total_supply) * 100).toFixed(1)}%`,
+      value: `${((coin.burned_supply / (coin.total_supply + coin.burned_supply)) * 100).toFixed(1)}%`,
       icon: Activity,
       color: 'text-orange-400',
       bgColor: 'bg-orange-400/10',
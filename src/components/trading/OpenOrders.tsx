@@ -0,0 +1,155 @@
+import { useEffect, useState, useCallback, useRef } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Badge } from '@/components/ui/badge';
+import { Pencil, X, Check, Loader2 } from 'lucide-react';
+import { supabase } from '@/integrations/supabase/client';
+import { toast } from 'sonner';
+import { cn } from '@/lib/utils';
+import { tradeErrorMessage } from '@/lib/trade-limits';
+
+interface LimitOrder {
+  id: string;
+  coin_id: string;
+  side: 'buy' | 'sell';
+  price: number;
+  amount: number;
+  filled_amount: number;
+  status: string;
+  failure_reason: string | null;
+  created_at: string;
+}
+
+interface OpenOrdersProps {
+  coinId: string;
+  userId: string;
+  symbol: string;
+  onChange?: () => void;
+}
+
+export function OpenOrders({ coinId, userId, symbol, onChange }: OpenOrdersProps) {
+  const [orders, setOrders] = useState<LimitOrder[]>([]);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [editPrice, setEditPrice] = useState('');
+  const [editAmount, setEditAmount] = useState('');
+  const [busyId, setBusyId] = useState<string | null>(null);
+  // Read through a ref so an inline callback from the parent doesn't resubscribe every render
+  const onChangeRef = useRef(onChange);
+  onChangeRef.current = onChange;
+
+  const fetchOrders = useCallback(async () => {
+    const { data } = await supabase
+      .from('limit_orders')
+      .select('id, coin_id, side, price, amount, filled_amount, status, failure_reason, created_at')
+      .eq('user_id', userId)
+      .eq('coin_id', coinId)
+      .in('status', ['open', 'partially_filled'])
+      .order('created_at', { ascending: false });
+    setOrders((data || []) as LimitOrder[]);
+  }, [coinId, userId]);
+
+  useEffect(() => {
+    fetchOrders();
+    const channel = supabase
+      .channel(`limit-orders-${userId}-${coinId}`)
+      .on('postgres_changes', {
+        event: '*', schema: 'public', table: 'limit_orders',
+        filter: `user_id=eq.${userId}`,
+      }, (payload) => {
+        const updated = payload.new as LimitOrder;
+        if (payload.eventType === 'UPDATE' && updated?.status === 'rejected' && updated.coin_id === coinId) {
+          toast.error(`Limit ${updated.side} rejected: ${updated.failure_reason}`);
+        }
+        fetchOrders();
+        onChangeRef.current?.();
+      })
+      .subscribe();
+    return () => { supabase.removeChannel(channel); };
+  }, [coinId, userId, fetchOrders]);
+
+  const handleCancel = async (id: string) => {
+    setBusyId(id);
+    const { error } = await supabase.rpc('cancel_limit_order', { _order_id: id });
+    setBusyId(null);
+    if (error) { toast.error(error.message); return; }
+    toast.success('Order cancelled');
+    fetchOrders();
+    onChange?.();
+  };
+
+  const startEdit = (order: LimitOrder) => {
+    setEditingId(order.id);
+    setEditPrice(String(order.price));
+    setEditAmount(String(order.amount));
+  };
+
+  const handleAmend = async (id: string) => {
+    const price = parseFloat(editPrice);
+    const amount = parseFloat(editAmount);
+    if (!price || price <= 0 || !amount || amount <= 0) { toast.error('Enter a valid price and amount'); return; }
+    setBusyId(id);
+    const { error } = await supabase.rpc('amend_limit_order', { _order_id: id, _price: price, _amount: amount });
+    setBusyId(null);
+    if (error) { toast.error(tradeErrorMessage(error)); return; }
+    toast.success('Order updated');
+    setEditingId(null);
+    fetchOrders();
+    onChange?.();
+  };
+
+  if (orders.length === 0) return null;
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center justify-between">
+        <h3 className="text-sm font-semibold">Open Orders</h3>
+        <Badge variant="secondary" className="text-[10px]">{orders.length}</Badge>
+      </div>
+      {orders.map(order => {
+        const isEditing = editingId === order.id;
+        const filledPct = order.amount > 0 ? (order.filled_amount / order.amount) * 100 : 0;
+        return (
+          <div key={order.id} className="p-2.5 rounded-lg bg-muted/30 border border-border/50 space-y-2">
+            <div className="flex items-center justify-between text-xs">
+              <span className={cn('font-semibold uppercase', order.side === 'buy' ? 'text-success' : 'text-destructive')}>
+                {order.side}
+              </span>
+              <span className="text-muted-foreground">
+                {order.status === 'partially_filled' ? `${filledPct.toFixed(0)}% filled` : 'Open'}
+              </span>
+            </div>
+            {isEditing ? (
+              <div className="grid grid-cols-[1fr_1fr_auto_auto] gap-1.5">
+                <Input type="number" value={editPrice} onChange={(e) => setEditPrice(e.target.value)} className="h-8 text-xs font-mono" step="0.000001" />
+                <Input type="number" value={editAmount} onChange={(e) => setEditAmount(e.target.value)} className="h-8 text-xs font-mono" />
+                <Button size="icon" variant="ghost" className="h-8 w-8" disabled={busyId === order.id} onClick={() => handleAmend(order.id)}>
+                  {busyId === order.id ? <Loader2 className="h-3.5 w-3.5 animate-spin" /> : <Check className="h-3.5 w-3.5 text-success" />}
+                </Button>
+                <Button size="icon" variant="ghost" className="h-8 w-8" onClick={() => setEditingId(null)}>
+                  <X className="h-3.5 w-3.5" />
+                </Button>
+              </div>
+            ) : (
+              <div className="flex items-center justify-between gap-2">
+                <div className="text-xs font-mono">
+                  <p>KES {Number(order.price).toFixed(6)}</p>
+                  <p className="text-muted-foreground">
+                    {Number(order.filled_amount).toLocaleString()} / {Number(order.amount).toLocaleString()} {symbol}
+                  </p>
+                </div>
+                <div className="flex gap-1">
+                  <Button size="icon" variant="ghost" className="h-7 w-7" onClick={() => startEdit(order)}>
+                    <Pencil className="h-3.5 w-3.5" />
+                  </Button>
+                  <Button size="icon" variant="ghost" className="h-7 w-7" disabled={busyId === order.id} onClick={() => handleCancel(order.id)}>
+                    {busyId === order.id ? <Loader2 className="h-3.5 w-3.5 animate-spin" /> : <X className="h-3.5 w-3.5 text-destructive" />}
+                  </Button>
+                </div>
+              </div>
+            )}
+          </div>
+        );
+      })}
+    </div>
+  );
+}
@@ -1,121 +1,24 @@
-import { useEffect, useState } from 'react';
+import { useEffect, useRef, useState } from 'react';
 import { motion } from 'framer-motion';
-import { supabase } from '@/integrations/supabase/client';
-
-interface Order {
-  price: number;
-  amount: number;
-  total: number;
-}
+import { useOrderBook } from '@/hooks/use-order-book';
 
 interface OrderBookProps {
   currentPrice: number;
   symbol: string;
   coinId?: string;
-  isOverridden?: boolean;
 }
 
-export function OrderBook({ currentPrice, symbol, coinId, isOverridden = false }: OrderBookProps) {
-  const [asks, setAsks] = useState<Order[]>([]);
-  const [bids, setBids] = useState<Order[]>([]);
-  const [lastPrice, setLastPrice] = useState(currentPrice);
+export function OrderBook({ currentPrice, symbol, coinId }: OrderBookProps) {
+  const { asks, bids, loaded } = useOrderBook(coinId);
   const [priceDirection, setPriceDirection] = useState<'up' | 'down' | null>(null);
-  const [hasRealData, setHasRealData] = useState(false);
-
-  // Generate orders around a price based on real trade patterns or simulation
-  const generateOrders = (basePrice: number, side: 'ask' | 'bid', realVolumes?: number[]): Order[] => {
-    const orders: Order[] = [];
-    let cumTotal = 0;
-    
-    for (let i = 0; i < 12; i++) {
-      const spread = side === 'ask' 
-        ? basePrice * (1 + 0.0001 * (i + 1) + Math.random() * 0.0002)
-        : basePrice * (1 - 0.0001 * (i + 1) - Math.random() * 0.0002);
-      
-      const amount = realVolumes && realVolumes[i]
-        ? Math.floor(realVolumes[i] * (0.8 + Math.random() * 0.4))
-        : Math.floor(Math.random() * 50000 + 5000);
-      cumTotal += amount;
-      
-      orders.push({
-        price: Number(spread.toFixed(6)),
-        amount,
-        total: cumTotal,
-      });
-    }
-    
-    return orders;
-  };
+  const prevPrice = useRef(currentPrice);
 
-  // Fetch real trade volume distribution to make order book realistic
   useEffect(() => {
-    if (!coinId || isOverridden) {
-      setAsks(generateOrders(currentPrice, 'ask'));
-      setBids(generateOrders(currentPrice, 'bid'));
-      setHasRealData(false);
-      return;
+    if (currentPrice !== prevPrice.current) {
+      setPriceDirection(currentPrice > prevPrice.current ? 'up' : 'down');
+      prevPrice.current = currentPrice;
     }
-
-    const loadRealDistribution = async () => {
-      const { data } = await supabase
-        .from('transactions')
-        .select('amount, type')
-        .eq('coin_id', coinId)
-        .eq('status', 'completed')
-        .order('created_at', { ascending: false })
-        .limit(50);
-
-      if (data && data.length > 0) {
-        setHasRealData(true);
-        const buyVolumes = data.filter(t => t.type === 'buy').map(t => Number(t.amount));
-        const sellVolumes = data.filter(t => t.type === 'sell').map(t => Number(t.amount));
-        
-        // Use real volumes as basis for depth
-        setAsks(generateOrders(currentPrice, 'ask', sellVolumes.length > 0 ? sellVolumes : undefined));
-        setBids(generateOrders(currentPrice, 'bid', buyVolumes.length > 0 ? buyVolumes : undefined));
-      } else {
-        setAsks(generateOrders(currentPrice, 'ask'));
-        setBids(generateOrders(currentPrice, 'bid'));
-      }
-    };
-
-    loadRealDistribution();
-  }, [coinId, isOverridden]);
-
-  useEffect(() => {
-    const interval = setInterval(() => {
-      setAsks(prev => {
-        // Small perturbations on existing orders
-        return prev.map((order, i) => ({
-          ...order,
-          amount: Math.max(100, order.amount + Math.floor((Math.random() - 0.5) * order.amount * 0.05)),
-          total: 0, // recalc below
-        })).reduce((acc, order) => {
-          const cum = acc.length > 0 ? acc[acc.length - 1].total : 0;
-          acc.push({ ...order, total: cum + order.amount });
-          return acc;
-        }, [] as Order[]);
-      });
-      setBids(prev => {
-        return prev.map((order) => ({
-          ...order,
-          amount: Math.max(100, order.amount + Math.floor((Math.random() - 0.5) * order.amount * 0.05)),
-          total: 0,
-        })).reduce((acc, order) => {
-          const cum = acc.length > 0 ? acc[acc.length - 1].total : 0;
-          acc.push({ ...order, total: cum + order.amount });
-          return acc;
-        }, [] as Order[]);
-      });
-      
-      const priceChange = (Math.random() - 0.48) * currentPrice * 0.0001;
-      const newPrice = currentPrice + priceChange;
-      setPriceDirection(newPrice > lastPrice ? 'up' : 'down');
-      setLastPrice(newPrice);
-    }, 1500);
-
-    return () => clearInterval(interval);
-  }, [currentPrice, lastPrice]);
+  }, [currentPrice]);
 
   const maxTotal = Math.max(
     ...asks.map(o => o.total),
@@ -123,12 +26,16 @@ export function OrderBook({ currentPrice, symbol, coinId, isOverridden = false }
     1
   );
 
+  const bestAsk = asks[0]?.price;
+  const bestBid = bids[0]?.price;
+  const spread = bestAsk != null && bestBid != null ? bestAsk - bestBid : null;
+
   return (
     <div className="h-full flex flex-col">
       <div className="flex items-center justify-between pb-3 border-b border-border">
         <div className="flex items-center gap-2">
           <h3 className="text-sm font-semibold">Order Book</h3>
-          {!isOverridden && hasRealData && (
+          {loaded && (
             <span className="text-[9px] px-1 py-0.5 rounded bg-success/10 text-success border border-success/20">LIVE</span>
           )}
         </div>
@@ -143,15 +50,15 @@ export function OrderBook({ currentPrice, symbol, coinId, isOverridden = false }
 
       <div className="flex-1 overflow-hidden">
         <div className="h-[calc(50%-20px)] overflow-hidden flex flex-col-reverse">
-          {asks.slice(0, 8).reverse().map((order, i) => (
+          {asks.slice(0, 8).reverse().map((order) => (
             <motion.div
-              key={`ask-${i}`}
+              key={`ask-${order.price}`}
               initial={{ opacity: 0, x: -10 }}
               animate={{ opacity: 1, x: 0 }}
               transition={{ duration: 0.2 }}
               className="relative grid grid-cols-3 gap-2 py-1 text-xs"
             >
-              <div 
+              <div
                 className="absolute inset-0 bg-destructive/10 rounded-sm"
                 style={{ width: `${(order.total / maxTotal) * 100}%`, right: 0, left: 'auto' }}
               />
@@ -160,33 +67,39 @@ export function OrderBook({ currentPrice, symbol, coinId, isOverridden = false }
               <span className="relative text-right font-mono text-muted-foreground">{order.total.toLocaleString()}</span>
             </motion.div>
           ))}
+          {loaded && asks.length === 0 && (
+            <p className="py-3 text-center text-[10px] text-muted-foreground">No resting sell orders</p>
+          )}
         </div>
 
         <motion.div
-          key={lastPrice}
+          key={currentPrice}
           initial={{ scale: 1.05 }}
           animate={{ scale: 1 }}
-          className={`py-2 my-1 text-center font-bold text-lg rounded ${
-            priceDirection === 'up' 
-              ? 'bg-success/10 text-success' 
+          className={`py-2 my-1 text-center rounded ${
+            priceDirection === 'up'
+              ? 'bg-success/10 text-success'
               : priceDirection === 'down'
               ? 'bg-destructive/10 text-destructive'
               : 'bg-muted/50'
           }`}
         >
-          {currentPrice.toFixed(6)}
+          <span className="font-bold text-lg">{currentPrice.toFixed(6)}</span>
+          <p className="text-[9px] text-muted-foreground">
+            Curve price{spread != null ? ` · Spread ${spread.toFixed(6)}` : ''}
+          </p>
         </motion.div>
 
         <div className="h-[calc(50%-20px)] overflow-hidden">
-          {bids.slice(0, 8).map((order, i) => (
+          {bids.slice(0, 8).map((order) => (
             <motion.div
-              key={`bid-${i}`}
+              key={`bid-${order.price}`}
               initial={{ opacity: 0, x: -10 }}
               animate={{ opacity: 1, x: 0 }}
               transition={{ duration: 0.2 }}
               className="relative grid grid-cols-3 gap-2 py-1 text-xs"
             >
-              <div 
+              <div
                 className="absolute inset-0 bg-success/10 rounded-sm"
                 style={{ width: `${(order.total / maxTotal) * 100}%`, right: 0, left: 'auto' }}
               />
@@ -195,6 +108,9 @@ export function OrderBook({ currentPrice, symbol, coinId, isOverridden = false }
               <span className="relative text-right font-mono text-muted-foreground">{order.total.toLocaleString()}</span>
             </motion.div>
           ))}
+          {loaded && bids.length === 0 && (
+            <p className="py-3 text-center text-[10px] text-muted-foreground">No resting buy orders</p>
+          )}
         </div>
       </div>
     </div>
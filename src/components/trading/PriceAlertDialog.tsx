@@ -3,11 +3,15 @@ import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { Switch } from '@/components/ui/switch';
+import { Checkbox } from '@/components/ui/checkbox';
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
-import { Bell, BellOff, Plus, Trash2, TrendingUp, TrendingDown } from 'lucide-react';
+import { Bell, BellOff, Plus, Trash2, TrendingUp, TrendingDown, Loader2, Repeat } from 'lucide-react';
 import { Badge } from '@/components/ui/badge';
-import { usePushNotifications, usePriceAlerts, type PriceAlert } from '@/hooks/use-push-notifications';
+import {
+  usePushNotifications, usePriceAlerts, describeAlert,
+  type AlertChannel, type PriceAlertKind,
+} from '@/hooks/use-push-notifications';
 import { toast } from 'sonner';
 
 interface PriceAlertDialogProps {
@@ -17,36 +21,88 @@ interface PriceAlertDialogProps {
   currentPrice: number;
 }
 
+const CHANNELS: { value: AlertChannel; label: string }[] = [
+  { value: 'push', label: 'Browser' },
+  { value: 'email', label: 'Email' },
+  { value: 'sms', label: 'SMS' },
+  { value: 'whatsapp', label: 'WhatsApp' },
+  { value: 'telegram', label: 'Telegram' },
+];
+
+const COOLDOWNS = [
+  { value: '15', label: '15 min' },
+  { value: '60', label: '1 hour' },
+  { value: '240', label: '4 hours' },
+  { value: '1440', label: '24 hours' },
+];
+
+const isChangeKind = (kind: PriceAlertKind) => kind === 'change_up' || kind === 'change_down';
+
 export function PriceAlertDialog({ coinId, coinName, coinSymbol, currentPrice }: PriceAlertDialogProps) {
   const { isSupported, isEnabled, requestPermission, disable } = usePushNotifications();
-  const { alerts, addAlert, removeAlert, toggleAlert } = usePriceAlerts();
-  const [targetPrice, setTargetPrice] = useState('');
-  const [direction, setDirection] = useState<'above' | 'below'>('above');
+  const { alerts, signedIn, addAlert, removeAlert, toggleAlert } = usePriceAlerts(coinId);
+  const [kind, setKind] = useState<PriceAlertKind>('price_above');
+  const [value, setValue] = useState('');
+  const [repeat, setRepeat] = useState(false);
+  const [cooldown, setCooldown] = useState('60');
+  const [channels, setChannels] = useState<AlertChannel[]>(['push']);
+  const [saving, setSaving] = useState(false);
   const [open, setOpen] = useState(false);
 
-  const coinAlerts = alerts.filter(a => a.coinId === coinId);
+  const activeCount = alerts.filter(a => a.is_active).length;
 
-  const handleAdd = () => {
-    const price = parseFloat(targetPrice);
-    if (!price || price <= 0) {
-      toast.error('Enter a valid target price');
+  const toggleChannel = (channel: AlertChannel, checked: boolean) => {
+    setChannels(prev => checked ? [...prev, channel] : prev.filter(c => c !== channel));
+  };
+
+  const handleAdd = async () => {
+    const amount = parseFloat(value);
+    if (!amount || amount <= 0) {
+      toast.error(isChangeKind(kind) ? 'Enter a valid percentage' : 'Enter a valid target price');
+      return;
+    }
+    if (channels.length === 0) {
+      toast.error('Pick at least one way to be notified');
       return;
     }
+    if (channels.includes('push') && !isEnabled && !(await requestPermission())) return;
 
-    if (!isEnabled) {
-      requestPermission().then(ok => {
-        if (ok) {
-          addAlert({ coinId, coinName, coinSymbol, targetPrice: price, direction });
-          toast.success(`Alert set: ${coinSymbol} ${direction} KES ${price}`);
-          setTargetPrice('');
-        }
+    setSaving(true);
+    try {
+      await addAlert({
+        coin_id: coinId,
+        kind,
+        ...(isChangeKind(kind) ? { change_pct: amount } : { target_price: amount }),
+        repeat,
+        cooldown_minutes: parseInt(cooldown),
+        channels,
       });
-      return;
+      toast.success(`Alert set: ${coinSymbol} ${describeAlert({
+        kind,
+        target_price: isChangeKind(kind) ? null : amount,
+        change_pct: isChangeKind(kind) ? amount : null,
+      })}`);
+      setValue('');
+    } catch (e) {
+      toast.error((e as Error).message || 'Failed to save alert');
+    }
+    setSaving(false);
+  };
+
+  const handleToggle = async (alert: typeof alerts[number]) => {
+    try {
+      await toggleAlert(alert);
+    } catch (e) {
+      toast.error((e as Error).message || 'Failed to update alert');
     }
+  };
 
-    addAlert({ coinId, coinName, coinSymbol, targetPrice: price, direction });
-    toast.success(`Alert set: ${coinSymbol} ${direction} KES ${price}`);
-    setTargetPrice('');
+  const handleRemove = async (id: string) => {
+    try {
+      await removeAlert(id);
+    } catch (e) {
+      toast.error((e as Error).message || 'Failed to delete alert');
+    }
   };
 
   return (
@@ -55,9 +111,9 @@ export function PriceAlertDialog({ coinId, coinName, coinSymbol, currentPrice }:
         <Button variant="outline" size="sm" className="gap-1.5 text-xs h-8">
           <Bell className="h-3.5 w-3.5" />
           Alerts
-          {coinAlerts.filter(a => a.isActive).length > 0 && (
+          {activeCount > 0 && (
             <Badge variant="secondary" className="ml-1 h-4 px-1 text-[9px]">
-              {coinAlerts.filter(a => a.isActive).length}
+              {activeCount}
             </Badge>
           )}
         </Button>
@@ -70,91 +126,145 @@ export function PriceAlertDialog({ coinId, coinName, coinSymbol, currentPrice }:
           </DialogTitle>
         </DialogHeader>
 
-        <div className="space-y-4">
-          {/* Notification Toggle */}
-          <div className="flex items-center justify-between p-3 rounded-lg bg-muted/50">
-            <div className="flex items-center gap-2 text-sm">
-              {isEnabled ? <Bell className="h-4 w-4 text-success" /> : <BellOff className="h-4 w-4 text-muted-foreground" />}
-              <span>Push Notifications</span>
+        {!signedIn ? (
+          <p className="text-center text-xs text-muted-foreground py-6">
+            Sign in to get notified when {coinName} hits your target.
+          </p>
+        ) : (
+          <div className="space-y-4">
+            {/* Notification Toggle */}
+            <div className="flex items-center justify-between p-3 rounded-lg bg-muted/50">
+              <div className="flex items-center gap-2 text-sm">
+                {isEnabled ? <Bell className="h-4 w-4 text-success" /> : <BellOff className="h-4 w-4 text-muted-foreground" />}
+                <span>Browser Notifications</span>
+              </div>
+              <Switch
+                checked={isEnabled}
+                onCheckedChange={(checked) => checked ? requestPermission() : disable()}
+                disabled={!isSupported}
+              />
             </div>
-            <Switch
-              checked={isEnabled}
-              onCheckedChange={(checked) => checked ? requestPermission() : disable()}
-              disabled={!isSupported}
-            />
-          </div>
 
-          {/* Current Price */}
-          <div className="text-center py-2">
-            <p className="text-xs text-muted-foreground">Current Price</p>
-            <p className="text-lg font-bold font-mono text-primary">KES {currentPrice.toFixed(6)}</p>
-          </div>
+            {/* Current Price */}
+            <div className="text-center py-2">
+              <p className="text-xs text-muted-foreground">Current Price</p>
+              <p className="text-lg font-bold font-mono text-primary">KES {currentPrice.toFixed(6)}</p>
+            </div>
 
-          {/* Add Alert */}
-          <div className="flex gap-2">
-            <Select value={direction} onValueChange={(v) => setDirection(v as 'above' | 'below')}>
-              <SelectTrigger className="w-[100px] h-9 text-xs">
-                <SelectValue />
-              </SelectTrigger>
-              <SelectContent>
-                <SelectItem value="above">
-                  <span className="flex items-center gap-1"><TrendingUp className="h-3 w-3" /> Above</span>
-                </SelectItem>
-                <SelectItem value="below">
-                  <span className="flex items-center gap-1"><TrendingDown className="h-3 w-3" /> Below</span>
-                </SelectItem>
-              </SelectContent>
-            </Select>
-            <Input
-              type="number"
-              placeholder="Target price"
-              value={targetPrice}
-              onChange={(e) => setTargetPrice(e.target.value)}
-              className="h-9 text-sm font-mono flex-1"
-              step="0.0001"
-            />
-            <Button size="sm" onClick={handleAdd} className="h-9 gap-1">
-              <Plus className="h-3.5 w-3.5" /> Add
-            </Button>
-          </div>
+            {/* Add Alert */}
+            <div className="space-y-3">
+              <div className="flex gap-2">
+                <Select value={kind} onValueChange={(v) => setKind(v as PriceAlertKind)}>
+                  <SelectTrigger className="w-[130px] h-9 text-xs">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="price_above">
+                      <span className="flex items-center gap-1"><TrendingUp className="h-3 w-3" /> Price above</span>
+                    </SelectItem>
+                    <SelectItem value="price_below">
+                      <span className="flex items-center gap-1"><TrendingDown className="h-3 w-3" /> Price below</span>
+                    </SelectItem>
+                    <SelectItem value="change_up">
+                      <span className="flex items-center gap-1"><TrendingUp className="h-3 w-3" /> Up by %</span>
+                    </SelectItem>
+                    <SelectItem value="change_down">
+                      <span className="flex items-center gap-1"><TrendingDown className="h-3 w-3" /> Down by %</span>
+                    </SelectItem>
+                  </SelectContent>
+                </Select>
+                <Input
+                  type="number"
+                  placeholder={isChangeKind(kind) ? 'Change %' : 'Target price'}
+                  value={value}
+                  onChange={(e) => setValue(e.target.value)}
+                  className="h-9 text-sm font-mono flex-1"
+                  step={isChangeKind(kind) ? '1' : '0.0001'}
+                />
+                <Button size="sm" onClick={handleAdd} disabled={saving} className="h-9 gap-1">
+                  {saving ? <Loader2 className="h-3.5 w-3.5 animate-spin" /> : <Plus className="h-3.5 w-3.5" />} Add
+                </Button>
+              </div>
+              {isChangeKind(kind) && (
+                <p className="text-[10px] text-muted-foreground">Measured from the current price of KES {currentPrice.toFixed(6)}.</p>
+              )}
 
-          {/* Active Alerts */}
-          {coinAlerts.length > 0 && (
-            <div className="space-y-2">
-              <p className="text-xs font-medium text-muted-foreground">Your Alerts</p>
-              {coinAlerts.map(alert => (
-                <div key={alert.id} className="flex items-center justify-between p-2.5 rounded-lg bg-muted/30 border border-border/50">
+              <div className="flex items-center justify-between gap-2">
+                <Label className="flex items-center gap-2 text-xs font-normal">
+                  <Switch checked={repeat} onCheckedChange={setRepeat} />
+                  Repeat
+                </Label>
+                {repeat && (
                   <div className="flex items-center gap-2">
-                    <Switch checked={alert.isActive} onCheckedChange={() => toggleAlert(alert.id)} />
-                    <div>
-                      <div className="flex items-center gap-1 text-xs">
-                        {alert.direction === 'above' ? (
-                          <TrendingUp className="h-3 w-3 text-success" />
-                        ) : (
-                          <TrendingDown className="h-3 w-3 text-destructive" />
-                        )}
-                        <span className="capitalize">{alert.direction}</span>
-                        <span className="font-mono font-medium">KES {alert.targetPrice}</span>
+                    <span className="text-[10px] text-muted-foreground">At most every</span>
+                    <Select value={cooldown} onValueChange={setCooldown}>
+                      <SelectTrigger className="w-[100px] h-8 text-xs">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {COOLDOWNS.map(c => <SelectItem key={c.value} value={c.value}>{c.label}</SelectItem>)}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                )}
+              </div>
+
+              <div className="flex flex-wrap gap-x-3 gap-y-2">
+                {CHANNELS.map(c => (
+                  <Label key={c.value} className="flex items-center gap-1.5 text-xs font-normal">
+                    <Checkbox
+                      checked={channels.includes(c.value)}
+                      onCheckedChange={(checked) => toggleChannel(c.value, checked === true)}
+                    />
+                    {c.label}
+                  </Label>
+                ))}
+              </div>
+              {channels.includes('telegram') && (
+                <p className="text-[10px] text-muted-foreground">Telegram alerts need the bot linked on your profile.</p>
+              )}
+            </div>
+
+            {/* Alerts */}
+            {alerts.length > 0 && (
+              <div className="space-y-2">
+                <p className="text-xs font-medium text-muted-foreground">Your Alerts</p>
+                {alerts.map(alert => (
+                  <div key={alert.id} className="flex items-center justify-between p-2.5 rounded-lg bg-muted/30 border border-border/50">
+                    <div className="flex items-center gap-2">
+                      <Switch checked={alert.is_active} onCheckedChange={() => handleToggle(alert)} />
+                      <div>
+                        <div className="flex items-center gap-1 text-xs">
+                          {alert.kind === 'price_above' || alert.kind === 'change_up' ? (
+                            <TrendingUp className="h-3 w-3 text-success" />
+                          ) : (
+                            <TrendingDown className="h-3 w-3 text-destructive" />
+                          )}
+                          <span className="font-mono font-medium">{describeAlert(alert)}</span>
+                          {alert.repeat && <Repeat className="h-3 w-3 text-muted-foreground" />}
+                        </div>
+                        <p className="text-[10px] text-muted-foreground">
+                          {alert.is_active ? 'Active' : alert.trigger_count > 0 ? 'Triggered' : 'Paused'}
+                          {alert.trigger_count > 0 && ` · fired ${alert.trigger_count}×`}
+                          {' · '}{alert.channels.map(ch => CHANNELS.find(c => c.value === ch)?.label || ch).join(', ')}
+                        </p>
                       </div>
-                      <p className="text-[10px] text-muted-foreground">
-                        {alert.isActive ? 'Active' : 'Triggered / Inactive'}
-                      </p>
                     </div>
+                    <Button variant="ghost" size="icon" className="h-7 w-7" onClick={() => handleRemove(alert.id)}>
+                      <Trash2 className="h-3.5 w-3.5 text-destructive" />
+                    </Button>
                   </div>
-                  <Button variant="ghost" size="icon" className="h-7 w-7" onClick={() => removeAlert(alert.id)}>
-                    <Trash2 className="h-3.5 w-3.5 text-destructive" />
-                  </Button>
-                </div>
-              ))}
-            </div>
-          )}
+                ))}
+              </div>
+            )}
 
-          {coinAlerts.length === 0 && (
-            <p className="text-center text-xs text-muted-foreground py-4">
-              No alerts set for {coinSymbol}. Add one above to get notified when the price hits your target.
-            </p>
-          )}
-        </div>
+            {alerts.length === 0 && (
+              <p className="text-center text-xs text-muted-foreground py-4">
+                No alerts set for {coinSymbol}. Add one above to get notified when the price hits your target, even with this page closed.
+              </p>
+            )}
+          </div>
+        )}
       </DialogContent>
     </Dialog>
   );
@@ -0,0 +1,7 @@
+import { usePriceAlertEvents } from '@/hooks/use-push-notifications';
+
+/** Mounted once in App so fired price alerts notify on any page. */
+export function PriceAlertListener() {
+  usePriceAlertEvents();
+  return null;
+}
@@ -0,0 +1,249 @@
+import { useEffect, useState, useCallback } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Badge } from '@/components/ui/badge';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { CalendarClock, Pause, Play, X, Plus, Loader2 } from 'lucide-react';
+import { supabase } from '@/integrations/supabase/client';
+import { toast } from 'sonner';
+
+type Frequency = 'daily' | 'weekly';
+type RunResult = 'filled' | 'skipped' | 'failed';
+
+interface RecurringBuy {
+  id: string;
+  coin_id: string;
+  amount_kes: number;
+  frequency: Frequency;
+  status: 'active' | 'paused' | 'cancelled';
+  next_run_at: string;
+  last_result: RunResult | null;
+  last_error: string | null;
+  fills_count: number;
+  total_spent: number;
+  total_bought: number;
+  coin: { symbol: string } | null;
+}
+
+interface RecurringBuyRun {
+  id: string;
+  plan_id: string;
+  result: RunResult;
+  amount_kes: number;
+  coins_bought: number | null;
+  reason: string | null;
+  created_at: string;
+  coin: { symbol: string } | null;
+}
+
+interface RecurringBuysProps {
+  userId: string;
+  /** Fixes the plan to one coin (CoinDetail). Omit to manage every plan (Dashboard). */
+  coinId?: string;
+  minBuyAmount?: number;
+  maxBuyAmount?: number;
+}
+
+const FREQUENCY_LABELS: Record<Frequency, string> = {
+  daily: 'Daily',
+  weekly: 'Weekly',
+};
+
+const RESULT_CLASSES: Record<RunResult, string> = {
+  filled: 'text-success',
+  skipped: 'text-warning',
+  failed: 'text-destructive',
+};
+
+const formatNextRun = (iso: string) =>
+  new Date(iso).toLocaleString(undefined, { dateStyle: 'medium', timeStyle: 'short' });
+
+export function RecurringBuys({ userId, coinId, minBuyAmount, maxBuyAmount }: RecurringBuysProps) {
+  const [plans, setPlans] = useState<RecurringBuy[]>([]);
+  const [runs, setRuns] = useState<RecurringBuyRun[]>([]);
+  const [coins, setCoins] = useState<{ id: string; symbol: string }[]>([]);
+  const [selectedCoin, setSelectedCoin] = useState(coinId || '');
+  const [amount, setAmount] = useState('');
+  const [frequency, setFrequency] = useState<Frequency>('weekly');
+  const [submitting, setSubmitting] = useState(false);
+  const [busyId, setBusyId] = useState<string | null>(null);
+
+  const fetchPlans = useCallback(async () => {
+    let plansQuery = supabase
+      .from('recurring_buys')
+      .select('id, coin_id, amount_kes, frequency, status, next_run_at, last_result, last_error, fills_count, total_spent, total_bought, coin:coins(symbol)')
+      .eq('user_id', userId)
+      .neq('status', 'cancelled')
+      .order('created_at', { ascending: false });
+    let runsQuery = supabase
+      .from('recurring_buy_runs')
+      .select('id, plan_id, result, amount_kes, coins_bought, reason, created_at, coin:coins(symbol)')
+      .eq('user_id', userId)
+      .order('created_at', { ascending: false })
+      .limit(5);
+    if (coinId) {
+      plansQuery = plansQuery.eq('coin_id', coinId);
+      runsQuery = runsQuery.eq('coin_id', coinId);
+    }
+    const [{ data: planRows }, { data: runRows }] = await Promise.all([plansQuery, runsQuery]);
+    setPlans((planRows || []) as RecurringBuy[]);
+    setRuns((runRows || []) as RecurringBuyRun[]);
+  }, [coinId, userId]);
+
+  useEffect(() => {
+    if (coinId) return;
+    supabase
+      .from('coins')
+      .select('id, symbol')
+      .eq('is_active', true)
+      .eq('is_approved', true)
+      .order('symbol')
+      .then(({ data }) => setCoins(data || []));
+  }, [coinId]);
+
+  useEffect(() => {
+    fetchPlans();
+    const channel = supabase
+      .channel(`recurring-buys-${userId}-${coinId || 'all'}`)
+      .on('postgres_changes', {
+        event: '*', schema: 'public', table: 'recurring_buys',
+        filter: `user_id=eq.${userId}`,
+      }, () => { fetchPlans(); })
+      .subscribe();
+    return () => { supabase.removeChannel(channel); };
+  }, [coinId, userId, fetchPlans]);
+
+  const handleCreate = async () => {
+    const amountNum = parseFloat(amount);
+    const targetCoin = coinId || selectedCoin;
+    if (!targetCoin) { toast.error('Choose a coin'); return; }
+    if (!amountNum || amountNum <= 0) { toast.error('Enter an amount in KES'); return; }
+    if (minBuyAmount && amountNum < minBuyAmount) { toast.error(`Minimum buy is KES ${minBuyAmount}`); return; }
+    if (maxBuyAmount && amountNum > maxBuyAmount) { toast.error(`Maximum buy is KES ${maxBuyAmount}`); return; }
+
+    setSubmitting(true);
+    const { error } = await supabase.rpc('create_recurring_buy', {
+      _coin_id: targetCoin,
+      _amount_kes: amountNum,
+      _frequency: frequency,
+    });
+    setSubmitting(false);
+    if (error) { toast.error(error.message); return; }
+    toast.success(`${FREQUENCY_LABELS[frequency]} buy of KES ${amountNum.toLocaleString()} scheduled`);
+    setAmount('');
+    fetchPlans();
+  };
+
+  const handleStatus = async (plan: RecurringBuy, status: RecurringBuy['status']) => {
+    setBusyId(plan.id);
+    const { error } = await supabase.rpc('set_recurring_buy_status', { _plan_id: plan.id, _status: status });
+    setBusyId(null);
+    if (error) { toast.error(error.message); return; }
+    toast.success(status === 'active' ? 'Recurring buy resumed' : status === 'paused' ? 'Recurring buy paused' : 'Recurring buy cancelled');
+    fetchPlans();
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between">
+        <h3 className="text-sm font-semibold">Recurring Buys</h3>
+        {plans.length > 0 && <Badge variant="secondary" className="text-[10px]">{plans.length}</Badge>}
+      </div>
+
+      <div className="space-y-2">
+        {!coinId && (
+          <Select value={selectedCoin} onValueChange={setSelectedCoin}>
+            <SelectTrigger className="h-8 text-xs">
+              <SelectValue placeholder="Choose a coin" />
+            </SelectTrigger>
+            <SelectContent>
+              {coins.map(c => (
+                <SelectItem key={c.id} value={c.id}>{c.symbol}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        )}
+        <div className="grid grid-cols-2 gap-2">
+          <Input
+            type="number"
+            placeholder="Amount KES"
+            value={amount}
+            onChange={(e) => setAmount(e.target.value)}
+            className="h-8 text-xs font-mono"
+          />
+          <Select value={frequency} onValueChange={(v) => setFrequency(v as Frequency)}>
+            <SelectTrigger className="h-8 text-xs">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {(Object.keys(FREQUENCY_LABELS) as Frequency[]).map(f => (
+                <SelectItem key={f} value={f}>{FREQUENCY_LABELS[f]}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <Button size="sm" className="w-full h-8 gap-1 text-xs" onClick={handleCreate} disabled={submitting}>
+          {submitting ? <Loader2 className="h-3.5 w-3.5 animate-spin" /> : <Plus className="h-3.5 w-3.5" />}
+          Schedule Buy
+        </Button>
+        <p className="text-[10px] text-muted-foreground">
+          Buys at market from your wallet balance, fees included. A run is skipped if your balance is too low.
+        </p>
+      </div>
+
+      {plans.map(plan => (
+        <div key={plan.id} className="flex items-center justify-between gap-2 p-2.5 rounded-lg bg-muted/30 border border-border/50">
+          <div className="flex items-center gap-2 min-w-0">
+            <CalendarClock className={`h-3.5 w-3.5 shrink-0 ${plan.status === 'active' ? 'text-primary' : 'text-muted-foreground'}`} />
+            <div className="text-xs min-w-0">
+              <p className="font-medium">
+                {FREQUENCY_LABELS[plan.frequency]} · KES {Number(plan.amount_kes).toLocaleString()}
+                {!coinId && plan.coin && <> · {plan.coin.symbol}</>}
+              </p>
+              <p className="text-[10px] text-muted-foreground truncate">
+                {plan.status === 'paused' ? 'Paused' : `Next ${formatNextRun(plan.next_run_at)}`}
+                {plan.fills_count > 0 && ` · ${Number(plan.total_bought).toLocaleString()} bought for KES ${Number(plan.total_spent).toLocaleString()}`}
+              </p>
+              {plan.last_result && plan.last_result !== 'filled' && plan.last_error && (
+                <p className={`text-[10px] truncate ${RESULT_CLASSES[plan.last_result]}`}>{plan.last_error}</p>
+              )}
+            </div>
+          </div>
+          <div className="flex items-center shrink-0">
+            <Button
+              size="icon"
+              variant="ghost"
+              className="h-7 w-7"
+              disabled={busyId === plan.id}
+              onClick={() => handleStatus(plan, plan.status === 'active' ? 'paused' : 'active')}
+            >
+              {plan.status === 'active' ? <Pause className="h-3.5 w-3.5" /> : <Play className="h-3.5 w-3.5 text-success" />}
+            </Button>
+            <Button size="icon" variant="ghost" className="h-7 w-7" disabled={busyId === plan.id} onClick={() => handleStatus(plan, 'cancelled')}>
+              {busyId === plan.id ? <Loader2 className="h-3.5 w-3.5 animate-spin" /> : <X className="h-3.5 w-3.5 text-destructive" />}
+            </Button>
+          </div>
+        </div>
+      ))}
+
+      {runs.length > 0 && (
+        <div className="space-y-1 pt-1">
+          {runs.map(run => (
+            <div key={run.id} className="flex items-center justify-between gap-2 text-[10px] text-muted-foreground">
+              <span>{new Date(run.created_at).toLocaleDateString()}{!coinId && run.coin && ` · ${run.coin.symbol}`}</span>
+              {run.result === 'filled' ? (
+                <span className="text-success font-mono">
+                  Bought {Number(run.coins_bought).toLocaleString()} for KES {Number(run.amount_kes).toLocaleString()}
+                </span>
+              ) : (
+                <span className={`truncate max-w-[60%] ${RESULT_CLASSES[run.result]}`}>
+                  {run.result === 'skipped' ? 'Skipped' : 'Failed'}: {run.reason}
+                </span>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
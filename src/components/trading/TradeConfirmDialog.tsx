@@ -0,0 +1,128 @@
+import { Button } from '@/components/ui/button';
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription } from '@/components/ui/dialog';
+import { AlertTriangle, Loader2 } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import type { TradeQuote } from '@/hooks/use-trade-quote';
+
+interface TradeConfirmDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  side: 'buy' | 'sell';
+  symbol: string;
+  quote: TradeQuote | null;
+  slippagePct: number;
+  paymentLabel: string;
+  processing: boolean;
+  onConfirm: () => void;
+}
+
+const HIGH_IMPACT_PCT = 5;
+
+export function TradeConfirmDialog({
+  open,
+  onOpenChange,
+  side,
+  symbol,
+  quote,
+  slippagePct,
+  paymentLabel,
+  processing,
+  onConfirm,
+}: TradeConfirmDialogProps) {
+  const isBuy = side === 'buy';
+  const impact = quote?.price_impact_pct ?? 0;
+  const highImpact = Math.abs(impact) >= HIGH_IMPACT_PCT;
+  const worstPrice = quote
+    ? quote.average_price * (isBuy ? 1 + slippagePct / 100 : 1 - slippagePct / 100)
+    : 0;
+
+  const rows: { label: string; value: string; className?: string }[] = quote ? [
+    { label: 'Amount', value: `${quote.amount.toLocaleString()} ${symbol}` },
+    { label: 'Spot Price', value: `KES ${quote.spot_price.toFixed(6)}` },
+    { label: 'Avg. Price', value: `KES ${quote.average_price.toFixed(6)}` },
+    {
+      label: 'Price Impact',
+      value: `${impact >= 0 ? '+' : ''}${impact.toFixed(2)}%`,
+      className: highImpact ? 'text-destructive' : Math.abs(impact) >= 1 ? 'text-warning' : undefined,
+    },
+    { label: 'Subtotal', value: `KES ${quote.total_value.toLocaleString(undefined, { minimumFractionDigits: 2 })}` },
+    { label: `Fee (${quote.fee_pct}%)`, value: `KES ${quote.fee.toFixed(2)}`, className: 'text-warning' },
+    ...(quote.creator_commission > 0 ? [{
+      label: `Creator Commission (${quote.creator_commission_pct}%)`,
+      value: `KES ${quote.creator_commission.toFixed(2)}`,
+      className: 'text-muted-foreground',
+    }] : []),
+    { label: isBuy ? 'Worst Avg. Price' : 'Min. Avg. Price', value: `KES ${worstPrice.toFixed(6)}`, className: 'text-muted-foreground' },
+  ] : [];
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-sm">
+        <DialogHeader>
+          <DialogTitle className="text-base">
+            Confirm {isBuy ? 'Buy' : 'Sell'} {symbol}
+          </DialogTitle>
+          <DialogDescription className="text-xs">
+            {isBuy ? 'Paying with' : 'Proceeds to'} {paymentLabel} · Max slippage {slippagePct}%
+          </DialogDescription>
+        </DialogHeader>
+
+        {quote ? (
+          <div className="space-y-3">
+            <div className="rounded-lg border border-border/50 bg-muted/20 p-3 space-y-1.5">
+              {rows.map(row => (
+                <div key={row.label} className="flex items-center justify-between text-xs">
+                  <span className="text-muted-foreground">{row.label}</span>
+                  <span className={cn('font-mono', row.className)}>{row.value}</span>
+                </div>
+              ))}
+              <div className="border-t border-border/50 pt-1.5 flex items-center justify-between">
+                <span className="font-medium text-xs">{isBuy ? 'Total Cost' : 'You Receive'}</span>
+                <span className="text-sm font-bold font-mono gradient-text">
+                  KES {quote.net_total.toLocaleString(undefined, { minimumFractionDigits: 2 })}
+                </span>
+              </div>
+            </div>
+
+            {quote.creator_commission > 0 && (
+              <p className="text-[10px] text-muted-foreground">
+                The creator commission is paid by the platform and is not added to your total.
+              </p>
+            )}
+
+            {highImpact && (
+              <div className="flex items-start gap-2 p-2.5 rounded-lg bg-destructive/10 border border-destructive/30 text-xs text-destructive">
+                <AlertTriangle className="h-3.5 w-3.5 mt-0.5 shrink-0" />
+                <span>
+                  High price impact. This order moves the price {Math.abs(impact).toFixed(2)}% from spot.
+                  Consider a smaller amount.
+                </span>
+              </div>
+            )}
+
+            <div className="grid grid-cols-2 gap-2">
+              <Button variant="outline" onClick={() => onOpenChange(false)} disabled={processing}>
+                Cancel
+              </Button>
+              <Button
+                onClick={onConfirm}
+                disabled={processing}
+                className={cn(
+                  isBuy
+                    ? 'bg-success hover:bg-success/90 text-success-foreground'
+                    : 'bg-destructive hover:bg-destructive/90 text-destructive-foreground'
+                )}
+              >
+                {processing ? <Loader2 className="h-4 w-4 animate-spin" /> : `Confirm ${isBuy ? 'Buy' : 'Sell'}`}
+              </Button>
+            </div>
+          </div>
+        ) : (
+          <div className="flex justify-center py-6">
+            <Loader2 className="h-6 w-6 animate-spin text-primary" />
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
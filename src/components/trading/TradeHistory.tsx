@@ -1,13 +1,16 @@
 import { useEffect, useState } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
 import { supabase } from '@/integrations/supabase/client';
+import { useBurnHistory } from '@/hooks/use-burn-history';
+import { Flame } from 'lucide-react';
 
 interface Trade {
   id: string;
   price: number;
   amount: number;
-  side: 'buy' | 'sell';
+  side: 'buy' | 'sell' | 'burn';
   time: string;
+  at: number;
 }
 
 interface TradeHistoryProps {
@@ -15,11 +18,14 @@ interface TradeHistoryProps {
   symbol: string;
   coinId?: string;
   isOverridden?: boolean;
+  /** The coin's live burned_supply; a change refetches the burn rows and totals. */
+  burnedSupply?: number;
 }
 
-export function TradeHistory({ currentPrice, symbol, coinId, isOverridden = false }: TradeHistoryProps) {
+export function TradeHistory({ currentPrice, symbol, coinId, isOverridden = false, burnedSupply }: TradeHistoryProps) {
   const [trades, setTrades] = useState<Trade[]>([]);
   const [hasRealData, setHasRealData] = useState(false);
+  const { data: burnHistory } = useBurnHistory(isOverridden ? undefined : coinId, burnedSupply, 10);
 
   // Generate simulated trade
   const generateTrade = (): Trade => {
@@ -31,6 +37,7 @@ export function TradeHistory({ currentPrice, symbol, coinId, isOverridden = fals
       amount: Math.floor(Math.random() * 10000 + 100),
       side,
       time: new Date().toLocaleTimeString('en-US', { hour: '2-digit', minute: '2-digit', second: '2-digit' }),
+      at: Date.now(),
     };
   };
 
@@ -55,6 +62,7 @@ export function TradeHistory({ currentPrice, symbol, coinId, isOverridden = fals
         .select('id, price_per_coin, amount, type, created_at')
         .eq('coin_id', coinId)
         .eq('status', 'completed')
+        .in('type', ['buy', 'sell'])
         .order('created_at', { ascending: false })
         .limit(25);
 
@@ -66,6 +74,7 @@ export function TradeHistory({ currentPrice, symbol, coinId, isOverridden = fals
           amount: tx.amount,
           side: tx.type as 'buy' | 'sell',
           time: new Date(tx.created_at).toLocaleTimeString('en-US', { hour: '2-digit', minute: '2-digit', second: '2-digit' }),
+          at: Date.parse(tx.created_at),
         })));
       } else {
         // No trades yet - show empty state
@@ -86,13 +95,15 @@ export function TradeHistory({ currentPrice, symbol, coinId, isOverridden = fals
         filter: `coin_id=eq.${coinId}`,
       }, (payload) => {
         const tx = payload.new as any;
-        if (tx.status === 'completed') {
+        // Burns arrive through burnHistory once the coin's burned_supply changes
+        if (tx.status === 'completed' && tx.type !== 'burn') {
           const newTrade: Trade = {
             id: tx.id,
             price: tx.price_per_coin,
             amount: tx.amount,
             side: tx.type,
             time: new Date(tx.created_at).toLocaleTimeString('en-US', { hour: '2-digit', minute: '2-digit', second: '2-digit' }),
+            at: Date.parse(tx.created_at),
           };
           setTrades((prev) => [newTrade, ...prev.slice(0, 24)]);
         }
@@ -102,6 +113,18 @@ export function TradeHistory({ currentPrice, symbol, coinId, isOverridden = fals
     return () => { supabase.removeChannel(channel); };
   }, [coinId, isOverridden, currentPrice]);
 
+  const burnRows: Trade[] = (burnHistory?.burns || []).map((b) => ({
+    id: b.id,
+    price: Number(b.price),
+    amount: Number(b.amount),
+    side: 'burn',
+    time: new Date(b.burned_at).toLocaleTimeString('en-US', { hour: '2-digit', minute: '2-digit', second: '2-digit' }),
+    at: Date.parse(b.burned_at),
+  }));
+  const rows = [...trades, ...burnRows].sort((a, b) => b.at - a.at).slice(0, 25);
+  const sideColor = (side: Trade['side']) =>
+    side === 'buy' ? 'text-success' : side === 'sell' ? 'text-destructive' : 'text-orange-400';
+
   return (
     <div className="h-full flex flex-col">
       <div className="flex items-center justify-between pb-3 border-b border-border">
@@ -121,22 +144,23 @@ export function TradeHistory({ currentPrice, symbol, coinId, isOverridden = fals
       </div>
 
       <div className="flex-1 overflow-y-auto scrollbar-thin">
-        {trades.length === 0 && hasRealData ? (
+        {rows.length === 0 && hasRealData ? (
           <div className="flex items-center justify-center h-20 text-xs text-muted-foreground">
             No trades yet. Be the first!
           </div>
         ) : (
           <AnimatePresence initial={false}>
-            {trades.map((trade) => (
+            {rows.map((trade) => (
               <motion.div
                 key={trade.id}
-                initial={{ opacity: 0, y: -20, backgroundColor: trade.side === 'buy' ? 'hsl(145 100% 45% / 0.2)' : 'hsl(0 85% 60% / 0.2)' }}
+                initial={{ opacity: 0, y: -20, backgroundColor: trade.side === 'buy' ? 'hsl(145 100% 45% / 0.2)' : trade.side === 'sell' ? 'hsl(0 85% 60% / 0.2)' : 'hsl(27 96% 61% / 0.2)' }}
                 animate={{ opacity: 1, y: 0, backgroundColor: 'transparent' }}
                 exit={{ opacity: 0 }}
                 transition={{ duration: 0.3 }}
                 className="grid grid-cols-3 gap-2 py-1.5 text-xs border-b border-border/20"
               >
-                <span className={`font-mono ${trade.side === 'buy' ? 'text-success' : 'text-destructive'}`}>
+                <span className={`font-mono flex items-center gap-1 ${sideColor(trade.side)}`}>
+                  {trade.side === 'burn' && <Flame className="h-3 w-3" />}
                   {trade.price.toFixed(6)}
                 </span>
                 <span className="text-right font-mono">{trade.amount.toLocaleString()}</span>
@@ -146,6 +170,14 @@ export function TradeHistory({ currentPrice, symbol, coinId, isOverridden = fals
           </AnimatePresence>
         )}
       </div>
+
+      {burnHistory && Number(burnHistory.burned_supply) > 0 && (
+        <div className="flex items-center gap-1.5 pt-2 border-t border-border/50 text-[10px] text-muted-foreground">
+          <Flame className="h-3 w-3 text-orange-400" />
+          <span className="font-mono text-orange-400">{Number(burnHistory.burned_supply).toLocaleString()} {symbol}</span>
+          burned · {Number(burnHistory.burned_pct ?? 0).toFixed(2)}% of supply · {burnHistory.burn_count} burn{burnHistory.burn_count === 1 ? '' : 's'}
+        </div>
+      )}
     </div>
   );
 }
@@ -1,9 +1,20 @@
 import { useEffect, useState, useMemo } from 'react';
 import { motion } from 'framer-motion';
-import { AreaChart, Area, XAxis, YAxis, ResponsiveContainer, Tooltip } from 'recharts';
-import { TrendingUp, TrendingDown, Clock } from 'lucide-react';
+import {
+  ComposedChart, Area, Bar, Line, Cell, XAxis, YAxis, ResponsiveContainer, Tooltip, ReferenceLine,
+} from 'recharts';
+import { TrendingUp, TrendingDown, Clock, AreaChart as AreaIcon, CandlestickChart, BarChart3, Activity } from 'lucide-react';
 import { Button } from '@/components/ui/button';
+import {
+  DropdownMenu, DropdownMenuContent, DropdownMenuTrigger, DropdownMenuLabel, DropdownMenuSeparator,
+  DropdownMenuCheckboxItem, DropdownMenuRadioGroup, DropdownMenuRadioItem,
+} from '@/components/ui/dropdown-menu';
 import { supabase } from '@/integrations/supabase/client';
+import { fetchPriceCandles, type CandleInterval } from '@/hooks/use-price-candles';
+import {
+  useChartPreferences, type ChartMode, type OverlayIndicator, type OscillatorIndicator,
+} from '@/hooks/use-chart-preferences';
+import { sma, ema, vwap, bollinger, rsi, macd } from '@/lib/indicators';
 
 interface TradingChartProps {
   symbol: string;
@@ -11,6 +22,8 @@ interface TradingChartProps {
   volatility: number;
   coinId?: string;
   isOverridden?: boolean;
+  userId?: string;
+  averageBuyPrice?: number;
 }
 
 type TimeFrame = '1M' | '5M' | '15M' | '1H' | '4H' | '1D';
@@ -19,76 +32,155 @@ const TIMEFRAME_MINUTES: Record<TimeFrame, number> = {
   '1M': 1, '5M': 5, '15M': 15, '1H': 60, '4H': 240, '1D': 1440,
 };
 
-export function TradingChart({ symbol, currentPrice, volatility, coinId, isOverridden = false }: TradingChartProps) {
+const TIMEFRAME_INTERVAL: Record<TimeFrame, CandleInterval> = {
+  '1M': '1m', '5M': '5m', '15M': '15m', '1H': '1h', '4H': '4h', '1D': '1d',
+};
+
+interface ChartPoint {
+  time: string;
+  open: number;
+  high: number;
+  low: number;
+  close: number;
+  price: number; // close, kept for the area series
+  volume: number;
+}
+
+const formatTime = (date: Date) => date.toLocaleTimeString('en-US', { hour: '2-digit', minute: '2-digit' });
+
+const UP_COLOR = 'hsl(145, 100%, 45%)';
+const DOWN_COLOR = 'hsl(0, 85%, 60%)';
+
+const MODES: { value: ChartMode; label: string; icon: typeof AreaIcon }[] = [
+  { value: 'area', label: 'Area', icon: AreaIcon },
+  { value: 'candles', label: 'Candles', icon: CandlestickChart },
+  { value: 'ohlc', label: 'OHLC bars', icon: BarChart3 },
+];
+
+const OVERLAYS: { value: OverlayIndicator; label: string; color: string }[] = [
+  { value: 'sma', label: 'SMA 20', color: 'hsl(45, 100%, 55%)' },
+  { value: 'ema', label: 'EMA 9', color: 'hsl(200, 100%, 60%)' },
+  { value: 'vwap', label: 'VWAP', color: 'hsl(280, 80%, 65%)' },
+  { value: 'bollinger', label: 'Bollinger 20, 2', color: 'hsl(var(--muted-foreground))' },
+];
+
+const OSCILLATORS: { value: OscillatorIndicator; label: string }[] = [
+  { value: 'rsi', label: 'RSI 14' },
+  { value: 'macd', label: 'MACD 12, 26, 9' },
+];
+
+interface CandleShapeProps {
+  x?: number;
+  y?: number;
+  width?: number;
+  height?: number;
+  payload?: ChartPoint;
+  variant: 'candles' | 'ohlc';
+}
+
+// Drawn over a [low, high] range bar: y is the high, y + height the low
+function CandleShape({ x = 0, y = 0, width = 0, height = 0, payload, variant }: CandleShapeProps) {
+  if (!payload) return null;
+  const { open, high, low, close } = payload;
+  const span = high - low;
+  const toY = (v: number) => (span > 0 ? y + ((high - v) / span) * height : y);
+  const color = close >= open ? UP_COLOR : DOWN_COLOR;
+  const mid = x + width / 2;
+
+  if (variant === 'ohlc') {
+    const tick = Math.max(2, width / 2);
+    return (
+      <g stroke={color} strokeWidth={1.5}>
+        <line x1={mid} x2={mid} y1={y} y2={y + height} />
+        <line x1={mid - tick} x2={mid} y1={toY(open)} y2={toY(open)} />
+        <line x1={mid} x2={mid + tick} y1={toY(close)} y2={toY(close)} />
+      </g>
+    );
+  }
+
+  const bodyTop = Math.min(toY(open), toY(close));
+  const bodyHeight = Math.max(1, Math.abs(toY(open) - toY(close)));
+  const bodyWidth = Math.max(1, width * 0.7);
+  return (
+    <g>
+      <line x1={mid} x2={mid} y1={y} y2={y + height} stroke={color} strokeWidth={1} />
+      <rect x={mid - bodyWidth / 2} y={bodyTop} width={bodyWidth} height={bodyHeight} fill={color} />
+    </g>
+  );
+}
+
+export function TradingChart({
+  symbol, currentPrice, volatility, coinId, isOverridden = false, userId, averageBuyPrice,
+}: TradingChartProps) {
   const [timeframe, setTimeframe] = useState<TimeFrame>('1H');
-  const [chartData, setChartData] = useState<{ time: string; price: number; volume: number }[]>([]);
+  const [chartData, setChartData] = useState<ChartPoint[]>([]);
+  const [refreshKey, setRefreshKey] = useState(0);
   const [priceChange, setPriceChange] = useState(0);
   const [realDataLoaded, setRealDataLoaded] = useState(false);
+  const [hover, setHover] = useState<{ index: number; y: number } | null>(null);
+  const { prefs, update: updatePrefs } = useChartPreferences(userId);
 
   const timeframes: TimeFrame[] = ['1M', '5M', '15M', '1H', '4H', '1D'];
 
   // Generate simulated data (for overridden coins or fallback)
   const generateSimulatedData = () => {
     const dataPoints = timeframe === '1M' ? 60 : timeframe === '5M' ? 60 : timeframe === '15M' ? 48 : timeframe === '1H' ? 24 : timeframe === '4H' ? 42 : 30;
-    const data = [];
+    const data: ChartPoint[] = [];
     let price = currentPrice * (0.95 + Math.random() * 0.1);
     const volFactor = volatility / 100;
 
     for (let i = 0; i < dataPoints; i++) {
+      const open = price;
       const change = (Math.random() - 0.48) * price * volFactor * 0.02;
       price = Math.max(price + change, currentPrice * 0.7);
       const date = new Date();
       date.setMinutes(date.getMinutes() - (dataPoints - i) * TIMEFRAME_MINUTES[timeframe]);
+      const close = Number(price.toFixed(6));
       data.push({
-        time: date.toLocaleTimeString('en-US', { hour: '2-digit', minute: '2-digit' }),
-        price: Number(price.toFixed(6)),
+        time: formatTime(date),
+        open,
+        high: Math.max(open, close),
+        low: Math.min(open, close),
+        close,
+        price: close,
         volume: Math.floor(Math.random() * 100000 + 10000),
       });
     }
-    if (data.length > 0) data[data.length - 1].price = currentPrice;
+    if (data.length > 0) {
+      const last = data[data.length - 1];
+      data[data.length - 1] = {
+        ...last,
+        close: currentPrice,
+        price: currentPrice,
+        high: Math.max(last.high, currentPrice),
+        low: Math.min(last.low, currentPrice),
+      };
+    }
     return data;
   };
 
-  // Fetch real price history for non-overridden coins
-  const fetchRealPriceHistory = async () => {
+  // Market-only candles, aggregated server-side
+  const fetchRealPriceHistory = async (): Promise<ChartPoint[] | null> => {
     if (!coinId || isOverridden) return null;
 
     const minutesBack = TIMEFRAME_MINUTES[timeframe] * (timeframe === '1D' ? 30 : timeframe === '4H' ? 42 : timeframe === '1H' ? 24 : 60);
-    const since = new Date(Date.now() - minutesBack * 60 * 1000).toISOString();
-
-    const { data, error } = await supabase
-      .from('price_history')
-      .select('price, volume, created_at, trade_type')
-      .eq('coin_id', coinId)
-      .gte('created_at', since)
-      .order('created_at', { ascending: true })
-      .limit(500);
-
-    if (error || !data || data.length < 2) return null;
-
-    // Charts are 100% market-driven: always exclude synthetic drift candles
-    const filtered = data.filter((r: any) => r.trade_type !== 'drift');
-    if (filtered.length < 2) return null;
-
-    // Bucket data into time intervals
-    const intervalMs = TIMEFRAME_MINUTES[timeframe] * 60 * 1000;
-    const buckets = new Map<number, { prices: number[]; volume: number }>();
-
-    filtered.forEach((row) => {
-      const ts = new Date(row.created_at).getTime();
-      const bucket = Math.floor(ts / intervalMs) * intervalMs;
-      if (!buckets.has(bucket)) buckets.set(bucket, { prices: [], volume: 0 });
-      const b = buckets.get(bucket)!;
-      b.prices.push(Number(row.price));
-      b.volume += Number(row.volume || 0);
-    });
+    const since = new Date(Date.now() - minutesBack * 60 * 1000);
 
-    const sorted = Array.from(buckets.entries()).sort((a, b) => a[0] - b[0]);
-    return sorted.map(([ts, b]) => ({
-      time: new Date(ts).toLocaleTimeString('en-US', { hour: '2-digit', minute: '2-digit' }),
-      price: b.prices[b.prices.length - 1], // close price
-      volume: b.volume,
-    }));
+    try {
+      const candles = await fetchPriceCandles(coinId, TIMEFRAME_INTERVAL[timeframe], since);
+      if (candles.length < 2) return null;
+      return candles.map((c) => ({
+        time: formatTime(new Date(c.bucket_start)),
+        open: c.open,
+        high: c.high,
+        low: c.low,
+        close: c.close,
+        price: c.close,
+        volume: c.volume,
+      }));
+    } catch {
+      return null;
+    }
   };
 
   useEffect(() => {
@@ -96,14 +188,14 @@ export function TradingChart({ symbol, currentPrice, volatility, coinId, isOverr
 
     const loadData = async () => {
       // Non-overridden coins: ALWAYS market-driven. If history is sparse, seed
-      // a single anchor point at currentPrice and let realtime ticks build it.
+      // a single anchor point at currentPrice and let realtime refetches build it.
       if (!isOverridden && coinId) {
         const realData = await fetchRealPriceHistory();
         if (cancelled) return;
         if (realData && realData.length >= 2) {
           setChartData(realData);
           setRealDataLoaded(true);
-          const first = realData[0].price;
+          const first = realData[0].open;
           const last = realData[realData.length - 1].price;
           setPriceChange(((last - first) / first) * 100);
           return;
@@ -111,8 +203,11 @@ export function TradingChart({ symbol, currentPrice, volatility, coinId, isOverr
         // Sparse history — seed with a flat market anchor (no synthetic noise)
         const now = new Date();
         const seed = Array.from({ length: 2 }, (_, i) => ({
-          time: new Date(now.getTime() - (1 - i) * TIMEFRAME_MINUTES[timeframe] * 60 * 1000)
-            .toLocaleTimeString('en-US', { hour: '2-digit', minute: '2-digit' }),
+          time: formatTime(new Date(now.getTime() - (1 - i) * TIMEFRAME_MINUTES[timeframe] * 60 * 1000)),
+          open: currentPrice,
+          high: currentPrice,
+          low: currentPrice,
+          close: currentPrice,
           price: currentPrice,
           volume: 0,
         }));
@@ -135,9 +230,9 @@ export function TradingChart({ symbol, currentPrice, volatility, coinId, isOverr
 
     loadData();
     return () => { cancelled = true; };
-  }, [timeframe, currentPrice, volatility, coinId, isOverridden]);
+  }, [timeframe, currentPrice, volatility, coinId, isOverridden, refreshKey]);
 
-  // Real-time updates: for overridden coins simulate ticks, for real coins subscribe to price_history
+  // Real-time updates: for overridden coins simulate ticks, for real coins refetch candles on each trade
   useEffect(() => {
     if (isOverridden || !coinId) {
       // Simulated tick for overridden coins
@@ -148,7 +243,10 @@ export function TradingChart({ symbol, currentPrice, volatility, coinId, isOverr
           const lastPoint = { ...newData[newData.length - 1] };
           const change = (Math.random() - 0.5) * currentPrice * 0.001;
           lastPoint.price = Math.max(lastPoint.price + change, currentPrice * 0.9);
-          lastPoint.time = new Date().toLocaleTimeString('en-US', { hour: '2-digit', minute: '2-digit' });
+          lastPoint.close = lastPoint.price;
+          lastPoint.high = Math.max(lastPoint.high, lastPoint.price);
+          lastPoint.low = Math.min(lastPoint.low, lastPoint.price);
+          lastPoint.time = formatTime(new Date());
           newData[newData.length - 1] = lastPoint;
           return newData;
         });
@@ -156,7 +254,9 @@ export function TradingChart({ symbol, currentPrice, volatility, coinId, isOverr
       return () => clearInterval(interval);
     }
 
-    // Subscribe to real price history changes
+    // Market trades land in price_history and roll into candles in the same
+    // transaction, so an insert there means the candle series has moved
+    let timer: ReturnType<typeof setTimeout> | undefined;
     const channel = supabase
       .channel(`price-history-${coinId}`)
       .on('postgres_changes', {
@@ -164,41 +264,79 @@ export function TradingChart({ symbol, currentPrice, volatility, coinId, isOverr
         schema: 'public',
         table: 'price_history',
         filter: `coin_id=eq.${coinId}`,
-      }, (payload) => {
-        const newRecord = payload.new as any;
-        // Skip synthetic drift ticks — charts must be 100% market-driven
-        if (newRecord?.trade_type === 'drift') return;
-        setChartData((prev) => {
-          const newPoint = {
-            time: new Date(newRecord.created_at).toLocaleTimeString('en-US', { hour: '2-digit', minute: '2-digit' }),
-            price: Number(newRecord.price),
-            volume: Number(newRecord.volume || 0),
-          };
-          const updated = [...prev, newPoint];
-          // Keep reasonable size
-          if (updated.length > 200) updated.shift();
-          // Recalc price change
-          if (updated.length > 1) {
-            setPriceChange(((updated[updated.length - 1].price - updated[0].price) / updated[0].price) * 100);
-          }
-          return updated;
-        });
+      }, () => {
+        clearTimeout(timer);
+        timer = setTimeout(() => setRefreshKey((k) => k + 1), 250);
       })
       .subscribe();
 
-    return () => { supabase.removeChannel(channel); };
+    return () => { clearTimeout(timer); supabase.removeChannel(channel); };
   }, [currentPrice, coinId, isOverridden]);
 
   const isPositive = priceChange >= 0;
-  const chartColor = isPositive ? 'hsl(145, 100%, 45%)' : 'hsl(0, 85%, 60%)';
+  const chartColor = isPositive ? UP_COLOR : DOWN_COLOR;
+  const showAvgBuy = prefs.showAvgBuy && !!averageBuyPrice && averageBuyPrice > 0;
 
-  const minPrice = useMemo(() => chartData.length > 0 ? Math.min(...chartData.map(d => d.price)) * 0.998 : 0, [chartData]);
-  const maxPrice = useMemo(() => chartData.length > 0 ? Math.max(...chartData.map(d => d.price)) * 1.002 : 1, [chartData]);
+  const rows = useMemo(() => {
+    const closes = chartData.map((d) => d.close);
+    const smaSeries = sma(closes, 20);
+    const emaSeries = ema(closes, 9);
+    const vwapSeries = vwap(chartData);
+    const bands = bollinger(closes, 20, 2);
+    const rsiSeries = rsi(closes, 14);
+    const macdSeries = macd(closes);
+    return chartData.map((d, i) => ({
+      ...d,
+      range: [d.low, d.high] as [number, number],
+      sma: smaSeries[i],
+      ema: emaSeries[i],
+      vwap: vwapSeries[i],
+      bbUpper: bands.upper[i],
+      bbMiddle: bands.middle[i],
+      bbLower: bands.lower[i],
+      rsi: rsiSeries[i],
+      macd: macdSeries.macd[i],
+      macdSignal: macdSeries.signal[i],
+      macdHist: macdSeries.histogram[i],
+    }));
+  }, [chartData]);
+
+  const [minPrice, maxPrice] = useMemo(() => {
+    if (rows.length === 0) return [0, 1];
+    const values: number[] = [];
+    rows.forEach((r) => {
+      if (prefs.mode === 'area') values.push(r.price);
+      else values.push(r.low, r.high);
+      if (prefs.overlays.includes('sma') && r.sma !== null) values.push(r.sma);
+      if (prefs.overlays.includes('ema') && r.ema !== null) values.push(r.ema);
+      if (prefs.overlays.includes('vwap') && r.vwap !== null) values.push(r.vwap);
+      if (prefs.overlays.includes('bollinger') && r.bbUpper !== null && r.bbLower !== null) values.push(r.bbUpper, r.bbLower);
+    });
+    if (showAvgBuy) values.push(averageBuyPrice!);
+    return [Math.min(...values) * 0.998, Math.max(...values) * 1.002];
+  }, [rows, prefs.mode, prefs.overlays, showAvgBuy, averageBuyPrice]);
+
+  const readout = hover ? rows[hover.index] : rows[rows.length - 1];
+  const showPanes = prefs.showVolume || prefs.oscillator !== null;
+
+  const toggleOverlay = (value: OverlayIndicator, checked: boolean) => {
+    updatePrefs({
+      overlays: checked ? [...prefs.overlays, value] : prefs.overlays.filter((o) => o !== value),
+    });
+  };
+
+  const handleMouseMove = (state: { activeTooltipIndex?: number; chartY?: number }) => {
+    if (state?.activeTooltipIndex == null || state.chartY == null) return;
+    setHover({ index: state.activeTooltipIndex, y: state.chartY });
+  };
+
+  const axisTick = { fill: 'hsl(var(--muted-foreground))', fontSize: 10 };
+  const cursor = { stroke: 'hsl(var(--muted-foreground))', strokeDasharray: '3 3' };
 
   return (
     <div className="w-full h-full flex flex-col">
       {/* Chart Header */}
-      <div className="flex flex-col sm:flex-row items-start sm:items-center justify-between mb-3 sm:mb-4 px-2 gap-2">
+      <div className="flex flex-col sm:flex-row items-start sm:items-center justify-between mb-2 px-2 gap-2">
         <div className="flex items-center gap-4">
           <div>
             <div className="flex items-center gap-2">
@@ -230,10 +368,108 @@ export function TradingChart({ symbol, currentPrice, volatility, coinId, isOverr
         </div>
       </div>
 
+      {/* Toolbar + crosshair readout */}
+      <div className="flex flex-wrap items-center justify-between gap-2 mb-2 px-2">
+        <div className="flex items-center gap-1">
+          <div className="flex items-center gap-0.5 bg-muted/50 rounded-lg p-0.5">
+            {MODES.map(({ value, label, icon: Icon }) => (
+              <Button
+                key={value}
+                variant={prefs.mode === value ? 'default' : 'ghost'}
+                size="icon"
+                className="h-6 w-6"
+                title={label}
+                onClick={() => updatePrefs({ mode: value })}
+              >
+                <Icon className="h-3.5 w-3.5" />
+              </Button>
+            ))}
+          </div>
+          <DropdownMenu>
+            <DropdownMenuTrigger asChild>
+              <Button variant="ghost" size="sm" className="h-7 gap-1 px-2 text-xs">
+                <Activity className="h-3.5 w-3.5" /> Indicators
+                {prefs.overlays.length + (prefs.oscillator ? 1 : 0) > 0 && (
+                  <span className="text-primary">({prefs.overlays.length + (prefs.oscillator ? 1 : 0)})</span>
+                )}
+              </Button>
+            </DropdownMenuTrigger>
+            <DropdownMenuContent align="start" className="w-52">
+              <DropdownMenuLabel className="text-xs">Overlays</DropdownMenuLabel>
+              {OVERLAYS.map((o) => (
+                <DropdownMenuCheckboxItem
+                  key={o.value}
+                  className="text-xs"
+                  checked={prefs.overlays.includes(o.value)}
+                  onCheckedChange={(checked) => toggleOverlay(o.value, !!checked)}
+                  onSelect={(e) => e.preventDefault()}
+                >
+                  <span className="mr-2 inline-block h-0.5 w-3" style={{ backgroundColor: o.color }} />
+                  {o.label}
+                </DropdownMenuCheckboxItem>
+              ))}
+              <DropdownMenuSeparator />
+              <DropdownMenuLabel className="text-xs">Oscillator</DropdownMenuLabel>
+              <DropdownMenuRadioGroup
+                value={prefs.oscillator ?? 'none'}
+                onValueChange={(v) => updatePrefs({ oscillator: v === 'none' ? null : (v as OscillatorIndicator) })}
+              >
+                <DropdownMenuRadioItem value="none" className="text-xs">None</DropdownMenuRadioItem>
+                {OSCILLATORS.map((o) => (
+                  <DropdownMenuRadioItem key={o.value} value={o.value} className="text-xs">{o.label}</DropdownMenuRadioItem>
+                ))}
+              </DropdownMenuRadioGroup>
+              <DropdownMenuSeparator />
+              <DropdownMenuCheckboxItem
+                className="text-xs"
+                checked={prefs.showVolume}
+                onCheckedChange={(checked) => updatePrefs({ showVolume: !!checked })}
+                onSelect={(e) => e.preventDefault()}
+              >
+                Volume pane
+              </DropdownMenuCheckboxItem>
+              {!!averageBuyPrice && averageBuyPrice > 0 && (
+                <DropdownMenuCheckboxItem
+                  className="text-xs"
+                  checked={prefs.showAvgBuy}
+                  onCheckedChange={(checked) => updatePrefs({ showAvgBuy: !!checked })}
+                  onSelect={(e) => e.preventDefault()}
+                >
+                  My avg. buy price
+                </DropdownMenuCheckboxItem>
+              )}
+            </DropdownMenuContent>
+          </DropdownMenu>
+        </div>
+
+        {readout && (
+          <div className="flex flex-wrap items-center gap-x-2 gap-y-0.5 text-[10px] font-mono text-muted-foreground">
+            <span>{readout.time}</span>
+            <span>O <span className="text-foreground">{readout.open.toFixed(6)}</span></span>
+            <span>H <span className="text-success">{readout.high.toFixed(6)}</span></span>
+            <span>L <span className="text-destructive">{readout.low.toFixed(6)}</span></span>
+            <span>C <span className="text-foreground">{readout.close.toFixed(6)}</span></span>
+            <span>V <span className="text-foreground">{readout.volume.toLocaleString()}</span></span>
+            {OVERLAYS.filter((o) => prefs.overlays.includes(o.value)).map((o) => {
+              const value = o.value === 'bollinger' ? readout.bbMiddle : readout[o.value];
+              return value !== null ? (
+                <span key={o.value} style={{ color: o.color }}>{o.label.split(' ')[0]} {value.toFixed(6)}</span>
+              ) : null;
+            })}
+          </div>
+        )}
+      </div>
+
       {/* Chart */}
-      <div className="flex-1 min-h-[180px] sm:min-h-[280px]">
+      <div className="relative flex-1 min-h-[140px] sm:min-h-[220px]">
         <ResponsiveContainer width="100%" height="100%">
-          <AreaChart data={chartData} margin={{ top: 10, right: 10, left: 0, bottom: 0 }}>
+          <ComposedChart
+            data={rows}
+            syncId="trading-chart"
+            margin={{ top: 10, right: 10, left: 0, bottom: 0 }}
+            onMouseMove={handleMouseMove}
+            onMouseLeave={() => setHover(null)}
+          >
             <defs>
               <linearGradient id="chartGradient" x1="0" y1="0" x2="0" y2="1">
                 <stop offset="0%" stopColor={chartColor} stopOpacity={0.3} />
@@ -244,52 +480,149 @@ export function TradingChart({ symbol, currentPrice, volatility, coinId, isOverr
               dataKey="time" 
               axisLine={false}
               tickLine={false}
-              tick={{ fill: 'hsl(var(--muted-foreground))', fontSize: 10 }}
+              tick={axisTick}
               interval="preserveStartEnd"
             />
             <YAxis 
               domain={[minPrice, maxPrice]}
               axisLine={false}
               tickLine={false}
-              tick={{ fill: 'hsl(var(--muted-foreground))', fontSize: 10 }}
+              tick={axisTick}
               tickFormatter={(value) => value.toFixed(4)}
               width={60}
               orientation="right"
             />
-            <Tooltip
-              contentStyle={{
-                backgroundColor: 'hsl(var(--card))',
-                border: '1px solid hsl(var(--border))',
-                borderRadius: '8px',
-                boxShadow: '0 4px 12px rgba(0,0,0,0.3)',
-              }}
-              labelStyle={{ color: 'hsl(var(--foreground))' }}
-              formatter={(value: number) => [`KES ${value.toFixed(6)}`, 'Price']}
-            />
-            <Area
-              type="monotone"
-              dataKey="price"
-              stroke={chartColor}
-              strokeWidth={2}
-              fill="url(#chartGradient)"
-              animationDuration={500}
-            />
-          </AreaChart>
+            <Tooltip cursor={cursor} content={() => null} />
+            {prefs.mode === 'area' ? (
+              <Area
+                type="monotone"
+                dataKey="price"
+                stroke={chartColor}
+                strokeWidth={2}
+                fill="url(#chartGradient)"
+                animationDuration={500}
+              />
+            ) : (
+              <Bar
+                dataKey="range"
+                isAnimationActive={false}
+                shape={(props: CandleShapeProps) => <CandleShape {...props} variant={prefs.mode === 'ohlc' ? 'ohlc' : 'candles'} />}
+              />
+            )}
+            {prefs.overlays.includes('bollinger') && (
+              <>
+                <Line dataKey="bbUpper" stroke={OVERLAYS[3].color} strokeDasharray="4 2" dot={false} strokeWidth={1} isAnimationActive={false} />
+                <Line dataKey="bbMiddle" stroke={OVERLAYS[3].color} dot={false} strokeWidth={1} isAnimationActive={false} />
+                <Line dataKey="bbLower" stroke={OVERLAYS[3].color} strokeDasharray="4 2" dot={false} strokeWidth={1} isAnimationActive={false} />
+              </>
+            )}
+            {OVERLAYS.filter((o) => o.value !== 'bollinger' && prefs.overlays.includes(o.value)).map((o) => (
+              <Line key={o.value} dataKey={o.value} stroke={o.color} dot={false} strokeWidth={1.5} isAnimationActive={false} />
+            ))}
+            {showAvgBuy && (
+              <ReferenceLine
+                y={averageBuyPrice}
+                stroke="hsl(var(--primary))"
+                strokeDasharray="6 3"
+                label={{ value: `Avg buy ${averageBuyPrice!.toFixed(4)}`, position: 'insideTopLeft', fill: 'hsl(var(--primary))', fontSize: 10 }}
+              />
+            )}
+          </ComposedChart>
         </ResponsiveContainer>
+        {hover && (
+          <div
+            className="pointer-events-none absolute left-0 right-[70px] border-t border-dashed border-muted-foreground/60"
+            style={{ top: hover.y }}
+          />
+        )}
       </div>
 
+      {/* Lower panes */}
+      {showPanes && (
+        <div className="space-y-1 mt-1">
+          {prefs.showVolume && (
+            <div className="h-12 sm:h-14">
+              <ResponsiveContainer width="100%" height="100%">
+                <ComposedChart data={rows} syncId="trading-chart" margin={{ top: 0, right: 10, left: 0, bottom: 0 }}>
+                  <XAxis dataKey="time" hide />
+                  <YAxis
+                    axisLine={false}
+                    tickLine={false}
+                    tick={axisTick}
+                    tickFormatter={(value) => value >= 1000 ? `${(value / 1000).toFixed(0)}K` : String(value)}
+                    width={60}
+                    orientation="right"
+                    tickCount={2}
+                  />
+                  <Tooltip cursor={cursor} content={() => null} />
+                  <Bar dataKey="volume" isAnimationActive={false}>
+                    {rows.map((r, i) => (
+                      <Cell key={i} fill={r.close >= r.open ? UP_COLOR : DOWN_COLOR} fillOpacity={0.5} />
+                    ))}
+                  </Bar>
+                </ComposedChart>
+              </ResponsiveContainer>
+            </div>
+          )}
+          {prefs.oscillator && (
+            <div className="h-16 sm:h-20">
+              <ResponsiveContainer width="100%" height="100%">
+                <ComposedChart data={rows} syncId="trading-chart" margin={{ top: 4, right: 10, left: 0, bottom: 0 }}>
+                  <XAxis dataKey="time" hide />
+                  <YAxis
+                    domain={prefs.oscillator === 'rsi' ? [0, 100] : ['auto', 'auto']}
+                    axisLine={false}
+                    tickLine={false}
+                    tick={axisTick}
+                    tickFormatter={(value) => prefs.oscillator === 'rsi' ? String(value) : value.toFixed(5)}
+                    width={60}
+                    orientation="right"
+                    tickCount={3}
+                  />
+                  <Tooltip cursor={cursor} content={() => null} />
+                  {prefs.oscillator === 'rsi' ? (
+                    <>
+                      <ReferenceLine y={70} stroke={DOWN_COLOR} strokeDasharray="3 3" strokeOpacity={0.5} />
+                      <ReferenceLine y={30} stroke={UP_COLOR} strokeDasharray="3 3" strokeOpacity={0.5} />
+                      <Line dataKey="rsi" stroke="hsl(280, 80%, 65%)" dot={false} strokeWidth={1.5} isAnimationActive={false} />
+                    </>
+                  ) : (
+                    <>
+                      <Bar dataKey="macdHist" isAnimationActive={false}>
+                        {rows.map((r, i) => (
+                          <Cell key={i} fill={(r.macdHist ?? 0) >= 0 ? UP_COLOR : DOWN_COLOR} fillOpacity={0.5} />
+                        ))}
+                      </Bar>
+                      <Line dataKey="macd" stroke="hsl(200, 100%, 60%)" dot={false} strokeWidth={1.5} isAnimationActive={false} />
+                      <Line dataKey="macdSignal" stroke="hsl(45, 100%, 55%)" dot={false} strokeWidth={1.5} isAnimationActive={false} />
+                    </>
+                  )}
+                </ComposedChart>
+              </ResponsiveContainer>
+            </div>
+          )}
+          {prefs.oscillator && readout && (
+            <p className="px-2 text-[10px] font-mono text-muted-foreground">
+              {prefs.oscillator === 'rsi'
+                ? `RSI 14 ${readout.rsi !== null ? readout.rsi.toFixed(2) : '—'}`
+                : `MACD ${readout.macd !== null ? readout.macd.toFixed(6) : '—'} · Signal ${readout.macdSignal !== null ? readout.macdSignal.toFixed(6) : '—'}`}
+            </p>
+          )}
+        </div>
+      )}
+
       {/* Chart Stats */}
-      <div className="grid grid-cols-4 gap-2 sm:gap-4 mt-3 sm:mt-4 px-2 py-2 sm:py-3 bg-muted/30 rounded-lg">
+      <div className="grid grid-cols-4 gap-2 sm:gap-4 mt-2 sm:mt-3 px-2 py-2 sm:py-3 bg-muted/30 rounded-lg">
         <div className="text-center">
           <p className="text-xs text-muted-foreground">High</p>
           <p className="text-sm font-medium text-success">
-            {chartData.length > 0 ? Math.max(...chartData.map(d => d.price)).toFixed(4) : '0'}
+            {chartData.length > 0 ? Math.max(...chartData.map(d => d.high)).toFixed(4) : '0'}
           </p>
         </div>
         <div className="text-center">
           <p className="text-xs text-muted-foreground">Low</p>
           <p className="text-sm font-medium text-destructive">
-            {chartData.length > 0 ? Math.min(...chartData.map(d => d.price)).toFixed(4) : '0'}
+            {chartData.length > 0 ? Math.min(...chartData.map(d => d.low)).toFixed(4) : '0'}
           </p>
         </div>
         <div className="text-center">
@@ -5,10 +5,19 @@ import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { Slider } from '@/components/ui/slider';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
-import { Phone, Wallet, AlertCircle, Percent, ArrowDownLeft, CheckCircle, RefreshCw } from 'lucide-react';
+import { Phone, Wallet, AlertCircle, Percent, ArrowDownLeft, CheckCircle, RefreshCw, TrendingUp } from 'lucide-react';
 import { cn } from '@/lib/utils';
+import { useTradeQuote, fetchTradeQuote, type TradeQuote, type SlippageGuard } from '@/hooks/use-trade-quote';
+import { checkBuyLimits, describeTradeLimit } from '@/lib/trade-limits';
+import { newRequestKey } from '@/lib/trade-execution';
+import { TradeConfirmDialog } from './TradeConfirmDialog';
+import { toast } from 'sonner';
+
+const SLIPPAGE_STORAGE_KEY = 'trade_slippage_tolerance';
+const SLIPPAGE_PRESETS = [0.5, 1, 2, 5];
 
 interface TradingPanelProps {
+  coinId: string;
   symbol: string;
   currentPrice: number;
   userBalance: number;
@@ -16,13 +25,16 @@ interface TradingPanelProps {
   minBuyAmount: number;
   maxBuyAmount: number;
   feePercentage: number;
-  onBuy: (amount: number, phone: string, useWallet: boolean) => void;
-  onSell: (amount: number, toWallet: boolean) => void;
+  /** `requestKey` identifies this order; the same key is sent if it is submitted twice. */
+  onBuy: (amount: number, phone: string, useWallet: boolean, guard: SlippageGuard, requestKey: string) => void;
+  onSell: (amount: number, toWallet: boolean, guard: SlippageGuard, requestKey: string) => void;
+  onPlaceLimit?: (side: 'buy' | 'sell', price: number, amount: number) => void;
   processing: boolean;
   isAuthenticated: boolean;
 }
 
 export function TradingPanel({
+  coinId,
   symbol,
   currentPrice,
   userBalance,
@@ -32,6 +44,7 @@ export function TradingPanel({
   feePercentage,
   onBuy,
   onSell,
+  onPlaceLimit,
   processing,
   isAuthenticated,
 }: TradingPanelProps) {
@@ -43,29 +56,56 @@ export function TradingPanel({
   const [sliderValue, setSliderValue] = useState([0]);
   const [useWallet, setUseWallet] = useState(false);
   const [sellToWallet, setSellToWallet] = useState(true);
+  const [orderType, setOrderType] = useState<'market' | 'limit'>('market');
+  const [limitPrice, setLimitPrice] = useState('');
+  const [slippagePct, setSlippagePct] = useState<number>(() => {
+    const stored = parseFloat(localStorage.getItem(SLIPPAGE_STORAGE_KEY) || '');
+    return stored > 0 ? stored : 1;
+  });
+  const [confirmOpen, setConfirmOpen] = useState(false);
+  const [confirmQuote, setConfirmQuote] = useState<TradeQuote | null>(null);
+  const [requestKey, setRequestKey] = useState('');
 
   const amountNum = parseFloat(amount) || 0;
   const kshNum = parseFloat(kshAmount) || 0;
 
+  const isLimit = orderType === 'limit';
+  const limitPriceNum = parseFloat(limitPrice) || 0;
+  // Limit orders are priced at the limit; market orders at the current curve price
+  const quotePrice = isLimit ? limitPriceNum : currentPrice;
+
   // Calculate based on input mode
-  const effectiveAmount = inputMode === 'ksh' ? (currentPrice > 0 ? kshNum / currentPrice : 0) : amountNum;
-  const totalValue = effectiveAmount * currentPrice;
-  const fee = totalValue * (feePercentage / 100);
-  const totalWithFee = activeTab === 'buy' ? totalValue + fee : totalValue - fee;
+  const effectiveAmount = inputMode === 'ksh' ? (quotePrice > 0 ? kshNum / quotePrice : 0) : amountNum;
+
+  // Market orders are quoted server-side (curve-integrated); fall back to spot until it arrives
+  const { quote, loading: quoteLoading } = useTradeQuote(coinId, activeTab, effectiveAmount, !isLimit);
+  const liveQuote = !isLimit && quote?.ok ? quote : null;
+  const totalValue = liveQuote ? liveQuote.total_value : effectiveAmount * quotePrice;
+  const fee = liveQuote ? liveQuote.fee : totalValue * (feePercentage / 100);
+  const totalWithFee = liveQuote ? liveQuote.net_total : activeTab === 'buy' ? totalValue + fee : totalValue - fee;
 
   const handleCoinAmountChange = (value: string) => {
     setAmount(value);
     setInputMode('coin');
     const num = parseFloat(value) || 0;
-    setKshAmount((num * currentPrice).toFixed(2));
+    setKshAmount((num * quotePrice).toFixed(2));
   };
 
   const handleKshAmountChange = (value: string) => {
     setKshAmount(value);
     setInputMode('ksh');
     const num = parseFloat(value) || 0;
-    if (currentPrice > 0) {
-      setAmount((num / currentPrice).toFixed(0));
+    if (quotePrice > 0) {
+      setAmount((num / quotePrice).toFixed(0));
+    }
+  };
+
+  const handleOrderTypeChange = (type: 'market' | 'limit') => {
+    setOrderType(type);
+    if (type === 'limit') {
+      // Limit buys are escrowed from the wallet
+      setUseWallet(true);
+      if (!limitPrice) setLimitPrice(currentPrice.toFixed(6));
     }
   };
 
@@ -74,19 +114,19 @@ export function TradingPanel({
     if (activeTab === 'sell' && userBalance > 0) {
       const coinAmt = (userBalance * value[0]) / 100;
       setAmount(coinAmt.toFixed(0));
-      setKshAmount((coinAmt * currentPrice).toFixed(2));
+      setKshAmount((coinAmt * quotePrice).toFixed(2));
       setInputMode('coin');
-    } else if (activeTab === 'buy') {
+    } else if (activeTab === 'buy' && quotePrice > 0) {
       if (useWallet && userFiatBalance > 0) {
-        const maxCoins = (userFiatBalance / currentPrice) * (1 - feePercentage / 100);
+        const maxCoins = (userFiatBalance / quotePrice) * (1 - feePercentage / 100);
         const coinAmt = (maxCoins * value[0]) / 100;
         setAmount(coinAmt.toFixed(0));
-        setKshAmount((coinAmt * currentPrice).toFixed(2));
+        setKshAmount((coinAmt * quotePrice).toFixed(2));
       } else {
-        const maxCoins = maxBuyAmount / currentPrice;
+        const maxCoins = maxBuyAmount / quotePrice;
         const coinAmt = (maxCoins * value[0]) / 100;
         setAmount(coinAmt.toFixed(0));
-        setKshAmount((coinAmt * currentPrice).toFixed(2));
+        setKshAmount((coinAmt * quotePrice).toFixed(2));
       }
       setInputMode('coin');
     }
@@ -94,20 +134,62 @@ export function TradingPanel({
 
   const presetPercentages = [25, 50, 75, 100];
 
-  const handleSubmit = () => {
+  const handleSlippageChange = (pct: number) => {
+    setSlippagePct(pct);
+    localStorage.setItem(SLIPPAGE_STORAGE_KEY, String(pct));
+  };
+
+  const handleSubmit = async () => {
+    if (isLimit) {
+      onPlaceLimit?.(activeTab, limitPriceNum, effectiveAmount);
+      return;
+    }
+
+    // Market orders go through a confirmation step with a fresh quote
+    setConfirmQuote(liveQuote);
+    setRequestKey(newRequestKey());
+    setConfirmOpen(true);
+    try {
+      // Limits are checked up front too: an M-Pesa payment can't be refused once it clears
+      const [fresh, violation] = await Promise.all([
+        fetchTradeQuote(coinId, activeTab, effectiveAmount),
+        activeTab === 'buy' && isAuthenticated ? checkBuyLimits(coinId, effectiveAmount) : null,
+      ]);
+      if (!fresh.ok) {
+        toast.error(fresh.error || 'Unable to price this trade');
+        setConfirmOpen(false);
+        return;
+      }
+      if (violation) {
+        toast.error(describeTradeLimit(violation));
+        setConfirmOpen(false);
+        return;
+      }
+      setConfirmQuote(fresh);
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Unable to price this trade');
+      setConfirmOpen(false);
+    }
+  };
+
+  const handleConfirm = () => {
+    if (!confirmQuote) return;
+    const guard: SlippageGuard = { expectedPrice: confirmQuote.average_price, maxSlippagePct: slippagePct };
+    setConfirmOpen(false);
     if (activeTab === 'buy') {
-      onBuy(effectiveAmount, phone, useWallet);
+      onBuy(confirmQuote.amount, phone, useWallet, guard, requestKey);
     } else {
-      onSell(effectiveAmount, sellToWallet);
+      onSell(confirmQuote.amount, sellToWallet, guard, requestKey);
     }
   };
 
   const isValidBuy = effectiveAmount > 0 &&
     (useWallet ? totalWithFee <= userFiatBalance : phone.length >= 10) &&
     totalValue >= minBuyAmount &&
-    totalValue <= maxBuyAmount;
+    totalValue <= maxBuyAmount &&
+    (!isLimit || limitPriceNum > 0);
 
-  const isValidSell = effectiveAmount > 0 && effectiveAmount <= userBalance;
+  const isValidSell = effectiveAmount > 0 && effectiveAmount <= userBalance && (!isLimit || limitPriceNum > 0);
   const isValid = activeTab === 'buy' ? isValidBuy : isValidSell;
 
   return (
@@ -129,14 +211,53 @@ export function TradingPanel({
         </TabsList>
 
         <div className="flex-1 p-3 sm:p-4 space-y-3 overflow-y-auto">
+          {/* Order Type */}
+          {onPlaceLimit && (
+            <div className="grid grid-cols-2 gap-1 p-1 rounded-lg bg-muted/50">
+              {(['market', 'limit'] as const).map((type) => (
+                <button
+                  key={type}
+                  type="button"
+                  onClick={() => handleOrderTypeChange(type)}
+                  className={cn(
+                    "py-1.5 rounded-md text-xs font-medium capitalize transition-all",
+                    orderType === type ? "bg-background text-foreground shadow-sm" : "text-muted-foreground"
+                  )}
+                >
+                  {type}
+                </button>
+              ))}
+            </div>
+          )}
+
           {/* Price Display */}
           <div className="flex items-center justify-between py-2 px-3 rounded-lg bg-muted/50">
-            <span className="text-sm text-muted-foreground">Price</span>
+            <span className="text-sm text-muted-foreground">{isLimit ? 'Market' : 'Price'}</span>
             <span className="font-mono font-medium text-sm">KES {currentPrice.toFixed(6)}</span>
           </div>
 
+          {/* Limit Price */}
+          {isLimit && (
+            <div className="space-y-2">
+              <Label className="text-xs sm:text-sm">Limit Price (KES)</Label>
+              <Input
+                type="number"
+                placeholder="0.000000"
+                value={limitPrice}
+                onChange={(e) => setLimitPrice(e.target.value)}
+                step="0.000001"
+                className="h-10 sm:h-12 text-base sm:text-lg font-mono bg-muted/30 border-border/50 focus:border-primary"
+              />
+              <p className="text-[10px] text-muted-foreground">
+                {activeTab === 'buy'
+                  ? 'Fills at or below this price. Funds are reserved from your wallet until filled or cancelled.'
+                  : 'Fills at or above this price. Coins stay reserved until filled or cancelled.'}
+              </p>
+            </div>
+          )}
+
           {/* Buy Tab - Payment Method */}
-          {activeTab === 'buy' && isAuthenticated && (
+          {activeTab === 'buy' && isAuthenticated && !isLimit && (
             <div className="grid grid-cols-2 gap-2">
               <button
                 type="button"
@@ -177,7 +298,7 @@ export function TradingPanel({
           )}
 
           {/* Sell Destination */}
-          {activeTab === 'sell' && isAuthenticated && (
+          {activeTab === 'sell' && isAuthenticated && !isLimit && (
             <div className="grid grid-cols-2 gap-2">
               <button
                 type="button"
@@ -283,8 +404,52 @@ export function TradingPanel({
             </div>
           )}
 
+          {/* Slippage Tolerance */}
+          {!isLimit && (
+            <div className="flex items-center justify-between gap-2">
+              <span className="text-xs text-muted-foreground">Max slippage</span>
+              <div className="flex gap-1">
+                {SLIPPAGE_PRESETS.map((pct) => (
+                  <button
+                    key={pct}
+                    type="button"
+                    onClick={() => handleSlippageChange(pct)}
+                    className={cn(
+                      "px-2 py-0.5 rounded-md text-[11px] font-mono border transition-all",
+                      slippagePct === pct ? "border-primary bg-primary/10 text-primary" : "border-border/50 text-muted-foreground"
+                    )}
+                  >
+                    {pct}%
+                  </button>
+                ))}
+              </div>
+            </div>
+          )}
+
           {/* Order Summary */}
-          <div className="rounded-lg border border-border/50 bg-muted/20 p-3 space-y-1.5 text-sm">
+          <div className={cn(
+            "rounded-lg border border-border/50 bg-muted/20 p-3 space-y-1.5 text-sm transition-opacity",
+            quoteLoading && "opacity-60"
+          )}>
+            {liveQuote && (
+              <>
+                <div className="flex items-center justify-between">
+                  <span className="text-muted-foreground text-xs">Avg. Price</span>
+                  <span className="font-mono text-xs">KES {liveQuote.average_price.toFixed(6)}</span>
+                </div>
+                <div className="flex items-center justify-between">
+                  <span className="text-muted-foreground flex items-center gap-1 text-xs">
+                    <TrendingUp className="h-3 w-3" /> Price Impact
+                  </span>
+                  <span className={cn(
+                    "font-mono text-xs",
+                    Math.abs(liveQuote.price_impact_pct) >= 5 ? "text-destructive" : Math.abs(liveQuote.price_impact_pct) >= 1 ? "text-warning" : "text-muted-foreground"
+                  )}>
+                    {liveQuote.price_impact_pct >= 0 ? '+' : ''}{liveQuote.price_impact_pct.toFixed(2)}%
+                  </span>
+                </div>
+              </>
+            )}
             <div className="flex items-center justify-between">
               <span className="text-muted-foreground text-xs">Subtotal</span>
               <span className="font-mono text-xs">KES {totalValue.toLocaleString(undefined, { minimumFractionDigits: 2 })}</span>
@@ -304,6 +469,12 @@ export function TradingPanel({
           </div>
 
           {/* Validations */}
+          {!isLimit && quote && !quote.ok && quote.error && (
+            <div className="flex items-center gap-2 text-xs text-destructive">
+              <AlertCircle className="h-3.5 w-3.5" />
+              {quote.error}
+            </div>
+          )}
           {totalValue > 0 && totalValue < minBuyAmount && activeTab === 'buy' && (
             <div className="flex items-center gap-2 text-xs text-warning">
               <AlertCircle className="h-3.5 w-3.5" />
@@ -348,6 +519,8 @@ export function TradingPanel({
               />
             ) : !isAuthenticated ? (
               'Sign in to Trade'
+            ) : isLimit ? (
+              `Place Limit ${activeTab === 'buy' ? 'Buy' : 'Sell'}`
             ) : activeTab === 'buy' ? (
               `Buy ${symbol}`
             ) : (
@@ -364,6 +537,18 @@ export function TradingPanel({
           )}
         </div>
       </Tabs>
+
+      <TradeConfirmDialog
+        open={confirmOpen}
+        onOpenChange={setConfirmOpen}
+        side={activeTab}
+        symbol={symbol}
+        quote={confirmQuote}
+        slippagePct={slippagePct}
+        paymentLabel={activeTab === 'buy' ? (useWallet ? 'Wallet' : 'M-PESA') : (sellToWallet ? 'Wallet' : 'M-PESA')}
+        processing={processing}
+        onConfirm={handleConfirm}
+      />
     </div>
   );
 }
@@ -0,0 +1,142 @@
+import { useState, useEffect } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription } from '@/components/ui/dialog';
+import { FileText, FileSpreadsheet, Loader2 } from 'lucide-react';
+import { supabase } from '@/integrations/supabase/client';
+import { toast } from 'sonner';
+import { fetchAccountStatement, downloadStatementCsv, openStatementPdf } from '@/lib/statement';
+
+interface StatementDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  userId: string;
+}
+
+type Preset = 'this_month' | 'last_month' | 'year_to_date';
+
+const toDateInput = (d: Date) => {
+  const local = new Date(d.getTime() - d.getTimezoneOffset() * 60_000);
+  return local.toISOString().slice(0, 10);
+};
+
+const presetRange = (preset: Preset): [string, string] => {
+  const now = new Date();
+  if (preset === 'last_month') {
+    return [
+      toDateInput(new Date(now.getFullYear(), now.getMonth() - 1, 1)),
+      toDateInput(new Date(now.getFullYear(), now.getMonth(), 0)),
+    ];
+  }
+  if (preset === 'year_to_date') return [toDateInput(new Date(now.getFullYear(), 0, 1)), toDateInput(now)];
+  return [toDateInput(new Date(now.getFullYear(), now.getMonth(), 1)), toDateInput(now)];
+};
+
+const PRESET_LABELS: Record<Preset, string> = {
+  this_month: 'This month',
+  last_month: 'Last month',
+  year_to_date: 'Year to date',
+};
+
+export function StatementDialog({ open, onOpenChange, userId }: StatementDialogProps) {
+  const [[from, to], setRange] = useState<[string, string]>(() => presetRange('last_month'));
+  const [busy, setBusy] = useState<'csv' | 'pdf' | null>(null);
+  const [emailEnabled, setEmailEnabled] = useState(false);
+
+  useEffect(() => {
+    if (!open) return;
+    supabase
+      .from('profiles')
+      .select('statement_email_enabled')
+      .eq('user_id', userId)
+      .maybeSingle()
+      .then(({ data }) => setEmailEnabled(!!data?.statement_email_enabled));
+  }, [open, userId]);
+
+  const handleExport = async (format: 'csv' | 'pdf') => {
+    if (!from || !to || to < from) { toast.error('Choose a valid date range'); return; }
+    // Whole local days, end exclusive
+    const start = new Date(`${from}T00:00:00`);
+    const end = new Date(`${to}T00:00:00`);
+    end.setDate(end.getDate() + 1);
+
+    setBusy(format);
+    const win = format === 'pdf' ? window.open('', '_blank') : null;
+    try {
+      const statement = await fetchAccountStatement(start, end);
+      if (format === 'csv') downloadStatementCsv(statement);
+      else openStatementPdf(statement, win);
+    } catch (error) {
+      win?.close();
+      toast.error(error instanceof Error ? error.message : 'Could not build the statement');
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  const handleEmailToggle = async (enabled: boolean) => {
+    setEmailEnabled(enabled);
+    const { error } = await supabase
+      .from('profiles')
+      .update({ statement_email_enabled: enabled })
+      .eq('user_id', userId);
+    if (error) {
+      setEmailEnabled(!enabled);
+      toast.error(error.message);
+      return;
+    }
+    toast.success(enabled ? 'Monthly statements will be emailed to you' : 'Monthly statement emails turned off');
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="glass-card border-border/50 max-w-sm mx-4">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2 text-sm sm:text-base">
+            <FileText className="h-4 w-4 text-primary" /> Account Statement
+          </DialogTitle>
+          <DialogDescription className="text-xs sm:text-sm">
+            Trades, deposits, withdrawals, referral commissions and fees with opening and closing wallet balances.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="flex flex-wrap gap-1.5">
+            {(Object.keys(PRESET_LABELS) as Preset[]).map(p => (
+              <Button key={p} size="sm" variant="outline" className="h-7 text-[10px]" onClick={() => setRange(presetRange(p))}>
+                {PRESET_LABELS[p]}
+              </Button>
+            ))}
+          </div>
+          <div className="grid grid-cols-2 gap-2">
+            <div className="space-y-1">
+              <Label className="text-xs">From</Label>
+              <Input type="date" value={from} max={to} onChange={(e) => setRange([e.target.value, to])} className="h-8 text-xs" />
+            </div>
+            <div className="space-y-1">
+              <Label className="text-xs">To</Label>
+              <Input type="date" value={to} min={from} onChange={(e) => setRange([from, e.target.value])} className="h-8 text-xs" />
+            </div>
+          </div>
+          <div className="grid grid-cols-2 gap-2">
+            <Button size="sm" variant="outline" className="gap-1.5 text-xs" disabled={!!busy} onClick={() => handleExport('csv')}>
+              {busy === 'csv' ? <Loader2 className="h-3.5 w-3.5 animate-spin" /> : <FileSpreadsheet className="h-3.5 w-3.5" />} CSV
+            </Button>
+            <Button size="sm" className="gap-1.5 text-xs" disabled={!!busy} onClick={() => handleExport('pdf')}>
+              {busy === 'pdf' ? <Loader2 className="h-3.5 w-3.5 animate-spin" /> : <FileText className="h-3.5 w-3.5" />} PDF
+            </Button>
+          </div>
+          <div className="flex items-center justify-between gap-3 pt-3 border-t border-border/50">
+            <div>
+              <p className="text-xs font-medium">Email me monthly</p>
+              <p className="text-[10px] text-muted-foreground">Last month's statement on the 1st, with the CSV attached</p>
+            </div>
+            <Switch checked={emailEnabled} onCheckedChange={handleEmailToggle} />
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
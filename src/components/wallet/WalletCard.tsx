@@ -10,6 +10,7 @@ import { supabase } from '@/integrations/supabase/client';
 import { toast } from 'sonner';
 import { SpiralLoader } from '@/components/ui/spiral-loader';
 import { useStkPolling } from '@/hooks/use-stk-polling';
+import { newRequestKey } from '@/lib/trade-execution';
 
 interface WalletCardProps {
   fiatBalance: number;
@@ -83,6 +84,7 @@ export function WalletCard({ fiatBalance, userId, onBalanceChange }: WalletCardP
       let formattedPhone = phone.replace(/\s+/g, '').replace(/^\+/, '');
       if (formattedPhone.startsWith('0')) formattedPhone = '254' + formattedPhone.substring(1);
       else if (!formattedPhone.startsWith('254')) formattedPhone = '254' + formattedPhone;
+      const requestKey = newRequestKey();
 
       const { data: paymentRequest, error: paymentRequestError } = await supabase
         .from('payment_requests')
@@ -92,6 +94,7 @@ export function WalletCard({ fiatBalance, userId, onBalanceChange }: WalletCardP
           amount: Math.round(depositAmount),
           phone: formattedPhone,
           status: 'pending',
+          idempotency_key: requestKey,
         })
         .select('id')
         .single();
@@ -103,7 +106,7 @@ export function WalletCard({ fiatBalance, userId, onBalanceChange }: WalletCardP
       setPaymentRequestId(paymentRequest.id);
 
       const { data, error } = await supabase.functions.invoke('mpesa-stk-push', {
-        body: { phone: formattedPhone, amount: Math.round(depositAmount), type: 'deposit', userId, paymentRequestId: paymentRequest.id, accountReference: `DEPOSIT-${userId.slice(0, 8)}` },
+        body: { phone: formattedPhone, amount: Math.round(depositAmount), type: 'deposit', userId, paymentRequestId: paymentRequest.id, accountReference: `DEPOSIT-${userId.slice(0, 8)}`, idempotencyKey: requestKey },
       });
 
       if (error || (data && !data.success)) {
@@ -0,0 +1,94 @@
+import { useQuery } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import type { Tables } from '@/integrations/supabase/types';
+
+export type HolderSnapshot = Tables<'holder_snapshots'>;
+export type Airdrop = Tables<'airdrops'>;
+
+export interface AirdropPreview {
+  asset: 'token' | 'kes';
+  distribution: 'pro_rata' | 'equal';
+  total_amount: number;
+  recipients: number;
+  skipped: number;
+  to_distribute: number;
+  remainder: number;
+  min_amount: number | null;
+  max_amount: number | null;
+  available: number;
+  sufficient: boolean;
+  allocations: { label: string; weight: number; amount: number }[];
+  skipped_entries: { label: string; error: string }[];
+}
+
+export interface AirdropRecipientResult {
+  id: string;
+  label: string;
+  amount: number;
+  status: 'pending' | 'sent' | 'failed' | 'skipped';
+  error: string | null;
+  processed_at: string | null;
+  notified_at: string | null;
+}
+
+/** Parses an uploaded list: one `email[,weight]` per line, header and blank lines ignored. */
+export function parseRecipientList(text: string) {
+  return text
+    .split(/\r?\n/)
+    .map(line => line.split(/[,;\t]/).map(cell => cell.trim().replace(/^"|"$/g, '')))
+    .filter(([email]) => email && email.includes('@'))
+    .map(([email, weight]) => ({ email, weight: weight ? Number(weight) || 0 : 1 }));
+}
+
+export function useHolderSnapshots(coinId: string) {
+  return useQuery({
+    queryKey: ['holder-snapshots', coinId],
+    staleTime: 1000 * 30,
+    queryFn: async (): Promise<HolderSnapshot[]> => {
+      const { data, error } = await supabase
+        .from('holder_snapshots')
+        .select('*')
+        .eq('coin_id', coinId)
+        .order('created_at', { ascending: false })
+        .limit(50);
+      if (error) throw error;
+      return data;
+    },
+  });
+}
+
+/** Polls while any airdrop is still paying out so progress moves on its own. */
+export function useAirdrops(coinId: string) {
+  return useQuery({
+    queryKey: ['airdrops', coinId],
+    staleTime: 1000 * 10,
+    refetchInterval: query => (query.state.data?.some(a => a.status === 'running') ? 5000 : false),
+    queryFn: async (): Promise<Airdrop[]> => {
+      const { data, error } = await supabase
+        .from('airdrops')
+        .select('*')
+        .eq('coin_id', coinId)
+        .order('created_at', { ascending: false })
+        .limit(50);
+      if (error) throw error;
+      return data;
+    },
+  });
+}
+
+export function useAirdropRecipients(airdropId: string | null, status: string | null) {
+  return useQuery({
+    queryKey: ['airdrop-recipients', airdropId, status],
+    enabled: !!airdropId,
+    staleTime: 1000 * 10,
+    queryFn: async (): Promise<AirdropRecipientResult[]> => {
+      const { data, error } = await supabase.rpc('get_airdrop_recipients', {
+        _airdrop_id: airdropId!,
+        _status: status ?? undefined,
+        _limit: 200,
+      });
+      if (error) throw error;
+      return data as unknown as AirdropRecipientResult[];
+    },
+  });
+}
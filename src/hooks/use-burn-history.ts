@@ -0,0 +1,33 @@
+import { useQuery } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+
+export interface BurnEvent {
+  id: string;
+  holder: string;
+  is_creator: boolean;
+  is_you: boolean;
+  amount: number;
+  price: number;
+  burned_at: string;
+}
+
+export interface BurnHistoryData {
+  burned_supply: number;
+  burned_pct: number | null;
+  burn_count: number;
+  burns: BurnEvent[];
+}
+
+/** Totals and latest burns for a coin. Pass the coin's live burned_supply so a new burn refetches. */
+export function useBurnHistory(coinId: string | undefined, burnedSupply?: number, limit = 20) {
+  return useQuery({
+    queryKey: ['burn-history', coinId, burnedSupply, limit],
+    enabled: !!coinId,
+    staleTime: 1000 * 60,
+    queryFn: async (): Promise<BurnHistoryData> => {
+      const { data, error } = await supabase.rpc('get_burn_history', { _coin_id: coinId!, _limit: limit });
+      if (error) throw error;
+      return data as unknown as BurnHistoryData;
+    },
+  });
+}
@@ -0,0 +1,78 @@
+import { useCallback, useEffect, useState } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import type { Json } from '@/integrations/supabase/types';
+
+export type ChartMode = 'area' | 'candles' | 'ohlc';
+export type OverlayIndicator = 'sma' | 'ema' | 'vwap' | 'bollinger';
+export type OscillatorIndicator = 'rsi' | 'macd';
+
+export interface ChartPreferences {
+  mode: ChartMode;
+  overlays: OverlayIndicator[];
+  oscillator: OscillatorIndicator | null;
+  showVolume: boolean;
+  showAvgBuy: boolean;
+}
+
+export const DEFAULT_CHART_PREFERENCES: ChartPreferences = {
+  mode: 'area',
+  overlays: [],
+  oscillator: null,
+  showVolume: true,
+  showAvgBuy: true,
+};
+
+const STORAGE_KEY = 'chart_preferences';
+
+const normalize = (raw: unknown): ChartPreferences => {
+  const value = (raw && typeof raw === 'object' ? raw : {}) as Partial<ChartPreferences>;
+  return { ...DEFAULT_CHART_PREFERENCES, ...value };
+};
+
+const readLocal = () => {
+  try {
+    return normalize(JSON.parse(localStorage.getItem(STORAGE_KEY) || '{}'));
+  } catch {
+    return DEFAULT_CHART_PREFERENCES;
+  }
+};
+
+/**
+ * Chart settings saved to the signed-in user's profile, with localStorage as
+ * the store for guests and the initial value before the profile loads.
+ */
+export function useChartPreferences(userId: string | undefined) {
+  const [prefs, setPrefs] = useState<ChartPreferences>(readLocal);
+
+  useEffect(() => {
+    if (!userId) return;
+    let cancelled = false;
+    (async () => {
+      const { data } = await supabase
+        .from('profiles')
+        .select('chart_preferences')
+        .eq('user_id', userId)
+        .maybeSingle();
+      const stored = data?.chart_preferences;
+      if (!cancelled && stored && Object.keys(stored as object).length > 0) {
+        setPrefs(normalize(stored));
+      }
+    })();
+    return () => { cancelled = true; };
+  }, [userId]);
+
+  const update = useCallback((patch: Partial<ChartPreferences>) => {
+    const next = { ...prefs, ...patch };
+    setPrefs(next);
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(next));
+    if (userId) {
+      supabase
+        .from('profiles')
+        .update({ chart_preferences: next as unknown as Json })
+        .eq('user_id', userId)
+        .then(({ error }) => { if (error) console.error('Failed to save chart preferences:', error.message); });
+    }
+  }, [prefs, userId]);
+
+  return { prefs, update };
+}
@@ -0,0 +1,62 @@
+import { useInfiniteQuery } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import type { Tables } from '@/integrations/supabase/types';
+
+export type CoinSort = 'market_cap' | 'volume_24h' | 'gainers' | 'losers' | 'newest' | 'relevance';
+
+export interface CoinSearchFilters {
+  query?: string;
+  sort?: CoinSort;
+  minPrice?: number;
+  maxPrice?: number;
+  minMarketCap?: number;
+  maxMarketCap?: number;
+  maxAgeHours?: number;
+  featured?: boolean;
+  trending?: boolean;
+  live?: boolean;
+}
+
+/** A coin row as returned by search_coins, with the 24h figures it computes. */
+export type SearchedCoin = Tables<'coins'> & {
+  price_change_24h: number;
+  volume_24h: number;
+  has_live: boolean;
+};
+
+export interface CoinSearchPage {
+  coins: SearchedCoin[];
+  next_cursor: string | null;
+}
+
+export async function searchCoins(filters: CoinSearchFilters, cursor?: string | null, limit = 30): Promise<CoinSearchPage> {
+  const { data, error } = await supabase.rpc('search_coins', {
+    _query: filters.query?.trim() || undefined,
+    _sort: filters.sort,
+    _min_price: filters.minPrice,
+    _max_price: filters.maxPrice,
+    _min_market_cap: filters.minMarketCap,
+    _max_market_cap: filters.maxMarketCap,
+    _max_age_hours: filters.maxAgeHours,
+    _featured: filters.featured,
+    _trending: filters.trending,
+    _live: filters.live,
+    _cursor: cursor || undefined,
+    _limit: limit,
+  });
+  if (error) throw error;
+  return data as unknown as CoinSearchPage;
+}
+
+/**
+ * Server-side coin search, a page at a time. Lives under the ['coins'] query
+ * key so the launchpad's realtime patching reaches these rows too.
+ */
+export function useCoinSearch(filters: CoinSearchFilters, pageSize = 30) {
+  return useInfiniteQuery({
+    queryKey: ['coins', 'search', filters, pageSize],
+    initialPageParam: null as string | null,
+    queryFn: ({ pageParam }) => searchCoins(filters, pageParam, pageSize),
+    getNextPageParam: (last) => last.next_cursor,
+  });
+}
@@ -0,0 +1,122 @@
+import { useQuery, keepPreviousData } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+
+export interface CreatorCoinSummary {
+  id: string;
+  name: string;
+  symbol: string;
+  logo_url: string | null;
+  price: number;
+  market_cap: number | null;
+  is_approved: boolean;
+  holders: number;
+  holders_change: number;
+  volume: number;
+  trades: number;
+  traders: number;
+  live_volume: number;
+  earnings: number;
+  earnings_total: number;
+}
+
+export interface CreatorDashboardData {
+  days: number;
+  since: string;
+  earnings_tracked_since: string | null;
+  totals: {
+    coins: number;
+    holders: number;
+    volume: number;
+    trades: number;
+    live_volume: number;
+    earnings: number;
+    earnings_total: number;
+  };
+  coins: CreatorCoinSummary[];
+  daily: { day: string; volume: number; earnings: number }[];
+}
+
+export interface CreatorStreamStats {
+  id: string;
+  title: string | null;
+  is_active: boolean;
+  started_at: string;
+  ended_at: string;
+  trades: number;
+  volume: number;
+  buyers: number;
+  new_holders: number;
+  earnings: number;
+  volume_per_hour: number;
+}
+
+export interface CreatorCoinInsights {
+  days: number;
+  since: string;
+  volume_per_hour: number;
+  daily: { day: string; volume: number; buys: number; sells: number; earnings: number; holders: number }[];
+  top_buyers: { alias: string; spent: number; bought: number; buys: number; holding: number }[];
+  streams: CreatorStreamStats[];
+}
+
+export interface CreatorPayout {
+  id: string;
+  created_at: string;
+  coin_id: string;
+  symbol: string;
+  source: 'trade' | 'mpesa_buy';
+  trade_type: 'buy' | 'sell';
+  trade_value: number;
+  commission_rate: number;
+  amount: number;
+  balance_after: number | null;
+  transaction_id: string | null;
+}
+
+export interface CreatorPayoutPage {
+  total_count: number;
+  total_amount: number;
+  payouts: CreatorPayout[];
+}
+
+export function useCreatorDashboard(days: number) {
+  return useQuery({
+    queryKey: ['creator-dashboard', days],
+    staleTime: 1000 * 60,
+    queryFn: async (): Promise<CreatorDashboardData> => {
+      const { data, error } = await supabase.rpc('get_creator_dashboard', { _days: days });
+      if (error) throw error;
+      return data as unknown as CreatorDashboardData;
+    },
+  });
+}
+
+export function useCreatorCoinInsights(coinId: string | null, days: number) {
+  return useQuery({
+    queryKey: ['creator-coin-insights', coinId, days],
+    enabled: !!coinId,
+    staleTime: 1000 * 60,
+    queryFn: async (): Promise<CreatorCoinInsights> => {
+      const { data, error } = await supabase.rpc('get_creator_coin_insights', { _coin_id: coinId!, _days: days });
+      if (error) throw error;
+      return data as unknown as CreatorCoinInsights;
+    },
+  });
+}
+
+export function useCreatorPayouts(coinId: string | null, page: number, pageSize = 25) {
+  return useQuery({
+    queryKey: ['creator-payouts', coinId, page, pageSize],
+    staleTime: 1000 * 30,
+    placeholderData: keepPreviousData,
+    queryFn: async (): Promise<CreatorPayoutPage> => {
+      const { data, error } = await supabase.rpc('get_creator_payouts', {
+        _coin_id: coinId ?? undefined,
+        _limit: pageSize,
+        _offset: page * pageSize,
+      });
+      if (error) throw error;
+      return data as unknown as CreatorPayoutPage;
+    },
+  });
+}
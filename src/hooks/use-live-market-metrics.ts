@@ -1,11 +1,12 @@
 import { useEffect, useState, useCallback } from 'react';
 import { supabase } from '@/integrations/supabase/client';
+import { fetchPriceCandles, type PriceCandle } from '@/hooks/use-price-candles';
 
 export interface LiveMarketMetrics {
   priceChange24h: number;     // %
   volume24h: number;           // sum of trade volumes
   liquidityKes: number;        // last-hour rolling notional turnover (proxy)
-  volatilityPct: number;       // stdev / mean * 100 over last 24h
+  volatilityPct: number;       // stdev / mean * 100 of 5m closes over last 24h
   holders: number;             // distinct holders from holdings
   loaded: boolean;
 }
@@ -15,25 +16,19 @@ const ZERO: LiveMarketMetrics = {
 };
 
 /**
- * Computes 100% market-driven metrics from price_history + holdings.
- * Excludes 'drift' rows so trader activity defines the metric.
+ * Computes 100% market-driven metrics from 5m market candles + holdings.
+ * Drift candles are never requested so trader activity defines the metric.
  */
 export function useLiveMarketMetrics(coinId: string | undefined, currentPrice: number, enabled: boolean) {
   const [metrics, setMetrics] = useState<LiveMarketMetrics>(ZERO);
 
   const recompute = useCallback(async () => {
     if (!coinId || !enabled) return;
-    const since24h = new Date(Date.now() - 24 * 60 * 60 * 1000).toISOString();
-    const since1h = new Date(Date.now() - 60 * 60 * 1000).toISOString();
+    const since24h = new Date(Date.now() - 24 * 60 * 60 * 1000);
+    const since1h = new Date(Date.now() - 60 * 60 * 1000).getTime();
 
-    const [{ data: hist24 }, { data: holdersRows }] = await Promise.all([
-      supabase
-        .from('price_history')
-        .select('price, volume, created_at, trade_type')
-        .eq('coin_id', coinId)
-        .gte('created_at', since24h)
-        .order('created_at', { ascending: true })
-        .limit(2000),
+    const [candles, { data: holdersRows }] = await Promise.all([
+      fetchPriceCandles(coinId, '5m', since24h).catch((): PriceCandle[] => []),
       supabase
         .from('holdings')
         .select('user_id', { count: 'exact', head: true })
@@ -41,25 +36,25 @@ export function useLiveMarketMetrics(coinId: string | undefined, currentPrice: n
         .gt('amount', 0),
     ]);
 
-    const trades = (hist24 || []).filter((r: any) => r.trade_type !== 'drift');
     let priceChange24h = 0;
     let volume24h = 0;
     let liquidity = 0;
     let volatility = 0;
 
-    if (trades.length >= 2) {
-      const first = Number(trades[0].price) || currentPrice;
-      const last = Number(trades[trades.length - 1].price) || currentPrice;
+    const tradeCount = candles.reduce((s, c) => s + c.trade_count, 0);
+    if (candles.length > 0 && tradeCount >= 2) {
+      const first = candles[0].open || currentPrice;
+      const last = candles[candles.length - 1].close || currentPrice;
       priceChange24h = first > 0 ? ((last - first) / first) * 100 : 0;
-      volume24h = trades.reduce((s, r: any) => s + Number(r.volume || 0), 0);
+      volume24h = candles.reduce((s, c) => s + c.volume, 0);
 
-      // liquidity = last-hour notional turnover (price * volume)
-      liquidity = trades
-        .filter((r: any) => r.created_at >= since1h)
-        .reduce((s, r: any) => s + Number(r.price) * Number(r.volume || 0), 0);
+      // liquidity = last-hour notional turnover (close * volume per candle)
+      liquidity = candles
+        .filter((c) => new Date(c.bucket_start).getTime() >= since1h)
+        .reduce((s, c) => s + c.close * c.volume, 0);
 
-      // volatility: stdev/mean * 100 of trade prices
-      const prices = trades.map((r: any) => Number(r.price));
+      // volatility: stdev/mean * 100 of candle closes
+      const prices = candles.map((c) => c.close);
       const mean = prices.reduce((a, b) => a + b, 0) / prices.length;
       const variance = prices.reduce((s, p) => s + (p - mean) ** 2, 0) / prices.length;
       volatility = mean > 0 ? (Math.sqrt(variance) / mean) * 100 : 0;
@@ -0,0 +1,74 @@
+import { useEffect, useState, useCallback } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+
+export interface DepthLevel {
+  price: number;
+  amount: number;
+  total: number;       // cumulative amount from the best price outwards
+  orders: number;
+}
+
+interface LevelRow {
+  side: string;
+  price: number;
+  amount: number;
+  order_count: number;
+}
+
+/**
+ * Orders aggregated levels best-first (lowest ask / highest bid) and adds
+ * the cumulative depth used for the bar widths.
+ */
+export function buildDepth(rows: LevelRow[], side: 'buy' | 'sell', limit = 12): DepthLevel[] {
+  const levels = rows
+    .filter(r => r.side === side && Number(r.amount) > 0)
+    .map(r => ({ price: Number(r.price), amount: Number(r.amount), orders: Number(r.order_count) }))
+    .sort((a, b) => (side === 'sell' ? a.price - b.price : b.price - a.price))
+    .slice(0, limit);
+
+  let cum = 0;
+  return levels.map(l => {
+    cum += l.amount;
+    return { ...l, total: cum };
+  });
+}
+
+/**
+ * Live depth for a coin from order_book_levels (resting limit orders only).
+ * Emptied levels are zeroed rather than deleted, since realtime drops DELETE
+ * events for filtered subscriptions; buildDepth skips them.
+ */
+export function useOrderBook(coinId: string | undefined, limit = 12) {
+  const [asks, setAsks] = useState<DepthLevel[]>([]);
+  const [bids, setBids] = useState<DepthLevel[]>([]);
+  const [loaded, setLoaded] = useState(false);
+
+  const load = useCallback(async () => {
+    if (!coinId) return;
+    const { data } = await supabase
+      .from('order_book_levels')
+      .select('side, price, amount, order_count')
+      .eq('coin_id', coinId);
+    const rows = (data || []) as LevelRow[];
+    setAsks(buildDepth(rows, 'sell', limit));
+    setBids(buildDepth(rows, 'buy', limit));
+    setLoaded(true);
+  }, [coinId, limit]);
+
+  useEffect(() => {
+    if (!coinId) return;
+    load();
+
+    const channel = supabase
+      .channel(`order-book-${coinId}`)
+      .on('postgres_changes', {
+        event: '*', schema: 'public', table: 'order_book_levels',
+        filter: `coin_id=eq.${coinId}`,
+      }, () => { load(); })
+      .subscribe();
+
+    return () => { supabase.removeChannel(channel); };
+  }, [coinId, load]);
+
+  return { asks, bids, loaded, reload: load };
+}
@@ -0,0 +1,45 @@
+import { supabase } from '@/integrations/supabase/client';
+
+export type CandleInterval = '1m' | '5m' | '15m' | '1h' | '4h' | '1d';
+
+export interface PriceCandle {
+  bucket_start: string;
+  open: number;
+  high: number;
+  low: number;
+  close: number;
+  volume: number;
+  trade_count: number;
+  has_drift: boolean;
+}
+
+/**
+ * Server-aggregated OHLCV for a coin. Drift candles are left out unless
+ * `includeDrift` is set, so by default the series is market trades only.
+ */
+export async function fetchPriceCandles(
+  coinId: string,
+  interval: CandleInterval,
+  from: Date,
+  to: Date = new Date(),
+  includeDrift = false,
+) {
+  const { data, error } = await supabase.rpc('get_price_candles', {
+    _coin_id: coinId,
+    _interval: interval,
+    _from: from.toISOString(),
+    _to: to.toISOString(),
+    _include_drift: includeDrift,
+  });
+  if (error) throw error;
+  return (data || []).map((c): PriceCandle => ({
+    bucket_start: c.bucket_start,
+    open: Number(c.open),
+    high: Number(c.high),
+    low: Number(c.low),
+    close: Number(c.close),
+    volume: Number(c.volume || 0),
+    trade_count: Number(c.trade_count || 0),
+    has_drift: !!c.has_drift,
+  }));
+}
@@ -1,5 +1,7 @@
-import { useState, useEffect, useCallback } from 'react';
+import { useState, useEffect, useCallback, useMemo } from 'react';
+import { useQuery, useQueryClient } from '@tanstack/react-query';
 import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/lib/auth-context';
 import { toast } from 'sonner';
 
 const VAPID_STORAGE_KEY = 'push-notifications-enabled';
@@ -66,68 +68,182 @@ export function usePushNotifications(userId?: string) {
   return { isSupported, isEnabled, permission, requestPermission, disable, sendLocalNotification };
 }
 
-// Price alert types  
+export type PriceAlertKind = 'price_above' | 'price_below' | 'change_up' | 'change_down';
+export type AlertChannel = 'push' | 'email' | 'sms' | 'whatsapp' | 'telegram';
+
 export interface PriceAlert {
   id: string;
+  coin_id: string;
+  kind: PriceAlertKind;
+  target_price: number | null;
+  change_pct: number | null;
+  reference_price: number | null;
+  repeat: boolean;
+  cooldown_minutes: number;
+  channels: AlertChannel[];
+  is_active: boolean;
+  trigger_count: number;
+  last_triggered_at: string | null;
+  created_at: string;
+}
+
+export interface NewPriceAlert {
+  coin_id: string;
+  kind: PriceAlertKind;
+  target_price?: number;
+  change_pct?: number;
+  repeat?: boolean;
+  cooldown_minutes?: number;
+  channels?: AlertChannel[];
+}
+
+export interface PriceAlertEvent {
+  id: string;
+  alert_id: string;
+  coin_id: string;
+  kind: PriceAlertKind;
+  price: number;
+  target_price: number | null;
+  reference_price: number | null;
+  change_pct: number | null;
+  channels: AlertChannel[];
+  created_at: string;
+}
+
+/** Short description of what an alert (or an event it produced) watches for. */
+export function describeAlert(a: Pick<PriceAlert, 'kind' | 'target_price' | 'change_pct'>) {
+  switch (a.kind) {
+    case 'price_above': return `above KES ${a.target_price}`;
+    case 'price_below': return `below KES ${a.target_price}`;
+    case 'change_up': return `up ${a.change_pct}%`;
+    case 'change_down': return `down ${a.change_pct}%`;
+  }
+}
+
+/**
+ * The signed-in user's price alerts, optionally for one coin. Alerts are
+ * stored server-side and checked on every price change, so they fire whether
+ * or not the coin page is open.
+ */
+export function usePriceAlerts(coinId?: string) {
+  const { user } = useAuth();
+  const queryClient = useQueryClient();
+  const queryKey = useMemo(() => ['price-alerts', user?.id, coinId], [user?.id, coinId]);
+
+  const { data: alerts = [], isLoading } = useQuery({
+    queryKey,
+    enabled: !!user,
+    queryFn: async (): Promise<PriceAlert[]> => {
+      let query = supabase
+        .from('price_alerts')
+        .select('id, coin_id, kind, target_price, change_pct, reference_price, repeat, cooldown_minutes, channels, is_active, trigger_count, last_triggered_at, created_at')
+        .order('created_at', { ascending: false });
+      if (coinId) query = query.eq('coin_id', coinId);
+      const { data, error } = await query;
+      if (error) throw error;
+      return (data || []) as PriceAlert[];
+    },
+  });
+
+  const refresh = useCallback(
+    () => queryClient.invalidateQueries({ queryKey: ['price-alerts', user?.id] }),
+    [queryClient, user?.id],
+  );
+
+  const addAlert = useCallback(async (alert: NewPriceAlert) => {
+    if (!user) throw new Error('Sign in to set price alerts');
+    const { error } = await supabase.from('price_alerts').insert({ ...alert, user_id: user.id });
+    if (error) throw error;
+    await refresh();
+  }, [user, refresh]);
+
+  const removeAlert = useCallback(async (id: string) => {
+    const { error } = await supabase.from('price_alerts').delete().eq('id', id);
+    if (error) throw error;
+    await refresh();
+  }, [refresh]);
+
+  /** Re-enabling a change alert measures from the current price again. */
+  const toggleAlert = useCallback(async (alert: PriceAlert) => {
+    const { error } = await supabase
+      .from('price_alerts')
+      .update({
+        is_active: !alert.is_active,
+        ...(!alert.is_active && alert.change_pct != null ? { reference_price: null } : {}),
+      })
+      .eq('id', alert.id);
+    if (error) throw error;
+    await refresh();
+  }, [refresh]);
+
+  return { alerts, isLoading, signedIn: !!user, addAlert, removeAlert, toggleAlert };
+}
+
+// Alerts from before they were stored server-side
+const LEGACY_ALERTS_KEY = 'price-alerts';
+
+interface LegacyPriceAlert {
   coinId: string;
-  coinName: string;
-  coinSymbol: string;
   targetPrice: number;
   direction: 'above' | 'below';
   isActive: boolean;
-  createdAt: string;
 }
 
-const ALERTS_KEY = 'price-alerts';
-
-export function usePriceAlerts() {
-  const [alerts, setAlerts] = useState<PriceAlert[]>([]);
+/**
+ * App-wide listener: shows a toast and a browser notification for each alert
+ * the server fires, and moves any alerts still in localStorage to the server.
+ */
+export function usePriceAlertEvents() {
+  const { user } = useAuth();
+  const queryClient = useQueryClient();
+  const { sendLocalNotification } = usePushNotifications(user?.id);
 
   useEffect(() => {
-    const stored = localStorage.getItem(ALERTS_KEY);
-    if (stored) setAlerts(JSON.parse(stored));
-  }, []);
-
-  const save = (newAlerts: PriceAlert[]) => {
-    setAlerts(newAlerts);
-    localStorage.setItem(ALERTS_KEY, JSON.stringify(newAlerts));
-  };
-
-  const addAlert = (alert: Omit<PriceAlert, 'id' | 'isActive' | 'createdAt'>) => {
-    const newAlert: PriceAlert = {
-      ...alert,
-      id: crypto.randomUUID(),
-      isActive: true,
-      createdAt: new Date().toISOString(),
-    };
-    save([...alerts, newAlert]);
-    return newAlert;
-  };
-
-  const removeAlert = (id: string) => {
-    save(alerts.filter(a => a.id !== id));
-  };
-
-  const toggleAlert = (id: string) => {
-    save(alerts.map(a => a.id === id ? { ...a, isActive: !a.isActive } : a));
-  };
-
-  const checkAlerts = (coinId: string, currentPrice: number) => {
-    const triggered: PriceAlert[] = [];
-    const remaining = alerts.map(alert => {
-      if (!alert.isActive || alert.coinId !== coinId) return alert;
-      const hit = alert.direction === 'above'
-        ? currentPrice >= alert.targetPrice
-        : currentPrice <= alert.targetPrice;
-      if (hit) {
-        triggered.push(alert);
-        return { ...alert, isActive: false };
-      }
-      return alert;
-    });
-    if (triggered.length > 0) save(remaining);
-    return triggered;
-  };
+    if (!user) return;
+    const stored = localStorage.getItem(LEGACY_ALERTS_KEY);
+    if (!stored) return;
+    let legacy: LegacyPriceAlert[] = [];
+    try {
+      legacy = (JSON.parse(stored) as LegacyPriceAlert[]).filter(a => a.isActive && a.targetPrice > 0);
+    } catch {
+      // Unreadable leftovers are dropped
+    }
+    const rows = legacy.map(a => ({
+      user_id: user.id,
+      coin_id: a.coinId,
+      kind: a.direction === 'above' ? 'price_above' : 'price_below',
+      target_price: a.targetPrice,
+    }));
+    (rows.length ? supabase.from('price_alerts').insert(rows) : Promise.resolve({ error: null }))
+      .then(({ error }) => {
+        if (error) {
+          console.error('Failed to move saved price alerts:', error);
+          return;
+        }
+        localStorage.removeItem(LEGACY_ALERTS_KEY);
+        if (rows.length) queryClient.invalidateQueries({ queryKey: ['price-alerts', user.id] });
+      });
+  }, [user, queryClient]);
 
-  return { alerts, addAlert, removeAlert, toggleAlert, checkAlerts };
+  useEffect(() => {
+    if (!user) return;
+    const channel = supabase
+      .channel(`price-alert-events-${user.id}`)
+      .on('postgres_changes', { event: 'INSERT', schema: 'public', table: 'price_alert_events', filter: `user_id=eq.${user.id}` },
+        async (payload) => {
+          const event = payload.new as PriceAlertEvent;
+          queryClient.invalidateQueries({ queryKey: ['price-alerts', user.id] });
+          if (!event.channels.includes('push')) return;
+          const { data: coin } = await supabase.from('coins').select('symbol').eq('id', event.coin_id).maybeSingle();
+          const symbol = coin?.symbol || 'Coin';
+          const condition = event.change_pct != null
+            ? `${event.change_pct >= 0 ? 'up' : 'down'} ${Math.abs(event.change_pct)}%`
+            : describeAlert(event);
+          const body = `${symbol} is ${condition}. Current: KES ${Number(event.price).toFixed(6)}`;
+          sendLocalNotification(`🔔 ${symbol} Price Alert`, body);
+          toast.info(body);
+        })
+      .subscribe();
+    return () => { supabase.removeChannel(channel); };
+  }, [user, queryClient, sendLocalNotification]);
 }
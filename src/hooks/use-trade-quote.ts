@@ -0,0 +1,76 @@
+import { useEffect, useState } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+
+export interface TradeQuote {
+  ok: boolean;
+  error?: string;
+  trade_type: 'buy' | 'sell';
+  amount: number;
+  spot_price: number;
+  average_price: number;
+  total_value: number;
+  fee: number;
+  fee_pct: number;
+  creator_commission: number;
+  creator_commission_pct: number;
+  net_total: number;
+  new_price: number;
+  price_impact_pct: number;
+}
+
+/** Quoted average price the trader confirmed and the worst adverse move they accept. */
+export interface SlippageGuard {
+  expectedPrice: number;
+  maxSlippagePct: number;
+}
+
+/** True when `price` is worse than the guard allows for this side. */
+export function exceedsSlippage(side: 'buy' | 'sell', price: number, guard: SlippageGuard) {
+  return side === 'buy'
+    ? price > guard.expectedPrice * (1 + guard.maxSlippagePct / 100)
+    : price < guard.expectedPrice * (1 - guard.maxSlippagePct / 100);
+}
+
+export async function fetchTradeQuote(coinId: string, tradeType: 'buy' | 'sell', amount: number) {
+  const { data, error } = await supabase.rpc('quote_trade', {
+    _coin_id: coinId,
+    _trade_type: tradeType,
+    _amount: amount,
+  });
+  if (error) throw error;
+  return data as unknown as TradeQuote;
+}
+
+/**
+ * Debounced server-side quote (curve-integrated average price and impact)
+ * for a market trade of `amount` coins.
+ */
+export function useTradeQuote(coinId: string | undefined, tradeType: 'buy' | 'sell', amount: number, enabled = true) {
+  const [quote, setQuote] = useState<TradeQuote | null>(null);
+  const [loading, setLoading] = useState(false);
+
+  useEffect(() => {
+    if (!coinId || !enabled || !(amount > 0)) {
+      setQuote(null);
+      setLoading(false);
+      return;
+    }
+
+    let cancelled = false;
+    setLoading(true);
+    const timer = setTimeout(async () => {
+      try {
+        const result = await fetchTradeQuote(coinId, tradeType, amount);
+        if (!cancelled) setQuote(result);
+      } catch {
+        if (!cancelled) setQuote(null);
+      } finally {
+        if (!cancelled) setLoading(false);
+      }
+    }, 300);
+
+    return () => { cancelled = true; clearTimeout(timer); };
+  }, [coinId, tradeType, amount, enabled]);
+
+  return { quote, loading };
+}
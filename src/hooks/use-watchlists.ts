@@ -0,0 +1,90 @@
+import { useCallback, useMemo } from 'react';
+import { useQuery, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/lib/auth-context';
+
+export interface Watchlist {
+  id: string;
+  name: string;
+  created_at: string;
+  coinIds: string[];
+}
+
+interface ToggleResult {
+  watchlist_id: string;
+  watching: boolean;
+}
+
+/**
+ * The signed-in user's watchlists, oldest first. Shared through the query
+ * cache, so every star on a page reads the same copy.
+ */
+export function useWatchlists() {
+  const { user } = useAuth();
+  const queryClient = useQueryClient();
+  const queryKey = useMemo(() => ['watchlists', user?.id], [user?.id]);
+
+  const { data: watchlists = [], isLoading } = useQuery({
+    queryKey,
+    enabled: !!user,
+    queryFn: async (): Promise<Watchlist[]> => {
+      const { data, error } = await supabase
+        .from('watchlists')
+        .select('id, name, created_at, watchlist_items(coin_id, added_at)')
+        .order('created_at', { ascending: true });
+      if (error) throw error;
+      return (data || []).map(w => ({
+        id: w.id,
+        name: w.name,
+        created_at: w.created_at,
+        coinIds: [...(w.watchlist_items || [])]
+          .sort((a, b) => a.added_at.localeCompare(b.added_at))
+          .map(i => i.coin_id),
+      }));
+    },
+  });
+
+  const refresh = useCallback(() => queryClient.invalidateQueries({ queryKey }), [queryClient, queryKey]);
+
+  const isWatched = useCallback(
+    (coinId: string) => watchlists.some(w => w.coinIds.includes(coinId)),
+    [watchlists],
+  );
+
+  /** Adds or removes the coin; without a list id this uses the first list, creating it if needed. */
+  const toggleCoin = useCallback(async (coinId: string, watchlistId?: string) => {
+    const { data, error } = await supabase.rpc('toggle_watchlist_coin', {
+      _coin_id: coinId,
+      _watchlist_id: watchlistId,
+    });
+    if (error) throw error;
+    await refresh();
+    return data as unknown as ToggleResult;
+  }, [refresh]);
+
+  const createList = useCallback(async (name: string) => {
+    if (!user) throw new Error('Sign in to create a watchlist');
+    const { data, error } = await supabase
+      .from('watchlists')
+      .insert({ user_id: user.id, name: name.trim() })
+      .select('id')
+      .single();
+    if (error) throw error;
+    await refresh();
+    return data.id;
+  }, [user, refresh]);
+
+  const renameList = useCallback(async (id: string, name: string) => {
+    const { error } = await supabase.from('watchlists').update({ name: name.trim() }).eq('id', id);
+    if (error) throw error;
+    await refresh();
+  }, [refresh]);
+
+  const deleteList = useCallback(async (id: string) => {
+    const { error } = await supabase.from('watchlists').delete().eq('id', id);
+    if (error) throw error;
+    await refresh();
+  }, [refresh]);
+
+  return { watchlists, isLoading, signedIn: !!user, isWatched, toggleCoin, createList, renameList, deleteList };
+}
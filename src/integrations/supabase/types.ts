@@ -14,6 +14,206 @@ export type Database = {
   }
   public: {
     Tables: {
+      airdrop_recipients: {
+        Row: {
+          airdrop_id: string
+          amount: number
+          email: string | null
+          error: string | null
+          id: string
+          notified_at: string | null
+          processed_at: string | null
+          status: string
+          transaction_id: string | null
+          user_id: string | null
+          weight: number
+        }
+        Insert: {
+          airdrop_id: string
+          amount: number
+          email?: string | null
+          error?: string | null
+          id?: string
+          notified_at?: string | null
+          processed_at?: string | null
+          status?: string
+          transaction_id?: string | null
+          user_id?: string | null
+          weight: number
+        }
+        Update: {
+          airdrop_id?: string
+          amount?: number
+          email?: string | null
+          error?: string | null
+          id?: string
+          notified_at?: string | null
+          processed_at?: string | null
+          status?: string
+          transaction_id?: string | null
+          user_id?: string | null
+          weight?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "airdrop_recipients_airdrop_id_fkey"
+            columns: ["airdrop_id"]
+            isOneToOne: false
+            referencedRelation: "airdrops"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "airdrop_recipients_transaction_id_fkey"
+            columns: ["transaction_id"]
+            isOneToOne: false
+            referencedRelation: "transactions"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      airdrops: {
+        Row: {
+          asset: string
+          coin_id: string
+          completed_at: string | null
+          created_at: string
+          created_by: string
+          distributed_amount: number
+          distribution: string
+          escrowed: number
+          failed_count: number
+          id: string
+          message: string | null
+          recipient_count: number
+          sent_count: number
+          skipped_count: number
+          snapshot_id: string | null
+          status: string
+          total_amount: number
+          updated_at: string
+        }
+        Insert: {
+          asset: string
+          coin_id: string
+          completed_at?: string | null
+          created_at?: string
+          created_by: string
+          distributed_amount?: number
+          distribution: string
+          escrowed?: number
+          failed_count?: number
+          id?: string
+          message?: string | null
+          recipient_count?: number
+          sent_count?: number
+          skipped_count?: number
+          snapshot_id?: string | null
+          status?: string
+          total_amount: number
+          updated_at?: string
+        }
+        Update: {
+          asset?: string
+          coin_id?: string
+          completed_at?: string | null
+          created_at?: string
+          created_by?: string
+          distributed_amount?: number
+          distribution?: string
+          escrowed?: number
+          failed_count?: number
+          id?: string
+          message?: string | null
+          recipient_count?: number
+          sent_count?: number
+          skipped_count?: number
+          snapshot_id?: string | null
+          status?: string
+          total_amount?: number
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "airdrops_coin_id_fkey"
+            columns: ["coin_id"]
+            isOneToOne: false
+            referencedRelation: "coins"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "airdrops_snapshot_id_fkey"
+            columns: ["snapshot_id"]
+            isOneToOne: false
+            referencedRelation: "holder_snapshots"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      api_keys: {
+        Row: {
+          created_at: string
+          id: string
+          key_hash: string
+          key_prefix: string
+          last_used_at: string | null
+          name: string
+          rate_limit_per_minute: number
+          request_count: number
+          revoked_at: string | null
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          key_hash: string
+          key_prefix: string
+          last_used_at?: string | null
+          name: string
+          rate_limit_per_minute?: number
+          request_count?: number
+          revoked_at?: string | null
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          key_hash?: string
+          key_prefix?: string
+          last_used_at?: string | null
+          name?: string
+          rate_limit_per_minute?: number
+          request_count?: number
+          revoked_at?: string | null
+          user_id?: string
+        }
+        Relationships: []
+      }
+      api_rate_limits: {
+        Row: {
+          key_id: string
+          request_count: number
+          window_start: string
+        }
+        Insert: {
+          key_id: string
+          request_count?: number
+          window_start: string
+        }
+        Update: {
+          key_id?: string
+          request_count?: number
+          window_start?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "api_rate_limits_key_id_fkey"
+            columns: ["key_id"]
+            isOneToOne: false
+            referencedRelation: "api_keys"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       blocked_words: {
         Row: {
           created_at: string
@@ -32,11 +232,165 @@ export type Database = {
         }
         Relationships: []
       }
+      circuit_breaker_trips: {
+        Row: {
+          coin_id: string
+          created_at: string
+          id: string
+          message: string
+          move_pct: number | null
+          notified_at: string | null
+          reason: string
+          resolved_at: string | null
+          resolved_by: string | null
+          resumes_at: string | null
+          wallet_share_pct: number | null
+          wallet_user_id: string | null
+          window_minutes: number
+          window_volume: number
+        }
+        Insert: {
+          coin_id: string
+          created_at?: string
+          id?: string
+          message: string
+          move_pct?: number | null
+          notified_at?: string | null
+          reason: string
+          resolved_at?: string | null
+          resolved_by?: string | null
+          resumes_at?: string | null
+          wallet_share_pct?: number | null
+          wallet_user_id?: string | null
+          window_minutes: number
+          window_volume?: number
+        }
+        Update: {
+          coin_id?: string
+          created_at?: string
+          id?: string
+          message?: string
+          move_pct?: number | null
+          notified_at?: string | null
+          reason?: string
+          resolved_at?: string | null
+          resolved_by?: string | null
+          resumes_at?: string | null
+          wallet_share_pct?: number | null
+          wallet_user_id?: string | null
+          window_minutes?: number
+          window_volume?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "circuit_breaker_trips_coin_id_fkey"
+            columns: ["coin_id"]
+            isOneToOne: false
+            referencedRelation: "coins"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      coin_holder_counts: {
+        Row: {
+          coin_id: string
+          day: string
+          holders: number
+        }
+        Insert: {
+          coin_id: string
+          day: string
+          holders: number
+        }
+        Update: {
+          coin_id?: string
+          day?: string
+          holders?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "coin_holder_counts_coin_id_fkey"
+            columns: ["coin_id"]
+            isOneToOne: false
+            referencedRelation: "coins"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      coin_holder_stats: {
+        Row: {
+          coin_id: string
+          computed_at: string
+          is_stale: boolean
+          stats: Json
+        }
+        Insert: {
+          coin_id: string
+          computed_at?: string
+          is_stale?: boolean
+          stats: Json
+        }
+        Update: {
+          coin_id?: string
+          computed_at?: string
+          is_stale?: boolean
+          stats?: Json
+        }
+        Relationships: [
+          {
+            foreignKeyName: "coin_holder_stats_coin_id_fkey"
+            columns: ["coin_id"]
+            isOneToOne: false
+            referencedRelation: "coins"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      coin_leaderboards: {
+        Row: {
+          board: string
+          coin_id: string
+          computed_at: string
+          period: string
+          rank: number
+          trade_count: number | null
+          value: number
+        }
+        Insert: {
+          board: string
+          coin_id: string
+          computed_at?: string
+          period: string
+          rank: number
+          trade_count?: number | null
+          value: number
+        }
+        Update: {
+          board?: string
+          coin_id?: string
+          computed_at?: string
+          period?: string
+          rank?: number
+          trade_count?: number | null
+          value?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "coin_leaderboards_coin_id_fkey"
+            columns: ["coin_id"]
+            isOneToOne: false
+            referencedRelation: "coins"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       coins: {
         Row: {
           approval_status: string | null
           bonding_curve_factor: number
           burned_supply: number
+          circuit_breaker_reason: string | null
+          circuit_breaker_until: string | null
           circulating_supply: number
           circulating_supply_override: number | null
           contract_address: string | null
@@ -45,6 +399,7 @@ export type Database = {
           creator_id: string | null
           description: string | null
           discord_url: string | null
+          graduated_at: string | null
           holders_count: number
           holders_override: number | null
           id: string
@@ -52,18 +407,30 @@ export type Database = {
           is_active: boolean
           is_approved: boolean
           is_featured: boolean
+          is_graduated: boolean
           is_trending: boolean
           liquidity: number
           liquidity_override: number | null
           logo_url: string | null
           market_cap: number | null
           market_cap_override: number | null
+          market_maker_budget_kes: number
+          market_maker_enabled: boolean
+          market_maker_max_inventory: number
+          market_maker_params: Json
+          market_maker_strategy: string
           name: string
+          pool_quote_reserve: number | null
+          pool_token_reserve: number | null
           price: number
           price_change_24h_override: number | null
           symbol: string
           telegram_url: string | null
           total_supply: number
+          trade_limit_cooldown_seconds: number | null
+          trade_limit_kes_per_day: number | null
+          trade_limit_kes_per_hour: number | null
+          trade_limit_max_holding_pct: number | null
           trading_paused: boolean
           twitter_url: string | null
           updated_at: string
@@ -82,6 +449,8 @@ export type Database = {
           approval_status?: string | null
           bonding_curve_factor?: number
           burned_supply?: number
+          circuit_breaker_reason?: string | null
+          circuit_breaker_until?: string | null
           circulating_supply?: number
           circulating_supply_override?: number | null
           contract_address?: string | null
@@ -90,6 +459,7 @@ export type Database = {
           creator_id?: string | null
           description?: string | null
           discord_url?: string | null
+          graduated_at?: string | null
           holders_count?: number
           holders_override?: number | null
           id?: string
@@ -97,18 +467,30 @@ export type Database = {
           is_active?: boolean
           is_approved?: boolean
           is_featured?: boolean
+          is_graduated?: boolean
           is_trending?: boolean
           liquidity?: number
           liquidity_override?: number | null
           logo_url?: string | null
           market_cap?: number | null
           market_cap_override?: number | null
+          market_maker_budget_kes?: number
+          market_maker_enabled?: boolean
+          market_maker_max_inventory?: number
+          market_maker_params?: Json
+          market_maker_strategy?: string
           name: string
+          pool_quote_reserve?: number | null
+          pool_token_reserve?: number | null
           price?: number
           price_change_24h_override?: number | null
           symbol: string
           telegram_url?: string | null
           total_supply?: number
+          trade_limit_cooldown_seconds?: number | null
+          trade_limit_kes_per_day?: number | null
+          trade_limit_kes_per_hour?: number | null
+          trade_limit_max_holding_pct?: number | null
           trading_paused?: boolean
           twitter_url?: string | null
           updated_at?: string
@@ -127,6 +509,8 @@ export type Database = {
           approval_status?: string | null
           bonding_curve_factor?: number
           burned_supply?: number
+          circuit_breaker_reason?: string | null
+          circuit_breaker_until?: string | null
           circulating_supply?: number
           circulating_supply_override?: number | null
           contract_address?: string | null
@@ -135,6 +519,7 @@ export type Database = {
           creator_id?: string | null
           description?: string | null
           discord_url?: string | null
+          graduated_at?: string | null
           holders_count?: number
           holders_override?: number | null
           id?: string
@@ -142,18 +527,30 @@ export type Database = {
           is_active?: boolean
           is_approved?: boolean
           is_featured?: boolean
+          is_graduated?: boolean
           is_trending?: boolean
           liquidity?: number
           liquidity_override?: number | null
           logo_url?: string | null
           market_cap?: number | null
           market_cap_override?: number | null
+          market_maker_budget_kes?: number
+          market_maker_enabled?: boolean
+          market_maker_max_inventory?: number
+          market_maker_params?: Json
+          market_maker_strategy?: string
           name?: string
+          pool_quote_reserve?: number | null
+          pool_token_reserve?: number | null
           price?: number
           price_change_24h_override?: number | null
           symbol?: string
           telegram_url?: string | null
           total_supply?: number
+          trade_limit_cooldown_seconds?: number | null
+          trade_limit_kes_per_day?: number | null
+          trade_limit_kes_per_hour?: number | null
+          trade_limit_max_holding_pct?: number | null
           trading_paused?: boolean
           twitter_url?: string | null
           updated_at?: string
@@ -202,102 +599,491 @@ export type Database = {
           },
         ]
       }
-      email_login_otps: {
-        Row: {
-          attempts: number
-          code_hash: string
-          created_at: string
-          email: string
-          expires_at: string
-          id: string
-          origin: string | null
-          token_hash: string
-          used_at: string | null
-          user_id: string | null
-        }
-        Insert: {
-          attempts?: number
-          code_hash: string
-          created_at?: string
-          email: string
-          expires_at: string
-          id?: string
-          origin?: string | null
-          token_hash: string
-          used_at?: string | null
-          user_id?: string | null
-        }
-        Update: {
-          attempts?: number
-          code_hash?: string
-          created_at?: string
-          email?: string
-          expires_at?: string
-          id?: string
-          origin?: string | null
-          token_hash?: string
-          used_at?: string | null
-          user_id?: string | null
-        }
-        Relationships: []
-      }
-      holdings: {
+      conditional_orders: {
         Row: {
           amount: number
-          average_buy_price: number
           coin_id: string
           created_at: string
+          executed_amount: number | null
+          executed_price: number | null
+          failure_reason: string | null
           id: string
+          last_checked_at: string
+          order_type: string
+          peak_price: number | null
+          status: string
+          trail_percent: number | null
+          transaction_id: string | null
+          trigger_price: number | null
+          trigger_reference_price: number | null
+          triggered_at: string | null
           updated_at: string
           user_id: string
         }
         Insert: {
-          amount?: number
-          average_buy_price?: number
+          amount: number
           coin_id: string
           created_at?: string
+          executed_amount?: number | null
+          executed_price?: number | null
+          failure_reason?: string | null
           id?: string
+          last_checked_at?: string
+          order_type: string
+          peak_price?: number | null
+          status?: string
+          trail_percent?: number | null
+          transaction_id?: string | null
+          trigger_price?: number | null
+          trigger_reference_price?: number | null
+          triggered_at?: string | null
           updated_at?: string
           user_id: string
         }
         Update: {
           amount?: number
-          average_buy_price?: number
           coin_id?: string
           created_at?: string
+          executed_amount?: number | null
+          executed_price?: number | null
+          failure_reason?: string | null
           id?: string
+          last_checked_at?: string
+          order_type?: string
+          peak_price?: number | null
+          status?: string
+          trail_percent?: number | null
+          transaction_id?: string | null
+          trigger_price?: number | null
+          trigger_reference_price?: number | null
+          triggered_at?: string | null
           updated_at?: string
           user_id?: string
         }
         Relationships: [
           {
-            foreignKeyName: "holdings_coin_id_fkey"
+            foreignKeyName: "conditional_orders_coin_id_fkey"
             columns: ["coin_id"]
             isOneToOne: false
             referencedRelation: "coins"
             referencedColumns: ["id"]
           },
+          {
+            foreignKeyName: "conditional_orders_transaction_id_fkey"
+            columns: ["transaction_id"]
+            isOneToOne: false
+            referencedRelation: "transactions"
+            referencedColumns: ["id"]
+          },
         ]
       }
-      live_streams: {
+      creator_earnings: {
         Row: {
-          admin_override: boolean
+          amount: number
           coin_id: string
+          commission_rate: number
           created_at: string
           creator_id: string
-          description: string | null
-          expires_at: string
-          fee_paid: number
           id: string
-          instagram_username: string | null
-          is_active: boolean
-          kick_username: string | null
-          tiktok_username: string | null
-          title: string | null
-          twitch_username: string | null
-          updated_at: string
-          youtube_username: string | null
-        }
+          ledger_id: string | null
+          source: string
+          trade_type: string
+          trade_value: number
+          transaction_id: string | null
+        }
+        Insert: {
+          amount: number
+          coin_id: string
+          commission_rate: number
+          created_at?: string
+          creator_id: string
+          id?: string
+          ledger_id?: string | null
+          source: string
+          trade_type: string
+          trade_value: number
+          transaction_id?: string | null
+        }
+        Update: {
+          amount?: number
+          coin_id?: string
+          commission_rate?: number
+          created_at?: string
+          creator_id?: string
+          id?: string
+          ledger_id?: string | null
+          source?: string
+          trade_type?: string
+          trade_value?: number
+          transaction_id?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "creator_earnings_coin_id_fkey"
+            columns: ["coin_id"]
+            isOneToOne: false
+            referencedRelation: "coins"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "creator_earnings_ledger_id_fkey"
+            columns: ["ledger_id"]
+            isOneToOne: false
+            referencedRelation: "wallet_ledger"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "creator_earnings_transaction_id_fkey"
+            columns: ["transaction_id"]
+            isOneToOne: false
+            referencedRelation: "transactions"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      curve_scenarios: {
+        Row: {
+          created_at: string
+          created_by: string | null
+          description: string | null
+          flow: Json
+          id: string
+          name: string
+          params: Json
+          updated_at: string
+        }
+        Insert: {
+          created_at?: string
+          created_by?: string | null
+          description?: string | null
+          flow: Json
+          id?: string
+          name: string
+          params: Json
+          updated_at?: string
+        }
+        Update: {
+          created_at?: string
+          created_by?: string | null
+          description?: string | null
+          flow?: Json
+          id?: string
+          name?: string
+          params?: Json
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      email_login_otps: {
+        Row: {
+          attempts: number
+          code_hash: string
+          created_at: string
+          email: string
+          expires_at: string
+          id: string
+          origin: string | null
+          token_hash: string
+          used_at: string | null
+          user_id: string | null
+        }
+        Insert: {
+          attempts?: number
+          code_hash: string
+          created_at?: string
+          email: string
+          expires_at: string
+          id?: string
+          origin?: string | null
+          token_hash: string
+          used_at?: string | null
+          user_id?: string | null
+        }
+        Update: {
+          attempts?: number
+          code_hash?: string
+          created_at?: string
+          email?: string
+          expires_at?: string
+          id?: string
+          origin?: string | null
+          token_hash?: string
+          used_at?: string | null
+          user_id?: string | null
+        }
+        Relationships: []
+      }
+      holder_snapshot_entries: {
+        Row: {
+          amount: number
+          snapshot_id: string
+          user_id: string
+        }
+        Insert: {
+          amount: number
+          snapshot_id: string
+          user_id: string
+        }
+        Update: {
+          amount?: number
+          snapshot_id?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "holder_snapshot_entries_snapshot_id_fkey"
+            columns: ["snapshot_id"]
+            isOneToOne: false
+            referencedRelation: "holder_snapshots"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      holder_snapshots: {
+        Row: {
+          coin_id: string
+          created_at: string
+          created_by: string
+          exclude_creator: boolean
+          holder_count: number
+          id: string
+          label: string | null
+          min_amount: number
+          status: string
+          take_at: string
+          taken_at: string | null
+          total_amount: number
+        }
+        Insert: {
+          coin_id: string
+          created_at?: string
+          created_by: string
+          exclude_creator?: boolean
+          holder_count?: number
+          id?: string
+          label?: string | null
+          min_amount?: number
+          status?: string
+          take_at?: string
+          taken_at?: string | null
+          total_amount?: number
+        }
+        Update: {
+          coin_id?: string
+          created_at?: string
+          created_by?: string
+          exclude_creator?: boolean
+          holder_count?: number
+          id?: string
+          label?: string | null
+          min_amount?: number
+          status?: string
+          take_at?: string
+          taken_at?: string | null
+          total_amount?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "holder_snapshots_coin_id_fkey"
+            columns: ["coin_id"]
+            isOneToOne: false
+            referencedRelation: "coins"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      holdings: {
+        Row: {
+          amount: number
+          average_buy_price: number
+          coin_id: string
+          created_at: string
+          id: string
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          amount?: number
+          average_buy_price?: number
+          coin_id: string
+          created_at?: string
+          id?: string
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          amount?: number
+          average_buy_price?: number
+          coin_id?: string
+          created_at?: string
+          id?: string
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "holdings_coin_id_fkey"
+            columns: ["coin_id"]
+            isOneToOne: false
+            referencedRelation: "coins"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      leaderboard_exclusions: {
+        Row: {
+          created_at: string
+          created_by: string | null
+          reason: string | null
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          created_by?: string | null
+          reason?: string | null
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          created_by?: string | null
+          reason?: string | null
+          user_id?: string
+        }
+        Relationships: []
+      }
+      limit_order_fills: {
+        Row: {
+          amount: number
+          coin_id: string
+          counter_order_id: string | null
+          created_at: string
+          id: string
+          order_id: string
+          price: number
+          source: string
+          transaction_id: string | null
+        }
+        Insert: {
+          amount: number
+          coin_id: string
+          counter_order_id?: string | null
+          created_at?: string
+          id?: string
+          order_id: string
+          price: number
+          source: string
+          transaction_id?: string | null
+        }
+        Update: {
+          amount?: number
+          coin_id?: string
+          counter_order_id?: string | null
+          created_at?: string
+          id?: string
+          order_id?: string
+          price?: number
+          source?: string
+          transaction_id?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "limit_order_fills_coin_id_fkey"
+            columns: ["coin_id"]
+            isOneToOne: false
+            referencedRelation: "coins"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "limit_order_fills_counter_order_id_fkey"
+            columns: ["counter_order_id"]
+            isOneToOne: false
+            referencedRelation: "limit_orders"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "limit_order_fills_order_id_fkey"
+            columns: ["order_id"]
+            isOneToOne: false
+            referencedRelation: "limit_orders"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      limit_orders: {
+        Row: {
+          amount: number
+          coin_id: string
+          created_at: string
+          failure_code: string | null
+          failure_reason: string | null
+          filled_amount: number
+          id: string
+          price: number
+          reserved_fiat: number
+          side: string
+          status: string
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          amount: number
+          coin_id: string
+          created_at?: string
+          failure_code?: string | null
+          failure_reason?: string | null
+          filled_amount?: number
+          id?: string
+          price: number
+          reserved_fiat?: number
+          side: string
+          status?: string
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          amount?: number
+          coin_id?: string
+          created_at?: string
+          failure_code?: string | null
+          failure_reason?: string | null
+          filled_amount?: number
+          id?: string
+          price?: number
+          reserved_fiat?: number
+          side?: string
+          status?: string
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "limit_orders_coin_id_fkey"
+            columns: ["coin_id"]
+            isOneToOne: false
+            referencedRelation: "coins"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      live_streams: {
+        Row: {
+          admin_override: boolean
+          coin_id: string
+          created_at: string
+          creator_id: string
+          description: string | null
+          expires_at: string
+          fee_paid: number
+          id: string
+          instagram_username: string | null
+          is_active: boolean
+          kick_username: string | null
+          tiktok_username: string | null
+          title: string | null
+          twitch_username: string | null
+          updated_at: string
+          youtube_username: string | null
+        }
         Insert: {
           admin_override?: boolean
           coin_id: string
@@ -336,12 +1122,81 @@ export type Database = {
         }
         Relationships: [
           {
-            foreignKeyName: "live_streams_coin_id_fkey"
+            foreignKeyName: "live_streams_coin_id_fkey"
+            columns: ["coin_id"]
+            isOneToOne: false
+            referencedRelation: "coins"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      market_maker_actions: {
+        Row: {
+          amount: number
+          coin_id: string
+          created_at: string
+          error: string | null
+          fee: number | null
+          id: string
+          params: Json
+          price_after: number | null
+          price_before: number | null
+          reason: string | null
+          side: string
+          status: string
+          strategy: string
+          total_value: number | null
+          transaction_id: string | null
+        }
+        Insert: {
+          amount: number
+          coin_id: string
+          created_at?: string
+          error?: string | null
+          fee?: number | null
+          id?: string
+          params?: Json
+          price_after?: number | null
+          price_before?: number | null
+          reason?: string | null
+          side: string
+          status: string
+          strategy: string
+          total_value?: number | null
+          transaction_id?: string | null
+        }
+        Update: {
+          amount?: number
+          coin_id?: string
+          created_at?: string
+          error?: string | null
+          fee?: number | null
+          id?: string
+          params?: Json
+          price_after?: number | null
+          price_before?: number | null
+          reason?: string | null
+          side?: string
+          status?: string
+          strategy?: string
+          total_value?: number | null
+          transaction_id?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "market_maker_actions_coin_id_fkey"
             columns: ["coin_id"]
             isOneToOne: false
             referencedRelation: "coins"
             referencedColumns: ["id"]
           },
+          {
+            foreignKeyName: "market_maker_actions_transaction_id_fkey"
+            columns: ["transaction_id"]
+            isOneToOne: false
+            referencedRelation: "transactions"
+            referencedColumns: ["id"]
+          },
         ]
       }
       mpesa_config: {
@@ -485,6 +1340,41 @@ export type Database = {
         }
         Relationships: []
       }
+      order_book_levels: {
+        Row: {
+          amount: number
+          coin_id: string
+          order_count: number
+          price: number
+          side: string
+          updated_at: string
+        }
+        Insert: {
+          amount?: number
+          coin_id: string
+          order_count?: number
+          price: number
+          side: string
+          updated_at?: string
+        }
+        Update: {
+          amount?: number
+          coin_id?: string
+          order_count?: number
+          price?: number
+          side?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "order_book_levels_coin_id_fkey"
+            columns: ["coin_id"]
+            isOneToOne: false
+            referencedRelation: "coins"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       password_reset_tokens: {
         Row: {
           created_at: string
@@ -525,6 +1415,8 @@ export type Database = {
           coin_id: string | null
           created_at: string
           id: string
+          idempotency_key: string | null
+          idempotency_response: Json | null
           merchant_request_id: string | null
           mpesa_receipt: string | null
           phone: string
@@ -540,6 +1432,8 @@ export type Database = {
           coin_id?: string | null
           created_at?: string
           id?: string
+          idempotency_key?: string | null
+          idempotency_response?: Json | null
           merchant_request_id?: string | null
           mpesa_receipt?: string | null
           phone: string
@@ -555,6 +1449,8 @@ export type Database = {
           coin_id?: string | null
           created_at?: string
           id?: string
+          idempotency_key?: string | null
+          idempotency_response?: Json | null
           merchant_request_id?: string | null
           mpesa_receipt?: string | null
           phone?: string
@@ -638,97 +1534,470 @@ export type Database = {
         }
         Relationships: []
       }
-      price_history: {
+      price_alert_events: {
+        Row: {
+          alert_id: string
+          change_pct: number | null
+          channels: string[]
+          coin_id: string
+          created_at: string
+          delivered_at: string | null
+          delivery: Json
+          id: string
+          kind: string
+          price: number
+          reference_price: number | null
+          target_price: number | null
+          user_id: string
+        }
+        Insert: {
+          alert_id: string
+          change_pct?: number | null
+          channels: string[]
+          coin_id: string
+          created_at?: string
+          delivered_at?: string | null
+          delivery?: Json
+          id?: string
+          kind: string
+          price: number
+          reference_price?: number | null
+          target_price?: number | null
+          user_id: string
+        }
+        Update: {
+          alert_id?: string
+          change_pct?: number | null
+          channels?: string[]
+          coin_id?: string
+          created_at?: string
+          delivered_at?: string | null
+          delivery?: Json
+          id?: string
+          kind?: string
+          price?: number
+          reference_price?: number | null
+          target_price?: number | null
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "price_alert_events_alert_id_fkey"
+            columns: ["alert_id"]
+            isOneToOne: false
+            referencedRelation: "price_alerts"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "price_alert_events_coin_id_fkey"
+            columns: ["coin_id"]
+            isOneToOne: false
+            referencedRelation: "coins"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      price_alerts: {
+        Row: {
+          change_pct: number | null
+          channels: string[]
+          coin_id: string
+          cooldown_minutes: number
+          created_at: string
+          id: string
+          is_active: boolean
+          kind: string
+          last_triggered_at: string | null
+          reference_price: number | null
+          repeat: boolean
+          target_price: number | null
+          trigger_count: number
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          change_pct?: number | null
+          channels?: string[]
+          coin_id: string
+          cooldown_minutes?: number
+          created_at?: string
+          id?: string
+          is_active?: boolean
+          kind: string
+          last_triggered_at?: string | null
+          reference_price?: number | null
+          repeat?: boolean
+          target_price?: number | null
+          trigger_count?: number
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          change_pct?: number | null
+          channels?: string[]
+          coin_id?: string
+          cooldown_minutes?: number
+          created_at?: string
+          id?: string
+          is_active?: boolean
+          kind?: string
+          last_triggered_at?: string | null
+          reference_price?: number | null
+          repeat?: boolean
+          target_price?: number | null
+          trigger_count?: number
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "price_alerts_coin_id_fkey"
+            columns: ["coin_id"]
+            isOneToOne: false
+            referencedRelation: "coins"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      price_candles: {
+        Row: {
+          bucket_start: string
+          close: number
+          closed_at: string
+          coin_id: string
+          high: number
+          interval: string
+          is_drift: boolean
+          low: number
+          open: number
+          opened_at: string
+          trade_count: number
+          volume: number
+        }
+        Insert: {
+          bucket_start: string
+          close: number
+          closed_at: string
+          coin_id: string
+          high: number
+          interval: string
+          is_drift?: boolean
+          low: number
+          open: number
+          opened_at: string
+          trade_count?: number
+          volume?: number
+        }
+        Update: {
+          bucket_start?: string
+          close?: number
+          closed_at?: string
+          coin_id?: string
+          high?: number
+          interval?: string
+          is_drift?: boolean
+          low?: number
+          open?: number
+          opened_at?: string
+          trade_count?: number
+          volume?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "price_candles_coin_id_fkey"
+            columns: ["coin_id"]
+            isOneToOne: false
+            referencedRelation: "coins"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      price_history: {
+        Row: {
+          coin_id: string
+          created_at: string
+          id: string
+          price: number
+          trade_type: string
+          volume: number
+        }
+        Insert: {
+          coin_id: string
+          created_at?: string
+          id?: string
+          price: number
+          trade_type?: string
+          volume?: number
+        }
+        Update: {
+          coin_id?: string
+          created_at?: string
+          id?: string
+          price?: number
+          trade_type?: string
+          volume?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "price_history_coin_id_fkey"
+            columns: ["coin_id"]
+            isOneToOne: false
+            referencedRelation: "coins"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      profiles: {
+        Row: {
+          avatar_url: string | null
+          chart_preferences: Json
+          created_at: string
+          email: string | null
+          full_name: string | null
+          id: string
+          leaderboard_name: string | null
+          phone: string | null
+          phone_verified: boolean
+          referral_code: string | null
+          referred_by: string | null
+          show_on_leaderboard: boolean
+          statement_email_enabled: boolean
+          telegram_first_name: string | null
+          telegram_user_id: string | null
+          telegram_username: string | null
+          two_factor_enabled: boolean
+          two_factor_secret: string | null
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          avatar_url?: string | null
+          chart_preferences?: Json
+          created_at?: string
+          email?: string | null
+          full_name?: string | null
+          id?: string
+          leaderboard_name?: string | null
+          phone?: string | null
+          phone_verified?: boolean
+          referral_code?: string | null
+          referred_by?: string | null
+          show_on_leaderboard?: boolean
+          statement_email_enabled?: boolean
+          telegram_first_name?: string | null
+          telegram_user_id?: string | null
+          telegram_username?: string | null
+          two_factor_enabled?: boolean
+          two_factor_secret?: string | null
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          avatar_url?: string | null
+          chart_preferences?: Json
+          created_at?: string
+          email?: string | null
+          full_name?: string | null
+          id?: string
+          leaderboard_name?: string | null
+          phone?: string | null
+          phone_verified?: boolean
+          referral_code?: string | null
+          referred_by?: string | null
+          show_on_leaderboard?: boolean
+          statement_email_enabled?: boolean
+          telegram_first_name?: string | null
+          telegram_user_id?: string | null
+          telegram_username?: string | null
+          two_factor_enabled?: boolean
+          two_factor_secret?: string | null
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
+      realized_trades: {
+        Row: {
+          amount: number
+          avg_cost_basis: number
+          closed_at: string
+          coin_id: string
+          created_at: string
+          fifo_cost_basis: number
+          id: string
+          matched_amount: number
+          proceeds: number
+          transaction_id: string
+          user_id: string
+        }
+        Insert: {
+          amount: number
+          avg_cost_basis?: number
+          closed_at: string
+          coin_id: string
+          created_at?: string
+          fifo_cost_basis?: number
+          id?: string
+          matched_amount?: number
+          proceeds: number
+          transaction_id: string
+          user_id: string
+        }
+        Update: {
+          amount?: number
+          avg_cost_basis?: number
+          closed_at?: string
+          coin_id?: string
+          created_at?: string
+          fifo_cost_basis?: number
+          id?: string
+          matched_amount?: number
+          proceeds?: number
+          transaction_id?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "realized_trades_coin_id_fkey"
+            columns: ["coin_id"]
+            isOneToOne: false
+            referencedRelation: "coins"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "realized_trades_transaction_id_fkey"
+            columns: ["transaction_id"]
+            isOneToOne: false
+            referencedRelation: "transactions"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      recurring_buy_runs: {
         Row: {
+          amount_kes: number
           coin_id: string
+          coins_bought: number | null
           created_at: string
+          executed_price: number | null
           id: string
-          price: number
-          trade_type: string
-          volume: number
+          plan_id: string
+          reason: string | null
+          result: string
+          transaction_id: string | null
+          user_id: string
         }
         Insert: {
+          amount_kes: number
           coin_id: string
+          coins_bought?: number | null
           created_at?: string
+          executed_price?: number | null
           id?: string
-          price: number
-          trade_type?: string
-          volume?: number
+          plan_id: string
+          reason?: string | null
+          result: string
+          transaction_id?: string | null
+          user_id: string
         }
         Update: {
+          amount_kes?: number
           coin_id?: string
+          coins_bought?: number | null
           created_at?: string
+          executed_price?: number | null
           id?: string
-          price?: number
-          trade_type?: string
-          volume?: number
+          plan_id?: string
+          reason?: string | null
+          result?: string
+          transaction_id?: string | null
+          user_id?: string
         }
         Relationships: [
           {
-            foreignKeyName: "price_history_coin_id_fkey"
+            foreignKeyName: "recurring_buy_runs_coin_id_fkey"
             columns: ["coin_id"]
             isOneToOne: false
             referencedRelation: "coins"
             referencedColumns: ["id"]
           },
+          {
+            foreignKeyName: "recurring_buy_runs_plan_id_fkey"
+            columns: ["plan_id"]
+            isOneToOne: false
+            referencedRelation: "recurring_buys"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "recurring_buy_runs_transaction_id_fkey"
+            columns: ["transaction_id"]
+            isOneToOne: false
+            referencedRelation: "transactions"
+            referencedColumns: ["id"]
+          },
         ]
       }
-      profiles: {
+      recurring_buys: {
         Row: {
-          avatar_url: string | null
+          amount_kes: number
+          coin_id: string
           created_at: string
-          email: string | null
-          full_name: string | null
+          fills_count: number
+          frequency: string
           id: string
-          phone: string | null
-          phone_verified: boolean
-          referral_code: string | null
-          referred_by: string | null
-          telegram_first_name: string | null
-          telegram_user_id: string | null
-          telegram_username: string | null
-          two_factor_enabled: boolean
-          two_factor_secret: string | null
+          last_error: string | null
+          last_result: string | null
+          last_run_at: string | null
+          next_run_at: string
+          status: string
+          total_bought: number
+          total_spent: number
           updated_at: string
           user_id: string
         }
         Insert: {
-          avatar_url?: string | null
+          amount_kes: number
+          coin_id: string
           created_at?: string
-          email?: string | null
-          full_name?: string | null
+          fills_count?: number
+          frequency: string
           id?: string
-          phone?: string | null
-          phone_verified?: boolean
-          referral_code?: string | null
-          referred_by?: string | null
-          telegram_first_name?: string | null
-          telegram_user_id?: string | null
-          telegram_username?: string | null
-          two_factor_enabled?: boolean
-          two_factor_secret?: string | null
+          last_error?: string | null
+          last_result?: string | null
+          last_run_at?: string | null
+          next_run_at?: string
+          status?: string
+          total_bought?: number
+          total_spent?: number
           updated_at?: string
           user_id: string
         }
         Update: {
-          avatar_url?: string | null
+          amount_kes?: number
+          coin_id?: string
           created_at?: string
-          email?: string | null
-          full_name?: string | null
+          fills_count?: number
+          frequency?: string
           id?: string
-          phone?: string | null
-          phone_verified?: boolean
-          referral_code?: string | null
-          referred_by?: string | null
-          telegram_first_name?: string | null
-          telegram_user_id?: string | null
-          telegram_username?: string | null
-          two_factor_enabled?: boolean
-          two_factor_secret?: string | null
+          last_error?: string | null
+          last_result?: string | null
+          last_run_at?: string | null
+          next_run_at?: string
+          status?: string
+          total_bought?: number
+          total_spent?: number
           updated_at?: string
           user_id?: string
         }
-        Relationships: []
+        Relationships: [
+          {
+            foreignKeyName: "recurring_buys_coin_id_fkey"
+            columns: ["coin_id"]
+            isOneToOne: false
+            referencedRelation: "coins"
+            referencedColumns: ["id"]
+          },
+        ]
       }
       referral_commissions: {
         Row: {
@@ -840,6 +2109,13 @@ export type Database = {
           admin_commission: number
           allow_2fa_optional: boolean
           buy_slippage_percentage: number
+          circuit_breaker_auto_resume: boolean
+          circuit_breaker_cooldown_minutes: number
+          circuit_breaker_enabled: boolean
+          circuit_breaker_min_volume: number
+          circuit_breaker_move_pct: number
+          circuit_breaker_wallet_share_pct: number
+          circuit_breaker_window_minutes: number
           coin_creation_fee: number
           created_at: string
           creator_commission_percentage: number
@@ -860,6 +2136,11 @@ export type Database = {
           fee_percentage: number
           google_auth_enabled: boolean
           google_verification_code: string | null
+          graduation_enabled: boolean
+          graduation_metric: string
+          graduation_seed_percentage: number
+          graduation_seed_rule: string
+          graduation_threshold: number
           hero_badge: string | null
           hero_subtitle: string | null
           hero_title: string | null
@@ -867,10 +2148,15 @@ export type Database = {
           instagram_url: string | null
           live_fee: number
           logo_url: string | null
+          market_maker_daily_budget_kes: number
+          market_maker_enabled: boolean
+          market_maker_user_id: string | null
           max_buy_amount: number
           max_buy_supply_percentage: number
           min_buy_amount: number
           primary_color: string | null
+          public_api_default_rate_limit: number
+          public_api_enabled: boolean
           referral_commission_percentage: number
           require_2fa: boolean
           require_email_verification: boolean
@@ -886,6 +2172,10 @@ export type Database = {
           stats_volume: string | null
           telegram_auth_enabled: boolean
           telegram_url: string | null
+          trade_limit_cooldown_seconds: number
+          trade_limit_kes_per_day: number
+          trade_limit_kes_per_hour: number
+          trade_limit_max_holding_pct: number
           twitter_url: string | null
           updated_at: string
           withdrawal_fee_percentage: number
@@ -894,6 +2184,13 @@ export type Database = {
           admin_commission?: number
           allow_2fa_optional?: boolean
           buy_slippage_percentage?: number
+          circuit_breaker_auto_resume?: boolean
+          circuit_breaker_cooldown_minutes?: number
+          circuit_breaker_enabled?: boolean
+          circuit_breaker_min_volume?: number
+          circuit_breaker_move_pct?: number
+          circuit_breaker_wallet_share_pct?: number
+          circuit_breaker_window_minutes?: number
           coin_creation_fee?: number
           created_at?: string
           creator_commission_percentage?: number
@@ -914,6 +2211,11 @@ export type Database = {
           fee_percentage?: number
           google_auth_enabled?: boolean
           google_verification_code?: string | null
+          graduation_enabled?: boolean
+          graduation_metric?: string
+          graduation_seed_percentage?: number
+          graduation_seed_rule?: string
+          graduation_threshold?: number
           hero_badge?: string | null
           hero_subtitle?: string | null
           hero_title?: string | null
@@ -921,10 +2223,15 @@ export type Database = {
           instagram_url?: string | null
           live_fee?: number
           logo_url?: string | null
+          market_maker_daily_budget_kes?: number
+          market_maker_enabled?: boolean
+          market_maker_user_id?: string | null
           max_buy_amount?: number
           max_buy_supply_percentage?: number
           min_buy_amount?: number
           primary_color?: string | null
+          public_api_default_rate_limit?: number
+          public_api_enabled?: boolean
           referral_commission_percentage?: number
           require_2fa?: boolean
           require_email_verification?: boolean
@@ -940,6 +2247,10 @@ export type Database = {
           stats_volume?: string | null
           telegram_auth_enabled?: boolean
           telegram_url?: string | null
+          trade_limit_cooldown_seconds?: number
+          trade_limit_kes_per_day?: number
+          trade_limit_kes_per_hour?: number
+          trade_limit_max_holding_pct?: number
           twitter_url?: string | null
           updated_at?: string
           withdrawal_fee_percentage?: number
@@ -948,6 +2259,13 @@ export type Database = {
           admin_commission?: number
           allow_2fa_optional?: boolean
           buy_slippage_percentage?: number
+          circuit_breaker_auto_resume?: boolean
+          circuit_breaker_cooldown_minutes?: number
+          circuit_breaker_enabled?: boolean
+          circuit_breaker_min_volume?: number
+          circuit_breaker_move_pct?: number
+          circuit_breaker_wallet_share_pct?: number
+          circuit_breaker_window_minutes?: number
           coin_creation_fee?: number
           created_at?: string
           creator_commission_percentage?: number
@@ -968,6 +2286,11 @@ export type Database = {
           fee_percentage?: number
           google_auth_enabled?: boolean
           google_verification_code?: string | null
+          graduation_enabled?: boolean
+          graduation_metric?: string
+          graduation_seed_percentage?: number
+          graduation_seed_rule?: string
+          graduation_threshold?: number
           hero_badge?: string | null
           hero_subtitle?: string | null
           hero_title?: string | null
@@ -975,10 +2298,15 @@ export type Database = {
           instagram_url?: string | null
           live_fee?: number
           logo_url?: string | null
+          market_maker_daily_budget_kes?: number
+          market_maker_enabled?: boolean
+          market_maker_user_id?: string | null
           max_buy_amount?: number
           max_buy_supply_percentage?: number
           min_buy_amount?: number
           primary_color?: string | null
+          public_api_default_rate_limit?: number
+          public_api_enabled?: boolean
           referral_commission_percentage?: number
           require_2fa?: boolean
           require_email_verification?: boolean
@@ -994,6 +2322,10 @@ export type Database = {
           stats_volume?: string | null
           telegram_auth_enabled?: boolean
           telegram_url?: string | null
+          trade_limit_cooldown_seconds?: number
+          trade_limit_kes_per_day?: number
+          trade_limit_kes_per_hour?: number
+          trade_limit_max_holding_pct?: number
           twitter_url?: string | null
           updated_at?: string
           withdrawal_fee_percentage?: number
@@ -1075,6 +2407,105 @@ export type Database = {
         }
         Relationships: []
       }
+      tax_lot_closures: {
+        Row: {
+          amount: number
+          cost_per_coin: number
+          created_at: string
+          id: string
+          lot_id: string
+          realized_trade_id: string
+          user_id: string
+        }
+        Insert: {
+          amount: number
+          cost_per_coin: number
+          created_at?: string
+          id?: string
+          lot_id: string
+          realized_trade_id: string
+          user_id: string
+        }
+        Update: {
+          amount?: number
+          cost_per_coin?: number
+          created_at?: string
+          id?: string
+          lot_id?: string
+          realized_trade_id?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "tax_lot_closures_lot_id_fkey"
+            columns: ["lot_id"]
+            isOneToOne: false
+            referencedRelation: "tax_lots"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "tax_lot_closures_realized_trade_id_fkey"
+            columns: ["realized_trade_id"]
+            isOneToOne: false
+            referencedRelation: "realized_trades"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      tax_lots: {
+        Row: {
+          amount: number
+          coin_id: string
+          cost_per_coin: number
+          created_at: string
+          id: string
+          opened_at: string
+          remaining: number
+          transaction_id: string
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          amount: number
+          coin_id: string
+          cost_per_coin: number
+          created_at?: string
+          id?: string
+          opened_at: string
+          remaining: number
+          transaction_id: string
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          amount?: number
+          coin_id?: string
+          cost_per_coin?: number
+          created_at?: string
+          id?: string
+          opened_at?: string
+          remaining?: number
+          transaction_id?: string
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "tax_lots_coin_id_fkey"
+            columns: ["coin_id"]
+            isOneToOne: false
+            referencedRelation: "coins"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "tax_lots_transaction_id_fkey"
+            columns: ["transaction_id"]
+            isOneToOne: false
+            referencedRelation: "transactions"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       telegram_config: {
         Row: {
           auth_enabled: boolean
@@ -1141,12 +2572,97 @@ export type Database = {
         }
         Relationships: []
       }
+      token_locks: {
+        Row: {
+          amount: number
+          category: string
+          cliff_at: string
+          coin_id: string
+          created_at: string
+          created_by: string | null
+          end_at: string
+          id: string
+          note: string | null
+          start_at: string
+          user_id: string
+        }
+        Insert: {
+          amount: number
+          category?: string
+          cliff_at: string
+          coin_id: string
+          created_at?: string
+          created_by?: string | null
+          end_at: string
+          id?: string
+          note?: string | null
+          start_at?: string
+          user_id: string
+        }
+        Update: {
+          amount?: number
+          category?: string
+          cliff_at?: string
+          coin_id?: string
+          created_at?: string
+          created_by?: string | null
+          end_at?: string
+          id?: string
+          note?: string | null
+          start_at?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "token_locks_coin_id_fkey"
+            columns: ["coin_id"]
+            isOneToOne: false
+            referencedRelation: "coins"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      trader_leaderboards: {
+        Row: {
+          board: string
+          computed_at: string
+          period: string
+          rank: number
+          trade_count: number
+          user_id: string
+          value: number
+        }
+        Insert: {
+          board: string
+          computed_at?: string
+          period: string
+          rank: number
+          trade_count?: number
+          user_id: string
+          value: number
+        }
+        Update: {
+          board?: string
+          computed_at?: string
+          period?: string
+          rank?: number
+          trade_count?: number
+          user_id?: string
+          value?: number
+        }
+        Relationships: []
+      }
       transactions: {
         Row: {
           amount: number
+          amount_paid: number | null
           coin_id: string
           created_at: string
           id: string
+          idempotency_key: string | null
+          idempotency_response: Json | null
+          is_market_maker: boolean
+          max_slippage_pct: number | null
           merchant_request_id: string | null
           mpesa_receipt: string | null
           phone: string | null
@@ -1159,9 +2675,14 @@ export type Database = {
         }
         Insert: {
           amount: number
+          amount_paid?: number | null
           coin_id: string
           created_at?: string
           id?: string
+          idempotency_key?: string | null
+          idempotency_response?: Json | null
+          is_market_maker?: boolean
+          max_slippage_pct?: number | null
           merchant_request_id?: string | null
           mpesa_receipt?: string | null
           phone?: string | null
@@ -1174,9 +2695,14 @@ export type Database = {
         }
         Update: {
           amount?: number
+          amount_paid?: number | null
           coin_id?: string
           created_at?: string
           id?: string
+          idempotency_key?: string | null
+          idempotency_response?: Json | null
+          is_market_maker?: boolean
+          max_slippage_pct?: number | null
           merchant_request_id?: string | null
           mpesa_receipt?: string | null
           phone?: string | null
@@ -1218,6 +2744,30 @@ export type Database = {
         }
         Relationships: []
       }
+      wallet_ledger: {
+        Row: {
+          balance_after: number
+          created_at: string
+          delta: number
+          id: string
+          user_id: string
+        }
+        Insert: {
+          balance_after: number
+          created_at?: string
+          delta: number
+          id?: string
+          user_id: string
+        }
+        Update: {
+          balance_after?: number
+          created_at?: string
+          delta?: number
+          id?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
       wallet_withdrawals: {
         Row: {
           admin_note: string | null
@@ -1267,27 +2817,84 @@ export type Database = {
           updated_at?: string
           user_id?: string
         }
-        Relationships: []
+        Relationships: []
+      }
+      wallets: {
+        Row: {
+          created_at: string
+          fiat_balance: number
+          id: string
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          fiat_balance?: number
+          id?: string
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          fiat_balance?: number
+          id?: string
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
+      watchlist_items: {
+        Row: {
+          added_at: string
+          coin_id: string
+          watchlist_id: string
+        }
+        Insert: {
+          added_at?: string
+          coin_id: string
+          watchlist_id: string
+        }
+        Update: {
+          added_at?: string
+          coin_id?: string
+          watchlist_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "watchlist_items_coin_id_fkey"
+            columns: ["coin_id"]
+            isOneToOne: false
+            referencedRelation: "coins"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "watchlist_items_watchlist_id_fkey"
+            columns: ["watchlist_id"]
+            isOneToOne: false
+            referencedRelation: "watchlists"
+            referencedColumns: ["id"]
+          },
+        ]
       }
-      wallets: {
+      watchlists: {
         Row: {
           created_at: string
-          fiat_balance: number
           id: string
+          name: string
           updated_at: string
           user_id: string
         }
         Insert: {
           created_at?: string
-          fiat_balance?: number
           id?: string
+          name: string
           updated_at?: string
           user_id: string
         }
         Update: {
           created_at?: string
-          fiat_balance?: number
           id?: string
+          name?: string
           updated_at?: string
           user_id?: string
         }
@@ -1331,6 +2938,33 @@ export type Database = {
       [_ in never]: never
     }
     Functions: {
+      airdrop_available_balance: {
+        Args: { _asset: string; _coin_id: string; _sender: string }
+        Returns: number
+      }
+      amend_limit_order: {
+        Args: { _amount: number; _order_id: string; _price: number }
+        Returns: Json
+      }
+      apply_order_book_delta: {
+        Args: {
+          _amount: number
+          _coin_id: string
+          _count: number
+          _price: number
+          _side: string
+        }
+        Returns: undefined
+      }
+      bonding_curve_area: {
+        Args: {
+          _bonding_factor: number
+          _from_supply: number
+          _initial_price: number
+          _to_supply: number
+        }
+        Returns: number
+      }
       bootstrap_user_record: {
         Args: {
           _email?: string
@@ -1341,6 +2975,10 @@ export type Database = {
         }
         Returns: Json
       }
+      burn_tokens: {
+        Args: { _amount: number; _coin_id: string }
+        Returns: Json
+      }
       calculate_bonding_price: {
         Args: {
           _bonding_factor: number
@@ -1349,23 +2987,154 @@ export type Database = {
         }
         Returns: number
       }
+      cancel_airdrop: {
+        Args: { _airdrop_id: string }
+        Returns: Json
+      }
+      cancel_conditional_order: { Args: { _order_id: string }; Returns: Json }
+      cancel_limit_order: { Args: { _order_id: string }; Returns: Json }
+      candle_bucket: {
+        Args: { _interval: string; _ts: string }
+        Returns: string
+      }
+      capture_holder_snapshot: {
+        Args: { _snapshot_id: string }
+        Returns: undefined
+      }
+      check_airdrop_request: {
+        Args: {
+          _asset: string
+          _coin_id: string
+          _distribution: string
+          _recipients: Json
+          _snapshot_id: string
+          _total_amount: number
+        }
+        Returns: undefined
+      }
+      check_circuit_breaker: {
+        Args: { _coin_id: string }
+        Returns: boolean
+      }
+      check_trade_limits: {
+        Args: {
+          _amount?: number
+          _coin_id: string
+          _kes_amount?: number
+          _user_id?: string
+        }
+        Returns: Json
+      }
+      claim_mpesa_buy: {
+        Args: { _transaction_id: string; _user_id: string }
+        Returns: Json
+      }
       claim_referral: { Args: { _referral_code: string }; Returns: Json }
+      coin_search_document: {
+        Args: { _description: string; _name: string; _symbol: string }
+        Returns: unknown
+      }
       complete_mpesa_buy: {
-        Args: { _mpesa_receipt: string; _transaction_id: string }
+        Args: {
+          _idempotency_key?: string
+          _mpesa_receipt: string
+          _transaction_id: string
+        }
         Returns: Json
       }
       complete_mpesa_deposit: {
-        Args: { _mpesa_receipt: string; _payment_request_id: string }
+        Args: {
+          _idempotency_key?: string
+          _mpesa_receipt: string
+          _payment_request_id: string
+        }
+        Returns: Json
+      }
+      compute_holder_stats: {
+        Args: { _coin_id: string }
+        Returns: Json
+      }
+      conditional_order_price_windows: {
+        Args: { _order_ids: string[] }
+        Returns: {
+          order_id: string
+          window_high: number
+          window_low: number
+        }[]
+      }
+      consume_api_request: {
+        Args: { _key_hash: string }
+        Returns: Json
+      }
+      create_airdrop: {
+        Args: {
+          _asset: string
+          _coin_id: string
+          _distribution: string
+          _message?: string
+          _recipients?: Json
+          _snapshot_id?: string
+          _total_amount: number
+        }
+        Returns: Json
+      }
+      create_api_key: {
+        Args: { _name: string }
+        Returns: Json
+      }
+      create_holder_snapshot: {
+        Args: {
+          _coin_id: string
+          _exclude_creator?: boolean
+          _label?: string
+          _min_amount?: number
+          _take_at?: string
+        }
+        Returns: Json
+      }
+      create_recurring_buy: {
+        Args: { _amount_kes: number; _coin_id: string; _frequency: string }
+        Returns: Json
+      }
+      create_token_lock: {
+        Args: {
+          _amount: number
+          _cliff_days: number
+          _coin_id: string
+          _holder_id?: string
+          _note?: string
+          _vesting_days?: number
+        }
         Returns: Json
       }
+      credit_creator_commission: {
+        Args: {
+          _amount: number
+          _coin_id: string
+          _creator_id: string
+          _rate: number
+          _source: string
+          _trade_type: string
+          _trade_value: number
+          _transaction_id: string
+        }
+        Returns: undefined
+      }
       ensure_user_bootstrap: {
         Args: { _full_name?: string; _phone?: string; _referral_code?: string }
         Returns: Json
       }
+      execute_recurring_buy: {
+        Args: { _plan_id: string }
+        Returns: Json
+      }
       execute_trade: {
         Args: {
           _amount: number
           _coin_id: string
+          _expected_price?: number
+          _idempotency_key?: string
+          _max_slippage_pct?: number
           _to_wallet: boolean
           _trade_type: string
           _use_wallet: boolean
@@ -1375,7 +3144,24 @@ export type Database = {
       }
       expire_live_streams: { Args: never; Returns: undefined }
       generate_referral_code: { Args: never; Returns: string }
+      get_account_statement: {
+        Args: { _from: string; _to: string; _user_id?: string }
+        Returns: Json
+      }
+      get_airdrop_recipients: {
+        Args: {
+          _airdrop_id: string
+          _limit?: number
+          _offset?: number
+          _status?: string
+        }
+        Returns: Json
+      }
       get_base_url: { Args: never; Returns: string }
+      get_burn_history: {
+        Args: { _coin_id: string; _limit?: number }
+        Returns: Json
+      }
       get_coin_price_changes_24h: {
         Args: never
         Returns: {
@@ -1383,6 +3169,100 @@ export type Database = {
           price_change_24h: number
         }[]
       }
+      get_creator_coin_insights: {
+        Args: { _coin_id: string; _days?: number }
+        Returns: Json
+      }
+      get_creator_dashboard: {
+        Args: { _days?: number }
+        Returns: Json
+      }
+      get_creator_payouts: {
+        Args: { _coin_id?: string; _limit?: number; _offset?: number }
+        Returns: Json
+      }
+      get_holder_distribution: {
+        Args: { _coin_id: string; _top?: number }
+        Returns: Json
+      }
+      get_leaderboard: {
+        Args: { _board: string; _limit?: number; _period?: string }
+        Returns: Json
+      }
+      get_market_maker_report: {
+        Args: { _from: string; _to?: string }
+        Returns: {
+          budget_kes: number
+          coin_id: string
+          committed_kes: number
+          enabled: boolean
+          inventory: number
+          maker_buy_volume: number
+          maker_fees: number
+          maker_sell_volume: number
+          maker_share_pct: number
+          maker_trades: number
+          name: string
+          organic_buy_volume: number
+          organic_sell_volume: number
+          organic_trades: number
+          rejected_actions: number
+          strategy: string
+          symbol: string
+        }[]
+      }
+      get_market_stats_24h: {
+        Args: { _coin_id?: string }
+        Returns: {
+          close: number
+          coin_id: string
+          high: number
+          low: number
+          open: number
+          quote_volume: number
+          trade_count: number
+          volume: number
+        }[]
+      }
+      get_pnl_summary: {
+        Args: { _method?: string }
+        Returns: {
+          amount: number
+          coin_id: string
+          cost_basis: number
+          fees_paid: number
+          logo_url: string
+          market_value: number
+          name: string
+          price: number
+          realized_pnl: number
+          symbol: string
+          unrealized_pnl: number
+        }[]
+      }
+      get_price_candles: {
+        Args: {
+          _coin_id: string
+          _from: string
+          _include_drift?: boolean
+          _interval: string
+          _to?: string
+        }
+        Returns: {
+          bucket_start: string
+          close: number
+          has_drift: boolean
+          high: number
+          low: number
+          open: number
+          trade_count: number
+          volume: number
+        }[]
+      }
+      get_token_locks: {
+        Args: { _coin_id: string }
+        Returns: Json
+      }
       has_role: {
         Args: {
           _role: Database["public"]["Enums"]["app_role"]
@@ -1390,6 +3270,10 @@ export type Database = {
         }
         Returns: boolean
       }
+      holder_alias: {
+        Args: { _coin_id: string; _user_id: string }
+        Returns: string
+      }
       is_admin: { Args: { _user_id: string }; Returns: boolean }
       link_telegram_user: {
         Args: {
@@ -1400,6 +3284,95 @@ export type Database = {
         }
         Returns: boolean
       }
+      live_stream_windows: {
+        Args: { _coin_ids: string[] }
+        Returns: {
+          coin_id: string
+          ended_at: string
+          id: string
+          is_active: boolean
+          started_at: string
+          title: string
+        }[]
+      }
+      locked_sell_amount: {
+        Args: { _coin_id: string; _user_id: string }
+        Returns: number
+      }
+      market_maker_trade: {
+        Args: {
+          _amount: number
+          _coin_id: string
+          _params?: Json
+          _reason?: string
+          _side: string
+          _strategy: string
+        }
+        Returns: Json
+      }
+      match_limit_order: { Args: { _order_id: string }; Returns: Json }
+      maybe_graduate_coin: {
+        Args: { _coin_id: string }
+        Returns: boolean
+      }
+      place_conditional_order: {
+        Args: {
+          _amount: number
+          _coin_id: string
+          _order_type: string
+          _trail_percent: number
+          _trigger_price: number
+        }
+        Returns: Json
+      }
+      place_limit_order: {
+        Args: {
+          _amount: number
+          _coin_id: string
+          _price: number
+          _side: string
+        }
+        Returns: Json
+      }
+      plan_airdrop: {
+        Args: {
+          _asset: string
+          _distribution: string
+          _recipients: Json
+          _sender: string
+          _snapshot_id: string
+          _total_amount: number
+        }
+        Returns: {
+          amount: number
+          email: string
+          error: string
+          status: string
+          user_id: string
+          weight: number
+        }[]
+      }
+      preview_airdrop: {
+        Args: {
+          _asset: string
+          _coin_id: string
+          _distribution: string
+          _recipients?: Json
+          _snapshot_id?: string
+          _total_amount: number
+        }
+        Returns: Json
+      }
+      price_curve_trade: {
+        Args: { _amount: number; _coin_id: string; _trade_type: string }
+        Returns: {
+          average_price: number
+          new_circulating: number
+          new_price: number
+          spot_price: number
+          total_value: number
+        }[]
+      }
       process_mpesa_withdrawal_result: {
         Args: {
           _mpesa_receipt: string
@@ -1409,6 +3382,131 @@ export type Database = {
         }
         Returns: Json
       }
+      quote_trade: {
+        Args: { _amount: number; _coin_id: string; _trade_type: string }
+        Returns: Json
+      }
+      record_drift_tick: {
+        Args: { _coin_id: string; _price: number }
+        Returns: undefined
+      }
+      record_holder_counts: {
+        Args: never
+        Returns: undefined
+      }
+      record_price_tick: {
+        Args: {
+          _coin_id: string
+          _is_drift: boolean
+          _price: number
+          _ts: string
+          _volume: number
+        }
+        Returns: undefined
+      }
+      record_tax_lots: {
+        Args: { _transaction_id: string }
+        Returns: undefined
+      }
+      refresh_leaderboards: { Args: never; Returns: Json }
+      refund_airdrop_escrow: {
+        Args: { _airdrop_id: string }
+        Returns: number
+      }
+      resume_circuit_breakers: {
+        Args: never
+        Returns: {
+          coin_id: string
+          symbol: string
+        }[]
+      }
+      revoke_api_key: {
+        Args: { _key_id: string }
+        Returns: undefined
+      }
+      run_airdrop_batch: {
+        Args: { _airdrop_id: string; _batch_size?: number }
+        Returns: Json
+      }
+      search_coins: {
+        Args: {
+          _cursor?: string
+          _featured?: boolean
+          _limit?: number
+          _live?: boolean
+          _max_age_hours?: number
+          _max_market_cap?: number
+          _max_price?: number
+          _min_market_cap?: number
+          _min_price?: number
+          _query?: string
+          _sort?: string
+          _trending?: boolean
+        }
+        Returns: Json
+      }
+      set_recurring_buy_status: {
+        Args: { _plan_id: string; _status: string }
+        Returns: Json
+      }
+      settle_book_fill: {
+        Args: {
+          _amount: number
+          _buy_order_id: string
+          _price: number
+          _sell_order_id: string
+          _taker_side: string
+        }
+        Returns: number
+      }
+      sweep_limit_orders: { Args: never; Returns: Json }
+      take_due_snapshots: {
+        Args: never
+        Returns: number
+      }
+      toggle_watchlist_coin: {
+        Args: { _coin_id: string; _watchlist_id?: string }
+        Returns: Json
+      }
+      token_lock_remaining: {
+        Args: {
+          _amount: number
+          _at?: string
+          _cliff_at: string
+          _end_at: string
+          _start_at: string
+        }
+        Returns: number
+      }
+      tokens_for_quote: {
+        Args: { _coin_id: string; _quote: number }
+        Returns: number
+      }
+      trade_cooldown_violation: {
+        Args: { _coin_id: string; _user_id: string }
+        Returns: Json
+      }
+      trade_limit_violation: {
+        Args: {
+          _amount: number
+          _coin_id: string
+          _total_value: number
+          _user_id: string
+        }
+        Returns: Json
+      }
+      trigger_conditional_order: {
+        Args: { _order_id: string; _reference_price: number }
+        Returns: Json
+      }
+      vesting_locked_amount: {
+        Args: { _coin_id: string; _user_id: string }
+        Returns: number
+      }
+      wallet_balance_at: {
+        Args: { _at: string; _user_id: string }
+        Returns: number
+      }
     }
     Enums: {
       app_role: "super_admin" | "admin" | "coin_creator" | "user" | "banned"
@@ -0,0 +1,331 @@
+import { supabase } from '@/integrations/supabase/client';
+
+/**
+ * Client-side replay of the trade pricing in the database, for trying
+ * parameter sets before they go live. Mirrors calculate_bonding_price,
+ * bonding_curve_area, price_curve_trade, tokens_for_quote, the coin update in
+ * execute_trade and maybe_graduate_coin; keep it in step when those change.
+ */
+
+export interface CurveParams {
+  initialPrice: number;
+  bondingCurveFactor: number;
+  totalSupply: number;
+  feePercentage: number;
+  sellPressureMultiplier: number;
+  /** Largest buy as a percentage of unsold supply; 0 turns the cap off. */
+  maxBuySupplyPercentage: number;
+  graduationEnabled: boolean;
+  graduationMetric: 'market_cap' | 'liquidity';
+  graduationThreshold: number;
+  graduationSeedRule: 'match_price' | 'remaining_supply';
+  graduationSeedPercentage: number;
+}
+
+/** One market order. Give `amount` in tokens, or `kes` to spend (buys, fee included) or sell. */
+export interface SimOrder {
+  type: 'buy' | 'sell';
+  amount?: number;
+  kes?: number;
+}
+
+export interface SyntheticFlow {
+  source: 'synthetic';
+  trades: number;
+  avgTradeKes: number;
+  /** Share of orders that are buys, 0–1. */
+  buyRatio: number;
+  seed: number;
+}
+
+export interface HistoricalFlow {
+  source: 'historical';
+  coinId: string;
+}
+
+export type OrderFlow = SyntheticFlow | HistoricalFlow;
+
+export interface SimStep {
+  step: number;
+  type: 'buy' | 'sell';
+  amount: number;
+  totalValue: number;
+  averagePrice: number;
+  /** How far the fill was from the spot price before it, in percent. */
+  priceImpactPct: number;
+  price: number;
+  marketCap: number;
+  liquidity: number;
+  circulating: number;
+  feeRevenue: number;
+  graduated: boolean;
+  rejected?: string;
+}
+
+export interface SimSummary {
+  trades: number;
+  rejected: number;
+  finalPrice: number;
+  peakPrice: number;
+  finalMarketCap: number;
+  finalLiquidity: number;
+  feeRevenue: number;
+  volume: number;
+  maxPriceImpactPct: number;
+  avgPriceImpactPct: number;
+  /** Step on which the coin graduated, or null. */
+  graduatedAtStep: number | null;
+}
+
+export interface SimResult {
+  steps: SimStep[];
+  summary: SimSummary;
+}
+
+interface CurveState {
+  circulating: number;
+  price: number;
+  liquidity: number;
+  graduated: boolean;
+  poolTokens: number;
+  poolQuote: number;
+}
+
+export const DEFAULT_CURVE_PARAMS: CurveParams = {
+  initialPrice: 0.001,
+  bondingCurveFactor: 0.00001,
+  totalSupply: 1000000000,
+  feePercentage: 2.5,
+  sellPressureMultiplier: 1.5,
+  maxBuySupplyPercentage: 25,
+  graduationEnabled: true,
+  graduationMetric: 'market_cap',
+  graduationThreshold: 1000000,
+  graduationSeedRule: 'match_price',
+  graduationSeedPercentage: 100,
+};
+
+export const DEFAULT_SYNTHETIC_FLOW: SyntheticFlow = {
+  source: 'synthetic',
+  trades: 200,
+  avgTradeKes: 1000,
+  buyRatio: 0.6,
+  seed: 1,
+};
+
+export const bondingPrice = (p: CurveParams, supply: number) =>
+  p.initialPrice * (1 + p.bondingCurveFactor * supply);
+
+export const curveArea = (p: CurveParams, from: number, to: number) =>
+  p.initialPrice * ((to - from) + (p.bondingCurveFactor || 0) / 2 * (to * to - from * from));
+
+// Market price over curve price, so earlier sell pressure carries into fills
+const anchorOf = (p: CurveParams, s: CurveState) => {
+  const curveSpot = bondingPrice(p, s.circulating);
+  return curveSpot > 0 ? s.price / curveSpot : 1;
+};
+
+function tokensForQuote(p: CurveParams, s: CurveState, quote: number): number {
+  if (!(quote > 0)) return 0;
+  if (s.graduated) return s.poolTokens * quote / (s.poolQuote + quote);
+  const anchor = anchorOf(p, s);
+  if (p.initialPrice <= 0 || anchor <= 0) return 0;
+  const scaled = quote / (anchor * p.initialPrice);
+  const a = (p.bondingCurveFactor || 0) / 2;
+  const b = 1 + (p.bondingCurveFactor || 0) * s.circulating;
+  if (a === 0) return scaled / b;
+  return (Math.sqrt(b * b + 4 * a * scaled) - b) / (2 * a);
+}
+
+interface Fill {
+  totalValue: number;
+  newCirculating: number;
+  newPrice: number;
+}
+
+function priceTrade(p: CurveParams, s: CurveState, type: 'buy' | 'sell', amount: number): Fill {
+  if (s.graduated) {
+    const x = s.poolTokens;
+    const y = s.poolQuote;
+    if (type === 'buy') {
+      const totalValue = y * amount / (x - amount);
+      return { totalValue, newCirculating: s.circulating + amount, newPrice: (y + totalValue) / (x - amount) };
+    }
+    const totalValue = y * amount / (x + amount);
+    return { totalValue, newCirculating: Math.max(0, s.circulating - amount), newPrice: (y - totalValue) / (x + amount) };
+  }
+
+  const anchor = anchorOf(p, s);
+  if (type === 'buy') {
+    const to = s.circulating + amount;
+    return {
+      totalValue: curveArea(p, s.circulating, to) * anchor,
+      newCirculating: to,
+      newPrice: bondingPrice(p, to) * anchor,
+    };
+  }
+  const from = Math.max(0, s.circulating - amount);
+  const pressure = Math.min(0.5, p.sellPressureMultiplier * (amount / Math.max(s.circulating, 1)));
+  return {
+    totalValue: curveArea(p, from, s.circulating) * anchor * (1 - pressure),
+    newCirculating: from,
+    newPrice: Math.max(p.initialPrice * 0.01, bondingPrice(p, from) * anchor * (1 - pressure)),
+  };
+}
+
+function rejectReason(p: CurveParams, s: CurveState, type: 'buy' | 'sell', amount: number): string | null {
+  if (!(amount > 0)) return 'Nothing to trade';
+  if (type === 'sell') {
+    return amount > s.circulating ? 'Sell amount exceeds circulating supply' : null;
+  }
+  const remaining = Math.max(0, p.totalSupply - s.circulating);
+  if (amount > remaining) return 'Requested amount exceeds remaining supply';
+  if (s.graduated && amount >= s.poolTokens) return 'Insufficient pool liquidity';
+  const maxBuy = remaining * (p.maxBuySupplyPercentage / 100);
+  if (maxBuy > 0 && amount > maxBuy) return 'Single trade limit exceeded';
+  return null;
+}
+
+function maybeGraduate(p: CurveParams, s: CurveState): boolean {
+  if (!p.graduationEnabled || s.graduated) return false;
+  const metric = p.graduationMetric === 'liquidity' ? s.liquidity : s.price * s.circulating;
+  if (metric < p.graduationThreshold) return false;
+
+  const remaining = Math.max(0, p.totalSupply - s.circulating);
+  let quote = s.liquidity * p.graduationSeedPercentage / 100;
+  if (remaining <= 0 || quote <= 0 || s.price <= 0) return false;
+
+  let tokens: number;
+  if (p.graduationSeedRule === 'remaining_supply') {
+    tokens = remaining;
+  } else {
+    tokens = Math.min(remaining, quote / s.price);
+    quote = tokens * s.price;
+  }
+  s.graduated = true;
+  s.poolTokens = tokens;
+  s.poolQuote = quote;
+  s.price = quote / tokens;
+  s.liquidity = quote;
+  return true;
+}
+
+/** Replays orders from launch (nothing in circulation) through the curve. */
+export function simulateCurve(p: CurveParams, orders: SimOrder[]): SimResult {
+  const s: CurveState = {
+    circulating: 0,
+    price: bondingPrice(p, 0),
+    liquidity: 0,
+    graduated: false,
+    poolTokens: 0,
+    poolQuote: 0,
+  };
+  const fee = p.feePercentage / 100;
+  const steps: SimStep[] = [];
+  let feeRevenue = 0;
+  let volume = 0;
+  let peakPrice = s.price;
+  let graduatedAtStep: number | null = null;
+
+  orders.forEach((order, i) => {
+    let amount = order.amount ?? 0;
+    if (order.amount === undefined && order.kes) {
+      amount = order.type === 'buy'
+        ? tokensForQuote(p, s, order.kes / (1 + fee))
+        // Synthetic sellers can only sell what has been bought
+        : Math.min(order.kes / s.price, s.circulating);
+    }
+
+    const spot = s.price;
+    const reason = rejectReason(p, s, order.type, amount);
+    let totalValue = 0;
+    let averagePrice = spot;
+    if (!reason) {
+      const fill = priceTrade(p, s, order.type, amount);
+      totalValue = fill.totalValue;
+      averagePrice = totalValue / amount;
+      if (s.graduated) {
+        s.poolTokens += order.type === 'buy' ? -amount : amount;
+        s.poolQuote += order.type === 'buy' ? totalValue : -totalValue;
+        s.liquidity = s.poolQuote;
+      } else {
+        s.liquidity = order.type === 'buy' ? s.liquidity + totalValue : Math.max(0, s.liquidity - totalValue);
+      }
+      s.circulating = fill.newCirculating;
+      s.price = fill.newPrice;
+      feeRevenue += totalValue * fee;
+      volume += totalValue;
+      if (maybeGraduate(p, s)) graduatedAtStep = i + 1;
+      peakPrice = Math.max(peakPrice, s.price);
+    }
+
+    steps.push({
+      step: i + 1,
+      type: order.type,
+      amount,
+      totalValue,
+      averagePrice,
+      priceImpactPct: spot > 0 ? Math.abs(averagePrice - spot) / spot * 100 : 0,
+      price: s.price,
+      marketCap: s.price * s.circulating,
+      liquidity: s.liquidity,
+      circulating: s.circulating,
+      feeRevenue,
+      graduated: s.graduated,
+      ...(reason ? { rejected: reason } : {}),
+    });
+  });
+
+  const filled = steps.filter(st => !st.rejected);
+  return {
+    steps,
+    summary: {
+      trades: filled.length,
+      rejected: steps.length - filled.length,
+      finalPrice: s.price,
+      peakPrice,
+      finalMarketCap: s.price * s.circulating,
+      finalLiquidity: s.liquidity,
+      feeRevenue,
+      volume,
+      maxPriceImpactPct: filled.reduce((max, st) => Math.max(max, st.priceImpactPct), 0),
+      avgPriceImpactPct: filled.length ? filled.reduce((sum, st) => sum + st.priceImpactPct, 0) / filled.length : 0,
+      graduatedAtStep,
+    },
+  };
+}
+
+// mulberry32: small and seedable, so a saved scenario replays the same flow
+const seededRandom = (seed: number) => () => {
+  seed = (seed + 0x6d2b79f5) | 0;
+  let t = Math.imul(seed ^ (seed >>> 15), 1 | seed);
+  t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+  return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+};
+
+/** Random order sizes around the average (exponentially distributed, like real retail flow). */
+export function syntheticOrders(flow: SyntheticFlow): SimOrder[] {
+  const rand = seededRandom(flow.seed);
+  return Array.from({ length: Math.max(0, Math.floor(flow.trades)) }, () => ({
+    type: rand() < flow.buyRatio ? 'buy' as const : 'sell' as const,
+    kes: -Math.log(1 - rand()) * flow.avgTradeKes,
+  }));
+}
+
+/** A coin's completed market trades, oldest first, to replay under other parameters. */
+export async function fetchHistoricalOrders(coinId: string, limit = 5000): Promise<SimOrder[]> {
+  const { data, error } = await supabase
+    .from('transactions')
+    .select('type, amount')
+    .eq('coin_id', coinId)
+    .eq('status', 'completed')
+    .in('type', ['buy', 'sell'])
+    .order('created_at', { ascending: true })
+    .limit(limit);
+  if (error) throw error;
+  return (data || []).map(t => ({ type: t.type as 'buy' | 'sell', amount: Number(t.amount) }));
+}
+
+export async function loadOrders(flow: OrderFlow): Promise<SimOrder[]> {
+  return flow.source === 'historical' ? fetchHistoricalOrders(flow.coinId) : syntheticOrders(flow);
+}
@@ -0,0 +1,124 @@
+/**
+ * Technical indicators over a candle series. Every function returns an array
+ * aligned with its input; positions without enough history are `null`.
+ */
+
+export interface OhlcvPoint {
+  open: number;
+  high: number;
+  low: number;
+  close: number;
+  volume: number;
+}
+
+export type Series = (number | null)[];
+
+export function sma(values: number[], period: number): Series {
+  const out: Series = new Array(values.length).fill(null);
+  if (period <= 0) return out;
+  let sum = 0;
+  for (let i = 0; i < values.length; i++) {
+    sum += values[i];
+    if (i >= period) sum -= values[i - period];
+    if (i >= period - 1) out[i] = sum / period;
+  }
+  return out;
+}
+
+/** Seeded with the SMA of the first `period` values. */
+export function ema(values: number[], period: number): Series {
+  const out: Series = new Array(values.length).fill(null);
+  if (period <= 0 || values.length < period) return out;
+  const k = 2 / (period + 1);
+  let prev = values.slice(0, period).reduce((a, b) => a + b, 0) / period;
+  out[period - 1] = prev;
+  for (let i = period; i < values.length; i++) {
+    prev = values[i] * k + prev * (1 - k);
+    out[i] = prev;
+  }
+  return out;
+}
+
+/** Cumulative VWAP over the series using the typical price (H+L+C)/3. */
+export function vwap(points: OhlcvPoint[]): Series {
+  let pv = 0;
+  let vol = 0;
+  return points.map((p) => {
+    pv += ((p.high + p.low + p.close) / 3) * p.volume;
+    vol += p.volume;
+    return vol > 0 ? pv / vol : null;
+  });
+}
+
+export interface BollingerBands {
+  middle: Series;
+  upper: Series;
+  lower: Series;
+}
+
+/** Population standard deviation, as in the original Bollinger definition. */
+export function bollinger(values: number[], period = 20, mult = 2): BollingerBands {
+  const middle = sma(values, period);
+  const upper: Series = new Array(values.length).fill(null);
+  const lower: Series = new Array(values.length).fill(null);
+  for (let i = period - 1; i < values.length; i++) {
+    const mean = middle[i];
+    if (mean === null) continue;
+    let variance = 0;
+    for (let j = i - period + 1; j <= i; j++) variance += (values[j] - mean) ** 2;
+    const sd = Math.sqrt(variance / period);
+    upper[i] = mean + mult * sd;
+    lower[i] = mean - mult * sd;
+  }
+  return { middle, upper, lower };
+}
+
+/** Wilder-smoothed RSI (0–100). */
+export function rsi(values: number[], period = 14): Series {
+  const out: Series = new Array(values.length).fill(null);
+  if (period <= 0 || values.length <= period) return out;
+
+  let gain = 0;
+  let loss = 0;
+  for (let i = 1; i <= period; i++) {
+    const diff = values[i] - values[i - 1];
+    if (diff >= 0) gain += diff; else loss -= diff;
+  }
+  gain /= period;
+  loss /= period;
+  out[period] = loss === 0 ? 100 : 100 - 100 / (1 + gain / loss);
+
+  for (let i = period + 1; i < values.length; i++) {
+    const diff = values[i] - values[i - 1];
+    gain = (gain * (period - 1) + Math.max(diff, 0)) / period;
+    loss = (loss * (period - 1) + Math.max(-diff, 0)) / period;
+    out[i] = loss === 0 ? 100 : 100 - 100 / (1 + gain / loss);
+  }
+  return out;
+}
+
+export interface MacdResult {
+  macd: Series;
+  signal: Series;
+  histogram: Series;
+}
+
+export function macd(values: number[], fast = 12, slow = 26, signalPeriod = 9): MacdResult {
+  const fastEma = ema(values, fast);
+  const slowEma = ema(values, slow);
+  const line: Series = values.map((_, i) =>
+    fastEma[i] !== null && slowEma[i] !== null ? fastEma[i]! - slowEma[i]! : null,
+  );
+
+  // Signal is an EMA of the defined part of the MACD line
+  const start = line.findIndex((v) => v !== null);
+  const signal: Series = new Array(values.length).fill(null);
+  if (start >= 0) {
+    const defined = line.slice(start) as number[];
+    ema(defined, signalPeriod).forEach((v, i) => { signal[start + i] = v; });
+  }
+  const histogram: Series = line.map((v, i) =>
+    v !== null && signal[i] !== null ? v - signal[i]! : null,
+  );
+  return { macd: line, signal, histogram };
+}
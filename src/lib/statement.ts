@@ -0,0 +1,177 @@
+import { supabase } from '@/integrations/supabase/client';
+
+export type StatementCategory = 'buy' | 'sell' | 'deposit' | 'withdrawal' | 'referral';
+
+export interface StatementEntry {
+  occurred_at: string;
+  category: StatementCategory;
+  description: string;
+  reference: string;
+  quantity: number | null;
+  price: number | null;
+  value: number;
+  fee: number;
+  net: number;
+}
+
+export interface AccountStatement {
+  site: { name: string; logo_url: string | null };
+  account: { name: string | null; email: string | null; phone: string | null };
+  period: { from: string; to: string };
+  generated_at: string;
+  opening_balance: number;
+  closing_balance: number;
+  entries: StatementEntry[];
+  totals: {
+    bought: number;
+    sold: number;
+    deposits: number;
+    withdrawals: number;
+    referral_commissions: number;
+    fees: number;
+  };
+}
+
+export const CATEGORY_LABELS: Record<StatementCategory, string> = {
+  buy: 'Buy',
+  sell: 'Sell',
+  deposit: 'Deposit',
+  withdrawal: 'Withdrawal',
+  referral: 'Referral',
+};
+
+/** `to` is exclusive. */
+export async function fetchAccountStatement(from: Date, to: Date): Promise<AccountStatement> {
+  const { data, error } = await supabase.rpc('get_account_statement', {
+    _from: from.toISOString(),
+    _to: to.toISOString(),
+  });
+  if (error) throw error;
+  return data as unknown as AccountStatement;
+}
+
+const kes = (n: number) => Number(n || 0).toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 });
+
+const periodLabel = (s: AccountStatement) => {
+  const from = new Date(s.period.from);
+  // The period end is exclusive, so show the last day it covers
+  const to = new Date(new Date(s.period.to).getTime() - 1);
+  return `${from.toLocaleDateString()} – ${to.toLocaleDateString()}`;
+};
+
+const csvCell = (value: string | number | null) => {
+  const text = value === null || value === undefined ? '' : String(value);
+  return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+export function statementToCsv(s: AccountStatement): string {
+  const rows: (string | number | null)[][] = [
+    [`${s.site.name} account statement`],
+    ['Account', s.account.name || s.account.email || ''],
+    ['Period', periodLabel(s)],
+    ['Opening balance (KES)', Number(s.opening_balance).toFixed(2)],
+    ['Closing balance (KES)', Number(s.closing_balance).toFixed(2)],
+    [],
+    ['Date', 'Type', 'Description', 'Reference', 'Quantity', 'Price (KES)', 'Value (KES)', 'Fee (KES)', 'Net (KES)'],
+    ...s.entries.map(e => [
+      new Date(e.occurred_at).toISOString(),
+      CATEGORY_LABELS[e.category] || e.category,
+      e.description,
+      e.reference,
+      e.quantity,
+      e.price,
+      Number(e.value).toFixed(2),
+      Number(e.fee).toFixed(2),
+      Number(e.net).toFixed(2),
+    ]),
+  ];
+  return rows.map(r => r.map(csvCell).join(',')).join('\n');
+}
+
+const fileName = (s: AccountStatement, ext: string) =>
+  `statement-${s.period.from.slice(0, 10)}-to-${s.period.to.slice(0, 10)}.${ext}`;
+
+export function downloadStatementCsv(s: AccountStatement) {
+  const blob = new Blob([statementToCsv(s)], { type: 'text/csv;charset=utf-8' });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName(s, 'csv');
+  link.click();
+  URL.revokeObjectURL(url);
+}
+
+const escapeHtml = (text: string) =>
+  text.replace(/[&<>"']/g, ch => ({ '&': '&amp;', '<': '&lt;', '>': '&gt;', '"': '&quot;', "'": '&#39;' }[ch]!));
+
+/**
+ * Writes a branded, print-ready statement into a new window and starts the
+ * browser's print dialog, from which the user saves it as a PDF. Pass a
+ * window opened during the click when the statement is fetched afterwards,
+ * or pop-up blockers will refuse it.
+ */
+export function openStatementPdf(s: AccountStatement, win: Window | null = window.open('', '_blank')) {
+  if (!win) throw new Error('Allow pop-ups to download the PDF statement');
+
+  const rows = s.entries.map(e => `
+    <tr>
+      <td>${new Date(e.occurred_at).toLocaleString()}</td>
+      <td>${CATEGORY_LABELS[e.category] || e.category}</td>
+      <td>${escapeHtml(e.description)}<div class="ref">${escapeHtml(e.reference)}</div></td>
+      <td class="num">${e.quantity !== null ? Number(e.quantity).toLocaleString() : ''}</td>
+      <td class="num">${kes(e.value)}</td>
+      <td class="num">${kes(e.fee)}</td>
+      <td class="num ${e.net >= 0 ? 'pos' : 'neg'}">${kes(e.net)}</td>
+    </tr>`).join('');
+
+  const logo = s.site.logo_url ? `<img src="${escapeHtml(s.site.logo_url)}" alt="" />` : '';
+  win.document.write(`<!DOCTYPE html><html><head><meta charset="utf-8" />
+<title>${escapeHtml(fileName(s, 'pdf'))}</title>
+<style>
+  body { font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif; color: #111827; margin: 32px; font-size: 12px; }
+  header { display: flex; align-items: center; justify-content: space-between; border-bottom: 2px solid #6366f1; padding-bottom: 12px; }
+  header img { height: 40px; margin-right: 12px; }
+  .brand { display: flex; align-items: center; font-size: 20px; font-weight: 700; }
+  .meta { text-align: right; color: #6b7280; }
+  .summary { display: grid; grid-template-columns: repeat(4, 1fr); gap: 8px; margin: 20px 0; }
+  .summary div { background: #f9fafb; border-radius: 8px; padding: 10px; }
+  .summary span { display: block; color: #6b7280; font-size: 10px; text-transform: uppercase; }
+  .summary strong { font-size: 14px; }
+  table { width: 100%; border-collapse: collapse; }
+  th { text-align: left; font-size: 10px; text-transform: uppercase; color: #6b7280; border-bottom: 1px solid #e5e7eb; padding: 6px 4px; }
+  td { border-bottom: 1px solid #f3f4f6; padding: 6px 4px; vertical-align: top; }
+  .num { text-align: right; font-family: ui-monospace, monospace; }
+  .ref { color: #9ca3af; font-size: 10px; }
+  .pos { color: #059669; }
+  .neg { color: #b91c1c; }
+  footer { margin-top: 24px; color: #9ca3af; font-size: 10px; text-align: center; }
+</style></head><body>
+<header>
+  <div class="brand">${logo}${escapeHtml(s.site.name)}</div>
+  <div class="meta">
+    <div><strong>Account statement</strong></div>
+    <div>${escapeHtml(s.account.name || s.account.email || '')}</div>
+    <div>${periodLabel(s)}</div>
+  </div>
+</header>
+<section class="summary">
+  <div><span>Opening balance</span><strong>KES ${kes(s.opening_balance)}</strong></div>
+  <div><span>Deposits</span><strong>KES ${kes(s.totals.deposits)}</strong></div>
+  <div><span>Withdrawals</span><strong>KES ${kes(s.totals.withdrawals)}</strong></div>
+  <div><span>Closing balance</span><strong>KES ${kes(s.closing_balance)}</strong></div>
+  <div><span>Bought</span><strong>KES ${kes(s.totals.bought)}</strong></div>
+  <div><span>Sold</span><strong>KES ${kes(s.totals.sold)}</strong></div>
+  <div><span>Referral commissions</span><strong>KES ${kes(s.totals.referral_commissions)}</strong></div>
+  <div><span>Fees paid</span><strong>KES ${kes(s.totals.fees)}</strong></div>
+</section>
+<table>
+  <thead><tr><th>Date</th><th>Type</th><th>Description</th><th class="num">Qty</th><th class="num">Value</th><th class="num">Fee</th><th class="num">Net</th></tr></thead>
+  <tbody>${rows || '<tr><td colspan="7">No activity in this period.</td></tr>'}</tbody>
+</table>
+<footer>Generated ${new Date(s.generated_at).toLocaleString()} · Amounts in KES · Balances are wallet balances</footer>
+</body></html>`);
+  win.document.close();
+  win.focus();
+  // Give the logo a moment to load before the print snapshot
+  setTimeout(() => win.print(), 300);
+}
@@ -0,0 +1,61 @@
+import { supabase } from '@/integrations/supabase/client';
+
+export interface TradeResult {
+  ok: boolean;
+  transaction_id: string;
+  executed_price: number;
+  spot_price: number;
+  total_value: number;
+  new_market_price: number;
+  fee: number;
+  graduated: boolean;
+  /** Set when an earlier call with the same key made the trade; this is its result. */
+  replayed?: boolean;
+}
+
+export interface ExecuteTradeParams {
+  userId: string;
+  coinId: string;
+  tradeType: 'buy' | 'sell';
+  amount: number;
+  useWallet: boolean;
+  toWallet: boolean;
+  expectedPrice?: number;
+  maxSlippagePct?: number;
+  /** One per intended trade; reuse it for retries. See newRequestKey. */
+  idempotencyKey: string;
+}
+
+export const newRequestKey = () => crypto.randomUUID();
+
+// PostgREST errors carry a SQLSTATE code; a dropped connection doesn't
+const isNetworkError = (error: { code?: string; message?: string }) =>
+  !error.code && /fetch|network|timed? ?out/i.test(error.message || '');
+
+/**
+ * Runs execute_trade, resending with the same idempotency key when the
+ * connection drops, so a trade that did go through is returned rather than
+ * repeated.
+ */
+export async function executeTrade(params: ExecuteTradeParams, retries = 2): Promise<TradeResult> {
+  for (let attempt = 0; ; attempt++) {
+    const { data, error } = await supabase.rpc('execute_trade', {
+      _user_id: params.userId,
+      _coin_id: params.coinId,
+      _trade_type: params.tradeType,
+      _amount: params.amount,
+      _use_wallet: params.useWallet,
+      _to_wallet: params.toWallet,
+      _expected_price: params.expectedPrice,
+      _max_slippage_pct: params.maxSlippagePct,
+      _idempotency_key: params.idempotencyKey,
+    });
+    if (!error) {
+      const result = data as unknown as TradeResult;
+      // A replay of our own lost attempt is still this call's trade
+      return attempt > 0 ? { ...result, replayed: false } : result;
+    }
+    if (attempt >= retries || !isNetworkError(error)) throw error;
+    await new Promise(resolve => setTimeout(resolve, 500 * (attempt + 1)));
+  }
+}
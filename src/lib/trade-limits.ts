@@ -0,0 +1,89 @@
+import { supabase } from '@/integrations/supabase/client';
+
+export type TradeLimitCode =
+  | 'MIN_BUY_AMOUNT'
+  | 'MAX_BUY_AMOUNT'
+  | 'MAX_SUPPLY_PER_TRADE'
+  | 'TRADE_COOLDOWN'
+  | 'HOURLY_VOLUME_LIMIT'
+  | 'DAILY_VOLUME_LIMIT'
+  | 'MAX_HOLDING_PCT';
+
+/** A limit a buy would break, as raised by execute_trade or returned by check_trade_limits. */
+export interface TradeLimitViolation {
+  code: TradeLimitCode;
+  message: string;
+  limit: number;
+  used?: number;
+  retry_after_seconds?: number | null;
+  max_amount?: number;
+}
+
+const CODES: TradeLimitCode[] = [
+  'MIN_BUY_AMOUNT', 'MAX_BUY_AMOUNT', 'MAX_SUPPLY_PER_TRADE', 'TRADE_COOLDOWN',
+  'HOURLY_VOLUME_LIMIT', 'DAILY_VOLUME_LIMIT', 'MAX_HOLDING_PCT',
+];
+
+const kes = (n: number) => `KES ${Number(n).toLocaleString(undefined, { maximumFractionDigits: 2 })}`;
+
+export const formatWait = (seconds: number) => {
+  if (seconds < 60) return `${Math.max(1, Math.ceil(seconds))}s`;
+  if (seconds < 3600) return `${Math.ceil(seconds / 60)} min`;
+  const hours = Math.floor(seconds / 3600);
+  const minutes = Math.ceil((seconds % 3600) / 60);
+  return minutes ? `${hours}h ${minutes}m` : `${hours}h`;
+};
+
+/** Reads the violation out of a failed RPC's `details`, or null for any other error. */
+export function parseTradeLimitError(error: unknown): TradeLimitViolation | null {
+  const details = (error as { details?: unknown } | null)?.details;
+  if (typeof details !== 'string') return null;
+  try {
+    const parsed = JSON.parse(details);
+    return CODES.includes(parsed?.code) ? parsed as TradeLimitViolation : null;
+  } catch {
+    return null;
+  }
+}
+
+export function describeTradeLimit(v: TradeLimitViolation): string {
+  const retry = v.retry_after_seconds ? ` Try again in ${formatWait(v.retry_after_seconds)}.` : '';
+  switch (v.code) {
+    case 'MIN_BUY_AMOUNT':
+      return `The minimum buy is ${kes(v.limit)}.`;
+    case 'MAX_BUY_AMOUNT':
+      return `The maximum buy is ${kes(v.limit)} per trade.`;
+    case 'MAX_SUPPLY_PER_TRADE':
+      return `One trade can buy at most ${Number(v.limit).toLocaleString()} tokens right now.`;
+    case 'TRADE_COOLDOWN':
+      return `Trading too fast — wait ${formatWait(v.retry_after_seconds || v.limit)} before trading this coin again.`;
+    case 'HOURLY_VOLUME_LIMIT':
+      return `You've bought ${kes(v.used || 0)} of this coin in the last hour; the hourly limit is ${kes(v.limit)}.${retry}`;
+    case 'DAILY_VOLUME_LIMIT':
+      return `You've bought ${kes(v.used || 0)} of this coin in the last 24 hours; the daily limit is ${kes(v.limit)}.${retry}`;
+    case 'MAX_HOLDING_PCT':
+      return v.max_amount
+        ? `One account may hold at most ${v.limit}% of the supply. You can buy up to ${Number(v.max_amount).toLocaleString()} more.`
+        : `One account may hold at most ${v.limit}% of the supply, and you've reached it.`;
+    default:
+      return v.message;
+  }
+}
+
+/** User-facing text for a failed trade, explaining limit rejections. */
+export function tradeErrorMessage(error: unknown, fallback = 'Failed to process transaction'): string {
+  const violation = parseTradeLimitError(error);
+  if (violation) return describeTradeLimit(violation);
+  return (error as { message?: string } | null)?.message || fallback;
+}
+
+/**
+ * Checks a buy against the anti-whale limits before an off-platform payment
+ * (M-Pesa) is requested. Returns the violation, or null when it may proceed.
+ */
+export async function checkBuyLimits(coinId: string, amount: number): Promise<TradeLimitViolation | null> {
+  const { data, error } = await supabase.rpc('check_trade_limits', { _coin_id: coinId, _amount: amount });
+  if (error) throw error;
+  const result = data as unknown as { ok: boolean } & Partial<TradeLimitViolation>;
+  return result.ok || !result.code || !CODES.includes(result.code) ? null : result as TradeLimitViolation;
+}
@@ -7,7 +7,7 @@ import { Navigate } from 'react-router-dom';
 import {
   Shield, Coins, Users, Settings, CreditCard, DollarSign, Layout, 
   ArrowDownToLine, Bot, Ban, Bell, Mail, MessageSquare, Phone,
-  BarChart3, Plug, ChevronLeft, ChevronRight, ShieldCheck, Send, CalendarClock, Radio, Activity
+  BarChart3, Plug, ChevronLeft, ChevronRight, ShieldCheck, Send, CalendarClock, Radio, Activity, FlaskConical, Scale, Trophy
 } from 'lucide-react';
 import { MpesaSettings } from '@/components/admin/MpesaSettings';
 import { PlatformSettings } from '@/components/admin/PlatformSettings';
@@ -31,6 +31,9 @@ import { LiveStreamManagement } from '@/components/admin/LiveStreamManagement';
 import { AutoGenerateToken } from '@/components/admin/AutoGenerateToken';
 import { SocialAuthSettings } from '@/components/admin/SocialAuthSettings';
 import { PerformanceMonitorPanel } from '@/components/admin/PerformanceMonitorPanel';
+import { CurveSimulator } from '@/components/admin/CurveSimulator';
+import { MarketMakerReport } from '@/components/admin/MarketMakerReport';
+import { LeaderboardSettings } from '@/components/admin/LeaderboardSettings';
 import { cn } from '@/lib/utils';
 import { Button } from '@/components/ui/button';
 import { ScrollArea } from '@/components/ui/scroll-area';
@@ -55,14 +58,17 @@ const sidebarSections: SidebarSection[] = [
       { id: 'analytics', label: 'Analytics', icon: BarChart3 },
       { id: 'commissions', label: 'Revenue', icon: DollarSign },
       { id: 'performance', label: 'Performance', icon: Activity },
+      { id: 'market-maker', label: 'Market Maker', icon: Scale },
     ],
   },
   {
     label: 'Management',
     items: [
       { id: 'coins', label: 'Coins', icon: Coins },
+      { id: 'curve-simulator', label: 'Curve Simulator', icon: FlaskConical },
       { id: 'users', label: 'Users', icon: Users },
       { id: 'live-streams', label: 'Live Streams', icon: Radio },
+      { id: 'leaderboards', label: 'Leaderboards', icon: Trophy },
       { id: 'withdrawals', label: 'Withdrawals', icon: ArrowDownToLine },
     ],
   },
@@ -120,9 +126,12 @@ export default function Admin() {
       case 'analytics': return <AdminAnalytics />;
       case 'commissions': return <CommissionDashboard />;
       case 'performance': return <PerformanceMonitorPanel />;
+      case 'market-maker': return <MarketMakerReport />;
       case 'coins': return <div className="space-y-4"><AutoGenerateToken userId={user.id} onSuccess={() => {}} /><CoinManagement userId={user.id} isSuperAdmin={true} /><BlockedWordsManager /></div>;
+      case 'curve-simulator': return <CurveSimulator />;
       case 'users': return <UserManagement currentUserId={user.id} isSuperAdmin={true} />;
       case 'live-streams': return <LiveStreamManagement />;
+      case 'leaderboards': return <LeaderboardSettings />;
       case 'withdrawals': return <WithdrawalManagement />;
       case 'send-notification': return <SendNotification />;
       case 'scheduled': return <ScheduledNotifications />;
@@ -9,19 +9,28 @@ import { Card, CardContent } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { TradingChart } from '@/components/trading/TradingChart';
 import { OrderBook } from '@/components/trading/OrderBook';
+import { OpenOrders } from '@/components/trading/OpenOrders';
+import { ConditionalOrders } from '@/components/trading/ConditionalOrders';
+import { RecurringBuys } from '@/components/trading/RecurringBuys';
 import { TradeHistory } from '@/components/trading/TradeHistory';
 import { TradingPanel } from '@/components/trading/TradingPanel';
 import { MarketStats } from '@/components/trading/MarketStats';
 import { CoinInfo } from '@/components/trading/CoinInfo';
 import { MpesaPaymentModal } from '@/components/trading/MpesaPaymentModal';
 import { CoinContractInfo } from '@/components/coins/CoinContractInfo';
+import { HolderDistribution } from '@/components/coins/HolderDistribution';
+import { BurnHistory } from '@/components/coins/BurnHistory';
 import { useStkPolling } from '@/hooks/use-stk-polling';
-import { ArrowLeft, Loader2, AlertCircle, ArrowDown, TrendingUp } from 'lucide-react';
+import { ArrowLeft, Loader2, AlertCircle, ArrowDown, TrendingUp, GraduationCap } from 'lucide-react';
 import { Tabs, TabsList, TabsTrigger, TabsContent } from '@/components/ui/tabs';
 import { toast } from 'sonner';
 import { PriceAlertDialog } from '@/components/trading/PriceAlertDialog';
-import { usePushNotifications, usePriceAlerts } from '@/hooks/use-push-notifications';
+import { WatchlistStar } from '@/components/coins/WatchlistStar';
+import { usePushNotifications } from '@/hooks/use-push-notifications';
 import { useLiveMarketMetrics } from '@/hooks/use-live-market-metrics';
+import { fetchTradeQuote, exceedsSlippage, type SlippageGuard } from '@/hooks/use-trade-quote';
+import { tradeErrorMessage } from '@/lib/trade-limits';
+import { executeTrade } from '@/lib/trade-execution';
 
 interface CoinData {
   id: string;
@@ -45,6 +54,10 @@ interface CoinData {
   contract_address?: string | null;
   price_change_24h?: number;
   creator_id?: string | null;
+  is_graduated?: boolean;
+  graduated_at?: string | null;
+  circuit_breaker_reason?: string | null;
+  circuit_breaker_until?: string | null;
   // Override fields
   use_market_cap_override?: boolean;
   market_cap_override?: number | null;
@@ -84,6 +97,7 @@ export default function CoinDetail() {
   const [checkoutRequestId, setCheckoutRequestId] = useState<string | null>(null);
   const [pendingTransactionId, setPendingTransactionId] = useState<string | null>(null);
   const [userHolding, setUserHolding] = useState<number>(0);
+  const [userAvgBuyPrice, setUserAvgBuyPrice] = useState<number>(0);
   const [userFiatBalance, setUserFiatBalance] = useState<number>(0);
   const [settings, setSettings] = useState<SiteSettings>({
     min_buy_amount: 100, max_buy_amount: 100000, fee_percentage: 2.5, admin_commission: 2.5,
@@ -93,7 +107,6 @@ export default function CoinDetail() {
   const [pendingBuyAmount, setPendingBuyAmount] = useState(0);
   const [stkStage, setStkStage] = useState<StkStage>('sent');
   const { sendLocalNotification } = usePushNotifications(user?.id);
-  const { checkAlerts } = usePriceAlerts();
 
   // STK Polling hook - replaces manual polling
   useStkPolling({
@@ -162,15 +175,6 @@ export default function CoinDetail() {
         (payload) => {
           const updated = payload.new as CoinData;
           setCoin(updated);
-          // Check price alerts
-          const triggered = checkAlerts(updated.id, updated.price);
-          triggered.forEach(alert => {
-            sendLocalNotification(
-              `🔔 ${alert.coinSymbol} Price Alert`,
-              `${alert.coinSymbol} is now ${alert.direction === 'above' ? 'above' : 'below'} KES ${alert.targetPrice} — Current: KES ${updated.price.toFixed(6)}`
-            );
-            toast.info(`${alert.coinSymbol} hit KES ${alert.targetPrice}!`);
-          });
         })
       .subscribe();
     return () => { supabase.removeChannel(channel); };
@@ -199,10 +203,11 @@ export default function CoinDetail() {
   const fetchUserData = async () => {
     if (!user || !coin) return;
     const [holdingRes, walletRes] = await Promise.all([
-      supabase.from('holdings').select('amount').eq('user_id', user.id).eq('coin_id', coin.id).maybeSingle(),
+      supabase.from('holdings').select('amount, average_buy_price').eq('user_id', user.id).eq('coin_id', coin.id).maybeSingle(),
       supabase.from('wallets').select('fiat_balance').eq('user_id', user.id).maybeSingle(),
     ]);
     setUserHolding(holdingRes.data?.amount || 0);
+    setUserAvgBuyPrice(holdingRes.data?.amount ? holdingRes.data.average_buy_price || 0 : 0);
     if (walletRes.data) setUserFiatBalance(walletRes.data.fiat_balance);
   };
 
@@ -210,30 +215,42 @@ export default function CoinDetail() {
     tradingPanelRef.current?.scrollIntoView({ behavior: 'smooth', block: 'start' });
   };
 
-  const handleBuy = async (amount: number, phone: string, useWallet: boolean) => {
+  const handleBuy = async (amount: number, phone: string, useWallet: boolean, guard: SlippageGuard, requestKey: string) => {
     if (!user || !coin) { toast.error('Please sign in to buy coins'); return; }
 
-    const totalValue = amount * coin.price;
-    const fee = totalValue * (settings.fee_percentage / 100);
-    const totalWithFee = totalValue + fee;
-
     setProcessing(true);
     try {
+      // Price against the curve (or pool, once graduated), as execute_trade will
+      const quote = await fetchTradeQuote(coin.id, 'buy', amount);
+      if (!quote.ok) { toast.error(quote.error || 'Unable to price this trade'); setProcessing(false); return; }
+      if (exceedsSlippage('buy', quote.average_price, guard)) {
+        toast.error('Price moved beyond your slippage tolerance. Review the new quote and try again.');
+        setProcessing(false);
+        return;
+      }
+      const totalValue = quote.total_value;
+      const totalWithFee = quote.net_total;
+
       if (useWallet) {
         if (totalWithFee > userFiatBalance) { toast.error('Insufficient wallet balance'); setProcessing(false); return; }
 
         // Atomic single-RPC trade — fast & race-safe
-        const { error: rpcErr } = await (supabase.rpc as any)('execute_trade', {
-          _user_id: user.id,
-          _coin_id: coin.id,
-          _trade_type: 'buy',
-          _amount: amount,
-          _use_wallet: true,
-          _to_wallet: false,
+        const trade = await executeTrade({
+          userId: user.id,
+          coinId: coin.id,
+          tradeType: 'buy',
+          amount,
+          useWallet: true,
+          toWallet: false,
+          expectedPrice: guard.expectedPrice,
+          maxSlippagePct: guard.maxSlippagePct,
+          idempotencyKey: requestKey,
         });
-        if (rpcErr) throw rpcErr;
+        // A second tap on the same order; the first one reports the outcome
+        if (trade.replayed) return;
 
         toast.success('Purchase successful!');
+        if (trade?.graduated) toast.success(`${coin.symbol} just graduated to a liquidity pool!`);
         sendLocalNotification('✅ Trade Confirmed', `Bought ${amount.toLocaleString()} ${coin.symbol} for KES ${totalValue.toLocaleString()}`);
         fetchUserData();
         fetchData();
@@ -244,8 +261,10 @@ export default function CoinDetail() {
 
         const { data: transaction, error: txError } = await supabase
           .from('transactions')
-          .insert({ user_id: user.id, coin_id: coin.id, type: 'buy', amount, price_per_coin: coin.price, total_value: totalValue, phone, status: 'pending' })
+          .insert({ user_id: user.id, coin_id: coin.id, type: 'buy', amount, price_per_coin: quote.average_price, total_value: totalValue, phone, status: 'pending', max_slippage_pct: guard.maxSlippagePct, idempotency_key: requestKey })
           .select().single();
+        // Unique key violation: this purchase was already submitted
+        if (txError?.code === '23505') { setProcessing(false); return; }
         if (txError) throw txError;
 
         setPendingTransactionId(transaction.id);
@@ -255,7 +274,7 @@ export default function CoinDetail() {
         setShowPaymentModal(true);
 
         const { data: stkData, error: stkError } = await supabase.functions.invoke('mpesa-stk-push', {
-          body: { phone: formattedPhone, amount: Math.round(totalWithFee), transactionId: transaction.id, accountReference: `${coin.symbol}-${transaction.id.slice(0, 8)}` },
+          body: { phone: formattedPhone, amount: Math.round(totalWithFee), transactionId: transaction.id, accountReference: `${coin.symbol}-${transaction.id.slice(0, 8)}`, idempotencyKey: requestKey },
         });
 
         if (stkError || (stkData && !stkData.success)) {
@@ -273,32 +292,34 @@ export default function CoinDetail() {
         toast.success('Check your phone for M-PESA prompt!');
       }
     } catch (error: any) {
-      toast.error(error.message || 'Failed to process transaction');
+      toast.error(tradeErrorMessage(error));
       setPaymentStatus('failed');
     } finally {
       setProcessing(false);
     }
   };
 
-  const handleSell = async (amount: number, toWallet: boolean) => {
+  const handleSell = async (amount: number, toWallet: boolean, guard: SlippageGuard, requestKey: string) => {
     if (!user || !coin) { toast.error('Please sign in to sell coins'); return; }
     if (amount > userHolding) { toast.error('Insufficient balance'); return; }
 
     setProcessing(true);
     try {
-      const totalValue = amount * coin.price;
-      const fee = totalValue * (settings.fee_percentage / 100);
-      const netValue = totalValue - fee;
-
-      const { error: rpcErr } = await (supabase.rpc as any)('execute_trade', {
-        _user_id: user.id,
-        _coin_id: coin.id,
-        _trade_type: 'sell',
-        _amount: amount,
-        _use_wallet: false,
-        _to_wallet: toWallet,
+      const trade = await executeTrade({
+        userId: user.id,
+        coinId: coin.id,
+        tradeType: 'sell',
+        amount,
+        useWallet: false,
+        toWallet,
+        expectedPrice: guard.expectedPrice,
+        maxSlippagePct: guard.maxSlippagePct,
+        idempotencyKey: requestKey,
       });
-      if (rpcErr) throw rpcErr;
+      if (trade.replayed) return;
+
+      // Proceeds as executed
+      const netValue = Number(trade?.total_value || 0) - Number(trade?.fee || 0);
 
       if (toWallet) {
         toast.success(`Sold! KES ${netValue.toLocaleString()} added to wallet.`);
@@ -311,7 +332,37 @@ export default function CoinDetail() {
       fetchUserData();
       fetchData();
     } catch (error: any) {
-      toast.error(error.message || 'Failed to process transaction');
+      toast.error(tradeErrorMessage(error));
+    } finally {
+      setProcessing(false);
+    }
+  };
+
+  const handlePlaceLimit = async (side: 'buy' | 'sell', price: number, amount: number) => {
+    if (!user || !coin) { toast.error('Please sign in to trade'); return; }
+
+    setProcessing(true);
+    try {
+      const { data, error } = await supabase.rpc('place_limit_order', {
+        _coin_id: coin.id,
+        _side: side,
+        _price: price,
+        _amount: amount,
+      });
+      if (error) throw error;
+
+      const result = data as { filled?: number; status?: string } | null;
+      const filled = Number(result?.filled || 0);
+      if (result?.status === 'filled') {
+        toast.success(`Limit ${side} filled: ${filled.toLocaleString()} ${coin.symbol}`);
+      } else if (filled > 0) {
+        toast.success(`Limit ${side} partially filled (${filled.toLocaleString()} ${coin.symbol}), rest is on the book`);
+      } else {
+        toast.success(`Limit ${side} placed at KES ${price}`);
+      }
+      fetchUserData();
+    } catch (error) {
+      toast.error(tradeErrorMessage(error, 'Failed to place order'));
     } finally {
       setProcessing(false);
     }
@@ -352,6 +403,15 @@ export default function CoinDetail() {
             <span className="sm:hidden">Back</span>
           </Link>
           <div className="flex items-center gap-2">
+            {coin.is_graduated && (
+              <div
+                className="flex items-center gap-1 px-2 py-1 rounded-full bg-primary/10 border border-primary/30"
+                title={coin.graduated_at ? `Graduated ${new Date(coin.graduated_at).toLocaleDateString()} · trades against its liquidity pool` : 'Trades against its liquidity pool'}
+              >
+                <GraduationCap className="h-3 w-3 text-primary" />
+                <span className="font-bold text-primary text-xs">Graduated</span>
+              </div>
+            )}
             {priceMultiplier > 1 && (
               <motion.div initial={{ scale: 0.8, opacity: 0 }} animate={{ scale: 1, opacity: 1 }}
                 className="flex items-center gap-1 px-2 py-1 rounded-full bg-success/10 border border-success/30">
@@ -359,6 +419,7 @@ export default function CoinDetail() {
                 <span className="font-bold text-success text-xs">{priceMultiplier.toFixed(2)}x</span>
               </motion.div>
             )}
+            <WatchlistStar coinId={coin.id} coinSymbol={coin.symbol} className="h-8 w-8" />
             <PriceAlertDialog
               coinId={coin.id}
               coinName={coin.name}
@@ -372,7 +433,16 @@ export default function CoinDetail() {
           <motion.div initial={{ opacity: 0, y: -10 }} animate={{ opacity: 1, y: 0 }}
             className="mb-3 p-2.5 rounded-lg bg-warning/10 border border-warning/20 flex items-center gap-2">
             <AlertCircle className="h-4 w-4 text-warning flex-shrink-0" />
-            <span className="text-warning font-medium text-xs">Trading is currently paused</span>
+            {coin.circuit_breaker_reason ? (
+              <span className="text-warning text-xs">
+                <span className="font-medium">Circuit breaker: trading halted.</span> {coin.circuit_breaker_reason}.{' '}
+                {coin.circuit_breaker_until
+                  ? `Resumes around ${new Date(coin.circuit_breaker_until).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}.`
+                  : 'Under review.'}
+              </span>
+            ) : (
+              <span className="text-warning font-medium text-xs">Trading is currently paused</span>
+            )}
           </motion.div>
         )}
 
@@ -387,7 +457,7 @@ export default function CoinDetail() {
           <motion.div initial={{ opacity: 0, y: 10 }} animate={{ opacity: 1, y: 0 }} className="mb-3">
             <Card className="glass-card">
               <CardContent className="p-2.5 sm:p-4">
-                <CoinContractInfo contractAddress={coin.contract_address} coinName={coin.name} coinSymbol={coin.symbol} coinId={coin.id} />
+                <CoinContractInfo contractAddress={coin.contract_address} coinName={coin.name} coinSymbol={coin.symbol} coinId={coin.id} creatorId={coin.creator_id} />
               </CardContent>
             </Card>
           </motion.div>
@@ -408,27 +478,42 @@ export default function CoinDetail() {
                   <TabsTrigger value="trades" className="text-[10px] sm:text-xs">Trades</TabsTrigger>
                 </TabsList>
                 <TabsContent value="chart" className="mt-2">
-                  <Card className="glass-card overflow-hidden"><CardContent className="p-1 h-[220px] sm:h-[280px]"><TradingChart symbol={coin.symbol} currentPrice={coin.price} volatility={coin.volatility} coinId={coin.id} isOverridden={isAnyOverridden} /></CardContent></Card>
+                  <Card className="glass-card overflow-hidden"><CardContent className="p-1 h-[300px] sm:h-[360px]"><TradingChart symbol={coin.symbol} currentPrice={coin.price} volatility={coin.volatility} coinId={coin.id} isOverridden={isAnyOverridden} userId={user?.id} averageBuyPrice={userAvgBuyPrice} /></CardContent></Card>
                 </TabsContent>
                 <TabsContent value="orderbook" className="mt-2">
-                  <Card className="glass-card overflow-hidden"><CardContent className="p-1 h-[260px] overflow-auto"><OrderBook currentPrice={coin.price} symbol={coin.symbol} coinId={coin.id} isOverridden={isAnyOverridden} /></CardContent></Card>
+                  <Card className="glass-card overflow-hidden"><CardContent className="p-1 h-[260px] overflow-auto"><OrderBook currentPrice={coin.price} symbol={coin.symbol} coinId={coin.id} /></CardContent></Card>
                 </TabsContent>
                 <TabsContent value="trades" className="mt-2">
-                  <Card className="glass-card overflow-hidden"><CardContent className="p-1 h-[260px] overflow-auto"><TradeHistory currentPrice={coin.price} symbol={coin.symbol} coinId={coin.id} isOverridden={isAnyOverridden} /></CardContent></Card>
+                  <Card className="glass-card overflow-hidden"><CardContent className="p-1 h-[260px] overflow-auto"><TradeHistory currentPrice={coin.price} symbol={coin.symbol} coinId={coin.id} isOverridden={isAnyOverridden} burnedSupply={coin.burned_supply} /></CardContent></Card>
                 </TabsContent>
               </Tabs>
             </div>
 
             {/* Desktop */}
             <div className="hidden lg:block space-y-4">
-              <Card className="glass-card overflow-hidden"><CardContent className="p-4 h-[450px]"><TradingChart symbol={coin.symbol} currentPrice={coin.price} volatility={coin.volatility} coinId={coin.id} isOverridden={isAnyOverridden} /></CardContent></Card>
+              <Card className="glass-card overflow-hidden"><CardContent className="p-4 h-[540px]"><TradingChart symbol={coin.symbol} currentPrice={coin.price} volatility={coin.volatility} coinId={coin.id} isOverridden={isAnyOverridden} userId={user?.id} averageBuyPrice={userAvgBuyPrice} /></CardContent></Card>
               <div className="grid gap-4 grid-cols-2">
-                <Card className="glass-card h-[400px] overflow-hidden"><CardContent className="p-4 h-full overflow-auto"><OrderBook currentPrice={coin.price} symbol={coin.symbol} coinId={coin.id} isOverridden={isAnyOverridden} /></CardContent></Card>
-                <Card className="glass-card h-[400px] overflow-hidden"><CardContent className="p-4 h-full overflow-auto"><TradeHistory currentPrice={coin.price} symbol={coin.symbol} coinId={coin.id} isOverridden={isAnyOverridden} /></CardContent></Card>
+                <Card className="glass-card h-[400px] overflow-hidden"><CardContent className="p-4 h-full overflow-auto"><OrderBook currentPrice={coin.price} symbol={coin.symbol} coinId={coin.id} /></CardContent></Card>
+                <Card className="glass-card h-[400px] overflow-hidden"><CardContent className="p-4 h-full overflow-auto"><TradeHistory currentPrice={coin.price} symbol={coin.symbol} coinId={coin.id} isOverridden={isAnyOverridden} burnedSupply={coin.burned_supply} /></CardContent></Card>
               </div>
             </div>
 
-            <Card className="glass-card"><CardContent className="p-3 sm:p-6"><CoinInfo coin={displayCoin} /></CardContent></Card>
+            <Card className="glass-card">
+              <CardContent className="p-3 sm:p-6">
+                <Tabs defaultValue="about">
+                  <TabsList className="h-9 mb-3">
+                    <TabsTrigger value="about" className="text-xs">About</TabsTrigger>
+                    <TabsTrigger value="holders" className="text-xs">Holders</TabsTrigger>
+                    <TabsTrigger value="burns" className="text-xs">Burns</TabsTrigger>
+                  </TabsList>
+                  <TabsContent value="about" className="mt-0"><CoinInfo coin={displayCoin} /></TabsContent>
+                  <TabsContent value="holders" className="mt-0"><HolderDistribution coinId={coin.id} symbol={coin.symbol} /></TabsContent>
+                  <TabsContent value="burns" className="mt-0">
+                    <BurnHistory coinId={coin.id} symbol={coin.symbol} burnedSupply={coin.burned_supply} userHolding={userHolding} onBurned={fetchUserData} />
+                  </TabsContent>
+                </Tabs>
+              </CardContent>
+            </Card>
           </div>
 
           <motion.div ref={tradingPanelRef} initial={{ opacity: 0, x: 20 }} animate={{ opacity: 1, x: 0 }} transition={{ delay: 0.2 }}
@@ -436,6 +521,7 @@ export default function CoinDetail() {
             <Card className="glass-card overflow-hidden">
               <CardContent className="p-0 min-h-[450px] sm:min-h-[500px]">
                 <TradingPanel
+                  coinId={coin.id}
                   symbol={coin.symbol}
                   currentPrice={coin.price}
                   userBalance={userHolding}
@@ -445,11 +531,45 @@ export default function CoinDetail() {
                   feePercentage={settings.fee_percentage}
                   onBuy={handleBuy}
                   onSell={handleSell}
+                  onPlaceLimit={handlePlaceLimit}
                   processing={processing}
                   isAuthenticated={!!user}
                 />
               </CardContent>
             </Card>
+            {user && (
+              <Card className="glass-card mt-3">
+                <CardContent className="p-3">
+                  <OpenOrders coinId={coin.id} userId={user.id} symbol={coin.symbol} onChange={fetchUserData} />
+                </CardContent>
+              </Card>
+            )}
+            {user && (
+              <Card className="glass-card mt-3">
+                <CardContent className="p-3">
+                  <ConditionalOrders
+                    coinId={coin.id}
+                    userId={user.id}
+                    symbol={coin.symbol}
+                    currentPrice={coin.price}
+                    holding={userHolding}
+                    onChange={fetchUserData}
+                  />
+                </CardContent>
+              </Card>
+            )}
+            {user && (
+              <Card className="glass-card mt-3">
+                <CardContent className="p-3">
+                  <RecurringBuys
+                    userId={user.id}
+                    coinId={coin.id}
+                    minBuyAmount={settings.min_buy_amount}
+                    maxBuyAmount={settings.max_buy_amount}
+                  />
+                </CardContent>
+              </Card>
+            )}
           </motion.div>
         </div>
       </main>
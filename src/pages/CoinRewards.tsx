@@ -0,0 +1,87 @@
+import { useEffect, useState } from 'react';
+import { useParams, useNavigate, Link } from 'react-router-dom';
+import { motion } from 'framer-motion';
+import { Navbar } from '@/components/layout/Navbar';
+import { Footer } from '@/components/layout/Footer';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { HolderSnapshots } from '@/components/coins/HolderSnapshots';
+import { AirdropManager } from '@/components/coins/AirdropManager';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/lib/auth-context';
+import { ArrowLeft, Camera, Gift, Loader2 } from 'lucide-react';
+import { toast } from 'sonner';
+
+interface RewardCoin {
+  id: string;
+  name: string;
+  symbol: string;
+  creator_id: string | null;
+}
+
+export default function CoinRewards() {
+  const { id } = useParams<{ id: string }>();
+  const navigate = useNavigate();
+  const { user, isAdmin } = useAuth();
+  const [coin, setCoin] = useState<RewardCoin | null>(null);
+
+  useEffect(() => {
+    if (!id || !user) return;
+    supabase
+      .from('coins')
+      .select('id, name, symbol, creator_id')
+      .eq('id', id)
+      .maybeSingle()
+      .then(({ data }) => {
+        if (!data || (data.creator_id !== user.id && !isAdmin)) {
+          toast.error('Only the coin creator can manage rewards');
+          navigate('/create-coin');
+          return;
+        }
+        setCoin(data);
+      });
+  }, [id, user, isAdmin, navigate]);
+
+  return (
+    <div className="min-h-screen bg-background">
+      <Navbar />
+
+      <main className="container pt-24 sm:pt-32 pb-16 px-4 sm:px-6 max-w-3xl">
+        {!coin ? (
+          <div className="flex justify-center py-12"><Loader2 className="h-8 w-8 animate-spin text-primary" /></div>
+        ) : (
+          <>
+            <motion.div initial={{ opacity: 0, y: 20 }} animate={{ opacity: 1, y: 0 }} className="mb-6">
+              <Link to="/create-coin">
+                <Button variant="ghost" size="sm" className="gap-1.5 -ml-2 mb-2"><ArrowLeft className="h-4 w-4" /> My coins</Button>
+              </Link>
+              <h1 className="text-2xl sm:text-3xl font-bold font-display mb-1">{coin.name} Rewards</h1>
+              <p className="text-muted-foreground text-sm">Snapshot your holders and airdrop {coin.symbol} or KES to your community</p>
+            </motion.div>
+
+            <div className="space-y-4">
+              <Card className="glass-card">
+                <CardHeader className="pb-3">
+                  <CardTitle className="text-base flex items-center gap-2"><Camera className="h-4 w-4 text-primary" /> Holder Snapshots</CardTitle>
+                </CardHeader>
+                <CardContent>
+                  <HolderSnapshots coinId={coin.id} symbol={coin.symbol} />
+                </CardContent>
+              </Card>
+              <Card className="glass-card">
+                <CardHeader className="pb-3">
+                  <CardTitle className="text-base flex items-center gap-2"><Gift className="h-4 w-4 text-primary" /> Airdrops</CardTitle>
+                </CardHeader>
+                <CardContent>
+                  <AirdropManager coinId={coin.id} symbol={coin.symbol} />
+                </CardContent>
+              </Card>
+            </div>
+          </>
+        )}
+      </main>
+
+      <Footer />
+    </div>
+  );
+}
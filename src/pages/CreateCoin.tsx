@@ -10,7 +10,7 @@ import { Button } from '@/components/ui/button';
 import { Card, CardContent } from '@/components/ui/card';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
-import { Plus, Coins, Loader2, Phone, CreditCard, Radio } from 'lucide-react';
+import { Plus, Coins, Loader2, Phone, CreditCard, Radio, Gift, BarChart3 } from 'lucide-react';
 import { Link } from 'react-router-dom';
 import {
   Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription,
@@ -159,11 +159,21 @@ export default function CreateCoin() {
               <h1 className="text-2xl sm:text-3xl font-bold font-display mb-1">Create Coin</h1>
               <p className="text-muted-foreground text-sm">Launch your own token on the platform</p>
             </div>
-            <Button variant="hero" className="gap-2" onClick={() => setShowDialog(true)}>
-              <Plus className="h-4 w-4" />
-              <span className="hidden sm:inline">New Coin</span>
-              <span className="sm:hidden">New</span>
-            </Button>
+            <div className="flex gap-2">
+              {myCoins.some(c => c.is_approved) && (
+                <Link to="/creator">
+                  <Button variant="outline" className="gap-2">
+                    <BarChart3 className="h-4 w-4" />
+                    <span className="hidden sm:inline">Dashboard</span>
+                  </Button>
+                </Link>
+              )}
+              <Button variant="hero" className="gap-2" onClick={() => setShowDialog(true)}>
+                <Plus className="h-4 w-4" />
+                <span className="hidden sm:inline">New Coin</span>
+                <span className="sm:hidden">New</span>
+              </Button>
+            </div>
           </div>
         </motion.div>
 
@@ -237,6 +247,11 @@ export default function CreateCoin() {
                         <Link to={`/coin/${coin.id}`} className="flex-1">
                           <Button variant="outline" size="sm" className="w-full">View</Button>
                         </Link>
+                        <Link to={`/create-coin/${coin.id}/rewards`}>
+                          <Button variant="outline" size="sm" className="gap-1">
+                            <Gift className="h-3 w-3" /> Rewards
+                          </Button>
+                        </Link>
                         <GoLiveDialog>
                           <Button variant="destructive" size="sm" className="gap-1">
                             <Radio className="h-3 w-3" /> Live
@@ -0,0 +1,183 @@
+import { useState } from 'react';
+import { Link } from 'react-router-dom';
+import { motion } from 'framer-motion';
+import { AreaChart, Area, XAxis, YAxis, Tooltip, ResponsiveContainer } from 'recharts';
+import { Navbar } from '@/components/layout/Navbar';
+import { Footer } from '@/components/layout/Footer';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Tabs, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { CreatorCoinInsights } from '@/components/creator/CreatorCoinInsights';
+import { CreatorPayouts } from '@/components/creator/CreatorPayouts';
+import { useCreatorDashboard } from '@/hooks/use-creator-dashboard';
+import { ArrowLeft, BarChart3, Coins, Loader2, Radio, Users, Wallet } from 'lucide-react';
+
+const PERIODS = [7, 30, 90];
+
+const formatKes = (v: number) =>
+  Number(v).toLocaleString(undefined, { notation: 'compact', maximumSignificantDigits: 4 });
+
+function Stat({ icon: Icon, label, value, hint }: { icon: React.ElementType; label: string; value: string; hint?: string }) {
+  return (
+    <div className="rounded-lg bg-muted/30 p-3">
+      <p className="text-[10px] uppercase tracking-wider text-muted-foreground flex items-center gap-1">
+        <Icon className="h-3 w-3" /> {label}
+      </p>
+      <p className="text-lg font-semibold font-mono mt-0.5">{value}</p>
+      {hint && <p className="text-[10px] text-muted-foreground">{hint}</p>}
+    </div>
+  );
+}
+
+export default function CreatorDashboard() {
+  const [days, setDays] = useState(30);
+  const [selected, setSelected] = useState<string | null>(null);
+  const { data, isLoading } = useCreatorDashboard(days);
+
+  const coin = data?.coins.find(c => c.id === selected) ?? data?.coins[0] ?? null;
+
+  return (
+    <div className="min-h-screen bg-background">
+      <Navbar />
+
+      <main className="container pt-24 sm:pt-32 pb-16 px-4 sm:px-6">
+        <motion.div initial={{ opacity: 0, y: 20 }} animate={{ opacity: 1, y: 0 }} className="mb-6 flex flex-wrap items-end justify-between gap-3">
+          <div>
+            <Link to="/create-coin">
+              <Button variant="ghost" size="sm" className="gap-1.5 -ml-2 mb-2"><ArrowLeft className="h-4 w-4" /> My coins</Button>
+            </Link>
+            <h1 className="text-2xl sm:text-3xl font-bold font-display mb-1">Creator Dashboard</h1>
+            <p className="text-muted-foreground text-sm">How your coins are trading and what they've earned you</p>
+          </div>
+          <Tabs value={String(days)} onValueChange={v => setDays(Number(v))}>
+            <TabsList>
+              {PERIODS.map(p => <TabsTrigger key={p} value={String(p)} className="text-xs">{p}d</TabsTrigger>)}
+            </TabsList>
+          </Tabs>
+        </motion.div>
+
+        {isLoading ? (
+          <div className="flex justify-center py-12"><Loader2 className="h-8 w-8 animate-spin text-primary" /></div>
+        ) : !data || data.coins.length === 0 ? (
+          <Card className="glass-card">
+            <CardContent className="py-12 text-center">
+              <Coins className="h-12 w-12 text-muted-foreground mx-auto mb-4" />
+              <h3 className="text-lg font-semibold mb-2">No coins yet</h3>
+              <p className="text-muted-foreground mb-4 text-sm">Launch a coin to start earning a share of its trades</p>
+              <Link to="/create-coin"><Button variant="hero">Create a coin</Button></Link>
+            </CardContent>
+          </Card>
+        ) : (
+          <div className="space-y-4">
+            <div className="grid grid-cols-2 lg:grid-cols-4 gap-3">
+              <Stat icon={Wallet} label="Commission" value={`KES ${formatKes(data.totals.earnings)}`}
+                hint={`KES ${formatKes(data.totals.earnings_total)} all time`} />
+              <Stat icon={BarChart3} label="Volume" value={`KES ${formatKes(data.totals.volume)}`}
+                hint={`${data.totals.trades.toLocaleString()} trades`} />
+              <Stat icon={Users} label="Holders" value={data.totals.holders.toLocaleString()}
+                hint={`across ${data.totals.coins} coin(s)`} />
+              <Stat icon={Radio} label="While live" value={`KES ${formatKes(data.totals.live_volume)}`}
+                hint={data.totals.volume > 0 ? `${((data.totals.live_volume / data.totals.volume) * 100).toFixed(1)}% of volume` : undefined} />
+            </div>
+
+            <Card className="glass-card">
+              <CardContent className="pt-4">
+                <div className="h-40">
+                  <ResponsiveContainer width="100%" height="100%">
+                    <AreaChart data={data.daily} margin={{ top: 5, right: 5, left: 0, bottom: 0 }}>
+                      <XAxis dataKey="day" tick={{ fontSize: 10 }} axisLine={false} tickLine={false} minTickGap={16}
+                        tickFormatter={(d: string) => new Date(d).toLocaleDateString(undefined, { day: 'numeric', month: 'short' })} />
+                      <YAxis tick={{ fontSize: 10 }} axisLine={false} tickLine={false} width={40} tickFormatter={formatKes} />
+                      <Tooltip
+                        formatter={(v: number) => [`KES ${formatKes(v)}`, 'Commission']}
+                        labelFormatter={(d: string) => new Date(d).toLocaleDateString()}
+                        contentStyle={{ background: 'hsl(var(--card))', border: '1px solid hsl(var(--border))', fontSize: 12 }}
+                      />
+                      <Area type="monotone" dataKey="earnings" stroke="hsl(var(--success))" fill="hsl(var(--success) / 0.2)"
+                        strokeWidth={2} isAnimationActive={false} />
+                    </AreaChart>
+                  </ResponsiveContainer>
+                </div>
+                {data.earnings_tracked_since && (
+                  <p className="text-[10px] text-muted-foreground">
+                    Commission is itemised from {new Date(data.earnings_tracked_since).toLocaleDateString()}.
+                  </p>
+                )}
+              </CardContent>
+            </Card>
+
+            <Card className="glass-card">
+              <CardHeader className="pb-2">
+                <CardTitle className="text-base">Your coins</CardTitle>
+              </CardHeader>
+              <CardContent className="overflow-x-auto">
+                <table className="w-full text-xs">
+                  <thead>
+                    <tr className="text-left text-[10px] uppercase tracking-wider text-muted-foreground">
+                      <th className="py-1.5 font-medium">Coin</th>
+                      <th className="py-1.5 font-medium text-right">Price</th>
+                      <th className="py-1.5 font-medium text-right">Volume</th>
+                      <th className="py-1.5 font-medium text-right">Traders</th>
+                      <th className="py-1.5 font-medium text-right">Holders</th>
+                      <th className="py-1.5 font-medium text-right">Commission</th>
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-border/30">
+                    {data.coins.map(c => (
+                      <tr key={c.id} onClick={() => setSelected(c.id)}
+                        className={`cursor-pointer hover:bg-muted/30 ${coin?.id === c.id ? 'bg-primary/10' : ''}`}>
+                        <td className="py-2">
+                          <div className="flex items-center gap-2">
+                            <div className="h-6 w-6 rounded-md bg-primary/20 flex items-center justify-center overflow-hidden">
+                              {c.logo_url ? <img src={c.logo_url} alt={c.name} className="h-full w-full object-cover" /> : <Coins className="h-3 w-3 text-primary" />}
+                            </div>
+                            <span className="font-medium">{c.symbol}</span>
+                            {!c.is_approved && <span className="text-[10px] text-muted-foreground">not live</span>}
+                          </div>
+                        </td>
+                        <td className="py-2 text-right font-mono">{Number(c.price).toFixed(6)}</td>
+                        <td className="py-2 text-right font-mono">{formatKes(c.volume)}</td>
+                        <td className="py-2 text-right font-mono">{c.traders.toLocaleString()}</td>
+                        <td className="py-2 text-right font-mono">
+                          {c.holders.toLocaleString()}
+                          {c.holders_change !== 0 && (
+                            <span className={`ml-1 ${c.holders_change > 0 ? 'text-success' : 'text-destructive'}`}>
+                              {c.holders_change > 0 ? '+' : ''}{c.holders_change}
+                            </span>
+                          )}
+                        </td>
+                        <td className="py-2 text-right font-mono text-success">{formatKes(c.earnings)}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </CardContent>
+            </Card>
+
+            {coin && (
+              <Card className="glass-card">
+                <CardHeader className="pb-2">
+                  <CardTitle className="text-base">{coin.name} insights</CardTitle>
+                </CardHeader>
+                <CardContent>
+                  <CreatorCoinInsights coinId={coin.id} symbol={coin.symbol} days={days} />
+                </CardContent>
+              </Card>
+            )}
+
+            <Card className="glass-card">
+              <CardHeader className="pb-2">
+                <CardTitle className="text-base">Payout history</CardTitle>
+              </CardHeader>
+              <CardContent>
+                <CreatorPayouts coinId={null} />
+              </CardContent>
+            </Card>
+          </div>
+        )}
+      </main>
+
+      <Footer />
+    </div>
+  );
+}
@@ -1,4 +1,4 @@
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useCallback } from 'react';
 import { motion } from 'framer-motion';
 import { Navbar } from '@/components/layout/Navbar';
 import { Footer } from '@/components/layout/Footer';
@@ -9,10 +9,13 @@ import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { WalletCard } from '@/components/wallet/WalletCard';
 import { ReferralCard } from '@/components/referral/ReferralCard';
+import { RecurringBuys } from '@/components/trading/RecurringBuys';
+import { WatchlistPanel } from '@/components/coins/WatchlistPanel';
+import { StatementDialog } from '@/components/wallet/StatementDialog';
 import { Badge } from '@/components/ui/badge';
 import { 
   Wallet, TrendingUp, History, Coins, ArrowUpRight, ArrowDownRight,
-  Loader2, Package, RefreshCw, Gift, DollarSign, ArrowDownToLine, Clock, CheckCircle, XCircle
+  Loader2, Package, RefreshCw, Gift, DollarSign, ArrowDownToLine, Clock, CheckCircle, XCircle, CalendarClock, FileText
 } from 'lucide-react';
 import { Link } from 'react-router-dom';
 
@@ -41,8 +44,26 @@ interface Transaction {
     name: string;
     symbol: string;
   };
+  realized: {
+    proceeds: number;
+    fifo_cost_basis: number;
+    avg_cost_basis: number;
+  }[];
 }
 
+type CostBasisMethod = 'fifo' | 'average';
+
+interface CoinPnl {
+  coin_id: string;
+  amount: number;
+  cost_basis: number;
+  unrealized_pnl: number;
+  realized_pnl: number;
+  fees_paid: number;
+}
+
+const PNL_METHOD_KEY = 'pnl_method';
+
 interface Withdrawal {
   id: string;
   amount: number;
@@ -60,12 +81,33 @@ export default function Dashboard() {
   const [transactions, setTransactions] = useState<Transaction[]>([]);
   const [withdrawals, setWithdrawals] = useState<Withdrawal[]>([]);
   const [fiatBalance, setFiatBalance] = useState(0);
+  const [pnl, setPnl] = useState<CoinPnl[]>([]);
+  const [pnlMethod, setPnlMethod] = useState<CostBasisMethod>(
+    () => (localStorage.getItem(PNL_METHOD_KEY) === 'average' ? 'average' : 'fifo'),
+  );
   const [loading, setLoading] = useState(true);
+  const [showStatement, setShowStatement] = useState(false);
 
   useEffect(() => {
     if (user) fetchData();
   }, [user]);
 
+  const fetchPnl = useCallback(async () => {
+    if (!user) return;
+    const { data, error } = await supabase.rpc('get_pnl_summary', { _method: pnlMethod });
+    if (error) { console.error('Error fetching P&L:', error.message); return; }
+    setPnl((data || []) as CoinPnl[]);
+  }, [user, pnlMethod]);
+
+  useEffect(() => {
+    fetchPnl();
+  }, [fetchPnl]);
+
+  const changePnlMethod = (method: CostBasisMethod) => {
+    localStorage.setItem(PNL_METHOD_KEY, method);
+    setPnlMethod(method);
+  };
+
   // Realtime updates for holdings and wallet
   useEffect(() => {
     if (!user) return;
@@ -83,13 +125,14 @@ export default function Dashboard() {
     try {
       const [holdingsRes, txRes, walletRes, withdrawalRes] = await Promise.all([
         supabase.from('holdings').select('id, amount, average_buy_price, coin:coins(id, name, symbol, price, logo_url)').eq('user_id', user?.id),
-        supabase.from('transactions').select('id, type, amount, price_per_coin, total_value, status, created_at, coin:coins(name, symbol)').eq('user_id', user?.id).order('created_at', { ascending: false }).limit(50),
+        supabase.from('transactions').select('id, type, amount, price_per_coin, total_value, status, created_at, coin:coins(name, symbol), realized:realized_trades(proceeds, fifo_cost_basis, avg_cost_basis)').eq('user_id', user?.id).order('created_at', { ascending: false }).limit(50),
         supabase.from('wallets').select('fiat_balance').eq('user_id', user?.id!).maybeSingle(),
         supabase.from('wallet_withdrawals').select('*').eq('user_id', user?.id!).order('created_at', { ascending: false }).limit(20),
       ]);
       if (holdingsRes.data) setHoldings(holdingsRes.data as unknown as Holding[]);
       if (txRes.data) setTransactions(txRes.data as unknown as Transaction[]);
       if (withdrawalRes.data) setWithdrawals(withdrawalRes.data as Withdrawal[]);
+      fetchPnl();
       
       if (walletRes.data) {
         setFiatBalance(walletRes.data.fiat_balance);
@@ -105,11 +148,26 @@ export default function Dashboard() {
   };
 
   const totalPortfolioValue = holdings.reduce((acc, h) => acc + (h.amount * (h.coin?.price || 0)), 0);
-  const totalInvested = holdings.reduce((acc, h) => acc + (h.amount * h.average_buy_price), 0);
-  const totalPnL = totalPortfolioValue - totalInvested;
-  const pnlPercentage = totalInvested > 0 ? ((totalPnL / totalInvested) * 100) : 0;
   const totalNetWorth = fiatBalance + totalPortfolioValue;
 
+  // Lot-based P&L; realized and unrealized are before fees, the total is after
+  const pnlByCoin = new Map(pnl.map(p => [p.coin_id, p]));
+  const totalUnrealized = pnl.reduce((acc, p) => acc + Number(p.unrealized_pnl), 0);
+  const totalRealized = pnl.reduce((acc, p) => acc + Number(p.realized_pnl), 0);
+  const totalFees = pnl.reduce((acc, p) => acc + Number(p.fees_paid), 0);
+  const totalCostBasis = pnl.reduce((acc, p) => acc + Number(p.cost_basis), 0);
+  const totalPnL = totalRealized + totalUnrealized - totalFees;
+  const unrealizedPercentage = totalCostBasis > 0 ? ((totalUnrealized / totalCostBasis) * 100) : 0;
+
+  const formatSignedKes = (value: number) =>
+    `${value >= 0 ? '+' : '-'}KES ${Math.abs(value).toLocaleString(undefined, { maximumFractionDigits: 0 })}`;
+
+  const realizedFor = (tx: Transaction) => {
+    const row = tx.realized?.[0];
+    if (!row) return null;
+    return Number(row.proceeds) - Number(pnlMethod === 'average' ? row.avg_cost_basis : row.fifo_cost_basis);
+  };
+
   const pendingWithdrawals = withdrawals.filter(w => w.status === 'pending' || w.status === 'approved' || w.status === 'processing');
 
   const statusIcon = (status: string) => {
@@ -140,9 +198,14 @@ export default function Dashboard() {
               Welcome back, {user?.email?.split('@')[0]}
             </p>
           </div>
-          <Button variant="outline" size="sm" onClick={fetchData} className="gap-2 w-fit text-xs">
-            <RefreshCw className="h-3.5 w-3.5" /> Refresh
-          </Button>
+          <div className="flex gap-2">
+            <Button variant="outline" size="sm" onClick={() => setShowStatement(true)} className="gap-2 w-fit text-xs">
+              <FileText className="h-3.5 w-3.5" /> Statement
+            </Button>
+            <Button variant="outline" size="sm" onClick={fetchData} className="gap-2 w-fit text-xs">
+              <RefreshCw className="h-3.5 w-3.5" /> Refresh
+            </Button>
+          </div>
         </motion.div>
 
         {/* Pending Withdrawals Alert */}
@@ -192,8 +255,9 @@ export default function Dashboard() {
                   {totalPnL >= 0 ? <ArrowUpRight className="h-3.5 w-3.5 sm:h-4 sm:w-4" /> : <ArrowDownRight className="h-3.5 w-3.5 sm:h-4 sm:w-4" />}
                   KES {Math.abs(totalPnL).toLocaleString(undefined, { maximumFractionDigits: 0 })}
                 </div>
-                <p className={`text-[10px] sm:text-xs mt-0.5 ${totalPnL >= 0 ? 'text-success' : 'text-destructive'}`}>
-                  {pnlPercentage >= 0 ? '+' : ''}{pnlPercentage.toFixed(1)}%
+                <p className="text-[10px] sm:text-xs text-muted-foreground mt-0.5 truncate">
+                  Open <span className={totalUnrealized >= 0 ? 'text-success' : 'text-destructive'}>{unrealizedPercentage >= 0 ? '+' : ''}{unrealizedPercentage.toFixed(1)}%</span>
+                  {' · '}Realized <span className={totalRealized >= 0 ? 'text-success' : 'text-destructive'}>{formatSignedKes(totalRealized)}</span>
                 </p>
               </CardContent>
             </Card>
@@ -215,9 +279,14 @@ export default function Dashboard() {
           </motion.div>
         </div>
 
-        {/* Holdings, Transactions, Withdrawals, Referrals */}
+        {/* Watchlist with live prices */}
+        <motion.div initial={{ opacity: 0, y: 20 }} animate={{ opacity: 1, y: 0 }} transition={{ delay: 0.35 }} className="mb-4 sm:mb-6">
+          <WatchlistPanel />
+        </motion.div>
+
+        {/* Holdings, Transactions, Withdrawals, Recurring buys, Referrals */}
         <Tabs defaultValue="holdings" className="space-y-3 sm:space-y-4">
-          <TabsList className="w-full grid grid-cols-4 h-9 sm:h-10">
+          <TabsList className="w-full grid grid-cols-5 h-9 sm:h-10">
             <TabsTrigger value="holdings" className="gap-1 text-[10px] sm:text-xs">
               <Coins className="h-3 w-3 sm:h-3.5 sm:w-3.5" /> Holdings
             </TabsTrigger>
@@ -232,12 +301,38 @@ export default function Dashboard() {
                 </span>
               )}
             </TabsTrigger>
+            <TabsTrigger value="recurring" className="gap-1 text-[10px] sm:text-xs">
+              <CalendarClock className="h-3 w-3 sm:h-3.5 sm:w-3.5" /> Auto-Buy
+            </TabsTrigger>
             <TabsTrigger value="referrals" className="gap-1 text-[10px] sm:text-xs">
               <Gift className="h-3 w-3 sm:h-3.5 sm:w-3.5" /> Referrals
             </TabsTrigger>
           </TabsList>
 
-          <TabsContent value="holdings">
+          <TabsContent value="holdings" className="space-y-2 sm:space-y-3">
+            {pnl.length > 0 && (
+              <Card className="glass-card">
+                <CardContent className="p-2.5 sm:p-3 flex flex-wrap items-center justify-between gap-2">
+                  <div className="flex flex-wrap gap-x-4 gap-y-1 text-[10px] sm:text-xs">
+                    <span className="text-muted-foreground">Unrealized <span className={`font-mono font-semibold ${totalUnrealized >= 0 ? 'text-success' : 'text-destructive'}`}>{formatSignedKes(totalUnrealized)}</span></span>
+                    <span className="text-muted-foreground">Realized <span className={`font-mono font-semibold ${totalRealized >= 0 ? 'text-success' : 'text-destructive'}`}>{formatSignedKes(totalRealized)}</span></span>
+                    <span className="text-muted-foreground">Fees <span className="font-mono font-semibold text-foreground">KES {totalFees.toLocaleString(undefined, { maximumFractionDigits: 0 })}</span></span>
+                  </div>
+                  <div className="flex rounded-md border border-border/50 overflow-hidden">
+                    {(['fifo', 'average'] as CostBasisMethod[]).map(method => (
+                      <button
+                        key={method}
+                        type="button"
+                        onClick={() => changePnlMethod(method)}
+                        className={`px-2 py-1 text-[10px] font-medium transition-colors ${pnlMethod === method ? 'bg-primary text-primary-foreground' : 'text-muted-foreground hover:text-foreground'}`}
+                      >
+                        {method === 'fifo' ? 'FIFO' : 'Avg Cost'}
+                      </button>
+                    ))}
+                  </div>
+                </CardContent>
+              </Card>
+            )}
             {loading ? (
               <div className="flex justify-center py-12"><Loader2 className="h-8 w-8 animate-spin text-primary" /></div>
             ) : holdings.length === 0 ? (
@@ -253,7 +348,9 @@ export default function Dashboard() {
               <div className="grid gap-2 sm:gap-3 grid-cols-1 sm:grid-cols-2 lg:grid-cols-3">
                 {holdings.map((holding) => {
                   const currentValue = holding.amount * (holding.coin?.price || 0);
-                  const costBasis = holding.amount * holding.average_buy_price;
+                  const coinPnl = pnlByCoin.get(holding.coin?.id);
+                  const costBasis = coinPnl ? Number(coinPnl.cost_basis) : holding.amount * holding.average_buy_price;
+                  const avgCost = coinPnl && Number(coinPnl.amount) > 0 ? costBasis / Number(coinPnl.amount) : holding.average_buy_price;
                   const pnl = currentValue - costBasis;
                   const pnlPercent = costBasis > 0 ? ((pnl / costBasis) * 100) : 0;
                   return (
@@ -279,14 +376,20 @@ export default function Dashboard() {
                                 <p className="font-semibold text-xs sm:text-sm font-mono">KES {currentValue.toLocaleString(undefined, { maximumFractionDigits: 0 })}</p>
                               </div>
                               <div>
-                                <p className="text-[10px] sm:text-xs text-muted-foreground">Avg Buy</p>
-                                <p className="font-mono text-xs">{holding.average_buy_price.toFixed(4)}</p>
+                                <p className="text-[10px] sm:text-xs text-muted-foreground">Avg Cost</p>
+                                <p className="font-mono text-xs">{avgCost.toFixed(4)}</p>
                               </div>
                               <div className="text-right">
                                 <p className="text-[10px] sm:text-xs text-muted-foreground">P&L</p>
                                 <p className={`font-semibold text-xs sm:text-sm ${pnl >= 0 ? 'text-success' : 'text-destructive'}`}>{pnl >= 0 ? '+' : ''}{pnlPercent.toFixed(1)}%</p>
                               </div>
                             </div>
+                            {coinPnl && (Number(coinPnl.realized_pnl) !== 0 || Number(coinPnl.fees_paid) > 0) && (
+                              <div className="flex justify-between mt-2 pt-2 border-t border-border/50 text-[10px] text-muted-foreground">
+                                <span>Realized <span className={`font-mono ${Number(coinPnl.realized_pnl) >= 0 ? 'text-success' : 'text-destructive'}`}>{formatSignedKes(Number(coinPnl.realized_pnl))}</span></span>
+                                <span>Fees <span className="font-mono">KES {Number(coinPnl.fees_paid).toLocaleString(undefined, { maximumFractionDigits: 2 })}</span></span>
+                              </div>
+                            )}
                           </CardContent>
                         </Card>
                       </Link>
@@ -327,6 +430,11 @@ export default function Dashboard() {
                           <div className="text-right flex-shrink-0">
                             <p className="font-semibold text-xs sm:text-sm font-mono">{tx.amount.toLocaleString()} {tx.coin?.symbol}</p>
                             <p className="text-[10px] text-muted-foreground">KES {tx.total_value.toLocaleString()}</p>
+                            {realizedFor(tx) !== null && (
+                              <p className={`text-[10px] font-mono ${realizedFor(tx)! >= 0 ? 'text-success' : 'text-destructive'}`}>
+                                P&L {formatSignedKes(realizedFor(tx)!)}
+                              </p>
+                            )}
                           </div>
                           <Badge variant="outline" className={`text-[10px] ${statusColor(tx.status)}`}>
                             {tx.status}
@@ -392,6 +500,16 @@ export default function Dashboard() {
             )}
           </TabsContent>
 
+          <TabsContent value="recurring">
+            {user && (
+              <Card className="glass-card">
+                <CardContent className="p-3 sm:p-4">
+                  <RecurringBuys userId={user.id} />
+                </CardContent>
+              </Card>
+            )}
+          </TabsContent>
+
           <TabsContent value="referrals">
             {user && <ReferralCard userId={user.id} />}
           </TabsContent>
@@ -399,6 +517,8 @@ export default function Dashboard() {
       </main>
 
       <Footer />
+
+      {user && <StatementDialog open={showStatement} onOpenChange={setShowStatement} userId={user.id} />}
     </div>
   );
 }
@@ -0,0 +1,233 @@
+import { useState } from 'react';
+import { Link } from 'react-router-dom';
+import { useQuery } from '@tanstack/react-query';
+import { motion } from 'framer-motion';
+import { Navbar } from '@/components/layout/Navbar';
+import { Footer } from '@/components/layout/Footer';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Tabs, TabsList, TabsTrigger, TabsContent } from '@/components/ui/tabs';
+import { Badge } from '@/components/ui/badge';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/lib/auth-context';
+import { Trophy, TrendingUp, TrendingDown, BarChart3, Users, Loader2, Coins, UserRound } from 'lucide-react';
+
+type Period = '24h' | '7d' | '30d';
+type CoinBoard = 'gainers' | 'losers' | 'coin_volume' | 'new_holders';
+type TraderBoard = 'traders_pnl' | 'traders_volume';
+
+interface CoinEntry {
+  rank: number;
+  coin_id: string;
+  name: string;
+  symbol: string;
+  logo_url: string | null;
+  price: number;
+  value: number;
+  trade_count: number | null;
+}
+
+interface TraderEntry {
+  rank: number;
+  name: string | null;
+  alias: string;
+  is_you: boolean;
+  value: number;
+  trade_count: number;
+}
+
+interface Leaderboard<T> {
+  board: string;
+  period: Period;
+  computed_at: string | null;
+  entries: T[];
+}
+
+const PERIODS: { value: Period; label: string }[] = [
+  { value: '24h', label: '24 hours' },
+  { value: '7d', label: '7 days' },
+  { value: '30d', label: '30 days' },
+];
+
+const COIN_BOARDS: { board: CoinBoard; title: string; icon: React.ElementType; format: (v: number) => string }[] = [
+  { board: 'gainers', title: 'Top Gainers', icon: TrendingUp, format: v => `+${v.toFixed(2)}%` },
+  { board: 'losers', title: 'Top Losers', icon: TrendingDown, format: v => `${v.toFixed(2)}%` },
+  { board: 'coin_volume', title: 'Top Volume', icon: BarChart3, format: v => `KES ${formatKes(v)}` },
+  { board: 'new_holders', title: 'Most New Holders', icon: Users, format: v => `+${v.toLocaleString()}` },
+];
+
+const formatKes = (v: number) => {
+  const abs = Math.abs(v);
+  if (abs >= 1_000_000) return `${(v / 1_000_000).toFixed(2)}M`;
+  if (abs >= 1_000) return `${(v / 1_000).toFixed(1)}K`;
+  return v.toLocaleString(undefined, { maximumFractionDigits: 0 });
+};
+
+function useLeaderboard<T>(board: CoinBoard | TraderBoard, period: Period, limit: number, userId?: string) {
+  return useQuery({
+    queryKey: ['leaderboard', board, period, limit, userId],
+    staleTime: 1000 * 60 * 2,
+    queryFn: async (): Promise<Leaderboard<T>> => {
+      const { data, error } = await supabase.rpc('get_leaderboard', { _board: board, _period: period, _limit: limit });
+      if (error) throw error;
+      return data as unknown as Leaderboard<T>;
+    },
+  });
+}
+
+function CoinBoardCard({ board, title, icon: Icon, format, period }: typeof COIN_BOARDS[number] & { period: Period }) {
+  const { data, isLoading } = useLeaderboard<CoinEntry>(board, period, 10);
+  const tone = board === 'losers' ? 'text-destructive' : board === 'gainers' ? 'text-success' : 'text-primary';
+
+  return (
+    <Card className="glass-card">
+      <CardHeader className="pb-2">
+        <CardTitle className="text-sm flex items-center gap-2">
+          <Icon className={`h-4 w-4 ${tone}`} /> {title}
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-1">
+        {isLoading ? (
+          <div className="flex justify-center py-6"><Loader2 className="h-5 w-5 animate-spin text-primary" /></div>
+        ) : !data?.entries.length ? (
+          <p className="text-xs text-muted-foreground text-center py-6">Nothing to rank yet</p>
+        ) : (
+          data.entries.map(e => (
+            <Link
+              key={e.coin_id}
+              to={`/coin/${e.coin_id}`}
+              className="flex items-center gap-2 rounded-md px-2 py-1.5 hover:bg-muted/30 transition-colors"
+            >
+              <span className="w-5 text-xs text-muted-foreground font-mono">{e.rank}</span>
+              <div className="h-6 w-6 rounded-full bg-gradient-to-br from-primary/20 to-accent/20 flex items-center justify-center overflow-hidden flex-shrink-0">
+                {e.logo_url ? (
+                  <img src={e.logo_url} alt={e.name} className="h-full w-full object-cover" />
+                ) : (
+                  <span className="text-[10px] font-bold text-primary">{e.symbol.charAt(0)}</span>
+                )}
+              </div>
+              <div className="min-w-0 flex-1">
+                <p className="text-xs font-medium truncate">{e.name}</p>
+                <p className="text-[10px] text-muted-foreground">{e.symbol}</p>
+              </div>
+              <span className={`text-xs font-mono font-medium ${tone}`}>{format(Number(e.value))}</span>
+            </Link>
+          ))
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
+function TraderBoardTable({ board, period }: { board: TraderBoard; period: Period }) {
+  const { user } = useAuth();
+  const { data, isLoading } = useLeaderboard<TraderEntry>(board, period, 50, user?.id);
+
+  if (isLoading) {
+    return <div className="flex justify-center py-12"><Loader2 className="h-6 w-6 animate-spin text-primary" /></div>;
+  }
+  if (!data?.entries.length) {
+    return <p className="text-sm text-muted-foreground text-center py-12">No trades in this period yet</p>;
+  }
+
+  return (
+    <div className="glass-card overflow-hidden">
+      <div className="grid grid-cols-[40px_1fr_auto_70px] gap-3 px-4 py-2 border-b border-border/50 text-[10px] uppercase tracking-wider text-muted-foreground">
+        <span>#</span>
+        <span>Trader</span>
+        <span className="text-right">{board === 'traders_pnl' ? 'Realized P&L' : 'Volume'}</span>
+        <span className="text-right">Trades</span>
+      </div>
+      {data.entries.map(e => {
+        const value = Number(e.value);
+        return (
+          <div
+            key={e.rank}
+            className={`grid grid-cols-[40px_1fr_auto_70px] gap-3 px-4 py-2.5 border-b border-border/30 items-center ${e.is_you ? 'bg-primary/10' : ''}`}
+          >
+            <span className="text-xs font-mono text-muted-foreground">
+              {e.rank <= 3 ? <Trophy className={`h-3.5 w-3.5 ${['text-yellow-400', 'text-slate-300', 'text-amber-600'][e.rank - 1]}`} /> : e.rank}
+            </span>
+            <div className="flex items-center gap-1.5 min-w-0">
+              <span className={`text-sm truncate ${e.name ? 'font-medium' : 'text-muted-foreground'}`}>{e.name || e.alias}</span>
+              {e.is_you && <Badge variant="secondary" className="text-[9px] h-4 px-1">You</Badge>}
+            </div>
+            <span className={`text-right text-xs font-mono font-medium ${board === 'traders_pnl' ? (value >= 0 ? 'text-success' : 'text-destructive') : ''}`}>
+              {board === 'traders_pnl' && value >= 0 ? '+' : ''}KES {formatKes(value)}
+            </span>
+            <span className="text-right text-xs text-muted-foreground">{e.trade_count.toLocaleString()}</span>
+          </div>
+        );
+      })}
+      {data.computed_at && (
+        <p className="px-4 py-2 text-[10px] text-muted-foreground">Updated {new Date(data.computed_at).toLocaleString()}</p>
+      )}
+    </div>
+  );
+}
+
+export default function Leaderboards() {
+  const { user } = useAuth();
+  const [period, setPeriod] = useState<Period>('24h');
+  const [traderBoard, setTraderBoard] = useState<TraderBoard>('traders_pnl');
+
+  return (
+    <div className="min-h-screen bg-background">
+      <Navbar />
+
+      <main className="container pt-28 sm:pt-32 pb-16">
+        <motion.div
+          initial={{ opacity: 0, y: 20 }}
+          animate={{ opacity: 1, y: 0 }}
+          className="mb-6 flex flex-col sm:flex-row sm:items-end sm:justify-between gap-4"
+        >
+          <div>
+            <div className="flex items-center gap-3 mb-2">
+              <div className="flex h-10 w-10 items-center justify-center rounded-xl bg-gradient-to-br from-primary to-accent">
+                <Trophy className="h-5 w-5 text-primary-foreground" />
+              </div>
+              <h1 className="text-3xl font-bold font-display">Leaderboards</h1>
+            </div>
+            <p className="text-muted-foreground">Top movers and top traders, refreshed every few minutes</p>
+          </div>
+          <Tabs value={period} onValueChange={(v) => setPeriod(v as Period)}>
+            <TabsList className="bg-muted/50 border border-border">
+              {PERIODS.map(p => <TabsTrigger key={p.value} value={p.value} className="text-xs">{p.label}</TabsTrigger>)}
+            </TabsList>
+          </Tabs>
+        </motion.div>
+
+        <Tabs defaultValue="coins">
+          <TabsList className="bg-muted/50 border border-border mb-4">
+            <TabsTrigger value="coins" className="gap-1.5 text-xs"><Coins className="h-3.5 w-3.5" /> Coins</TabsTrigger>
+            <TabsTrigger value="traders" className="gap-1.5 text-xs"><UserRound className="h-3.5 w-3.5" /> Traders</TabsTrigger>
+          </TabsList>
+
+          <TabsContent value="coins">
+            <div className="grid gap-4 sm:grid-cols-2 xl:grid-cols-4">
+              {COIN_BOARDS.map(b => <CoinBoardCard key={b.board} {...b} period={period} />)}
+            </div>
+          </TabsContent>
+
+          <TabsContent value="traders" className="space-y-3">
+            <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-2">
+              <Tabs value={traderBoard} onValueChange={(v) => setTraderBoard(v as TraderBoard)}>
+                <TabsList className="bg-muted/50 border border-border">
+                  <TabsTrigger value="traders_pnl" className="text-xs">Realized P&L</TabsTrigger>
+                  <TabsTrigger value="traders_volume" className="text-xs">Volume</TabsTrigger>
+                </TabsList>
+              </Tabs>
+              <p className="text-[11px] text-muted-foreground">
+                Traders appear by name only if they opt in
+                {user ? <> on their <Link to="/profile" className="text-primary hover:underline">profile</Link></> : ''}.
+                P&L is before fees.
+              </p>
+            </div>
+            <TraderBoardTable board={traderBoard} period={period} />
+          </TabsContent>
+        </Tabs>
+      </main>
+
+      <Footer />
+    </div>
+  );
+}
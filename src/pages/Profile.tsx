@@ -12,6 +12,8 @@ import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/com
 import { User, Phone, Mail, Key, MessageCircle, Loader2, Check, AlertCircle } from 'lucide-react';
 import { toast } from 'sonner';
 import { TwoFactorManager } from '@/components/auth/TwoFactorManager';
+import { ApiKeysManager } from '@/components/auth/ApiKeysManager';
+import { LeaderboardPrivacy } from '@/components/auth/LeaderboardPrivacy';
 
 export default function Profile() {
   const { user } = useAuth();
@@ -184,6 +186,11 @@ export default function Profile() {
             </CardContent>
           </Card>
 
+          {/* Market data API */}
+          {user && <LeaderboardPrivacy userId={user.id} />}
+
+          {user && <ApiKeysManager userId={user.id} />}
+
           {/* Link Telegram */}
           <Card className="glass-card">
             <CardHeader>
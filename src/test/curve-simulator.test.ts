@@ -0,0 +1,62 @@
+import { describe, it, expect } from "vitest";
+import {
+  DEFAULT_CURVE_PARAMS, DEFAULT_SYNTHETIC_FLOW, bondingPrice, curveArea, simulateCurve, syntheticOrders,
+} from "@/lib/curve-simulator";
+
+const params = { ...DEFAULT_CURVE_PARAMS, graduationEnabled: false };
+
+describe("simulateCurve", () => {
+  it("prices a buy as the area under the curve and moves the price along it", () => {
+    const { steps } = simulateCurve(params, [{ type: "buy", amount: 1000 }]);
+    expect(steps[0].totalValue).toBeCloseTo(curveArea(params, 0, 1000));
+    expect(steps[0].price).toBeCloseTo(bondingPrice(params, 1000));
+    expect(steps[0].liquidity).toBeCloseTo(steps[0].totalValue);
+    expect(steps[0].feeRevenue).toBeCloseTo(steps[0].totalValue * 0.025);
+  });
+
+  it("spends a KES buy fee included", () => {
+    const { steps } = simulateCurve(params, [{ type: "buy", kes: 500 }]);
+    expect(steps[0].totalValue * 1.025).toBeCloseTo(500);
+  });
+
+  it("applies sell pressure below the curve", () => {
+    const { steps } = simulateCurve(params, [{ type: "buy", amount: 10000 }, { type: "sell", amount: 1000 }]);
+    const pressure = 1.5 * (1000 / 10000);
+    expect(steps[1].price).toBeCloseTo(bondingPrice(params, 9000) * (1 - pressure));
+  });
+
+  it("pays a sell at the pressured price so buying it straight back costs what the sell paid out", () => {
+    const { steps } = simulateCurve(params, [
+      { type: "buy", amount: 10000 },
+      { type: "sell", amount: 1000 },
+      { type: "buy", amount: 1000 },
+    ]);
+    const pressure = 1.5 * (1000 / 10000);
+    expect(steps[1].totalValue).toBeCloseTo(curveArea(params, 9000, 10000) * (1 - pressure));
+    const anchor = steps[1].price / bondingPrice(params, 9000);
+    expect(anchor).toBeLessThan(1);
+    expect(steps[2].totalValue).toBeCloseTo(curveArea(params, 9000, 10000) * anchor);
+    expect(steps[2].totalValue).toBeCloseTo(steps[1].totalValue);
+  });
+
+  it("rejects trades execute_trade would refuse", () => {
+    const { steps, summary } = simulateCurve(params, [{ type: "sell", amount: 1 }]);
+    expect(steps[0].rejected).toBeTruthy();
+    expect(summary.trades).toBe(0);
+  });
+
+  it("moves onto a pool at the graduation threshold and keeps the spot price", () => {
+    const graduating = { ...DEFAULT_CURVE_PARAMS, graduationThreshold: 10 };
+    const { steps, summary } = simulateCurve(graduating, [{ type: "buy", amount: 100000 }, { type: "buy", amount: 100 }]);
+    expect(summary.graduatedAtStep).toBe(1);
+    expect(steps[0].price).toBeCloseTo(bondingPrice(graduating, 100000));
+    expect(steps[1].price).toBeGreaterThan(steps[0].price);
+  });
+});
+
+describe("syntheticOrders", () => {
+  it("is reproducible from its seed", () => {
+    expect(syntheticOrders(DEFAULT_SYNTHETIC_FLOW)).toEqual(syntheticOrders(DEFAULT_SYNTHETIC_FLOW));
+    expect(syntheticOrders(DEFAULT_SYNTHETIC_FLOW)).toHaveLength(DEFAULT_SYNTHETIC_FLOW.trades);
+  });
+});
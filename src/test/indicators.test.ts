@@ -0,0 +1,74 @@
+import { describe, it, expect } from "vitest";
+import { sma, ema, vwap, bollinger, rsi, macd } from "@/lib/indicators";
+
+const closes = [1, 2, 3, 4, 5, 6, 7, 8, 9, 10];
+
+describe("sma", () => {
+  it("averages a trailing window and pads the warm-up with null", () => {
+    expect(sma(closes, 3)).toEqual([null, null, 2, 3, 4, 5, 6, 7, 8, 9]);
+  });
+});
+
+describe("ema", () => {
+  it("seeds with the SMA and then smooths", () => {
+    const out = ema([2, 4, 6, 8], 2);
+    expect(out[0]).toBeNull();
+    expect(out[1]).toBe(3);
+    // k = 2/3
+    expect(out[2]).toBeCloseTo(6 * (2 / 3) + 3 / 3);
+    expect(out[3]).toBeCloseTo(8 * (2 / 3) + (out[2] as number) / 3);
+  });
+
+  it("returns all nulls when the series is shorter than the period", () => {
+    expect(ema([1, 2], 5)).toEqual([null, null]);
+  });
+});
+
+describe("vwap", () => {
+  it("weights the typical price by volume cumulatively", () => {
+    const out = vwap([
+      { open: 1, high: 3, low: 0, close: 3, volume: 10 },
+      { open: 3, high: 6, low: 3, close: 6, volume: 30 },
+    ]);
+    expect(out[0]).toBe(2);
+    expect(out[1]).toBe((2 * 10 + 5 * 30) / 40);
+  });
+
+  it("stays null until there is volume", () => {
+    expect(vwap([{ open: 1, high: 1, low: 1, close: 1, volume: 0 }])).toEqual([null]);
+  });
+});
+
+describe("bollinger", () => {
+  it("brackets the SMA by a multiple of the standard deviation", () => {
+    const { middle, upper, lower } = bollinger([2, 4, 4, 4, 5, 5, 7, 9], 8, 2);
+    expect(middle[7]).toBe(5);
+    expect(upper[7]).toBe(9);
+    expect(lower[7]).toBe(1);
+    expect(upper[6]).toBeNull();
+  });
+});
+
+describe("rsi", () => {
+  it("is 100 for a series that only rises", () => {
+    const out = rsi(closes, 5);
+    expect(out.slice(0, 5).every((v) => v === null)).toBe(true);
+    expect(out[9]).toBe(100);
+  });
+
+  it("sits at 50 when gains and losses balance", () => {
+    expect(rsi([1, 2, 1, 2, 1], 4)[4]).toBe(50);
+  });
+});
+
+describe("macd", () => {
+  it("lines up the histogram with the MACD line minus its signal", () => {
+    const series = Array.from({ length: 40 }, (_, i) => 10 + Math.sin(i / 3) * 2 + i * 0.1);
+    const { macd: line, signal, histogram } = macd(series);
+    expect(line[24]).toBeNull();
+    expect(line[25]).not.toBeNull();
+    expect(signal[32]).toBeNull();
+    expect(signal[33]).not.toBeNull();
+    expect(histogram[39]).toBeCloseTo((line[39] as number) - (signal[39] as number));
+  });
+});
@@ -0,0 +1,79 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+
+const rpc = vi.fn();
+vi.mock("@/integrations/supabase/client", () => ({ supabase: { rpc: (...args: unknown[]) => rpc(...args) } }));
+
+import { type AccountStatement, fetchAccountStatement, statementToCsv } from "@/lib/statement";
+
+const statement: AccountStatement = {
+  site: { name: "Coinly", logo_url: null },
+  account: { name: null, email: "jane@example.com", phone: null },
+  period: { from: "2026-07-01T00:00:00.000Z", to: "2026-08-01T00:00:00.000Z" },
+  generated_at: "2026-08-01T06:00:00.000Z",
+  opening_balance: 100,
+  closing_balance: 42.5,
+  entries: [
+    {
+      occurred_at: "2026-07-03T09:15:00.000Z",
+      category: "buy",
+      description: "Bought 1,000 \"ABC\"",
+      reference: "tx-1",
+      quantity: 1000,
+      price: 0.05,
+      value: 50,
+      fee: 1.25,
+      net: -51.25,
+    },
+    {
+      occurred_at: "2026-07-04T10:00:00.000Z",
+      category: "referral",
+      description: "Referral commission",
+      reference: "ref-1",
+      quantity: null,
+      price: null,
+      value: 2,
+      fee: 0,
+      net: 2,
+    },
+  ],
+  totals: { bought: 50, sold: 0, deposits: 0, withdrawals: 0, referral_commissions: 2, fees: 1.25 },
+};
+
+describe("statementToCsv", () => {
+  const rows = statementToCsv(statement).split("\n");
+
+  it("heads the file with the account, balances and column names", () => {
+    expect(rows[0]).toBe("Coinly account statement");
+    expect(rows[1]).toBe("Account,jane@example.com");
+    expect(rows[3]).toBe("Opening balance (KES),100.00");
+    expect(rows[4]).toBe("Closing balance (KES),42.50");
+    expect(rows[6]).toBe("Date,Type,Description,Reference,Quantity,Price (KES),Value (KES),Fee (KES),Net (KES)");
+  });
+
+  it("writes one row per entry, quoting text that needs it", () => {
+    expect(rows).toHaveLength(9);
+    expect(rows[7]).toBe('2026-07-03T09:15:00.000Z,Buy,"Bought 1,000 ""ABC""",tx-1,1000,0.05,50.00,1.25,-51.25');
+    expect(rows[8]).toBe("2026-07-04T10:00:00.000Z,Referral,Referral commission,ref-1,,,2.00,0.00,2.00");
+  });
+});
+
+describe("fetchAccountStatement", () => {
+  beforeEach(() => rpc.mockReset());
+
+  it("asks for the period as ISO timestamps", async () => {
+    rpc.mockResolvedValueOnce({ data: statement, error: null });
+    const from = new Date("2026-07-01T00:00:00.000Z");
+    const to = new Date("2026-08-01T00:00:00.000Z");
+    await expect(fetchAccountStatement(from, to)).resolves.toBe(statement);
+    expect(rpc).toHaveBeenCalledWith("get_account_statement", {
+      _from: "2026-07-01T00:00:00.000Z",
+      _to: "2026-08-01T00:00:00.000Z",
+    });
+  });
+
+  it("throws the RPC error", async () => {
+    const error = { code: "28000", message: "Not authenticated" };
+    rpc.mockResolvedValueOnce({ data: null, error });
+    await expect(fetchAccountStatement(new Date(), new Date())).rejects.toBe(error);
+  });
+});
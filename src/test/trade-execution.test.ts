@@ -0,0 +1,94 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+
+const rpc = vi.fn();
+vi.mock("@/integrations/supabase/client", () => ({ supabase: { rpc: (...args: unknown[]) => rpc(...args) } }));
+
+import { executeTrade } from "@/lib/trade-execution";
+
+const params = {
+  userId: "user-1",
+  coinId: "coin-1",
+  tradeType: "buy" as const,
+  amount: 100,
+  useWallet: true,
+  toWallet: true,
+  idempotencyKey: "key-1",
+};
+
+const trade = {
+  ok: true,
+  transaction_id: "tx-1",
+  executed_price: 0.01,
+  spot_price: 0.01,
+  total_value: 1,
+  new_market_price: 0.0101,
+  fee: 0.025,
+  graduated: false,
+};
+
+const networkError = { message: "TypeError: Failed to fetch" };
+
+// Lets the backoff between attempts run while the trade promise is pending
+const settle = async <T>(promise: Promise<T>) => {
+  const result = promise.then(
+    value => ({ value }),
+    error => ({ error }),
+  );
+  await vi.runAllTimersAsync();
+  return result;
+};
+
+describe("executeTrade", () => {
+  beforeEach(() => {
+    rpc.mockReset();
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("sends the idempotency key with the trade", async () => {
+    rpc.mockResolvedValueOnce({ data: trade, error: null });
+    await expect(executeTrade(params)).resolves.toEqual(trade);
+    expect(rpc).toHaveBeenCalledWith("execute_trade", expect.objectContaining({ _idempotency_key: "key-1" }));
+  });
+
+  it("retries a dropped connection with the same key", async () => {
+    rpc
+      .mockResolvedValueOnce({ data: null, error: networkError })
+      .mockResolvedValueOnce({ data: trade, error: null });
+    const { value } = await settle(executeTrade(params)) as { value: unknown };
+    expect(value).toEqual({ ...trade, replayed: false });
+    expect(rpc).toHaveBeenCalledTimes(2);
+    expect(rpc.mock.calls[1][1]._idempotency_key).toBe("key-1");
+  });
+
+  it("does not retry an error the database raised", async () => {
+    const rejected = { code: "P0001", message: "Insufficient balance" };
+    rpc.mockResolvedValueOnce({ data: null, error: rejected });
+    const { error } = await settle(executeTrade(params)) as { error: unknown };
+    expect(error).toBe(rejected);
+    expect(rpc).toHaveBeenCalledTimes(1);
+  });
+
+  it("gives up after the last retry", async () => {
+    rpc.mockResolvedValue({ data: null, error: networkError });
+    const { error } = await settle(executeTrade(params, 2)) as { error: unknown };
+    expect(error).toBe(networkError);
+    expect(rpc).toHaveBeenCalledTimes(3);
+  });
+
+  it("returns a replayed result when the key was already used by an earlier call", async () => {
+    rpc.mockResolvedValueOnce({ data: { ...trade, replayed: true }, error: null });
+    await expect(executeTrade(params)).resolves.toEqual({ ...trade, replayed: true });
+  });
+
+  it("treats the replay of its own lost attempt as this call's trade", async () => {
+    rpc
+      .mockResolvedValueOnce({ data: null, error: networkError })
+      .mockResolvedValueOnce({ data: { ...trade, replayed: true }, error: null });
+    const { value } = await settle(executeTrade(params)) as { value: unknown };
+    expect(value).toEqual({ ...trade, replayed: false });
+  });
+});
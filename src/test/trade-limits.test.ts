@@ -0,0 +1,92 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+
+const rpc = vi.fn();
+vi.mock("@/integrations/supabase/client", () => ({ supabase: { rpc: (...args: unknown[]) => rpc(...args) } }));
+
+import {
+  type TradeLimitViolation, checkBuyLimits, describeTradeLimit, formatWait, parseTradeLimitError, tradeErrorMessage,
+} from "@/lib/trade-limits";
+
+const raised = (v: Partial<TradeLimitViolation>) => ({
+  message: v.message ?? "limit",
+  code: "P0001",
+  details: JSON.stringify(v),
+  hint: v.code,
+});
+
+describe("formatWait", () => {
+  it("rounds up to seconds, minutes or hours and minutes", () => {
+    expect(formatWait(0.2)).toBe("1s");
+    expect(formatWait(45)).toBe("45s");
+    expect(formatWait(61)).toBe("2 min");
+    expect(formatWait(3600)).toBe("1h");
+    expect(formatWait(5400)).toBe("1h 30m");
+  });
+});
+
+describe("parseTradeLimitError", () => {
+  it("reads the violation out of the error details", () => {
+    const violation = { code: "MAX_BUY_AMOUNT", message: "Too big", limit: 5000 };
+    expect(parseTradeLimitError(raised(violation as TradeLimitViolation))).toEqual(violation);
+  });
+
+  it("ignores other errors", () => {
+    expect(parseTradeLimitError(null)).toBeNull();
+    expect(parseTradeLimitError({ message: "Insufficient balance" })).toBeNull();
+    expect(parseTradeLimitError({ details: "not json" })).toBeNull();
+    expect(parseTradeLimitError({ details: JSON.stringify({ code: "SOMETHING_ELSE" }) })).toBeNull();
+  });
+});
+
+describe("describeTradeLimit", () => {
+  const cases: { violation: TradeLimitViolation; expected: RegExp }[] = [
+    { violation: { code: "MIN_BUY_AMOUNT", message: "", limit: 10 }, expected: /minimum buy is KES 10/ },
+    { violation: { code: "MAX_BUY_AMOUNT", message: "", limit: 5000 }, expected: /maximum buy is KES 5,000 per trade/ },
+    { violation: { code: "MAX_SUPPLY_PER_TRADE", message: "", limit: 250000 }, expected: /at most 250,000 tokens/ },
+    { violation: { code: "TRADE_COOLDOWN", message: "", limit: 30, retry_after_seconds: 12 }, expected: /wait 12s before trading/ },
+    { violation: { code: "HOURLY_VOLUME_LIMIT", message: "", limit: 1000, used: 800, retry_after_seconds: 600 },
+      expected: /bought KES 800 .* last hour; the hourly limit is KES 1,000\. Try again in 10 min\./ },
+    { violation: { code: "DAILY_VOLUME_LIMIT", message: "", limit: 20000, used: 19500 },
+      expected: /bought KES 19,500 .* last 24 hours; the daily limit is KES 20,000\.$/ },
+    { violation: { code: "MAX_HOLDING_PCT", message: "", limit: 5, max_amount: 1200 }, expected: /at most 5% .* buy up to 1,200 more/ },
+    { violation: { code: "MAX_HOLDING_PCT", message: "", limit: 5 }, expected: /at most 5% .* you've reached it/ },
+  ];
+
+  it.each(cases)("explains $violation.code", ({ violation, expected }) => {
+    expect(describeTradeLimit(violation)).toMatch(expected);
+  });
+
+  it("falls back to the cooldown length when no retry time is given", () => {
+    expect(describeTradeLimit({ code: "TRADE_COOLDOWN", message: "", limit: 90 })).toMatch(/wait 2 min/);
+  });
+});
+
+describe("tradeErrorMessage", () => {
+  it("explains limit rejections and passes other errors through", () => {
+    expect(tradeErrorMessage(raised({ code: "MIN_BUY_AMOUNT", limit: 10 }))).toBe("The minimum buy is KES 10.");
+    expect(tradeErrorMessage({ message: "Insufficient balance" })).toBe("Insufficient balance");
+    expect(tradeErrorMessage(null, "Order failed")).toBe("Order failed");
+  });
+});
+
+describe("checkBuyLimits", () => {
+  beforeEach(() => rpc.mockReset());
+
+  it("returns null when the buy may go ahead", async () => {
+    rpc.mockResolvedValueOnce({ data: { ok: true }, error: null });
+    await expect(checkBuyLimits("coin-1", 100)).resolves.toBeNull();
+    expect(rpc).toHaveBeenCalledWith("check_trade_limits", { _coin_id: "coin-1", _amount: 100 });
+  });
+
+  it("returns the violation when it would break a limit", async () => {
+    const violation = { ok: false, code: "DAILY_VOLUME_LIMIT", message: "Daily", limit: 20000, used: 20000 };
+    rpc.mockResolvedValueOnce({ data: violation, error: null });
+    await expect(checkBuyLimits("coin-1", 100)).resolves.toEqual(violation);
+  });
+
+  it("throws when the check itself fails", async () => {
+    const error = { code: "42501", message: "permission denied" };
+    rpc.mockResolvedValueOnce({ data: null, error });
+    await expect(checkBuyLimits("coin-1", 100)).rejects.toBe(error);
+  });
+});
@@ -0,0 +1,27 @@
+// Compare without bailing at the first differing character
+function safeEqual(a: string, b: string): boolean {
+  const left = new TextEncoder().encode(a);
+  const right = new TextEncoder().encode(b);
+  let diff = left.length ^ right.length;
+  for (let i = 0; i < left.length; i++) {
+    diff |= left[i] ^ (right[i % right.length] ?? 0);
+  }
+  return diff === 0;
+}
+
+/**
+ * True when the request carries the service role key or the CRON_SECRET
+ * that the pg_cron jobs read from Vault. Jobs that move money or message
+ * users call this first so they can't be triggered from a browser.
+ */
+export function isServiceRequest(req: Request): boolean {
+  const header = req.headers.get("Authorization");
+  if (!header?.startsWith("Bearer ")) return false;
+  const token = header.slice("Bearer ".length);
+
+  const accepted = [
+    Deno.env.get("SUPABASE_SERVICE_ROLE_KEY"),
+    Deno.env.get("CRON_SECRET"),
+  ];
+  return accepted.some((key) => !!key && safeEqual(token, key));
+}
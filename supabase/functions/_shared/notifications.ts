@@ -0,0 +1,288 @@
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { SMTPClient } from "https://deno.land/x/denomailer@1.6.0/mod.ts";
+
+export interface Recipient {
+  user_id: string;
+  email: string | null;
+  phone: string | null;
+  name: string | null;
+}
+
+export interface NotificationMessage {
+  recipients: Recipient[];
+  channels: string[];
+  subject: string;
+  email_body: string;
+  sms_body: string;
+  whatsapp_body: string;
+  template_slug: string | null;
+}
+
+interface SmtpConfig {
+  host: string;
+  port: number;
+  encryption: string;
+  username: string;
+  password: string;
+  from_name: string;
+  from_email: string;
+}
+
+interface SmsConfig {
+  username: string;
+  api_key: string;
+  sender_id: string | null;
+}
+
+interface WhatsAppConfig {
+  phone_number_id: string;
+  api_token: string;
+}
+
+async function sendSmtpEmail(
+  smtpConfig: SmtpConfig,
+  to: string,
+  subject: string,
+  htmlBody: string
+): Promise<{ success: boolean; error?: string }> {
+  try {
+    const tls = smtpConfig.encryption === "ssl";
+    const client = new SMTPClient({
+      connection: {
+        hostname: smtpConfig.host,
+        port: smtpConfig.port,
+        tls,
+        auth: {
+          username: smtpConfig.username,
+          password: smtpConfig.password,
+        },
+      },
+    });
+
+    await client.send({
+      from: `${smtpConfig.from_name} <${smtpConfig.from_email}>`,
+      to,
+      subject,
+      content: "auto",
+      html: htmlBody,
+    });
+
+    await client.close();
+    return { success: true };
+  } catch (e) {
+    return { success: false, error: (e as Error).message };
+  }
+}
+
+/**
+ * Sends one message to each recipient over the requested channels using the
+ * active SMTP, SMS and WhatsApp configs, and logs every attempt to
+ * notification_log. Callers must already have decided the recipients are
+ * allowed to receive it; this does no authorisation of its own.
+ */
+export async function sendNotifications(
+  adminClient: SupabaseClient,
+  message: NotificationMessage
+): Promise<{ sent: number; failed: number }> {
+  const { recipients, channels, subject, email_body, sms_body, whatsapp_body, template_slug } = message;
+
+  // Get site settings
+  const { data: settings } = await adminClient
+    .from("site_settings")
+    .select("site_name")
+    .maybeSingle();
+  const siteName = settings?.site_name || "Platform";
+
+  // Get channel configs
+  let smtpConfig: SmtpConfig | null = null;
+  let smsConfig: SmsConfig | null = null;
+  let whatsappConfig: WhatsAppConfig | null = null;
+
+  if (channels.includes("email")) {
+    const { data } = await adminClient.from("smtp_config").select("*").eq("is_active", true).maybeSingle();
+    smtpConfig = data as SmtpConfig | null;
+  }
+  if (channels.includes("sms")) {
+    const { data } = await adminClient.from("sms_config").select("*").eq("is_active", true).maybeSingle();
+    smsConfig = data as SmsConfig | null;
+  }
+  if (channels.includes("whatsapp")) {
+    const { data } = await adminClient.from("whatsapp_config").select("*").eq("is_active", true).maybeSingle();
+    whatsappConfig = data as WhatsAppConfig | null;
+  }
+
+  let sentCount = 0;
+  let failedCount = 0;
+
+  for (const recipient of recipients) {
+    const replacePlaceholders = (text: string) => {
+      return text
+        .replace(/\{\{user_name\}\}/g, recipient.name || "User")
+        .replace(/\{\{email\}\}/g, recipient.email || "")
+        .replace(/\{\{phone\}\}/g, recipient.phone || "")
+        .replace(/\{\{site_name\}\}/g, siteName);
+    };
+
+    // Send Email via SMTP
+    if (channels.includes("email") && recipient.email) {
+      if (smtpConfig) {
+        const emailSubject = replacePlaceholders(subject);
+        const emailHtml = replacePlaceholders(email_body);
+        const result = await sendSmtpEmail(smtpConfig, recipient.email, emailSubject, emailHtml);
+
+        await adminClient.from("notification_log").insert({
+          user_id: recipient.user_id,
+          channel: "email",
+          recipient: recipient.email,
+          subject: emailSubject,
+          body: emailHtml,
+          status: result.success ? "sent" : "failed",
+          error_message: result.error || null,
+          template_slug,
+        });
+        if (result.success) sentCount++;
+        else failedCount++;
+      } else {
+        await adminClient.from("notification_log").insert({
+          user_id: recipient.user_id,
+          channel: "email",
+          recipient: recipient.email,
+          subject: replacePlaceholders(subject),
+          body: replacePlaceholders(email_body),
+          status: "failed",
+          error_message: "SMTP not configured or inactive",
+          template_slug,
+        });
+        failedCount++;
+      }
+    }
+
+    // Send SMS via Africa's Talking
+    if (channels.includes("sms") && recipient.phone) {
+      if (smsConfig) {
+        try {
+          const smsText = replacePlaceholders(sms_body);
+          const formData = new URLSearchParams();
+          formData.append("username", smsConfig.username);
+          formData.append("to", recipient.phone);
+          formData.append("message", smsText);
+          if (smsConfig.sender_id) formData.append("from", smsConfig.sender_id);
+
+          const smsRes = await fetch(
+            "https://api.africastalking.com/version1/messaging",
+            {
+              method: "POST",
+              headers: {
+                apiKey: smsConfig.api_key,
+                "Content-Type": "application/x-www-form-urlencoded",
+                Accept: "application/json",
+              },
+              body: formData.toString(),
+            }
+          );
+          const smsResult = await smsRes.json();
+          const msgStatus = smsResult?.SMSMessageData?.Recipients?.[0]?.status;
+          const success = msgStatus === "Success";
+
+          await adminClient.from("notification_log").insert({
+            user_id: recipient.user_id,
+            channel: "sms",
+            recipient: recipient.phone,
+            body: smsText,
+            status: success ? "sent" : "failed",
+            error_message: success ? null : (msgStatus || "Unknown SMS error"),
+            template_slug,
+          });
+          if (success) sentCount++;
+          else failedCount++;
+        } catch (e) {
+          await adminClient.from("notification_log").insert({
+            user_id: recipient.user_id,
+            channel: "sms",
+            recipient: recipient.phone,
+            body: replacePlaceholders(sms_body),
+            status: "failed",
+            error_message: (e as Error).message,
+            template_slug,
+          });
+          failedCount++;
+        }
+      } else {
+        await adminClient.from("notification_log").insert({
+          user_id: recipient.user_id,
+          channel: "sms",
+          recipient: recipient.phone,
+          body: replacePlaceholders(sms_body),
+          status: "failed",
+          error_message: "SMS not configured or inactive",
+          template_slug,
+        });
+        failedCount++;
+      }
+    }
+
+    // Send WhatsApp via Meta Cloud API
+    if (channels.includes("whatsapp") && recipient.phone) {
+      if (whatsappConfig) {
+        try {
+          const waText = replacePlaceholders(whatsapp_body);
+          const phone = recipient.phone.replace(/\+/g, "");
+          const waRes = await fetch(
+            `https://graph.facebook.com/v18.0/${whatsappConfig.phone_number_id}/messages`,
+            {
+              method: "POST",
+              headers: {
+                Authorization: `Bearer ${whatsappConfig.api_token}`,
+                "Content-Type": "application/json",
+              },
+              body: JSON.stringify({
+                messaging_product: "whatsapp",
+                to: phone,
+                type: "text",
+                text: { body: waText },
+              }),
+            }
+          );
+          const waResult = await waRes.json();
+          const success = !!waResult?.messages?.[0]?.id;
+
+          await adminClient.from("notification_log").insert({
+            user_id: recipient.user_id,
+            channel: "whatsapp",
+            recipient: recipient.phone,
+            body: waText,
+            status: success ? "sent" : "failed",
+            error_message: success ? null : JSON.stringify(waResult?.error || "Unknown WA error"),
+            template_slug,
+          });
+          if (success) sentCount++;
+          else failedCount++;
+        } catch (e) {
+          await adminClient.from("notification_log").insert({
+            user_id: recipient.user_id,
+            channel: "whatsapp",
+            recipient: recipient.phone,
+            body: replacePlaceholders(whatsapp_body),
+            status: "failed",
+            error_message: (e as Error).message,
+            template_slug,
+          });
+          failedCount++;
+        }
+      } else {
+        await adminClient.from("notification_log").insert({
+          user_id: recipient.user_id,
+          channel: "whatsapp",
+          recipient: recipient.phone,
+          body: replacePlaceholders(whatsapp_body),
+          status: "failed",
+          error_message: "WhatsApp not configured or inactive",
+          template_slug,
+        });
+        failedCount++;
+      }
+    }
+  }
+
+  return { sent: sentCount, failed: failedCount };
+}
@@ -16,8 +16,10 @@ Deno.serve(async (req) => {
 
     const priceCutoff = new Date(Date.now() - 30 * 24 * 60 * 60 * 1000).toISOString();
     const tokenCutoff = new Date(Date.now() - 24 * 60 * 60 * 1000).toISOString();
+    // 1m candles only back the short chart timeframes; 5m and up are kept
+    const minuteCandleCutoff = new Date(Date.now() - 7 * 24 * 60 * 60 * 1000).toISOString();
 
-    const [priceRes, tokenRes] = await Promise.all([
+    const [priceRes, tokenRes, candleRes, levelRes] = await Promise.all([
       admin.from("price_history").delete().lt("created_at", priceCutoff).select("id"),
       admin
         .from("password_reset_tokens")
@@ -25,6 +27,19 @@ Deno.serve(async (req) => {
         .or(`used.eq.true,expires_at.lt.${new Date().toISOString()}`)
         .lt("created_at", tokenCutoff)
         .select("id"),
+      admin
+        .from("price_candles")
+        .delete()
+        .eq("interval", "1m")
+        .lt("bucket_start", minuteCandleCutoff)
+        .select("bucket_start"),
+      // Emptied order book levels are zeroed rather than deleted so realtime sees them go
+      admin
+        .from("order_book_levels")
+        .delete()
+        .eq("order_count", 0)
+        .lt("updated_at", tokenCutoff)
+        .select("price"),
     ]);
 
     return new Response(
@@ -32,6 +47,8 @@ Deno.serve(async (req) => {
         ok: true,
         price_history_deleted: priceRes.data?.length || 0,
         reset_tokens_deleted: tokenRes.data?.length || 0,
+        minute_candles_deleted: candleRes.data?.length || 0,
+        empty_book_levels_deleted: levelRes.data?.length || 0,
       }),
       { headers: { ...corsHeaders, "Content-Type": "application/json" } }
     );
@@ -0,0 +1,211 @@
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { sendNotifications } from "../_shared/notifications.ts";
+import { isServiceRequest } from "../_shared/auth.ts";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers":
+    "authorization, x-client-info, apikey, content-type",
+};
+
+const TEMPLATE_SLUG = "price_alert";
+
+interface AlertEvent {
+  id: string;
+  user_id: string;
+  coin_id: string;
+  kind: "price_above" | "price_below" | "change_up" | "change_down";
+  price: number;
+  target_price: number | null;
+  reference_price: number | null;
+  change_pct: number | null;
+  channels: string[];
+}
+
+interface Template {
+  subject: string;
+  email_body: string;
+  sms_body: string;
+  whatsapp_body: string;
+  is_email_enabled: boolean;
+  is_sms_enabled: boolean;
+  is_whatsapp_enabled: boolean;
+}
+
+const fmt = (n: number) =>
+  Number(n).toLocaleString("en-KE", { maximumFractionDigits: 6 });
+
+const describe = (e: AlertEvent) => {
+  switch (e.kind) {
+    case "price_above":
+      return `rose above KES ${fmt(e.target_price!)}`;
+    case "price_below":
+      return `fell below KES ${fmt(e.target_price!)}`;
+    case "change_up":
+      return `is up ${fmt(e.change_pct!)}% from KES ${fmt(e.reference_price!)}`;
+    case "change_down":
+      return `is down ${fmt(Math.abs(e.change_pct!))}% from KES ${fmt(e.reference_price!)}`;
+  }
+};
+
+Deno.serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  if (!isServiceRequest(req)) {
+    return new Response(JSON.stringify({ error: "Unauthorized" }), {
+      status: 401,
+      headers: { ...corsHeaders, "Content-Type": "application/json" },
+    });
+  }
+
+  try {
+    const supabaseUrl = Deno.env.get("SUPABASE_URL")!;
+    const serviceKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
+    const admin = createClient(supabaseUrl, serviceKey);
+
+    // Claim pending events first so an overlapping run can't send them twice.
+    // Anything older than a day is stale news and is dropped unsent.
+    const since = new Date(Date.now() - 24 * 60 * 60 * 1000).toISOString();
+    const { data: pending, error } = await admin
+      .from("price_alert_events")
+      .select("id")
+      .is("delivered_at", null)
+      .order("created_at", { ascending: true })
+      .limit(200);
+    if (error) throw error;
+    if (!pending || pending.length === 0) {
+      return new Response(JSON.stringify({ ok: true, delivered: 0 }), {
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+      });
+    }
+
+    const { data: events, error: claimError } = await admin
+      .from("price_alert_events")
+      .update({ delivered_at: new Date().toISOString() })
+      .in("id", pending.map((p) => p.id))
+      .is("delivered_at", null)
+      .gte("created_at", since)
+      .select("id, user_id, coin_id, kind, price, target_price, reference_price, change_pct, channels")
+      .returns<AlertEvent[]>();
+    if (claimError) throw claimError;
+    await admin
+      .from("price_alert_events")
+      .update({ delivered_at: new Date().toISOString(), delivery: { skipped: "stale" } })
+      .in("id", pending.map((p) => p.id))
+      .is("delivered_at", null);
+
+    const { data: template } = await admin
+      .from("notification_templates")
+      .select("subject, email_body, sms_body, whatsapp_body, is_email_enabled, is_sms_enabled, is_whatsapp_enabled")
+      .eq("slug", TEMPLATE_SLUG)
+      .maybeSingle<Template>();
+
+    const { data: settings } = await admin.from("site_settings").select("site_name").maybeSingle();
+    const siteName = settings?.site_name || "Platform";
+
+    const coinIds = [...new Set((events || []).map((e) => e.coin_id))];
+    const { data: coins } = await admin
+      .from("coins")
+      .select("id, symbol, name")
+      .in("id", coinIds)
+      .returns<{ id: string; symbol: string; name: string }[]>();
+    const coinMap = new Map((coins || []).map((c) => [c.id, c]));
+
+    const userIds = [...new Set((events || []).map((e) => e.user_id))];
+    const { data: profiles } = await admin
+      .from("profiles")
+      .select("user_id, email, full_name, phone")
+      .in("user_id", userIds)
+      .returns<{ user_id: string; email: string | null; full_name: string | null; phone: string | null }[]>();
+    const profileMap = new Map((profiles || []).map((p) => [p.user_id, p]));
+
+    const telegramUserIds = [...new Set((events || []).filter((e) => e.channels.includes("telegram")).map((e) => e.user_id))];
+    const { data: botConfig } = telegramUserIds.length
+      ? await admin.from("telegram_config").select("bot_token, is_active").maybeSingle()
+      : { data: null };
+    const { data: linked } = botConfig?.is_active && botConfig.bot_token
+      ? await admin.from("telegram_users").select("user_id, chat_id").in("user_id", telegramUserIds)
+      : { data: [] as { user_id: string; chat_id: string | null }[] };
+    const chatMap = new Map((linked || []).filter((l) => l.chat_id).map((l) => [l.user_id, l.chat_id]));
+
+    let delivered = 0;
+    for (const event of events || []) {
+      const coin = coinMap.get(event.coin_id);
+      const profile = profileMap.get(event.user_id);
+      // In-app push goes out through realtime as soon as the event row is written
+      const delivery: Record<string, string> = event.channels.includes("push") ? { push: "realtime" } : {};
+
+      if (template && coin && profile) {
+        const vars: Record<string, string> = {
+          user_name: profile.full_name || "there",
+          site_name: siteName,
+          coin_symbol: coin.symbol,
+          coin_name: coin.name,
+          condition: describe(event),
+          price: fmt(event.price),
+          reference_price: event.reference_price != null ? fmt(event.reference_price) : "",
+          change_pct: event.change_pct != null ? fmt(event.change_pct) : "",
+        };
+        const fill = (text: string) =>
+          (text || "").replace(/\{\{(\w+)\}\}/g, (m, key) => (key in vars ? vars[key] : m));
+
+        const channels = [
+          template.is_email_enabled && profile.email && "email",
+          template.is_sms_enabled && profile.phone && "sms",
+          template.is_whatsapp_enabled && profile.phone && "whatsapp",
+        ].filter((c): c is string => !!c && event.channels.includes(c));
+
+        if (channels.length > 0) {
+          const res = await sendNotifications(admin, {
+            recipients: [{
+              user_id: profile.user_id,
+              email: profile.email,
+              phone: profile.phone,
+              name: profile.full_name,
+            }],
+            channels,
+            subject: fill(template.subject),
+            email_body: fill(template.email_body),
+            sms_body: fill(template.sms_body),
+            whatsapp_body: fill(template.whatsapp_body),
+            template_slug: TEMPLATE_SLUG,
+          }).catch((e) => {
+            console.error("Notification failed:", e.message);
+            return null;
+          });
+          for (const c of channels) delivery[c] = res ? "sent" : "failed";
+        }
+
+        const chatId = event.channels.includes("telegram") ? chatMap.get(event.user_id) : undefined;
+        if (chatId && botConfig?.bot_token) {
+          const res = await fetch(`https://api.telegram.org/bot${botConfig.bot_token}/sendMessage`, {
+            method: "POST",
+            headers: { "Content-Type": "application/json" },
+            body: JSON.stringify({ chat_id: chatId, text: `🔔 ${fill(template.whatsapp_body)}` }),
+          }).catch((e) => {
+            console.error("Telegram send failed:", e.message);
+            return null;
+          });
+          delivery.telegram = res?.ok ? "sent" : "failed";
+        } else if (event.channels.includes("telegram")) {
+          delivery.telegram = "not_linked";
+        }
+      }
+
+      await admin.from("price_alert_events").update({ delivery }).eq("id", event.id);
+      if (Object.values(delivery).some((s) => s === "sent" || s === "realtime")) delivered++;
+    }
+
+    return new Response(
+      JSON.stringify({ ok: true, events: events?.length || 0, delivered }),
+      { headers: { ...corsHeaders, "Content-Type": "application/json" } },
+    );
+  } catch (error) {
+    return new Response(
+      JSON.stringify({ error: error instanceof Error ? error.message : String(error) }),
+      { status: 500, headers: { ...corsHeaders, "Content-Type": "application/json" } },
+    );
+  }
+});
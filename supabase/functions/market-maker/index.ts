@@ -0,0 +1,210 @@
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { isServiceRequest } from "../_shared/auth.ts";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers":
+    "authorization, x-client-info, apikey, content-type",
+};
+
+type Side = "buy" | "sell";
+
+interface MakerCoin {
+  id: string;
+  price: number;
+  initial_price: number;
+  bonding_curve_factor: number;
+  circulating_supply: number;
+  is_graduated: boolean;
+  updated_at: string;
+  market_maker_strategy: string;
+  market_maker_params: Record<string, number> | null;
+  market_maker_budget_kes: number;
+}
+
+interface MakerContext {
+  coin: MakerCoin;
+  params: Record<string, number>;
+  /** House tokens in this coin. */
+  inventory: number;
+  /** Organic (non-maker) KES volume and VWAP over the last 30 minutes. */
+  organicVolume: number;
+  organicVwap: number | null;
+}
+
+interface Decision {
+  side: Side;
+  kes: number;
+  reason: string;
+}
+
+interface Strategy {
+  defaults: Record<string, number>;
+  decide: (ctx: MakerContext) => Decision | null;
+}
+
+// Each strategy sizes its orders in KES; a coin's market_maker_params
+// override any of these defaults
+const strategies: Record<string, Strategy> = {
+  // Trade back toward the bonding-curve price once the market strays from it
+  mean_reversion: {
+    defaults: { threshold_pct: 2, order_kes: 500 },
+    decide: ({ coin, params }) => {
+      if (coin.is_graduated) return null;
+      const target = Number(coin.initial_price) * (1 + Number(coin.bonding_curve_factor) * Number(coin.circulating_supply));
+      if (!(target > 0)) return null;
+      const deviationPct = (Number(coin.price) / target - 1) * 100;
+      if (Math.abs(deviationPct) < params.threshold_pct) return null;
+      return {
+        side: deviationPct < 0 ? "buy" : "sell",
+        kes: params.order_kes,
+        reason: `Price ${deviationPct.toFixed(2)}% from curve price ${target.toPrecision(6)}`,
+      };
+    },
+  },
+
+  // Buy below and sell above a band around where organic trades have filled
+  spread: {
+    defaults: { spread_pct: 3, order_kes: 500 },
+    decide: ({ coin, params, organicVwap }) => {
+      if (!organicVwap) return null;
+      const half = params.spread_pct / 200;
+      const price = Number(coin.price);
+      if (price < organicVwap * (1 - half)) {
+        return { side: "buy", kes: params.order_kes, reason: `Below bid ${(organicVwap * (1 - half)).toPrecision(6)}` };
+      }
+      if (price > organicVwap * (1 + half)) {
+        return { side: "sell", kes: params.order_kes, reason: `Above ask ${(organicVwap * (1 + half)).toPrecision(6)}` };
+      }
+      return null;
+    },
+  },
+
+  // Small two-way trades, larger on busier coins; leans toward selling as
+  // the house's inventory uses up the budget
+  volume_noise: {
+    defaults: { min_kes: 100, max_kes: 1000, idle_seconds: 60 },
+    decide: ({ coin, params, inventory, organicVolume }) => {
+      if (Date.now() - new Date(coin.updated_at).getTime() < params.idle_seconds * 1000) return null;
+      const activityWeight = Math.min(1, Math.log10(1 + organicVolume) / 4);
+      const kes = (params.min_kes + activityWeight * (params.max_kes - params.min_kes)) * (0.5 + Math.random() / 2);
+      const budget = Number(coin.market_maker_budget_kes) || 0;
+      const used = budget > 0 ? Math.min(1, (inventory * Number(coin.price)) / budget) : 1;
+      const buyChance = Math.min(0.9, Math.max(0.1, 1 - used));
+      return {
+        side: Math.random() < buyChance ? "buy" : "sell",
+        kes,
+        reason: `Noise at ${(activityWeight * 100).toFixed(0)}% activity`,
+      };
+    },
+  },
+};
+
+Deno.serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  const json = (body: unknown, status = 200) =>
+    new Response(JSON.stringify(body), {
+      status,
+      headers: { ...corsHeaders, "Content-Type": "application/json" },
+    });
+
+  if (!isServiceRequest(req)) return json({ error: "Unauthorized" }, 401);
+
+  try {
+    const supabaseUrl = Deno.env.get("SUPABASE_URL")!;
+    const serviceKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
+    const admin = createClient(supabaseUrl, serviceKey);
+
+    const { data: settings } = await admin
+      .from("site_settings")
+      .select("market_maker_enabled, market_maker_user_id")
+      .maybeSingle();
+    if (!settings?.market_maker_enabled || !settings.market_maker_user_id) {
+      return json({ ok: true, skipped: "Market maker is off" });
+    }
+
+    const { data: coins, error } = await admin
+      .from("coins")
+      .select("id, price, initial_price, bonding_curve_factor, circulating_supply, is_graduated, updated_at, market_maker_strategy, market_maker_params, market_maker_budget_kes")
+      .eq("market_maker_enabled", true)
+      .eq("is_active", true)
+      .eq("is_approved", true)
+      .eq("trading_paused", false);
+    if (error) throw error;
+    if (!coins || coins.length === 0) return json({ ok: true, actions: 0 });
+
+    const coinIds = coins.map((c) => c.id);
+    const since = new Date(Date.now() - 30 * 60 * 1000).toISOString();
+    const [{ data: organic }, { data: holdings }] = await Promise.all([
+      admin
+        .from("transactions")
+        .select("coin_id, amount, total_value")
+        .in("coin_id", coinIds)
+        .eq("status", "completed")
+        .eq("is_market_maker", false)
+        .in("type", ["buy", "sell"])
+        .gte("created_at", since),
+      admin
+        .from("holdings")
+        .select("coin_id, amount")
+        .eq("user_id", settings.market_maker_user_id)
+        .in("coin_id", coinIds),
+    ]);
+
+    const flow = new Map<string, { value: number; amount: number }>();
+    (organic || []).forEach((t) => {
+      const f = flow.get(t.coin_id) || { value: 0, amount: 0 };
+      f.value += Number(t.total_value || 0);
+      f.amount += Number(t.amount || 0);
+      flow.set(t.coin_id, f);
+    });
+    const inventory = new Map<string, number>();
+    (holdings || []).forEach((h) => inventory.set(h.coin_id, Number(h.amount || 0)));
+
+    const results: { coin_id: string; strategy: string; side?: Side; ok: boolean; error?: string }[] = [];
+
+    for (const coin of coins as MakerCoin[]) {
+      const strategy = strategies[coin.market_maker_strategy];
+      if (!strategy) continue;
+      const params = { ...strategy.defaults, ...(coin.market_maker_params || {}) };
+      const f = flow.get(coin.id);
+      const held = inventory.get(coin.id) || 0;
+      const decision = strategy.decide({
+        coin,
+        params,
+        inventory: held,
+        organicVolume: f?.value || 0,
+        organicVwap: f && f.amount > 0 ? f.value / f.amount : null,
+      });
+      if (!decision || !(decision.kes > 0) || !(Number(coin.price) > 0)) continue;
+
+      let amount = decision.kes / Number(coin.price);
+      if (decision.side === "sell") amount = Math.min(amount, held);
+      if (!(amount > 0)) continue;
+
+      const { data, error: tradeErr } = await admin.rpc("market_maker_trade", {
+        _coin_id: coin.id,
+        _side: decision.side,
+        _amount: Number(amount.toFixed(6)),
+        _strategy: coin.market_maker_strategy,
+        _params: params,
+        _reason: decision.reason,
+      });
+      const result = data as { ok?: boolean; error?: string } | null;
+      results.push({
+        coin_id: coin.id,
+        strategy: coin.market_maker_strategy,
+        side: decision.side,
+        ok: !tradeErr && !!result?.ok,
+        error: tradeErr?.message || result?.error,
+      });
+    }
+
+    return json({ ok: true, coins: coins.length, actions: results.length, results });
+  } catch (e) {
+    return json({ error: e instanceof Error ? e.message : String(e) }, 500);
+  }
+});
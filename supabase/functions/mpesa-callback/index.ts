@@ -87,7 +87,8 @@ Deno.serve(async (req) => {
       const txFallback = await supabase
         .from("transactions")
         .select("id,status")
-        .eq("status", "pending")
+        .in("status", ["pending", "stk_sent"])
+        .is("mpesa_receipt", null)
         .order("created_at", { ascending: false })
         .limit(1)
         .maybeSingle();
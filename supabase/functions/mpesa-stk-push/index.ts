@@ -59,13 +59,33 @@ interface STKPushRequest {
   accountReference?: string;
   type?: "buy" | "deposit" | "coin_creation";
   userId?: string;
+  /** Same key for a resent request; it then returns the original checkout instead of prompting again */
+  idempotencyKey?: string;
 }
 
+const jsonResponse = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), { status, headers: { ...corsHeaders, "Content-Type": "application/json" } });
+
 Deno.serve(async (req) => {
   if (req.method === "OPTIONS") {
     return new Response("ok", { headers: corsHeaders });
   }
 
+  const adminClient = createClient(
+    Deno.env.get("SUPABASE_URL")!,
+    Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!
+  );
+  // A pending payment_requests row claiming the idempotency key; released as
+  // failed on any way out before M-Pesa accepts the prompt, so a retry can reclaim it
+  let claimedRequestId: string | null = null;
+  // Likewise a buy moved to stk_sent by claim_mpesa_buy
+  let claimedBuyId: string | null = null;
+  let failureReason = "STK Push failed";
+  const fail = (error: string, status = 500) => {
+    failureReason = error;
+    return jsonResponse({ error }, status);
+  };
+
   try {
     const authHeader = req.headers.get("Authorization");
     if (!authHeader?.startsWith("Bearer ")) {
@@ -77,7 +97,8 @@ Deno.serve(async (req) => {
     }
 
     const body: STKPushRequest = await req.json();
-    const { phone, amount, transactionId, paymentRequestId, accountReference, type = "buy", userId } = body;
+    const { phone, amount, transactionId, accountReference, type = "buy", userId, idempotencyKey } = body;
+    let { paymentRequestId } = body;
 
     // Determine caller identity
     let authenticatedUserId: string;
@@ -138,26 +159,90 @@ Deno.serve(async (req) => {
     if (formattedPhone.startsWith("0")) formattedPhone = `254${formattedPhone.substring(1)}`;
     else if (!formattedPhone.startsWith("254")) formattedPhone = `254${formattedPhone}`;
 
-    const adminClient = createClient(
-      Deno.env.get("SUPABASE_URL")!,
-      Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!
-    );
+    if (idempotencyKey) {
+      const replay = (checkoutRequestId: string, merchantRequestId: string | null) =>
+        jsonResponse({ success: true, message: "STK Push already sent", checkoutRequestId, merchantRequestId, replayed: true });
+
+      if (type === "buy" && transactionId) {
+        // mpesa_receipt holds the CheckoutRequestID until the payment completes
+        const { data: tx } = await adminClient
+          .from("transactions")
+          .select("mpesa_receipt, merchant_request_id")
+          .eq("id", transactionId)
+          .eq("user_id", authenticatedUserId)
+          .maybeSingle();
+        if (tx?.merchant_request_id && tx.mpesa_receipt) return replay(tx.mpesa_receipt, tx.merchant_request_id);
+      } else if (paymentRequestId) {
+        const { data: pr } = await adminClient
+          .from("payment_requests")
+          .select("checkout_request_id, merchant_request_id")
+          .eq("id", paymentRequestId)
+          .eq("user_id", authenticatedUserId)
+          .maybeSingle();
+        if (pr?.checkout_request_id) return replay(pr.checkout_request_id, pr.merchant_request_id);
+      } else if (type === "deposit" || type === "coin_creation") {
+        // Claim the key before prompting, so a concurrent duplicate can't also prompt
+        const { data: created, error: createError } = await adminClient.from("payment_requests").insert({
+          user_id: userId || authenticatedUserId,
+          coin_id: type === "coin_creation" ? transactionId || null : null,
+          type,
+          amount: Math.round(amount),
+          phone: formattedPhone,
+          status: "pending",
+          idempotency_key: idempotencyKey,
+        }).select("id").single();
+        if (createError?.code === "23505") {
+          const { data: pr } = await adminClient
+            .from("payment_requests")
+            .select("id, status, checkout_request_id, merchant_request_id")
+            .eq("user_id", userId || authenticatedUserId)
+            .eq("idempotency_key", idempotencyKey)
+            .maybeSingle();
+          if (pr?.checkout_request_id) return replay(pr.checkout_request_id, pr.merchant_request_id);
+          // An earlier attempt that never reached M-Pesa; take the key over again
+          const { data: reclaimed } = pr?.status === "failed"
+            ? await adminClient
+              .from("payment_requests")
+              .update({ status: "pending", result_desc: null })
+              .eq("id", pr.id)
+              .eq("status", "failed")
+              .select("id")
+              .maybeSingle()
+            : { data: null };
+          if (!reclaimed) {
+            return jsonResponse({ success: false, error: "This payment is already being processed" }, 409);
+          }
+          paymentRequestId = reclaimed.id;
+        } else {
+          if (createError) throw createError;
+          paymentRequestId = created.id;
+        }
+        claimedRequestId = paymentRequestId!;
+      }
+    }
+
+    if (type === "buy" && transactionId) {
+      // Holds the buy to the trade limits and counts it against them until it settles
+      const { data: claim, error: claimError } = await adminClient.rpc("claim_mpesa_buy", {
+        _transaction_id: transactionId,
+        _user_id: authenticatedUserId,
+      });
+      if (claimError) throw claimError;
+      if (!claim?.ok) {
+        return jsonResponse({ success: false, error: claim?.error || "Buy not allowed", violation: claim?.violation ?? null }, 400);
+      }
+      claimedBuyId = transactionId;
+    }
 
     let mpesaConfig: any;
     try {
       mpesaConfig = await getMpesaConfig(adminClient);
     } catch {
-      return new Response(JSON.stringify({ error: "M-PESA not configured. Contact admin." }), {
-        status: 500,
-        headers: { ...corsHeaders, "Content-Type": "application/json" },
-      });
+      return fail("M-PESA not configured. Contact admin.");
     }
 
     if (!mpesaConfig.consumer_key || !mpesaConfig.consumer_secret || !mpesaConfig.passkey) {
-      return new Response(JSON.stringify({ error: "M-PESA credentials not fully configured" }), {
-        status: 500,
-        headers: { ...corsHeaders, "Content-Type": "application/json" },
-      });
+      return fail("M-PESA credentials not fully configured");
     }
 
     const baseUrl = mpesaConfig.is_sandbox
@@ -169,10 +254,7 @@ Deno.serve(async (req) => {
       accessToken = await getMpesaAccessToken(baseUrl, mpesaConfig.consumer_key, mpesaConfig.consumer_secret);
     } catch (e) {
       console.error("OAuth token error:", e);
-      return new Response(JSON.stringify({ error: "Failed to authenticate with M-PESA" }), {
-        status: 500,
-        headers: { ...corsHeaders, "Content-Type": "application/json" },
-      });
+      return fail("Failed to authenticate with M-PESA");
     }
 
     const timestamp = new Date().toISOString().replace(/[-:T]/g, "").slice(0, 14);
@@ -216,36 +298,28 @@ Deno.serve(async (req) => {
     if (!contentType?.includes("application/json")) {
       const textResponse = await stkResponse.text();
       console.error("M-PESA returned non-JSON:", textResponse.substring(0, 300));
-      return new Response(JSON.stringify({ error: "M-PESA gateway returned invalid response" }), {
-        status: 500,
-        headers: { ...corsHeaders, "Content-Type": "application/json" },
-      });
+      return fail("M-PESA gateway returned invalid response");
     }
 
     const stkResult = await stkResponse.json();
 
     if (stkResult.ResponseCode !== "0") {
-      return new Response(
-        JSON.stringify({
-          success: false,
-          error: stkResult.errorMessage || stkResult.ResponseDescription || "STK Push failed",
-        }),
-        {
-          status: 400,
-          headers: { ...corsHeaders, "Content-Type": "application/json" },
-        }
-      );
+      failureReason = stkResult.errorMessage || stkResult.ResponseDescription || "STK Push failed";
+      return jsonResponse({ success: false, error: failureReason }, 400);
     }
 
     const checkoutRequestId = stkResult.CheckoutRequestID as string;
     const merchantRequestId = stkResult.MerchantRequestID as string;
+    // The prompt is out; the writes below move the claimed row to stk_sent
+    claimedRequestId = null;
+    claimedBuyId = null;
 
     // Fire-and-forget DB writes — don't block response to user
     const dbWrites = retryDbWrite("Post-STK DB write", async () => {
       if (type === "buy" && transactionId) {
         const { error } = await adminClient
           .from("transactions")
-          .update({ mpesa_receipt: checkoutRequestId, merchant_request_id: merchantRequestId, status: "stk_sent" })
+          .update({ mpesa_receipt: checkoutRequestId, merchant_request_id: merchantRequestId, amount_paid: Math.round(amount), status: "stk_sent" })
           .eq("id", transactionId)
           .eq("user_id", authenticatedUserId);
         if (error) throw error;
@@ -291,9 +365,22 @@ Deno.serve(async (req) => {
   } catch (error: unknown) {
     console.error("STK Push error:", error);
     const errorMessage = error instanceof Error ? error.message : "Internal server error";
-    return new Response(JSON.stringify({ error: errorMessage }), {
-      status: 500,
-      headers: { ...corsHeaders, "Content-Type": "application/json" },
-    });
+    return fail(errorMessage);
+  } finally {
+    if (claimedRequestId) {
+      const { error } = await adminClient.from("payment_requests")
+        .update({ status: "failed", result_desc: failureReason })
+        .eq("id", claimedRequestId)
+        .eq("status", "pending");
+      if (error) console.error("Failed to release payment request:", error);
+    }
+    if (claimedBuyId) {
+      const { error } = await adminClient.from("transactions")
+        .update({ status: "failed" })
+        .eq("id", claimedBuyId)
+        .eq("status", "stk_sent")
+        .is("merchant_request_id", null);
+      if (error) console.error("Failed to release buy:", error);
+    }
   }
 });
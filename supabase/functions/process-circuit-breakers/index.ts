@@ -0,0 +1,114 @@
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { isServiceRequest } from "../_shared/auth.ts";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers":
+    "authorization, x-client-info, apikey, content-type",
+};
+
+interface TripRow {
+  id: string;
+  coin_id: string;
+  reason: string;
+  message: string;
+  resumes_at: string | null;
+  created_at: string;
+  coin: { symbol: string; name: string } | null;
+}
+
+Deno.serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  if (!isServiceRequest(req)) {
+    return new Response(JSON.stringify({ error: "Unauthorized" }), {
+      status: 401,
+      headers: { ...corsHeaders, "Content-Type": "application/json" },
+    });
+  }
+
+  try {
+    const supabaseUrl = Deno.env.get("SUPABASE_URL")!;
+    const serviceKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
+    const admin = createClient(supabaseUrl, serviceKey);
+
+    const { data: resumed, error: resumeError } = await admin
+      .rpc("resume_circuit_breakers")
+      .returns<{ coin_id: string; symbol: string }[]>();
+    if (resumeError) throw resumeError;
+
+    const { data: trips, error } = await admin
+      .from("circuit_breaker_trips")
+      .select("id, coin_id, reason, message, resumes_at, created_at, coin:coins(symbol, name)")
+      .is("notified_at", null)
+      .order("created_at", { ascending: true })
+      .returns<TripRow[]>();
+    if (error) throw error;
+
+    const messages = [
+      ...(trips || []).map((t) =>
+        `⛔ <b>Circuit breaker: ${t.coin?.symbol || t.coin_id}</b>\n` +
+        `${t.message}.\n` +
+        (t.resumes_at
+          ? `Trading resumes automatically at ${new Date(t.resumes_at).toUTCString()}.`
+          : "Trading stays paused until an admin resumes it."),
+      ),
+      ...(resumed || []).map((c) => `✅ <b>${c.symbol}</b> trading resumed after circuit breaker cooldown.`),
+    ];
+
+    let delivered = 0;
+    if (messages.length > 0) {
+      const { data: botConfig } = await admin
+        .from("telegram_config")
+        .select("bot_token, chat_id, is_active")
+        .maybeSingle();
+
+      if (botConfig?.is_active && botConfig.bot_token) {
+        // The configured notifications chat plus every admin who linked the bot
+        const { data: roles } = await admin
+          .from("user_roles")
+          .select("user_id")
+          .in("role", ["admin", "super_admin"]);
+        const adminIds = [...new Set((roles || []).map((r) => r.user_id))];
+        const { data: linked } = adminIds.length
+          ? await admin.from("telegram_users").select("chat_id").in("user_id", adminIds)
+          : { data: [] as { chat_id: string | null }[] };
+        const chats = [...new Set([botConfig.chat_id, ...(linked || []).map((l) => l.chat_id)].filter(Boolean))];
+
+        for (const text of messages) {
+          for (const chat of chats) {
+            const res = await fetch(`https://api.telegram.org/bot${botConfig.bot_token}/sendMessage`, {
+              method: "POST",
+              headers: { "Content-Type": "application/json" },
+              body: JSON.stringify({ chat_id: chat, text, parse_mode: "HTML" }),
+            }).catch((e) => {
+              console.error("Telegram send failed:", e.message);
+              return null;
+            });
+            if (res?.ok) delivered++;
+          }
+        }
+      }
+
+      // Marked even without a bot so old trips don't flood the chat once one is set up
+      if (trips && trips.length > 0) {
+        await admin
+          .from("circuit_breaker_trips")
+          .update({ notified_at: new Date().toISOString() })
+          .in("id", trips.map((t) => t.id));
+      }
+    }
+
+    return new Response(
+      JSON.stringify({ ok: true, tripped: trips?.length || 0, resumed: resumed?.length || 0, delivered }),
+      { headers: { ...corsHeaders, "Content-Type": "application/json" } },
+    );
+  } catch (error) {
+    return new Response(
+      JSON.stringify({ error: error instanceof Error ? error.message : String(error) }),
+      { status: 500, headers: { ...corsHeaders, "Content-Type": "application/json" } },
+    );
+  }
+});
@@ -0,0 +1,218 @@
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { sendNotifications } from "../_shared/notifications.ts";
+import { isServiceRequest } from "../_shared/auth.ts";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers":
+    "authorization, x-client-info, apikey, content-type",
+};
+
+const ORDER_LABELS: Record<string, string> = {
+  stop_loss: "stop-loss",
+  take_profit: "take-profit",
+  trailing_stop: "trailing stop",
+};
+
+interface OrderRow {
+  id: string;
+  user_id: string;
+  coin_id: string;
+  order_type: string;
+  amount: number;
+  trigger_price: number | null;
+  trail_percent: number | null;
+  peak_price: number | null;
+  last_checked_at: string;
+}
+
+interface TriggerResult {
+  status: string;
+  executed_price?: number;
+  executed_amount?: number;
+  error?: string;
+  trigger_price: number;
+}
+
+interface Template {
+  slug: string;
+  subject: string;
+  email_body: string;
+  sms_body: string;
+  whatsapp_body: string;
+  is_email_enabled: boolean;
+  is_sms_enabled: boolean;
+  is_whatsapp_enabled: boolean;
+}
+
+const fmt = (n: number) =>
+  Number(n).toLocaleString("en-KE", { maximumFractionDigits: 6 });
+
+Deno.serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  if (!isServiceRequest(req)) {
+    return new Response(JSON.stringify({ error: "Unauthorized" }), {
+      status: 401,
+      headers: { ...corsHeaders, "Content-Type": "application/json" },
+    });
+  }
+
+  try {
+    const supabaseUrl = Deno.env.get("SUPABASE_URL")!;
+    const serviceKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
+    const admin = createClient(supabaseUrl, serviceKey);
+
+    const { data: orders, error } = await admin
+      .from("conditional_orders")
+      .select("*")
+      .eq("status", "active")
+      .order("created_at", { ascending: true })
+      .returns<OrderRow[]>();
+
+    if (error) throw error;
+    if (!orders || orders.length === 0) {
+      return new Response(JSON.stringify({ ok: true, evaluated: 0, triggered: 0 }), {
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+      });
+    }
+
+    const coinIds = [...new Set(orders.map((o) => o.coin_id))];
+    const { data: coins } = await admin
+      .from("coins")
+      .select("id, symbol, price, trading_paused")
+      .in("id", coinIds)
+      .returns<{ id: string; symbol: string; price: number; trading_paused: boolean }[]>();
+    const coinMap = new Map((coins || []).map((c) => [c.id, c]));
+
+    // Highs and lows since each order's last check so a wick between runs still trips it
+    const { data: windows, error: windowError } = await admin
+      .rpc("conditional_order_price_windows", { _order_ids: orders.map((o) => o.id) })
+      .returns<{ order_id: string; window_high: number | null; window_low: number | null }[]>();
+    if (windowError) throw windowError;
+    const windowMap = new Map((windows || []).map((w) => [w.order_id, w]));
+
+    const checkedAt = new Date().toISOString();
+    const fired: { order: OrderRow; result: TriggerResult }[] = [];
+
+    for (const order of orders) {
+      const coin = coinMap.get(order.coin_id);
+      if (!coin || coin.trading_paused) continue;
+
+      const current = Number(coin.price);
+      const window = windowMap.get(order.id);
+      const high = Math.max(current, Number(window?.window_high ?? current));
+      const low = Math.min(current, Number(window?.window_low ?? current));
+
+      let triggerAt: number | null = null;
+      let peak = Number(order.peak_price || current);
+
+      if (order.order_type === "stop_loss" && low <= Number(order.trigger_price)) {
+        triggerAt = low;
+      } else if (order.order_type === "take_profit" && current >= Number(order.trigger_price)) {
+        // Sells at the live price, so a high that has already passed doesn't count
+        triggerAt = current;
+      } else if (order.order_type === "trailing_stop") {
+        peak = Math.max(peak, high);
+        const stop = peak * (1 - Number(order.trail_percent) / 100);
+        if (current <= stop) triggerAt = current;
+      }
+
+      if (triggerAt === null) {
+        await admin
+          .from("conditional_orders")
+          .update({ peak_price: peak, last_checked_at: checkedAt })
+          .eq("id", order.id);
+        continue;
+      }
+
+      const { data: result, error: rpcError } = await admin.rpc("trigger_conditional_order", {
+        _order_id: order.id,
+        _reference_price: triggerAt,
+      });
+      if (rpcError) {
+        console.error(`Conditional order ${order.id} failed:`, rpcError.message);
+        continue;
+      }
+      if (result?.status === "triggered" || result?.status === "failed") {
+        fired.push({ order: { ...order, peak_price: peak }, result: { ...result, trigger_price: triggerAt } });
+      }
+    }
+
+    // Announce fills through the notification templates
+    if (fired.length > 0) {
+      const { data: templates } = await admin
+        .from("notification_templates")
+        .select("*")
+        .in("slug", ["conditional_order_triggered", "conditional_order_failed"])
+        .returns<Template[]>();
+      const templateMap = new Map((templates || []).map((t) => [t.slug, t]));
+
+      const userIds = [...new Set(fired.map((f) => f.order.user_id))];
+      const { data: profiles } = await admin
+        .from("profiles")
+        .select("user_id, email, full_name, phone")
+        .in("user_id", userIds)
+        .returns<{ user_id: string; email: string | null; full_name: string | null; phone: string | null }[]>();
+      const profileMap = new Map((profiles || []).map((p) => [p.user_id, p]));
+
+      for (const { order, result } of fired) {
+        const slug = result.status === "triggered" ? "conditional_order_triggered" : "conditional_order_failed";
+        const template = templateMap.get(slug);
+        const profile = profileMap.get(order.user_id);
+        if (!template || !profile) continue;
+
+        const channels = [
+          template.is_email_enabled && "email",
+          template.is_sms_enabled && "sms",
+          template.is_whatsapp_enabled && "whatsapp",
+        ].filter((c): c is string => !!c);
+        if (channels.length === 0) continue;
+
+        const coin = coinMap.get(order.coin_id);
+        const vars: Record<string, string> = {
+          order_type: ORDER_LABELS[order.order_type] || order.order_type,
+          coin_symbol: coin?.symbol || "",
+          amount: fmt(result.executed_amount ?? order.amount),
+          trigger_price: fmt(result.trigger_price),
+          executed_price: result.executed_price != null ? fmt(result.executed_price) : "",
+          reason: result.error || "",
+        };
+        const fill = (text: string) =>
+          (text || "").replace(/\{\{(\w+)\}\}/g, (m, key) => (key in vars ? vars[key] : m));
+
+        await sendNotifications(admin, {
+          recipients: [{
+            user_id: profile.user_id,
+            email: profile.email,
+            phone: profile.phone,
+            name: profile.full_name,
+          }],
+          channels,
+          subject: fill(template.subject),
+          email_body: fill(template.email_body),
+          sms_body: fill(template.sms_body),
+          whatsapp_body: fill(template.whatsapp_body),
+          template_slug: slug,
+        }).catch((e) => console.error("Notification failed:", e.message));
+      }
+    }
+
+    return new Response(
+      JSON.stringify({
+        ok: true,
+        evaluated: orders.length,
+        triggered: fired.filter((f) => f.result.status === "triggered").length,
+        failed: fired.filter((f) => f.result.status === "failed").length,
+      }),
+      { headers: { ...corsHeaders, "Content-Type": "application/json" } },
+    );
+  } catch (error) {
+    return new Response(
+      JSON.stringify({ error: error instanceof Error ? error.message : String(error) }),
+      { status: 500, headers: { ...corsHeaders, "Content-Type": "application/json" } },
+    );
+  }
+});
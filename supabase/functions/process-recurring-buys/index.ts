@@ -0,0 +1,175 @@
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { sendNotifications } from "../_shared/notifications.ts";
+import { isServiceRequest } from "../_shared/auth.ts";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers":
+    "authorization, x-client-info, apikey, content-type",
+};
+
+const RESULT_TEMPLATES: Record<string, string> = {
+  filled: "recurring_buy_filled",
+  skipped: "recurring_buy_skipped",
+  failed: "recurring_buy_failed",
+};
+
+interface PlanRow {
+  id: string;
+  user_id: string;
+  coin_id: string;
+  amount_kes: number;
+  frequency: string;
+}
+
+interface RunResult {
+  result: "filled" | "skipped" | "failed" | "not_due";
+  reason?: string | null;
+  coins_bought?: number | null;
+  executed_price?: string | null;
+  amount_kes: number;
+  next_run_at: string;
+}
+
+interface Template {
+  slug: string;
+  subject: string;
+  email_body: string;
+  sms_body: string;
+  whatsapp_body: string;
+  is_email_enabled: boolean;
+  is_sms_enabled: boolean;
+  is_whatsapp_enabled: boolean;
+}
+
+const fmt = (n: number) =>
+  Number(n).toLocaleString("en-KE", { maximumFractionDigits: 6 });
+
+Deno.serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  if (!isServiceRequest(req)) {
+    return new Response(JSON.stringify({ error: "Unauthorized" }), {
+      status: 401,
+      headers: { ...corsHeaders, "Content-Type": "application/json" },
+    });
+  }
+
+  try {
+    const supabaseUrl = Deno.env.get("SUPABASE_URL")!;
+    const serviceKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
+    const admin = createClient(supabaseUrl, serviceKey);
+
+    const { data: plans, error } = await admin
+      .from("recurring_buys")
+      .select("id, user_id, coin_id, amount_kes, frequency")
+      .eq("status", "active")
+      .lte("next_run_at", new Date().toISOString())
+      .order("next_run_at", { ascending: true })
+      .limit(200)
+      .returns<PlanRow[]>();
+
+    if (error) throw error;
+    if (!plans || plans.length === 0) {
+      return new Response(JSON.stringify({ ok: true, due: 0 }), {
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+      });
+    }
+
+    // Each plan runs in its own transaction so one bad plan can't block the rest
+    const runs: { plan: PlanRow; result: RunResult }[] = [];
+    for (const plan of plans) {
+      const { data: result, error: rpcError } = await admin.rpc("execute_recurring_buy", { _plan_id: plan.id });
+      if (rpcError) {
+        console.error(`Recurring buy ${plan.id} failed:`, rpcError.message);
+        continue;
+      }
+      if (result && result.result !== "not_due") runs.push({ plan, result });
+    }
+
+    if (runs.length > 0) {
+      const { data: templates } = await admin
+        .from("notification_templates")
+        .select("*")
+        .in("slug", Object.values(RESULT_TEMPLATES))
+        .returns<Template[]>();
+      const templateMap = new Map((templates || []).map((t) => [t.slug, t]));
+
+      const coinIds = [...new Set(runs.map((r) => r.plan.coin_id))];
+      const { data: coins } = await admin
+        .from("coins")
+        .select("id, symbol")
+        .in("id", coinIds)
+        .returns<{ id: string; symbol: string }[]>();
+      const coinMap = new Map((coins || []).map((c) => [c.id, c]));
+
+      const userIds = [...new Set(runs.map((r) => r.plan.user_id))];
+      const { data: profiles } = await admin
+        .from("profiles")
+        .select("user_id, email, full_name, phone")
+        .in("user_id", userIds)
+        .returns<{ user_id: string; email: string | null; full_name: string | null; phone: string | null }[]>();
+      const profileMap = new Map((profiles || []).map((p) => [p.user_id, p]));
+
+      for (const { plan, result } of runs) {
+        const slug = RESULT_TEMPLATES[result.result];
+        const template = templateMap.get(slug);
+        const profile = profileMap.get(plan.user_id);
+        if (!template || !profile) continue;
+
+        const channels = [
+          template.is_email_enabled && "email",
+          template.is_sms_enabled && "sms",
+          template.is_whatsapp_enabled && "whatsapp",
+        ].filter((c): c is string => !!c);
+        if (channels.length === 0) continue;
+
+        const vars: Record<string, string> = {
+          user_name: profile.full_name || "there",
+          coin_symbol: coinMap.get(plan.coin_id)?.symbol || "",
+          frequency: plan.frequency,
+          amount: result.coins_bought != null ? fmt(result.coins_bought) : "",
+          amount_kes: fmt(result.amount_kes),
+          executed_price: result.executed_price != null ? fmt(Number(result.executed_price)) : "",
+          reason: result.reason || "",
+          next_run: new Date(result.next_run_at).toLocaleString("en-KE", { dateStyle: "medium", timeStyle: "short" }),
+        };
+        const fill = (text: string) =>
+          (text || "").replace(/\{\{(\w+)\}\}/g, (m, key) => (key in vars ? vars[key] : m));
+
+        await sendNotifications(admin, {
+          recipients: [{
+            user_id: profile.user_id,
+            email: profile.email,
+            phone: profile.phone,
+            name: profile.full_name,
+          }],
+          channels,
+          subject: fill(template.subject),
+          email_body: fill(template.email_body),
+          sms_body: fill(template.sms_body),
+          whatsapp_body: fill(template.whatsapp_body),
+          template_slug: slug,
+        }).catch((e) => console.error("Notification failed:", e.message));
+      }
+    }
+
+    return new Response(
+      JSON.stringify({
+        ok: true,
+        due: plans.length,
+        filled: runs.filter((r) => r.result.result === "filled").length,
+        skipped: runs.filter((r) => r.result.result === "skipped").length,
+        failed: runs.filter((r) => r.result.result === "failed").length,
+      }),
+      { headers: { ...corsHeaders, "Content-Type": "application/json" } },
+    );
+  } catch (error) {
+    return new Response(
+      JSON.stringify({ error: error instanceof Error ? error.message : String(error) }),
+      { status: 500, headers: { ...corsHeaders, "Content-Type": "application/json" } },
+    );
+  }
+});
@@ -1,4 +1,5 @@
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { sendNotifications } from "../_shared/notifications.ts";
 
 const corsHeaders = {
   "Access-Control-Allow-Origin": "*",
@@ -61,28 +62,15 @@ Deno.serve(async (req) => {
       }
 
       if (recipients.length > 0) {
-        // Call the send-custom-notification function internally
-        const sendRes = await fetch(
-          `${supabaseUrl}/functions/v1/send-custom-notification`,
-          {
-            method: "POST",
-            headers: {
-              "Content-Type": "application/json",
-              Authorization: `Bearer ${serviceKey}`,
-            },
-            body: JSON.stringify({
-              recipients,
-              channels: schedule.channels,
-              subject: schedule.subject || "",
-              email_body: schedule.email_body || "",
-              sms_body: schedule.sms_body || "",
-              whatsapp_body: schedule.whatsapp_body || "",
-              template_slug: schedule.template_slug,
-            }),
-          }
-        );
-
-        const sendResult = await sendRes.json();
+        const sendResult = await sendNotifications(adminClient, {
+          recipients,
+          channels: schedule.channels,
+          subject: schedule.subject || "",
+          email_body: schedule.email_body || "",
+          sms_body: schedule.sms_body || "",
+          whatsapp_body: schedule.whatsapp_body || "",
+          template_slug: schedule.template_slug,
+        });
         
         // Update last_run
         await adminClient
@@ -0,0 +1,97 @@
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { ApiError, routes } from "./routes.ts";
+import { buildOpenApi } from "./openapi.ts";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type, x-api-key",
+  "Access-Control-Allow-Methods": "GET, OPTIONS",
+  "Access-Control-Expose-Headers": "X-RateLimit-Limit, X-RateLimit-Remaining, X-RateLimit-Reset, Retry-After",
+};
+
+interface Consumed {
+  ok: boolean;
+  code?: string;
+  message?: string;
+  limit?: number;
+  remaining?: number;
+  reset_at?: string;
+}
+
+// Route paths as regexes, e.g. /v1/coins/{coin} -> ^/v1/coins/(?<coin>[^/]+)$
+const matchers = routes.map((route) => ({
+  route,
+  pattern: new RegExp("^" + route.path.replace(/\{(\w+)\}/g, "(?<$1>[^/]+)") + "/?$"),
+}));
+
+const sha256Hex = async (text: string) => {
+  const digest = await crypto.subtle.digest("SHA-256", new TextEncoder().encode(text));
+  return Array.from(new Uint8Array(digest)).map((b) => b.toString(16).padStart(2, "0")).join("");
+};
+
+Deno.serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  const json = (body: unknown, status = 200, headers: Record<string, string> = {}) =>
+    new Response(JSON.stringify(body), {
+      status,
+      headers: { ...corsHeaders, ...headers, "Content-Type": "application/json" },
+    });
+  const fail = (status: number, code: string, message: string, headers: Record<string, string> = {}) =>
+    json({ error: { code, message } }, status, headers);
+
+  try {
+    if (req.method !== "GET") return fail(405, "METHOD_NOT_ALLOWED", "The API is read-only; use GET");
+
+    const url = new URL(req.url);
+    // Requests arrive as /public-api/v1/...; hosted and local runtimes differ on the prefix
+    const path = url.pathname.replace(/^.*?\/public-api(?=\/|$)/, "") || "/";
+    const supabaseUrl = Deno.env.get("SUPABASE_URL")!;
+
+    if (path === "/v1/openapi.json") {
+      return json(buildOpenApi(`${supabaseUrl}/functions/v1/public-api`));
+    }
+
+    let match: { route: typeof routes[number]; params: Record<string, string> } | null = null;
+    for (const m of matchers) {
+      const found = m.pattern.exec(path);
+      if (found) {
+        match = { route: m.route, params: Object.fromEntries(Object.entries(found.groups || {}).map(([k, v]) => [k, decodeURIComponent(v)])) };
+        break;
+      }
+    }
+    if (!match) return fail(404, "NOT_FOUND", `No endpoint at ${path}. The API description is at /v1/openapi.json`);
+
+    const apiKey = req.headers.get("x-api-key")?.trim();
+    if (!apiKey) return fail(401, "MISSING_KEY", "Send your API key in the X-API-Key header");
+
+    const db = createClient(supabaseUrl, Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!);
+    const { data, error } = await db.rpc("consume_api_request", { _key_hash: await sha256Hex(apiKey) });
+    if (error) throw error;
+    const usage = data as Consumed;
+
+    const limitHeaders: Record<string, string> = usage.limit != null
+      ? {
+          "X-RateLimit-Limit": String(usage.limit),
+          "X-RateLimit-Remaining": String(usage.remaining ?? 0),
+          "X-RateLimit-Reset": String(Math.ceil(new Date(usage.reset_at!).getTime() / 1000)),
+        }
+      : {};
+    if (!usage.ok) {
+      if (usage.code === "RATE_LIMITED") {
+        const retryAfter = Math.max(1, Math.ceil((new Date(usage.reset_at!).getTime() - Date.now()) / 1000));
+        return fail(429, usage.code, usage.message || "Rate limit exceeded", { ...limitHeaders, "Retry-After": String(retryAfter) });
+      }
+      return fail(usage.code === "API_DISABLED" ? 503 : 401, usage.code || "INVALID_KEY", usage.message || "Invalid API key");
+    }
+
+    const result = await match.route.handler({ db, path: match.params, query: url.searchParams });
+    return json({ data: result }, 200, limitHeaders);
+  } catch (e) {
+    if (e instanceof ApiError) return fail(e.status, e.code, e.message);
+    console.error("public-api error:", e);
+    return fail(500, "INTERNAL_ERROR", "Something went wrong; try again shortly");
+  }
+});
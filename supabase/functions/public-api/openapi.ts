@@ -0,0 +1,82 @@
+import { routes, schemas, type Route, type Schema } from "./routes.ts";
+
+export const API_VERSION = "1.0.0";
+
+const errorResponse = (description: string) => ({
+  description,
+  content: { "application/json": { schema: { $ref: "#/components/schemas/Error" } } },
+});
+
+const rateLimitHeaders = {
+  "X-RateLimit-Limit": { description: "Requests allowed per minute for this key", schema: { type: "integer" } },
+  "X-RateLimit-Remaining": { description: "Requests left in the current minute", schema: { type: "integer" } },
+  "X-RateLimit-Reset": { description: "Unix time when the current minute ends", schema: { type: "integer" } },
+};
+
+function operation(route: Route) {
+  const envelope: Schema = {
+    type: "object",
+    properties: { data: route.response },
+    required: ["data"],
+  };
+  return {
+    operationId: route.operationId,
+    summary: route.summary,
+    ...(route.description ? { description: route.description } : {}),
+    parameters: route.params.map((p) => ({ ...p, required: p.in === "path" ? true : !!p.required })),
+    responses: {
+      "200": {
+        description: "OK",
+        headers: rateLimitHeaders,
+        content: { "application/json": { schema: envelope } },
+      },
+      "400": errorResponse("A query parameter is invalid"),
+      "401": errorResponse("The API key is missing, unknown or revoked"),
+      ...(route.params.some((p) => p.in === "path") ? { "404": errorResponse("No listed coin matches") } : {}),
+      "429": {
+        ...errorResponse("Per-minute rate limit reached"),
+        headers: { ...rateLimitHeaders, "Retry-After": { description: "Seconds until the limit resets", schema: { type: "integer" } } },
+      },
+    },
+  };
+}
+
+/** OpenAPI 3.0 description of the route table, served at /v1/openapi.json. */
+export function buildOpenApi(serverUrl: string) {
+  const paths: Record<string, { get: ReturnType<typeof operation> }> = {};
+  for (const route of routes) paths[route.path] = { get: operation(route) };
+
+  return {
+    openapi: "3.0.3",
+    info: {
+      title: "Market Data API",
+      version: API_VERSION,
+      description:
+        "Read-only prices, candles, trades and coin metadata. Send your key from Profile → API Keys in the " +
+        "`X-API-Key` header. Market figures an administrator has set by hand are flagged in `overrides`; " +
+        "the trading-derived figures are always in `market_values`.",
+    },
+    servers: [{ url: serverUrl }],
+    security: [{ ApiKey: [] }],
+    paths,
+    components: {
+      securitySchemes: {
+        ApiKey: { type: "apiKey", in: "header", name: "X-API-Key" },
+      },
+      schemas: {
+        ...schemas,
+        Error: {
+          type: "object",
+          properties: {
+            error: {
+              type: "object",
+              properties: { code: { type: "string" }, message: { type: "string" } },
+              required: ["code", "message"],
+            },
+          },
+          required: ["error"],
+        },
+      },
+    },
+  };
+}
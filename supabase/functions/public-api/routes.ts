@@ -0,0 +1,568 @@
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+
+// A small JSON Schema subset; openapi.ts emits these as-is
+export interface Schema {
+  type?: "object" | "array" | "string" | "number" | "integer" | "boolean";
+  description?: string;
+  format?: string;
+  nullable?: boolean;
+  enum?: string[];
+  properties?: Record<string, Schema>;
+  required?: string[];
+  items?: Schema;
+  $ref?: string;
+}
+
+export interface Param {
+  name: string;
+  in: "path" | "query";
+  description: string;
+  required?: boolean;
+  schema: Schema;
+}
+
+export interface RouteContext {
+  db: SupabaseClient;
+  path: Record<string, string>;
+  query: URLSearchParams;
+}
+
+export interface Route {
+  /** Path under the API root, with {name} placeholders. */
+  path: string;
+  operationId: string;
+  summary: string;
+  description?: string;
+  params: Param[];
+  /** Schema of `data` in the 200 response. */
+  response: Schema;
+  handler: (ctx: RouteContext) => Promise<unknown>;
+}
+
+export class ApiError extends Error {
+  constructor(public status: number, public code: string, message: string) {
+    super(message);
+  }
+}
+
+const ref = (name: string): Schema => ({ $ref: `#/components/schemas/${name}` });
+const num = (description: string, nullable = false): Schema => ({ type: "number", description, ...(nullable ? { nullable } : {}) });
+
+// Fields an admin can pin to a fixed value from Coin Management. Responses
+// carry what the site shows, flag which ones are pinned, and give the
+// market-derived value alongside.
+const OVERRIDABLE = ["market_cap", "liquidity", "holders", "circulating_supply", "volatility", "price_change_24h"] as const;
+type Overridable = typeof OVERRIDABLE[number];
+
+const LEADERBOARDS = ["gainers", "losers", "coin_volume", "new_holders", "traders_pnl", "traders_volume"];
+const LEADERBOARD_PERIODS = ["24h", "7d", "30d"];
+
+export const schemas: Record<string, Schema> = {
+  Overrides: {
+    type: "object",
+    description: "True where an administrator has set the displayed value by hand instead of deriving it from trading.",
+    properties: Object.fromEntries(OVERRIDABLE.map((f) => [f, { type: "boolean" }])),
+    required: [...OVERRIDABLE],
+  },
+  MarketValues: {
+    type: "object",
+    description: "Values derived from trading and holdings, whether or not an override is shown.",
+    properties: Object.fromEntries(OVERRIDABLE.map((f) => [f, { type: "number", nullable: true }])),
+    required: [...OVERRIDABLE],
+  },
+  Stats24h: {
+    type: "object",
+    properties: {
+      open: num("First trade price in the window", true),
+      high: num("Highest trade price", true),
+      low: num("Lowest trade price", true),
+      close: num("Last trade price", true),
+      volume: num("Tokens traded"),
+      quote_volume: num("KES traded"),
+      trade_count: { type: "integer" },
+    },
+    required: ["open", "high", "low", "close", "volume", "quote_volume", "trade_count"],
+  },
+  Ticker: {
+    type: "object",
+    properties: {
+      coin_id: { type: "string", format: "uuid" },
+      symbol: { type: "string" },
+      price: num("Last price in KES"),
+      price_change_24h: num("Percent change over 24 hours"),
+      market_cap: num("KES"),
+      liquidity: num("KES"),
+      high_24h: num("KES", true),
+      low_24h: num("KES", true),
+      volume_24h: num("Tokens"),
+      quote_volume_24h: num("KES"),
+      trades_24h: { type: "integer" },
+      trading_paused: { type: "boolean" },
+      overrides: ref("Overrides"),
+      market_values: ref("MarketValues"),
+      updated_at: { type: "string", format: "date-time" },
+    },
+    required: ["coin_id", "symbol", "price", "price_change_24h", "overrides", "market_values"],
+  },
+  Coin: {
+    type: "object",
+    properties: {
+      id: { type: "string", format: "uuid" },
+      symbol: { type: "string" },
+      name: { type: "string" },
+      description: { type: "string", nullable: true },
+      logo_url: { type: "string", nullable: true },
+      contract_address: { type: "string", nullable: true },
+      links: {
+        type: "object",
+        properties: {
+          website: { type: "string", nullable: true },
+          whitepaper: { type: "string", nullable: true },
+          twitter: { type: "string", nullable: true },
+          telegram: { type: "string", nullable: true },
+          discord: { type: "string", nullable: true },
+        },
+      },
+      price: num("KES"),
+      initial_price: num("Launch price in KES"),
+      total_supply: num("Tokens"),
+      burned_supply: num("Tokens"),
+      circulating_supply: num("Tokens"),
+      market_cap: num("KES"),
+      liquidity: num("KES"),
+      holders: { type: "integer" },
+      volatility: num("Percent"),
+      price_change_24h: num("Percent"),
+      is_graduated: { type: "boolean", description: "Trades against a liquidity pool instead of the bonding curve" },
+      graduated_at: { type: "string", format: "date-time", nullable: true },
+      trading_paused: { type: "boolean" },
+      overrides: ref("Overrides"),
+      market_values: ref("MarketValues"),
+      created_at: { type: "string", format: "date-time" },
+    },
+    required: ["id", "symbol", "name", "price", "overrides", "market_values"],
+  },
+  Candle: {
+    type: "object",
+    properties: {
+      time: { type: "string", format: "date-time", description: "Bucket start" },
+      open: { type: "number" },
+      high: { type: "number" },
+      low: { type: "number" },
+      close: { type: "number" },
+      volume: num("Tokens"),
+      trade_count: { type: "integer" },
+    },
+    required: ["time", "open", "high", "low", "close", "volume", "trade_count"],
+  },
+  Trade: {
+    type: "object",
+    properties: {
+      id: { type: "string", format: "uuid" },
+      side: { type: "string", enum: ["buy", "sell"] },
+      amount: num("Tokens"),
+      price: num("KES per token"),
+      total_value: num("KES, before fees"),
+      is_market_maker: { type: "boolean", description: "Made by the platform's market-making account" },
+      time: { type: "string", format: "date-time" },
+    },
+    required: ["id", "side", "amount", "price", "total_value", "is_market_maker", "time"],
+  },
+  LeaderboardEntry: {
+    type: "object",
+    description: "Coin boards carry the coin fields; trader boards carry name and alias.",
+    properties: {
+      rank: { type: "integer" },
+      value: num("Percent for gainers/losers, KES for volume and P&L, accounts for new_holders"),
+      trade_count: { type: "integer", nullable: true },
+      coin_id: { type: "string", format: "uuid" },
+      symbol: { type: "string" },
+      name: { type: "string", nullable: true, description: "Coin name, or the trader's chosen name if they opted in" },
+      price: num("KES per token"),
+      alias: { type: "string", description: "Stable pseudonym for traders" },
+    },
+    required: ["rank", "value"],
+  },
+  Leaderboard: {
+    type: "object",
+    properties: {
+      board: { type: "string", enum: LEADERBOARDS },
+      period: { type: "string", enum: LEADERBOARD_PERIODS },
+      computed_at: { type: "string", format: "date-time", nullable: true, description: "When the snapshot was taken" },
+      entries: { type: "array", items: ref("LeaderboardEntry") },
+    },
+    required: ["board", "period", "entries"],
+  },
+};
+
+const COIN_COLUMNS =
+  "id, symbol, name, description, logo_url, contract_address, website_url, whitepaper_url, twitter_url, telegram_url, discord_url, " +
+  "price, initial_price, total_supply, burned_supply, circulating_supply, market_cap, liquidity, holders_count, volatility, " +
+  "is_graduated, graduated_at, trading_paused, created_at, updated_at, " +
+  "use_market_cap_override, market_cap_override, use_liquidity_override, liquidity_override, use_holders_override, holders_override, " +
+  "use_circulating_supply_override, circulating_supply_override, use_volatility_override, volatility_override, " +
+  "use_price_change_24h_override, price_change_24h_override";
+
+interface CoinRow {
+  id: string;
+  symbol: string;
+  name: string;
+  description: string | null;
+  logo_url: string | null;
+  contract_address: string | null;
+  website_url: string | null;
+  whitepaper_url: string | null;
+  twitter_url: string | null;
+  telegram_url: string | null;
+  discord_url: string | null;
+  price: number;
+  initial_price: number;
+  total_supply: number;
+  burned_supply: number | null;
+  circulating_supply: number | null;
+  market_cap: number | null;
+  liquidity: number | null;
+  holders_count: number | null;
+  volatility: number | null;
+  is_graduated: boolean;
+  graduated_at: string | null;
+  trading_paused: boolean;
+  created_at: string;
+  updated_at: string;
+  use_market_cap_override: boolean;
+  market_cap_override: number | null;
+  use_liquidity_override: boolean;
+  liquidity_override: number | null;
+  use_holders_override: boolean;
+  holders_override: number | null;
+  use_circulating_supply_override: boolean;
+  circulating_supply_override: number | null;
+  use_volatility_override: boolean;
+  volatility_override: number | null;
+  use_price_change_24h_override: boolean;
+  price_change_24h_override: number | null;
+}
+
+const OVERRIDE_COLUMNS: Record<Overridable, [keyof CoinRow, keyof CoinRow]> = {
+  market_cap: ["use_market_cap_override", "market_cap_override"],
+  liquidity: ["use_liquidity_override", "liquidity_override"],
+  holders: ["use_holders_override", "holders_override"],
+  circulating_supply: ["use_circulating_supply_override", "circulating_supply_override"],
+  volatility: ["use_volatility_override", "volatility_override"],
+  price_change_24h: ["use_price_change_24h_override", "price_change_24h_override"],
+};
+
+interface StatsRow {
+  coin_id: string;
+  open: number;
+  high: number;
+  low: number;
+  close: number;
+  volume: number;
+  quote_volume: number;
+  trade_count: number;
+}
+
+const EMPTY_STATS = { open: null, high: null, low: null, close: null, volume: 0, quote_volume: 0, trade_count: 0 };
+
+const toStats = (s: StatsRow | undefined) => s
+  ? {
+      open: Number(s.open),
+      high: Number(s.high),
+      low: Number(s.low),
+      close: Number(s.close),
+      volume: Number(s.volume),
+      quote_volume: Number(s.quote_volume),
+      trade_count: Number(s.trade_count),
+    }
+  : EMPTY_STATS;
+
+/** Displayed values, override flags and market-derived values for one coin. */
+function marketFields(coin: CoinRow, stats: ReturnType<typeof toStats>) {
+  const price = Number(coin.price);
+  const market: Record<Overridable, number | null> = {
+    market_cap: coin.market_cap != null ? Number(coin.market_cap) : price * Number(coin.circulating_supply || 0),
+    liquidity: Number(coin.liquidity || 0),
+    holders: Number(coin.holders_count || 0),
+    circulating_supply: Number(coin.circulating_supply || 0),
+    volatility: Number(coin.volatility || 0),
+    price_change_24h: stats.open ? Number(((price - stats.open) / stats.open * 100).toFixed(2)) : 0,
+  };
+  const overrides = {} as Record<Overridable, boolean>;
+  const displayed = {} as Record<Overridable, number | null>;
+  for (const field of OVERRIDABLE) {
+    const [flag, column] = OVERRIDE_COLUMNS[field];
+    overrides[field] = !!coin[flag] && coin[column] != null;
+    displayed[field] = overrides[field] ? Number(coin[column]) : market[field];
+  }
+  return { displayed, overrides, market };
+}
+
+const UUID_RE = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+/** Looks a listed coin up by id or symbol. */
+async function findCoin(db: SupabaseClient, idOrSymbol: string): Promise<CoinRow> {
+  let query = db.from("coins").select(COIN_COLUMNS).eq("is_active", true).eq("is_approved", true);
+  query = UUID_RE.test(idOrSymbol) ? query.eq("id", idOrSymbol) : query.ilike("symbol", idOrSymbol.replace(/[%_\\]/g, "\\$&"));
+  const { data, error } = await query.limit(1).maybeSingle();
+  if (error) throw error;
+  if (!data) throw new ApiError(404, "COIN_NOT_FOUND", `No listed coin matches "${idOrSymbol}"`);
+  return data as CoinRow;
+}
+
+async function fetchStats(db: SupabaseClient, coinId?: string) {
+  const { data, error } = await db.rpc("get_market_stats_24h", coinId ? { _coin_id: coinId } : {});
+  if (error) throw error;
+  return new Map(((data || []) as StatsRow[]).map((s) => [s.coin_id, s]));
+}
+
+function serializeCoin(coin: CoinRow, stats: ReturnType<typeof toStats>) {
+  const { displayed, overrides, market } = marketFields(coin, stats);
+  return {
+    id: coin.id,
+    symbol: coin.symbol,
+    name: coin.name,
+    description: coin.description,
+    logo_url: coin.logo_url,
+    contract_address: coin.contract_address,
+    links: {
+      website: coin.website_url,
+      whitepaper: coin.whitepaper_url,
+      twitter: coin.twitter_url,
+      telegram: coin.telegram_url,
+      discord: coin.discord_url,
+    },
+    price: Number(coin.price),
+    initial_price: Number(coin.initial_price),
+    total_supply: Number(coin.total_supply),
+    burned_supply: Number(coin.burned_supply || 0),
+    ...displayed,
+    is_graduated: !!coin.is_graduated,
+    graduated_at: coin.graduated_at,
+    trading_paused: !!coin.trading_paused,
+    overrides,
+    market_values: market,
+    created_at: coin.created_at,
+  };
+}
+
+function serializeTicker(coin: CoinRow, stats: ReturnType<typeof toStats>) {
+  const { displayed, overrides, market } = marketFields(coin, stats);
+  return {
+    coin_id: coin.id,
+    symbol: coin.symbol,
+    price: Number(coin.price),
+    price_change_24h: displayed.price_change_24h,
+    market_cap: displayed.market_cap,
+    liquidity: displayed.liquidity,
+    high_24h: stats.high,
+    low_24h: stats.low,
+    volume_24h: stats.volume,
+    quote_volume_24h: stats.quote_volume,
+    trades_24h: stats.trade_count,
+    trading_paused: !!coin.trading_paused,
+    overrides,
+    market_values: market,
+    updated_at: coin.updated_at,
+  };
+}
+
+const intParam = (query: URLSearchParams, name: string, fallback: number, min: number, max: number) => {
+  const raw = query.get(name);
+  if (raw === null) return fallback;
+  const n = Number(raw);
+  if (!Number.isInteger(n) || n < min || n > max) {
+    throw new ApiError(400, "INVALID_PARAMETER", `${name} must be a whole number from ${min} to ${max}`);
+  }
+  return n;
+};
+
+const dateParam = (query: URLSearchParams, name: string) => {
+  const raw = query.get(name);
+  if (raw === null) return null;
+  const d = new Date(/^\d+$/.test(raw) ? Number(raw) * 1000 : raw);
+  if (Number.isNaN(d.getTime())) throw new ApiError(400, "INVALID_PARAMETER", `${name} must be an ISO 8601 date or Unix seconds`);
+  return d;
+};
+
+const CANDLE_INTERVALS: Record<string, number> = {
+  "1m": 60, "5m": 300, "15m": 900, "1h": 3600, "4h": 14400, "1d": 86400,
+};
+const MAX_CANDLES = 1000;
+
+const coinParam: Param = {
+  name: "coin",
+  in: "path",
+  required: true,
+  description: "Coin id (UUID) or symbol, case-insensitive",
+  schema: { type: "string" },
+};
+
+export const routes: Route[] = [
+  {
+    path: "/v1/tickers",
+    operationId: "listTickers",
+    summary: "Price and 24h market summary for every listed coin",
+    params: [],
+    response: { type: "array", items: ref("Ticker") },
+    handler: async ({ db }) => {
+      const [{ data, error }, stats] = await Promise.all([
+        db.from("coins").select(COIN_COLUMNS).eq("is_active", true).eq("is_approved", true).order("market_cap", { ascending: false, nullsFirst: false }),
+        fetchStats(db),
+      ]);
+      if (error) throw error;
+      return ((data || []) as CoinRow[]).map((c) => serializeTicker(c, toStats(stats.get(c.id))));
+    },
+  },
+  {
+    path: "/v1/coins",
+    operationId: "listCoins",
+    summary: "Metadata and market figures for listed coins",
+    params: [
+      { name: "limit", in: "query", description: "Page size, 1–200 (default 100)", schema: { type: "integer" } },
+      { name: "offset", in: "query", description: "Rows to skip (default 0)", schema: { type: "integer" } },
+    ],
+    response: { type: "array", items: ref("Coin") },
+    handler: async ({ db, query }) => {
+      const limit = intParam(query, "limit", 100, 1, 200);
+      const offset = intParam(query, "offset", 0, 0, 100000);
+      const [{ data, error }, stats] = await Promise.all([
+        db.from("coins").select(COIN_COLUMNS).eq("is_active", true).eq("is_approved", true)
+          .order("created_at", { ascending: true }).range(offset, offset + limit - 1),
+        fetchStats(db),
+      ]);
+      if (error) throw error;
+      return ((data || []) as CoinRow[]).map((c) => serializeCoin(c, toStats(stats.get(c.id))));
+    },
+  },
+  {
+    path: "/v1/coins/{coin}",
+    operationId: "getCoin",
+    summary: "One coin's metadata and market figures",
+    params: [coinParam],
+    response: ref("Coin"),
+    handler: async ({ db, path }) => {
+      const coin = await findCoin(db, path.coin);
+      const stats = await fetchStats(db, coin.id);
+      return serializeCoin(coin, toStats(stats.get(coin.id)));
+    },
+  },
+  {
+    path: "/v1/coins/{coin}/stats",
+    operationId: "getCoinStats",
+    summary: "Rolling 24-hour OHLCV from market trades",
+    params: [coinParam],
+    response: ref("Stats24h"),
+    handler: async ({ db, path }) => {
+      const coin = await findCoin(db, path.coin);
+      const stats = await fetchStats(db, coin.id);
+      return toStats(stats.get(coin.id));
+    },
+  },
+  {
+    path: "/v1/coins/{coin}/candles",
+    operationId: "getCoinCandles",
+    summary: "OHLCV candles built from trade prices",
+    description: `At most ${MAX_CANDLES} candles per request; page back with \`to\`.`,
+    params: [
+      coinParam,
+      { name: "interval", in: "query", description: "Candle width (default 1h)", schema: { type: "string", enum: Object.keys(CANDLE_INTERVALS) } },
+      { name: "from", in: "query", description: "Start, ISO 8601 or Unix seconds (default: 200 candles before `to`)", schema: { type: "string" } },
+      { name: "to", in: "query", description: "End, ISO 8601 or Unix seconds (default: now)", schema: { type: "string" } },
+    ],
+    response: { type: "array", items: ref("Candle") },
+    handler: async ({ db, path, query }) => {
+      const interval = query.get("interval") || "1h";
+      const seconds = CANDLE_INTERVALS[interval];
+      if (!seconds) {
+        throw new ApiError(400, "INVALID_PARAMETER", `interval must be one of ${Object.keys(CANDLE_INTERVALS).join(", ")}`);
+      }
+      const to = dateParam(query, "to") || new Date();
+      let from = dateParam(query, "from") || new Date(to.getTime() - 200 * seconds * 1000);
+      if (from >= to) throw new ApiError(400, "INVALID_PARAMETER", "from must be before to");
+      if ((to.getTime() - from.getTime()) / 1000 / seconds > MAX_CANDLES) {
+        from = new Date(to.getTime() - MAX_CANDLES * seconds * 1000);
+      }
+      const coin = await findCoin(db, path.coin);
+      const { data, error } = await db.rpc("get_price_candles", {
+        _coin_id: coin.id,
+        _interval: interval,
+        _from: from.toISOString(),
+        _to: to.toISOString(),
+        _include_drift: false,
+      });
+      if (error) throw error;
+      return ((data || []) as { bucket_start: string; open: number; high: number; low: number; close: number; volume: number; trade_count: number }[]).map((c) => ({
+        time: c.bucket_start,
+        open: Number(c.open),
+        high: Number(c.high),
+        low: Number(c.low),
+        close: Number(c.close),
+        volume: Number(c.volume || 0),
+        trade_count: Number(c.trade_count || 0),
+      }));
+    },
+  },
+  {
+    path: "/v1/coins/{coin}/trades",
+    operationId: "getCoinTrades",
+    summary: "Most recent completed trades, newest first",
+    params: [
+      coinParam,
+      { name: "limit", in: "query", description: "Number of trades, 1–500 (default 50)", schema: { type: "integer" } },
+    ],
+    response: { type: "array", items: ref("Trade") },
+    handler: async ({ db, path, query }) => {
+      const limit = intParam(query, "limit", 50, 1, 500);
+      const coin = await findCoin(db, path.coin);
+      const { data, error } = await db
+        .from("transactions")
+        .select("id, type, amount, price_per_coin, total_value, is_market_maker, created_at")
+        .eq("coin_id", coin.id)
+        .eq("status", "completed")
+        .in("type", ["buy", "sell"])
+        .order("created_at", { ascending: false })
+        .limit(limit);
+      if (error) throw error;
+      return (data || []).map((t) => ({
+        id: t.id,
+        side: t.type,
+        amount: Number(t.amount),
+        price: Number(t.price_per_coin),
+        total_value: Number(t.total_value),
+        is_market_maker: !!t.is_market_maker,
+        time: t.created_at,
+      }));
+    },
+  },
+  {
+    path: "/v1/leaderboards",
+    operationId: "getLeaderboard",
+    summary: "Top coins or traders over a rolling period",
+    description: "Rankings are snapshots rebuilt every 10 minutes. Traders who haven't opted in have a null name.",
+    params: [
+      { name: "board", in: "query", required: true, description: "Which ranking", schema: { type: "string", enum: LEADERBOARDS } },
+      { name: "period", in: "query", description: "Rolling window (default 24h)", schema: { type: "string", enum: LEADERBOARD_PERIODS } },
+      { name: "limit", in: "query", description: "Entries, 1–100 (default 50)", schema: { type: "integer" } },
+    ],
+    response: ref("Leaderboard"),
+    handler: async ({ db, query }) => {
+      const board = query.get("board") || "";
+      const period = query.get("period") || "24h";
+      if (!LEADERBOARDS.includes(board)) {
+        throw new ApiError(400, "INVALID_PARAMETER", `board must be one of ${LEADERBOARDS.join(", ")}`);
+      }
+      if (!LEADERBOARD_PERIODS.includes(period)) {
+        throw new ApiError(400, "INVALID_PARAMETER", `period must be one of ${LEADERBOARD_PERIODS.join(", ")}`);
+      }
+      const limit = intParam(query, "limit", 50, 1, 100);
+      const { data, error } = await db.rpc("get_leaderboard", { _board: board, _period: period, _limit: limit });
+      if (error) throw error;
+      const result = data as { entries: Record<string, unknown>[] };
+      return {
+        ...result,
+        entries: result.entries.map(({ is_you: _isYou, logo_url: _logo, ...entry }) => entry),
+      };
+    },
+  },
+];
@@ -0,0 +1,216 @@
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { sendNotifications } from "../_shared/notifications.ts";
+import { isServiceRequest } from "../_shared/auth.ts";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers":
+    "authorization, x-client-info, apikey, content-type",
+};
+
+const TEMPLATE_SLUG = "airdrop_received";
+const BATCH_SIZE = 200;
+// Leave headroom under the edge function wall clock; cron picks up the rest
+const TIME_BUDGET_MS = 40_000;
+
+interface Airdrop {
+  id: string;
+  coin_id: string;
+  asset: "token" | "kes";
+  message: string | null;
+}
+
+interface SentRecipient {
+  id: string;
+  airdrop_id: string;
+  user_id: string;
+  amount: number;
+}
+
+interface Template {
+  subject: string;
+  email_body: string;
+  sms_body: string;
+  whatsapp_body: string;
+  is_email_enabled: boolean;
+  is_sms_enabled: boolean;
+  is_whatsapp_enabled: boolean;
+}
+
+const fmt = (n: number) =>
+  Number(n).toLocaleString("en-KE", { maximumFractionDigits: 6 });
+
+Deno.serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const supabaseUrl = Deno.env.get("SUPABASE_URL")!;
+    const serviceKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
+    const admin = createClient(supabaseUrl, serviceKey);
+    const started = Date.now();
+
+    // The sender's "resume" button names one airdrop; cron runs them all
+    const body = await req.json().catch(() => ({}));
+    if (!isServiceRequest(req)) {
+      const unauthorized = new Response(JSON.stringify({ error: "Unauthorized" }), {
+        status: 401,
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+      });
+      const authHeader = req.headers.get("Authorization");
+      if (!authHeader?.startsWith("Bearer ") || !body?.airdrop_id) return unauthorized;
+
+      const { data: { user } } = await admin.auth.getUser(authHeader.slice("Bearer ".length));
+      if (!user) return unauthorized;
+
+      const { data: owned } = await admin
+        .from("airdrops")
+        .select("id")
+        .eq("id", body.airdrop_id)
+        .eq("created_by", user.id)
+        .maybeSingle();
+      if (!owned) return unauthorized;
+    }
+
+    let query = admin.from("airdrops").select("id").eq("status", "running").order("created_at");
+    if (body?.airdrop_id) query = query.eq("id", body.airdrop_id);
+    const { data: running, error } = await query;
+    if (error) throw error;
+
+    const results: unknown[] = [];
+    for (const { id } of running || []) {
+      while (Date.now() - started < TIME_BUDGET_MS) {
+        const { data, error: batchError } = await admin.rpc("run_airdrop_batch", {
+          _airdrop_id: id,
+          _batch_size: BATCH_SIZE,
+        });
+        if (batchError) {
+          console.error(`Airdrop ${id} batch failed:`, batchError.message);
+          break;
+        }
+        const progress = data as { pending: number };
+        if (progress.pending === 0) {
+          results.push(data);
+          break;
+        }
+      }
+    }
+
+    // Claim paid recipients before notifying so an overlapping run can't send twice
+    const { data: unnotified, error: listError } = await admin
+      .from("airdrop_recipients")
+      .select("id")
+      .eq("status", "sent")
+      .is("notified_at", null)
+      .order("processed_at", { ascending: true })
+      .limit(500);
+    if (listError) throw listError;
+
+    let notified = 0;
+    if (unnotified && unnotified.length > 0) {
+      const { data: claimed, error: claimError } = await admin
+        .from("airdrop_recipients")
+        .update({ notified_at: new Date().toISOString() })
+        .in("id", unnotified.map((r) => r.id))
+        .is("notified_at", null)
+        .select("id, airdrop_id, user_id, amount")
+        .returns<SentRecipient[]>();
+      if (claimError) throw claimError;
+
+      const { data: template } = await admin
+        .from("notification_templates")
+        .select("subject, email_body, sms_body, whatsapp_body, is_email_enabled, is_sms_enabled, is_whatsapp_enabled")
+        .eq("slug", TEMPLATE_SLUG)
+        .maybeSingle<Template>();
+
+      const channels = template
+        ? [
+          template.is_email_enabled && "email",
+          template.is_sms_enabled && "sms",
+          template.is_whatsapp_enabled && "whatsapp",
+        ].filter((c): c is string => !!c)
+        : [];
+
+      if (template && channels.length > 0 && claimed && claimed.length > 0) {
+        const airdropIds = [...new Set(claimed.map((r) => r.airdrop_id))];
+        const { data: airdrops } = await admin
+          .from("airdrops")
+          .select("id, coin_id, asset, message")
+          .in("id", airdropIds)
+          .returns<Airdrop[]>();
+        const airdropMap = new Map((airdrops || []).map((a) => [a.id, a]));
+
+        const coinIds = [...new Set((airdrops || []).map((a) => a.coin_id))];
+        const { data: coins } = await admin
+          .from("coins")
+          .select("id, symbol, name")
+          .in("id", coinIds)
+          .returns<{ id: string; symbol: string; name: string }[]>();
+        const coinMap = new Map((coins || []).map((c) => [c.id, c]));
+
+        const { data: profiles } = await admin
+          .from("profiles")
+          .select("user_id, email, full_name, phone")
+          .in("user_id", [...new Set(claimed.map((r) => r.user_id))])
+          .returns<{ user_id: string; email: string | null; full_name: string | null; phone: string | null }[]>();
+        const profileMap = new Map((profiles || []).map((p) => [p.user_id, p]));
+
+        // Recipients of one airdrop who got the same amount share a message,
+        // so each group is one call; the helper fills in names
+        const groups = new Map<string, SentRecipient[]>();
+        for (const r of claimed) {
+          const key = `${r.airdrop_id}:${r.amount}`;
+          groups.set(key, [...(groups.get(key) || []), r]);
+        }
+
+        for (const group of groups.values()) {
+          const airdrop = airdropMap.get(group[0].airdrop_id);
+          const coin = airdrop && coinMap.get(airdrop.coin_id);
+          if (!airdrop || !coin) continue;
+
+          const vars: Record<string, string> = {
+            coin_symbol: coin.symbol,
+            coin_name: coin.name,
+            reward: airdrop.asset === "kes"
+              ? `KES ${fmt(group[0].amount)}`
+              : `${fmt(group[0].amount)} ${coin.symbol}`,
+            message: airdrop.message || "",
+          };
+          const fill = (text: string) =>
+            (text || "").replace(/\{\{(\w+)\}\}/g, (m, key) => (key in vars ? vars[key] : m));
+
+          const recipients = group
+            .map((r) => profileMap.get(r.user_id))
+            .filter((p) => !!p)
+            .map((p) => ({ user_id: p!.user_id, email: p!.email, phone: p!.phone, name: p!.full_name }));
+          if (recipients.length === 0) continue;
+
+          const res = await sendNotifications(admin, {
+            recipients,
+            channels,
+            subject: fill(template.subject),
+            email_body: fill(template.email_body),
+            sms_body: fill(template.sms_body),
+            whatsapp_body: fill(template.whatsapp_body),
+            template_slug: TEMPLATE_SLUG,
+          }).catch((e) => {
+            console.error("Notification failed:", e.message);
+            return null;
+          });
+          if (res) notified += recipients.length;
+        }
+      }
+    }
+
+    return new Response(
+      JSON.stringify({ ok: true, airdrops: running?.length || 0, completed: results.length, notified }),
+      { headers: { ...corsHeaders, "Content-Type": "application/json" } },
+    );
+  } catch (error) {
+    return new Response(
+      JSON.stringify({ error: error instanceof Error ? error.message : String(error) }),
+      { status: 500, headers: { ...corsHeaders, "Content-Type": "application/json" } },
+    );
+  }
+});
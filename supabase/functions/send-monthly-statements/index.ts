@@ -0,0 +1,154 @@
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { isServiceRequest } from "../_shared/auth.ts";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers":
+    "authorization, x-client-info, apikey, content-type",
+};
+
+interface StatementEntry {
+  occurred_at: string;
+  category: string;
+  description: string;
+  reference: string;
+  quantity: number | null;
+  price: number | null;
+  value: number;
+  fee: number;
+  net: number;
+}
+
+interface Statement {
+  site: { name: string };
+  opening_balance: number;
+  closing_balance: number;
+  entries: StatementEntry[];
+  totals: Record<string, number>;
+}
+
+const kes = (n: number) =>
+  `KES ${Number(n || 0).toLocaleString("en-KE", { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+
+const csvCell = (value: string | number | null) => {
+  const text = value === null || value === undefined ? "" : String(value);
+  return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+// Mirrors statementToCsv in src/lib/statement.ts
+function toCsv(s: Statement, period: string, account: string): string {
+  const rows: (string | number | null)[][] = [
+    [`${s.site.name} account statement`],
+    ["Account", account],
+    ["Period", period],
+    ["Opening balance (KES)", Number(s.opening_balance).toFixed(2)],
+    ["Closing balance (KES)", Number(s.closing_balance).toFixed(2)],
+    [],
+    ["Date", "Type", "Description", "Reference", "Quantity", "Price (KES)", "Value (KES)", "Fee (KES)", "Net (KES)"],
+    ...s.entries.map((e) => [
+      new Date(e.occurred_at).toISOString(),
+      e.category,
+      e.description,
+      e.reference,
+      e.quantity,
+      e.price,
+      Number(e.value).toFixed(2),
+      Number(e.fee).toFixed(2),
+      Number(e.net).toFixed(2),
+    ]),
+  ];
+  return rows.map((r) => r.map(csvCell).join(",")).join("\n");
+}
+
+Deno.serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  if (!isServiceRequest(req)) {
+    return new Response(JSON.stringify({ error: "Unauthorized" }), {
+      status: 401,
+      headers: { ...corsHeaders, "Content-Type": "application/json" },
+    });
+  }
+
+  try {
+    const supabaseUrl = Deno.env.get("SUPABASE_URL")!;
+    const serviceKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
+    const admin = createClient(supabaseUrl, serviceKey);
+
+    // Previous calendar month in UTC
+    const now = new Date();
+    const to = new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), 1));
+    const from = new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth() - 1, 1));
+    const period = from.toLocaleDateString("en-KE", { month: "long", year: "numeric", timeZone: "UTC" });
+    const monthKey = from.toISOString().slice(0, 7);
+
+    const { data: profiles, error } = await admin
+      .from("profiles")
+      .select("user_id, email, full_name")
+      .eq("statement_email_enabled", true)
+      .not("email", "is", null)
+      .returns<{ user_id: string; email: string; full_name: string | null }[]>();
+    if (error) throw error;
+
+    let sent = 0;
+    let skipped = 0;
+    for (const profile of profiles || []) {
+      const { data, error: rpcError } = await admin.rpc("get_account_statement", {
+        _from: from.toISOString(),
+        _to: to.toISOString(),
+        _user_id: profile.user_id,
+      });
+      if (rpcError) {
+        console.error(`Statement for ${profile.user_id} failed:`, rpcError.message);
+        continue;
+      }
+      const statement = data as Statement;
+      // Nothing happened and nothing is held: no statement worth sending
+      if (statement.entries.length === 0 && Number(statement.closing_balance) === 0) {
+        skipped++;
+        continue;
+      }
+
+      const { error: sendError } = await admin.functions.invoke("smtp-email", {
+        body: {
+          type: "statement",
+          email: profile.email,
+          user_name: profile.full_name || "there",
+          period,
+          summary: [
+            ["Opening balance", kes(statement.opening_balance)],
+            ["Deposits", kes(statement.totals.deposits)],
+            ["Withdrawals", kes(statement.totals.withdrawals)],
+            ["Bought", kes(statement.totals.bought)],
+            ["Sold", kes(statement.totals.sold)],
+            ["Referral commissions", kes(statement.totals.referral_commissions)],
+            ["Fees paid", kes(statement.totals.fees)],
+            ["Closing balance", kes(statement.closing_balance)],
+          ],
+          attachment: {
+            filename: `statement-${monthKey}.csv`,
+            content: toCsv(statement, period, profile.full_name || profile.email),
+            contentType: "text/csv",
+          },
+        },
+      });
+      if (sendError) {
+        console.error(`Statement email to ${profile.email} failed:`, sendError.message);
+        continue;
+      }
+      sent++;
+    }
+
+    return new Response(
+      JSON.stringify({ ok: true, period: monthKey, subscribers: profiles?.length || 0, sent, skipped }),
+      { headers: { ...corsHeaders, "Content-Type": "application/json" } },
+    );
+  } catch (error) {
+    return new Response(
+      JSON.stringify({ error: error instanceof Error ? error.message : String(error) }),
+      { status: 500, headers: { ...corsHeaders, "Content-Type": "application/json" } },
+    );
+  }
+});
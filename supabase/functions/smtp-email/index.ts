@@ -121,12 +121,24 @@ function tplGeneric(siteName: string, subject: string, message: string, domain:
   return shell(subject, "linear-gradient(135deg,#6366f1,#8b5cf6)", body, siteName, domain);
 }
 
+function tplStatement(siteName: string, userName: string, period: string, rows: Array<[string, string]>, domain: string) {
+  const lines = rows.map(([label, value]) => `
+      <tr><td style="color:#6b7280;font-size:13px;padding:6px 0;">${label}</td><td style="color:#111827;font-size:13px;padding:6px 0;text-align:right;font-family:monospace;">${value}</td></tr>`).join("");
+  const body = `
+    <p style="color:#374151;font-size:15px;line-height:1.6;margin:0 0 16px;">Hi ${userName},</p>
+    <p style="color:#374151;font-size:15px;line-height:1.6;margin:0 0 20px;">Here is your ${siteName} statement for <strong>${period}</strong>. The full list of transactions is attached as a CSV file.</p>
+    <table width="100%" cellpadding="0" cellspacing="0" style="border-top:1px solid #f3f4f6;">${lines}</table>
+    <p style="color:#9ca3af;font-size:11px;margin:20px 0 0;">You can download this statement as a PDF, or turn these emails off, from your portfolio page.</p>`;
+  return shell("Monthly Statement", "linear-gradient(135deg,#6366f1,#8b5cf6)", body, siteName, domain);
+}
+
 // ─────────────────────────── SMTP via nodemailer (robust) ───────────────────────────
 async function sendViaSmtp(
   cfg: any,
   to: string,
   subject: string,
   html: string,
+  attachments: Array<{ filename: string; content: string; contentType?: string }> = [],
 ): Promise<{ success: boolean; error?: string; strategy?: string }> {
   const port = Number(cfg.port) || 587;
   const enc = (cfg.encryption || "tls").toLowerCase();
@@ -172,6 +184,7 @@ async function sendViaSmtp(
         to,
         subject,
         html,
+        attachments,
       });
       console.log(`[SMTP] ✅ Success via ${s.name}`);
       try { transporter.close(); } catch (_) {}
@@ -214,7 +227,7 @@ Deno.serve(async (req) => {
     const adminClient = createClient(supabaseUrl, serviceKey);
 
     const body = await req.json().catch(() => ({}));
-    const { type, email, code, redirect_to, origin, user_name, amount, subject: subjOverride, message, password, phone, reason, reference, status } = body;
+    const { type, email, code, redirect_to, origin, user_name, amount, subject: subjOverride, message, password, phone, reason, reference, status, period, summary, attachment } = body;
 
     if (!email || !type) {
       return jsonResponse({ ok: false, error: "email and type are required" });
@@ -369,6 +382,10 @@ Deno.serve(async (req) => {
         html = tplSignupConfirm(siteName, confirmLink, domain);
         break;
       }
+      case "statement":
+        subject = `Your ${siteName} statement for ${period || "last month"}`;
+        html = tplStatement(siteName, user_name || "there", String(period || ""), Array.isArray(summary) ? summary : [], domain);
+        break;
       case "generic":
         subject = subjOverride || `Notification from ${siteName}`;
         html = tplGeneric(siteName, subject, message || "", domain);
@@ -377,7 +394,13 @@ Deno.serve(async (req) => {
         return jsonResponse({ ok: false, error: `Unknown email type: ${type}` });
     }
 
-    const result = await sendViaSmtp(smtpConfig, email, subject, html);
+    const result = await sendViaSmtp(
+      smtpConfig,
+      email,
+      subject,
+      html,
+      attachment?.filename && attachment?.content ? [attachment] : [],
+    );
 
     // Log (don't fail if logging fails)
     try {
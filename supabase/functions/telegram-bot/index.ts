@@ -92,8 +92,8 @@ Deno.serve(async (req) => {
     const linkedMenu = {
       inline_keyboard: [
         [{ text: "💰 Buy Tokens", callback_data: "buy_tokens" }, { text: "📊 Portfolio", callback_data: "portfolio" }],
-        [{ text: "💳 Deposit", callback_data: "deposit" }, { text: "🔑 Reset Password", callback_data: "forgot_password" }],
-        [{ text: "ℹ️ Help", callback_data: "help" }],
+        [{ text: "💳 Deposit", callback_data: "deposit" }, { text: "⭐ Watchlist", callback_data: "watchlist" }],
+        [{ text: "🔑 Reset Password", callback_data: "forgot_password" }, { text: "ℹ️ Help", callback_data: "help" }],
       ],
     };
 
@@ -138,8 +138,12 @@ Deno.serve(async (req) => {
       return /^254\d{9}$/.test(p) || /^07\d{8}$/.test(p) || /^01\d{8}$/.test(p);
     };
 
+    // Inline buttons can be tapped more than once; keying the payment on the
+    // button's message makes repeat taps replay the first STK push
+    const buttonRequestKey = () => `tg-${chatId}-${message?.message_id}`;
+
     // ── Process purchase (sends STK push) ──
-    async function processPurchase(chat: number, tgId: string, coinId: string, amount: number, phone: string) {
+    async function processPurchase(chat: number, tgId: string, coinId: string, amount: number, phone: string, idempotencyKey?: string) {
       const linked = await findLinkedUser(tgId);
       if (!linked) {
         await sendMessage(chat, "❌ No linked account.", unlinkedMenu);
@@ -152,6 +156,22 @@ Deno.serve(async (req) => {
         return;
       }
 
+      // Anti-whale limits are checked before the STK push; a cleared payment can't be refused
+      const { data: limits, error: limitsError } = await supabase.rpc("check_trade_limits", {
+        _coin_id: coinId,
+        _kes_amount: amount,
+        _user_id: linked.user_id,
+      });
+      if (limitsError) console.error("check_trade_limits error:", limitsError);
+      else if (limits && !limits.ok && limits.code) {
+        await savePendingAmount(tgId, null);
+        await sendMessage(chat,
+          `⛔ <b>Purchase not allowed</b>\n\n${describeTradeLimit(limits)}`,
+          { inline_keyboard: [[{ text: "🔄 Change Amount", callback_data: `sel_${coinId}` }], [{ text: "🏠 Main Menu", callback_data: "main_menu" }]] }
+        );
+        return;
+      }
+
       phone = normalizePhone(phone);
       const tokenAmount = (amount / Number(coin.price)).toFixed(2);
 
@@ -174,6 +194,7 @@ Deno.serve(async (req) => {
           amount,
           userId: linked.user_id,
           type: "deposit",
+          idempotencyKey,
         };
         console.log("Calling STK push:", stkUrl, JSON.stringify(stkBody));
         
@@ -192,7 +213,9 @@ Deno.serve(async (req) => {
         let stkData: any;
         try { stkData = JSON.parse(respText); } catch { stkData = { error: respText }; }
 
-        if (stkData.error || !stkData.checkoutRequestId) {
+        if (stkData.replayed) {
+          await sendMessage(chat, `ℹ️ This payment was already sent to your phone. Enter your M-PESA PIN there to complete it.`);
+        } else if (stkData.error || !stkData.checkoutRequestId) {
           await sendMessage(chat,
             `❌ <b>Payment failed</b>\n\n${stkData.error || "Could not initiate payment"}`,
             { inline_keyboard: [[{ text: "🔄 Try Again", callback_data: `sel_${coinId}` }], [{ text: "🏠 Main Menu", callback_data: "main_menu" }]] }
@@ -212,7 +235,7 @@ Deno.serve(async (req) => {
     }
 
     // ── Process deposit ──
-    async function processDeposit(chat: number, tgId: string, amount: number, phone: string) {
+    async function processDeposit(chat: number, tgId: string, amount: number, phone: string, idempotencyKey?: string) {
       const linked = await findLinkedUser(tgId);
       if (!linked) {
         await sendMessage(chat, "❌ No linked account.", unlinkedMenu);
@@ -231,6 +254,7 @@ Deno.serve(async (req) => {
           amount,
           userId: linked.user_id,
           type: "deposit",
+          idempotencyKey,
         };
         console.log("Deposit STK push:", stkUrl, JSON.stringify(stkBody));
         
@@ -248,7 +272,9 @@ Deno.serve(async (req) => {
         
         let stkData: any;
         try { stkData = JSON.parse(respText); } catch { stkData = { error: respText }; }
-        if (stkData.error) {
+        if (stkData.replayed) {
+          await sendMessage(chat, `ℹ️ This deposit was already sent to your phone. Enter your M-PESA PIN there to complete it.`);
+        } else if (stkData.error) {
           await sendMessage(chat, `❌ ${stkData.error}`,
             { inline_keyboard: [[{ text: "🔄 Retry", callback_data: "deposit" }], [{ text: "🏠 Menu", callback_data: "main_menu" }]] }
           );
@@ -348,6 +374,7 @@ Deno.serve(async (req) => {
         `<b>Commands:</b>\n` +
         `• <b>Buy Tokens</b> - Browse and purchase crypto tokens\n` +
         `• <b>Portfolio</b> - View your token holdings\n` +
+        `• <b>Watchlist</b> - Prices of the coins you starred (/watchlist)\n` +
         `• <b>Deposit</b> - Add funds to your wallet\n` +
         `• <b>Reset Password</b> - Get a temporary password\n\n` +
         `All payments are processed via M-PESA. You'll receive an STK push on your phone.`,
@@ -572,7 +599,7 @@ Deno.serve(async (req) => {
       const coinId = parts[0];
       const amount = parseInt(parts[1]);
       const phone = parts[2];
-      await processPurchase(chatId, telegramUserId, coinId, amount, phone);
+      await processPurchase(chatId, telegramUserId, coinId, amount, phone, buttonRequestKey());
       return ok();
     }
 
@@ -747,7 +774,7 @@ Deno.serve(async (req) => {
       const parts = callbackData.replace("depay_", "").split("_");
       const amount = parseInt(parts[0]);
       const phone = parts[1];
-      await processDeposit(chatId, telegramUserId, amount, phone);
+      await processDeposit(chatId, telegramUserId, amount, phone, buttonRequestKey());
       return ok();
     }
 
@@ -818,6 +845,65 @@ Deno.serve(async (req) => {
       return ok();
     }
 
+    // ── Watchlist ──
+    if (callbackData === "watchlist" || text === "/watchlist" || text.startsWith("/watchlist ")) {
+      await answerCallback();
+      const linked = await findLinkedUser(telegramUserId);
+      if (!linked) {
+        await sendMessage(chatId, "❌ Please link your account first.", unlinkedMenu);
+        return ok();
+      }
+
+      // "/watchlist Name" shows just that list
+      const wanted = text.startsWith("/watchlist ") ? text.replace("/watchlist ", "").trim() : "";
+      const [listsRes, changesRes] = await Promise.all([
+        supabase
+          .from("watchlists")
+          .select("name, created_at, watchlist_items(added_at, coins(id, name, symbol, price, is_active, use_price_change_24h_override, price_change_24h_override))")
+          .eq("user_id", linked.user_id)
+          .order("created_at", { ascending: true }),
+        supabase.rpc("get_coin_price_changes_24h"),
+      ]);
+
+      let lists = (listsRes.data || []) as WatchlistRow[];
+      if (wanted) lists = lists.filter((l) => l.name.toLowerCase() === wanted.toLowerCase());
+      const changes = new Map<string, number>(
+        ((changesRes.data || []) as { coin_id: string; price_change_24h: number }[]).map((c) => [c.coin_id, Number(c.price_change_24h)])
+      );
+
+      let msg = "⭐ <b>Your Watchlists</b>\n\n";
+      const buyButtons: { text: string; callback_data: string }[] = [];
+      if (lists.length === 0) {
+        msg += wanted
+          ? `No watchlist called "${escapeHtml(wanted)}".`
+          : "Nothing here yet. Tap ☆ on any coin on the website to start a watchlist.";
+      }
+      for (const list of lists) {
+        msg += `<b>${escapeHtml(list.name)}</b>\n`;
+        const items = [...(list.watchlist_items || [])]
+          .sort((a, b) => a.added_at.localeCompare(b.added_at))
+          .map((i) => i.coins)
+          .filter((c): c is WatchlistCoin => !!c?.is_active);
+        if (items.length === 0) msg += "  (empty)\n";
+        for (const coin of items) {
+          const change = coin.use_price_change_24h_override && coin.price_change_24h_override != null
+            ? Number(coin.price_change_24h_override)
+            : (changes.get(coin.id) ?? 0);
+          msg += `• ${coin.symbol}  KES ${Number(coin.price).toPrecision(6)}  ${change >= 0 ? "📈 +" : "📉 "}${change.toFixed(2)}%\n`;
+          if (buyButtons.length < 6 && !buyButtons.some((b) => b.callback_data === `sel_${coin.id}`)) {
+            buyButtons.push({ text: `💰 ${coin.symbol}`, callback_data: `sel_${coin.id}` });
+          }
+        }
+        msg += "\n";
+      }
+
+      const rows: { text: string; callback_data: string }[][] = [];
+      for (let i = 0; i < buyButtons.length; i += 3) rows.push(buyButtons.slice(i, i + 3));
+      rows.push([{ text: "🔄 Refresh", callback_data: "watchlist" }, { text: "🏠 Main Menu", callback_data: "main_menu" }]);
+      await sendMessage(chatId, msg.trim(), { inline_keyboard: rows });
+      return ok();
+    }
+
     // ── Forgot password ──
     if (callbackData === "forgot_password") {
       await answerCallback();
@@ -941,3 +1027,44 @@ function ok() {
     headers: { "Content-Type": "application/json" },
   });
 }
+
+interface WatchlistCoin {
+  id: string;
+  name: string;
+  symbol: string;
+  price: number;
+  is_active: boolean;
+  use_price_change_24h_override: boolean | null;
+  price_change_24h_override: number | null;
+}
+
+interface WatchlistRow {
+  name: string;
+  watchlist_items: { added_at: string; coins: WatchlistCoin | null }[];
+}
+
+// List names are user input; Telegram rejects HTML messages with stray tags
+const escapeHtml = (s: string) => s.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;");
+
+const formatWait = (seconds: number) => {
+  if (seconds < 60) return `${Math.max(1, Math.ceil(seconds))}s`;
+  if (seconds < 3600) return `${Math.ceil(seconds / 60)} min`;
+  return `${Math.floor(seconds / 3600)}h ${Math.ceil((seconds % 3600) / 60)}m`;
+};
+
+// Mirrors describeTradeLimit in src/lib/trade-limits.ts for check_trade_limits codes
+function describeTradeLimit(v: { code: string; message: string; limit: number; used?: number; retry_after_seconds?: number | null; max_amount?: number }) {
+  const kes = (n: number) => `KES ${Number(n).toLocaleString()}`;
+  const retry = v.retry_after_seconds ? `\nTry again in ${formatWait(v.retry_after_seconds)}.` : "";
+  switch (v.code) {
+    case "MIN_BUY_AMOUNT": return `The minimum buy is ${kes(v.limit)}.`;
+    case "MAX_BUY_AMOUNT": return `The maximum buy is ${kes(v.limit)} per trade.`;
+    case "MAX_SUPPLY_PER_TRADE": return `One purchase can buy at most ${Number(v.limit).toLocaleString()} tokens right now.`;
+    case "TRADE_COOLDOWN": return `You're trading too fast. Wait ${formatWait(v.retry_after_seconds || v.limit)} before buying this token again.`;
+    case "HOURLY_VOLUME_LIMIT": return `You've bought ${kes(v.used || 0)} of this token in the last hour. The hourly limit is ${kes(v.limit)}.${retry}`;
+    case "DAILY_VOLUME_LIMIT": return `You've bought ${kes(v.used || 0)} of this token in the last 24 hours. The daily limit is ${kes(v.limit)}.${retry}`;
+    case "MAX_HOLDING_PCT": return `One account may hold at most ${v.limit}% of the supply.` +
+      (v.max_amount ? ` You can buy up to ${Number(v.max_amount).toLocaleString()} more tokens.` : "");
+    default: return v.message;
+  }
+}
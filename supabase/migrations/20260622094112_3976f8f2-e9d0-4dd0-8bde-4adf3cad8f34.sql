@@ -0,0 +1,780 @@
+-- Resting limit orders. Buy orders escrow KES from the wallet at placement;
+-- sell orders reserve tokens in holdings (checked by execute_trade).
+CREATE TABLE IF NOT EXISTS public.limit_orders (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid NOT NULL,
+  coin_id uuid NOT NULL REFERENCES public.coins(id) ON DELETE CASCADE,
+  side text NOT NULL CHECK (side IN ('buy', 'sell')),
+  price numeric NOT NULL CHECK (price > 0),
+  amount numeric NOT NULL CHECK (amount > 0),
+  filled_amount numeric NOT NULL DEFAULT 0,
+  reserved_fiat numeric NOT NULL DEFAULT 0,
+  status text NOT NULL DEFAULT 'open' CHECK (status IN ('open', 'partially_filled', 'filled', 'cancelled')),
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_limit_orders_book
+  ON public.limit_orders (coin_id, side, price, created_at)
+  WHERE status IN ('open', 'partially_filled');
+
+CREATE INDEX IF NOT EXISTS idx_limit_orders_user
+  ON public.limit_orders (user_id, created_at DESC);
+
+ALTER TABLE public.limit_orders ENABLE ROW LEVEL SECURITY;
+
+-- Writes go through the order RPCs only
+CREATE POLICY "Users can view their own limit orders" ON public.limit_orders
+  FOR SELECT USING (auth.uid() = user_id);
+CREATE POLICY "Admins can view all limit orders" ON public.limit_orders
+  FOR SELECT USING (public.is_admin(auth.uid()));
+
+-- One row per order per fill (book fills produce a row for each side)
+CREATE TABLE IF NOT EXISTS public.limit_order_fills (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  order_id uuid NOT NULL REFERENCES public.limit_orders(id) ON DELETE CASCADE,
+  counter_order_id uuid REFERENCES public.limit_orders(id) ON DELETE SET NULL,
+  coin_id uuid NOT NULL REFERENCES public.coins(id) ON DELETE CASCADE,
+  source text NOT NULL CHECK (source IN ('book', 'curve')),
+  price numeric NOT NULL,
+  amount numeric NOT NULL,
+  transaction_id uuid,
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_limit_order_fills_order
+  ON public.limit_order_fills (order_id, created_at DESC);
+
+ALTER TABLE public.limit_order_fills ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view fills of their own orders" ON public.limit_order_fills
+  FOR SELECT USING (EXISTS (
+    SELECT 1 FROM public.limit_orders o WHERE o.id = order_id AND o.user_id = auth.uid()
+  ));
+CREATE POLICY "Admins can view all limit order fills" ON public.limit_order_fills
+  FOR SELECT USING (public.is_admin(auth.uid()));
+
+-- Public aggregated depth, maintained from limit_orders by trigger
+CREATE TABLE IF NOT EXISTS public.order_book_levels (
+  coin_id uuid NOT NULL REFERENCES public.coins(id) ON DELETE CASCADE,
+  side text NOT NULL CHECK (side IN ('buy', 'sell')),
+  price numeric NOT NULL,
+  amount numeric NOT NULL DEFAULT 0,
+  order_count integer NOT NULL DEFAULT 0,
+  updated_at timestamptz NOT NULL DEFAULT now(),
+  PRIMARY KEY (coin_id, side, price)
+);
+
+ALTER TABLE public.order_book_levels ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone can view order book levels" ON public.order_book_levels
+  FOR SELECT USING (true);
+
+CREATE OR REPLACE FUNCTION public.apply_order_book_delta(_coin_id uuid, _side text, _price numeric, _amount numeric, _count integer)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+BEGIN
+  INSERT INTO public.order_book_levels (coin_id, side, price, amount, order_count)
+    VALUES (_coin_id, _side, _price, _amount, _count)
+    ON CONFLICT (coin_id, side, price) DO UPDATE
+      SET amount = public.order_book_levels.amount + EXCLUDED.amount,
+          order_count = public.order_book_levels.order_count + EXCLUDED.order_count,
+          updated_at = now();
+
+  DELETE FROM public.order_book_levels
+    WHERE coin_id = _coin_id AND side = _side AND price = _price
+      AND (order_count <= 0 OR amount <= 0);
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.sync_order_book_levels()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+BEGIN
+  IF TG_OP IN ('UPDATE', 'DELETE') AND OLD.status IN ('open', 'partially_filled') THEN
+    PERFORM public.apply_order_book_delta(OLD.coin_id, OLD.side, OLD.price, -(OLD.amount - OLD.filled_amount), -1);
+  END IF;
+  IF TG_OP IN ('INSERT', 'UPDATE') AND NEW.status IN ('open', 'partially_filled') THEN
+    PERFORM public.apply_order_book_delta(NEW.coin_id, NEW.side, NEW.price, NEW.amount - NEW.filled_amount, 1);
+  END IF;
+  RETURN COALESCE(NEW, OLD);
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trg_sync_order_book_levels ON public.limit_orders;
+CREATE TRIGGER trg_sync_order_book_levels
+AFTER INSERT OR UPDATE OR DELETE ON public.limit_orders
+FOR EACH ROW
+EXECUTE FUNCTION public.sync_order_book_levels();
+
+-- Sell-side tokens reserved by a user's resting sell orders
+CREATE OR REPLACE FUNCTION public.locked_sell_amount(_user_id uuid, _coin_id uuid)
+RETURNS numeric
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+  SELECT COALESCE(SUM(amount - filled_amount), 0)
+    FROM public.limit_orders
+    WHERE user_id = _user_id AND coin_id = _coin_id AND side = 'sell'
+      AND status IN ('open', 'partially_filled');
+$$;
+
+-- Same as the previous version, except sells may not dip into tokens
+-- reserved by the seller's open limit sell orders.
+CREATE OR REPLACE FUNCTION public.execute_trade(_user_id uuid, _coin_id uuid, _trade_type text, _amount numeric, _use_wallet boolean, _to_wallet boolean)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+DECLARE
+  v_coin RECORD;
+  v_settings RECORD;
+  v_wallet_balance numeric;
+  v_holding RECORD;
+  v_base_price numeric;
+  v_exec_price numeric;
+  v_total_value numeric;
+  v_fee numeric;
+  v_creator_share numeric;
+  v_net_value numeric;
+  v_tx_id uuid;
+  v_holders_delta integer := 0;
+  v_remaining_supply numeric;
+  v_max_buy numeric;
+  v_new_circ numeric;
+  v_new_base_price numeric;
+  v_pressure_factor numeric;
+  v_final_price numeric;
+  v_locked numeric;
+BEGIN
+  IF _amount IS NULL OR _amount <= 0 THEN
+    RAISE EXCEPTION 'Trade amount must be greater than zero';
+  END IF;
+  IF _trade_type NOT IN ('buy','sell') THEN
+    RAISE EXCEPTION 'Invalid trade type';
+  END IF;
+
+  SELECT * INTO v_coin FROM public.coins WHERE id = _coin_id FOR UPDATE;
+  IF NOT FOUND THEN RAISE EXCEPTION 'Coin not found'; END IF;
+  IF v_coin.trading_paused THEN RAISE EXCEPTION 'Trading paused for this coin'; END IF;
+
+  SELECT fee_percentage, creator_commission_percentage,
+         COALESCE(sell_pressure_multiplier, 1.5)   AS sell_pressure_multiplier,
+         COALESCE(buy_slippage_percentage, 0.5)    AS buy_slippage_percentage,
+         COALESCE(sell_slippage_percentage, 1.0)   AS sell_slippage_percentage,
+         COALESCE(max_buy_supply_percentage, 25)   AS max_buy_supply_percentage
+    INTO v_settings FROM public.site_settings LIMIT 1;
+
+  v_base_price := v_coin.price;
+
+  IF _trade_type = 'buy' THEN
+    v_remaining_supply := GREATEST(0, COALESCE(v_coin.total_supply, 0) - COALESCE(v_coin.circulating_supply, 0));
+    IF v_remaining_supply <= 0 THEN
+      RAISE EXCEPTION 'No remaining supply available for purchase';
+    END IF;
+    IF _amount > v_remaining_supply THEN
+      RAISE EXCEPTION 'Requested amount exceeds remaining supply (% available)', v_remaining_supply;
+    END IF;
+    v_max_buy := v_remaining_supply * (v_settings.max_buy_supply_percentage / 100.0);
+    IF v_max_buy > 0 AND _amount > v_max_buy THEN
+      RAISE EXCEPTION 'Single trade limited to % percent of remaining supply (max %)',
+        v_settings.max_buy_supply_percentage, v_max_buy;
+    END IF;
+
+    v_exec_price := v_base_price * (1 + v_settings.buy_slippage_percentage / 100.0);
+    v_total_value := _amount * v_exec_price;
+    v_fee := v_total_value * (COALESCE(v_settings.fee_percentage, 0) / 100.0);
+    v_creator_share := v_total_value * (COALESCE(v_settings.creator_commission_percentage, 0) / 100.0);
+
+    IF _use_wallet THEN
+      SELECT fiat_balance INTO v_wallet_balance FROM public.wallets WHERE user_id = _user_id FOR UPDATE;
+      IF v_wallet_balance IS NULL THEN RAISE EXCEPTION 'Wallet not found'; END IF;
+      IF v_wallet_balance < (v_total_value + v_fee) THEN
+        RAISE EXCEPTION 'Insufficient wallet balance';
+      END IF;
+      UPDATE public.wallets SET fiat_balance = fiat_balance - (v_total_value + v_fee) WHERE user_id = _user_id;
+    END IF;
+
+    INSERT INTO public.transactions (user_id, coin_id, type, amount, price_per_coin, total_value, status)
+      VALUES (_user_id, _coin_id, 'buy', _amount, v_exec_price, v_total_value, 'completed')
+      RETURNING id INTO v_tx_id;
+
+    SELECT * INTO v_holding FROM public.holdings WHERE user_id = _user_id AND coin_id = _coin_id FOR UPDATE;
+    IF v_holding.id IS NULL THEN
+      INSERT INTO public.holdings (user_id, coin_id, amount, average_buy_price)
+        VALUES (_user_id, _coin_id, _amount, v_exec_price);
+      v_holders_delta := 1;
+    ELSE
+      UPDATE public.holdings
+        SET amount = v_holding.amount + _amount,
+            average_buy_price = ((v_holding.amount * v_holding.average_buy_price) + (_amount * v_exec_price)) / (v_holding.amount + _amount),
+            updated_at = now()
+        WHERE id = v_holding.id;
+    END IF;
+
+    v_new_circ := v_coin.circulating_supply + _amount;
+    v_new_base_price := public.calculate_bonding_price(v_coin.initial_price, v_coin.bonding_curve_factor, v_new_circ);
+    v_final_price := v_new_base_price;
+
+  ELSE
+    SELECT * INTO v_holding FROM public.holdings WHERE user_id = _user_id AND coin_id = _coin_id FOR UPDATE;
+    IF v_holding.id IS NULL OR v_holding.amount < _amount THEN
+      RAISE EXCEPTION 'Insufficient coin balance';
+    END IF;
+    v_locked := public.locked_sell_amount(_user_id, _coin_id);
+    IF v_holding.amount - v_locked < _amount THEN
+      RAISE EXCEPTION 'Insufficient coin balance (% reserved by open sell orders)', v_locked;
+    END IF;
+    IF _amount > v_coin.circulating_supply THEN
+      RAISE EXCEPTION 'Sell amount exceeds circulating supply';
+    END IF;
+
+    v_exec_price := v_base_price * GREATEST(0, 1 - v_settings.sell_slippage_percentage / 100.0);
+    v_total_value := _amount * v_exec_price;
+    v_fee := v_total_value * (COALESCE(v_settings.fee_percentage, 0) / 100.0);
+    v_creator_share := v_total_value * (COALESCE(v_settings.creator_commission_percentage, 0) / 100.0);
+    v_net_value := GREATEST(0, v_total_value - v_fee);
+
+    INSERT INTO public.transactions (user_id, coin_id, type, amount, price_per_coin, total_value, status)
+      VALUES (_user_id, _coin_id, 'sell', _amount, v_exec_price, v_total_value, 'completed')
+      RETURNING id INTO v_tx_id;
+
+    IF v_holding.amount - _amount <= 0 THEN
+      DELETE FROM public.holdings WHERE id = v_holding.id;
+      v_holders_delta := -1;
+    ELSE
+      UPDATE public.holdings SET amount = v_holding.amount - _amount, updated_at = now() WHERE id = v_holding.id;
+    END IF;
+
+    IF _to_wallet THEN
+      INSERT INTO public.wallets (user_id, fiat_balance) VALUES (_user_id, v_net_value)
+        ON CONFLICT (user_id) DO UPDATE SET fiat_balance = public.wallets.fiat_balance + v_net_value;
+    END IF;
+
+    v_new_circ := GREATEST(0, v_coin.circulating_supply - _amount);
+    v_new_base_price := public.calculate_bonding_price(v_coin.initial_price, v_coin.bonding_curve_factor, v_new_circ);
+
+    v_pressure_factor := LEAST(0.5,
+      v_settings.sell_pressure_multiplier *
+      (_amount / GREATEST(v_coin.circulating_supply, 1)));
+    v_final_price := GREATEST(v_coin.initial_price * 0.01, v_new_base_price * (1 - v_pressure_factor));
+  END IF;
+
+  PERFORM set_config('app.skip_price_trigger', '1', true);
+  UPDATE public.coins
+    SET circulating_supply = v_new_circ,
+        price = v_final_price,
+        market_cap = v_final_price * v_new_circ,
+        liquidity = CASE WHEN _trade_type = 'buy'
+                         THEN COALESCE(liquidity, 0) + v_total_value
+                         ELSE GREATEST(0, COALESCE(liquidity, 0) - v_total_value) END,
+        holders_count = GREATEST(0, holders_count + v_holders_delta),
+        updated_at = now()
+    WHERE id = _coin_id;
+  PERFORM set_config('app.skip_price_trigger', '0', true);
+
+  IF v_fee > 0 THEN
+    INSERT INTO public.commission_transactions (transaction_id, amount, commission_rate)
+      VALUES (v_tx_id, v_fee, COALESCE(v_settings.fee_percentage, 0));
+  END IF;
+
+  IF v_coin.creator_id IS NOT NULL AND v_coin.creator_id <> _user_id AND v_creator_share > 0 THEN
+    INSERT INTO public.wallets (user_id, fiat_balance) VALUES (v_coin.creator_id, v_creator_share)
+      ON CONFLICT (user_id) DO UPDATE SET fiat_balance = public.wallets.fiat_balance + v_creator_share;
+  END IF;
+
+  INSERT INTO public.price_history (coin_id, price, volume, trade_type)
+    VALUES (_coin_id, v_final_price, v_total_value, _trade_type);
+
+  RETURN jsonb_build_object(
+    'ok', true,
+    'transaction_id', v_tx_id,
+    'executed_price', v_exec_price,
+    'new_market_price', v_final_price,
+    'fee', v_fee
+  );
+END;
+$$;
+
+-- Settles a fill between two resting orders at the maker's price.
+-- Both sides pay the platform fee; the buyer's unused escrow is released.
+CREATE OR REPLACE FUNCTION public.settle_book_fill(_buy_order_id uuid, _sell_order_id uuid, _amount numeric, _price numeric, _taker_side text)
+RETURNS numeric
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+DECLARE
+  v_buy RECORD;
+  v_sell RECORD;
+  v_coin RECORD;
+  v_settings RECORD;
+  v_fee_rate numeric;
+  v_seller_holding RECORD;
+  v_buyer_holding RECORD;
+  v_fill numeric;
+  v_value numeric;
+  v_fee numeric;
+  v_slice_reserve numeric;
+  v_release numeric;
+  v_buy_done boolean;
+  v_sell_done boolean;
+  v_buy_tx uuid;
+  v_sell_tx uuid;
+  v_holders_delta integer := 0;
+  v_creator_share numeric;
+BEGIN
+  SELECT * INTO v_buy FROM public.limit_orders WHERE id = _buy_order_id FOR UPDATE;
+  SELECT * INTO v_sell FROM public.limit_orders WHERE id = _sell_order_id FOR UPDATE;
+  SELECT * INTO v_coin FROM public.coins WHERE id = v_buy.coin_id FOR UPDATE;
+  SELECT fee_percentage, creator_commission_percentage INTO v_settings FROM public.site_settings LIMIT 1;
+  v_fee_rate := COALESCE(v_settings.fee_percentage, 0) / 100.0;
+
+  SELECT * INTO v_seller_holding FROM public.holdings
+    WHERE user_id = v_sell.user_id AND coin_id = v_sell.coin_id FOR UPDATE;
+  v_fill := LEAST(_amount, COALESCE(v_seller_holding.amount, 0));
+  IF v_fill <= 0 THEN
+    -- Seller no longer holds the tokens: the order can never fill
+    UPDATE public.limit_orders SET status = 'cancelled', updated_at = now() WHERE id = v_sell.id;
+    RETURN 0;
+  END IF;
+
+  v_value := v_fill * _price;
+  v_fee := v_value * v_fee_rate;
+
+  v_buy_done := v_buy.filled_amount + v_fill >= v_buy.amount;
+  v_sell_done := v_sell.filled_amount + v_fill >= v_sell.amount;
+
+  v_slice_reserve := CASE WHEN v_buy_done THEN v_buy.reserved_fiat
+                          ELSE LEAST(v_buy.reserved_fiat, v_fill * v_buy.price * (1 + v_fee_rate)) END;
+  v_release := GREATEST(0, v_slice_reserve - (v_value + v_fee));
+
+  UPDATE public.limit_orders
+    SET filled_amount = filled_amount + v_fill,
+        reserved_fiat = GREATEST(0, reserved_fiat - v_slice_reserve),
+        status = CASE WHEN v_buy_done THEN 'filled' ELSE 'partially_filled' END,
+        updated_at = now()
+    WHERE id = v_buy.id;
+  UPDATE public.limit_orders
+    SET filled_amount = filled_amount + v_fill,
+        status = CASE WHEN v_sell_done THEN 'filled' ELSE 'partially_filled' END,
+        updated_at = now()
+    WHERE id = v_sell.id;
+
+  -- Tokens: seller -> buyer
+  IF v_seller_holding.amount - v_fill <= 0 THEN
+    DELETE FROM public.holdings WHERE id = v_seller_holding.id;
+    v_holders_delta := v_holders_delta - 1;
+  ELSE
+    UPDATE public.holdings SET amount = v_seller_holding.amount - v_fill, updated_at = now()
+      WHERE id = v_seller_holding.id;
+  END IF;
+
+  SELECT * INTO v_buyer_holding FROM public.holdings
+    WHERE user_id = v_buy.user_id AND coin_id = v_buy.coin_id FOR UPDATE;
+  IF v_buyer_holding.id IS NULL THEN
+    INSERT INTO public.holdings (user_id, coin_id, amount, average_buy_price)
+      VALUES (v_buy.user_id, v_buy.coin_id, v_fill, _price);
+    v_holders_delta := v_holders_delta + 1;
+  ELSE
+    UPDATE public.holdings
+      SET amount = v_buyer_holding.amount + v_fill,
+          average_buy_price = ((v_buyer_holding.amount * v_buyer_holding.average_buy_price) + (v_fill * _price)) / (v_buyer_holding.amount + v_fill),
+          updated_at = now()
+      WHERE id = v_buyer_holding.id;
+  END IF;
+
+  -- KES: escrow -> seller (net of fee), leftover escrow -> buyer
+  INSERT INTO public.wallets (user_id, fiat_balance) VALUES (v_sell.user_id, GREATEST(0, v_value - v_fee))
+    ON CONFLICT (user_id) DO UPDATE SET fiat_balance = public.wallets.fiat_balance + GREATEST(0, v_value - v_fee);
+  IF v_release > 0 THEN
+    UPDATE public.wallets SET fiat_balance = fiat_balance + v_release WHERE user_id = v_buy.user_id;
+  END IF;
+
+  INSERT INTO public.transactions (user_id, coin_id, type, amount, price_per_coin, total_value, status)
+    VALUES (v_buy.user_id, v_buy.coin_id, 'buy', v_fill, _price, v_value, 'completed')
+    RETURNING id INTO v_buy_tx;
+  INSERT INTO public.transactions (user_id, coin_id, type, amount, price_per_coin, total_value, status)
+    VALUES (v_sell.user_id, v_sell.coin_id, 'sell', v_fill, _price, v_value, 'completed')
+    RETURNING id INTO v_sell_tx;
+
+  IF v_fee > 0 THEN
+    INSERT INTO public.commission_transactions (transaction_id, amount, commission_rate)
+      VALUES (v_buy_tx, v_fee, COALESCE(v_settings.fee_percentage, 0)),
+             (v_sell_tx, v_fee, COALESCE(v_settings.fee_percentage, 0));
+  END IF;
+
+  v_creator_share := v_value * (COALESCE(v_settings.creator_commission_percentage, 0) / 100.0);
+  IF v_coin.creator_id IS NOT NULL AND v_coin.creator_id <> v_buy.user_id AND v_creator_share > 0 THEN
+    INSERT INTO public.wallets (user_id, fiat_balance) VALUES (v_coin.creator_id, v_creator_share)
+      ON CONFLICT (user_id) DO UPDATE SET fiat_balance = public.wallets.fiat_balance + v_creator_share;
+  END IF;
+
+  INSERT INTO public.limit_order_fills (order_id, counter_order_id, coin_id, source, price, amount, transaction_id)
+    VALUES (v_buy.id, v_sell.id, v_buy.coin_id, 'book', _price, v_fill, v_buy_tx),
+           (v_sell.id, v_buy.id, v_sell.coin_id, 'book', _price, v_fill, v_sell_tx);
+
+  -- Book fills move tokens between holders: supply and curve price are unchanged
+  UPDATE public.coins
+    SET holders_count = GREATEST(0, holders_count + v_holders_delta),
+        updated_at = now()
+    WHERE id = v_coin.id;
+
+  INSERT INTO public.price_history (coin_id, price, volume, trade_type)
+    VALUES (v_coin.id, _price, v_value, _taker_side);
+
+  RETURN v_fill;
+END;
+$$;
+
+-- Matches an order against opposing resting orders (price-time priority),
+-- then fills whatever remains against the bonding curve if the curve quote
+-- is within the limit. Anything left keeps resting on the book.
+CREATE OR REPLACE FUNCTION public.match_limit_order(_order_id uuid)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+DECLARE
+  v_order RECORD;
+  v_counter RECORD;
+  v_coin RECORD;
+  v_settings RECORD;
+  v_fee_rate numeric;
+  v_remaining numeric;
+  v_fill numeric;
+  v_curve_price numeric;
+  v_remaining_supply numeric;
+  v_holding_amount numeric;
+  v_slice_reserve numeric;
+  v_result jsonb;
+  v_book_filled numeric := 0;
+  v_curve_filled numeric := 0;
+BEGIN
+  SELECT * INTO v_order FROM public.limit_orders WHERE id = _order_id FOR UPDATE;
+  IF NOT FOUND OR v_order.status NOT IN ('open', 'partially_filled') THEN
+    RETURN jsonb_build_object('ok', true, 'order_id', _order_id, 'filled', 0);
+  END IF;
+
+  SELECT * INTO v_coin FROM public.coins WHERE id = v_order.coin_id FOR UPDATE;
+  IF v_coin.trading_paused THEN
+    RETURN jsonb_build_object('ok', true, 'order_id', _order_id, 'status', v_order.status, 'filled', 0);
+  END IF;
+
+  SELECT fee_percentage,
+         COALESCE(buy_slippage_percentage, 0.5)  AS buy_slippage_percentage,
+         COALESCE(sell_slippage_percentage, 1.0) AS sell_slippage_percentage,
+         COALESCE(max_buy_supply_percentage, 25) AS max_buy_supply_percentage
+    INTO v_settings FROM public.site_settings LIMIT 1;
+  v_fee_rate := COALESCE(v_settings.fee_percentage, 0) / 100.0;
+
+  v_remaining := v_order.amount - v_order.filled_amount;
+
+  FOR v_counter IN
+    SELECT * FROM public.limit_orders
+      WHERE coin_id = v_order.coin_id
+        AND side <> v_order.side
+        AND user_id <> v_order.user_id
+        AND status IN ('open', 'partially_filled')
+        AND ((v_order.side = 'buy' AND price <= v_order.price)
+          OR (v_order.side = 'sell' AND price >= v_order.price))
+      ORDER BY CASE WHEN v_order.side = 'buy' THEN price END ASC,
+               CASE WHEN v_order.side = 'sell' THEN price END DESC,
+               created_at ASC
+      FOR UPDATE
+  LOOP
+    EXIT WHEN v_remaining <= 0;
+    v_fill := LEAST(v_remaining, v_counter.amount - v_counter.filled_amount);
+    IF v_order.side = 'buy' THEN
+      v_fill := public.settle_book_fill(v_order.id, v_counter.id, v_fill, v_counter.price, 'buy');
+    ELSE
+      v_fill := public.settle_book_fill(v_counter.id, v_order.id, v_fill, v_counter.price, 'sell');
+    END IF;
+    v_remaining := v_remaining - v_fill;
+    v_book_filled := v_book_filled + v_fill;
+  END LOOP;
+
+  -- Re-read: the order may have been cancelled (seller ran out of tokens)
+  SELECT * INTO v_order FROM public.limit_orders WHERE id = _order_id;
+  SELECT * INTO v_coin FROM public.coins WHERE id = v_order.coin_id;
+
+  IF v_remaining > 0 AND v_order.status IN ('open', 'partially_filled') THEN
+    IF v_order.side = 'buy' THEN
+      v_curve_price := v_coin.price * (1 + v_settings.buy_slippage_percentage / 100.0);
+      v_remaining_supply := GREATEST(0, COALESCE(v_coin.total_supply, 0) - COALESCE(v_coin.circulating_supply, 0));
+      v_fill := LEAST(v_remaining, v_remaining_supply * (v_settings.max_buy_supply_percentage / 100.0));
+      IF v_curve_price <= v_order.price AND v_fill > 0 THEN
+        BEGIN
+          -- Hand this slice's escrow back so execute_trade can debit the wallet
+          v_slice_reserve := CASE WHEN v_fill >= v_remaining THEN v_order.reserved_fiat
+                                  ELSE LEAST(v_order.reserved_fiat, v_fill * v_order.price * (1 + v_fee_rate)) END;
+          UPDATE public.wallets SET fiat_balance = fiat_balance + v_slice_reserve WHERE user_id = v_order.user_id;
+          v_result := public.execute_trade(v_order.user_id, v_order.coin_id, 'buy', v_fill, true, false);
+          UPDATE public.limit_orders
+            SET filled_amount = filled_amount + v_fill,
+                reserved_fiat = GREATEST(0, reserved_fiat - v_slice_reserve),
+                status = CASE WHEN filled_amount + v_fill >= amount THEN 'filled' ELSE 'partially_filled' END,
+                updated_at = now()
+            WHERE id = v_order.id;
+          INSERT INTO public.limit_order_fills (order_id, coin_id, source, price, amount, transaction_id)
+            VALUES (v_order.id, v_order.coin_id, 'curve', (v_result->>'executed_price')::numeric, v_fill,
+                    (v_result->>'transaction_id')::uuid);
+          v_curve_filled := v_fill;
+        EXCEPTION WHEN OTHERS THEN
+          -- Curve fill not possible right now; the order keeps resting
+          v_curve_filled := 0;
+        END;
+      END IF;
+    ELSE
+      v_curve_price := v_coin.price * GREATEST(0, 1 - v_settings.sell_slippage_percentage / 100.0);
+      SELECT COALESCE(amount, 0) INTO v_holding_amount FROM public.holdings
+        WHERE user_id = v_order.user_id AND coin_id = v_order.coin_id;
+      v_fill := LEAST(v_remaining, COALESCE(v_holding_amount, 0));
+      IF v_curve_price >= v_order.price AND v_fill > 0 THEN
+        BEGIN
+          -- Release the reservation first so execute_trade sees the tokens as free
+          UPDATE public.limit_orders
+            SET filled_amount = filled_amount + v_fill,
+                status = CASE WHEN filled_amount + v_fill >= amount THEN 'filled' ELSE 'partially_filled' END,
+                updated_at = now()
+            WHERE id = v_order.id;
+          v_result := public.execute_trade(v_order.user_id, v_order.coin_id, 'sell', v_fill, false, true);
+          INSERT INTO public.limit_order_fills (order_id, coin_id, source, price, amount, transaction_id)
+            VALUES (v_order.id, v_order.coin_id, 'curve', (v_result->>'executed_price')::numeric, v_fill,
+                    (v_result->>'transaction_id')::uuid);
+          v_curve_filled := v_fill;
+        EXCEPTION WHEN OTHERS THEN
+          v_curve_filled := 0;
+        END;
+      END IF;
+    END IF;
+  END IF;
+
+  SELECT * INTO v_order FROM public.limit_orders WHERE id = _order_id;
+  RETURN jsonb_build_object(
+    'ok', true,
+    'order_id', v_order.id,
+    'status', v_order.status,
+    'filled', v_book_filled + v_curve_filled,
+    'book_filled', v_book_filled,
+    'curve_filled', v_curve_filled,
+    'remaining', v_order.amount - v_order.filled_amount
+  );
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.place_limit_order(_coin_id uuid, _side text, _price numeric, _amount numeric)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+DECLARE
+  v_user_id uuid := auth.uid();
+  v_coin RECORD;
+  v_fee_pct numeric;
+  v_reserve numeric := 0;
+  v_wallet_balance numeric;
+  v_holding_amount numeric;
+  v_locked numeric;
+  v_order_id uuid;
+BEGIN
+  IF v_user_id IS NULL THEN RAISE EXCEPTION 'Not authenticated'; END IF;
+  IF _side NOT IN ('buy', 'sell') THEN RAISE EXCEPTION 'Invalid order side'; END IF;
+  IF _price IS NULL OR _price <= 0 THEN RAISE EXCEPTION 'Limit price must be greater than zero'; END IF;
+  IF _amount IS NULL OR _amount <= 0 THEN RAISE EXCEPTION 'Order amount must be greater than zero'; END IF;
+
+  SELECT * INTO v_coin FROM public.coins WHERE id = _coin_id;
+  IF NOT FOUND OR NOT v_coin.is_active THEN RAISE EXCEPTION 'Coin not found'; END IF;
+  IF v_coin.trading_paused THEN RAISE EXCEPTION 'Trading paused for this coin'; END IF;
+
+  IF _side = 'buy' THEN
+    SELECT COALESCE(fee_percentage, 0) INTO v_fee_pct FROM public.site_settings LIMIT 1;
+    v_reserve := _amount * _price * (1 + COALESCE(v_fee_pct, 0) / 100.0);
+    SELECT fiat_balance INTO v_wallet_balance FROM public.wallets WHERE user_id = v_user_id FOR UPDATE;
+    IF v_wallet_balance IS NULL THEN RAISE EXCEPTION 'Wallet not found'; END IF;
+    IF v_wallet_balance < v_reserve THEN RAISE EXCEPTION 'Insufficient wallet balance'; END IF;
+    UPDATE public.wallets SET fiat_balance = fiat_balance - v_reserve WHERE user_id = v_user_id;
+  ELSE
+    SELECT amount INTO v_holding_amount FROM public.holdings
+      WHERE user_id = v_user_id AND coin_id = _coin_id FOR UPDATE;
+    v_locked := public.locked_sell_amount(v_user_id, _coin_id);
+    IF COALESCE(v_holding_amount, 0) - v_locked < _amount THEN
+      RAISE EXCEPTION 'Insufficient coin balance';
+    END IF;
+  END IF;
+
+  INSERT INTO public.limit_orders (user_id, coin_id, side, price, amount, reserved_fiat)
+    VALUES (v_user_id, _coin_id, _side, _price, _amount, v_reserve)
+    RETURNING id INTO v_order_id;
+
+  RETURN public.match_limit_order(v_order_id);
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.cancel_limit_order(_order_id uuid)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+DECLARE
+  v_order RECORD;
+BEGIN
+  SELECT * INTO v_order FROM public.limit_orders WHERE id = _order_id FOR UPDATE;
+  IF NOT FOUND OR v_order.user_id <> auth.uid() THEN RAISE EXCEPTION 'Order not found'; END IF;
+  IF v_order.status NOT IN ('open', 'partially_filled') THEN
+    RAISE EXCEPTION 'Order is no longer open';
+  END IF;
+
+  IF v_order.reserved_fiat > 0 THEN
+    UPDATE public.wallets SET fiat_balance = fiat_balance + v_order.reserved_fiat WHERE user_id = v_order.user_id;
+  END IF;
+
+  UPDATE public.limit_orders
+    SET status = 'cancelled', reserved_fiat = 0, updated_at = now()
+    WHERE id = _order_id;
+
+  RETURN jsonb_build_object('ok', true, 'order_id', _order_id, 'refunded', v_order.reserved_fiat);
+END;
+$$;
+
+-- _amount is the new total order size and must exceed what has already filled.
+-- Changing the price or growing the order gives up time priority.
+CREATE OR REPLACE FUNCTION public.amend_limit_order(_order_id uuid, _price numeric, _amount numeric)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+DECLARE
+  v_order RECORD;
+  v_fee_pct numeric;
+  v_new_reserve numeric;
+  v_delta numeric;
+  v_wallet_balance numeric;
+  v_holding_amount numeric;
+  v_locked numeric;
+BEGIN
+  SELECT * INTO v_order FROM public.limit_orders WHERE id = _order_id FOR UPDATE;
+  IF NOT FOUND OR v_order.user_id <> auth.uid() THEN RAISE EXCEPTION 'Order not found'; END IF;
+  IF v_order.status NOT IN ('open', 'partially_filled') THEN
+    RAISE EXCEPTION 'Order is no longer open';
+  END IF;
+  IF _price IS NULL OR _price <= 0 THEN RAISE EXCEPTION 'Limit price must be greater than zero'; END IF;
+  IF _amount IS NULL OR _amount <= v_order.filled_amount THEN
+    RAISE EXCEPTION 'Order amount must exceed the filled amount (%)', v_order.filled_amount;
+  END IF;
+
+  IF v_order.side = 'buy' THEN
+    SELECT COALESCE(fee_percentage, 0) INTO v_fee_pct FROM public.site_settings LIMIT 1;
+    v_new_reserve := (_amount - v_order.filled_amount) * _price * (1 + COALESCE(v_fee_pct, 0) / 100.0);
+    v_delta := v_new_reserve - v_order.reserved_fiat;
+    SELECT fiat_balance INTO v_wallet_balance FROM public.wallets WHERE user_id = v_order.user_id FOR UPDATE;
+    IF v_delta > 0 AND COALESCE(v_wallet_balance, 0) < v_delta THEN
+      RAISE EXCEPTION 'Insufficient wallet balance';
+    END IF;
+    UPDATE public.wallets SET fiat_balance = fiat_balance - v_delta WHERE user_id = v_order.user_id;
+  ELSE
+    v_new_reserve := 0;
+    SELECT amount INTO v_holding_amount FROM public.holdings
+      WHERE user_id = v_order.user_id AND coin_id = v_order.coin_id FOR UPDATE;
+    v_locked := public.locked_sell_amount(v_order.user_id, v_order.coin_id) - (v_order.amount - v_order.filled_amount);
+    IF COALESCE(v_holding_amount, 0) - v_locked < _amount - v_order.filled_amount THEN
+      RAISE EXCEPTION 'Insufficient coin balance';
+    END IF;
+  END IF;
+
+  UPDATE public.limit_orders
+    SET price = _price,
+        amount = _amount,
+        reserved_fiat = v_new_reserve,
+        created_at = CASE WHEN _price <> v_order.price OR _amount > v_order.amount THEN now() ELSE created_at END,
+        updated_at = now()
+    WHERE id = _order_id;
+
+  RETURN public.match_limit_order(_order_id);
+END;
+$$;
+
+-- Resting orders become marketable against the curve as the price moves
+CREATE OR REPLACE FUNCTION public.sweep_limit_orders()
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+DECLARE
+  v_settings RECORD;
+  v_order RECORD;
+  v_checked integer := 0;
+BEGIN
+  SELECT COALESCE(buy_slippage_percentage, 0.5)  AS buy_slippage_percentage,
+         COALESCE(sell_slippage_percentage, 1.0) AS sell_slippage_percentage
+    INTO v_settings FROM public.site_settings LIMIT 1;
+
+  FOR v_order IN
+    SELECT o.id FROM public.limit_orders o
+      JOIN public.coins c ON c.id = o.coin_id
+      WHERE o.status IN ('open', 'partially_filled')
+        AND NOT c.trading_paused
+        AND ((o.side = 'buy' AND c.price * (1 + v_settings.buy_slippage_percentage / 100.0) <= o.price)
+          OR (o.side = 'sell' AND c.price * GREATEST(0, 1 - v_settings.sell_slippage_percentage / 100.0) >= o.price))
+      ORDER BY o.created_at
+  LOOP
+    BEGIN
+      PERFORM public.match_limit_order(v_order.id);
+      v_checked := v_checked + 1;
+    EXCEPTION WHEN OTHERS THEN
+      NULL;
+    END;
+  END LOOP;
+
+  RETURN jsonb_build_object('ok', true, 'matched', v_checked);
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.apply_order_book_delta(uuid, text, numeric, numeric, integer) FROM anon, authenticated, public;
+REVOKE EXECUTE ON FUNCTION public.settle_book_fill(uuid, uuid, numeric, numeric, text) FROM anon, authenticated, public;
+REVOKE EXECUTE ON FUNCTION public.match_limit_order(uuid) FROM anon, authenticated, public;
+REVOKE EXECUTE ON FUNCTION public.sweep_limit_orders() FROM anon, authenticated, public;
+GRANT EXECUTE ON FUNCTION public.match_limit_order(uuid) TO service_role;
+GRANT EXECUTE ON FUNCTION public.sweep_limit_orders() TO service_role;
+
+REVOKE EXECUTE ON FUNCTION public.place_limit_order(uuid, text, numeric, numeric) FROM anon, public;
+REVOKE EXECUTE ON FUNCTION public.cancel_limit_order(uuid) FROM anon, public;
+REVOKE EXECUTE ON FUNCTION public.amend_limit_order(uuid, numeric, numeric) FROM anon, public;
+GRANT EXECUTE ON FUNCTION public.place_limit_order(uuid, text, numeric, numeric) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.cancel_limit_order(uuid) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.amend_limit_order(uuid, numeric, numeric) TO authenticated;
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_publication_tables
+    WHERE pubname = 'supabase_realtime' AND schemaname = 'public' AND tablename = 'order_book_levels'
+  ) THEN
+    ALTER PUBLICATION supabase_realtime ADD TABLE public.order_book_levels;
+  END IF;
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_publication_tables
+    WHERE pubname = 'supabase_realtime' AND schemaname = 'public' AND tablename = 'limit_orders'
+  ) THEN
+    ALTER PUBLICATION supabase_realtime ADD TABLE public.limit_orders;
+  END IF;
+END $$;
+
+ALTER TABLE public.order_book_levels REPLICA IDENTITY FULL;
+ALTER TABLE public.limit_orders REPLICA IDENTITY FULL;
+
+SELECT cron.schedule('sweep-limit-orders', '* * * * *', $$SELECT public.sweep_limit_orders()$$);
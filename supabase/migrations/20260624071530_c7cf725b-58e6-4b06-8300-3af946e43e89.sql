@@ -0,0 +1,252 @@
+-- Conditional sell orders (stop-loss, take-profit, trailing stop).
+-- Evaluated by the process-conditional-orders edge function and executed
+-- at market through execute_trade. Tokens are not reserved while waiting;
+-- the sell is capped at whatever the user still holds when it triggers.
+CREATE TABLE IF NOT EXISTS public.conditional_orders (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid NOT NULL,
+  coin_id uuid NOT NULL REFERENCES public.coins(id) ON DELETE CASCADE,
+  order_type text NOT NULL CHECK (order_type IN ('stop_loss', 'take_profit', 'trailing_stop')),
+  amount numeric NOT NULL CHECK (amount > 0),
+  trigger_price numeric CHECK (trigger_price IS NULL OR trigger_price > 0),
+  trail_percent numeric CHECK (trail_percent IS NULL OR (trail_percent > 0 AND trail_percent < 100)),
+  peak_price numeric,
+  status text NOT NULL DEFAULT 'active' CHECK (status IN ('active', 'triggered', 'cancelled', 'failed')),
+  triggered_at timestamptz,
+  trigger_reference_price numeric,
+  executed_price numeric,
+  executed_amount numeric,
+  transaction_id uuid REFERENCES public.transactions(id) ON DELETE SET NULL,
+  failure_reason text,
+  last_checked_at timestamptz NOT NULL DEFAULT now(),
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now(),
+  CHECK (
+    (order_type = 'trailing_stop' AND trail_percent IS NOT NULL)
+    OR (order_type <> 'trailing_stop' AND trigger_price IS NOT NULL)
+  )
+);
+
+CREATE INDEX IF NOT EXISTS idx_conditional_orders_active
+  ON public.conditional_orders (coin_id, created_at)
+  WHERE status = 'active';
+
+CREATE INDEX IF NOT EXISTS idx_conditional_orders_user
+  ON public.conditional_orders (user_id, created_at DESC);
+
+ALTER TABLE public.conditional_orders ENABLE ROW LEVEL SECURITY;
+
+-- Writes go through the RPCs below
+CREATE POLICY "Users can view their own conditional orders" ON public.conditional_orders
+  FOR SELECT USING (auth.uid() = user_id);
+CREATE POLICY "Admins can view all conditional orders" ON public.conditional_orders
+  FOR SELECT USING (public.is_admin(auth.uid()));
+
+CREATE TRIGGER update_conditional_orders_updated_at
+  BEFORE UPDATE ON public.conditional_orders
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+CREATE OR REPLACE FUNCTION public.place_conditional_order(
+  _coin_id uuid, _order_type text, _amount numeric, _trigger_price numeric, _trail_percent numeric
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+DECLARE
+  v_user_id uuid := auth.uid();
+  v_coin RECORD;
+  v_holding_amount numeric;
+  v_order_id uuid;
+BEGIN
+  IF v_user_id IS NULL THEN RAISE EXCEPTION 'Not authenticated'; END IF;
+  IF _order_type NOT IN ('stop_loss', 'take_profit', 'trailing_stop') THEN
+    RAISE EXCEPTION 'Invalid order type';
+  END IF;
+  IF _amount IS NULL OR _amount <= 0 THEN RAISE EXCEPTION 'Order amount must be greater than zero'; END IF;
+
+  SELECT * INTO v_coin FROM public.coins WHERE id = _coin_id;
+  IF NOT FOUND OR NOT v_coin.is_active THEN RAISE EXCEPTION 'Coin not found'; END IF;
+
+  IF _order_type = 'trailing_stop' THEN
+    IF _trail_percent IS NULL OR _trail_percent <= 0 OR _trail_percent >= 100 THEN
+      RAISE EXCEPTION 'Trailing distance must be between 0 and 100 percent';
+    END IF;
+  ELSIF _trigger_price IS NULL OR _trigger_price <= 0 THEN
+    RAISE EXCEPTION 'Trigger price must be greater than zero';
+  ELSIF _order_type = 'stop_loss' AND _trigger_price >= v_coin.price THEN
+    RAISE EXCEPTION 'Stop-loss price must be below the current price';
+  ELSIF _order_type = 'take_profit' AND _trigger_price <= v_coin.price THEN
+    RAISE EXCEPTION 'Take-profit price must be above the current price';
+  END IF;
+
+  SELECT amount INTO v_holding_amount FROM public.holdings
+    WHERE user_id = v_user_id AND coin_id = _coin_id;
+  IF COALESCE(v_holding_amount, 0) < _amount THEN
+    RAISE EXCEPTION 'Insufficient coin balance';
+  END IF;
+
+  INSERT INTO public.conditional_orders (user_id, coin_id, order_type, amount, trigger_price, trail_percent, peak_price)
+    VALUES (
+      v_user_id, _coin_id, _order_type, _amount,
+      CASE WHEN _order_type = 'trailing_stop' THEN NULL ELSE _trigger_price END,
+      CASE WHEN _order_type = 'trailing_stop' THEN _trail_percent ELSE NULL END,
+      v_coin.price
+    )
+    RETURNING id INTO v_order_id;
+
+  RETURN jsonb_build_object('ok', true, 'order_id', v_order_id);
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.cancel_conditional_order(_order_id uuid)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+DECLARE
+  v_order RECORD;
+BEGIN
+  SELECT * INTO v_order FROM public.conditional_orders WHERE id = _order_id FOR UPDATE;
+  IF NOT FOUND OR v_order.user_id <> auth.uid() THEN RAISE EXCEPTION 'Order not found'; END IF;
+  IF v_order.status <> 'active' THEN RAISE EXCEPTION 'Order is no longer active'; END IF;
+
+  UPDATE public.conditional_orders SET status = 'cancelled' WHERE id = _order_id;
+
+  RETURN jsonb_build_object('ok', true, 'order_id', _order_id);
+END;
+$$;
+
+-- Fires one order at market. Called by the evaluator once the condition is met;
+-- _reference_price is the price that tripped it. A failed sell marks the order
+-- failed instead of raising so one bad order does not block the batch.
+CREATE OR REPLACE FUNCTION public.trigger_conditional_order(_order_id uuid, _reference_price numeric)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+DECLARE
+  v_order RECORD;
+  v_paused boolean;
+  v_holding_amount numeric;
+  v_sell_amount numeric;
+  v_trade jsonb;
+  v_error text;
+BEGIN
+  SELECT * INTO v_order FROM public.conditional_orders WHERE id = _order_id FOR UPDATE;
+  IF NOT FOUND THEN RAISE EXCEPTION 'Order not found'; END IF;
+  IF v_order.status <> 'active' THEN
+    RETURN jsonb_build_object('ok', false, 'order_id', _order_id, 'status', v_order.status);
+  END IF;
+
+  -- Leave the order armed while trading is halted
+  SELECT trading_paused INTO v_paused FROM public.coins WHERE id = v_order.coin_id;
+  IF v_paused THEN
+    RETURN jsonb_build_object('ok', false, 'order_id', _order_id, 'status', 'active');
+  END IF;
+
+  SELECT amount INTO v_holding_amount FROM public.holdings
+    WHERE user_id = v_order.user_id AND coin_id = v_order.coin_id;
+  v_sell_amount := LEAST(
+    v_order.amount,
+    GREATEST(0, COALESCE(v_holding_amount, 0) - public.locked_sell_amount(v_order.user_id, v_order.coin_id))
+  );
+
+  IF v_sell_amount <= 0 THEN
+    UPDATE public.conditional_orders
+      SET status = 'failed', triggered_at = now(), trigger_reference_price = _reference_price,
+          failure_reason = 'No available balance to sell'
+      WHERE id = _order_id;
+    RETURN jsonb_build_object('ok', false, 'order_id', _order_id, 'status', 'failed',
+      'error', 'No available balance to sell');
+  END IF;
+
+  BEGIN
+    v_trade := public.execute_trade(v_order.user_id, v_order.coin_id, 'sell', v_sell_amount, false, true);
+  EXCEPTION WHEN OTHERS THEN
+    v_error := SQLERRM;
+  END;
+
+  IF v_error IS NOT NULL THEN
+    UPDATE public.conditional_orders
+      SET status = 'failed', triggered_at = now(), trigger_reference_price = _reference_price,
+          failure_reason = v_error
+      WHERE id = _order_id;
+    RETURN jsonb_build_object('ok', false, 'order_id', _order_id, 'status', 'failed', 'error', v_error);
+  END IF;
+
+  UPDATE public.conditional_orders
+    SET status = 'triggered',
+        triggered_at = now(),
+        trigger_reference_price = _reference_price,
+        executed_price = (v_trade->>'executed_price')::numeric,
+        executed_amount = v_sell_amount,
+        transaction_id = (v_trade->>'transaction_id')::uuid
+    WHERE id = _order_id;
+
+  RETURN jsonb_build_object(
+    'ok', true,
+    'order_id', _order_id,
+    'status', 'triggered',
+    'transaction_id', v_trade->>'transaction_id',
+    'executed_price', (v_trade->>'executed_price')::numeric,
+    'executed_amount', v_sell_amount,
+    'fee', (v_trade->>'fee')::numeric
+  );
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.trigger_conditional_order(uuid, numeric) FROM anon, authenticated, public;
+GRANT EXECUTE ON FUNCTION public.trigger_conditional_order(uuid, numeric) TO service_role;
+
+REVOKE EXECUTE ON FUNCTION public.place_conditional_order(uuid, text, numeric, numeric, numeric) FROM anon, public;
+REVOKE EXECUTE ON FUNCTION public.cancel_conditional_order(uuid) FROM anon, public;
+GRANT EXECUTE ON FUNCTION public.place_conditional_order(uuid, text, numeric, numeric, numeric) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.cancel_conditional_order(uuid) TO authenticated;
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_publication_tables
+    WHERE pubname = 'supabase_realtime' AND schemaname = 'public' AND tablename = 'conditional_orders'
+  ) THEN
+    ALTER PUBLICATION supabase_realtime ADD TABLE public.conditional_orders;
+  END IF;
+END $$;
+
+ALTER TABLE public.conditional_orders REPLICA IDENTITY FULL;
+
+INSERT INTO public.notification_templates
+  (name, slug, category, subject, email_body, sms_body, whatsapp_body,
+   is_email_enabled, is_sms_enabled, is_whatsapp_enabled, variables)
+VALUES
+  ('Conditional Order Triggered', 'conditional_order_triggered', 'trading',
+   'Your {{order_type}} on {{coin_symbol}} was executed',
+   '<p>Hi {{user_name}},</p><p>Your {{order_type}} order on <strong>{{coin_symbol}}</strong> triggered at KES {{trigger_price}}.</p><p>Sold {{amount}} {{coin_symbol}} at KES {{executed_price}}. The proceeds are in your {{site_name}} wallet.</p>',
+   '{{site_name}}: your {{order_type}} on {{coin_symbol}} sold {{amount}} at KES {{executed_price}}. Proceeds are in your wallet.',
+   '{{site_name}}: your {{order_type}} on {{coin_symbol}} sold {{amount}} at KES {{executed_price}}. Proceeds are in your wallet.',
+   true, false, false,
+   ARRAY['user_name', 'site_name', 'order_type', 'coin_symbol', 'amount', 'trigger_price', 'executed_price']),
+  ('Conditional Order Failed', 'conditional_order_failed', 'trading',
+   'Your {{order_type}} on {{coin_symbol}} could not be executed',
+   '<p>Hi {{user_name}},</p><p>Your {{order_type}} order on <strong>{{coin_symbol}}</strong> triggered at KES {{trigger_price}} but the sell could not be completed: {{reason}}.</p>',
+   '{{site_name}}: your {{order_type}} on {{coin_symbol}} triggered but failed: {{reason}}',
+   '{{site_name}}: your {{order_type}} on {{coin_symbol}} triggered but failed: {{reason}}',
+   true, false, false,
+   ARRAY['user_name', 'site_name', 'order_type', 'coin_symbol', 'trigger_price', 'reason'])
+ON CONFLICT (slug) DO NOTHING;
+
+SELECT cron.schedule(
+  'process-conditional-orders',
+  '* * * * *',
+  $$
+  SELECT net.http_post(
+    url := 'https://dkuprgiaymljdjatixlc.supabase.co/functions/v1/process-conditional-orders',
+    headers := '{"Content-Type": "application/json"}'::jsonb,
+    body := '{}'::jsonb
+  );
+  $$
+);
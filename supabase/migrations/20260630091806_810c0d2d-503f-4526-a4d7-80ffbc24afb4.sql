@@ -0,0 +1,175 @@
+-- Pre-aggregated OHLCV candles. Market trades roll up from price_history by
+-- trigger; organic drift ticks never reach price_history (it only accepts
+-- buy/sell) and are recorded straight into candles with is_drift = true.
+CREATE TABLE IF NOT EXISTS public.price_candles (
+  coin_id uuid NOT NULL REFERENCES public.coins(id) ON DELETE CASCADE,
+  interval text NOT NULL CHECK (interval IN ('1m', '5m', '1h', '1d')),
+  bucket_start timestamptz NOT NULL,
+  is_drift boolean NOT NULL DEFAULT false,
+  open numeric NOT NULL,
+  high numeric NOT NULL,
+  low numeric NOT NULL,
+  close numeric NOT NULL,
+  volume numeric NOT NULL DEFAULT 0,
+  trade_count integer NOT NULL DEFAULT 0,
+  opened_at timestamptz NOT NULL,
+  closed_at timestamptz NOT NULL,
+  PRIMARY KEY (coin_id, interval, bucket_start, is_drift)
+);
+
+ALTER TABLE public.price_candles ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone can view price candles" ON public.price_candles
+  FOR SELECT USING (true);
+
+CREATE OR REPLACE FUNCTION public.candle_bucket(_interval text, _ts timestamptz)
+RETURNS timestamptz
+LANGUAGE sql
+IMMUTABLE
+SET search_path TO 'public'
+AS $$
+  SELECT CASE _interval
+    WHEN '1m'  THEN date_trunc('minute', _ts)
+    WHEN '5m'  THEN date_bin('5 minutes', _ts, TIMESTAMPTZ '2000-01-01 00:00:00+00')
+    WHEN '15m' THEN date_bin('15 minutes', _ts, TIMESTAMPTZ '2000-01-01 00:00:00+00')
+    WHEN '1h'  THEN date_trunc('hour', _ts)
+    WHEN '4h'  THEN date_bin('4 hours', _ts, TIMESTAMPTZ '2000-01-01 00:00:00+00')
+    WHEN '1d'  THEN date_bin('1 day', _ts, TIMESTAMPTZ '2000-01-01 00:00:00+00')
+  END;
+$$;
+
+-- Folds one tick into every stored interval
+CREATE OR REPLACE FUNCTION public.record_price_tick(_coin_id uuid, _price numeric, _volume numeric, _is_drift boolean, _ts timestamptz)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+DECLARE
+  v_interval text;
+BEGIN
+  FOREACH v_interval IN ARRAY ARRAY['1m', '5m', '1h', '1d'] LOOP
+    INSERT INTO public.price_candles AS c
+      (coin_id, interval, bucket_start, is_drift, open, high, low, close, volume, trade_count, opened_at, closed_at)
+    VALUES
+      (_coin_id, v_interval, public.candle_bucket(v_interval, _ts), _is_drift,
+       _price, _price, _price, _price, COALESCE(_volume, 0), 1, _ts, _ts)
+    ON CONFLICT (coin_id, interval, bucket_start, is_drift) DO UPDATE SET
+      open        = CASE WHEN EXCLUDED.opened_at < c.opened_at THEN EXCLUDED.open ELSE c.open END,
+      high        = GREATEST(c.high, EXCLUDED.high),
+      low         = LEAST(c.low, EXCLUDED.low),
+      close       = CASE WHEN EXCLUDED.closed_at >= c.closed_at THEN EXCLUDED.close ELSE c.close END,
+      volume      = c.volume + EXCLUDED.volume,
+      trade_count = c.trade_count + 1,
+      opened_at   = LEAST(c.opened_at, EXCLUDED.opened_at),
+      closed_at   = GREATEST(c.closed_at, EXCLUDED.closed_at);
+  END LOOP;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.roll_price_history_into_candles()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+BEGIN
+  PERFORM public.record_price_tick(NEW.coin_id, NEW.price, NEW.volume, false, NEW.created_at);
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trg_roll_price_history_into_candles ON public.price_history;
+CREATE TRIGGER trg_roll_price_history_into_candles
+AFTER INSERT ON public.price_history
+FOR EACH ROW
+EXECUTE FUNCTION public.roll_price_history_into_candles();
+
+-- Entry point for organic-price-drift
+CREATE OR REPLACE FUNCTION public.record_drift_tick(_coin_id uuid, _price numeric)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+BEGIN
+  PERFORM public.record_price_tick(_coin_id, _price, 0, true, now());
+END;
+$$;
+
+-- OHLCV for a range. 15m and 4h are rolled up from 5m and 1h on the fly.
+-- Drift candles are merged in only when asked for.
+CREATE OR REPLACE FUNCTION public.get_price_candles(
+  _coin_id uuid, _interval text, _from timestamptz, _to timestamptz DEFAULT now(), _include_drift boolean DEFAULT false
+)
+RETURNS TABLE (
+  bucket_start timestamptz, open numeric, high numeric, low numeric, close numeric,
+  volume numeric, trade_count integer, has_drift boolean
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+DECLARE
+  v_source text;
+BEGIN
+  v_source := CASE _interval WHEN '15m' THEN '5m' WHEN '4h' THEN '1h' ELSE _interval END;
+  IF v_source NOT IN ('1m', '5m', '1h', '1d') THEN
+    RAISE EXCEPTION 'Unsupported candle interval %', _interval;
+  END IF;
+
+  RETURN QUERY
+  SELECT public.candle_bucket(_interval, c.bucket_start) AS b,
+         (array_agg(c.open ORDER BY c.opened_at ASC))[1],
+         max(c.high),
+         min(c.low),
+         (array_agg(c.close ORDER BY c.closed_at DESC))[1],
+         sum(c.volume),
+         sum(c.trade_count)::integer,
+         bool_or(c.is_drift)
+    FROM public.price_candles c
+   WHERE c.coin_id = _coin_id
+     AND c.interval = v_source
+     AND c.bucket_start >= public.candle_bucket(_interval, _from)
+     AND c.bucket_start <= _to
+     AND (_include_drift OR NOT c.is_drift)
+   GROUP BY b
+   ORDER BY b;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.record_price_tick(uuid, numeric, numeric, boolean, timestamptz) FROM anon, authenticated, public;
+REVOKE EXECUTE ON FUNCTION public.record_drift_tick(uuid, numeric) FROM anon, authenticated, public;
+GRANT EXECUTE ON FUNCTION public.record_drift_tick(uuid, numeric) TO service_role;
+GRANT EXECUTE ON FUNCTION public.get_price_candles(uuid, text, timestamptz, timestamptz, boolean) TO anon, authenticated;
+
+-- Backfill from the raw ticks still on hand
+INSERT INTO public.price_candles
+  (coin_id, interval, bucket_start, is_drift, open, high, low, close, volume, trade_count, opened_at, closed_at)
+SELECT ph.coin_id, i.interval, public.candle_bucket(i.interval, ph.created_at), false,
+       (array_agg(ph.price ORDER BY ph.created_at ASC))[1],
+       max(ph.price),
+       min(ph.price),
+       (array_agg(ph.price ORDER BY ph.created_at DESC))[1],
+       sum(ph.volume),
+       count(*),
+       min(ph.created_at),
+       max(ph.created_at)
+  FROM public.price_history ph
+  CROSS JOIN (VALUES ('1m'), ('5m'), ('1h'), ('1d')) AS i(interval)
+ WHERE ph.trade_type IN ('buy', 'sell')
+ GROUP BY ph.coin_id, i.interval, public.candle_bucket(i.interval, ph.created_at)
+ON CONFLICT (coin_id, interval, bucket_start, is_drift) DO NOTHING;
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_publication_tables
+    WHERE pubname = 'supabase_realtime' AND schemaname = 'public' AND tablename = 'price_candles'
+  ) THEN
+    ALTER PUBLICATION supabase_realtime ADD TABLE public.price_candles;
+  END IF;
+END $$;
+
+ALTER TABLE public.price_candles REPLICA IDENTITY FULL;
@@ -0,0 +1,3 @@
+-- Per-user chart settings (mode, overlays, panes) so they follow the account across devices
+ALTER TABLE public.profiles
+  ADD COLUMN IF NOT EXISTS chart_preferences jsonb NOT NULL DEFAULT '{}'::jsonb;
@@ -0,0 +1,803 @@
+-- Coin graduation. Once a coin's market cap or liquidity crosses the admin
+-- threshold it leaves the bonding curve and trades against a constant-product
+-- pool (token_reserve * quote_reserve = k) seeded from its accumulated liquidity.
+ALTER TABLE public.coins
+  ADD COLUMN IF NOT EXISTS is_graduated boolean NOT NULL DEFAULT false,
+  ADD COLUMN IF NOT EXISTS graduated_at timestamptz,
+  ADD COLUMN IF NOT EXISTS pool_token_reserve numeric,
+  ADD COLUMN IF NOT EXISTS pool_quote_reserve numeric;
+
+ALTER TABLE public.site_settings
+  ADD COLUMN IF NOT EXISTS graduation_enabled boolean NOT NULL DEFAULT true,
+  ADD COLUMN IF NOT EXISTS graduation_metric text NOT NULL DEFAULT 'market_cap'
+    CHECK (graduation_metric IN ('market_cap', 'liquidity')),
+  ADD COLUMN IF NOT EXISTS graduation_threshold numeric NOT NULL DEFAULT 1000000,
+  ADD COLUMN IF NOT EXISTS graduation_seed_rule text NOT NULL DEFAULT 'match_price'
+    CHECK (graduation_seed_rule IN ('match_price', 'remaining_supply')),
+  ADD COLUMN IF NOT EXISTS graduation_seed_percentage numeric NOT NULL DEFAULT 100
+    CHECK (graduation_seed_percentage > 0 AND graduation_seed_percentage <= 100);
+
+-- The graduation itself is charted as a market event
+CREATE OR REPLACE FUNCTION public.reject_non_market_price_history()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.trade_type IS NULL OR NEW.trade_type NOT IN ('buy', 'sell', 'graduation') THEN
+    RAISE EXCEPTION 'Only verified market buy/sell trades can be charted';
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+-- Graduated coins are priced by their pool; a supply edit must not snap them back to the curve
+CREATE OR REPLACE FUNCTION public.update_coin_price()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+DECLARE
+  v_skip text;
+BEGIN
+  BEGIN
+    v_skip := current_setting('app.skip_price_trigger', true);
+  EXCEPTION WHEN OTHERS THEN
+    v_skip := NULL;
+  END;
+  IF v_skip = '1' OR NEW.is_graduated THEN
+    RETURN NEW;
+  END IF;
+  NEW.price := calculate_bonding_price(NEW.initial_price, NEW.bonding_curve_factor, NEW.circulating_supply);
+  NEW.market_cap := NEW.price * NEW.circulating_supply;
+  RETURN NEW;
+END;
+$$;
+
+-- Moves a coin onto its pool when it has crossed the configured threshold.
+-- match_price keeps the spot price unchanged (token side = quote / price,
+-- capped at unsold supply); remaining_supply puts all unsold tokens in the pool.
+CREATE OR REPLACE FUNCTION public.maybe_graduate_coin(_coin_id uuid)
+RETURNS boolean
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+DECLARE
+  v_coin RECORD;
+  v_settings RECORD;
+  v_metric numeric;
+  v_remaining numeric;
+  v_quote numeric;
+  v_tokens numeric;
+  v_price numeric;
+BEGIN
+  SELECT graduation_enabled, graduation_metric, graduation_threshold,
+         graduation_seed_rule, graduation_seed_percentage
+    INTO v_settings FROM public.site_settings LIMIT 1;
+  IF NOT FOUND OR NOT v_settings.graduation_enabled THEN RETURN false; END IF;
+
+  SELECT * INTO v_coin FROM public.coins WHERE id = _coin_id FOR UPDATE;
+  IF NOT FOUND OR v_coin.is_graduated THEN RETURN false; END IF;
+
+  v_metric := CASE v_settings.graduation_metric
+                WHEN 'liquidity' THEN COALESCE(v_coin.liquidity, 0)
+                ELSE COALESCE(v_coin.price, 0) * COALESCE(v_coin.circulating_supply, 0) END;
+  IF v_metric < v_settings.graduation_threshold THEN RETURN false; END IF;
+
+  v_remaining := GREATEST(0, COALESCE(v_coin.total_supply, 0) - COALESCE(v_coin.circulating_supply, 0));
+  v_quote := COALESCE(v_coin.liquidity, 0) * v_settings.graduation_seed_percentage / 100.0;
+  IF v_remaining <= 0 OR v_quote <= 0 OR COALESCE(v_coin.price, 0) <= 0 THEN RETURN false; END IF;
+
+  IF v_settings.graduation_seed_rule = 'remaining_supply' THEN
+    v_tokens := v_remaining;
+  ELSE
+    v_tokens := LEAST(v_remaining, v_quote / v_coin.price);
+    v_quote := v_tokens * v_coin.price;
+  END IF;
+  v_price := v_quote / v_tokens;
+
+  PERFORM set_config('app.skip_price_trigger', '1', true);
+  UPDATE public.coins
+    SET is_graduated = true,
+        graduated_at = now(),
+        pool_token_reserve = v_tokens,
+        pool_quote_reserve = v_quote,
+        price = v_price,
+        market_cap = v_price * circulating_supply,
+        liquidity = v_quote,
+        updated_at = now()
+    WHERE id = _coin_id;
+  PERFORM set_config('app.skip_price_trigger', '0', true);
+
+  INSERT INTO public.price_history (coin_id, price, volume, trade_type)
+    VALUES (_coin_id, v_price, 0, 'graduation');
+
+  RETURN true;
+END;
+$$;
+
+-- Curve pricing as before; graduated coins swap against the pool instead.
+CREATE OR REPLACE FUNCTION public.price_curve_trade(_coin_id uuid, _trade_type text, _amount numeric)
+RETURNS TABLE (spot_price numeric, total_value numeric, average_price numeric, new_circulating numeric, new_price numeric)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+DECLARE
+  v_coin RECORD;
+  v_pressure numeric;
+  v_curve_spot numeric;
+  v_anchor numeric := 1;
+  v_from numeric;
+  v_to numeric;
+  v_x numeric;
+  v_y numeric;
+BEGIN
+  SELECT * INTO v_coin FROM public.coins WHERE id = _coin_id;
+  IF NOT FOUND THEN RAISE EXCEPTION 'Coin not found'; END IF;
+
+  IF v_coin.is_graduated THEN
+    v_x := v_coin.pool_token_reserve;
+    v_y := v_coin.pool_quote_reserve;
+    spot_price := v_y / v_x;
+    IF _trade_type = 'buy' THEN
+      IF _amount >= v_x THEN
+        RAISE EXCEPTION 'Insufficient pool liquidity (% tokens in pool)', round(v_x, 6);
+      END IF;
+      total_value := v_y * _amount / (v_x - _amount);
+      new_circulating := v_coin.circulating_supply + _amount;
+      new_price := (v_y + total_value) / (v_x - _amount);
+    ELSE
+      total_value := v_y * _amount / (v_x + _amount);
+      new_circulating := GREATEST(0, v_coin.circulating_supply - _amount);
+      new_price := (v_y - total_value) / (v_x + _amount);
+    END IF;
+    average_price := CASE WHEN _amount > 0 THEN total_value / _amount ELSE spot_price END;
+    RETURN NEXT;
+    RETURN;
+  END IF;
+
+  v_curve_spot := public.calculate_bonding_price(v_coin.initial_price, v_coin.bonding_curve_factor, v_coin.circulating_supply);
+  IF v_curve_spot > 0 THEN
+    v_anchor := v_coin.price / v_curve_spot;
+  END IF;
+
+  IF _trade_type = 'buy' THEN
+    v_from := v_coin.circulating_supply;
+    v_to := v_coin.circulating_supply + _amount;
+    new_circulating := v_to;
+    new_price := public.calculate_bonding_price(v_coin.initial_price, v_coin.bonding_curve_factor, v_to);
+  ELSE
+    v_from := GREATEST(0, v_coin.circulating_supply - _amount);
+    v_to := v_coin.circulating_supply;
+    new_circulating := v_from;
+    SELECT COALESCE(sell_pressure_multiplier, 1.5) INTO v_pressure FROM public.site_settings LIMIT 1;
+    new_price := GREATEST(
+      v_coin.initial_price * 0.01,
+      public.calculate_bonding_price(v_coin.initial_price, v_coin.bonding_curve_factor, v_from)
+        * (1 - LEAST(0.5, COALESCE(v_pressure, 1.5) * (_amount / GREATEST(v_coin.circulating_supply, 1))))
+    );
+  END IF;
+
+  spot_price := v_coin.price;
+  total_value := public.bonding_curve_area(v_coin.initial_price, v_coin.bonding_curve_factor, v_from, v_to) * v_anchor;
+  average_price := CASE WHEN _amount > 0 THEN total_value / _amount ELSE v_coin.price END;
+  RETURN NEXT;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.execute_trade(
+  _user_id uuid, _coin_id uuid, _trade_type text, _amount numeric, _use_wallet boolean, _to_wallet boolean,
+  _expected_price numeric DEFAULT NULL, _max_slippage_pct numeric DEFAULT NULL
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+DECLARE
+  v_coin RECORD;
+  v_settings RECORD;
+  v_wallet_balance numeric;
+  v_holding RECORD;
+  v_pricing RECORD;
+  v_exec_price numeric;
+  v_total_value numeric;
+  v_fee numeric;
+  v_creator_share numeric;
+  v_net_value numeric;
+  v_tx_id uuid;
+  v_holders_delta integer := 0;
+  v_remaining_supply numeric;
+  v_max_buy numeric;
+  v_new_circ numeric;
+  v_final_price numeric;
+  v_locked numeric;
+  v_graduated boolean;
+BEGIN
+  IF _amount IS NULL OR _amount <= 0 THEN
+    RAISE EXCEPTION 'Trade amount must be greater than zero';
+  END IF;
+  IF _trade_type NOT IN ('buy','sell') THEN
+    RAISE EXCEPTION 'Invalid trade type';
+  END IF;
+
+  SELECT * INTO v_coin FROM public.coins WHERE id = _coin_id FOR UPDATE;
+  IF NOT FOUND THEN RAISE EXCEPTION 'Coin not found'; END IF;
+  IF v_coin.trading_paused THEN RAISE EXCEPTION 'Trading paused for this coin'; END IF;
+
+  SELECT fee_percentage, creator_commission_percentage,
+         COALESCE(max_buy_supply_percentage, 25)   AS max_buy_supply_percentage
+    INTO v_settings FROM public.site_settings LIMIT 1;
+
+  IF _trade_type = 'buy' THEN
+    v_remaining_supply := GREATEST(0, COALESCE(v_coin.total_supply, 0) - COALESCE(v_coin.circulating_supply, 0));
+    IF v_remaining_supply <= 0 THEN
+      RAISE EXCEPTION 'No remaining supply available for purchase';
+    END IF;
+    IF _amount > v_remaining_supply THEN
+      RAISE EXCEPTION 'Requested amount exceeds remaining supply (% available)', v_remaining_supply;
+    END IF;
+    v_max_buy := v_remaining_supply * (v_settings.max_buy_supply_percentage / 100.0);
+    IF v_max_buy > 0 AND _amount > v_max_buy THEN
+      RAISE EXCEPTION 'Single trade limited to % percent of remaining supply (max %)',
+        v_settings.max_buy_supply_percentage, v_max_buy;
+    END IF;
+
+    SELECT * INTO v_pricing FROM public.price_curve_trade(_coin_id, 'buy', _amount);
+    v_exec_price := v_pricing.average_price;
+    IF _expected_price IS NOT NULL AND _max_slippage_pct IS NOT NULL
+       AND v_exec_price > _expected_price * (1 + _max_slippage_pct / 100.0) THEN
+      RAISE EXCEPTION 'Price moved beyond your slippage tolerance (quoted %, now %)',
+        round(_expected_price, 6), round(v_exec_price, 6);
+    END IF;
+    v_total_value := v_pricing.total_value;
+    v_fee := v_total_value * (COALESCE(v_settings.fee_percentage, 0) / 100.0);
+    v_creator_share := v_total_value * (COALESCE(v_settings.creator_commission_percentage, 0) / 100.0);
+
+    IF _use_wallet THEN
+      SELECT fiat_balance INTO v_wallet_balance FROM public.wallets WHERE user_id = _user_id FOR UPDATE;
+      IF v_wallet_balance IS NULL THEN RAISE EXCEPTION 'Wallet not found'; END IF;
+      IF v_wallet_balance < (v_total_value + v_fee) THEN
+        RAISE EXCEPTION 'Insufficient wallet balance';
+      END IF;
+      UPDATE public.wallets SET fiat_balance = fiat_balance - (v_total_value + v_fee) WHERE user_id = _user_id;
+    END IF;
+
+    INSERT INTO public.transactions (user_id, coin_id, type, amount, price_per_coin, total_value, status)
+      VALUES (_user_id, _coin_id, 'buy', _amount, v_exec_price, v_total_value, 'completed')
+      RETURNING id INTO v_tx_id;
+
+    SELECT * INTO v_holding FROM public.holdings WHERE user_id = _user_id AND coin_id = _coin_id FOR UPDATE;
+    IF v_holding.id IS NULL THEN
+      INSERT INTO public.holdings (user_id, coin_id, amount, average_buy_price)
+        VALUES (_user_id, _coin_id, _amount, v_exec_price);
+      v_holders_delta := 1;
+    ELSE
+      UPDATE public.holdings
+        SET amount = v_holding.amount + _amount,
+            average_buy_price = ((v_holding.amount * v_holding.average_buy_price) + (_amount * v_exec_price)) / (v_holding.amount + _amount),
+            updated_at = now()
+        WHERE id = v_holding.id;
+    END IF;
+
+    v_new_circ := v_pricing.new_circulating;
+    v_final_price := v_pricing.new_price;
+
+  ELSE
+    SELECT * INTO v_holding FROM public.holdings WHERE user_id = _user_id AND coin_id = _coin_id FOR UPDATE;
+    IF v_holding.id IS NULL OR v_holding.amount < _amount THEN
+      RAISE EXCEPTION 'Insufficient coin balance';
+    END IF;
+    v_locked := public.locked_sell_amount(_user_id, _coin_id);
+    IF v_holding.amount - v_locked < _amount THEN
+      RAISE EXCEPTION 'Insufficient coin balance (% reserved by open sell orders)', v_locked;
+    END IF;
+    IF _amount > v_coin.circulating_supply THEN
+      RAISE EXCEPTION 'Sell amount exceeds circulating supply';
+    END IF;
+
+    SELECT * INTO v_pricing FROM public.price_curve_trade(_coin_id, 'sell', _amount);
+    v_exec_price := v_pricing.average_price;
+    IF _expected_price IS NOT NULL AND _max_slippage_pct IS NOT NULL
+       AND v_exec_price < _expected_price * (1 - _max_slippage_pct / 100.0) THEN
+      RAISE EXCEPTION 'Price moved beyond your slippage tolerance (quoted %, now %)',
+        round(_expected_price, 6), round(v_exec_price, 6);
+    END IF;
+    v_total_value := v_pricing.total_value;
+    v_fee := v_total_value * (COALESCE(v_settings.fee_percentage, 0) / 100.0);
+    v_creator_share := v_total_value * (COALESCE(v_settings.creator_commission_percentage, 0) / 100.0);
+    v_net_value := GREATEST(0, v_total_value - v_fee);
+
+    INSERT INTO public.transactions (user_id, coin_id, type, amount, price_per_coin, total_value, status)
+      VALUES (_user_id, _coin_id, 'sell', _amount, v_exec_price, v_total_value, 'completed')
+      RETURNING id INTO v_tx_id;
+
+    IF v_holding.amount - _amount <= 0 THEN
+      DELETE FROM public.holdings WHERE id = v_holding.id;
+      v_holders_delta := -1;
+    ELSE
+      UPDATE public.holdings SET amount = v_holding.amount - _amount, updated_at = now() WHERE id = v_holding.id;
+    END IF;
+
+    IF _to_wallet THEN
+      INSERT INTO public.wallets (user_id, fiat_balance) VALUES (_user_id, v_net_value)
+        ON CONFLICT (user_id) DO UPDATE SET fiat_balance = public.wallets.fiat_balance + v_net_value;
+    END IF;
+
+    v_new_circ := v_pricing.new_circulating;
+    v_final_price := v_pricing.new_price;
+  END IF;
+
+  PERFORM set_config('app.skip_price_trigger', '1', true);
+  IF v_coin.is_graduated THEN
+    -- Pool liquidity is the quote reserve itself
+    UPDATE public.coins
+      SET circulating_supply = v_new_circ,
+          pool_token_reserve = CASE WHEN _trade_type = 'buy' THEN pool_token_reserve - _amount
+                                    ELSE pool_token_reserve + _amount END,
+          pool_quote_reserve = CASE WHEN _trade_type = 'buy' THEN pool_quote_reserve + v_total_value
+                                    ELSE pool_quote_reserve - v_total_value END,
+          liquidity = CASE WHEN _trade_type = 'buy' THEN pool_quote_reserve + v_total_value
+                           ELSE pool_quote_reserve - v_total_value END,
+          price = v_final_price,
+          market_cap = v_final_price * v_new_circ,
+          holders_count = GREATEST(0, holders_count + v_holders_delta),
+          updated_at = now()
+      WHERE id = _coin_id;
+  ELSE
+    UPDATE public.coins
+      SET circulating_supply = v_new_circ,
+          price = v_final_price,
+          market_cap = v_final_price * v_new_circ,
+          liquidity = CASE WHEN _trade_type = 'buy'
+                           THEN COALESCE(liquidity, 0) + v_total_value
+                           ELSE GREATEST(0, COALESCE(liquidity, 0) - v_total_value) END,
+          holders_count = GREATEST(0, holders_count + v_holders_delta),
+          updated_at = now()
+      WHERE id = _coin_id;
+  END IF;
+  PERFORM set_config('app.skip_price_trigger', '0', true);
+
+  IF v_fee > 0 THEN
+    INSERT INTO public.commission_transactions (transaction_id, amount, commission_rate)
+      VALUES (v_tx_id, v_fee, COALESCE(v_settings.fee_percentage, 0));
+  END IF;
+
+  IF v_coin.creator_id IS NOT NULL AND v_coin.creator_id <> _user_id AND v_creator_share > 0 THEN
+    INSERT INTO public.wallets (user_id, fiat_balance) VALUES (v_coin.creator_id, v_creator_share)
+      ON CONFLICT (user_id) DO UPDATE SET fiat_balance = public.wallets.fiat_balance + v_creator_share;
+  END IF;
+
+  INSERT INTO public.price_history (coin_id, price, volume, trade_type)
+    VALUES (_coin_id, v_final_price, v_total_value, _trade_type);
+
+  v_graduated := NOT v_coin.is_graduated AND public.maybe_graduate_coin(_coin_id);
+
+  RETURN jsonb_build_object(
+    'ok', true,
+    'transaction_id', v_tx_id,
+    'executed_price', v_exec_price,
+    'spot_price', v_pricing.spot_price,
+    'total_value', v_total_value,
+    'new_market_price', v_final_price,
+    'fee', v_fee,
+    'graduated', v_graduated
+  );
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.quote_trade(_coin_id uuid, _trade_type text, _amount numeric)
+RETURNS jsonb
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+DECLARE
+  v_coin RECORD;
+  v_settings RECORD;
+  v_pricing RECORD;
+  v_remaining_supply numeric;
+  v_max_buy numeric;
+  v_fee numeric;
+  v_creator_share numeric := 0;
+BEGIN
+  IF _amount IS NULL OR _amount <= 0 THEN
+    RETURN jsonb_build_object('ok', false, 'error', 'Trade amount must be greater than zero');
+  END IF;
+  IF _trade_type NOT IN ('buy', 'sell') THEN
+    RETURN jsonb_build_object('ok', false, 'error', 'Invalid trade type');
+  END IF;
+
+  SELECT * INTO v_coin FROM public.coins WHERE id = _coin_id;
+  IF NOT FOUND OR NOT v_coin.is_active THEN
+    RETURN jsonb_build_object('ok', false, 'error', 'Coin not found');
+  END IF;
+  IF v_coin.trading_paused THEN
+    RETURN jsonb_build_object('ok', false, 'error', 'Trading paused for this coin');
+  END IF;
+
+  SELECT fee_percentage, creator_commission_percentage,
+         COALESCE(max_buy_supply_percentage, 25) AS max_buy_supply_percentage
+    INTO v_settings FROM public.site_settings LIMIT 1;
+
+  IF _trade_type = 'buy' THEN
+    v_remaining_supply := GREATEST(0, COALESCE(v_coin.total_supply, 0) - COALESCE(v_coin.circulating_supply, 0));
+    IF _amount > v_remaining_supply THEN
+      RETURN jsonb_build_object('ok', false, 'error',
+        format('Requested amount exceeds remaining supply (%s available)', v_remaining_supply));
+    END IF;
+    v_max_buy := v_remaining_supply * (v_settings.max_buy_supply_percentage / 100.0);
+    IF v_max_buy > 0 AND _amount > v_max_buy THEN
+      RETURN jsonb_build_object('ok', false, 'error',
+        format('Single trade limited to %s percent of remaining supply (max %s)',
+          v_settings.max_buy_supply_percentage, v_max_buy));
+    END IF;
+    IF v_coin.is_graduated AND _amount >= v_coin.pool_token_reserve THEN
+      RETURN jsonb_build_object('ok', false, 'error',
+        format('Insufficient pool liquidity (%s tokens in pool)', round(v_coin.pool_token_reserve, 6)));
+    END IF;
+  ELSIF _amount > v_coin.circulating_supply THEN
+    RETURN jsonb_build_object('ok', false, 'error', 'Sell amount exceeds circulating supply');
+  END IF;
+
+  SELECT * INTO v_pricing FROM public.price_curve_trade(_coin_id, _trade_type, _amount);
+  v_fee := v_pricing.total_value * (COALESCE(v_settings.fee_percentage, 0) / 100.0);
+  -- Paid to the creator by the platform; not added to the trader's total
+  IF v_coin.creator_id IS NOT NULL AND v_coin.creator_id IS DISTINCT FROM auth.uid() THEN
+    v_creator_share := v_pricing.total_value * (COALESCE(v_settings.creator_commission_percentage, 0) / 100.0);
+  END IF;
+
+  RETURN jsonb_build_object(
+    'ok', true,
+    'trade_type', _trade_type,
+    'amount', _amount,
+    'spot_price', v_pricing.spot_price,
+    'average_price', v_pricing.average_price,
+    'total_value', v_pricing.total_value,
+    'fee', v_fee,
+    'fee_pct', COALESCE(v_settings.fee_percentage, 0),
+    'creator_commission', v_creator_share,
+    'creator_commission_pct', CASE WHEN v_creator_share > 0 THEN COALESCE(v_settings.creator_commission_percentage, 0) ELSE 0 END,
+    'net_total', CASE WHEN _trade_type = 'buy' THEN v_pricing.total_value + v_fee
+                      ELSE GREATEST(0, v_pricing.total_value - v_fee) END,
+    'new_price', v_pricing.new_price,
+    'price_impact_pct', CASE WHEN v_pricing.spot_price > 0
+                             THEN (v_pricing.average_price - v_pricing.spot_price) / v_pricing.spot_price * 100
+                             ELSE 0 END,
+    'pricing', CASE WHEN v_coin.is_graduated THEN 'pool' ELSE 'curve' END
+  );
+END;
+$$;
+
+
+CREATE OR REPLACE FUNCTION public.complete_mpesa_buy(_transaction_id uuid, _mpesa_receipt text)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+DECLARE
+  v_tx RECORD;
+  v_coin RECORD;
+  v_settings RECORD;
+  v_holding RECORD;
+  v_holders_delta integer := 0;
+  v_creator_share numeric;
+  v_holders_count integer;
+  v_remaining_supply numeric;
+  v_new_circ numeric;
+  v_new_base_price numeric;
+  v_current_price numeric;
+  v_paid numeric;
+  v_graduated boolean;
+BEGIN
+  SELECT * INTO v_tx FROM public.transactions WHERE id = _transaction_id FOR UPDATE;
+  IF NOT FOUND THEN RETURN jsonb_build_object('ok', false, 'error', 'Transaction not found'); END IF;
+
+  IF v_tx.status = 'completed' THEN
+    IF _mpesa_receipt IS NOT NULL AND _mpesa_receipt <> '' AND COALESCE(v_tx.mpesa_receipt, '') <> _mpesa_receipt THEN
+      UPDATE public.transactions
+        SET mpesa_receipt = _mpesa_receipt, updated_at = now()
+        WHERE id = _transaction_id;
+    END IF;
+    RETURN jsonb_build_object('ok', true, 'already_completed', true);
+  END IF;
+
+  SELECT * INTO v_coin FROM public.coins WHERE id = v_tx.coin_id FOR UPDATE;
+  IF NOT FOUND THEN RETURN jsonb_build_object('ok', false, 'error', 'Coin not found'); END IF;
+
+  v_remaining_supply := GREATEST(0, COALESCE(v_coin.total_supply, 0) - COALESCE(v_coin.circulating_supply, 0));
+  IF v_tx.amount > v_remaining_supply THEN
+    UPDATE public.transactions
+      SET status = 'failed',
+          mpesa_receipt = COALESCE(NULLIF(_mpesa_receipt, ''), mpesa_receipt),
+          updated_at = now()
+      WHERE id = _transaction_id;
+    RETURN jsonb_build_object('ok', false, 'error', 'Coin supply exhausted');
+  END IF;
+  IF v_coin.is_graduated AND v_tx.amount >= v_coin.pool_token_reserve THEN
+    UPDATE public.transactions
+      SET status = 'failed',
+          mpesa_receipt = COALESCE(NULLIF(_mpesa_receipt, ''), mpesa_receipt),
+          updated_at = now()
+      WHERE id = _transaction_id;
+    RETURN jsonb_build_object('ok', false, 'error', 'Insufficient pool liquidity');
+  END IF;
+
+  SELECT fee_percentage, creator_commission_percentage INTO v_settings
+    FROM public.site_settings LIMIT 1;
+
+  -- The price was quoted when the STK push went out; reject the fill if the
+  -- curve has since moved past the buyer's tolerance. The payment has already
+  -- cleared, so it is kept as wallet balance instead.
+  IF v_tx.max_slippage_pct IS NOT NULL THEN
+    SELECT average_price INTO v_current_price
+      FROM public.price_curve_trade(v_tx.coin_id, 'buy', v_tx.amount);
+    IF v_current_price > v_tx.price_per_coin * (1 + v_tx.max_slippage_pct / 100.0) THEN
+      v_paid := round(v_tx.total_value * (1 + COALESCE(v_settings.fee_percentage, 0) / 100.0));
+      INSERT INTO public.wallets (user_id, fiat_balance) VALUES (v_tx.user_id, v_paid)
+        ON CONFLICT (user_id) DO UPDATE SET fiat_balance = public.wallets.fiat_balance + v_paid;
+      UPDATE public.transactions
+        SET status = 'cancelled',
+            mpesa_receipt = COALESCE(NULLIF(_mpesa_receipt, ''), mpesa_receipt),
+            updated_at = now()
+        WHERE id = _transaction_id;
+      RETURN jsonb_build_object('ok', false, 'error', 'Price moved beyond slippage tolerance',
+        'credited_to_wallet', v_paid, 'quoted_price', v_tx.price_per_coin, 'current_price', v_current_price);
+    END IF;
+  END IF;
+
+  UPDATE public.transactions
+    SET status = 'completed',
+        mpesa_receipt = COALESCE(NULLIF(_mpesa_receipt, ''), mpesa_receipt),
+        updated_at = now()
+    WHERE id = _transaction_id;
+
+  SELECT * INTO v_holding FROM public.holdings
+    WHERE user_id = v_tx.user_id AND coin_id = v_tx.coin_id FOR UPDATE;
+
+  IF v_holding.id IS NULL THEN
+    INSERT INTO public.holdings (user_id, coin_id, amount, average_buy_price)
+      VALUES (v_tx.user_id, v_tx.coin_id, v_tx.amount, v_tx.price_per_coin);
+    v_holders_delta := 1;
+  ELSE
+    UPDATE public.holdings
+      SET amount = v_holding.amount + v_tx.amount,
+          average_buy_price = ((v_holding.amount * v_holding.average_buy_price)
+            + (v_tx.amount * v_tx.price_per_coin)) / (v_holding.amount + v_tx.amount),
+          updated_at = now()
+      WHERE id = v_holding.id;
+  END IF;
+
+  SELECT count(*) INTO v_holders_count FROM public.holdings
+    WHERE coin_id = v_tx.coin_id AND amount > 0;
+
+  v_new_circ := v_coin.circulating_supply + v_tx.amount;
+
+  PERFORM set_config('app.skip_price_trigger', '1', true);
+  IF v_coin.is_graduated THEN
+    -- The buyer paid the quoted amount; it all goes into the pool
+    v_new_base_price := (v_coin.pool_quote_reserve + v_tx.total_value) / (v_coin.pool_token_reserve - v_tx.amount);
+    UPDATE public.coins
+      SET circulating_supply = v_new_circ,
+          pool_token_reserve = pool_token_reserve - v_tx.amount,
+          pool_quote_reserve = pool_quote_reserve + v_tx.total_value,
+          liquidity = pool_quote_reserve + v_tx.total_value,
+          price = v_new_base_price,
+          market_cap = v_new_base_price * v_new_circ,
+          holders_count = v_holders_count,
+          updated_at = now()
+      WHERE id = v_tx.coin_id;
+  ELSE
+    v_new_base_price := public.calculate_bonding_price(v_coin.initial_price, v_coin.bonding_curve_factor, v_new_circ);
+    UPDATE public.coins
+      SET circulating_supply = v_new_circ,
+          price = v_new_base_price,
+          market_cap = v_new_base_price * v_new_circ,
+          liquidity = COALESCE(liquidity, 0) + v_tx.total_value,
+          holders_count = v_holders_count,
+          updated_at = now()
+      WHERE id = v_tx.coin_id;
+  END IF;
+  PERFORM set_config('app.skip_price_trigger', '0', true);
+
+  INSERT INTO public.price_history (coin_id, price, volume, trade_type)
+    VALUES (v_tx.coin_id, v_new_base_price, v_tx.total_value, 'buy');
+
+  IF COALESCE(v_settings.fee_percentage, 0) > 0 THEN
+    INSERT INTO public.commission_transactions (transaction_id, amount, commission_rate)
+      VALUES (_transaction_id, v_tx.total_value * (v_settings.fee_percentage / 100.0), v_settings.fee_percentage);
+  END IF;
+
+  IF v_coin.creator_id IS NOT NULL
+     AND v_coin.creator_id <> v_tx.user_id
+     AND COALESCE(v_settings.creator_commission_percentage, 0) > 0 THEN
+    v_creator_share := v_tx.total_value * (v_settings.creator_commission_percentage / 100.0);
+    INSERT INTO public.wallets (user_id, fiat_balance)
+      VALUES (v_coin.creator_id, v_creator_share)
+      ON CONFLICT (user_id) DO UPDATE
+        SET fiat_balance = public.wallets.fiat_balance + v_creator_share;
+  END IF;
+
+  v_graduated := NOT v_coin.is_graduated AND public.maybe_graduate_coin(v_tx.coin_id);
+
+  RETURN jsonb_build_object('ok', true, 'allocated', v_tx.amount, 'new_market_price', v_new_base_price,
+    'graduated', v_graduated);
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.match_limit_order(_order_id uuid)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+DECLARE
+  v_order RECORD;
+  v_counter RECORD;
+  v_coin RECORD;
+  v_settings RECORD;
+  v_fee_rate numeric;
+  v_remaining numeric;
+  v_fill numeric;
+  v_curve_spot numeric;
+  v_slope numeric;
+  v_remaining_supply numeric;
+  v_holding_amount numeric;
+  v_slice_reserve numeric;
+  v_result jsonb;
+  v_book_filled numeric := 0;
+  v_curve_filled numeric := 0;
+BEGIN
+  SELECT * INTO v_order FROM public.limit_orders WHERE id = _order_id FOR UPDATE;
+  IF NOT FOUND OR v_order.status NOT IN ('open', 'partially_filled') THEN
+    RETURN jsonb_build_object('ok', true, 'order_id', _order_id, 'filled', 0);
+  END IF;
+
+  SELECT * INTO v_coin FROM public.coins WHERE id = v_order.coin_id FOR UPDATE;
+  IF v_coin.trading_paused THEN
+    RETURN jsonb_build_object('ok', true, 'order_id', _order_id, 'status', v_order.status, 'filled', 0);
+  END IF;
+
+  SELECT fee_percentage,
+         COALESCE(max_buy_supply_percentage, 25) AS max_buy_supply_percentage
+    INTO v_settings FROM public.site_settings LIMIT 1;
+  v_fee_rate := COALESCE(v_settings.fee_percentage, 0) / 100.0;
+
+  v_remaining := v_order.amount - v_order.filled_amount;
+
+  FOR v_counter IN
+    SELECT * FROM public.limit_orders
+      WHERE coin_id = v_order.coin_id
+        AND side <> v_order.side
+        AND user_id <> v_order.user_id
+        AND status IN ('open', 'partially_filled')
+        AND ((v_order.side = 'buy' AND price <= v_order.price)
+          OR (v_order.side = 'sell' AND price >= v_order.price))
+      ORDER BY CASE WHEN v_order.side = 'buy' THEN price END ASC,
+               CASE WHEN v_order.side = 'sell' THEN price END DESC,
+               created_at ASC
+      FOR UPDATE
+  LOOP
+    EXIT WHEN v_remaining <= 0;
+    v_fill := LEAST(v_remaining, v_counter.amount - v_counter.filled_amount);
+    IF v_order.side = 'buy' THEN
+      v_fill := public.settle_book_fill(v_order.id, v_counter.id, v_fill, v_counter.price, 'buy');
+    ELSE
+      v_fill := public.settle_book_fill(v_counter.id, v_order.id, v_fill, v_counter.price, 'sell');
+    END IF;
+    v_remaining := v_remaining - v_fill;
+    v_book_filled := v_book_filled + v_fill;
+  END LOOP;
+
+  -- Re-read: the order may have been cancelled (seller ran out of tokens)
+  SELECT * INTO v_order FROM public.limit_orders WHERE id = _order_id;
+  SELECT * INTO v_coin FROM public.coins WHERE id = v_order.coin_id;
+
+  -- The average curve price moves linearly with size (slope/2 per token, see
+  -- price_curve_trade), so cap the curve slice where the average hits the limit.
+  -- Pool fills average quote/(tokens -/+ fill), which solves for the cap directly.
+  v_curve_spot := public.calculate_bonding_price(v_coin.initial_price, v_coin.bonding_curve_factor, v_coin.circulating_supply);
+  v_slope := CASE WHEN v_coin.is_graduated THEN 0
+                  WHEN v_curve_spot > 0
+                  THEN (v_coin.price / v_curve_spot) * v_coin.initial_price * COALESCE(v_coin.bonding_curve_factor, 0)
+                  ELSE 0 END;
+
+  IF v_remaining > 0 AND v_order.status IN ('open', 'partially_filled') THEN
+    IF v_order.side = 'buy' THEN
+      v_remaining_supply := GREATEST(0, COALESCE(v_coin.total_supply, 0) - COALESCE(v_coin.circulating_supply, 0));
+      v_fill := LEAST(v_remaining, v_remaining_supply * (v_settings.max_buy_supply_percentage / 100.0));
+      IF v_coin.is_graduated THEN
+        v_fill := LEAST(v_fill, GREATEST(0, v_coin.pool_token_reserve - v_coin.pool_quote_reserve / v_order.price));
+      ELSIF v_slope > 0 THEN
+        v_fill := LEAST(v_fill, GREATEST(0, 2 * (v_order.price - v_coin.price) / v_slope));
+      END IF;
+      IF v_coin.price <= v_order.price AND v_fill > 0 THEN
+        BEGIN
+          -- Hand this slice's escrow back so execute_trade can debit the wallet
+          v_slice_reserve := CASE WHEN v_fill >= v_remaining THEN v_order.reserved_fiat
+                                  ELSE LEAST(v_order.reserved_fiat, v_fill * v_order.price * (1 + v_fee_rate)) END;
+          UPDATE public.wallets SET fiat_balance = fiat_balance + v_slice_reserve WHERE user_id = v_order.user_id;
+          v_result := public.execute_trade(v_order.user_id, v_order.coin_id, 'buy', v_fill, true, false);
+          UPDATE public.limit_orders
+            SET filled_amount = filled_amount + v_fill,
+                reserved_fiat = GREATEST(0, reserved_fiat - v_slice_reserve),
+                status = CASE WHEN filled_amount + v_fill >= amount THEN 'filled' ELSE 'partially_filled' END,
+                updated_at = now()
+            WHERE id = v_order.id;
+          INSERT INTO public.limit_order_fills (order_id, coin_id, source, price, amount, transaction_id)
+            VALUES (v_order.id, v_order.coin_id, 'curve', (v_result->>'executed_price')::numeric, v_fill,
+                    (v_result->>'transaction_id')::uuid);
+          v_curve_filled := v_fill;
+        EXCEPTION WHEN OTHERS THEN
+          -- Curve fill not possible right now; the order keeps resting
+          v_curve_filled := 0;
+        END;
+      END IF;
+    ELSE
+      SELECT COALESCE(amount, 0) INTO v_holding_amount FROM public.holdings
+        WHERE user_id = v_order.user_id AND coin_id = v_order.coin_id;
+      v_fill := LEAST(v_remaining, COALESCE(v_holding_amount, 0));
+      IF v_coin.is_graduated THEN
+        v_fill := LEAST(v_fill, GREATEST(0, v_coin.pool_quote_reserve / v_order.price - v_coin.pool_token_reserve));
+      ELSIF v_slope > 0 THEN
+        v_fill := LEAST(v_fill, GREATEST(0, 2 * (v_coin.price - v_order.price) / v_slope));
+      END IF;
+      IF v_coin.price >= v_order.price AND v_fill > 0 THEN
+        BEGIN
+          -- Release the reservation first so execute_trade sees the tokens as free
+          UPDATE public.limit_orders
+            SET filled_amount = filled_amount + v_fill,
+                status = CASE WHEN filled_amount + v_fill >= amount THEN 'filled' ELSE 'partially_filled' END,
+                updated_at = now()
+            WHERE id = v_order.id;
+          v_result := public.execute_trade(v_order.user_id, v_order.coin_id, 'sell', v_fill, false, true);
+          INSERT INTO public.limit_order_fills (order_id, coin_id, source, price, amount, transaction_id)
+            VALUES (v_order.id, v_order.coin_id, 'curve', (v_result->>'executed_price')::numeric, v_fill,
+                    (v_result->>'transaction_id')::uuid);
+          v_curve_filled := v_fill;
+        EXCEPTION WHEN OTHERS THEN
+          v_curve_filled := 0;
+        END;
+      END IF;
+    END IF;
+  END IF;
+
+  SELECT * INTO v_order FROM public.limit_orders WHERE id = _order_id;
+  RETURN jsonb_build_object(
+    'ok', true,
+    'order_id', v_order.id,
+    'status', v_order.status,
+    'filled', v_book_filled + v_curve_filled,
+    'book_filled', v_book_filled,
+    'curve_filled', v_curve_filled,
+    'remaining', v_order.amount - v_order.filled_amount
+  );
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.maybe_graduate_coin(uuid) FROM anon, authenticated, public;
+GRANT EXECUTE ON FUNCTION public.maybe_graduate_coin(uuid) TO service_role;
+REVOKE EXECUTE ON FUNCTION public.price_curve_trade(uuid, text, numeric) FROM anon, authenticated, public;
+GRANT EXECUTE ON FUNCTION public.execute_trade(uuid, uuid, text, numeric, boolean, boolean, numeric, numeric) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.quote_trade(uuid, text, numeric) TO anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.complete_mpesa_buy(uuid, text) FROM anon, authenticated, public;
+GRANT EXECUTE ON FUNCTION public.complete_mpesa_buy(uuid, text) TO service_role;
+REVOKE EXECUTE ON FUNCTION public.match_limit_order(uuid) FROM anon, authenticated, public;
+GRANT EXECUTE ON FUNCTION public.match_limit_order(uuid) TO service_role;
+
+-- Coins already past the threshold graduate now
+DO $$
+DECLARE
+  v_coin_id uuid;
+BEGIN
+  FOR v_coin_id IN SELECT id FROM public.coins WHERE NOT is_graduated LOOP
+    PERFORM public.maybe_graduate_coin(v_coin_id);
+  END LOOP;
+END $$;
@@ -0,0 +1,329 @@
+-- Recurring buys (dollar-cost averaging). A plan spends a fixed KES amount,
+-- fee included, from the user's wallet every day or week. Due plans are run
+-- by the process-recurring-buys edge function through execute_recurring_buy.
+CREATE TABLE IF NOT EXISTS public.recurring_buys (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid NOT NULL,
+  coin_id uuid NOT NULL REFERENCES public.coins(id) ON DELETE CASCADE,
+  amount_kes numeric NOT NULL CHECK (amount_kes > 0),
+  frequency text NOT NULL CHECK (frequency IN ('daily', 'weekly')),
+  status text NOT NULL DEFAULT 'active' CHECK (status IN ('active', 'paused', 'cancelled')),
+  next_run_at timestamptz NOT NULL DEFAULT now(),
+  last_run_at timestamptz,
+  last_result text CHECK (last_result IS NULL OR last_result IN ('filled', 'skipped', 'failed')),
+  last_error text,
+  fills_count integer NOT NULL DEFAULT 0,
+  total_spent numeric NOT NULL DEFAULT 0,
+  total_bought numeric NOT NULL DEFAULT 0,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_recurring_buys_due
+  ON public.recurring_buys (next_run_at)
+  WHERE status = 'active';
+
+CREATE INDEX IF NOT EXISTS idx_recurring_buys_user
+  ON public.recurring_buys (user_id, created_at DESC);
+
+CREATE TABLE IF NOT EXISTS public.recurring_buy_runs (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  plan_id uuid NOT NULL REFERENCES public.recurring_buys(id) ON DELETE CASCADE,
+  user_id uuid NOT NULL,
+  coin_id uuid NOT NULL REFERENCES public.coins(id) ON DELETE CASCADE,
+  result text NOT NULL CHECK (result IN ('filled', 'skipped', 'failed')),
+  amount_kes numeric NOT NULL,
+  coins_bought numeric,
+  executed_price numeric,
+  transaction_id uuid REFERENCES public.transactions(id) ON DELETE SET NULL,
+  reason text,
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_recurring_buy_runs_plan
+  ON public.recurring_buy_runs (plan_id, created_at DESC);
+
+ALTER TABLE public.recurring_buys ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.recurring_buy_runs ENABLE ROW LEVEL SECURITY;
+
+-- Writes go through the RPCs below
+CREATE POLICY "Users can view their own recurring buys" ON public.recurring_buys
+  FOR SELECT USING (auth.uid() = user_id);
+CREATE POLICY "Admins can view all recurring buys" ON public.recurring_buys
+  FOR SELECT USING (public.is_admin(auth.uid()));
+CREATE POLICY "Users can view their own recurring buy runs" ON public.recurring_buy_runs
+  FOR SELECT USING (auth.uid() = user_id);
+CREATE POLICY "Admins can view all recurring buy runs" ON public.recurring_buy_runs
+  FOR SELECT USING (public.is_admin(auth.uid()));
+
+CREATE TRIGGER update_recurring_buys_updated_at
+  BEFORE UPDATE ON public.recurring_buys
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Tokens a market buy of _quote KES (before fee) gets right now. Inverts
+-- price_curve_trade: the curve cost is quadratic in size, the pool cost is
+-- quote * tokens / (quote_reserve + quote).
+CREATE OR REPLACE FUNCTION public.tokens_for_quote(_coin_id uuid, _quote numeric)
+RETURNS numeric
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+DECLARE
+  v_coin RECORD;
+  v_curve_spot numeric;
+  v_anchor numeric := 1;
+  v_scaled numeric;
+  v_a numeric;
+  v_b numeric;
+BEGIN
+  SELECT * INTO v_coin FROM public.coins WHERE id = _coin_id;
+  IF NOT FOUND OR _quote IS NULL OR _quote <= 0 THEN RETURN 0; END IF;
+
+  IF v_coin.is_graduated THEN
+    RETURN v_coin.pool_token_reserve * _quote / (v_coin.pool_quote_reserve + _quote);
+  END IF;
+
+  v_curve_spot := public.calculate_bonding_price(v_coin.initial_price, v_coin.bonding_curve_factor, v_coin.circulating_supply);
+  IF v_curve_spot > 0 THEN
+    v_anchor := v_coin.price / v_curve_spot;
+  END IF;
+  IF v_coin.initial_price <= 0 OR v_anchor <= 0 THEN RETURN 0; END IF;
+
+  -- area = p0 * (d + k/2 * ((s + d)^2 - s^2)) = p0 * (k/2 * d^2 + (1 + k*s) * d)
+  v_scaled := _quote / (v_anchor * v_coin.initial_price);
+  v_a := COALESCE(v_coin.bonding_curve_factor, 0) / 2.0;
+  v_b := 1 + COALESCE(v_coin.bonding_curve_factor, 0) * v_coin.circulating_supply;
+  IF v_a = 0 THEN
+    RETURN v_scaled / v_b;
+  END IF;
+  RETURN (sqrt(v_b * v_b + 4 * v_a * v_scaled) - v_b) / (2 * v_a);
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.create_recurring_buy(_coin_id uuid, _amount_kes numeric, _frequency text)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+DECLARE
+  v_user_id uuid := auth.uid();
+  v_coin RECORD;
+  v_settings RECORD;
+  v_plan_id uuid;
+BEGIN
+  IF v_user_id IS NULL THEN RAISE EXCEPTION 'Not authenticated'; END IF;
+  IF _frequency NOT IN ('daily', 'weekly') THEN RAISE EXCEPTION 'Invalid frequency'; END IF;
+  IF _amount_kes IS NULL OR _amount_kes <= 0 THEN RAISE EXCEPTION 'Amount must be greater than zero'; END IF;
+
+  SELECT * INTO v_coin FROM public.coins WHERE id = _coin_id;
+  IF NOT FOUND OR NOT v_coin.is_active OR NOT v_coin.is_approved THEN RAISE EXCEPTION 'Coin not found'; END IF;
+
+  SELECT min_buy_amount, max_buy_amount INTO v_settings FROM public.site_settings LIMIT 1;
+  IF _amount_kes < COALESCE(v_settings.min_buy_amount, 0) THEN
+    RAISE EXCEPTION 'Minimum buy is KES %', v_settings.min_buy_amount;
+  END IF;
+  IF COALESCE(v_settings.max_buy_amount, 0) > 0 AND _amount_kes > v_settings.max_buy_amount THEN
+    RAISE EXCEPTION 'Maximum buy is KES %', v_settings.max_buy_amount;
+  END IF;
+
+  INSERT INTO public.recurring_buys (user_id, coin_id, amount_kes, frequency, next_run_at)
+    VALUES (v_user_id, _coin_id, _amount_kes, _frequency, now())
+    RETURNING id INTO v_plan_id;
+
+  RETURN jsonb_build_object('ok', true, 'plan_id', v_plan_id);
+END;
+$$;
+
+-- Pause, resume or cancel. Resuming schedules the next run from now rather
+-- than catching up on the runs missed while paused.
+CREATE OR REPLACE FUNCTION public.set_recurring_buy_status(_plan_id uuid, _status text)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+DECLARE
+  v_plan RECORD;
+BEGIN
+  IF _status NOT IN ('active', 'paused', 'cancelled') THEN RAISE EXCEPTION 'Invalid status'; END IF;
+
+  SELECT * INTO v_plan FROM public.recurring_buys WHERE id = _plan_id FOR UPDATE;
+  IF NOT FOUND OR v_plan.user_id <> auth.uid() THEN RAISE EXCEPTION 'Plan not found'; END IF;
+  IF v_plan.status = 'cancelled' THEN RAISE EXCEPTION 'Plan has been cancelled'; END IF;
+
+  UPDATE public.recurring_buys
+    SET status = _status,
+        next_run_at = CASE WHEN _status = 'active' AND v_plan.status = 'paused'
+                           THEN GREATEST(v_plan.next_run_at, now()) ELSE next_run_at END
+    WHERE id = _plan_id;
+
+  RETURN jsonb_build_object('ok', true, 'plan_id', _plan_id, 'status', _status);
+END;
+$$;
+
+-- Runs one due plan. Never raises: the outcome is recorded on the plan and in
+-- recurring_buy_runs, and the schedule always advances so a plan that cannot
+-- fill is retried next period rather than every minute.
+CREATE OR REPLACE FUNCTION public.execute_recurring_buy(_plan_id uuid)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+DECLARE
+  v_plan RECORD;
+  v_coin RECORD;
+  v_settings RECORD;
+  v_balance numeric;
+  v_quote numeric;
+  v_tokens numeric;
+  v_result text;
+  v_reason text;
+  v_trade jsonb;
+  v_next timestamptz;
+BEGIN
+  SELECT * INTO v_plan FROM public.recurring_buys WHERE id = _plan_id FOR UPDATE;
+  IF NOT FOUND OR v_plan.status <> 'active' OR v_plan.next_run_at > now() THEN
+    RETURN jsonb_build_object('ok', true, 'plan_id', _plan_id, 'result', 'not_due');
+  END IF;
+
+  v_next := v_plan.next_run_at + CASE v_plan.frequency WHEN 'weekly' THEN interval '7 days' ELSE interval '1 day' END;
+  IF v_next <= now() THEN
+    -- Missed runs (e.g. downtime) are not back-filled
+    v_next := now() + CASE v_plan.frequency WHEN 'weekly' THEN interval '7 days' ELSE interval '1 day' END;
+  END IF;
+
+  SELECT * INTO v_coin FROM public.coins WHERE id = v_plan.coin_id;
+  SELECT fee_percentage, min_buy_amount, max_buy_amount INTO v_settings FROM public.site_settings LIMIT 1;
+  SELECT fiat_balance INTO v_balance FROM public.wallets WHERE user_id = v_plan.user_id;
+
+  IF NOT FOUND OR v_coin.id IS NULL OR NOT v_coin.is_active THEN
+    v_result := 'failed';
+    v_reason := CASE WHEN v_coin.id IS NULL OR NOT v_coin.is_active THEN 'Coin is no longer listed' ELSE 'Wallet not found' END;
+  ELSIF v_coin.trading_paused THEN
+    v_result := 'skipped';
+    v_reason := 'Trading paused for this coin';
+  ELSIF v_plan.amount_kes < COALESCE(v_settings.min_buy_amount, 0) THEN
+    v_result := 'failed';
+    v_reason := format('Below the minimum buy of KES %s', v_settings.min_buy_amount);
+  ELSIF COALESCE(v_settings.max_buy_amount, 0) > 0 AND v_plan.amount_kes > v_settings.max_buy_amount THEN
+    v_result := 'failed';
+    v_reason := format('Above the maximum buy of KES %s', v_settings.max_buy_amount);
+  ELSIF COALESCE(v_balance, 0) < v_plan.amount_kes THEN
+    v_result := 'skipped';
+    v_reason := format('Insufficient wallet balance (KES %s available)', round(COALESCE(v_balance, 0), 2));
+  END IF;
+
+  IF v_result IS NULL THEN
+    v_quote := v_plan.amount_kes / (1 + COALESCE(v_settings.fee_percentage, 0) / 100.0);
+    v_tokens := public.tokens_for_quote(v_plan.coin_id, v_quote);
+    IF v_tokens <= 0 THEN
+      v_result := 'failed';
+      v_reason := 'Unable to price this buy';
+    ELSE
+      BEGIN
+        v_trade := public.execute_trade(v_plan.user_id, v_plan.coin_id, 'buy', v_tokens, true, false);
+        v_result := 'filled';
+      EXCEPTION WHEN OTHERS THEN
+        v_result := CASE WHEN SQLERRM LIKE 'Insufficient wallet balance%' THEN 'skipped' ELSE 'failed' END;
+        v_reason := SQLERRM;
+      END;
+    END IF;
+  END IF;
+
+  INSERT INTO public.recurring_buy_runs
+    (plan_id, user_id, coin_id, result, amount_kes, coins_bought, executed_price, transaction_id, reason)
+    VALUES (
+      v_plan.id, v_plan.user_id, v_plan.coin_id, v_result,
+      CASE WHEN v_result = 'filled' THEN (v_trade->>'total_value')::numeric + (v_trade->>'fee')::numeric ELSE v_plan.amount_kes END,
+      CASE WHEN v_result = 'filled' THEN v_tokens END,
+      CASE WHEN v_result = 'filled' THEN (v_trade->>'executed_price')::numeric END,
+      CASE WHEN v_result = 'filled' THEN (v_trade->>'transaction_id')::uuid END,
+      v_reason
+    );
+
+  UPDATE public.recurring_buys
+    SET next_run_at = v_next,
+        last_run_at = now(),
+        last_result = v_result,
+        last_error = v_reason,
+        fills_count = fills_count + CASE WHEN v_result = 'filled' THEN 1 ELSE 0 END,
+        total_spent = total_spent + CASE WHEN v_result = 'filled'
+                                         THEN (v_trade->>'total_value')::numeric + (v_trade->>'fee')::numeric ELSE 0 END,
+        total_bought = total_bought + CASE WHEN v_result = 'filled' THEN v_tokens ELSE 0 END
+    WHERE id = v_plan.id;
+
+  RETURN jsonb_build_object(
+    'ok', true,
+    'plan_id', v_plan.id,
+    'result', v_result,
+    'reason', v_reason,
+    'coins_bought', CASE WHEN v_result = 'filled' THEN v_tokens END,
+    'executed_price', v_trade->>'executed_price',
+    'amount_kes', v_plan.amount_kes,
+    'next_run_at', v_next
+  );
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.tokens_for_quote(uuid, numeric) FROM anon, authenticated, public;
+REVOKE EXECUTE ON FUNCTION public.execute_recurring_buy(uuid) FROM anon, authenticated, public;
+GRANT EXECUTE ON FUNCTION public.execute_recurring_buy(uuid) TO service_role;
+REVOKE EXECUTE ON FUNCTION public.create_recurring_buy(uuid, numeric, text) FROM anon, public;
+REVOKE EXECUTE ON FUNCTION public.set_recurring_buy_status(uuid, text) FROM anon, public;
+GRANT EXECUTE ON FUNCTION public.create_recurring_buy(uuid, numeric, text) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.set_recurring_buy_status(uuid, text) TO authenticated;
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_publication_tables
+    WHERE pubname = 'supabase_realtime' AND schemaname = 'public' AND tablename = 'recurring_buys'
+  ) THEN
+    ALTER PUBLICATION supabase_realtime ADD TABLE public.recurring_buys;
+  END IF;
+END $$;
+
+ALTER TABLE public.recurring_buys REPLICA IDENTITY FULL;
+
+INSERT INTO public.notification_templates
+  (name, slug, category, subject, email_body, sms_body, whatsapp_body,
+   is_email_enabled, is_sms_enabled, is_whatsapp_enabled, variables)
+VALUES
+  ('Recurring Buy Filled', 'recurring_buy_filled', 'trading',
+   'Your recurring {{coin_symbol}} buy went through',
+   '<p>Hi {{user_name}},</p><p>Your {{frequency}} buy of <strong>{{coin_symbol}}</strong> filled: {{amount}} {{coin_symbol}} for KES {{amount_kes}} at KES {{executed_price}}.</p><p>Next buy: {{next_run}}.</p>',
+   '{{site_name}}: recurring buy filled, {{amount}} {{coin_symbol}} for KES {{amount_kes}}. Next: {{next_run}}.',
+   '{{site_name}}: recurring buy filled, {{amount}} {{coin_symbol}} for KES {{amount_kes}}. Next: {{next_run}}.',
+   true, false, false,
+   ARRAY['user_name', 'site_name', 'coin_symbol', 'frequency', 'amount', 'amount_kes', 'executed_price', 'next_run']),
+  ('Recurring Buy Skipped', 'recurring_buy_skipped', 'trading',
+   'Your recurring {{coin_symbol}} buy was skipped',
+   '<p>Hi {{user_name}},</p><p>Your {{frequency}} KES {{amount_kes}} buy of <strong>{{coin_symbol}}</strong> was skipped: {{reason}}.</p><p>We will try again on {{next_run}}.</p>',
+   '{{site_name}}: recurring {{coin_symbol}} buy skipped: {{reason}}. Next try: {{next_run}}.',
+   '{{site_name}}: recurring {{coin_symbol}} buy skipped: {{reason}}. Next try: {{next_run}}.',
+   true, false, false,
+   ARRAY['user_name', 'site_name', 'coin_symbol', 'frequency', 'amount_kes', 'reason', 'next_run']),
+  ('Recurring Buy Failed', 'recurring_buy_failed', 'trading',
+   'Your recurring {{coin_symbol}} buy failed',
+   '<p>Hi {{user_name}},</p><p>Your {{frequency}} KES {{amount_kes}} buy of <strong>{{coin_symbol}}</strong> could not be completed: {{reason}}.</p><p>We will try again on {{next_run}}.</p>',
+   '{{site_name}}: recurring {{coin_symbol}} buy failed: {{reason}}. Next try: {{next_run}}.',
+   '{{site_name}}: recurring {{coin_symbol}} buy failed: {{reason}}. Next try: {{next_run}}.',
+   true, false, false,
+   ARRAY['user_name', 'site_name', 'coin_symbol', 'frequency', 'amount_kes', 'reason', 'next_run'])
+ON CONFLICT (slug) DO NOTHING;
+
+SELECT cron.schedule(
+  'process-recurring-buys',
+  '*/5 * * * *',
+  $$
+  SELECT net.http_post(
+    url := 'https://dkuprgiaymljdjatixlc.supabase.co/functions/v1/process-recurring-buys',
+    headers := '{"Content-Type": "application/json"}'::jsonb,
+    body := '{}'::jsonb
+  );
+  $$
+);
@@ -0,0 +1,255 @@
+-- Lot-level cost basis. Every completed buy opens a tax lot; every completed
+-- sell consumes open lots oldest-first and records its realized result under
+-- both FIFO and average-cost accounting so the report can switch methods
+-- without replaying history. Fees stay in commission_transactions and are
+-- reported alongside rather than folded into the basis.
+CREATE TABLE IF NOT EXISTS public.tax_lots (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid NOT NULL,
+  coin_id uuid NOT NULL REFERENCES public.coins(id) ON DELETE CASCADE,
+  transaction_id uuid NOT NULL UNIQUE REFERENCES public.transactions(id) ON DELETE CASCADE,
+  opened_at timestamptz NOT NULL,
+  amount numeric NOT NULL CHECK (amount > 0),
+  remaining numeric NOT NULL CHECK (remaining >= 0),
+  cost_per_coin numeric NOT NULL,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_tax_lots_open
+  ON public.tax_lots (user_id, coin_id, opened_at)
+  WHERE remaining > 0;
+
+CREATE TABLE IF NOT EXISTS public.realized_trades (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid NOT NULL,
+  coin_id uuid NOT NULL REFERENCES public.coins(id) ON DELETE CASCADE,
+  transaction_id uuid NOT NULL UNIQUE REFERENCES public.transactions(id) ON DELETE CASCADE,
+  closed_at timestamptz NOT NULL,
+  amount numeric NOT NULL,
+  -- Portion of the sell covered by recorded lots; the rest has no known cost
+  matched_amount numeric NOT NULL DEFAULT 0,
+  proceeds numeric NOT NULL,
+  fifo_cost_basis numeric NOT NULL DEFAULT 0,
+  avg_cost_basis numeric NOT NULL DEFAULT 0,
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_realized_trades_user
+  ON public.realized_trades (user_id, coin_id, closed_at DESC);
+
+CREATE TABLE IF NOT EXISTS public.tax_lot_closures (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  realized_trade_id uuid NOT NULL REFERENCES public.realized_trades(id) ON DELETE CASCADE,
+  lot_id uuid NOT NULL REFERENCES public.tax_lots(id) ON DELETE CASCADE,
+  user_id uuid NOT NULL,
+  amount numeric NOT NULL,
+  cost_per_coin numeric NOT NULL,
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_tax_lot_closures_trade
+  ON public.tax_lot_closures (realized_trade_id);
+
+ALTER TABLE public.tax_lots ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.realized_trades ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.tax_lot_closures ENABLE ROW LEVEL SECURITY;
+
+-- Maintained by trigger only
+CREATE POLICY "Users can view their own tax lots" ON public.tax_lots
+  FOR SELECT USING (auth.uid() = user_id);
+CREATE POLICY "Admins can view all tax lots" ON public.tax_lots
+  FOR SELECT USING (public.is_admin(auth.uid()));
+CREATE POLICY "Users can view their own realized trades" ON public.realized_trades
+  FOR SELECT USING (auth.uid() = user_id);
+CREATE POLICY "Admins can view all realized trades" ON public.realized_trades
+  FOR SELECT USING (public.is_admin(auth.uid()));
+CREATE POLICY "Users can view their own tax lot closures" ON public.tax_lot_closures
+  FOR SELECT USING (auth.uid() = user_id);
+CREATE POLICY "Admins can view all tax lot closures" ON public.tax_lot_closures
+  FOR SELECT USING (public.is_admin(auth.uid()));
+
+CREATE TRIGGER update_tax_lots_updated_at
+  BEFORE UPDATE ON public.tax_lots
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Applies one completed buy or sell to the ledger. Safe to call repeatedly:
+-- a transaction that already has a lot or realized row is ignored.
+CREATE OR REPLACE FUNCTION public.record_tax_lots(_transaction_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+DECLARE
+  v_tx RECORD;
+  v_lot RECORD;
+  v_realized_id uuid;
+  v_open numeric;
+  v_avg_cost numeric := 0;
+  v_left numeric;
+  v_take numeric;
+  v_fifo numeric := 0;
+BEGIN
+  SELECT * INTO v_tx FROM public.transactions WHERE id = _transaction_id;
+  IF NOT FOUND OR v_tx.status <> 'completed' OR v_tx.type NOT IN ('buy', 'sell') OR v_tx.amount <= 0 THEN
+    RETURN;
+  END IF;
+
+  IF v_tx.type = 'buy' THEN
+    INSERT INTO public.tax_lots (user_id, coin_id, transaction_id, opened_at, amount, remaining, cost_per_coin)
+      VALUES (v_tx.user_id, v_tx.coin_id, v_tx.id, v_tx.created_at, v_tx.amount, v_tx.amount, v_tx.price_per_coin)
+      ON CONFLICT (transaction_id) DO NOTHING;
+    RETURN;
+  END IF;
+
+  IF EXISTS (SELECT 1 FROM public.realized_trades WHERE transaction_id = v_tx.id) THEN
+    RETURN;
+  END IF;
+
+  -- Average cost: what is left of total buy cost after earlier sells, spread
+  -- over the coins still held
+  SELECT COALESCE(SUM(remaining), 0) INTO v_open
+    FROM public.tax_lots WHERE user_id = v_tx.user_id AND coin_id = v_tx.coin_id;
+  IF v_open > 0 THEN
+    SELECT (
+      COALESCE((SELECT SUM(amount * cost_per_coin) FROM public.tax_lots
+                 WHERE user_id = v_tx.user_id AND coin_id = v_tx.coin_id), 0)
+      - COALESCE((SELECT SUM(avg_cost_basis) FROM public.realized_trades
+                   WHERE user_id = v_tx.user_id AND coin_id = v_tx.coin_id), 0)
+    ) / v_open INTO v_avg_cost;
+  END IF;
+
+  INSERT INTO public.realized_trades (user_id, coin_id, transaction_id, closed_at, amount, proceeds)
+    VALUES (v_tx.user_id, v_tx.coin_id, v_tx.id, v_tx.created_at, v_tx.amount, v_tx.total_value)
+    RETURNING id INTO v_realized_id;
+
+  v_left := v_tx.amount;
+  FOR v_lot IN
+    SELECT * FROM public.tax_lots
+      WHERE user_id = v_tx.user_id AND coin_id = v_tx.coin_id AND remaining > 0
+      ORDER BY opened_at, id
+      FOR UPDATE
+  LOOP
+    EXIT WHEN v_left <= 0;
+    v_take := LEAST(v_left, v_lot.remaining);
+    UPDATE public.tax_lots SET remaining = remaining - v_take WHERE id = v_lot.id;
+    INSERT INTO public.tax_lot_closures (realized_trade_id, lot_id, user_id, amount, cost_per_coin)
+      VALUES (v_realized_id, v_lot.id, v_tx.user_id, v_take, v_lot.cost_per_coin);
+    v_fifo := v_fifo + v_take * v_lot.cost_per_coin;
+    v_left := v_left - v_take;
+  END LOOP;
+
+  UPDATE public.realized_trades
+    SET matched_amount = v_tx.amount - v_left,
+        fifo_cost_basis = v_fifo,
+        avg_cost_basis = GREATEST(0, (v_tx.amount - v_left) * v_avg_cost)
+    WHERE id = v_realized_id;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.apply_transaction_to_tax_lots()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+BEGIN
+  IF NEW.status = 'completed' AND (TG_OP = 'INSERT' OR OLD.status IS DISTINCT FROM 'completed') THEN
+    PERFORM public.record_tax_lots(NEW.id);
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS apply_transaction_to_tax_lots ON public.transactions;
+CREATE TRIGGER apply_transaction_to_tax_lots
+  AFTER INSERT OR UPDATE OF status ON public.transactions
+  FOR EACH ROW EXECUTE FUNCTION public.apply_transaction_to_tax_lots();
+
+-- Per-coin P&L for the signed-in user. _method is 'fifo' or 'average'.
+-- Realized and unrealized figures are before fees; fees_paid covers every
+-- buy and sell in the coin.
+CREATE OR REPLACE FUNCTION public.get_pnl_summary(_method text DEFAULT 'fifo')
+RETURNS TABLE (
+  coin_id uuid,
+  symbol text,
+  name text,
+  logo_url text,
+  price numeric,
+  amount numeric,
+  cost_basis numeric,
+  market_value numeric,
+  unrealized_pnl numeric,
+  realized_pnl numeric,
+  fees_paid numeric
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+  WITH lots AS (
+    SELECT l.coin_id,
+           SUM(l.remaining) AS open_amount,
+           SUM(l.remaining * l.cost_per_coin) AS fifo_basis,
+           SUM(l.amount * l.cost_per_coin) AS bought_cost
+      FROM public.tax_lots l
+     WHERE l.user_id = auth.uid()
+     GROUP BY l.coin_id
+  ), sells AS (
+    SELECT r.coin_id,
+           SUM(r.proceeds) AS proceeds,
+           SUM(r.fifo_cost_basis) AS fifo_sold,
+           SUM(r.avg_cost_basis) AS avg_sold
+      FROM public.realized_trades r
+     WHERE r.user_id = auth.uid()
+     GROUP BY r.coin_id
+  ), fees AS (
+    SELECT t.coin_id, SUM(ct.amount) AS fees
+      FROM public.transactions t
+      JOIN public.commission_transactions ct ON ct.transaction_id = t.id
+     WHERE t.user_id = auth.uid() AND t.status = 'completed' AND t.type IN ('buy', 'sell')
+     GROUP BY t.coin_id
+  ), positions AS (
+    SELECT c.id AS coin_id, c.symbol, c.name, c.logo_url, c.price,
+           COALESCE(l.open_amount, 0) AS amount,
+           CASE WHEN _method = 'average'
+                THEN GREATEST(0, COALESCE(l.bought_cost, 0) - COALESCE(s.avg_sold, 0))
+                ELSE COALESCE(l.fifo_basis, 0) END AS cost_basis,
+           COALESCE(s.proceeds, 0)
+             - CASE WHEN _method = 'average' THEN COALESCE(s.avg_sold, 0) ELSE COALESCE(s.fifo_sold, 0) END AS realized_pnl,
+           COALESCE(f.fees, 0) AS fees_paid
+      FROM public.coins c
+      LEFT JOIN lots l ON l.coin_id = c.id
+      LEFT JOIN sells s ON s.coin_id = c.id
+      LEFT JOIN fees f ON f.coin_id = c.id
+     WHERE l.coin_id IS NOT NULL OR s.coin_id IS NOT NULL
+  )
+  SELECT p.coin_id, p.symbol, p.name, p.logo_url, p.price, p.amount, p.cost_basis,
+         p.amount * p.price AS market_value,
+         p.amount * p.price - p.cost_basis AS unrealized_pnl,
+         p.realized_pnl,
+         p.fees_paid
+    FROM positions p
+   ORDER BY p.amount * p.price DESC, p.symbol;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.record_tax_lots(uuid) FROM anon, authenticated, public;
+GRANT EXECUTE ON FUNCTION public.record_tax_lots(uuid) TO service_role;
+REVOKE EXECUTE ON FUNCTION public.get_pnl_summary(text) FROM anon, public;
+GRANT EXECUTE ON FUNCTION public.get_pnl_summary(text) TO authenticated;
+
+-- Backfill from existing history in execution order
+DO $$
+DECLARE
+  v_tx RECORD;
+BEGIN
+  FOR v_tx IN
+    SELECT id FROM public.transactions
+     WHERE status = 'completed' AND type IN ('buy', 'sell')
+     ORDER BY created_at, id
+  LOOP
+    PERFORM public.record_tax_lots(v_tx.id);
+  END LOOP;
+END $$;
@@ -0,0 +1,177 @@
+-- Account statements. Wallet balances were only ever stored as a current
+-- value, so every change is now journaled to wallet_ledger to give statements
+-- an opening and closing balance. Existing wallets get a zero-delta snapshot
+-- row; periods before it fall back to the earliest known balance.
+CREATE TABLE IF NOT EXISTS public.wallet_ledger (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid NOT NULL,
+  delta numeric NOT NULL,
+  balance_after numeric NOT NULL,
+  -- clock_timestamp keeps several changes in one transaction in order
+  created_at timestamptz NOT NULL DEFAULT clock_timestamp()
+);
+
+CREATE INDEX IF NOT EXISTS idx_wallet_ledger_user
+  ON public.wallet_ledger (user_id, created_at);
+
+ALTER TABLE public.wallet_ledger ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own wallet ledger" ON public.wallet_ledger
+  FOR SELECT USING (auth.uid() = user_id);
+CREATE POLICY "Admins can view all wallet ledger entries" ON public.wallet_ledger
+  FOR SELECT USING (public.is_admin(auth.uid()));
+
+CREATE OR REPLACE FUNCTION public.journal_wallet_balance()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+DECLARE
+  v_delta numeric := NEW.fiat_balance - CASE WHEN TG_OP = 'INSERT' THEN 0 ELSE COALESCE(OLD.fiat_balance, 0) END;
+BEGIN
+  IF v_delta <> 0 THEN
+    INSERT INTO public.wallet_ledger (user_id, delta, balance_after)
+      VALUES (NEW.user_id, v_delta, NEW.fiat_balance);
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS journal_wallet_balance ON public.wallets;
+CREATE TRIGGER journal_wallet_balance
+  AFTER INSERT OR UPDATE OF fiat_balance ON public.wallets
+  FOR EACH ROW EXECUTE FUNCTION public.journal_wallet_balance();
+
+INSERT INTO public.wallet_ledger (user_id, delta, balance_after)
+  SELECT user_id, 0, fiat_balance FROM public.wallets;
+
+CREATE OR REPLACE FUNCTION public.wallet_balance_at(_user_id uuid, _at timestamptz)
+RETURNS numeric
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+  SELECT COALESCE(
+    (SELECT balance_after FROM public.wallet_ledger
+      WHERE user_id = _user_id AND created_at <= _at
+      ORDER BY created_at DESC LIMIT 1),
+    (SELECT balance_after - delta FROM public.wallet_ledger
+      WHERE user_id = _user_id
+      ORDER BY created_at LIMIT 1),
+    0
+  );
+$$;
+
+ALTER TABLE public.profiles
+  ADD COLUMN IF NOT EXISTS statement_email_enabled boolean NOT NULL DEFAULT false;
+
+-- Everything that moved money for a user between _from and _to. Users get
+-- their own statement; the monthly mailer calls it as service_role with
+-- _user_id set.
+CREATE OR REPLACE FUNCTION public.get_account_statement(_from timestamptz, _to timestamptz, _user_id uuid DEFAULT NULL)
+RETURNS jsonb
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+DECLARE
+  v_user_id uuid := COALESCE(_user_id, auth.uid());
+  v_site RECORD;
+  v_profile RECORD;
+  v_entries jsonb;
+BEGIN
+  IF v_user_id IS NULL THEN RAISE EXCEPTION 'Not authenticated'; END IF;
+  IF auth.uid() IS NOT NULL AND v_user_id <> auth.uid() AND NOT public.is_admin(auth.uid()) THEN
+    RAISE EXCEPTION 'Not authorized';
+  END IF;
+  IF _from IS NULL OR _to IS NULL OR _to < _from THEN RAISE EXCEPTION 'Invalid statement period'; END IF;
+
+  SELECT site_name, logo_url INTO v_site FROM public.site_settings LIMIT 1;
+  SELECT full_name, email, phone INTO v_profile FROM public.profiles WHERE user_id = v_user_id;
+
+  WITH entries AS (
+    SELECT t.created_at AS occurred_at,
+           t.type AS category,
+           initcap(t.type) || ' ' || c.symbol AS description,
+           COALESCE(t.mpesa_receipt, t.id::text) AS reference,
+           t.amount AS quantity,
+           t.price_per_coin AS price,
+           t.total_value AS value,
+           COALESCE(ct.amount, 0) AS fee,
+           CASE WHEN t.type = 'buy' THEN -(t.total_value + COALESCE(ct.amount, 0))
+                ELSE t.total_value - COALESCE(ct.amount, 0) END AS net
+      FROM public.transactions t
+      JOIN public.coins c ON c.id = t.coin_id
+      LEFT JOIN (
+        SELECT transaction_id, SUM(amount) AS amount
+          FROM public.commission_transactions GROUP BY transaction_id
+      ) ct ON ct.transaction_id = t.id
+     WHERE t.user_id = v_user_id AND t.status = 'completed' AND t.type IN ('buy', 'sell')
+       AND t.created_at >= _from AND t.created_at < _to
+    UNION ALL
+    SELECT pr.created_at, 'deposit', 'M-Pesa deposit', COALESCE(pr.mpesa_receipt, pr.id::text),
+           NULL, NULL, pr.amount, 0, pr.amount
+      FROM public.payment_requests pr
+     WHERE pr.user_id = v_user_id AND pr.type = 'deposit' AND pr.status = 'completed'
+       AND pr.created_at >= _from AND pr.created_at < _to
+    UNION ALL
+    SELECT w.created_at, 'withdrawal', 'Withdrawal to ' || w.phone || ' (' || w.status || ')',
+           COALESCE(w.mpesa_receipt, w.id::text),
+           NULL, NULL, w.amount, w.fee_amount, -w.amount
+      FROM public.wallet_withdrawals w
+     WHERE w.user_id = v_user_id AND w.status NOT IN ('rejected', 'failed')
+       AND w.created_at >= _from AND w.created_at < _to
+    UNION ALL
+    SELECT rc.created_at, 'referral', 'Referral commission', rc.transaction_id::text,
+           NULL, NULL, rc.amount, 0, rc.amount
+      FROM public.referral_commissions rc
+      JOIN public.referrals r ON r.id = rc.referral_id
+     WHERE r.referrer_id = v_user_id
+       AND rc.created_at >= _from AND rc.created_at < _to
+  )
+  SELECT COALESCE(jsonb_agg(to_jsonb(e) ORDER BY e.occurred_at), '[]'::jsonb)
+    INTO v_entries
+    FROM entries e;
+
+  RETURN jsonb_build_object(
+    'site', jsonb_build_object('name', COALESCE(v_site.site_name, 'Platform'), 'logo_url', v_site.logo_url),
+    'account', jsonb_build_object('name', v_profile.full_name, 'email', v_profile.email, 'phone', v_profile.phone),
+    'period', jsonb_build_object('from', _from, 'to', _to),
+    'generated_at', now(),
+    'opening_balance', public.wallet_balance_at(v_user_id, _from),
+    'closing_balance', public.wallet_balance_at(v_user_id, _to),
+    'entries', v_entries,
+    'totals', (
+      SELECT jsonb_build_object(
+        'bought', COALESCE(SUM((e->>'value')::numeric) FILTER (WHERE e->>'category' = 'buy'), 0),
+        'sold', COALESCE(SUM((e->>'value')::numeric) FILTER (WHERE e->>'category' = 'sell'), 0),
+        'deposits', COALESCE(SUM((e->>'value')::numeric) FILTER (WHERE e->>'category' = 'deposit'), 0),
+        'withdrawals', COALESCE(SUM((e->>'value')::numeric) FILTER (WHERE e->>'category' = 'withdrawal'), 0),
+        'referral_commissions', COALESCE(SUM((e->>'value')::numeric) FILTER (WHERE e->>'category' = 'referral'), 0),
+        'fees', COALESCE(SUM((e->>'fee')::numeric), 0)
+      )
+      FROM jsonb_array_elements(v_entries) e
+    )
+  );
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.wallet_balance_at(uuid, timestamptz) FROM anon, authenticated, public;
+REVOKE EXECUTE ON FUNCTION public.get_account_statement(timestamptz, timestamptz, uuid) FROM anon, public;
+GRANT EXECUTE ON FUNCTION public.get_account_statement(timestamptz, timestamptz, uuid) TO authenticated, service_role;
+
+-- Previous month's statement for everyone who opted in, on the 1st at 06:00 UTC
+SELECT cron.schedule(
+  'send-monthly-statements',
+  '0 6 1 * *',
+  $$
+  SELECT net.http_post(
+    url := 'https://dkuprgiaymljdjatixlc.supabase.co/functions/v1/send-monthly-statements',
+    headers := '{"Content-Type": "application/json"}'::jsonb,
+    body := '{}'::jsonb
+  );
+  $$
+);
@@ -0,0 +1,208 @@
+-- Volatility circuit breakers. A trip sets coins.trading_paused, which
+-- execute_trade, quote_trade, match_limit_order and the M-Pesa flow already
+-- refuse, and records why on the coin and in circuit_breaker_trips. With
+-- auto-resume on, circuit_breaker_until marks when process-circuit-breakers
+-- lifts the halt; otherwise it stays paused until an admin resumes trading.
+ALTER TABLE public.site_settings
+  ADD COLUMN IF NOT EXISTS circuit_breaker_enabled boolean NOT NULL DEFAULT false,
+  ADD COLUMN IF NOT EXISTS circuit_breaker_move_pct numeric NOT NULL DEFAULT 25,
+  ADD COLUMN IF NOT EXISTS circuit_breaker_window_minutes integer NOT NULL DEFAULT 15,
+  ADD COLUMN IF NOT EXISTS circuit_breaker_cooldown_minutes integer NOT NULL DEFAULT 30,
+  ADD COLUMN IF NOT EXISTS circuit_breaker_wallet_share_pct numeric NOT NULL DEFAULT 60,
+  -- Concentration is only judged once the window has this much volume
+  ADD COLUMN IF NOT EXISTS circuit_breaker_min_volume numeric NOT NULL DEFAULT 50000,
+  ADD COLUMN IF NOT EXISTS circuit_breaker_auto_resume boolean NOT NULL DEFAULT true;
+
+ALTER TABLE public.coins
+  ADD COLUMN IF NOT EXISTS circuit_breaker_reason text,
+  ADD COLUMN IF NOT EXISTS circuit_breaker_until timestamptz;
+
+CREATE TABLE IF NOT EXISTS public.circuit_breaker_trips (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  coin_id uuid NOT NULL REFERENCES public.coins(id) ON DELETE CASCADE,
+  reason text NOT NULL CHECK (reason IN ('price_move', 'wallet_concentration')),
+  message text NOT NULL,
+  move_pct numeric,
+  wallet_share_pct numeric,
+  wallet_user_id uuid,
+  window_minutes integer NOT NULL,
+  window_volume numeric NOT NULL DEFAULT 0,
+  resumes_at timestamptz,
+  resolved_at timestamptz,
+  resolved_by uuid,
+  notified_at timestamptz,
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_circuit_breaker_trips_coin
+  ON public.circuit_breaker_trips (coin_id, created_at DESC);
+
+CREATE INDEX IF NOT EXISTS idx_circuit_breaker_trips_unnotified
+  ON public.circuit_breaker_trips (created_at)
+  WHERE notified_at IS NULL;
+
+ALTER TABLE public.circuit_breaker_trips ENABLE ROW LEVEL SECURITY;
+
+-- The public reason lives on coins; trips can name a wallet, so admins only
+CREATE POLICY "Admins can view circuit breaker trips" ON public.circuit_breaker_trips
+  FOR SELECT USING (public.is_admin(auth.uid()));
+
+-- Evaluates both rules for a coin after a trade tick and trips at most once
+CREATE OR REPLACE FUNCTION public.check_circuit_breaker(_coin_id uuid)
+RETURNS boolean
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+DECLARE
+  v_settings RECORD;
+  v_coin RECORD;
+  v_since timestamptz;
+  v_low numeric;
+  v_high numeric;
+  v_move numeric;
+  v_volume numeric;
+  v_top RECORD;
+  v_reason text;
+  v_message text;
+  v_share numeric;
+  v_until timestamptz;
+  v_prev_skip text;
+BEGIN
+  SELECT * INTO v_settings FROM public.site_settings LIMIT 1;
+  IF NOT COALESCE(v_settings.circuit_breaker_enabled, false) THEN RETURN false; END IF;
+
+  SELECT * INTO v_coin FROM public.coins WHERE id = _coin_id;
+  IF NOT FOUND OR v_coin.trading_paused THEN RETURN false; END IF;
+
+  v_since := now() - make_interval(mins => v_settings.circuit_breaker_window_minutes);
+
+  SELECT MIN(price), MAX(price) INTO v_low, v_high
+    FROM public.price_history
+   WHERE coin_id = _coin_id AND created_at >= v_since AND trade_type IN ('buy', 'sell');
+  v_move := CASE WHEN v_low > 0 THEN (v_high - v_low) / v_low * 100 ELSE 0 END;
+
+  SELECT COALESCE(SUM(total_value), 0) INTO v_volume
+    FROM public.transactions
+   WHERE coin_id = _coin_id AND status = 'completed' AND type IN ('buy', 'sell') AND created_at >= v_since;
+
+  IF v_move > v_settings.circuit_breaker_move_pct THEN
+    v_reason := 'price_move';
+    v_message := format('Price moved %s%% in %s minutes', round(v_move, 1), v_settings.circuit_breaker_window_minutes);
+  ELSIF v_volume >= v_settings.circuit_breaker_min_volume AND v_volume > 0 THEN
+    SELECT user_id, SUM(total_value) AS volume INTO v_top
+      FROM public.transactions
+     WHERE coin_id = _coin_id AND status = 'completed' AND type IN ('buy', 'sell') AND created_at >= v_since
+     GROUP BY user_id
+     ORDER BY SUM(total_value) DESC
+     LIMIT 1;
+    v_share := v_top.volume / v_volume * 100;
+    IF v_share > v_settings.circuit_breaker_wallet_share_pct THEN
+      v_reason := 'wallet_concentration';
+      v_message := format('One wallet made %s%% of volume in %s minutes', round(v_share, 1), v_settings.circuit_breaker_window_minutes);
+    END IF;
+  END IF;
+
+  IF v_reason IS NULL THEN RETURN false; END IF;
+
+  v_until := CASE WHEN v_settings.circuit_breaker_auto_resume
+                  THEN now() + make_interval(mins => v_settings.circuit_breaker_cooldown_minutes) END;
+
+  INSERT INTO public.circuit_breaker_trips
+    (coin_id, reason, message, move_pct, wallet_share_pct, wallet_user_id, window_minutes, window_volume, resumes_at)
+    VALUES (_coin_id, v_reason, v_message, v_move,
+            CASE WHEN v_reason = 'wallet_concentration' THEN v_share END,
+            CASE WHEN v_reason = 'wallet_concentration' THEN v_top.user_id END,
+            v_settings.circuit_breaker_window_minutes, v_volume, v_until);
+
+  -- Only the halt fields change; keep the curve trigger off the market price
+  v_prev_skip := current_setting('app.skip_price_trigger', true);
+  PERFORM set_config('app.skip_price_trigger', '1', true);
+  UPDATE public.coins
+    SET trading_paused = true,
+        circuit_breaker_reason = v_message,
+        circuit_breaker_until = v_until,
+        updated_at = now()
+    WHERE id = _coin_id;
+  PERFORM set_config('app.skip_price_trigger', COALESCE(v_prev_skip, '0'), true);
+
+  RETURN true;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.check_circuit_breaker_on_trade()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+BEGIN
+  IF NEW.trade_type IN ('buy', 'sell') THEN
+    PERFORM public.check_circuit_breaker(NEW.coin_id);
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS check_circuit_breaker_on_trade ON public.price_history;
+CREATE TRIGGER check_circuit_breaker_on_trade
+  AFTER INSERT ON public.price_history
+  FOR EACH ROW EXECUTE FUNCTION public.check_circuit_breaker_on_trade();
+
+-- Resuming a coin by hand (or by the cooldown) closes its open trip
+CREATE OR REPLACE FUNCTION public.clear_circuit_breaker_on_resume()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+BEGIN
+  IF OLD.trading_paused AND NOT NEW.trading_paused THEN
+    NEW.circuit_breaker_reason := NULL;
+    NEW.circuit_breaker_until := NULL;
+    UPDATE public.circuit_breaker_trips
+      SET resolved_at = now(), resolved_by = auth.uid()
+      WHERE coin_id = NEW.id AND resolved_at IS NULL;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS clear_circuit_breaker_on_resume ON public.coins;
+CREATE TRIGGER clear_circuit_breaker_on_resume
+  BEFORE UPDATE OF trading_paused ON public.coins
+  FOR EACH ROW EXECUTE FUNCTION public.clear_circuit_breaker_on_resume();
+
+-- Lifts halts whose cooldown has passed; returns the coins resumed
+CREATE OR REPLACE FUNCTION public.resume_circuit_breakers()
+RETURNS TABLE (coin_id uuid, symbol text)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+BEGIN
+  PERFORM set_config('app.skip_price_trigger', '1', true);
+  RETURN QUERY
+    UPDATE public.coins c
+       SET trading_paused = false, updated_at = now()
+     WHERE c.trading_paused AND c.circuit_breaker_until IS NOT NULL AND c.circuit_breaker_until <= now()
+    RETURNING c.id, c.symbol;
+  PERFORM set_config('app.skip_price_trigger', '0', true);
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.check_circuit_breaker(uuid) FROM anon, authenticated, public;
+REVOKE EXECUTE ON FUNCTION public.resume_circuit_breakers() FROM anon, authenticated, public;
+GRANT EXECUTE ON FUNCTION public.resume_circuit_breakers() TO service_role;
+
+SELECT cron.schedule(
+  'process-circuit-breakers',
+  '* * * * *',
+  $$
+  SELECT net.http_post(
+    url := 'https://dkuprgiaymljdjatixlc.supabase.co/functions/v1/process-circuit-breakers',
+    headers := '{"Content-Type": "application/json"}'::jsonb,
+    body := '{}'::jsonb
+  );
+  $$
+);
@@ -0,0 +1,391 @@
+-- Rolling anti-whale limits. Per-trade caps alone let a large buyer split an
+-- order into many small ones, so buys are also held to KES volume per rolling
+-- hour and day, a maximum share of supply held, and a minimum gap between
+-- trades, all per user and coin. Platform defaults live in site_settings
+-- (0 turns a limit off); a non-null value on the coin overrides the default,
+-- including 0 to lift it for that coin. Sells are never limited so exits and
+-- stop-losses always go through.
+--
+-- Rejections raise with the violation as JSON in DETAIL and its code in HINT,
+-- e.g. {"code": "HOURLY_VOLUME_LIMIT", "limit": 50000, "used": 42000,
+-- "retry_after_seconds": 1260}, so clients can explain them.
+ALTER TABLE public.site_settings
+  ADD COLUMN IF NOT EXISTS trade_limit_kes_per_hour numeric NOT NULL DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS trade_limit_kes_per_day numeric NOT NULL DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS trade_limit_max_holding_pct numeric NOT NULL DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS trade_limit_cooldown_seconds integer NOT NULL DEFAULT 0;
+
+ALTER TABLE public.coins
+  ADD COLUMN IF NOT EXISTS trade_limit_kes_per_hour numeric,
+  ADD COLUMN IF NOT EXISTS trade_limit_kes_per_day numeric,
+  ADD COLUMN IF NOT EXISTS trade_limit_max_holding_pct numeric,
+  ADD COLUMN IF NOT EXISTS trade_limit_cooldown_seconds integer;
+
+CREATE INDEX IF NOT EXISTS idx_transactions_user_coin_created
+  ON public.transactions (user_id, coin_id, created_at DESC);
+
+-- First limit a buy of _amount tokens costing _total_value (before fees)
+-- would break, or NULL when it is allowed.
+CREATE OR REPLACE FUNCTION public.trade_limit_violation(_user_id uuid, _coin_id uuid, _amount numeric, _total_value numeric)
+RETURNS jsonb
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+DECLARE
+  v_coin RECORD;
+  v_settings RECORD;
+  v_spend numeric;
+  v_max_buy numeric;
+  v_per_hour numeric;
+  v_per_day numeric;
+  v_max_holding_pct numeric;
+  v_cooldown integer;
+  v_last_trade_at timestamptz;
+  v_used numeric;
+  v_oldest timestamptz;
+  v_held numeric;
+BEGIN
+  SELECT * INTO v_coin FROM public.coins WHERE id = _coin_id;
+  IF NOT FOUND THEN RETURN NULL; END IF;
+
+  SELECT fee_percentage, min_buy_amount, max_buy_amount,
+         COALESCE(max_buy_supply_percentage, 25) AS max_buy_supply_percentage,
+         trade_limit_kes_per_hour, trade_limit_kes_per_day,
+         trade_limit_max_holding_pct, trade_limit_cooldown_seconds
+    INTO v_settings FROM public.site_settings LIMIT 1;
+
+  v_per_hour := COALESCE(v_coin.trade_limit_kes_per_hour, v_settings.trade_limit_kes_per_hour, 0);
+  v_per_day := COALESCE(v_coin.trade_limit_kes_per_day, v_settings.trade_limit_kes_per_day, 0);
+  v_max_holding_pct := COALESCE(v_coin.trade_limit_max_holding_pct, v_settings.trade_limit_max_holding_pct, 0);
+  v_cooldown := COALESCE(v_coin.trade_limit_cooldown_seconds, v_settings.trade_limit_cooldown_seconds, 0);
+
+  -- What the buyer pays, which is what recurring buys and the M-Pesa prompt use
+  v_spend := _total_value * (1 + COALESCE(v_settings.fee_percentage, 0) / 100.0);
+
+  IF COALESCE(v_settings.min_buy_amount, 0) > 0 AND v_spend < v_settings.min_buy_amount THEN
+    RETURN jsonb_build_object('code', 'MIN_BUY_AMOUNT',
+      'message', format('Minimum buy is KES %s', v_settings.min_buy_amount),
+      'limit', v_settings.min_buy_amount, 'used', round(v_spend, 2));
+  END IF;
+  IF COALESCE(v_settings.max_buy_amount, 0) > 0 AND _total_value > v_settings.max_buy_amount THEN
+    RETURN jsonb_build_object('code', 'MAX_BUY_AMOUNT',
+      'message', format('Maximum buy is KES %s per trade', v_settings.max_buy_amount),
+      'limit', v_settings.max_buy_amount, 'used', round(_total_value, 2));
+  END IF;
+
+  v_max_buy := GREATEST(0, COALESCE(v_coin.total_supply, 0) - COALESCE(v_coin.circulating_supply, 0))
+               * (v_settings.max_buy_supply_percentage / 100.0);
+  IF v_max_buy > 0 AND _amount > v_max_buy THEN
+    RETURN jsonb_build_object('code', 'MAX_SUPPLY_PER_TRADE',
+      'message', format('Single trade limited to %s percent of remaining supply (max %s)',
+                        v_settings.max_buy_supply_percentage, round(v_max_buy, 2)),
+      'limit', round(v_max_buy, 2), 'used', _amount);
+  END IF;
+
+  IF v_cooldown > 0 THEN
+    SELECT max(created_at) INTO v_last_trade_at FROM public.transactions
+      WHERE user_id = _user_id AND coin_id = _coin_id AND status = 'completed'
+        AND type IN ('buy', 'sell') AND created_at > now() - make_interval(secs => v_cooldown);
+    IF v_last_trade_at IS NOT NULL THEN
+      RETURN jsonb_build_object('code', 'TRADE_COOLDOWN',
+        'message', format('Wait %s seconds between trades of this coin', v_cooldown),
+        'limit', v_cooldown,
+        'retry_after_seconds', ceil(extract(epoch FROM v_last_trade_at + make_interval(secs => v_cooldown) - now())));
+    END IF;
+  END IF;
+
+  IF v_per_hour > 0 THEN
+    SELECT COALESCE(sum(total_value), 0), min(created_at) INTO v_used, v_oldest FROM public.transactions
+      WHERE user_id = _user_id AND coin_id = _coin_id AND type = 'buy' AND status = 'completed'
+        AND created_at > now() - interval '1 hour';
+    IF v_used + _total_value > v_per_hour THEN
+      RETURN jsonb_build_object('code', 'HOURLY_VOLUME_LIMIT',
+        'message', format('Hourly buy limit of KES %s reached for this coin (KES %s used)', v_per_hour, round(v_used, 2)),
+        'limit', v_per_hour, 'used', round(v_used, 2),
+        'retry_after_seconds', CASE WHEN v_oldest IS NOT NULL
+                                    THEN ceil(extract(epoch FROM v_oldest + interval '1 hour' - now())) END);
+    END IF;
+  END IF;
+
+  IF v_per_day > 0 THEN
+    SELECT COALESCE(sum(total_value), 0), min(created_at) INTO v_used, v_oldest FROM public.transactions
+      WHERE user_id = _user_id AND coin_id = _coin_id AND type = 'buy' AND status = 'completed'
+        AND created_at > now() - interval '1 day';
+    IF v_used + _total_value > v_per_day THEN
+      RETURN jsonb_build_object('code', 'DAILY_VOLUME_LIMIT',
+        'message', format('Daily buy limit of KES %s reached for this coin (KES %s used)', v_per_day, round(v_used, 2)),
+        'limit', v_per_day, 'used', round(v_used, 2),
+        'retry_after_seconds', CASE WHEN v_oldest IS NOT NULL
+                                    THEN ceil(extract(epoch FROM v_oldest + interval '1 day' - now())) END);
+    END IF;
+  END IF;
+
+  IF v_max_holding_pct > 0 AND COALESCE(v_coin.total_supply, 0) > 0 THEN
+    SELECT COALESCE(sum(amount), 0) INTO v_held FROM public.holdings
+      WHERE user_id = _user_id AND coin_id = _coin_id;
+    IF (v_held + _amount) / v_coin.total_supply * 100 > v_max_holding_pct THEN
+      RETURN jsonb_build_object('code', 'MAX_HOLDING_PCT',
+        'message', format('One account may hold at most %s%% of the supply', v_max_holding_pct),
+        'limit', v_max_holding_pct,
+        'used', round(v_held / v_coin.total_supply * 100, 4),
+        'max_amount', GREATEST(0, floor(v_coin.total_supply * v_max_holding_pct / 100 - v_held)));
+    END IF;
+  END IF;
+
+  RETURN NULL;
+END;
+$$;
+
+-- Pre-flight check before a buy is confirmed. It matters most for M-Pesa,
+-- where the money moves before execute_trade could refuse. Pass either a
+-- token _amount or the KES the buyer will pay, fees included.
+CREATE OR REPLACE FUNCTION public.check_trade_limits(
+  _coin_id uuid, _amount numeric DEFAULT NULL, _kes_amount numeric DEFAULT NULL, _user_id uuid DEFAULT NULL
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+DECLARE
+  v_user_id uuid := COALESCE(_user_id, auth.uid());
+  v_amount numeric := _amount;
+  v_fee_pct numeric;
+  v_total_value numeric;
+  v_violation jsonb;
+BEGIN
+  IF v_user_id IS NULL THEN RAISE EXCEPTION 'Not authenticated'; END IF;
+  IF auth.uid() IS NOT NULL AND v_user_id <> auth.uid() THEN
+    RAISE EXCEPTION 'Not authorized';
+  END IF;
+
+  IF v_amount IS NULL THEN
+    SELECT COALESCE(fee_percentage, 0) INTO v_fee_pct FROM public.site_settings LIMIT 1;
+    v_amount := public.tokens_for_quote(_coin_id, COALESCE(_kes_amount, 0) / (1 + COALESCE(v_fee_pct, 0) / 100.0));
+  END IF;
+  IF v_amount IS NULL OR v_amount <= 0 THEN
+    RETURN jsonb_build_object('ok', false, 'code', 'INVALID_AMOUNT', 'message', 'Enter an amount to buy');
+  END IF;
+
+  SELECT total_value INTO v_total_value FROM public.price_curve_trade(_coin_id, 'buy', v_amount);
+  v_violation := public.trade_limit_violation(v_user_id, _coin_id, v_amount, v_total_value);
+  IF v_violation IS NOT NULL THEN
+    RETURN jsonb_build_object('ok', false) || v_violation;
+  END IF;
+  RETURN jsonb_build_object('ok', true, 'amount', v_amount, 'total_value', v_total_value);
+END;
+$$;
+
+-- Buys now go through trade_limit_violation, which also took over the
+-- per-trade share-of-remaining-supply cap. Otherwise unchanged.
+CREATE OR REPLACE FUNCTION public.execute_trade(
+  _user_id uuid, _coin_id uuid, _trade_type text, _amount numeric, _use_wallet boolean, _to_wallet boolean,
+  _expected_price numeric DEFAULT NULL, _max_slippage_pct numeric DEFAULT NULL
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+DECLARE
+  v_coin RECORD;
+  v_settings RECORD;
+  v_wallet_balance numeric;
+  v_holding RECORD;
+  v_pricing RECORD;
+  v_exec_price numeric;
+  v_total_value numeric;
+  v_fee numeric;
+  v_creator_share numeric;
+  v_net_value numeric;
+  v_tx_id uuid;
+  v_holders_delta integer := 0;
+  v_remaining_supply numeric;
+  v_new_circ numeric;
+  v_final_price numeric;
+  v_locked numeric;
+  v_graduated boolean;
+  v_violation jsonb;
+BEGIN
+  IF _amount IS NULL OR _amount <= 0 THEN
+    RAISE EXCEPTION 'Trade amount must be greater than zero';
+  END IF;
+  IF _trade_type NOT IN ('buy','sell') THEN
+    RAISE EXCEPTION 'Invalid trade type';
+  END IF;
+
+  SELECT * INTO v_coin FROM public.coins WHERE id = _coin_id FOR UPDATE;
+  IF NOT FOUND THEN RAISE EXCEPTION 'Coin not found'; END IF;
+  IF v_coin.trading_paused THEN RAISE EXCEPTION 'Trading paused for this coin'; END IF;
+
+  SELECT fee_percentage, creator_commission_percentage
+    INTO v_settings FROM public.site_settings LIMIT 1;
+
+  IF _trade_type = 'buy' THEN
+    v_remaining_supply := GREATEST(0, COALESCE(v_coin.total_supply, 0) - COALESCE(v_coin.circulating_supply, 0));
+    IF v_remaining_supply <= 0 THEN
+      RAISE EXCEPTION 'No remaining supply available for purchase';
+    END IF;
+    IF _amount > v_remaining_supply THEN
+      RAISE EXCEPTION 'Requested amount exceeds remaining supply (% available)', v_remaining_supply;
+    END IF;
+
+    SELECT * INTO v_pricing FROM public.price_curve_trade(_coin_id, 'buy', _amount);
+    v_exec_price := v_pricing.average_price;
+    IF _expected_price IS NOT NULL AND _max_slippage_pct IS NOT NULL
+       AND v_exec_price > _expected_price * (1 + _max_slippage_pct / 100.0) THEN
+      RAISE EXCEPTION 'Price moved beyond your slippage tolerance (quoted %, now %)',
+        round(_expected_price, 6), round(v_exec_price, 6);
+    END IF;
+    v_total_value := v_pricing.total_value;
+
+    v_violation := public.trade_limit_violation(_user_id, _coin_id, _amount, v_total_value);
+    IF v_violation IS NOT NULL THEN
+      RAISE EXCEPTION USING
+        MESSAGE = v_violation->>'message',
+        DETAIL = v_violation::text,
+        HINT = v_violation->>'code';
+    END IF;
+
+    v_fee := v_total_value * (COALESCE(v_settings.fee_percentage, 0) / 100.0);
+    v_creator_share := v_total_value * (COALESCE(v_settings.creator_commission_percentage, 0) / 100.0);
+
+    IF _use_wallet THEN
+      SELECT fiat_balance INTO v_wallet_balance FROM public.wallets WHERE user_id = _user_id FOR UPDATE;
+      IF v_wallet_balance IS NULL THEN RAISE EXCEPTION 'Wallet not found'; END IF;
+      IF v_wallet_balance < (v_total_value + v_fee) THEN
+        RAISE EXCEPTION 'Insufficient wallet balance';
+      END IF;
+      UPDATE public.wallets SET fiat_balance = fiat_balance - (v_total_value + v_fee) WHERE user_id = _user_id;
+    END IF;
+
+    INSERT INTO public.transactions (user_id, coin_id, type, amount, price_per_coin, total_value, status)
+      VALUES (_user_id, _coin_id, 'buy', _amount, v_exec_price, v_total_value, 'completed')
+      RETURNING id INTO v_tx_id;
+
+    SELECT * INTO v_holding FROM public.holdings WHERE user_id = _user_id AND coin_id = _coin_id FOR UPDATE;
+    IF v_holding.id IS NULL THEN
+      INSERT INTO public.holdings (user_id, coin_id, amount, average_buy_price)
+        VALUES (_user_id, _coin_id, _amount, v_exec_price);
+      v_holders_delta := 1;
+    ELSE
+      UPDATE public.holdings
+        SET amount = v_holding.amount + _amount,
+            average_buy_price = ((v_holding.amount * v_holding.average_buy_price) + (_amount * v_exec_price)) / (v_holding.amount + _amount),
+            updated_at = now()
+        WHERE id = v_holding.id;
+    END IF;
+
+    v_new_circ := v_pricing.new_circulating;
+    v_final_price := v_pricing.new_price;
+
+  ELSE
+    SELECT * INTO v_holding FROM public.holdings WHERE user_id = _user_id AND coin_id = _coin_id FOR UPDATE;
+    IF v_holding.id IS NULL OR v_holding.amount < _amount THEN
+      RAISE EXCEPTION 'Insufficient coin balance';
+    END IF;
+    v_locked := public.locked_sell_amount(_user_id, _coin_id);
+    IF v_holding.amount - v_locked < _amount THEN
+      RAISE EXCEPTION 'Insufficient coin balance (% reserved by open sell orders)', v_locked;
+    END IF;
+    IF _amount > v_coin.circulating_supply THEN
+      RAISE EXCEPTION 'Sell amount exceeds circulating supply';
+    END IF;
+
+    SELECT * INTO v_pricing FROM public.price_curve_trade(_coin_id, 'sell', _amount);
+    v_exec_price := v_pricing.average_price;
+    IF _expected_price IS NOT NULL AND _max_slippage_pct IS NOT NULL
+       AND v_exec_price < _expected_price * (1 - _max_slippage_pct / 100.0) THEN
+      RAISE EXCEPTION 'Price moved beyond your slippage tolerance (quoted %, now %)',
+        round(_expected_price, 6), round(v_exec_price, 6);
+    END IF;
+    v_total_value := v_pricing.total_value;
+    v_fee := v_total_value * (COALESCE(v_settings.fee_percentage, 0) / 100.0);
+    v_creator_share := v_total_value * (COALESCE(v_settings.creator_commission_percentage, 0) / 100.0);
+    v_net_value := GREATEST(0, v_total_value - v_fee);
+
+    INSERT INTO public.transactions (user_id, coin_id, type, amount, price_per_coin, total_value, status)
+      VALUES (_user_id, _coin_id, 'sell', _amount, v_exec_price, v_total_value, 'completed')
+      RETURNING id INTO v_tx_id;
+
+    IF v_holding.amount - _amount <= 0 THEN
+      DELETE FROM public.holdings WHERE id = v_holding.id;
+      v_holders_delta := -1;
+    ELSE
+      UPDATE public.holdings SET amount = v_holding.amount - _amount, updated_at = now() WHERE id = v_holding.id;
+    END IF;
+
+    IF _to_wallet THEN
+      INSERT INTO public.wallets (user_id, fiat_balance) VALUES (_user_id, v_net_value)
+        ON CONFLICT (user_id) DO UPDATE SET fiat_balance = public.wallets.fiat_balance + v_net_value;
+    END IF;
+
+    v_new_circ := v_pricing.new_circulating;
+    v_final_price := v_pricing.new_price;
+  END IF;
+
+  PERFORM set_config('app.skip_price_trigger', '1', true);
+  IF v_coin.is_graduated THEN
+    -- Pool liquidity is the quote reserve itself
+    UPDATE public.coins
+      SET circulating_supply = v_new_circ,
+          pool_token_reserve = CASE WHEN _trade_type = 'buy' THEN pool_token_reserve - _amount
+                                    ELSE pool_token_reserve + _amount END,
+          pool_quote_reserve = CASE WHEN _trade_type = 'buy' THEN pool_quote_reserve + v_total_value
+                                    ELSE pool_quote_reserve - v_total_value END,
+          liquidity = CASE WHEN _trade_type = 'buy' THEN pool_quote_reserve + v_total_value
+                           ELSE pool_quote_reserve - v_total_value END,
+          price = v_final_price,
+          market_cap = v_final_price * v_new_circ,
+          holders_count = GREATEST(0, holders_count + v_holders_delta),
+          updated_at = now()
+      WHERE id = _coin_id;
+  ELSE
+    UPDATE public.coins
+      SET circulating_supply = v_new_circ,
+          price = v_final_price,
+          market_cap = v_final_price * v_new_circ,
+          liquidity = CASE WHEN _trade_type = 'buy'
+                           THEN COALESCE(liquidity, 0) + v_total_value
+                           ELSE GREATEST(0, COALESCE(liquidity, 0) - v_total_value) END,
+          holders_count = GREATEST(0, holders_count + v_holders_delta),
+          updated_at = now()
+      WHERE id = _coin_id;
+  END IF;
+  PERFORM set_config('app.skip_price_trigger', '0', true);
+
+  IF v_fee > 0 THEN
+    INSERT INTO public.commission_transactions (transaction_id, amount, commission_rate)
+      VALUES (v_tx_id, v_fee, COALESCE(v_settings.fee_percentage, 0));
+  END IF;
+
+  IF v_coin.creator_id IS NOT NULL AND v_coin.creator_id <> _user_id AND v_creator_share > 0 THEN
+    INSERT INTO public.wallets (user_id, fiat_balance) VALUES (v_coin.creator_id, v_creator_share)
+      ON CONFLICT (user_id) DO UPDATE SET fiat_balance = public.wallets.fiat_balance + v_creator_share;
+  END IF;
+
+  INSERT INTO public.price_history (coin_id, price, volume, trade_type)
+    VALUES (_coin_id, v_final_price, v_total_value, _trade_type);
+
+  v_graduated := NOT v_coin.is_graduated AND public.maybe_graduate_coin(_coin_id);
+
+  RETURN jsonb_build_object(
+    'ok', true,
+    'transaction_id', v_tx_id,
+    'executed_price', v_exec_price,
+    'spot_price', v_pricing.spot_price,
+    'total_value', v_total_value,
+    'new_market_price', v_final_price,
+    'fee', v_fee,
+    'graduated', v_graduated
+  );
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.trade_limit_violation(uuid, uuid, numeric, numeric) FROM anon, authenticated, public;
+REVOKE EXECUTE ON FUNCTION public.check_trade_limits(uuid, numeric, numeric, uuid) FROM anon, public;
+GRANT EXECUTE ON FUNCTION public.check_trade_limits(uuid, numeric, numeric, uuid) TO authenticated, service_role;
+GRANT EXECUTE ON FUNCTION public.execute_trade(uuid, uuid, text, numeric, boolean, boolean, numeric, numeric) TO authenticated;
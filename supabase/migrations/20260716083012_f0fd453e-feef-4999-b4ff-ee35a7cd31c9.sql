@@ -0,0 +1,535 @@
+-- Idempotency keys. A client sends one key per trade or payment it means to
+-- make; retrying with the same key (a double tap, a request resent after a
+-- dropped connection) returns the result of the first attempt instead of
+-- acting again. The key and that result are kept on the transactions or
+-- payment_requests row the request produced. Keys are unique per user.
+ALTER TABLE public.transactions
+  ADD COLUMN IF NOT EXISTS idempotency_key text,
+  ADD COLUMN IF NOT EXISTS idempotency_response jsonb;
+
+ALTER TABLE public.payment_requests
+  ADD COLUMN IF NOT EXISTS idempotency_key text,
+  ADD COLUMN IF NOT EXISTS idempotency_response jsonb;
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_transactions_idempotency_key
+  ON public.transactions (user_id, idempotency_key) WHERE idempotency_key IS NOT NULL;
+CREATE UNIQUE INDEX IF NOT EXISTS idx_payment_requests_idempotency_key
+  ON public.payment_requests (user_id, idempotency_key) WHERE idempotency_key IS NOT NULL;
+
+-- New trailing parameter; drop the old signatures so calls stay unambiguous
+DROP FUNCTION IF EXISTS public.execute_trade(uuid, uuid, text, numeric, boolean, boolean, numeric, numeric);
+DROP FUNCTION IF EXISTS public.complete_mpesa_buy(uuid, text);
+DROP FUNCTION IF EXISTS public.complete_mpesa_deposit(uuid, text);
+
+CREATE OR REPLACE FUNCTION public.execute_trade(
+  _user_id uuid, _coin_id uuid, _trade_type text, _amount numeric, _use_wallet boolean, _to_wallet boolean,
+  _expected_price numeric DEFAULT NULL, _max_slippage_pct numeric DEFAULT NULL,
+  _idempotency_key text DEFAULT NULL
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+DECLARE
+  v_coin RECORD;
+  v_settings RECORD;
+  v_wallet_balance numeric;
+  v_holding RECORD;
+  v_pricing RECORD;
+  v_exec_price numeric;
+  v_total_value numeric;
+  v_fee numeric;
+  v_creator_share numeric;
+  v_net_value numeric;
+  v_tx_id uuid;
+  v_holders_delta integer := 0;
+  v_remaining_supply numeric;
+  v_new_circ numeric;
+  v_final_price numeric;
+  v_locked numeric;
+  v_graduated boolean;
+  v_violation jsonb;
+  v_replay jsonb;
+  v_result jsonb;
+BEGIN
+  IF _amount IS NULL OR _amount <= 0 THEN
+    RAISE EXCEPTION 'Trade amount must be greater than zero';
+  END IF;
+  IF _trade_type NOT IN ('buy','sell') THEN
+    RAISE EXCEPTION 'Invalid trade type';
+  END IF;
+
+  SELECT * INTO v_coin FROM public.coins WHERE id = _coin_id FOR UPDATE;
+  IF NOT FOUND THEN RAISE EXCEPTION 'Coin not found'; END IF;
+
+  -- Checked under the coin lock so a concurrent duplicate waits for the
+  -- first call to commit and then sees its transaction
+  IF _idempotency_key IS NOT NULL THEN
+    SELECT idempotency_response INTO v_replay FROM public.transactions
+      WHERE user_id = _user_id AND idempotency_key = _idempotency_key;
+    IF FOUND THEN
+      RETURN COALESCE(v_replay, jsonb_build_object('ok', true)) || jsonb_build_object('replayed', true);
+    END IF;
+  END IF;
+
+  IF v_coin.trading_paused THEN RAISE EXCEPTION 'Trading paused for this coin'; END IF;
+
+  SELECT fee_percentage, creator_commission_percentage
+    INTO v_settings FROM public.site_settings LIMIT 1;
+
+  IF _trade_type = 'buy' THEN
+    v_remaining_supply := GREATEST(0, COALESCE(v_coin.total_supply, 0) - COALESCE(v_coin.circulating_supply, 0));
+    IF v_remaining_supply <= 0 THEN
+      RAISE EXCEPTION 'No remaining supply available for purchase';
+    END IF;
+    IF _amount > v_remaining_supply THEN
+      RAISE EXCEPTION 'Requested amount exceeds remaining supply (% available)', v_remaining_supply;
+    END IF;
+
+    SELECT * INTO v_pricing FROM public.price_curve_trade(_coin_id, 'buy', _amount);
+    v_exec_price := v_pricing.average_price;
+    IF _expected_price IS NOT NULL AND _max_slippage_pct IS NOT NULL
+       AND v_exec_price > _expected_price * (1 + _max_slippage_pct / 100.0) THEN
+      RAISE EXCEPTION 'Price moved beyond your slippage tolerance (quoted %, now %)',
+        round(_expected_price, 6), round(v_exec_price, 6);
+    END IF;
+    v_total_value := v_pricing.total_value;
+
+    v_violation := public.trade_limit_violation(_user_id, _coin_id, _amount, v_total_value);
+    IF v_violation IS NOT NULL THEN
+      RAISE EXCEPTION USING
+        MESSAGE = v_violation->>'message',
+        DETAIL = v_violation::text,
+        HINT = v_violation->>'code';
+    END IF;
+
+    v_fee := v_total_value * (COALESCE(v_settings.fee_percentage, 0) / 100.0);
+    v_creator_share := v_total_value * (COALESCE(v_settings.creator_commission_percentage, 0) / 100.0);
+
+    IF _use_wallet THEN
+      SELECT fiat_balance INTO v_wallet_balance FROM public.wallets WHERE user_id = _user_id FOR UPDATE;
+      IF v_wallet_balance IS NULL THEN RAISE EXCEPTION 'Wallet not found'; END IF;
+      IF v_wallet_balance < (v_total_value + v_fee) THEN
+        RAISE EXCEPTION 'Insufficient wallet balance';
+      END IF;
+      UPDATE public.wallets SET fiat_balance = fiat_balance - (v_total_value + v_fee) WHERE user_id = _user_id;
+    END IF;
+
+    INSERT INTO public.transactions (user_id, coin_id, type, amount, price_per_coin, total_value, status, idempotency_key)
+      VALUES (_user_id, _coin_id, 'buy', _amount, v_exec_price, v_total_value, 'completed', _idempotency_key)
+      RETURNING id INTO v_tx_id;
+
+    SELECT * INTO v_holding FROM public.holdings WHERE user_id = _user_id AND coin_id = _coin_id FOR UPDATE;
+    IF v_holding.id IS NULL THEN
+      INSERT INTO public.holdings (user_id, coin_id, amount, average_buy_price)
+        VALUES (_user_id, _coin_id, _amount, v_exec_price);
+      v_holders_delta := 1;
+    ELSE
+      UPDATE public.holdings
+        SET amount = v_holding.amount + _amount,
+            average_buy_price = ((v_holding.amount * v_holding.average_buy_price) + (_amount * v_exec_price)) / (v_holding.amount + _amount),
+            updated_at = now()
+        WHERE id = v_holding.id;
+    END IF;
+
+    v_new_circ := v_pricing.new_circulating;
+    v_final_price := v_pricing.new_price;
+
+  ELSE
+    SELECT * INTO v_holding FROM public.holdings WHERE user_id = _user_id AND coin_id = _coin_id FOR UPDATE;
+    IF v_holding.id IS NULL OR v_holding.amount < _amount THEN
+      RAISE EXCEPTION 'Insufficient coin balance';
+    END IF;
+    v_locked := public.locked_sell_amount(_user_id, _coin_id);
+    IF v_holding.amount - v_locked < _amount THEN
+      RAISE EXCEPTION 'Insufficient coin balance (% reserved by open sell orders)', v_locked;
+    END IF;
+    IF _amount > v_coin.circulating_supply THEN
+      RAISE EXCEPTION 'Sell amount exceeds circulating supply';
+    END IF;
+
+    SELECT * INTO v_pricing FROM public.price_curve_trade(_coin_id, 'sell', _amount);
+    v_exec_price := v_pricing.average_price;
+    IF _expected_price IS NOT NULL AND _max_slippage_pct IS NOT NULL
+       AND v_exec_price < _expected_price * (1 - _max_slippage_pct / 100.0) THEN
+      RAISE EXCEPTION 'Price moved beyond your slippage tolerance (quoted %, now %)',
+        round(_expected_price, 6), round(v_exec_price, 6);
+    END IF;
+    v_total_value := v_pricing.total_value;
+    v_fee := v_total_value * (COALESCE(v_settings.fee_percentage, 0) / 100.0);
+    v_creator_share := v_total_value * (COALESCE(v_settings.creator_commission_percentage, 0) / 100.0);
+    v_net_value := GREATEST(0, v_total_value - v_fee);
+
+    INSERT INTO public.transactions (user_id, coin_id, type, amount, price_per_coin, total_value, status, idempotency_key)
+      VALUES (_user_id, _coin_id, 'sell', _amount, v_exec_price, v_total_value, 'completed', _idempotency_key)
+      RETURNING id INTO v_tx_id;
+
+    IF v_holding.amount - _amount <= 0 THEN
+      DELETE FROM public.holdings WHERE id = v_holding.id;
+      v_holders_delta := -1;
+    ELSE
+      UPDATE public.holdings SET amount = v_holding.amount - _amount, updated_at = now() WHERE id = v_holding.id;
+    END IF;
+
+    IF _to_wallet THEN
+      INSERT INTO public.wallets (user_id, fiat_balance) VALUES (_user_id, v_net_value)
+        ON CONFLICT (user_id) DO UPDATE SET fiat_balance = public.wallets.fiat_balance + v_net_value;
+    END IF;
+
+    v_new_circ := v_pricing.new_circulating;
+    v_final_price := v_pricing.new_price;
+  END IF;
+
+  PERFORM set_config('app.skip_price_trigger', '1', true);
+  IF v_coin.is_graduated THEN
+    -- Pool liquidity is the quote reserve itself
+    UPDATE public.coins
+      SET circulating_supply = v_new_circ,
+          pool_token_reserve = CASE WHEN _trade_type = 'buy' THEN pool_token_reserve - _amount
+                                    ELSE pool_token_reserve + _amount END,
+          pool_quote_reserve = CASE WHEN _trade_type = 'buy' THEN pool_quote_reserve + v_total_value
+                                    ELSE pool_quote_reserve - v_total_value END,
+          liquidity = CASE WHEN _trade_type = 'buy' THEN pool_quote_reserve + v_total_value
+                           ELSE pool_quote_reserve - v_total_value END,
+          price = v_final_price,
+          market_cap = v_final_price * v_new_circ,
+          holders_count = GREATEST(0, holders_count + v_holders_delta),
+          updated_at = now()
+      WHERE id = _coin_id;
+  ELSE
+    UPDATE public.coins
+      SET circulating_supply = v_new_circ,
+          price = v_final_price,
+          market_cap = v_final_price * v_new_circ,
+          liquidity = CASE WHEN _trade_type = 'buy'
+                           THEN COALESCE(liquidity, 0) + v_total_value
+                           ELSE GREATEST(0, COALESCE(liquidity, 0) - v_total_value) END,
+          holders_count = GREATEST(0, holders_count + v_holders_delta),
+          updated_at = now()
+      WHERE id = _coin_id;
+  END IF;
+  PERFORM set_config('app.skip_price_trigger', '0', true);
+
+  IF v_fee > 0 THEN
+    INSERT INTO public.commission_transactions (transaction_id, amount, commission_rate)
+      VALUES (v_tx_id, v_fee, COALESCE(v_settings.fee_percentage, 0));
+  END IF;
+
+  IF v_coin.creator_id IS NOT NULL AND v_coin.creator_id <> _user_id AND v_creator_share > 0 THEN
+    INSERT INTO public.wallets (user_id, fiat_balance) VALUES (v_coin.creator_id, v_creator_share)
+      ON CONFLICT (user_id) DO UPDATE SET fiat_balance = public.wallets.fiat_balance + v_creator_share;
+  END IF;
+
+  INSERT INTO public.price_history (coin_id, price, volume, trade_type)
+    VALUES (_coin_id, v_final_price, v_total_value, _trade_type);
+
+  v_graduated := NOT v_coin.is_graduated AND public.maybe_graduate_coin(_coin_id);
+
+  v_result := jsonb_build_object(
+    'ok', true,
+    'transaction_id', v_tx_id,
+    'executed_price', v_exec_price,
+    'spot_price', v_pricing.spot_price,
+    'total_value', v_total_value,
+    'new_market_price', v_final_price,
+    'fee', v_fee,
+    'graduated', v_graduated
+  );
+  IF _idempotency_key IS NOT NULL THEN
+    UPDATE public.transactions SET idempotency_response = v_result WHERE id = v_tx_id;
+  END IF;
+  RETURN v_result;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.complete_mpesa_buy(_transaction_id uuid, _mpesa_receipt text, _idempotency_key text DEFAULT NULL)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+DECLARE
+  v_tx RECORD;
+  v_coin RECORD;
+  v_settings RECORD;
+  v_holding RECORD;
+  v_holders_delta integer := 0;
+  v_creator_share numeric;
+  v_holders_count integer;
+  v_remaining_supply numeric;
+  v_new_circ numeric;
+  v_new_base_price numeric;
+  v_current_price numeric;
+  v_paid numeric;
+  v_graduated boolean;
+  v_result jsonb;
+BEGIN
+  SELECT * INTO v_tx FROM public.transactions WHERE id = _transaction_id FOR UPDATE;
+  IF NOT FOUND THEN RETURN jsonb_build_object('ok', false, 'error', 'Transaction not found'); END IF;
+  IF _idempotency_key IS NOT NULL AND v_tx.idempotency_key IS NOT NULL AND v_tx.idempotency_key <> _idempotency_key THEN
+    RETURN jsonb_build_object('ok', false, 'error', 'Idempotency key does not match this transaction');
+  END IF;
+
+  -- Settled already (callback and status query both land here): hand back
+  -- the original outcome rather than allocating or refunding twice
+  IF v_tx.idempotency_response IS NOT NULL THEN
+    RETURN v_tx.idempotency_response || jsonb_build_object('replayed', true);
+  END IF;
+
+  IF v_tx.status = 'completed' THEN
+    IF _mpesa_receipt IS NOT NULL AND _mpesa_receipt <> '' AND COALESCE(v_tx.mpesa_receipt, '') <> _mpesa_receipt THEN
+      UPDATE public.transactions
+        SET mpesa_receipt = _mpesa_receipt, updated_at = now()
+        WHERE id = _transaction_id;
+    END IF;
+    RETURN jsonb_build_object('ok', true, 'already_completed', true);
+  END IF;
+
+  SELECT * INTO v_coin FROM public.coins WHERE id = v_tx.coin_id FOR UPDATE;
+  IF NOT FOUND THEN RETURN jsonb_build_object('ok', false, 'error', 'Coin not found'); END IF;
+
+  v_remaining_supply := GREATEST(0, COALESCE(v_coin.total_supply, 0) - COALESCE(v_coin.circulating_supply, 0));
+  IF v_tx.amount > v_remaining_supply THEN
+    v_result := jsonb_build_object('ok', false, 'error', 'Coin supply exhausted');
+    UPDATE public.transactions
+      SET status = 'failed',
+          mpesa_receipt = COALESCE(NULLIF(_mpesa_receipt, ''), mpesa_receipt),
+          idempotency_key = COALESCE(idempotency_key, _idempotency_key),
+          idempotency_response = v_result,
+          updated_at = now()
+      WHERE id = _transaction_id;
+    RETURN v_result;
+  END IF;
+  IF v_coin.is_graduated AND v_tx.amount >= v_coin.pool_token_reserve THEN
+    v_result := jsonb_build_object('ok', false, 'error', 'Insufficient pool liquidity');
+    UPDATE public.transactions
+      SET status = 'failed',
+          mpesa_receipt = COALESCE(NULLIF(_mpesa_receipt, ''), mpesa_receipt),
+          idempotency_key = COALESCE(idempotency_key, _idempotency_key),
+          idempotency_response = v_result,
+          updated_at = now()
+      WHERE id = _transaction_id;
+    RETURN v_result;
+  END IF;
+
+  SELECT fee_percentage, creator_commission_percentage INTO v_settings
+    FROM public.site_settings LIMIT 1;
+
+  -- The price was quoted when the STK push went out; reject the fill if the
+  -- curve has since moved past the buyer's tolerance. The payment has already
+  -- cleared, so it is kept as wallet balance instead.
+  IF v_tx.max_slippage_pct IS NOT NULL THEN
+    SELECT average_price INTO v_current_price
+      FROM public.price_curve_trade(v_tx.coin_id, 'buy', v_tx.amount);
+    IF v_current_price > v_tx.price_per_coin * (1 + v_tx.max_slippage_pct / 100.0) THEN
+      v_paid := round(v_tx.total_value * (1 + COALESCE(v_settings.fee_percentage, 0) / 100.0));
+      INSERT INTO public.wallets (user_id, fiat_balance) VALUES (v_tx.user_id, v_paid)
+        ON CONFLICT (user_id) DO UPDATE SET fiat_balance = public.wallets.fiat_balance + v_paid;
+      v_result := jsonb_build_object('ok', false, 'error', 'Price moved beyond slippage tolerance',
+        'credited_to_wallet', v_paid, 'quoted_price', v_tx.price_per_coin, 'current_price', v_current_price);
+      UPDATE public.transactions
+        SET status = 'cancelled',
+            mpesa_receipt = COALESCE(NULLIF(_mpesa_receipt, ''), mpesa_receipt),
+            idempotency_key = COALESCE(idempotency_key, _idempotency_key),
+            idempotency_response = v_result,
+            updated_at = now()
+        WHERE id = _transaction_id;
+      RETURN v_result;
+    END IF;
+  END IF;
+
+  UPDATE public.transactions
+    SET status = 'completed',
+        mpesa_receipt = COALESCE(NULLIF(_mpesa_receipt, ''), mpesa_receipt),
+        updated_at = now()
+    WHERE id = _transaction_id;
+
+  SELECT * INTO v_holding FROM public.holdings
+    WHERE user_id = v_tx.user_id AND coin_id = v_tx.coin_id FOR UPDATE;
+
+  IF v_holding.id IS NULL THEN
+    INSERT INTO public.holdings (user_id, coin_id, amount, average_buy_price)
+      VALUES (v_tx.user_id, v_tx.coin_id, v_tx.amount, v_tx.price_per_coin);
+    v_holders_delta := 1;
+  ELSE
+    UPDATE public.holdings
+      SET amount = v_holding.amount + v_tx.amount,
+          average_buy_price = ((v_holding.amount * v_holding.average_buy_price)
+            + (v_tx.amount * v_tx.price_per_coin)) / (v_holding.amount + v_tx.amount),
+          updated_at = now()
+      WHERE id = v_holding.id;
+  END IF;
+
+  SELECT count(*) INTO v_holders_count FROM public.holdings
+    WHERE coin_id = v_tx.coin_id AND amount > 0;
+
+  v_new_circ := v_coin.circulating_supply + v_tx.amount;
+
+  PERFORM set_config('app.skip_price_trigger', '1', true);
+  IF v_coin.is_graduated THEN
+    -- The buyer paid the quoted amount; it all goes into the pool
+    v_new_base_price := (v_coin.pool_quote_reserve + v_tx.total_value) / (v_coin.pool_token_reserve - v_tx.amount);
+    UPDATE public.coins
+      SET circulating_supply = v_new_circ,
+          pool_token_reserve = pool_token_reserve - v_tx.amount,
+          pool_quote_reserve = pool_quote_reserve + v_tx.total_value,
+          liquidity = pool_quote_reserve + v_tx.total_value,
+          price = v_new_base_price,
+          market_cap = v_new_base_price * v_new_circ,
+          holders_count = v_holders_count,
+          updated_at = now()
+      WHERE id = v_tx.coin_id;
+  ELSE
+    v_new_base_price := public.calculate_bonding_price(v_coin.initial_price, v_coin.bonding_curve_factor, v_new_circ);
+    UPDATE public.coins
+      SET circulating_supply = v_new_circ,
+          price = v_new_base_price,
+          market_cap = v_new_base_price * v_new_circ,
+          liquidity = COALESCE(liquidity, 0) + v_tx.total_value,
+          holders_count = v_holders_count,
+          updated_at = now()
+      WHERE id = v_tx.coin_id;
+  END IF;
+  PERFORM set_config('app.skip_price_trigger', '0', true);
+
+  INSERT INTO public.price_history (coin_id, price, volume, trade_type)
+    VALUES (v_tx.coin_id, v_new_base_price, v_tx.total_value, 'buy');
+
+  IF COALESCE(v_settings.fee_percentage, 0) > 0 THEN
+    INSERT INTO public.commission_transactions (transaction_id, amount, commission_rate)
+      VALUES (_transaction_id, v_tx.total_value * (v_settings.fee_percentage / 100.0), v_settings.fee_percentage);
+  END IF;
+
+  IF v_coin.creator_id IS NOT NULL
+     AND v_coin.creator_id <> v_tx.user_id
+     AND COALESCE(v_settings.creator_commission_percentage, 0) > 0 THEN
+    v_creator_share := v_tx.total_value * (v_settings.creator_commission_percentage / 100.0);
+    INSERT INTO public.wallets (user_id, fiat_balance)
+      VALUES (v_coin.creator_id, v_creator_share)
+      ON CONFLICT (user_id) DO UPDATE
+        SET fiat_balance = public.wallets.fiat_balance + v_creator_share;
+  END IF;
+
+  v_graduated := NOT v_coin.is_graduated AND public.maybe_graduate_coin(v_tx.coin_id);
+
+  v_result := jsonb_build_object('ok', true, 'allocated', v_tx.amount, 'new_market_price', v_new_base_price,
+    'graduated', v_graduated);
+  UPDATE public.transactions
+    SET idempotency_key = COALESCE(idempotency_key, _idempotency_key),
+        idempotency_response = v_result
+    WHERE id = _transaction_id;
+  RETURN v_result;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.complete_mpesa_deposit(_payment_request_id uuid, _mpesa_receipt text, _idempotency_key text DEFAULT NULL)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+DECLARE
+  v_pr RECORD;
+  v_settings RECORD;
+  v_gross numeric;
+  v_fee numeric;
+  v_net numeric;
+  v_referrer_id uuid;
+  v_referral_id uuid;
+  v_referral_bonus numeric;
+  v_referred_by text;
+BEGIN
+  SELECT * INTO v_pr FROM public.payment_requests WHERE id = _payment_request_id FOR UPDATE;
+  IF NOT FOUND THEN RETURN jsonb_build_object('ok', false, 'error', 'Payment request not found'); END IF;
+  IF _idempotency_key IS NOT NULL AND v_pr.idempotency_key IS NOT NULL AND v_pr.idempotency_key <> _idempotency_key THEN
+    RETURN jsonb_build_object('ok', false, 'error', 'Idempotency key does not match this payment request');
+  END IF;
+  IF v_pr.idempotency_response IS NOT NULL THEN
+    RETURN v_pr.idempotency_response || jsonb_build_object('replayed', true);
+  END IF;
+  IF v_pr.status = 'completed' THEN
+    IF _mpesa_receipt IS NOT NULL AND _mpesa_receipt <> '' AND COALESCE(v_pr.mpesa_receipt, '') <> _mpesa_receipt THEN
+      UPDATE public.payment_requests SET mpesa_receipt = _mpesa_receipt, updated_at = now() WHERE id = _payment_request_id;
+    END IF;
+    RETURN jsonb_build_object('ok', true, 'already_completed', true);
+  END IF;
+
+  SELECT deposit_fee_percentage, referral_commission_percentage INTO v_settings
+    FROM public.site_settings LIMIT 1;
+
+  UPDATE public.payment_requests
+    SET status = 'completed',
+        mpesa_receipt = COALESCE(NULLIF(_mpesa_receipt, ''), mpesa_receipt),
+        result_desc = 'success',
+        idempotency_key = COALESCE(idempotency_key, _idempotency_key),
+        idempotency_response = jsonb_build_object('ok', true, 'type', v_pr.type),
+        updated_at = now()
+    WHERE id = _payment_request_id;
+
+  IF v_pr.type = 'coin_creation' AND v_pr.coin_id IS NOT NULL THEN
+    UPDATE public.coins SET creation_fee_paid = true 
+      WHERE id = v_pr.coin_id AND creator_id = v_pr.user_id;
+    RETURN jsonb_build_object('ok', true, 'type', 'coin_creation');
+  END IF;
+
+  IF v_pr.type = 'deposit' THEN
+    v_gross := v_pr.amount;
+    v_fee := v_gross * (COALESCE(v_settings.deposit_fee_percentage, 0) / 100.0);
+    v_net := GREATEST(0, v_gross - v_fee);
+
+    INSERT INTO public.wallets (user_id, fiat_balance) VALUES (v_pr.user_id, v_net)
+      ON CONFLICT (user_id) DO UPDATE 
+        SET fiat_balance = public.wallets.fiat_balance + v_net;
+
+    IF v_fee > 0 THEN
+      INSERT INTO public.commission_transactions (amount, commission_rate)
+        VALUES (v_fee, COALESCE(v_settings.deposit_fee_percentage, 0));
+    END IF;
+
+    IF COALESCE(v_settings.referral_commission_percentage, 0) > 0 THEN
+      SELECT p1.referred_by, p2.user_id INTO v_referred_by, v_referrer_id
+        FROM public.profiles p1
+        JOIN public.profiles p2 ON p2.referral_code = p1.referred_by
+        WHERE p1.user_id = v_pr.user_id
+        LIMIT 1;
+
+      IF v_referrer_id IS NOT NULL AND v_referrer_id <> v_pr.user_id THEN
+        INSERT INTO public.referrals (referrer_id, referred_id)
+        VALUES (v_referrer_id, v_pr.user_id)
+        ON CONFLICT (referred_id) DO NOTHING
+        RETURNING id INTO v_referral_id;
+
+        IF v_referral_id IS NULL THEN
+          SELECT id INTO v_referral_id
+          FROM public.referrals
+          WHERE referred_id = v_pr.user_id
+          LIMIT 1;
+        END IF;
+
+        IF v_referral_id IS NOT NULL AND NOT EXISTS (
+          SELECT 1 FROM public.referral_commissions
+          WHERE referral_id = v_referral_id AND transaction_id = _payment_request_id
+        ) THEN
+          v_referral_bonus := v_gross * (v_settings.referral_commission_percentage / 100.0);
+          INSERT INTO public.referral_commissions (referral_id, transaction_id, amount)
+          VALUES (v_referral_id, _payment_request_id, v_referral_bonus);
+
+          INSERT INTO public.wallets (user_id, fiat_balance) VALUES (v_referrer_id, v_referral_bonus)
+            ON CONFLICT (user_id) DO UPDATE 
+              SET fiat_balance = public.wallets.fiat_balance + v_referral_bonus;
+        END IF;
+      END IF;
+    END IF;
+  END IF;
+
+  RETURN jsonb_build_object('ok', true, 'type', v_pr.type);
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.execute_trade(uuid, uuid, text, numeric, boolean, boolean, numeric, numeric, text) FROM anon, public;
+GRANT EXECUTE ON FUNCTION public.execute_trade(uuid, uuid, text, numeric, boolean, boolean, numeric, numeric, text) TO authenticated;
+REVOKE EXECUTE ON FUNCTION public.complete_mpesa_buy(uuid, text, text) FROM anon, authenticated, public;
+REVOKE EXECUTE ON FUNCTION public.complete_mpesa_deposit(uuid, text, text) FROM anon, authenticated, public;
+GRANT EXECUTE ON FUNCTION public.complete_mpesa_buy(uuid, text, text) TO service_role;
+GRANT EXECUTE ON FUNCTION public.complete_mpesa_deposit(uuid, text, text) TO service_role;
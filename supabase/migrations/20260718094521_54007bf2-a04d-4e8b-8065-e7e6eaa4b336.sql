@@ -0,0 +1,26 @@
+-- Saved bonding-curve simulator scenarios. A scenario is a parameter set
+-- (curve, fee, sell pressure, graduation) plus the order flow to replay
+-- through it, either synthetic or a coin's trade history. Results are
+-- recomputed on load, so scenarios stay comparable when the flow changes.
+CREATE TABLE IF NOT EXISTS public.curve_scenarios (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  name text NOT NULL CHECK (length(trim(name)) > 0),
+  description text,
+  params jsonb NOT NULL,
+  flow jsonb NOT NULL,
+  created_by uuid,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_curve_scenarios_updated
+  ON public.curve_scenarios (updated_at DESC);
+
+CREATE TRIGGER update_curve_scenarios_updated_at
+  BEFORE UPDATE ON public.curve_scenarios
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+ALTER TABLE public.curve_scenarios ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can manage curve scenarios" ON public.curve_scenarios
+  FOR ALL USING (public.is_admin(auth.uid())) WITH CHECK (public.is_admin(auth.uid()));
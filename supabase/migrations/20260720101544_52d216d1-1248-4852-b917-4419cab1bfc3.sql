@@ -0,0 +1,349 @@
+-- Market maker. Replaces organic-price-drift, which nudged idle prices at
+-- random with nothing behind the moves. The market-maker edge function now
+-- trades for real from a house account (site_settings.market_maker_user_id)
+-- on coins an admin has switched on, using the coin's strategy:
+--   mean_reversion  trade back toward the bonding-curve price
+--   spread          buy below / sell above a band around recent organic VWAP
+--   volume_noise    small two-way trades sized by recent organic volume
+-- Every attempt goes through market_maker_trade, which enforces the coin's
+-- KES budget and inventory cap plus a platform-wide daily buy budget, runs
+-- execute_trade, and logs the action with its strategy and parameters.
+ALTER TABLE public.site_settings
+  ADD COLUMN IF NOT EXISTS market_maker_enabled boolean NOT NULL DEFAULT false,
+  ADD COLUMN IF NOT EXISTS market_maker_user_id uuid,
+  ADD COLUMN IF NOT EXISTS market_maker_daily_budget_kes numeric NOT NULL DEFAULT 0;
+
+ALTER TABLE public.coins
+  ADD COLUMN IF NOT EXISTS market_maker_enabled boolean NOT NULL DEFAULT false,
+  ADD COLUMN IF NOT EXISTS market_maker_strategy text NOT NULL DEFAULT 'mean_reversion'
+    CHECK (market_maker_strategy IN ('mean_reversion', 'spread', 'volume_noise')),
+  ADD COLUMN IF NOT EXISTS market_maker_params jsonb NOT NULL DEFAULT '{}'::jsonb,
+  -- KES the house may have tied up in this coin (buys less sells, fees included)
+  ADD COLUMN IF NOT EXISTS market_maker_budget_kes numeric NOT NULL DEFAULT 0,
+  -- Most tokens the house may hold; 0 leaves only the KES budget
+  ADD COLUMN IF NOT EXISTS market_maker_max_inventory numeric NOT NULL DEFAULT 0;
+
+ALTER TABLE public.transactions
+  ADD COLUMN IF NOT EXISTS is_market_maker boolean NOT NULL DEFAULT false;
+
+CREATE TABLE IF NOT EXISTS public.market_maker_actions (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  coin_id uuid NOT NULL REFERENCES public.coins(id) ON DELETE CASCADE,
+  strategy text NOT NULL,
+  params jsonb NOT NULL DEFAULT '{}'::jsonb,
+  side text NOT NULL CHECK (side IN ('buy', 'sell')),
+  amount numeric NOT NULL,
+  total_value numeric,
+  fee numeric,
+  price_before numeric,
+  price_after numeric,
+  reason text,
+  status text NOT NULL CHECK (status IN ('executed', 'rejected')),
+  error text,
+  transaction_id uuid REFERENCES public.transactions(id) ON DELETE SET NULL,
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_market_maker_actions_coin_created
+  ON public.market_maker_actions (coin_id, created_at DESC);
+
+ALTER TABLE public.market_maker_actions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can view market maker actions" ON public.market_maker_actions
+  FOR SELECT USING (public.is_admin(auth.uid()));
+
+-- Unchanged apart from exempting the house account from the per-user
+-- rolling limits.
+CREATE OR REPLACE FUNCTION public.trade_limit_violation(_user_id uuid, _coin_id uuid, _amount numeric, _total_value numeric)
+RETURNS jsonb
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+DECLARE
+  v_coin RECORD;
+  v_settings RECORD;
+  v_spend numeric;
+  v_max_buy numeric;
+  v_per_hour numeric;
+  v_per_day numeric;
+  v_max_holding_pct numeric;
+  v_cooldown integer;
+  v_last_trade_at timestamptz;
+  v_used numeric;
+  v_oldest timestamptz;
+  v_held numeric;
+BEGIN
+  SELECT * INTO v_coin FROM public.coins WHERE id = _coin_id;
+  IF NOT FOUND THEN RETURN NULL; END IF;
+
+  SELECT fee_percentage, min_buy_amount, max_buy_amount,
+         COALESCE(max_buy_supply_percentage, 25) AS max_buy_supply_percentage,
+         trade_limit_kes_per_hour, trade_limit_kes_per_day,
+         trade_limit_max_holding_pct, trade_limit_cooldown_seconds, market_maker_user_id
+    INTO v_settings FROM public.site_settings LIMIT 1;
+
+  v_per_hour := COALESCE(v_coin.trade_limit_kes_per_hour, v_settings.trade_limit_kes_per_hour, 0);
+  v_per_day := COALESCE(v_coin.trade_limit_kes_per_day, v_settings.trade_limit_kes_per_day, 0);
+  v_max_holding_pct := COALESCE(v_coin.trade_limit_max_holding_pct, v_settings.trade_limit_max_holding_pct, 0);
+  v_cooldown := COALESCE(v_coin.trade_limit_cooldown_seconds, v_settings.trade_limit_cooldown_seconds, 0);
+
+  -- What the buyer pays, which is what recurring buys and the M-Pesa prompt use
+  v_spend := _total_value * (1 + COALESCE(v_settings.fee_percentage, 0) / 100.0);
+
+  IF COALESCE(v_settings.min_buy_amount, 0) > 0 AND v_spend < v_settings.min_buy_amount THEN
+    RETURN jsonb_build_object('code', 'MIN_BUY_AMOUNT',
+      'message', format('Minimum buy is KES %s', v_settings.min_buy_amount),
+      'limit', v_settings.min_buy_amount, 'used', round(v_spend, 2));
+  END IF;
+  IF COALESCE(v_settings.max_buy_amount, 0) > 0 AND _total_value > v_settings.max_buy_amount THEN
+    RETURN jsonb_build_object('code', 'MAX_BUY_AMOUNT',
+      'message', format('Maximum buy is KES %s per trade', v_settings.max_buy_amount),
+      'limit', v_settings.max_buy_amount, 'used', round(_total_value, 2));
+  END IF;
+
+  v_max_buy := GREATEST(0, COALESCE(v_coin.total_supply, 0) - COALESCE(v_coin.circulating_supply, 0))
+               * (v_settings.max_buy_supply_percentage / 100.0);
+  IF v_max_buy > 0 AND _amount > v_max_buy THEN
+    RETURN jsonb_build_object('code', 'MAX_SUPPLY_PER_TRADE',
+      'message', format('Single trade limited to %s percent of remaining supply (max %s)',
+                        v_settings.max_buy_supply_percentage, round(v_max_buy, 2)),
+      'limit', round(v_max_buy, 2), 'used', _amount);
+  END IF;
+
+  -- The house account is held to its market-maker budgets instead
+  IF _user_id = v_settings.market_maker_user_id THEN
+    RETURN NULL;
+  END IF;
+
+  IF v_cooldown > 0 THEN
+    SELECT max(created_at) INTO v_last_trade_at FROM public.transactions
+      WHERE user_id = _user_id AND coin_id = _coin_id AND status = 'completed'
+        AND type IN ('buy', 'sell') AND created_at > now() - make_interval(secs => v_cooldown);
+    IF v_last_trade_at IS NOT NULL THEN
+      RETURN jsonb_build_object('code', 'TRADE_COOLDOWN',
+        'message', format('Wait %s seconds between trades of this coin', v_cooldown),
+        'limit', v_cooldown,
+        'retry_after_seconds', ceil(extract(epoch FROM v_last_trade_at + make_interval(secs => v_cooldown) - now())));
+    END IF;
+  END IF;
+
+  IF v_per_hour > 0 THEN
+    SELECT COALESCE(sum(total_value), 0), min(created_at) INTO v_used, v_oldest FROM public.transactions
+      WHERE user_id = _user_id AND coin_id = _coin_id AND type = 'buy' AND status = 'completed'
+        AND created_at > now() - interval '1 hour';
+    IF v_used + _total_value > v_per_hour THEN
+      RETURN jsonb_build_object('code', 'HOURLY_VOLUME_LIMIT',
+        'message', format('Hourly buy limit of KES %s reached for this coin (KES %s used)', v_per_hour, round(v_used, 2)),
+        'limit', v_per_hour, 'used', round(v_used, 2),
+        'retry_after_seconds', CASE WHEN v_oldest IS NOT NULL
+                                    THEN ceil(extract(epoch FROM v_oldest + interval '1 hour' - now())) END);
+    END IF;
+  END IF;
+
+  IF v_per_day > 0 THEN
+    SELECT COALESCE(sum(total_value), 0), min(created_at) INTO v_used, v_oldest FROM public.transactions
+      WHERE user_id = _user_id AND coin_id = _coin_id AND type = 'buy' AND status = 'completed'
+        AND created_at > now() - interval '1 day';
+    IF v_used + _total_value > v_per_day THEN
+      RETURN jsonb_build_object('code', 'DAILY_VOLUME_LIMIT',
+        'message', format('Daily buy limit of KES %s reached for this coin (KES %s used)', v_per_day, round(v_used, 2)),
+        'limit', v_per_day, 'used', round(v_used, 2),
+        'retry_after_seconds', CASE WHEN v_oldest IS NOT NULL
+                                    THEN ceil(extract(epoch FROM v_oldest + interval '1 day' - now())) END);
+    END IF;
+  END IF;
+
+  IF v_max_holding_pct > 0 AND COALESCE(v_coin.total_supply, 0) > 0 THEN
+    SELECT COALESCE(sum(amount), 0) INTO v_held FROM public.holdings
+      WHERE user_id = _user_id AND coin_id = _coin_id;
+    IF (v_held + _amount) / v_coin.total_supply * 100 > v_max_holding_pct THEN
+      RETURN jsonb_build_object('code', 'MAX_HOLDING_PCT',
+        'message', format('One account may hold at most %s%% of the supply', v_max_holding_pct),
+        'limit', v_max_holding_pct,
+        'used', round(v_held / v_coin.total_supply * 100, 4),
+        'max_amount', GREATEST(0, floor(v_coin.total_supply * v_max_holding_pct / 100 - v_held)));
+    END IF;
+  END IF;
+
+  RETURN NULL;
+END;
+$$;
+
+-- One market-maker trade for the house account. Refusals are logged and
+-- returned rather than raised so the edge function can carry on.
+CREATE OR REPLACE FUNCTION public.market_maker_trade(
+  _coin_id uuid, _side text, _amount numeric, _strategy text, _params jsonb DEFAULT '{}'::jsonb, _reason text DEFAULT NULL
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+DECLARE
+  v_settings RECORD;
+  v_coin RECORD;
+  v_fee_pct numeric;
+  v_committed numeric;
+  v_spent_today numeric;
+  v_held numeric;
+  v_cost numeric;
+  v_error text;
+  v_trade jsonb;
+  v_action_id uuid;
+BEGIN
+  SELECT market_maker_enabled, market_maker_user_id, market_maker_daily_budget_kes, fee_percentage
+    INTO v_settings FROM public.site_settings LIMIT 1;
+  IF NOT COALESCE(v_settings.market_maker_enabled, false) OR v_settings.market_maker_user_id IS NULL THEN
+    RETURN jsonb_build_object('ok', false, 'error', 'Market maker is off');
+  END IF;
+  v_fee_pct := COALESCE(v_settings.fee_percentage, 0);
+
+  SELECT * INTO v_coin FROM public.coins WHERE id = _coin_id FOR UPDATE;
+  IF NOT FOUND OR NOT v_coin.market_maker_enabled THEN
+    RETURN jsonb_build_object('ok', false, 'error', 'Market maker is off for this coin');
+  END IF;
+
+  SELECT COALESCE(sum(CASE WHEN side = 'buy' THEN total_value + fee ELSE -(total_value - fee) END), 0)
+    INTO v_committed FROM public.market_maker_actions
+    WHERE coin_id = _coin_id AND status = 'executed';
+  SELECT COALESCE(sum(amount), 0) INTO v_held FROM public.holdings
+    WHERE user_id = v_settings.market_maker_user_id AND coin_id = _coin_id;
+
+  IF _amount IS NULL OR _amount <= 0 THEN
+    v_error := 'Nothing to trade';
+  ELSIF _side = 'sell' THEN
+    IF _amount > v_held THEN
+      v_error := format('House holds only %s tokens', round(v_held, 6));
+    END IF;
+  ELSE
+    SELECT total_value * (1 + v_fee_pct / 100.0) INTO v_cost
+      FROM public.price_curve_trade(_coin_id, 'buy', _amount);
+    SELECT COALESCE(sum(total_value + fee), 0) INTO v_spent_today FROM public.market_maker_actions
+      WHERE status = 'executed' AND side = 'buy' AND created_at >= date_trunc('day', now());
+    IF v_committed + v_cost > v_coin.market_maker_budget_kes THEN
+      v_error := format('Coin budget of KES %s would be exceeded (KES %s committed)',
+                        v_coin.market_maker_budget_kes, round(v_committed, 2));
+    ELSIF v_spent_today + v_cost > COALESCE(v_settings.market_maker_daily_budget_kes, 0) THEN
+      v_error := format('Daily budget of KES %s would be exceeded', v_settings.market_maker_daily_budget_kes);
+    ELSIF v_coin.market_maker_max_inventory > 0 AND v_held + _amount > v_coin.market_maker_max_inventory THEN
+      v_error := format('Inventory cap of %s tokens would be exceeded', v_coin.market_maker_max_inventory);
+    END IF;
+  END IF;
+
+  IF v_error IS NULL THEN
+    BEGIN
+      v_trade := public.execute_trade(v_settings.market_maker_user_id, _coin_id, _side, _amount, true, true);
+    EXCEPTION WHEN OTHERS THEN
+      v_error := SQLERRM;
+    END;
+  END IF;
+
+  IF v_error IS NOT NULL THEN
+    INSERT INTO public.market_maker_actions (coin_id, strategy, params, side, amount, price_before, reason, status, error)
+      VALUES (_coin_id, _strategy, COALESCE(_params, '{}'::jsonb), _side, COALESCE(_amount, 0), v_coin.price, _reason, 'rejected', v_error)
+      RETURNING id INTO v_action_id;
+    RETURN jsonb_build_object('ok', false, 'error', v_error, 'action_id', v_action_id);
+  END IF;
+
+  UPDATE public.transactions SET is_market_maker = true WHERE id = (v_trade->>'transaction_id')::uuid;
+
+  INSERT INTO public.market_maker_actions
+    (coin_id, strategy, params, side, amount, total_value, fee, price_before, price_after, reason, status, transaction_id)
+    VALUES (_coin_id, _strategy, COALESCE(_params, '{}'::jsonb), _side, _amount,
+            (v_trade->>'total_value')::numeric, (v_trade->>'fee')::numeric,
+            v_coin.price, (v_trade->>'new_market_price')::numeric, _reason, 'executed',
+            (v_trade->>'transaction_id')::uuid)
+    RETURNING id INTO v_action_id;
+
+  RETURN v_trade || jsonb_build_object('action_id', v_action_id);
+END;
+$$;
+
+-- Maker against organic trading per coin over a period, for the admin report
+CREATE OR REPLACE FUNCTION public.get_market_maker_report(_from timestamptz, _to timestamptz DEFAULT now())
+RETURNS TABLE (
+  coin_id uuid, name text, symbol text, enabled boolean, strategy text,
+  maker_trades bigint, maker_buy_volume numeric, maker_sell_volume numeric, maker_fees numeric,
+  organic_trades bigint, organic_buy_volume numeric, organic_sell_volume numeric,
+  maker_share_pct numeric, rejected_actions bigint,
+  inventory numeric, committed_kes numeric, budget_kes numeric
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+DECLARE
+  v_house uuid;
+BEGIN
+  IF NOT public.is_admin(auth.uid()) THEN
+    RAISE EXCEPTION 'Not authorized';
+  END IF;
+  SELECT market_maker_user_id INTO v_house FROM public.site_settings LIMIT 1;
+
+  RETURN QUERY
+  WITH trades AS (
+    SELECT t.coin_id,
+           count(*) FILTER (WHERE t.is_market_maker) AS maker_trades,
+           COALESCE(sum(t.total_value) FILTER (WHERE t.is_market_maker AND t.type = 'buy'), 0) AS maker_buy,
+           COALESCE(sum(t.total_value) FILTER (WHERE t.is_market_maker AND t.type = 'sell'), 0) AS maker_sell,
+           count(*) FILTER (WHERE NOT t.is_market_maker) AS organic_trades,
+           COALESCE(sum(t.total_value) FILTER (WHERE NOT t.is_market_maker AND t.type = 'buy'), 0) AS organic_buy,
+           COALESCE(sum(t.total_value) FILTER (WHERE NOT t.is_market_maker AND t.type = 'sell'), 0) AS organic_sell
+      FROM public.transactions t
+     WHERE t.status = 'completed' AND t.type IN ('buy', 'sell')
+       AND t.created_at >= _from AND t.created_at < _to
+     GROUP BY t.coin_id
+  ), actions AS (
+    SELECT a.coin_id,
+           COALESCE(sum(a.fee) FILTER (WHERE a.status = 'executed' AND a.created_at >= _from AND a.created_at < _to), 0) AS fees,
+           count(*) FILTER (WHERE a.status = 'rejected' AND a.created_at >= _from AND a.created_at < _to) AS rejected,
+           COALESCE(sum(CASE WHEN a.side = 'buy' THEN a.total_value + a.fee ELSE -(a.total_value - a.fee) END)
+                    FILTER (WHERE a.status = 'executed'), 0) AS committed
+      FROM public.market_maker_actions a
+     GROUP BY a.coin_id
+  )
+  SELECT c.id, c.name, c.symbol, c.market_maker_enabled, c.market_maker_strategy,
+         COALESCE(tr.maker_trades, 0), COALESCE(tr.maker_buy, 0), COALESCE(tr.maker_sell, 0), COALESCE(ac.fees, 0),
+         COALESCE(tr.organic_trades, 0), COALESCE(tr.organic_buy, 0), COALESCE(tr.organic_sell, 0),
+         CASE WHEN COALESCE(tr.maker_buy + tr.maker_sell + tr.organic_buy + tr.organic_sell, 0) > 0
+              THEN round((tr.maker_buy + tr.maker_sell) / (tr.maker_buy + tr.maker_sell + tr.organic_buy + tr.organic_sell) * 100, 2)
+              ELSE 0 END,
+         COALESCE(ac.rejected, 0),
+         COALESCE((SELECT sum(h.amount) FROM public.holdings h WHERE h.user_id = v_house AND h.coin_id = c.id), 0),
+         COALESCE(ac.committed, 0),
+         c.market_maker_budget_kes
+    FROM public.coins c
+    LEFT JOIN trades tr ON tr.coin_id = c.id
+    LEFT JOIN actions ac ON ac.coin_id = c.id
+   WHERE c.market_maker_enabled OR ac.coin_id IS NOT NULL
+   ORDER BY COALESCE(tr.maker_buy + tr.maker_sell, 0) DESC, c.symbol;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.market_maker_trade(uuid, text, numeric, text, jsonb, text) FROM anon, authenticated, public;
+GRANT EXECUTE ON FUNCTION public.market_maker_trade(uuid, text, numeric, text, jsonb, text) TO service_role;
+REVOKE EXECUTE ON FUNCTION public.get_market_maker_report(timestamptz, timestamptz) FROM anon, public;
+GRANT EXECUTE ON FUNCTION public.get_market_maker_report(timestamptz, timestamptz) TO authenticated;
+
+-- The random drift job is retired in favour of the market maker
+DO $$
+BEGIN
+  IF EXISTS (SELECT 1 FROM cron.job WHERE jobname = 'organic-price-drift') THEN
+    PERFORM cron.unschedule('organic-price-drift');
+  END IF;
+END $$;
+
+SELECT cron.schedule(
+  'market-maker',
+  '* * * * *',
+  $$
+  SELECT net.http_post(
+    url := 'https://dkuprgiaymljdjatixlc.supabase.co/functions/v1/market-maker',
+    headers := '{"Content-Type": "application/json"}'::jsonb,
+    body := '{}'::jsonb
+  );
+  $$
+);
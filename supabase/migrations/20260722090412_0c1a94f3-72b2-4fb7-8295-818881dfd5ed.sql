@@ -0,0 +1,108 @@
+-- Watchlists: named lists of coins per user, shown on the dashboard with live
+-- prices and in the Telegram bot under /watchlist.
+CREATE TABLE IF NOT EXISTS public.watchlists (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid NOT NULL,
+  name text NOT NULL CHECK (char_length(btrim(name)) BETWEEN 1 AND 40),
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now(),
+  UNIQUE (user_id, name)
+);
+
+CREATE TABLE IF NOT EXISTS public.watchlist_items (
+  watchlist_id uuid NOT NULL REFERENCES public.watchlists(id) ON DELETE CASCADE,
+  coin_id uuid NOT NULL REFERENCES public.coins(id) ON DELETE CASCADE,
+  added_at timestamptz NOT NULL DEFAULT now(),
+  PRIMARY KEY (watchlist_id, coin_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_watchlist_items_coin
+  ON public.watchlist_items (coin_id);
+
+ALTER TABLE public.watchlists ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.watchlist_items ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can manage their own watchlists" ON public.watchlists
+  FOR ALL USING (auth.uid() = user_id) WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can manage items on their own watchlists" ON public.watchlist_items
+  FOR ALL
+  USING (EXISTS (SELECT 1 FROM public.watchlists w WHERE w.id = watchlist_id AND w.user_id = auth.uid()))
+  WITH CHECK (EXISTS (SELECT 1 FROM public.watchlists w WHERE w.id = watchlist_id AND w.user_id = auth.uid()));
+
+CREATE TRIGGER update_watchlists_updated_at
+  BEFORE UPDATE ON public.watchlists
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+-- 10 lists a user, 100 coins a list. The dashboard subscribes to a list's
+-- coins with one realtime `in` filter, which takes at most 100 values.
+CREATE OR REPLACE FUNCTION public.enforce_watchlist_limits()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+BEGIN
+  IF TG_TABLE_NAME = 'watchlists' THEN
+    IF (SELECT count(*) FROM watchlists WHERE user_id = NEW.user_id) >= 10 THEN
+      RAISE EXCEPTION 'You can have at most 10 watchlists';
+    END IF;
+  ELSIF (SELECT count(*) FROM watchlist_items WHERE watchlist_id = NEW.watchlist_id) >= 100 THEN
+    RAISE EXCEPTION 'A watchlist can hold at most 100 coins';
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER enforce_watchlists_limit
+  BEFORE INSERT ON public.watchlists
+  FOR EACH ROW EXECUTE FUNCTION public.enforce_watchlist_limits();
+
+CREATE TRIGGER enforce_watchlist_items_limit
+  BEFORE INSERT ON public.watchlist_items
+  FOR EACH ROW EXECUTE FUNCTION public.enforce_watchlist_limits();
+
+-- Star toggle. Adds the coin to _watchlist_id, or to the caller's oldest list
+-- when none is given, creating a "Watchlist" for first-time users; removes it
+-- if it is already there.
+CREATE OR REPLACE FUNCTION public.toggle_watchlist_coin(_coin_id uuid, _watchlist_id uuid DEFAULT NULL)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+DECLARE
+  v_user_id uuid := auth.uid();
+  v_list_id uuid := _watchlist_id;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  IF v_list_id IS NULL THEN
+    SELECT id INTO v_list_id FROM watchlists
+    WHERE user_id = v_user_id
+    ORDER BY created_at
+    LIMIT 1;
+
+    IF v_list_id IS NULL THEN
+      INSERT INTO watchlists (user_id, name) VALUES (v_user_id, 'Watchlist')
+      RETURNING id INTO v_list_id;
+    END IF;
+  ELSIF NOT EXISTS (SELECT 1 FROM watchlists WHERE id = v_list_id AND user_id = v_user_id) THEN
+    RAISE EXCEPTION 'Watchlist not found';
+  END IF;
+
+  DELETE FROM watchlist_items WHERE watchlist_id = v_list_id AND coin_id = _coin_id;
+  IF FOUND THEN
+    RETURN jsonb_build_object('watchlist_id', v_list_id, 'watching', false);
+  END IF;
+
+  INSERT INTO watchlist_items (watchlist_id, coin_id) VALUES (v_list_id, _coin_id);
+  RETURN jsonb_build_object('watchlist_id', v_list_id, 'watching', true);
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.enforce_watchlist_limits() FROM anon, authenticated, public;
+REVOKE EXECUTE ON FUNCTION public.toggle_watchlist_coin(uuid, uuid) FROM anon, public;
+GRANT EXECUTE ON FUNCTION public.toggle_watchlist_coin(uuid, uuid) TO authenticated;
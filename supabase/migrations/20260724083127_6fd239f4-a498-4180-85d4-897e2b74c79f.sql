@@ -0,0 +1,177 @@
+-- Public read-only market data API (public-api edge function). Users create
+-- keys on their profile; only a SHA-256 of each key is stored, and the edge
+-- function checks it and counts the request through consume_api_request.
+ALTER TABLE public.site_settings
+  ADD COLUMN IF NOT EXISTS public_api_enabled boolean NOT NULL DEFAULT true,
+  ADD COLUMN IF NOT EXISTS public_api_default_rate_limit integer NOT NULL DEFAULT 60
+    CHECK (public_api_default_rate_limit > 0);
+
+CREATE TABLE IF NOT EXISTS public.api_keys (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid NOT NULL,
+  name text NOT NULL CHECK (char_length(btrim(name)) BETWEEN 1 AND 40),
+  -- First characters of the key, so users can tell keys apart
+  key_prefix text NOT NULL,
+  key_hash text NOT NULL UNIQUE,
+  rate_limit_per_minute integer NOT NULL DEFAULT 60 CHECK (rate_limit_per_minute > 0),
+  request_count bigint NOT NULL DEFAULT 0,
+  last_used_at timestamptz,
+  revoked_at timestamptz,
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_api_keys_user
+  ON public.api_keys (user_id, created_at DESC);
+
+-- One row per key per minute; older windows are dropped as new ones start
+CREATE TABLE IF NOT EXISTS public.api_rate_limits (
+  key_id uuid NOT NULL REFERENCES public.api_keys(id) ON DELETE CASCADE,
+  window_start timestamptz NOT NULL,
+  request_count integer NOT NULL DEFAULT 0,
+  PRIMARY KEY (key_id, window_start)
+);
+
+ALTER TABLE public.api_keys ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.api_rate_limits ENABLE ROW LEVEL SECURITY;
+
+-- Keys are created and revoked through the RPCs below
+CREATE POLICY "Users can view their own API keys" ON public.api_keys
+  FOR SELECT USING (auth.uid() = user_id);
+CREATE POLICY "Admins can view all API keys" ON public.api_keys
+  FOR SELECT USING (public.is_admin(auth.uid()));
+CREATE POLICY "Admins can update API keys" ON public.api_keys
+  FOR UPDATE USING (public.is_admin(auth.uid()));
+
+-- Returns the plain key once; it cannot be shown again
+CREATE OR REPLACE FUNCTION public.create_api_key(_name text)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+DECLARE
+  v_user_id uuid := auth.uid();
+  v_key text;
+  v_id uuid;
+  v_limit integer;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  IF (SELECT count(*) FROM api_keys WHERE user_id = v_user_id AND revoked_at IS NULL) >= 5 THEN
+    RAISE EXCEPTION 'You can have at most 5 active API keys';
+  END IF;
+
+  SELECT COALESCE(public_api_default_rate_limit, 60) INTO v_limit FROM site_settings LIMIT 1;
+
+  v_key := 'nck_' || encode(extensions.gen_random_bytes(24), 'hex');
+  INSERT INTO api_keys (user_id, name, key_prefix, key_hash, rate_limit_per_minute)
+  VALUES (v_user_id, btrim(_name), left(v_key, 12), encode(extensions.digest(v_key, 'sha256'), 'hex'), COALESCE(v_limit, 60))
+  RETURNING id INTO v_id;
+
+  RETURN jsonb_build_object('id', v_id, 'key', v_key, 'key_prefix', left(v_key, 12));
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.revoke_api_key(_key_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+BEGIN
+  UPDATE api_keys SET revoked_at = now()
+  WHERE id = _key_id
+    AND revoked_at IS NULL
+    AND (user_id = auth.uid() OR public.is_admin(auth.uid()));
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'API key not found';
+  END IF;
+END;
+$$;
+
+-- Checks a key and counts one request against its per-minute limit
+CREATE OR REPLACE FUNCTION public.consume_api_request(_key_hash text)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+DECLARE
+  v_key RECORD;
+  v_window timestamptz := date_trunc('minute', now());
+  v_count integer;
+BEGIN
+  IF NOT COALESCE((SELECT public_api_enabled FROM site_settings LIMIT 1), true) THEN
+    RETURN jsonb_build_object('ok', false, 'code', 'API_DISABLED', 'message', 'The public API is switched off');
+  END IF;
+
+  SELECT id, rate_limit_per_minute INTO v_key
+  FROM api_keys
+  WHERE key_hash = _key_hash AND revoked_at IS NULL;
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('ok', false, 'code', 'INVALID_KEY', 'message', 'Unknown or revoked API key');
+  END IF;
+
+  INSERT INTO api_rate_limits (key_id, window_start, request_count)
+  VALUES (v_key.id, v_window, 1)
+  ON CONFLICT (key_id, window_start) DO UPDATE SET request_count = api_rate_limits.request_count + 1
+  RETURNING request_count INTO v_count;
+
+  IF v_count = 1 THEN
+    DELETE FROM api_rate_limits WHERE key_id = v_key.id AND window_start < v_window;
+  END IF;
+
+  IF v_count > v_key.rate_limit_per_minute THEN
+    RETURN jsonb_build_object(
+      'ok', false, 'code', 'RATE_LIMITED',
+      'message', format('Rate limit of %s requests per minute exceeded', v_key.rate_limit_per_minute),
+      'limit', v_key.rate_limit_per_minute, 'remaining', 0, 'reset_at', v_window + interval '1 minute'
+    );
+  END IF;
+
+  UPDATE api_keys SET request_count = request_count + 1, last_used_at = now() WHERE id = v_key.id;
+
+  RETURN jsonb_build_object(
+    'ok', true, 'key_id', v_key.id,
+    'limit', v_key.rate_limit_per_minute,
+    'remaining', v_key.rate_limit_per_minute - v_count,
+    'reset_at', v_window + interval '1 minute'
+  );
+END;
+$$;
+
+-- Rolling 24h OHLCV per coin from market trades; all coins when _coin_id is null
+CREATE OR REPLACE FUNCTION public.get_market_stats_24h(_coin_id uuid DEFAULT NULL)
+RETURNS TABLE (
+  coin_id uuid, open numeric, high numeric, low numeric, close numeric,
+  volume numeric, quote_volume numeric, trade_count integer
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+  SELECT ph.coin_id,
+         (array_agg(ph.price ORDER BY ph.created_at ASC))[1],
+         max(ph.price),
+         min(ph.price),
+         (array_agg(ph.price ORDER BY ph.created_at DESC))[1],
+         COALESCE(sum(ph.volume), 0),
+         COALESCE(sum(ph.volume * ph.price), 0),
+         count(*)::integer
+    FROM price_history ph
+   WHERE ph.created_at >= now() - interval '24 hours'
+     AND ph.trade_type IN ('buy', 'sell')
+     AND (_coin_id IS NULL OR ph.coin_id = _coin_id)
+   GROUP BY ph.coin_id;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.create_api_key(text) FROM anon, public;
+REVOKE EXECUTE ON FUNCTION public.revoke_api_key(uuid) FROM anon, public;
+REVOKE EXECUTE ON FUNCTION public.consume_api_request(text) FROM anon, authenticated, public;
+GRANT EXECUTE ON FUNCTION public.create_api_key(text) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.revoke_api_key(uuid) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.consume_api_request(text) TO service_role;
+GRANT EXECUTE ON FUNCTION public.get_market_stats_24h(uuid) TO anon, authenticated;
@@ -0,0 +1,198 @@
+-- Server-side price alerts. Alerts used to live in localStorage and were only
+-- checked while the coin page was open; they are now evaluated by a trigger on
+-- every coins.price change, which covers execute_trade, complete_mpesa_buy
+-- and the market maker (it trades through execute_trade). Each hit is written
+-- to price_alert_events: the browser shows it as a push notification through
+-- realtime, and deliver-price-alerts sends the email, SMS, WhatsApp and
+-- Telegram copies.
+CREATE TABLE IF NOT EXISTS public.price_alerts (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid NOT NULL,
+  coin_id uuid NOT NULL REFERENCES public.coins(id) ON DELETE CASCADE,
+  kind text NOT NULL CHECK (kind IN ('price_above', 'price_below', 'change_up', 'change_down')),
+  target_price numeric CHECK (target_price > 0),
+  change_pct numeric CHECK (change_pct > 0 AND change_pct <= 10000),
+  -- Change alerts measure from here; a repeating alert moves it to the price it fired at
+  reference_price numeric CHECK (reference_price > 0),
+  repeat boolean NOT NULL DEFAULT false,
+  cooldown_minutes integer NOT NULL DEFAULT 60 CHECK (cooldown_minutes BETWEEN 0 AND 10080),
+  channels text[] NOT NULL DEFAULT ARRAY['push']
+    CHECK (cardinality(channels) > 0 AND channels <@ ARRAY['push', 'email', 'sms', 'whatsapp', 'telegram']),
+  is_active boolean NOT NULL DEFAULT true,
+  trigger_count integer NOT NULL DEFAULT 0,
+  last_triggered_at timestamptz,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now(),
+  CHECK (
+    (kind IN ('price_above', 'price_below') AND target_price IS NOT NULL)
+    OR (kind IN ('change_up', 'change_down') AND change_pct IS NOT NULL AND reference_price IS NOT NULL)
+  )
+);
+
+CREATE INDEX IF NOT EXISTS idx_price_alerts_coin_active
+  ON public.price_alerts (coin_id) WHERE is_active;
+CREATE INDEX IF NOT EXISTS idx_price_alerts_user
+  ON public.price_alerts (user_id, created_at DESC);
+
+CREATE TABLE IF NOT EXISTS public.price_alert_events (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  alert_id uuid NOT NULL REFERENCES public.price_alerts(id) ON DELETE CASCADE,
+  user_id uuid NOT NULL,
+  coin_id uuid NOT NULL REFERENCES public.coins(id) ON DELETE CASCADE,
+  kind text NOT NULL,
+  price numeric NOT NULL,
+  target_price numeric,
+  reference_price numeric,
+  change_pct numeric,
+  channels text[] NOT NULL,
+  -- Set by deliver-price-alerts when it picks the event up; per-channel results go in delivery
+  delivered_at timestamptz,
+  delivery jsonb NOT NULL DEFAULT '{}'::jsonb,
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_price_alert_events_pending
+  ON public.price_alert_events (created_at) WHERE delivered_at IS NULL;
+CREATE INDEX IF NOT EXISTS idx_price_alert_events_user
+  ON public.price_alert_events (user_id, created_at DESC);
+
+ALTER TABLE public.price_alerts ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.price_alert_events ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own price alerts" ON public.price_alerts
+  FOR SELECT USING (auth.uid() = user_id);
+CREATE POLICY "Users can create their own price alerts" ON public.price_alerts
+  FOR INSERT WITH CHECK (auth.uid() = user_id);
+CREATE POLICY "Users can update their own price alerts" ON public.price_alerts
+  FOR UPDATE USING (auth.uid() = user_id);
+CREATE POLICY "Users can delete their own price alerts" ON public.price_alerts
+  FOR DELETE USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can view their own price alert events" ON public.price_alert_events
+  FOR SELECT USING (auth.uid() = user_id);
+
+CREATE TRIGGER update_price_alerts_updated_at
+  BEFORE UPDATE ON public.price_alerts
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Change alerts start from the current price unless the client sent one, and
+-- users keep at most 50 active alerts
+CREATE OR REPLACE FUNCTION public.prepare_price_alert()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+BEGIN
+  IF NEW.kind IN ('change_up', 'change_down') AND NEW.reference_price IS NULL THEN
+    SELECT price INTO NEW.reference_price FROM coins WHERE id = NEW.coin_id;
+  END IF;
+
+  IF NEW.is_active AND (TG_OP = 'INSERT' OR NOT OLD.is_active) AND (
+    SELECT count(*) FROM price_alerts WHERE user_id = NEW.user_id AND is_active AND id <> NEW.id
+  ) >= 50 THEN
+    RAISE EXCEPTION 'You can have at most 50 active price alerts';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER prepare_price_alert
+  BEFORE INSERT OR UPDATE OF is_active, kind, reference_price ON public.price_alerts
+  FOR EACH ROW EXECUTE FUNCTION public.prepare_price_alert();
+
+-- Runs on every price change. Alerts in their cooldown are skipped; one-shot
+-- alerts switch off after firing, repeating ones stay on and change alerts
+-- re-base on the price they fired at.
+CREATE OR REPLACE FUNCTION public.evaluate_price_alerts()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+DECLARE
+  v_alert RECORD;
+  v_change numeric;
+  v_hit boolean;
+BEGIN
+  FOR v_alert IN
+    SELECT * FROM price_alerts
+    WHERE coin_id = NEW.id
+      AND is_active
+      AND (last_triggered_at IS NULL OR last_triggered_at <= now() - make_interval(mins => cooldown_minutes))
+    FOR UPDATE SKIP LOCKED
+  LOOP
+    v_change := CASE WHEN v_alert.reference_price > 0
+      THEN (NEW.price - v_alert.reference_price) / v_alert.reference_price * 100 END;
+    v_hit := CASE v_alert.kind
+      WHEN 'price_above' THEN NEW.price >= v_alert.target_price
+      WHEN 'price_below' THEN NEW.price <= v_alert.target_price
+      WHEN 'change_up' THEN v_change >= v_alert.change_pct
+      WHEN 'change_down' THEN v_change <= -v_alert.change_pct
+    END;
+    CONTINUE WHEN NOT COALESCE(v_hit, false);
+
+    INSERT INTO price_alert_events
+      (alert_id, user_id, coin_id, kind, price, target_price, reference_price, change_pct, channels)
+    VALUES
+      (v_alert.id, v_alert.user_id, NEW.id, v_alert.kind, NEW.price, v_alert.target_price,
+       v_alert.reference_price, round(v_change, 2), v_alert.channels);
+
+    UPDATE price_alerts SET
+      is_active = v_alert.repeat,
+      trigger_count = trigger_count + 1,
+      last_triggered_at = now(),
+      reference_price = CASE WHEN kind IN ('change_up', 'change_down') THEN NEW.price ELSE reference_price END
+    WHERE id = v_alert.id;
+  END LOOP;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER evaluate_price_alerts
+  AFTER UPDATE OF price ON public.coins
+  FOR EACH ROW
+  WHEN (NEW.price IS DISTINCT FROM OLD.price)
+  EXECUTE FUNCTION public.evaluate_price_alerts();
+
+REVOKE EXECUTE ON FUNCTION public.prepare_price_alert() FROM anon, authenticated, public;
+REVOKE EXECUTE ON FUNCTION public.evaluate_price_alerts() FROM anon, authenticated, public;
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_publication_tables
+    WHERE pubname = 'supabase_realtime' AND schemaname = 'public' AND tablename = 'price_alert_events'
+  ) THEN
+    ALTER PUBLICATION supabase_realtime ADD TABLE public.price_alert_events;
+  END IF;
+END $$;
+
+ALTER TABLE public.price_alert_events REPLICA IDENTITY FULL;
+
+INSERT INTO public.notification_templates
+  (name, slug, category, subject, email_body, sms_body, whatsapp_body,
+   is_email_enabled, is_sms_enabled, is_whatsapp_enabled, variables)
+VALUES
+  ('Price Alert', 'price_alert', 'trading',
+   '{{coin_symbol}} {{condition}}',
+   '<p>Hi {{user_name}},</p><p><strong>{{coin_name}} ({{coin_symbol}})</strong> {{condition}}. It is now trading at KES {{price}}.</p><p>You can change or remove this alert on the {{coin_symbol}} page.</p>',
+   '{{site_name}}: {{coin_symbol}} {{condition}}. Now KES {{price}}.',
+   '{{site_name}}: {{coin_symbol}} {{condition}}. Now KES {{price}}.',
+   true, true, true,
+   ARRAY['user_name', 'site_name', 'coin_symbol', 'coin_name', 'condition', 'price', 'reference_price', 'change_pct'])
+ON CONFLICT (slug) DO NOTHING;
+
+SELECT cron.schedule(
+  'deliver-price-alerts',
+  '* * * * *',
+  $$
+  SELECT net.http_post(
+    url := 'https://dkuprgiaymljdjatixlc.supabase.co/functions/v1/deliver-price-alerts',
+    headers := '{"Content-Type": "application/json"}'::jsonb,
+    body := '{}'::jsonb
+  );
+  $$
+);
@@ -0,0 +1,169 @@
+-- Server-side coin search for the launchpad and the navbar. Replaces loading
+-- every coin and filtering in the browser: search_coins matches name, symbol,
+-- description and contract address, applies the filters and returns one page
+-- plus a cursor for the next.
+CREATE EXTENSION IF NOT EXISTS pg_trgm WITH SCHEMA extensions;
+
+-- Name and symbol outrank the description
+CREATE OR REPLACE FUNCTION public.coin_search_document(_name text, _symbol text, _description text)
+RETURNS tsvector
+LANGUAGE sql
+IMMUTABLE
+SET search_path TO 'public'
+AS $$
+  SELECT setweight(to_tsvector('simple', coalesce(_name, '') || ' ' || coalesce(_symbol, '')), 'A')
+      || setweight(to_tsvector('simple', coalesce(_description, '')), 'C');
+$$;
+
+CREATE INDEX IF NOT EXISTS idx_coins_search_document
+  ON public.coins USING gin (public.coin_search_document(name, symbol, description));
+CREATE INDEX IF NOT EXISTS idx_coins_name_trgm
+  ON public.coins USING gin (name extensions.gin_trgm_ops);
+CREATE INDEX IF NOT EXISTS idx_coins_symbol_trgm
+  ON public.coins USING gin (symbol extensions.gin_trgm_ops);
+CREATE INDEX IF NOT EXISTS idx_coins_contract_trgm
+  ON public.coins USING gin (contract_address extensions.gin_trgm_ops);
+
+-- The 24h window is read across all coins for the volume and gainers sorts
+CREATE INDEX IF NOT EXISTS idx_price_history_created
+  ON public.price_history (created_at DESC);
+
+-- _sort: market_cap (default), volume_24h, gainers, losers, newest, relevance
+-- (default when there is a query). Rows are ordered by one numeric sort key
+-- then id, both descending, and _cursor is the "key:id" of the last row seen.
+-- Market cap and 24h change respect admin overrides, as the coin cards do.
+CREATE OR REPLACE FUNCTION public.search_coins(
+  _query text DEFAULT NULL,
+  _sort text DEFAULT NULL,
+  _min_price numeric DEFAULT NULL,
+  _max_price numeric DEFAULT NULL,
+  _min_market_cap numeric DEFAULT NULL,
+  _max_market_cap numeric DEFAULT NULL,
+  _max_age_hours integer DEFAULT NULL,
+  _featured boolean DEFAULT NULL,
+  _trending boolean DEFAULT NULL,
+  _live boolean DEFAULT NULL,
+  _cursor text DEFAULT NULL,
+  _limit integer DEFAULT 30
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+DECLARE
+  v_query text := nullif(btrim(_query), '');
+  v_sort text := coalesce(nullif(_sort, ''), CASE WHEN nullif(btrim(_query), '') IS NOT NULL THEN 'relevance' ELSE 'market_cap' END);
+  v_limit integer := least(greatest(coalesce(_limit, 30), 1), 100);
+  v_tsquery tsquery;
+  v_cursor_key numeric;
+  v_cursor_id uuid;
+  v_rows jsonb;
+  v_next text;
+BEGIN
+  IF v_sort NOT IN ('market_cap', 'volume_24h', 'gainers', 'losers', 'newest', 'relevance') THEN
+    RAISE EXCEPTION 'Unknown sort: %', v_sort;
+  END IF;
+  IF v_sort = 'relevance' AND v_query IS NULL THEN
+    v_sort := 'market_cap';
+  END IF;
+
+  IF v_query IS NOT NULL THEN
+    v_query := left(v_query, 100);
+    v_tsquery := websearch_to_tsquery('simple', v_query);
+  END IF;
+
+  IF _cursor IS NOT NULL THEN
+    BEGIN
+      v_cursor_key := split_part(_cursor, ':', 1)::numeric;
+      v_cursor_id := split_part(_cursor, ':', 2)::uuid;
+    EXCEPTION WHEN others THEN
+      RAISE EXCEPTION 'Invalid cursor';
+    END;
+  END IF;
+
+  WITH stats AS (
+    SELECT ph.coin_id,
+           (array_agg(ph.price ORDER BY ph.created_at ASC))[1] AS open_price,
+           (array_agg(ph.price ORDER BY ph.created_at DESC))[1] AS close_price,
+           COALESCE(sum(ph.volume * ph.price) FILTER (WHERE ph.trade_type IN ('buy', 'sell')), 0) AS volume_24h
+      FROM price_history ph
+     WHERE ph.created_at >= now() - interval '24 hours'
+     GROUP BY ph.coin_id
+  ),
+  candidates AS (
+    SELECT c.*,
+           CASE WHEN c.use_market_cap_override AND c.market_cap_override IS NOT NULL
+                THEN c.market_cap_override ELSE COALESCE(c.market_cap, 0) END AS display_market_cap,
+           CASE WHEN c.use_price_change_24h_override AND c.price_change_24h_override IS NOT NULL
+                THEN c.price_change_24h_override
+                WHEN s.open_price > 0 THEN round((s.close_price - s.open_price) / s.open_price * 100, 2)
+                ELSE 0 END AS change_24h,
+           COALESCE(s.volume_24h, 0) AS volume_24h,
+           EXISTS (
+             SELECT 1 FROM live_streams ls
+              WHERE ls.coin_id = c.id AND ls.is_active AND ls.expires_at > now()
+           ) AS has_live,
+           CASE WHEN v_query IS NULL THEN 0 ELSE
+             ts_rank(coin_search_document(c.name, c.symbol, c.description), v_tsquery)
+             + greatest(extensions.similarity(c.name, v_query), extensions.similarity(c.symbol, v_query))
+             + CASE WHEN lower(c.symbol) = lower(v_query) THEN 2 ELSE 0 END
+             + CASE WHEN c.contract_address = v_query THEN 3 ELSE 0 END
+           END AS relevance
+      FROM coins c
+      LEFT JOIN stats s ON s.coin_id = c.id
+     WHERE c.is_active AND c.is_approved
+       AND (v_query IS NULL
+            OR coin_search_document(c.name, c.symbol, c.description) @@ v_tsquery
+            OR c.name ILIKE '%' || v_query || '%'
+            OR c.symbol ILIKE '%' || v_query || '%'
+            OR c.contract_address ILIKE '%' || v_query || '%')
+       AND (_min_price IS NULL OR c.price >= _min_price)
+       AND (_max_price IS NULL OR c.price <= _max_price)
+       AND (_max_age_hours IS NULL OR c.created_at >= now() - make_interval(hours => _max_age_hours))
+       AND (_featured IS NULL OR c.is_featured = _featured)
+       AND (_trending IS NULL OR c.is_trending = _trending)
+  ),
+  keyed AS (
+    SELECT cd.*,
+           (CASE v_sort
+              WHEN 'market_cap' THEN cd.display_market_cap
+              WHEN 'volume_24h' THEN cd.volume_24h
+              WHEN 'gainers' THEN cd.change_24h
+              WHEN 'losers' THEN -cd.change_24h
+              WHEN 'newest' THEN extract(epoch FROM cd.created_at)
+              WHEN 'relevance' THEN round(cd.relevance::numeric, 6)
+            END)::numeric AS sort_key
+      FROM candidates cd
+     WHERE (_min_market_cap IS NULL OR cd.display_market_cap >= _min_market_cap)
+       AND (_max_market_cap IS NULL OR cd.display_market_cap <= _max_market_cap)
+       AND (_live IS NULL OR cd.has_live = _live)
+  ),
+  page AS (
+    SELECT k.*
+      FROM keyed k
+     WHERE v_cursor_id IS NULL OR (k.sort_key, k.id) < (v_cursor_key, v_cursor_id)
+     ORDER BY k.sort_key DESC, k.id DESC
+     LIMIT v_limit + 1
+  ),
+  numbered AS (
+    SELECT p.*, row_number() OVER (ORDER BY p.sort_key DESC, p.id DESC) AS rn
+      FROM page p
+  )
+  SELECT
+    COALESCE(jsonb_agg(
+      to_jsonb(n) - 'display_market_cap' - 'change_24h' - 'relevance' - 'sort_key' - 'rn'
+        || jsonb_build_object('price_change_24h', n.change_24h, 'volume_24h', n.volume_24h, 'has_live', n.has_live)
+      ORDER BY n.rn
+    ) FILTER (WHERE n.rn <= v_limit), '[]'::jsonb),
+    CASE WHEN count(*) > v_limit
+         THEN max(CASE WHEN n.rn = v_limit THEN n.sort_key::text || ':' || n.id::text END) END
+  INTO v_rows, v_next
+  FROM numbered n;
+
+  RETURN jsonb_build_object('coins', v_rows, 'next_cursor', v_next);
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.search_coins(text, text, numeric, numeric, numeric, numeric, integer, boolean, boolean, boolean, text, integer) TO anon, authenticated;
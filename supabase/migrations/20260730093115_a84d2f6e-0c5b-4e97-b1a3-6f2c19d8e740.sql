@@ -0,0 +1,252 @@
+-- Coin and trader leaderboards. refresh_leaderboards runs every ten minutes
+-- and rewrites the snapshot tables, so reads never aggregate trade history.
+-- Traders are named only if they opt in on their profile; everyone else is
+-- listed under a stable pseudonym. The market-making account and any account
+-- an admin excludes are left out of every ranking.
+ALTER TABLE public.profiles
+  ADD COLUMN IF NOT EXISTS show_on_leaderboard boolean NOT NULL DEFAULT false,
+  ADD COLUMN IF NOT EXISTS leaderboard_name text
+    CHECK (leaderboard_name IS NULL OR char_length(btrim(leaderboard_name)) BETWEEN 2 AND 30);
+
+CREATE TABLE IF NOT EXISTS public.leaderboard_exclusions (
+  user_id uuid PRIMARY KEY,
+  reason text,
+  created_by uuid,
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+-- board: gainers, losers, coin_volume, new_holders
+CREATE TABLE IF NOT EXISTS public.coin_leaderboards (
+  board text NOT NULL,
+  period text NOT NULL CHECK (period IN ('24h', '7d', '30d')),
+  rank integer NOT NULL,
+  coin_id uuid NOT NULL REFERENCES public.coins(id) ON DELETE CASCADE,
+  value numeric NOT NULL,
+  trade_count integer,
+  computed_at timestamptz NOT NULL DEFAULT now(),
+  PRIMARY KEY (board, period, rank)
+);
+
+-- board: traders_pnl (realized, FIFO, before fees), traders_volume
+CREATE TABLE IF NOT EXISTS public.trader_leaderboards (
+  board text NOT NULL,
+  period text NOT NULL CHECK (period IN ('24h', '7d', '30d')),
+  rank integer NOT NULL,
+  user_id uuid NOT NULL,
+  value numeric NOT NULL,
+  trade_count integer NOT NULL DEFAULT 0,
+  computed_at timestamptz NOT NULL DEFAULT now(),
+  PRIMARY KEY (board, period, rank)
+);
+
+CREATE INDEX IF NOT EXISTS idx_trader_leaderboards_user
+  ON public.trader_leaderboards (user_id);
+
+ALTER TABLE public.leaderboard_exclusions ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.coin_leaderboards ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.trader_leaderboards ENABLE ROW LEVEL SECURITY;
+
+-- Public reads go through get_leaderboard, which hides who isn't opted in
+CREATE POLICY "Admins can manage leaderboard exclusions" ON public.leaderboard_exclusions
+  FOR ALL USING (public.is_admin(auth.uid())) WITH CHECK (public.is_admin(auth.uid()));
+CREATE POLICY "Admins can view coin leaderboards" ON public.coin_leaderboards
+  FOR SELECT USING (public.is_admin(auth.uid()));
+CREATE POLICY "Admins can view trader leaderboards" ON public.trader_leaderboards
+  FOR SELECT USING (public.is_admin(auth.uid()));
+
+CREATE OR REPLACE FUNCTION public.refresh_leaderboards()
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+DECLARE
+  v_period text;
+  v_since timestamptz;
+  v_excluded uuid[];
+BEGIN
+  -- Cron runs without a user; signed-in callers must be admins
+  IF auth.uid() IS NOT NULL AND NOT public.is_admin(auth.uid()) THEN
+    RAISE EXCEPTION 'Admin access required';
+  END IF;
+
+  SELECT COALESCE(array_agg(x.user_id), '{}') INTO v_excluded
+  FROM (
+    SELECT user_id FROM leaderboard_exclusions
+    UNION
+    SELECT market_maker_user_id FROM site_settings WHERE market_maker_user_id IS NOT NULL
+  ) x;
+
+  DELETE FROM coin_leaderboards;
+  DELETE FROM trader_leaderboards;
+
+  FOREACH v_period IN ARRAY ARRAY['24h', '7d', '30d'] LOOP
+    v_since := now() - CASE v_period
+      WHEN '24h' THEN interval '24 hours'
+      WHEN '7d' THEN interval '7 days'
+      ELSE interval '30 days'
+    END;
+
+    -- Change from the first recorded price in the window to the current price
+    WITH changes AS (
+      SELECT c.id AS coin_id, round((c.price - f.open_price) / f.open_price * 100, 2) AS change_pct
+        FROM coins c
+        JOIN LATERAL (
+          SELECT ph.price AS open_price
+            FROM price_history ph
+           WHERE ph.coin_id = c.id AND ph.created_at >= v_since
+           ORDER BY ph.created_at ASC
+           LIMIT 1
+        ) f ON f.open_price > 0
+       WHERE c.is_active AND c.is_approved
+    )
+    INSERT INTO coin_leaderboards (board, period, rank, coin_id, value)
+    SELECT 'gainers', v_period, g.rank, g.coin_id, g.change_pct
+      FROM (SELECT coin_id, change_pct, row_number() OVER (ORDER BY change_pct DESC, coin_id) AS rank
+              FROM changes WHERE change_pct > 0) g
+     WHERE g.rank <= 50
+    UNION ALL
+    SELECT 'losers', v_period, l.rank, l.coin_id, l.change_pct
+      FROM (SELECT coin_id, change_pct, row_number() OVER (ORDER BY change_pct ASC, coin_id) AS rank
+              FROM changes WHERE change_pct < 0) l
+     WHERE l.rank <= 50;
+
+    INSERT INTO coin_leaderboards (board, period, rank, coin_id, value, trade_count)
+    SELECT 'coin_volume', v_period, v.rank, v.coin_id, v.volume, v.trades
+      FROM (
+        SELECT t.coin_id, sum(t.total_value) AS volume, count(*)::integer AS trades,
+               row_number() OVER (ORDER BY sum(t.total_value) DESC, t.coin_id) AS rank
+          FROM transactions t
+          JOIN coins c ON c.id = t.coin_id AND c.is_active AND c.is_approved
+         WHERE t.status = 'completed' AND t.type IN ('buy', 'sell')
+           AND t.created_at >= v_since
+           AND NOT t.is_market_maker
+           AND t.user_id <> ALL (v_excluded)
+         GROUP BY t.coin_id
+      ) v
+     WHERE v.rank <= 50;
+
+    -- Accounts whose first buy of the coin falls inside the window
+    INSERT INTO coin_leaderboards (board, period, rank, coin_id, value)
+    SELECT 'new_holders', v_period, h.rank, h.coin_id, h.holders
+      FROM (
+        SELECT f.coin_id, count(*) AS holders,
+               row_number() OVER (ORDER BY count(*) DESC, f.coin_id) AS rank
+          FROM (
+            SELECT t.user_id, t.coin_id, min(t.created_at) AS first_buy
+              FROM transactions t
+             WHERE t.status = 'completed' AND t.type = 'buy'
+               AND NOT t.is_market_maker
+               AND t.user_id <> ALL (v_excluded)
+             GROUP BY t.user_id, t.coin_id
+          ) f
+          JOIN coins c ON c.id = f.coin_id AND c.is_active AND c.is_approved
+         WHERE f.first_buy >= v_since
+         GROUP BY f.coin_id
+      ) h
+     WHERE h.rank <= 50;
+
+    INSERT INTO trader_leaderboards (board, period, rank, user_id, value, trade_count)
+    SELECT 'traders_pnl', v_period, p.rank, p.user_id, p.pnl, p.trades
+      FROM (
+        SELECT rt.user_id, sum(rt.proceeds - rt.fifo_cost_basis) AS pnl, count(*)::integer AS trades,
+               row_number() OVER (ORDER BY sum(rt.proceeds - rt.fifo_cost_basis) DESC, rt.user_id) AS rank
+          FROM realized_trades rt
+         WHERE rt.closed_at >= v_since
+           AND rt.user_id <> ALL (v_excluded)
+         GROUP BY rt.user_id
+      ) p
+     WHERE p.rank <= 100;
+
+    INSERT INTO trader_leaderboards (board, period, rank, user_id, value, trade_count)
+    SELECT 'traders_volume', v_period, v.rank, v.user_id, v.volume, v.trades
+      FROM (
+        SELECT t.user_id, sum(t.total_value) AS volume, count(*)::integer AS trades,
+               row_number() OVER (ORDER BY sum(t.total_value) DESC, t.user_id) AS rank
+          FROM transactions t
+         WHERE t.status = 'completed' AND t.type IN ('buy', 'sell')
+           AND t.created_at >= v_since
+           AND NOT t.is_market_maker
+           AND t.user_id <> ALL (v_excluded)
+         GROUP BY t.user_id
+      ) v
+     WHERE v.rank <= 100;
+  END LOOP;
+
+  RETURN jsonb_build_object(
+    'coin_rows', (SELECT count(*) FROM coin_leaderboards),
+    'trader_rows', (SELECT count(*) FROM trader_leaderboards),
+    'excluded', cardinality(v_excluded),
+    'computed_at', now()
+  );
+END;
+$$;
+
+-- One board from the latest snapshot. Trader names come from profiles at read
+-- time, so opting out hides a name straight away.
+CREATE OR REPLACE FUNCTION public.get_leaderboard(_board text, _period text DEFAULT '24h', _limit integer DEFAULT 50)
+RETURNS jsonb
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+DECLARE
+  v_limit integer := least(greatest(coalesce(_limit, 50), 1), 100);
+  v_result jsonb;
+BEGIN
+  IF _period NOT IN ('24h', '7d', '30d') THEN
+    RAISE EXCEPTION 'Unknown period: %', _period;
+  END IF;
+
+  IF _board IN ('gainers', 'losers', 'coin_volume', 'new_holders') THEN
+    SELECT jsonb_build_object(
+      'board', _board,
+      'period', _period,
+      'computed_at', max(l.computed_at),
+      'entries', COALESCE(jsonb_agg(jsonb_build_object(
+        'rank', l.rank,
+        'coin_id', c.id,
+        'name', c.name,
+        'symbol', c.symbol,
+        'logo_url', c.logo_url,
+        'price', c.price,
+        'value', l.value,
+        'trade_count', l.trade_count
+      ) ORDER BY l.rank), '[]'::jsonb)
+    ) INTO v_result
+    FROM coin_leaderboards l
+    JOIN coins c ON c.id = l.coin_id
+    WHERE l.board = _board AND l.period = _period AND l.rank <= v_limit;
+  ELSIF _board IN ('traders_pnl', 'traders_volume') THEN
+    SELECT jsonb_build_object(
+      'board', _board,
+      'period', _period,
+      'computed_at', max(l.computed_at),
+      'entries', COALESCE(jsonb_agg(jsonb_build_object(
+        'rank', l.rank,
+        'name', CASE WHEN p.show_on_leaderboard
+                     THEN COALESCE(nullif(btrim(p.leaderboard_name), ''), nullif(split_part(btrim(p.full_name), ' ', 1), ''), 'Trader')
+                END,
+        'alias', 'Trader ' || upper(left(md5(l.user_id::text), 6)),
+        'is_you', l.user_id = auth.uid(),
+        'value', l.value,
+        'trade_count', l.trade_count
+      ) ORDER BY l.rank), '[]'::jsonb)
+    ) INTO v_result
+    FROM trader_leaderboards l
+    LEFT JOIN profiles p ON p.user_id = l.user_id
+    WHERE l.board = _board AND l.period = _period AND l.rank <= v_limit;
+  ELSE
+    RAISE EXCEPTION 'Unknown leaderboard: %', _board;
+  END IF;
+
+  RETURN v_result;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.refresh_leaderboards() FROM anon, public;
+GRANT EXECUTE ON FUNCTION public.refresh_leaderboards() TO authenticated, service_role;
+GRANT EXECUTE ON FUNCTION public.get_leaderboard(text, text, integer) TO anon, authenticated;
+
+SELECT cron.schedule('refresh-leaderboards', '*/10 * * * *', $$SELECT public.refresh_leaderboards()$$);
@@ -0,0 +1,215 @@
+-- Holder distribution analytics for the coin page. The aggregate over holdings
+-- is cached per coin in coin_holder_stats; any change to a coin's holdings
+-- marks its row stale and the next read recomputes it. Rows also expire after
+-- 15 minutes so the "new wallets" share keeps moving without trades.
+-- Holders are never identified: each gets an address-like alias that is
+-- salted with the coin id, so the same account can't be linked across coins.
+CREATE TABLE IF NOT EXISTS public.coin_holder_stats (
+  coin_id uuid PRIMARY KEY REFERENCES public.coins(id) ON DELETE CASCADE,
+  stats jsonb NOT NULL,
+  is_stale boolean NOT NULL DEFAULT false,
+  computed_at timestamptz NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.coin_holder_stats ENABLE ROW LEVEL SECURITY;
+
+-- Public reads go through get_holder_distribution
+CREATE POLICY "Admins can view holder stats" ON public.coin_holder_stats
+  FOR SELECT USING (public.is_admin(auth.uid()));
+
+CREATE OR REPLACE FUNCTION public.mark_holder_stats_stale()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+BEGIN
+  UPDATE coin_holder_stats
+     SET is_stale = true
+   WHERE coin_id = COALESCE(NEW.coin_id, OLD.coin_id)
+     AND NOT is_stale;
+  RETURN NULL;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS holdings_mark_holder_stats_stale ON public.holdings;
+CREATE TRIGGER holdings_mark_holder_stats_stale
+  AFTER INSERT OR DELETE OR UPDATE OF amount ON public.holdings
+  FOR EACH ROW EXECUTE FUNCTION public.mark_holder_stats_stale();
+
+CREATE OR REPLACE FUNCTION public.holder_alias(_coin_id uuid, _user_id uuid)
+RETURNS text
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT '0x' || left(h, 4) || '…' || right(h, 4)
+    FROM (SELECT md5(_coin_id::text || ':' || _user_id::text) AS h) x
+$$;
+
+-- Full aggregate for one coin. Shares are of the amount actually held, with
+-- the top 100 holders kept so callers can ask for any smaller list.
+CREATE OR REPLACE FUNCTION public.compute_holder_stats(_coin_id uuid)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+DECLARE
+  v_creator uuid;
+  v_supply numeric;
+  v_market_maker uuid;
+  v_count integer;
+  v_total numeric;
+  v_gini numeric := 0;
+  v_hhi numeric := 0;
+  v_top10 numeric := 0;
+  v_creator_share numeric := 0;
+  v_mm_share numeric := 0;
+  v_new_count integer := 0;
+  v_new_share numeric := 0;
+  v_top jsonb := '[]'::jsonb;
+  v_buckets jsonb;
+BEGIN
+  SELECT creator_id, circulating_supply INTO v_creator, v_supply FROM coins WHERE id = _coin_id;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Coin not found';
+  END IF;
+  SELECT market_maker_user_id INTO v_market_maker FROM site_settings LIMIT 1;
+
+  SELECT count(*), COALESCE(sum(amount), 0) INTO v_count, v_total
+    FROM holdings WHERE coin_id = _coin_id AND amount > 0;
+
+  IF v_count > 0 THEN
+    -- Gini over holders sorted ascending: 2·Σ(i·xᵢ) / (n·Σx) − (n+1)/n
+    SELECT 2 * sum(r.rn * r.amount) / (v_count * v_total) - (v_count + 1)::numeric / v_count
+      INTO v_gini
+      FROM (SELECT amount, row_number() OVER (ORDER BY amount, user_id) AS rn
+              FROM holdings WHERE coin_id = _coin_id AND amount > 0) r;
+
+    -- Herfindahl–Hirschman index on percentage shares, 0–10,000
+    SELECT sum(power(amount / v_total * 100, 2)) INTO v_hhi
+      FROM holdings WHERE coin_id = _coin_id AND amount > 0;
+
+    SELECT COALESCE(sum(t.amount), 0) / v_total INTO v_top10
+      FROM (SELECT amount FROM holdings WHERE coin_id = _coin_id AND amount > 0
+             ORDER BY amount DESC LIMIT 10) t;
+
+    SELECT COALESCE(sum(amount), 0) / v_total INTO v_creator_share
+      FROM holdings WHERE coin_id = _coin_id AND amount > 0 AND user_id = v_creator;
+
+    SELECT COALESCE(sum(amount), 0) / v_total INTO v_mm_share
+      FROM holdings WHERE coin_id = _coin_id AND amount > 0 AND user_id = v_market_maker;
+
+    SELECT count(*), COALESCE(sum(h.amount), 0) / v_total INTO v_new_count, v_new_share
+      FROM holdings h
+      JOIN profiles p ON p.user_id = h.user_id
+     WHERE h.coin_id = _coin_id AND h.amount > 0
+       AND p.created_at >= now() - interval '24 hours';
+
+    SELECT COALESCE(jsonb_agg(jsonb_build_object(
+             'rank', t.rank,
+             'alias', public.holder_alias(_coin_id, t.user_id),
+             'amount', t.amount,
+             'share', round(t.amount / v_total, 6),
+             'is_creator', t.user_id IS NOT DISTINCT FROM v_creator,
+             'is_market_maker', t.user_id IS NOT DISTINCT FROM v_market_maker
+           ) ORDER BY t.rank), '[]'::jsonb)
+      INTO v_top
+      FROM (SELECT user_id, amount, row_number() OVER (ORDER BY amount DESC, user_id) AS rank
+              FROM holdings WHERE coin_id = _coin_id AND amount > 0) t
+     WHERE t.rank <= 100;
+  END IF;
+
+  -- Every bucket is returned, empty or not, so the histogram keeps its shape
+  SELECT jsonb_agg(jsonb_build_object(
+           'label', b.label,
+           'holders', COALESCE(x.holders, 0),
+           'share', round(COALESCE(x.held, 0) / NULLIF(v_total, 0), 6)
+         ) ORDER BY b.ord)
+    INTO v_buckets
+    FROM (VALUES
+      (1, '< 0.01%', 0::numeric, 0.0001::numeric),
+      (2, '0.01–0.1%', 0.0001, 0.001),
+      (3, '0.1–1%', 0.001, 0.01),
+      (4, '1–5%', 0.01, 0.05),
+      (5, '≥ 5%', 0.05, NULL)
+    ) AS b(ord, label, lo, hi)
+    LEFT JOIN LATERAL (
+      SELECT count(*)::integer AS holders, sum(h.amount) AS held
+        FROM holdings h
+       WHERE h.coin_id = _coin_id AND h.amount > 0
+         AND h.amount / v_total >= b.lo
+         AND (b.hi IS NULL OR h.amount / v_total < b.hi)
+    ) x ON true;
+
+  RETURN jsonb_build_object(
+    'holders', v_count,
+    'total_held', v_total,
+    'circulating_supply', v_supply,
+    'gini', round(GREATEST(v_gini, 0), 4),
+    'hhi', round(v_hhi, 1),
+    'top10_share', round(v_top10, 6),
+    'creator_share', round(v_creator_share, 6),
+    'market_maker_share', round(v_mm_share, 6),
+    'new_wallet_holders', v_new_count,
+    'new_wallet_share', round(v_new_share, 6),
+    'buckets', v_buckets,
+    'top', v_top
+  );
+END;
+$$;
+
+-- Cached stats for a coin, plus where the caller sits if they hold it.
+CREATE OR REPLACE FUNCTION public.get_holder_distribution(_coin_id uuid, _top integer DEFAULT 20)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+DECLARE
+  v_top integer := least(greatest(coalesce(_top, 20), 1), 100);
+  v_row coin_holder_stats%ROWTYPE;
+  v_you jsonb;
+  v_amount numeric;
+BEGIN
+  SELECT * INTO v_row FROM coin_holder_stats WHERE coin_id = _coin_id;
+
+  IF NOT FOUND OR v_row.is_stale OR v_row.computed_at < now() - interval '15 minutes' THEN
+    v_row.coin_id := _coin_id;
+    v_row.stats := public.compute_holder_stats(_coin_id);
+    v_row.computed_at := now();
+
+    INSERT INTO coin_holder_stats (coin_id, stats, is_stale, computed_at)
+    VALUES (_coin_id, v_row.stats, false, v_row.computed_at)
+    ON CONFLICT (coin_id) DO UPDATE
+      SET stats = EXCLUDED.stats, is_stale = false, computed_at = EXCLUDED.computed_at;
+  END IF;
+
+  IF auth.uid() IS NOT NULL THEN
+    SELECT amount INTO v_amount FROM holdings
+     WHERE coin_id = _coin_id AND user_id = auth.uid() AND amount > 0;
+    IF FOUND THEN
+      v_you := jsonb_build_object(
+        'alias', public.holder_alias(_coin_id, auth.uid()),
+        'amount', v_amount,
+        'share', round(v_amount / NULLIF((v_row.stats->>'total_held')::numeric, 0), 6),
+        'rank', 1 + (SELECT count(*) FROM holdings
+                      WHERE coin_id = _coin_id AND amount > v_amount)
+      );
+    END IF;
+  END IF;
+
+  RETURN (v_row.stats - 'top') || jsonb_build_object(
+    'top', COALESCE((
+      SELECT jsonb_agg(e ORDER BY ord)
+        FROM jsonb_array_elements(v_row.stats->'top') WITH ORDINALITY AS t(e, ord)
+       WHERE ord <= v_top
+    ), '[]'::jsonb),
+    'you', v_you,
+    'computed_at', v_row.computed_at
+  );
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.compute_holder_stats(uuid) FROM anon, authenticated, public;
+GRANT EXECUTE ON FUNCTION public.get_holder_distribution(uuid, integer) TO anon, authenticated;
@@ -0,0 +1,402 @@
+-- Creator and team token locks. A lock holds back part of one account's
+-- holdings and releases it on a schedule: nothing before the cliff, then a
+-- straight line from start_at to end_at. A plain time lock is a cliff on the
+-- end date. Locked tokens count towards locked_sell_amount, so market sells,
+-- limit and stop orders all see only the released balance.
+--
+-- Locks are one-way: creators can add them for their own holdings but never
+-- shorten or remove them. Team allocations are locked by admins on request,
+-- and only admins can delete a lock.
+CREATE TABLE IF NOT EXISTS public.token_locks (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  coin_id uuid NOT NULL REFERENCES public.coins(id) ON DELETE CASCADE,
+  user_id uuid NOT NULL,
+  category text NOT NULL DEFAULT 'creator' CHECK (category IN ('creator', 'team')),
+  amount numeric NOT NULL CHECK (amount > 0),
+  start_at timestamptz NOT NULL DEFAULT now(),
+  cliff_at timestamptz NOT NULL,
+  end_at timestamptz NOT NULL,
+  note text CHECK (note IS NULL OR char_length(note) <= 120),
+  created_by uuid,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  CHECK (start_at <= cliff_at AND cliff_at <= end_at)
+);
+
+CREATE INDEX IF NOT EXISTS idx_token_locks_holder
+  ON public.token_locks (user_id, coin_id);
+CREATE INDEX IF NOT EXISTS idx_token_locks_coin
+  ON public.token_locks (coin_id, end_at);
+
+ALTER TABLE public.token_locks ENABLE ROW LEVEL SECURITY;
+
+-- The public schedule is read through get_token_locks, which hides holders
+CREATE POLICY "Users can view their own token locks" ON public.token_locks
+  FOR SELECT USING (auth.uid() = user_id);
+CREATE POLICY "Admins can view all token locks" ON public.token_locks
+  FOR SELECT USING (public.is_admin(auth.uid()));
+CREATE POLICY "Admins can delete token locks" ON public.token_locks
+  FOR DELETE USING (public.is_admin(auth.uid()));
+
+-- Amount of one lock still held back at _at
+CREATE OR REPLACE FUNCTION public.token_lock_remaining(_amount numeric, _start_at timestamptz, _cliff_at timestamptz, _end_at timestamptz, _at timestamptz DEFAULT now())
+RETURNS numeric
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT CASE
+    WHEN _at < _cliff_at THEN _amount
+    WHEN _at >= _end_at THEN 0
+    ELSE _amount * (1 - extract(epoch FROM _at - _start_at) / extract(epoch FROM _end_at - _start_at))
+  END
+$$;
+
+CREATE OR REPLACE FUNCTION public.vesting_locked_amount(_user_id uuid, _coin_id uuid)
+RETURNS numeric
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+  SELECT COALESCE(SUM(public.token_lock_remaining(amount, start_at, cliff_at, end_at)), 0)
+    FROM public.token_locks
+    WHERE user_id = _user_id AND coin_id = _coin_id AND end_at > now();
+$$;
+
+-- Tokens a user can't sell right now: reserved by resting sell orders or
+-- still held back by a lock
+CREATE OR REPLACE FUNCTION public.locked_sell_amount(_user_id uuid, _coin_id uuid)
+RETURNS numeric
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+  SELECT COALESCE(SUM(amount - filled_amount), 0) + public.vesting_locked_amount(_user_id, _coin_id)
+    FROM public.limit_orders
+    WHERE user_id = _user_id AND coin_id = _coin_id AND side = 'sell'
+      AND status IN ('open', 'partially_filled');
+$$;
+
+-- Creators lock their own holdings; admins can lock anyone's. _vesting_days
+-- of 0 makes a time lock that releases everything at the cliff.
+CREATE OR REPLACE FUNCTION public.create_token_lock(
+  _coin_id uuid, _amount numeric, _cliff_days integer, _vesting_days integer DEFAULT 0,
+  _holder_id uuid DEFAULT NULL, _note text DEFAULT NULL
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+DECLARE
+  v_caller uuid := auth.uid();
+  v_is_admin boolean := public.is_admin(auth.uid());
+  v_holder uuid := COALESCE(_holder_id, auth.uid());
+  v_coin RECORD;
+  v_holding numeric;
+  v_free numeric;
+  v_cliff timestamptz;
+  v_lock public.token_locks%ROWTYPE;
+BEGIN
+  IF v_caller IS NULL THEN RAISE EXCEPTION 'Not authenticated'; END IF;
+  IF _amount IS NULL OR _amount <= 0 THEN RAISE EXCEPTION 'Lock amount must be greater than zero'; END IF;
+  IF COALESCE(_cliff_days, 0) < 0 OR COALESCE(_vesting_days, 0) < 0 THEN
+    RAISE EXCEPTION 'Lock periods cannot be negative';
+  END IF;
+  IF COALESCE(_cliff_days, 0) + COALESCE(_vesting_days, 0) < 1 THEN
+    RAISE EXCEPTION 'Lock must last at least one day';
+  END IF;
+  IF COALESCE(_cliff_days, 0) + COALESCE(_vesting_days, 0) > 3650 THEN
+    RAISE EXCEPTION 'Lock cannot last more than ten years';
+  END IF;
+
+  SELECT id, creator_id INTO v_coin FROM coins WHERE id = _coin_id;
+  IF NOT FOUND THEN RAISE EXCEPTION 'Coin not found'; END IF;
+  IF NOT v_is_admin AND (v_coin.creator_id IS DISTINCT FROM v_caller OR v_holder <> v_caller) THEN
+    RAISE EXCEPTION 'Only the coin creator can lock their own holdings';
+  END IF;
+
+  -- Lock the holding row so a concurrent sell can't slip past the check
+  SELECT amount INTO v_holding FROM holdings WHERE user_id = v_holder AND coin_id = _coin_id FOR UPDATE;
+  v_free := COALESCE(v_holding, 0) - public.locked_sell_amount(v_holder, _coin_id);
+  IF _amount > v_free THEN
+    RAISE EXCEPTION 'Only % tokens are free to lock', GREATEST(0, v_free);
+  END IF;
+
+  v_cliff := now() + make_interval(days => COALESCE(_cliff_days, 0));
+  INSERT INTO token_locks (coin_id, user_id, category, amount, start_at, cliff_at, end_at, note, created_by)
+  VALUES (
+    _coin_id, v_holder,
+    CASE WHEN v_holder = v_coin.creator_id THEN 'creator' ELSE 'team' END,
+    _amount, now(), v_cliff, v_cliff + make_interval(days => COALESCE(_vesting_days, 0)),
+    nullif(btrim(_note), ''), v_caller
+  )
+  RETURNING * INTO v_lock;
+
+  RETURN to_jsonb(v_lock);
+END;
+$$;
+
+-- Public unlock schedule for a coin, with holders shown under their
+-- holder_alias. Finished locks are left out.
+CREATE OR REPLACE FUNCTION public.get_token_locks(_coin_id uuid)
+RETURNS jsonb
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+  SELECT jsonb_build_object(
+    'circulating_supply', (SELECT circulating_supply FROM coins WHERE id = _coin_id),
+    'locked_now', COALESCE(sum(public.token_lock_remaining(l.amount, l.start_at, l.cliff_at, l.end_at)), 0),
+    'locks', COALESCE(jsonb_agg(jsonb_build_object(
+      'id', l.id,
+      'category', l.category,
+      'holder', public.holder_alias(_coin_id, l.user_id),
+      'is_you', l.user_id = auth.uid(),
+      'amount', l.amount,
+      'remaining', public.token_lock_remaining(l.amount, l.start_at, l.cliff_at, l.end_at),
+      'start_at', l.start_at,
+      'cliff_at', l.cliff_at,
+      'end_at', l.end_at,
+      'note', l.note
+    ) ORDER BY l.end_at), '[]'::jsonb)
+  )
+  FROM token_locks l
+  WHERE l.coin_id = _coin_id AND l.end_at > now();
+$$;
+
+-- Same as the previous version, except sells are first checked against the
+-- seller's locked tokens so the refusal says why
+
+CREATE OR REPLACE FUNCTION public.execute_trade(
+  _user_id uuid, _coin_id uuid, _trade_type text, _amount numeric, _use_wallet boolean, _to_wallet boolean,
+  _expected_price numeric DEFAULT NULL, _max_slippage_pct numeric DEFAULT NULL,
+  _idempotency_key text DEFAULT NULL
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+DECLARE
+  v_coin RECORD;
+  v_settings RECORD;
+  v_wallet_balance numeric;
+  v_holding RECORD;
+  v_pricing RECORD;
+  v_exec_price numeric;
+  v_total_value numeric;
+  v_fee numeric;
+  v_creator_share numeric;
+  v_net_value numeric;
+  v_tx_id uuid;
+  v_holders_delta integer := 0;
+  v_remaining_supply numeric;
+  v_new_circ numeric;
+  v_final_price numeric;
+  v_locked numeric;
+  v_vesting numeric;
+  v_graduated boolean;
+  v_violation jsonb;
+  v_replay jsonb;
+  v_result jsonb;
+BEGIN
+  IF _amount IS NULL OR _amount <= 0 THEN
+    RAISE EXCEPTION 'Trade amount must be greater than zero';
+  END IF;
+  IF _trade_type NOT IN ('buy','sell') THEN
+    RAISE EXCEPTION 'Invalid trade type';
+  END IF;
+
+  SELECT * INTO v_coin FROM public.coins WHERE id = _coin_id FOR UPDATE;
+  IF NOT FOUND THEN RAISE EXCEPTION 'Coin not found'; END IF;
+
+  -- Checked under the coin lock so a concurrent duplicate waits for the
+  -- first call to commit and then sees its transaction
+  IF _idempotency_key IS NOT NULL THEN
+    SELECT idempotency_response INTO v_replay FROM public.transactions
+      WHERE user_id = _user_id AND idempotency_key = _idempotency_key;
+    IF FOUND THEN
+      RETURN COALESCE(v_replay, jsonb_build_object('ok', true)) || jsonb_build_object('replayed', true);
+    END IF;
+  END IF;
+
+  IF v_coin.trading_paused THEN RAISE EXCEPTION 'Trading paused for this coin'; END IF;
+
+  SELECT fee_percentage, creator_commission_percentage
+    INTO v_settings FROM public.site_settings LIMIT 1;
+
+  IF _trade_type = 'buy' THEN
+    v_remaining_supply := GREATEST(0, COALESCE(v_coin.total_supply, 0) - COALESCE(v_coin.circulating_supply, 0));
+    IF v_remaining_supply <= 0 THEN
+      RAISE EXCEPTION 'No remaining supply available for purchase';
+    END IF;
+    IF _amount > v_remaining_supply THEN
+      RAISE EXCEPTION 'Requested amount exceeds remaining supply (% available)', v_remaining_supply;
+    END IF;
+
+    SELECT * INTO v_pricing FROM public.price_curve_trade(_coin_id, 'buy', _amount);
+    v_exec_price := v_pricing.average_price;
+    IF _expected_price IS NOT NULL AND _max_slippage_pct IS NOT NULL
+       AND v_exec_price > _expected_price * (1 + _max_slippage_pct / 100.0) THEN
+      RAISE EXCEPTION 'Price moved beyond your slippage tolerance (quoted %, now %)',
+        round(_expected_price, 6), round(v_exec_price, 6);
+    END IF;
+    v_total_value := v_pricing.total_value;
+
+    v_violation := public.trade_limit_violation(_user_id, _coin_id, _amount, v_total_value);
+    IF v_violation IS NOT NULL THEN
+      RAISE EXCEPTION USING
+        MESSAGE = v_violation->>'message',
+        DETAIL = v_violation::text,
+        HINT = v_violation->>'code';
+    END IF;
+
+    v_fee := v_total_value * (COALESCE(v_settings.fee_percentage, 0) / 100.0);
+    v_creator_share := v_total_value * (COALESCE(v_settings.creator_commission_percentage, 0) / 100.0);
+
+    IF _use_wallet THEN
+      SELECT fiat_balance INTO v_wallet_balance FROM public.wallets WHERE user_id = _user_id FOR UPDATE;
+      IF v_wallet_balance IS NULL THEN RAISE EXCEPTION 'Wallet not found'; END IF;
+      IF v_wallet_balance < (v_total_value + v_fee) THEN
+        RAISE EXCEPTION 'Insufficient wallet balance';
+      END IF;
+      UPDATE public.wallets SET fiat_balance = fiat_balance - (v_total_value + v_fee) WHERE user_id = _user_id;
+    END IF;
+
+    INSERT INTO public.transactions (user_id, coin_id, type, amount, price_per_coin, total_value, status, idempotency_key)
+      VALUES (_user_id, _coin_id, 'buy', _amount, v_exec_price, v_total_value, 'completed', _idempotency_key)
+      RETURNING id INTO v_tx_id;
+
+    SELECT * INTO v_holding FROM public.holdings WHERE user_id = _user_id AND coin_id = _coin_id FOR UPDATE;
+    IF v_holding.id IS NULL THEN
+      INSERT INTO public.holdings (user_id, coin_id, amount, average_buy_price)
+        VALUES (_user_id, _coin_id, _amount, v_exec_price);
+      v_holders_delta := 1;
+    ELSE
+      UPDATE public.holdings
+        SET amount = v_holding.amount + _amount,
+            average_buy_price = ((v_holding.amount * v_holding.average_buy_price) + (_amount * v_exec_price)) / (v_holding.amount + _amount),
+            updated_at = now()
+        WHERE id = v_holding.id;
+    END IF;
+
+    v_new_circ := v_pricing.new_circulating;
+    v_final_price := v_pricing.new_price;
+
+  ELSE
+    SELECT * INTO v_holding FROM public.holdings WHERE user_id = _user_id AND coin_id = _coin_id FOR UPDATE;
+    IF v_holding.id IS NULL OR v_holding.amount < _amount THEN
+      RAISE EXCEPTION 'Insufficient coin balance';
+    END IF;
+    v_vesting := public.vesting_locked_amount(_user_id, _coin_id);
+    IF v_holding.amount - v_vesting < _amount THEN
+      RAISE EXCEPTION 'Insufficient unlocked balance (% still locked under a vesting schedule)', round(v_vesting, 4);
+    END IF;
+    v_locked := public.locked_sell_amount(_user_id, _coin_id);
+    IF v_holding.amount - v_locked < _amount THEN
+      RAISE EXCEPTION 'Insufficient coin balance (% reserved by open sell orders)', v_locked - v_vesting;
+    END IF;
+    IF _amount > v_coin.circulating_supply THEN
+      RAISE EXCEPTION 'Sell amount exceeds circulating supply';
+    END IF;
+
+    SELECT * INTO v_pricing FROM public.price_curve_trade(_coin_id, 'sell', _amount);
+    v_exec_price := v_pricing.average_price;
+    IF _expected_price IS NOT NULL AND _max_slippage_pct IS NOT NULL
+       AND v_exec_price < _expected_price * (1 - _max_slippage_pct / 100.0) THEN
+      RAISE EXCEPTION 'Price moved beyond your slippage tolerance (quoted %, now %)',
+        round(_expected_price, 6), round(v_exec_price, 6);
+    END IF;
+    v_total_value := v_pricing.total_value;
+    v_fee := v_total_value * (COALESCE(v_settings.fee_percentage, 0) / 100.0);
+    v_creator_share := v_total_value * (COALESCE(v_settings.creator_commission_percentage, 0) / 100.0);
+    v_net_value := GREATEST(0, v_total_value - v_fee);
+
+    INSERT INTO public.transactions (user_id, coin_id, type, amount, price_per_coin, total_value, status, idempotency_key)
+      VALUES (_user_id, _coin_id, 'sell', _amount, v_exec_price, v_total_value, 'completed', _idempotency_key)
+      RETURNING id INTO v_tx_id;
+
+    IF v_holding.amount - _amount <= 0 THEN
+      DELETE FROM public.holdings WHERE id = v_holding.id;
+      v_holders_delta := -1;
+    ELSE
+      UPDATE public.holdings SET amount = v_holding.amount - _amount, updated_at = now() WHERE id = v_holding.id;
+    END IF;
+
+    IF _to_wallet THEN
+      INSERT INTO public.wallets (user_id, fiat_balance) VALUES (_user_id, v_net_value)
+        ON CONFLICT (user_id) DO UPDATE SET fiat_balance = public.wallets.fiat_balance + v_net_value;
+    END IF;
+
+    v_new_circ := v_pricing.new_circulating;
+    v_final_price := v_pricing.new_price;
+  END IF;
+
+  PERFORM set_config('app.skip_price_trigger', '1', true);
+  IF v_coin.is_graduated THEN
+    -- Pool liquidity is the quote reserve itself
+    UPDATE public.coins
+      SET circulating_supply = v_new_circ,
+          pool_token_reserve = CASE WHEN _trade_type = 'buy' THEN pool_token_reserve - _amount
+                                    ELSE pool_token_reserve + _amount END,
+          pool_quote_reserve = CASE WHEN _trade_type = 'buy' THEN pool_quote_reserve + v_total_value
+                                    ELSE pool_quote_reserve - v_total_value END,
+          liquidity = CASE WHEN _trade_type = 'buy' THEN pool_quote_reserve + v_total_value
+                           ELSE pool_quote_reserve - v_total_value END,
+          price = v_final_price,
+          market_cap = v_final_price * v_new_circ,
+          holders_count = GREATEST(0, holders_count + v_holders_delta),
+          updated_at = now()
+      WHERE id = _coin_id;
+  ELSE
+    UPDATE public.coins
+      SET circulating_supply = v_new_circ,
+          price = v_final_price,
+          market_cap = v_final_price * v_new_circ,
+          liquidity = CASE WHEN _trade_type = 'buy'
+                           THEN COALESCE(liquidity, 0) + v_total_value
+                           ELSE GREATEST(0, COALESCE(liquidity, 0) - v_total_value) END,
+          holders_count = GREATEST(0, holders_count + v_holders_delta),
+          updated_at = now()
+      WHERE id = _coin_id;
+  END IF;
+  PERFORM set_config('app.skip_price_trigger', '0', true);
+
+  IF v_fee > 0 THEN
+    INSERT INTO public.commission_transactions (transaction_id, amount, commission_rate)
+      VALUES (v_tx_id, v_fee, COALESCE(v_settings.fee_percentage, 0));
+  END IF;
+
+  IF v_coin.creator_id IS NOT NULL AND v_coin.creator_id <> _user_id AND v_creator_share > 0 THEN
+    INSERT INTO public.wallets (user_id, fiat_balance) VALUES (v_coin.creator_id, v_creator_share)
+      ON CONFLICT (user_id) DO UPDATE SET fiat_balance = public.wallets.fiat_balance + v_creator_share;
+  END IF;
+
+  INSERT INTO public.price_history (coin_id, price, volume, trade_type)
+    VALUES (_coin_id, v_final_price, v_total_value, _trade_type);
+
+  v_graduated := NOT v_coin.is_graduated AND public.maybe_graduate_coin(_coin_id);
+
+  v_result := jsonb_build_object(
+    'ok', true,
+    'transaction_id', v_tx_id,
+    'executed_price', v_exec_price,
+    'spot_price', v_pricing.spot_price,
+    'total_value', v_total_value,
+    'new_market_price', v_final_price,
+    'fee', v_fee,
+    'graduated', v_graduated
+  );
+  IF _idempotency_key IS NOT NULL THEN
+    UPDATE public.transactions SET idempotency_response = v_result WHERE id = v_tx_id;
+  END IF;
+  RETURN v_result;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.vesting_locked_amount(uuid, uuid) FROM anon, public;
+REVOKE EXECUTE ON FUNCTION public.create_token_lock(uuid, numeric, integer, integer, uuid, text) FROM anon, public;
+GRANT EXECUTE ON FUNCTION public.create_token_lock(uuid, numeric, integer, integer, uuid, text) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.get_token_locks(uuid) TO anon, authenticated;
@@ -0,0 +1,210 @@
+-- Holder-initiated burns. burn_tokens destroys tokens from the caller's own
+-- holdings: they leave circulating and total supply for good (so they can't
+-- be bought back off the curve), burned_supply grows, and the coin is
+-- repriced for its new circulating supply. Graduated coins keep their pool
+-- price since the pool itself is untouched.
+--
+-- Each burn is a completed 'burn' transaction with no proceeds. For cost
+-- basis it closes lots like a sell, so the burned coins show as a realized
+-- loss instead of lingering in later sells' basis.
+
+-- Same as the previous version, except burns also close lots
+CREATE OR REPLACE FUNCTION public.record_tax_lots(_transaction_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+DECLARE
+  v_tx RECORD;
+  v_lot RECORD;
+  v_realized_id uuid;
+  v_open numeric;
+  v_avg_cost numeric := 0;
+  v_left numeric;
+  v_take numeric;
+  v_fifo numeric := 0;
+BEGIN
+  SELECT * INTO v_tx FROM public.transactions WHERE id = _transaction_id;
+  IF NOT FOUND OR v_tx.status <> 'completed' OR v_tx.type NOT IN ('buy', 'sell', 'burn') OR v_tx.amount <= 0 THEN
+    RETURN;
+  END IF;
+
+  IF v_tx.type = 'buy' THEN
+    INSERT INTO public.tax_lots (user_id, coin_id, transaction_id, opened_at, amount, remaining, cost_per_coin)
+      VALUES (v_tx.user_id, v_tx.coin_id, v_tx.id, v_tx.created_at, v_tx.amount, v_tx.amount, v_tx.price_per_coin)
+      ON CONFLICT (transaction_id) DO NOTHING;
+    RETURN;
+  END IF;
+
+  IF EXISTS (SELECT 1 FROM public.realized_trades WHERE transaction_id = v_tx.id) THEN
+    RETURN;
+  END IF;
+
+  -- Average cost: what is left of total buy cost after earlier sells, spread
+  -- over the coins still held
+  SELECT COALESCE(SUM(remaining), 0) INTO v_open
+    FROM public.tax_lots WHERE user_id = v_tx.user_id AND coin_id = v_tx.coin_id;
+  IF v_open > 0 THEN
+    SELECT (
+      COALESCE((SELECT SUM(amount * cost_per_coin) FROM public.tax_lots
+                 WHERE user_id = v_tx.user_id AND coin_id = v_tx.coin_id), 0)
+      - COALESCE((SELECT SUM(avg_cost_basis) FROM public.realized_trades
+                   WHERE user_id = v_tx.user_id AND coin_id = v_tx.coin_id), 0)
+    ) / v_open INTO v_avg_cost;
+  END IF;
+
+  INSERT INTO public.realized_trades (user_id, coin_id, transaction_id, closed_at, amount, proceeds)
+    VALUES (v_tx.user_id, v_tx.coin_id, v_tx.id, v_tx.created_at, v_tx.amount, v_tx.total_value)
+    RETURNING id INTO v_realized_id;
+
+  v_left := v_tx.amount;
+  FOR v_lot IN
+    SELECT * FROM public.tax_lots
+      WHERE user_id = v_tx.user_id AND coin_id = v_tx.coin_id AND remaining > 0
+      ORDER BY opened_at, id
+      FOR UPDATE
+  LOOP
+    EXIT WHEN v_left <= 0;
+    v_take := LEAST(v_left, v_lot.remaining);
+    UPDATE public.tax_lots SET remaining = remaining - v_take WHERE id = v_lot.id;
+    INSERT INTO public.tax_lot_closures (realized_trade_id, lot_id, user_id, amount, cost_per_coin)
+      VALUES (v_realized_id, v_lot.id, v_tx.user_id, v_take, v_lot.cost_per_coin);
+    v_fifo := v_fifo + v_take * v_lot.cost_per_coin;
+    v_left := v_left - v_take;
+  END LOOP;
+
+  UPDATE public.realized_trades
+    SET matched_amount = v_tx.amount - v_left,
+        fifo_cost_basis = v_fifo,
+        avg_cost_basis = GREATEST(0, (v_tx.amount - v_left) * v_avg_cost)
+    WHERE id = v_realized_id;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.burn_tokens(_coin_id uuid, _amount numeric)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+DECLARE
+  v_user_id uuid := auth.uid();
+  v_coin RECORD;
+  v_holding RECORD;
+  v_locked numeric;
+  v_tx_id uuid;
+  v_holders_delta integer := 0;
+  v_new_circ numeric;
+  v_new_price numeric;
+BEGIN
+  IF v_user_id IS NULL THEN RAISE EXCEPTION 'Not authenticated'; END IF;
+  IF _amount IS NULL OR _amount <= 0 THEN
+    RAISE EXCEPTION 'Burn amount must be greater than zero';
+  END IF;
+
+  SELECT * INTO v_coin FROM public.coins WHERE id = _coin_id FOR UPDATE;
+  IF NOT FOUND THEN RAISE EXCEPTION 'Coin not found'; END IF;
+  IF v_coin.trading_paused THEN RAISE EXCEPTION 'Trading paused for this coin'; END IF;
+
+  SELECT * INTO v_holding FROM public.holdings WHERE user_id = v_user_id AND coin_id = _coin_id FOR UPDATE;
+  IF v_holding.id IS NULL OR v_holding.amount < _amount THEN
+    RAISE EXCEPTION 'Insufficient coin balance';
+  END IF;
+  -- Locked and order-reserved tokens can't be burned any more than sold
+  v_locked := public.locked_sell_amount(v_user_id, _coin_id);
+  IF v_holding.amount - v_locked < _amount THEN
+    RAISE EXCEPTION 'Insufficient coin balance (% locked or reserved by open sell orders)', round(v_locked, 4);
+  END IF;
+
+  INSERT INTO public.transactions (user_id, coin_id, type, amount, price_per_coin, total_value, status)
+    VALUES (v_user_id, _coin_id, 'burn', _amount, v_coin.price, 0, 'completed')
+    RETURNING id INTO v_tx_id;
+
+  IF v_holding.amount - _amount <= 0 THEN
+    DELETE FROM public.holdings WHERE id = v_holding.id;
+    v_holders_delta := -1;
+  ELSE
+    UPDATE public.holdings SET amount = v_holding.amount - _amount, updated_at = now() WHERE id = v_holding.id;
+  END IF;
+
+  v_new_circ := GREATEST(0, v_coin.circulating_supply - _amount);
+  v_new_price := CASE WHEN v_coin.is_graduated THEN v_coin.price
+                      ELSE public.calculate_bonding_price(v_coin.initial_price, v_coin.bonding_curve_factor, v_new_circ) END;
+
+  PERFORM set_config('app.skip_price_trigger', '1', true);
+  UPDATE public.coins
+    SET circulating_supply = v_new_circ,
+        total_supply = GREATEST(v_new_circ, total_supply - _amount),
+        burned_supply = burned_supply + _amount,
+        price = v_new_price,
+        market_cap = v_new_price * v_new_circ,
+        holders_count = GREATEST(0, holders_count + v_holders_delta),
+        updated_at = now()
+    WHERE id = _coin_id;
+  PERFORM set_config('app.skip_price_trigger', '0', true);
+
+  INSERT INTO public.price_history (coin_id, price, volume, trade_type)
+    VALUES (_coin_id, v_new_price, 0, 'burn');
+
+  RETURN jsonb_build_object(
+    'ok', true,
+    'transaction_id', v_tx_id,
+    'burned', _amount,
+    'burned_supply', v_coin.burned_supply + _amount,
+    'circulating_supply', v_new_circ,
+    'new_market_price', v_new_price
+  );
+END;
+$$;
+
+-- Burn totals and the latest burns for a coin. Burners appear under their
+-- holder_alias, flagged when they are the coin's creator.
+CREATE OR REPLACE FUNCTION public.get_burn_history(_coin_id uuid, _limit integer DEFAULT 20)
+RETURNS jsonb
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+DECLARE
+  v_limit integer := least(greatest(coalesce(_limit, 20), 1), 100);
+  v_coin RECORD;
+  v_result jsonb;
+BEGIN
+  SELECT burned_supply, total_supply, creator_id INTO v_coin FROM coins WHERE id = _coin_id;
+  IF NOT FOUND THEN RAISE EXCEPTION 'Coin not found'; END IF;
+
+  SELECT jsonb_build_object(
+    'burned_supply', v_coin.burned_supply,
+    -- Burned share of everything ever minted: what's left plus what's gone
+    'burned_pct', round(v_coin.burned_supply / NULLIF(v_coin.total_supply + v_coin.burned_supply, 0) * 100, 4),
+    'burn_count', (SELECT count(*) FROM transactions
+                    WHERE coin_id = _coin_id AND type = 'burn' AND status = 'completed'),
+    'burns', COALESCE((
+      SELECT jsonb_agg(jsonb_build_object(
+               'id', t.id,
+               'holder', public.holder_alias(_coin_id, t.user_id),
+               'is_creator', t.user_id IS NOT DISTINCT FROM v_coin.creator_id,
+               'is_you', t.user_id = auth.uid(),
+               'amount', t.amount,
+               'price', t.price_per_coin,
+               'burned_at', t.created_at
+             ) ORDER BY t.created_at DESC)
+        FROM (SELECT * FROM transactions
+               WHERE coin_id = _coin_id AND type = 'burn' AND status = 'completed'
+               ORDER BY created_at DESC
+               LIMIT v_limit) t
+    ), '[]'::jsonb)
+  ) INTO v_result;
+
+  RETURN v_result;
+END;
+$$;
+
+CREATE INDEX IF NOT EXISTS idx_transactions_coin_burns
+  ON public.transactions (coin_id, created_at DESC) WHERE type = 'burn';
+
+REVOKE EXECUTE ON FUNCTION public.burn_tokens(uuid, numeric) FROM anon, public;
+GRANT EXECUTE ON FUNCTION public.burn_tokens(uuid, numeric) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.get_burn_history(uuid, integer) TO anon, authenticated;
@@ -0,0 +1,675 @@
+-- Holder snapshots and airdrops. A snapshot freezes who held a coin, and
+-- how much, at one moment: straight away or at a scheduled time picked up by
+-- cron. An airdrop pays tokens of the coin or KES from the sender to a
+-- snapshot's holders or to an uploaded list of emails, pro-rata to holdings
+-- (or list weights) or in equal shares.
+--
+-- Creating an airdrop moves the whole amount into escrow on the airdrop row,
+-- so the sender can't spend it while it runs. run_airdrop_batch then pays
+-- pending recipients a batch at a time; each recipient is settled in its own
+-- subtransaction and keeps its own status, so a run that stops halfway picks
+-- up where it left off. Whatever is left in escrow when the run finishes or
+-- is cancelled (failed payments, rounding dust) goes back to the sender.
+CREATE TABLE IF NOT EXISTS public.holder_snapshots (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  coin_id uuid NOT NULL REFERENCES public.coins(id) ON DELETE CASCADE,
+  created_by uuid NOT NULL,
+  label text CHECK (label IS NULL OR char_length(label) <= 80),
+  take_at timestamptz NOT NULL DEFAULT now(),
+  min_amount numeric NOT NULL DEFAULT 0 CHECK (min_amount >= 0),
+  exclude_creator boolean NOT NULL DEFAULT true,
+  status text NOT NULL DEFAULT 'scheduled' CHECK (status IN ('scheduled', 'taken')),
+  taken_at timestamptz,
+  holder_count integer NOT NULL DEFAULT 0,
+  total_amount numeric NOT NULL DEFAULT 0,
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_holder_snapshots_coin
+  ON public.holder_snapshots (coin_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_holder_snapshots_due
+  ON public.holder_snapshots (take_at) WHERE status = 'scheduled';
+
+CREATE TABLE IF NOT EXISTS public.holder_snapshot_entries (
+  snapshot_id uuid NOT NULL REFERENCES public.holder_snapshots(id) ON DELETE CASCADE,
+  user_id uuid NOT NULL,
+  amount numeric NOT NULL,
+  PRIMARY KEY (snapshot_id, user_id)
+);
+
+CREATE TABLE IF NOT EXISTS public.airdrops (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  coin_id uuid NOT NULL REFERENCES public.coins(id) ON DELETE CASCADE,
+  created_by uuid NOT NULL,
+  asset text NOT NULL CHECK (asset IN ('token', 'kes')),
+  distribution text NOT NULL CHECK (distribution IN ('pro_rata', 'equal')),
+  -- NULL when the recipients came from an uploaded list
+  snapshot_id uuid REFERENCES public.holder_snapshots(id) ON DELETE SET NULL,
+  total_amount numeric NOT NULL CHECK (total_amount > 0),
+  escrowed numeric NOT NULL DEFAULT 0,
+  distributed_amount numeric NOT NULL DEFAULT 0,
+  message text CHECK (message IS NULL OR char_length(message) <= 280),
+  status text NOT NULL DEFAULT 'running' CHECK (status IN ('running', 'completed', 'cancelled')),
+  recipient_count integer NOT NULL DEFAULT 0,
+  sent_count integer NOT NULL DEFAULT 0,
+  failed_count integer NOT NULL DEFAULT 0,
+  skipped_count integer NOT NULL DEFAULT 0,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now(),
+  completed_at timestamptz
+);
+
+CREATE INDEX IF NOT EXISTS idx_airdrops_coin
+  ON public.airdrops (coin_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_airdrops_running
+  ON public.airdrops (created_at) WHERE status = 'running';
+
+CREATE TABLE IF NOT EXISTS public.airdrop_recipients (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  airdrop_id uuid NOT NULL REFERENCES public.airdrops(id) ON DELETE CASCADE,
+  -- NULL when an uploaded email has no account
+  user_id uuid,
+  email text,
+  weight numeric NOT NULL,
+  amount numeric NOT NULL,
+  status text NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'sent', 'failed', 'skipped')),
+  error text,
+  transaction_id uuid REFERENCES public.transactions(id) ON DELETE SET NULL,
+  processed_at timestamptz,
+  notified_at timestamptz,
+  UNIQUE (airdrop_id, user_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_airdrop_recipients_pending
+  ON public.airdrop_recipients (airdrop_id) WHERE status = 'pending';
+CREATE INDEX IF NOT EXISTS idx_airdrop_recipients_unnotified
+  ON public.airdrop_recipients (processed_at) WHERE status = 'sent' AND notified_at IS NULL;
+
+CREATE TRIGGER update_airdrops_updated_at
+  BEFORE UPDATE ON public.airdrops
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+ALTER TABLE public.holder_snapshots ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.holder_snapshot_entries ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.airdrops ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.airdrop_recipients ENABLE ROW LEVEL SECURITY;
+
+-- Written through the functions below only. Senders see recipients through
+-- get_airdrop_recipients, which hides snapshot holders behind holder_alias.
+CREATE POLICY "Users can view their own snapshots" ON public.holder_snapshots
+  FOR SELECT USING (auth.uid() = created_by);
+CREATE POLICY "Admins can view all snapshots" ON public.holder_snapshots
+  FOR SELECT USING (public.is_admin(auth.uid()));
+CREATE POLICY "Admins can view snapshot entries" ON public.holder_snapshot_entries
+  FOR SELECT USING (public.is_admin(auth.uid()));
+CREATE POLICY "Users can view their own airdrops" ON public.airdrops
+  FOR SELECT USING (auth.uid() = created_by);
+CREATE POLICY "Admins can view all airdrops" ON public.airdrops
+  FOR SELECT USING (public.is_admin(auth.uid()));
+CREATE POLICY "Users can view airdrops they received" ON public.airdrop_recipients
+  FOR SELECT USING (auth.uid() = user_id);
+CREATE POLICY "Admins can view all airdrop recipients" ON public.airdrop_recipients
+  FOR SELECT USING (public.is_admin(auth.uid()));
+
+CREATE OR REPLACE FUNCTION public.capture_holder_snapshot(_snapshot_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+DECLARE
+  v_snap RECORD;
+  v_creator uuid;
+  v_market_maker uuid;
+BEGIN
+  SELECT * INTO v_snap FROM holder_snapshots WHERE id = _snapshot_id FOR UPDATE;
+  IF NOT FOUND OR v_snap.status <> 'scheduled' THEN RETURN; END IF;
+
+  SELECT creator_id INTO v_creator FROM coins WHERE id = v_snap.coin_id;
+  SELECT market_maker_user_id INTO v_market_maker FROM site_settings LIMIT 1;
+
+  INSERT INTO holder_snapshot_entries (snapshot_id, user_id, amount)
+  SELECT _snapshot_id, h.user_id, h.amount
+    FROM holdings h
+   WHERE h.coin_id = v_snap.coin_id
+     AND h.amount > 0
+     AND h.amount >= v_snap.min_amount
+     AND h.user_id IS DISTINCT FROM v_market_maker
+     AND NOT (v_snap.exclude_creator AND h.user_id IS NOT DISTINCT FROM v_creator);
+
+  UPDATE holder_snapshots
+     SET status = 'taken',
+         taken_at = now(),
+         holder_count = (SELECT count(*) FROM holder_snapshot_entries WHERE snapshot_id = _snapshot_id),
+         total_amount = (SELECT COALESCE(sum(amount), 0) FROM holder_snapshot_entries WHERE snapshot_id = _snapshot_id)
+   WHERE id = _snapshot_id;
+END;
+$$;
+
+-- Coin creators (and admins) only. A _take_at in the past or NULL captures
+-- straight away; otherwise the snapshot waits for take_due_snapshots.
+CREATE OR REPLACE FUNCTION public.create_holder_snapshot(
+  _coin_id uuid, _take_at timestamptz DEFAULT NULL, _min_amount numeric DEFAULT 0,
+  _exclude_creator boolean DEFAULT true, _label text DEFAULT NULL
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+DECLARE
+  v_creator uuid;
+  v_id uuid;
+  v_result jsonb;
+BEGIN
+  IF auth.uid() IS NULL THEN RAISE EXCEPTION 'Not authenticated'; END IF;
+  SELECT creator_id INTO v_creator FROM coins WHERE id = _coin_id;
+  IF NOT FOUND THEN RAISE EXCEPTION 'Coin not found'; END IF;
+  IF v_creator IS DISTINCT FROM auth.uid() AND NOT public.is_admin(auth.uid()) THEN
+    RAISE EXCEPTION 'Only the coin creator can take snapshots';
+  END IF;
+  IF _take_at > now() + interval '90 days' THEN
+    RAISE EXCEPTION 'Snapshots can be scheduled at most 90 days ahead';
+  END IF;
+
+  INSERT INTO holder_snapshots (coin_id, created_by, label, take_at, min_amount, exclude_creator)
+  VALUES (_coin_id, auth.uid(), nullif(btrim(_label), ''), GREATEST(COALESCE(_take_at, now()), now()),
+          GREATEST(COALESCE(_min_amount, 0), 0), COALESCE(_exclude_creator, true))
+  RETURNING id INTO v_id;
+
+  IF _take_at IS NULL OR _take_at <= now() THEN
+    PERFORM public.capture_holder_snapshot(v_id);
+  END IF;
+
+  SELECT to_jsonb(s) INTO v_result FROM holder_snapshots s WHERE id = v_id;
+  RETURN v_result;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.take_due_snapshots()
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+DECLARE
+  v_id uuid;
+  v_count integer := 0;
+BEGIN
+  FOR v_id IN
+    SELECT id FROM holder_snapshots WHERE status = 'scheduled' AND take_at <= now() ORDER BY take_at
+  LOOP
+    PERFORM public.capture_holder_snapshot(v_id);
+    v_count := v_count + 1;
+  END LOOP;
+  RETURN v_count;
+END;
+$$;
+
+-- Who gets what. Recipients come from a taken snapshot, or from _recipients
+-- as [{"email": ..., "weight": ...}] (weight defaults to 1, repeated emails
+-- add up). Shares are rounded down to 6 decimals for tokens and to cents for
+-- KES; rows that can't be paid are returned as skipped with the reason.
+CREATE OR REPLACE FUNCTION public.plan_airdrop(
+  _sender uuid, _asset text, _distribution text, _total_amount numeric,
+  _snapshot_id uuid, _recipients jsonb
+)
+RETURNS TABLE (user_id uuid, email text, weight numeric, amount numeric, status text, error text)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+  WITH source AS (
+    SELECT e.user_id, NULL::text AS email, e.amount AS weight
+      FROM holder_snapshot_entries e
+     WHERE e.snapshot_id = _snapshot_id
+    UNION ALL
+    SELECT p.user_id, l.email, l.weight
+      FROM (
+        SELECT lower(btrim(r->>'email')) AS email, sum(COALESCE((r->>'weight')::numeric, 1)) AS weight
+          FROM jsonb_array_elements(CASE WHEN _snapshot_id IS NULL THEN COALESCE(_recipients, '[]'::jsonb) ELSE '[]'::jsonb END) r
+         WHERE nullif(btrim(r->>'email'), '') IS NOT NULL
+         GROUP BY 1
+      ) l
+      LEFT JOIN LATERAL (
+        SELECT pr.user_id FROM profiles pr WHERE lower(pr.email) = l.email LIMIT 1
+      ) p ON true
+  ),
+  checked AS (
+    SELECT s.user_id, s.email, s.weight,
+           CASE WHEN s.user_id IS NULL THEN 'No account with this email'
+                WHEN s.user_id = _sender THEN 'Senders cannot airdrop to themselves'
+                WHEN s.weight <= 0 THEN 'Weight must be greater than zero'
+           END AS error
+      FROM source s
+  ),
+  eligible AS (
+    SELECT count(*) AS n, COALESCE(sum(c.weight), 0) AS w FROM checked c WHERE c.error IS NULL
+  ),
+  shares AS (
+    SELECT c.*,
+           CASE WHEN c.error IS NOT NULL THEN 0
+                ELSE trunc(CASE WHEN _distribution = 'equal' THEN _total_amount / e.n
+                                ELSE _total_amount * c.weight / e.w END,
+                           CASE WHEN _asset = 'kes' THEN 2 ELSE 6 END)
+           END AS share
+      FROM checked c CROSS JOIN eligible e
+  )
+  SELECT s.user_id, s.email, s.weight, s.share,
+         CASE WHEN s.error IS NOT NULL OR s.share <= 0 THEN 'skipped' ELSE 'pending' END,
+         COALESCE(s.error, CASE WHEN s.share <= 0 THEN 'Share rounds down to zero' END)
+    FROM shares s;
+$$;
+
+-- Tokens the sender could give away right now (not locked or reserved by
+-- sell orders), or their wallet balance for KES
+CREATE OR REPLACE FUNCTION public.airdrop_available_balance(_sender uuid, _coin_id uuid, _asset text)
+RETURNS numeric
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+  SELECT CASE WHEN _asset = 'kes'
+    THEN COALESCE((SELECT fiat_balance FROM wallets WHERE user_id = _sender), 0)
+    ELSE GREATEST(0, COALESCE((SELECT amount FROM holdings WHERE user_id = _sender AND coin_id = _coin_id), 0)
+                     - public.locked_sell_amount(_sender, _coin_id))
+  END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.check_airdrop_request(
+  _coin_id uuid, _asset text, _distribution text, _total_amount numeric,
+  _snapshot_id uuid, _recipients jsonb
+)
+RETURNS void
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+DECLARE
+  v_creator uuid;
+  v_snap RECORD;
+BEGIN
+  IF auth.uid() IS NULL THEN RAISE EXCEPTION 'Not authenticated'; END IF;
+  SELECT creator_id INTO v_creator FROM coins WHERE id = _coin_id;
+  IF NOT FOUND THEN RAISE EXCEPTION 'Coin not found'; END IF;
+  IF v_creator IS DISTINCT FROM auth.uid() AND NOT public.is_admin(auth.uid()) THEN
+    RAISE EXCEPTION 'Only the coin creator can run airdrops';
+  END IF;
+  IF _asset NOT IN ('token', 'kes') THEN RAISE EXCEPTION 'Unknown asset: %', _asset; END IF;
+  IF _distribution NOT IN ('pro_rata', 'equal') THEN RAISE EXCEPTION 'Unknown distribution: %', _distribution; END IF;
+  IF _total_amount IS NULL OR _total_amount <= 0 THEN RAISE EXCEPTION 'Airdrop amount must be greater than zero'; END IF;
+
+  IF _snapshot_id IS NOT NULL THEN
+    SELECT coin_id, status INTO v_snap FROM holder_snapshots WHERE id = _snapshot_id;
+    IF NOT FOUND OR v_snap.coin_id <> _coin_id THEN RAISE EXCEPTION 'Snapshot not found for this coin'; END IF;
+    IF v_snap.status <> 'taken' THEN RAISE EXCEPTION 'Snapshot has not been taken yet'; END IF;
+  ELSIF jsonb_typeof(_recipients) IS DISTINCT FROM 'array' OR jsonb_array_length(_recipients) = 0 THEN
+    RAISE EXCEPTION 'Choose a snapshot or upload a recipient list';
+  ELSIF jsonb_array_length(_recipients) > 10000 THEN
+    RAISE EXCEPTION 'Recipient lists are limited to 10,000 rows';
+  END IF;
+END;
+$$;
+
+-- Dry run: the allocation an airdrop would make, without moving anything
+CREATE OR REPLACE FUNCTION public.preview_airdrop(
+  _coin_id uuid, _asset text, _distribution text, _total_amount numeric,
+  _snapshot_id uuid DEFAULT NULL, _recipients jsonb DEFAULT NULL
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+DECLARE
+  v_available numeric;
+  v_result jsonb;
+BEGIN
+  PERFORM public.check_airdrop_request(_coin_id, _asset, _distribution, _total_amount, _snapshot_id, _recipients);
+  v_available := public.airdrop_available_balance(auth.uid(), _coin_id, _asset);
+
+  WITH plan AS (
+    SELECT p.*, COALESCE(p.email, public.holder_alias(_coin_id, p.user_id)) AS label
+      FROM public.plan_airdrop(auth.uid(), _asset, _distribution, _total_amount, _snapshot_id, _recipients) p
+  )
+  SELECT jsonb_build_object(
+    'asset', _asset,
+    'distribution', _distribution,
+    'total_amount', _total_amount,
+    'recipients', count(*) FILTER (WHERE status = 'pending'),
+    'skipped', count(*) FILTER (WHERE status = 'skipped'),
+    'to_distribute', COALESCE(sum(amount) FILTER (WHERE status = 'pending'), 0),
+    'remainder', _total_amount - COALESCE(sum(amount) FILTER (WHERE status = 'pending'), 0),
+    'min_amount', min(amount) FILTER (WHERE status = 'pending'),
+    'max_amount', max(amount) FILTER (WHERE status = 'pending'),
+    'available', v_available,
+    'sufficient', v_available >= COALESCE(sum(amount) FILTER (WHERE status = 'pending'), 0),
+    'allocations', COALESCE((
+      SELECT jsonb_agg(jsonb_build_object('label', x.label, 'weight', x.weight, 'amount', x.amount) ORDER BY x.amount DESC)
+        FROM (SELECT * FROM plan WHERE status = 'pending' ORDER BY amount DESC LIMIT 100) x
+    ), '[]'::jsonb),
+    'skipped_entries', COALESCE((
+      SELECT jsonb_agg(jsonb_build_object('label', x.label, 'error', x.error))
+        FROM (SELECT * FROM plan WHERE status = 'skipped' LIMIT 100) x
+    ), '[]'::jsonb)
+  ) INTO v_result
+  FROM plan;
+
+  RETURN v_result;
+END;
+$$;
+
+-- Plans the airdrop, escrows the sender's funds and queues every recipient.
+-- Payment happens in run_airdrop_batch.
+CREATE OR REPLACE FUNCTION public.create_airdrop(
+  _coin_id uuid, _asset text, _distribution text, _total_amount numeric,
+  _snapshot_id uuid DEFAULT NULL, _recipients jsonb DEFAULT NULL, _message text DEFAULT NULL
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+DECLARE
+  v_sender uuid := auth.uid();
+  v_airdrop_id uuid;
+  v_escrow numeric;
+  v_holding RECORD;
+  v_wallet numeric;
+BEGIN
+  PERFORM public.check_airdrop_request(_coin_id, _asset, _distribution, _total_amount, _snapshot_id, _recipients);
+
+  INSERT INTO airdrops (coin_id, created_by, asset, distribution, snapshot_id, total_amount, message)
+  VALUES (_coin_id, v_sender, _asset, _distribution, _snapshot_id, _total_amount, nullif(btrim(_message), ''))
+  RETURNING id INTO v_airdrop_id;
+
+  INSERT INTO airdrop_recipients (airdrop_id, user_id, email, weight, amount, status, error, processed_at)
+  SELECT v_airdrop_id, p.user_id, p.email, p.weight, p.amount, p.status, p.error,
+         CASE WHEN p.status = 'skipped' THEN now() END
+    FROM public.plan_airdrop(v_sender, _asset, _distribution, _total_amount, _snapshot_id, _recipients) p;
+
+  SELECT COALESCE(sum(amount), 0) INTO v_escrow
+    FROM airdrop_recipients WHERE airdrop_id = v_airdrop_id AND status = 'pending';
+  IF v_escrow <= 0 THEN
+    RAISE EXCEPTION 'No eligible recipients';
+  END IF;
+
+  IF _asset = 'kes' THEN
+    SELECT fiat_balance INTO v_wallet FROM wallets WHERE user_id = v_sender FOR UPDATE;
+    IF COALESCE(v_wallet, 0) < v_escrow THEN
+      RAISE EXCEPTION 'Insufficient wallet balance (KES % needed)', round(v_escrow, 2);
+    END IF;
+    UPDATE wallets SET fiat_balance = fiat_balance - v_escrow WHERE user_id = v_sender;
+  ELSE
+    SELECT * INTO v_holding FROM holdings WHERE user_id = v_sender AND coin_id = _coin_id FOR UPDATE;
+    IF NOT FOUND
+       OR v_holding.amount - public.locked_sell_amount(v_sender, _coin_id) < v_escrow THEN
+      RAISE EXCEPTION 'Insufficient coin balance (% needed, locked and reserved tokens excluded)', v_escrow;
+    END IF;
+    IF v_holding.amount - v_escrow <= 0 THEN
+      DELETE FROM holdings WHERE id = v_holding.id;
+    ELSE
+      UPDATE holdings SET amount = amount - v_escrow, updated_at = now() WHERE id = v_holding.id;
+    END IF;
+  END IF;
+
+  UPDATE airdrops
+     SET escrowed = v_escrow,
+         recipient_count = (SELECT count(*) FROM airdrop_recipients WHERE airdrop_id = v_airdrop_id AND status = 'pending'),
+         skipped_count = (SELECT count(*) FROM airdrop_recipients WHERE airdrop_id = v_airdrop_id AND status = 'skipped')
+   WHERE id = v_airdrop_id;
+
+  RETURN jsonb_build_object('id', v_airdrop_id, 'escrowed', v_escrow);
+END;
+$$;
+
+-- Hands what is left in escrow back to the sender
+CREATE OR REPLACE FUNCTION public.refund_airdrop_escrow(_airdrop_id uuid)
+RETURNS numeric
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+DECLARE
+  v_drop RECORD;
+BEGIN
+  SELECT * INTO v_drop FROM airdrops WHERE id = _airdrop_id FOR UPDATE;
+  IF NOT FOUND OR v_drop.escrowed <= 0 THEN RETURN 0; END IF;
+
+  IF v_drop.asset = 'kes' THEN
+    INSERT INTO wallets (user_id, fiat_balance) VALUES (v_drop.created_by, v_drop.escrowed)
+      ON CONFLICT (user_id) DO UPDATE SET fiat_balance = wallets.fiat_balance + EXCLUDED.fiat_balance;
+  ELSE
+    INSERT INTO holdings (user_id, coin_id, amount, average_buy_price)
+      VALUES (v_drop.created_by, v_drop.coin_id, v_drop.escrowed, 0)
+      ON CONFLICT (user_id, coin_id) DO UPDATE
+        SET amount = holdings.amount + EXCLUDED.amount, updated_at = now();
+  END IF;
+
+  UPDATE airdrops SET escrowed = 0 WHERE id = _airdrop_id;
+  RETURN v_drop.escrowed;
+END;
+$$;
+
+-- Pays up to _batch_size pending recipients. Safe to call repeatedly and
+-- concurrently: batches for one airdrop queue on its row lock.
+CREATE OR REPLACE FUNCTION public.run_airdrop_batch(_airdrop_id uuid, _batch_size integer DEFAULT 200)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+DECLARE
+  v_drop RECORD;
+  v_price numeric;
+  v_recipient RECORD;
+  v_tx_id uuid;
+  v_paid numeric := 0;
+  v_sent integer := 0;
+  v_failed integer := 0;
+  v_pending integer;
+BEGIN
+  SELECT * INTO v_drop FROM airdrops WHERE id = _airdrop_id FOR UPDATE;
+  IF NOT FOUND THEN RAISE EXCEPTION 'Airdrop not found'; END IF;
+  IF v_drop.status <> 'running' THEN
+    RETURN jsonb_build_object('id', _airdrop_id, 'status', v_drop.status, 'pending', 0);
+  END IF;
+
+  SELECT price INTO v_price FROM coins WHERE id = v_drop.coin_id;
+
+  FOR v_recipient IN
+    SELECT * FROM airdrop_recipients
+     WHERE airdrop_id = _airdrop_id AND status = 'pending'
+     ORDER BY id
+     LIMIT least(greatest(coalesce(_batch_size, 200), 1), 1000)
+  LOOP
+    BEGIN
+      IF v_recipient.amount > v_drop.escrowed - v_paid THEN
+        RAISE EXCEPTION 'Escrow exhausted';
+      END IF;
+
+      IF v_drop.asset = 'kes' THEN
+        INSERT INTO wallets (user_id, fiat_balance) VALUES (v_recipient.user_id, v_recipient.amount)
+          ON CONFLICT (user_id) DO UPDATE SET fiat_balance = wallets.fiat_balance + EXCLUDED.fiat_balance;
+        v_tx_id := NULL;
+      ELSE
+        -- Airdropped coins cost nothing, so they pull the average buy price down
+        INSERT INTO holdings (user_id, coin_id, amount, average_buy_price)
+          VALUES (v_recipient.user_id, v_drop.coin_id, v_recipient.amount, 0)
+          ON CONFLICT (user_id, coin_id) DO UPDATE
+            SET average_buy_price = holdings.amount * holdings.average_buy_price / (holdings.amount + EXCLUDED.amount),
+                amount = holdings.amount + EXCLUDED.amount,
+                updated_at = now();
+        INSERT INTO transactions (user_id, coin_id, type, amount, price_per_coin, total_value, status)
+          VALUES (v_recipient.user_id, v_drop.coin_id, 'allocation', v_recipient.amount, v_price, 0, 'completed')
+          RETURNING id INTO v_tx_id;
+      END IF;
+
+      UPDATE airdrop_recipients
+         SET status = 'sent', processed_at = now(), transaction_id = v_tx_id, error = NULL
+       WHERE id = v_recipient.id;
+      v_paid := v_paid + v_recipient.amount;
+      v_sent := v_sent + 1;
+    EXCEPTION WHEN OTHERS THEN
+      UPDATE airdrop_recipients
+         SET status = 'failed', processed_at = now(), error = SQLERRM
+       WHERE id = v_recipient.id;
+      v_failed := v_failed + 1;
+    END;
+  END LOOP;
+
+  SELECT count(*) INTO v_pending FROM airdrop_recipients WHERE airdrop_id = _airdrop_id AND status = 'pending';
+
+  UPDATE airdrops
+     SET escrowed = escrowed - v_paid,
+         distributed_amount = distributed_amount + v_paid,
+         sent_count = sent_count + v_sent,
+         failed_count = failed_count + v_failed
+   WHERE id = _airdrop_id;
+
+  IF v_pending = 0 THEN
+    PERFORM public.refund_airdrop_escrow(_airdrop_id);
+    UPDATE airdrops SET status = 'completed', completed_at = now() WHERE id = _airdrop_id;
+  END IF;
+
+  IF v_drop.asset = 'token' AND v_sent > 0 THEN
+    UPDATE coins
+       SET holders_count = (SELECT count(*) FROM holdings WHERE coin_id = v_drop.coin_id AND amount > 0)
+     WHERE id = v_drop.coin_id;
+  END IF;
+
+  RETURN jsonb_build_object(
+    'id', _airdrop_id,
+    'status', CASE WHEN v_pending = 0 THEN 'completed' ELSE 'running' END,
+    'sent', v_sent,
+    'failed', v_failed,
+    'pending', v_pending
+  );
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.cancel_airdrop(_airdrop_id uuid)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+DECLARE
+  v_drop RECORD;
+  v_cancelled integer;
+  v_refunded numeric;
+BEGIN
+  SELECT * INTO v_drop FROM airdrops WHERE id = _airdrop_id FOR UPDATE;
+  IF NOT FOUND THEN RAISE EXCEPTION 'Airdrop not found'; END IF;
+  IF v_drop.created_by IS DISTINCT FROM auth.uid() AND NOT public.is_admin(auth.uid()) THEN
+    RAISE EXCEPTION 'Not allowed to cancel this airdrop';
+  END IF;
+  IF v_drop.status <> 'running' THEN
+    RAISE EXCEPTION 'Airdrop is already %', v_drop.status;
+  END IF;
+
+  UPDATE airdrop_recipients
+     SET status = 'skipped', error = 'Cancelled', processed_at = now()
+   WHERE airdrop_id = _airdrop_id AND status = 'pending';
+  GET DIAGNOSTICS v_cancelled = ROW_COUNT;
+
+  v_refunded := public.refund_airdrop_escrow(_airdrop_id);
+  UPDATE airdrops
+     SET status = 'cancelled', completed_at = now(), skipped_count = skipped_count + v_cancelled
+   WHERE id = _airdrop_id;
+
+  RETURN jsonb_build_object('id', _airdrop_id, 'cancelled', v_cancelled, 'refunded', v_refunded);
+END;
+$$;
+
+-- Per-recipient results for the sender. Uploaded recipients are shown by
+-- the email they were listed under, snapshot holders by holder_alias.
+CREATE OR REPLACE FUNCTION public.get_airdrop_recipients(
+  _airdrop_id uuid, _status text DEFAULT NULL, _limit integer DEFAULT 100, _offset integer DEFAULT 0
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+DECLARE
+  v_drop RECORD;
+  v_result jsonb;
+BEGIN
+  SELECT id, coin_id, created_by INTO v_drop FROM airdrops WHERE id = _airdrop_id;
+  IF NOT FOUND THEN RAISE EXCEPTION 'Airdrop not found'; END IF;
+  IF v_drop.created_by IS DISTINCT FROM auth.uid() AND NOT public.is_admin(auth.uid()) THEN
+    RAISE EXCEPTION 'Not allowed to view this airdrop';
+  END IF;
+
+  SELECT COALESCE(jsonb_agg(jsonb_build_object(
+           'id', r.id,
+           'label', COALESCE(r.email, public.holder_alias(v_drop.coin_id, r.user_id)),
+           'amount', r.amount,
+           'status', r.status,
+           'error', r.error,
+           'processed_at', r.processed_at,
+           'notified_at', r.notified_at
+         ) ORDER BY r.amount DESC, r.id), '[]'::jsonb)
+    INTO v_result
+    FROM (
+      SELECT * FROM airdrop_recipients
+       WHERE airdrop_id = _airdrop_id AND (_status IS NULL OR status = _status)
+       ORDER BY amount DESC, id
+       LIMIT least(greatest(coalesce(_limit, 100), 1), 500)
+      OFFSET greatest(coalesce(_offset, 0), 0)
+    ) r;
+
+  RETURN v_result;
+END;
+$$;
+
+INSERT INTO public.notification_templates
+  (name, slug, category, subject, email_body, sms_body, whatsapp_body,
+   is_email_enabled, is_sms_enabled, is_whatsapp_enabled, variables)
+VALUES
+  ('Airdrop Received', 'airdrop_received', 'trading',
+   'You received {{reward}} from {{coin_name}}',
+   '<p>Hi {{user_name}},</p><p>The {{coin_name}} ({{coin_symbol}}) team sent you <strong>{{reward}}</strong>.</p><p>{{message}}</p>',
+   '{{site_name}}: you received {{reward}} from {{coin_name}}. {{message}}',
+   '{{site_name}}: you received {{reward}} from {{coin_name}}. {{message}}',
+   true, false, false,
+   ARRAY['user_name', 'site_name', 'coin_symbol', 'coin_name', 'reward', 'message'])
+ON CONFLICT (slug) DO NOTHING;
+
+REVOKE EXECUTE ON FUNCTION public.capture_holder_snapshot(uuid) FROM anon, authenticated, public;
+REVOKE EXECUTE ON FUNCTION public.take_due_snapshots() FROM anon, authenticated, public;
+REVOKE EXECUTE ON FUNCTION public.plan_airdrop(uuid, text, text, numeric, uuid, jsonb) FROM anon, authenticated, public;
+REVOKE EXECUTE ON FUNCTION public.airdrop_available_balance(uuid, uuid, text) FROM anon, authenticated, public;
+REVOKE EXECUTE ON FUNCTION public.check_airdrop_request(uuid, text, text, numeric, uuid, jsonb) FROM anon, authenticated, public;
+REVOKE EXECUTE ON FUNCTION public.refund_airdrop_escrow(uuid) FROM anon, authenticated, public;
+REVOKE EXECUTE ON FUNCTION public.run_airdrop_batch(uuid, integer) FROM anon, authenticated, public;
+GRANT EXECUTE ON FUNCTION public.run_airdrop_batch(uuid, integer) TO service_role;
+REVOKE EXECUTE ON FUNCTION public.create_holder_snapshot(uuid, timestamptz, numeric, boolean, text) FROM anon, public;
+REVOKE EXECUTE ON FUNCTION public.preview_airdrop(uuid, text, text, numeric, uuid, jsonb) FROM anon, public;
+REVOKE EXECUTE ON FUNCTION public.create_airdrop(uuid, text, text, numeric, uuid, jsonb, text) FROM anon, public;
+REVOKE EXECUTE ON FUNCTION public.cancel_airdrop(uuid) FROM anon, public;
+REVOKE EXECUTE ON FUNCTION public.get_airdrop_recipients(uuid, text, integer, integer) FROM anon, public;
+GRANT EXECUTE ON FUNCTION public.create_holder_snapshot(uuid, timestamptz, numeric, boolean, text) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.preview_airdrop(uuid, text, text, numeric, uuid, jsonb) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.create_airdrop(uuid, text, text, numeric, uuid, jsonb, text) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.cancel_airdrop(uuid) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.get_airdrop_recipients(uuid, text, integer, integer) TO authenticated;
+
+SELECT cron.schedule('take-due-snapshots', '* * * * *', $$SELECT public.take_due_snapshots()$$);
+SELECT cron.schedule(
+  'run-airdrops',
+  '* * * * *',
+  $$
+  SELECT net.http_post(
+    url := 'https://dkuprgiaymljdjatixlc.supabase.co/functions/v1/run-airdrops',
+    headers := '{"Content-Type": "application/json"}'::jsonb,
+    body := '{}'::jsonb
+  );
+  $$
+);
@@ -0,0 +1,811 @@
+-- Creator dashboard. Creator commission used to be added straight to the
+-- creator's wallet with nothing saying where it came from; every credit is
+-- now itemised in creator_earnings next to the trade that paid it and the
+-- wallet_ledger row it produced. Credits before this migration were not
+-- recorded per trade, so earnings history starts here.
+--
+-- Holder counts were only kept as a current value on coins. coin_holder_counts
+-- keeps one row per coin per day, refreshed hourly for today; past days are
+-- rebuilt once below from the completed trade history.
+CREATE TABLE IF NOT EXISTS public.creator_earnings (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  creator_id uuid NOT NULL,
+  coin_id uuid NOT NULL REFERENCES public.coins(id) ON DELETE CASCADE,
+  transaction_id uuid REFERENCES public.transactions(id) ON DELETE SET NULL,
+  -- execute_trade (wallet and market maker trades) or complete_mpesa_buy
+  source text NOT NULL CHECK (source IN ('trade', 'mpesa_buy')),
+  trade_type text NOT NULL CHECK (trade_type IN ('buy', 'sell')),
+  trade_value numeric NOT NULL,
+  commission_rate numeric NOT NULL,
+  amount numeric NOT NULL,
+  ledger_id uuid REFERENCES public.wallet_ledger(id) ON DELETE SET NULL,
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_creator_earnings_creator
+  ON public.creator_earnings (creator_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_creator_earnings_coin
+  ON public.creator_earnings (coin_id, created_at DESC);
+
+ALTER TABLE public.creator_earnings ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Creators can view their own earnings" ON public.creator_earnings
+  FOR SELECT USING (auth.uid() = creator_id);
+CREATE POLICY "Admins can view all creator earnings" ON public.creator_earnings
+  FOR SELECT USING (public.is_admin(auth.uid()));
+
+CREATE TABLE IF NOT EXISTS public.coin_holder_counts (
+  coin_id uuid NOT NULL REFERENCES public.coins(id) ON DELETE CASCADE,
+  day date NOT NULL,
+  holders integer NOT NULL,
+  PRIMARY KEY (coin_id, day)
+);
+
+ALTER TABLE public.coin_holder_counts ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone can view holder counts" ON public.coin_holder_counts
+  FOR SELECT USING (true);
+
+-- Pays the creator their share of a trade and records why
+CREATE OR REPLACE FUNCTION public.credit_creator_commission(
+  _creator_id uuid, _coin_id uuid, _transaction_id uuid, _source text,
+  _trade_type text, _trade_value numeric, _rate numeric, _amount numeric
+)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+DECLARE
+  v_ledger_id uuid;
+BEGIN
+  INSERT INTO public.wallets (user_id, fiat_balance) VALUES (_creator_id, _amount)
+    ON CONFLICT (user_id) DO UPDATE SET fiat_balance = public.wallets.fiat_balance + _amount;
+
+  -- Written just now by journal_wallet_balance
+  SELECT id INTO v_ledger_id FROM public.wallet_ledger
+   WHERE user_id = _creator_id
+   ORDER BY created_at DESC LIMIT 1;
+
+  INSERT INTO public.creator_earnings
+    (creator_id, coin_id, transaction_id, source, trade_type, trade_value, commission_rate, amount, ledger_id)
+  VALUES (_creator_id, _coin_id, _transaction_id, _source, _trade_type, _trade_value, _rate, _amount, v_ledger_id);
+END;
+$$;
+
+-- Same as the previous versions, except the creator's commission goes through
+-- credit_creator_commission
+
+CREATE OR REPLACE FUNCTION public.execute_trade(
+  _user_id uuid, _coin_id uuid, _trade_type text, _amount numeric, _use_wallet boolean, _to_wallet boolean,
+  _expected_price numeric DEFAULT NULL, _max_slippage_pct numeric DEFAULT NULL,
+  _idempotency_key text DEFAULT NULL
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+DECLARE
+  v_coin RECORD;
+  v_settings RECORD;
+  v_wallet_balance numeric;
+  v_holding RECORD;
+  v_pricing RECORD;
+  v_exec_price numeric;
+  v_total_value numeric;
+  v_fee numeric;
+  v_creator_share numeric;
+  v_net_value numeric;
+  v_tx_id uuid;
+  v_holders_delta integer := 0;
+  v_remaining_supply numeric;
+  v_new_circ numeric;
+  v_final_price numeric;
+  v_locked numeric;
+  v_vesting numeric;
+  v_graduated boolean;
+  v_violation jsonb;
+  v_replay jsonb;
+  v_result jsonb;
+BEGIN
+  IF _amount IS NULL OR _amount <= 0 THEN
+    RAISE EXCEPTION 'Trade amount must be greater than zero';
+  END IF;
+  IF _trade_type NOT IN ('buy','sell') THEN
+    RAISE EXCEPTION 'Invalid trade type';
+  END IF;
+
+  SELECT * INTO v_coin FROM public.coins WHERE id = _coin_id FOR UPDATE;
+  IF NOT FOUND THEN RAISE EXCEPTION 'Coin not found'; END IF;
+
+  -- Checked under the coin lock so a concurrent duplicate waits for the
+  -- first call to commit and then sees its transaction
+  IF _idempotency_key IS NOT NULL THEN
+    SELECT idempotency_response INTO v_replay FROM public.transactions
+      WHERE user_id = _user_id AND idempotency_key = _idempotency_key;
+    IF FOUND THEN
+      RETURN COALESCE(v_replay, jsonb_build_object('ok', true)) || jsonb_build_object('replayed', true);
+    END IF;
+  END IF;
+
+  IF v_coin.trading_paused THEN RAISE EXCEPTION 'Trading paused for this coin'; END IF;
+
+  SELECT fee_percentage, creator_commission_percentage
+    INTO v_settings FROM public.site_settings LIMIT 1;
+
+  IF _trade_type = 'buy' THEN
+    v_remaining_supply := GREATEST(0, COALESCE(v_coin.total_supply, 0) - COALESCE(v_coin.circulating_supply, 0));
+    IF v_remaining_supply <= 0 THEN
+      RAISE EXCEPTION 'No remaining supply available for purchase';
+    END IF;
+    IF _amount > v_remaining_supply THEN
+      RAISE EXCEPTION 'Requested amount exceeds remaining supply (% available)', v_remaining_supply;
+    END IF;
+
+    SELECT * INTO v_pricing FROM public.price_curve_trade(_coin_id, 'buy', _amount);
+    v_exec_price := v_pricing.average_price;
+    IF _expected_price IS NOT NULL AND _max_slippage_pct IS NOT NULL
+       AND v_exec_price > _expected_price * (1 + _max_slippage_pct / 100.0) THEN
+      RAISE EXCEPTION 'Price moved beyond your slippage tolerance (quoted %, now %)',
+        round(_expected_price, 6), round(v_exec_price, 6);
+    END IF;
+    v_total_value := v_pricing.total_value;
+
+    v_violation := public.trade_limit_violation(_user_id, _coin_id, _amount, v_total_value);
+    IF v_violation IS NOT NULL THEN
+      RAISE EXCEPTION USING
+        MESSAGE = v_violation->>'message',
+        DETAIL = v_violation::text,
+        HINT = v_violation->>'code';
+    END IF;
+
+    v_fee := v_total_value * (COALESCE(v_settings.fee_percentage, 0) / 100.0);
+    v_creator_share := v_total_value * (COALESCE(v_settings.creator_commission_percentage, 0) / 100.0);
+
+    IF _use_wallet THEN
+      SELECT fiat_balance INTO v_wallet_balance FROM public.wallets WHERE user_id = _user_id FOR UPDATE;
+      IF v_wallet_balance IS NULL THEN RAISE EXCEPTION 'Wallet not found'; END IF;
+      IF v_wallet_balance < (v_total_value + v_fee) THEN
+        RAISE EXCEPTION 'Insufficient wallet balance';
+      END IF;
+      UPDATE public.wallets SET fiat_balance = fiat_balance - (v_total_value + v_fee) WHERE user_id = _user_id;
+    END IF;
+
+    INSERT INTO public.transactions (user_id, coin_id, type, amount, price_per_coin, total_value, status, idempotency_key)
+      VALUES (_user_id, _coin_id, 'buy', _amount, v_exec_price, v_total_value, 'completed', _idempotency_key)
+      RETURNING id INTO v_tx_id;
+
+    SELECT * INTO v_holding FROM public.holdings WHERE user_id = _user_id AND coin_id = _coin_id FOR UPDATE;
+    IF v_holding.id IS NULL THEN
+      INSERT INTO public.holdings (user_id, coin_id, amount, average_buy_price)
+        VALUES (_user_id, _coin_id, _amount, v_exec_price);
+      v_holders_delta := 1;
+    ELSE
+      UPDATE public.holdings
+        SET amount = v_holding.amount + _amount,
+            average_buy_price = ((v_holding.amount * v_holding.average_buy_price) + (_amount * v_exec_price)) / (v_holding.amount + _amount),
+            updated_at = now()
+        WHERE id = v_holding.id;
+    END IF;
+
+    v_new_circ := v_pricing.new_circulating;
+    v_final_price := v_pricing.new_price;
+
+  ELSE
+    SELECT * INTO v_holding FROM public.holdings WHERE user_id = _user_id AND coin_id = _coin_id FOR UPDATE;
+    IF v_holding.id IS NULL OR v_holding.amount < _amount THEN
+      RAISE EXCEPTION 'Insufficient coin balance';
+    END IF;
+    v_vesting := public.vesting_locked_amount(_user_id, _coin_id);
+    IF v_holding.amount - v_vesting < _amount THEN
+      RAISE EXCEPTION 'Insufficient unlocked balance (% still locked under a vesting schedule)', round(v_vesting, 4);
+    END IF;
+    v_locked := public.locked_sell_amount(_user_id, _coin_id);
+    IF v_holding.amount - v_locked < _amount THEN
+      RAISE EXCEPTION 'Insufficient coin balance (% reserved by open sell orders)', v_locked - v_vesting;
+    END IF;
+    IF _amount > v_coin.circulating_supply THEN
+      RAISE EXCEPTION 'Sell amount exceeds circulating supply';
+    END IF;
+
+    SELECT * INTO v_pricing FROM public.price_curve_trade(_coin_id, 'sell', _amount);
+    v_exec_price := v_pricing.average_price;
+    IF _expected_price IS NOT NULL AND _max_slippage_pct IS NOT NULL
+       AND v_exec_price < _expected_price * (1 - _max_slippage_pct / 100.0) THEN
+      RAISE EXCEPTION 'Price moved beyond your slippage tolerance (quoted %, now %)',
+        round(_expected_price, 6), round(v_exec_price, 6);
+    END IF;
+    v_total_value := v_pricing.total_value;
+    v_fee := v_total_value * (COALESCE(v_settings.fee_percentage, 0) / 100.0);
+    v_creator_share := v_total_value * (COALESCE(v_settings.creator_commission_percentage, 0) / 100.0);
+    v_net_value := GREATEST(0, v_total_value - v_fee);
+
+    INSERT INTO public.transactions (user_id, coin_id, type, amount, price_per_coin, total_value, status, idempotency_key)
+      VALUES (_user_id, _coin_id, 'sell', _amount, v_exec_price, v_total_value, 'completed', _idempotency_key)
+      RETURNING id INTO v_tx_id;
+
+    IF v_holding.amount - _amount <= 0 THEN
+      DELETE FROM public.holdings WHERE id = v_holding.id;
+      v_holders_delta := -1;
+    ELSE
+      UPDATE public.holdings SET amount = v_holding.amount - _amount, updated_at = now() WHERE id = v_holding.id;
+    END IF;
+
+    IF _to_wallet THEN
+      INSERT INTO public.wallets (user_id, fiat_balance) VALUES (_user_id, v_net_value)
+        ON CONFLICT (user_id) DO UPDATE SET fiat_balance = public.wallets.fiat_balance + v_net_value;
+    END IF;
+
+    v_new_circ := v_pricing.new_circulating;
+    v_final_price := v_pricing.new_price;
+  END IF;
+
+  PERFORM set_config('app.skip_price_trigger', '1', true);
+  IF v_coin.is_graduated THEN
+    -- Pool liquidity is the quote reserve itself
+    UPDATE public.coins
+      SET circulating_supply = v_new_circ,
+          pool_token_reserve = CASE WHEN _trade_type = 'buy' THEN pool_token_reserve - _amount
+                                    ELSE pool_token_reserve + _amount END,
+          pool_quote_reserve = CASE WHEN _trade_type = 'buy' THEN pool_quote_reserve + v_total_value
+                                    ELSE pool_quote_reserve - v_total_value END,
+          liquidity = CASE WHEN _trade_type = 'buy' THEN pool_quote_reserve + v_total_value
+                           ELSE pool_quote_reserve - v_total_value END,
+          price = v_final_price,
+          market_cap = v_final_price * v_new_circ,
+          holders_count = GREATEST(0, holders_count + v_holders_delta),
+          updated_at = now()
+      WHERE id = _coin_id;
+  ELSE
+    UPDATE public.coins
+      SET circulating_supply = v_new_circ,
+          price = v_final_price,
+          market_cap = v_final_price * v_new_circ,
+          liquidity = CASE WHEN _trade_type = 'buy'
+                           THEN COALESCE(liquidity, 0) + v_total_value
+                           ELSE GREATEST(0, COALESCE(liquidity, 0) - v_total_value) END,
+          holders_count = GREATEST(0, holders_count + v_holders_delta),
+          updated_at = now()
+      WHERE id = _coin_id;
+  END IF;
+  PERFORM set_config('app.skip_price_trigger', '0', true);
+
+  IF v_fee > 0 THEN
+    INSERT INTO public.commission_transactions (transaction_id, amount, commission_rate)
+      VALUES (v_tx_id, v_fee, COALESCE(v_settings.fee_percentage, 0));
+  END IF;
+
+  IF v_coin.creator_id IS NOT NULL AND v_coin.creator_id <> _user_id AND v_creator_share > 0 THEN
+    PERFORM public.credit_creator_commission(v_coin.creator_id, _coin_id, v_tx_id, 'trade', _trade_type,
+      v_total_value, v_settings.creator_commission_percentage, v_creator_share);
+  END IF;
+
+  INSERT INTO public.price_history (coin_id, price, volume, trade_type)
+    VALUES (_coin_id, v_final_price, v_total_value, _trade_type);
+
+  v_graduated := NOT v_coin.is_graduated AND public.maybe_graduate_coin(_coin_id);
+
+  v_result := jsonb_build_object(
+    'ok', true,
+    'transaction_id', v_tx_id,
+    'executed_price', v_exec_price,
+    'spot_price', v_pricing.spot_price,
+    'total_value', v_total_value,
+    'new_market_price', v_final_price,
+    'fee', v_fee,
+    'graduated', v_graduated
+  );
+  IF _idempotency_key IS NOT NULL THEN
+    UPDATE public.transactions SET idempotency_response = v_result WHERE id = v_tx_id;
+  END IF;
+  RETURN v_result;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.complete_mpesa_buy(_transaction_id uuid, _mpesa_receipt text, _idempotency_key text DEFAULT NULL)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+DECLARE
+  v_tx RECORD;
+  v_coin RECORD;
+  v_settings RECORD;
+  v_holding RECORD;
+  v_holders_delta integer := 0;
+  v_creator_share numeric;
+  v_holders_count integer;
+  v_remaining_supply numeric;
+  v_new_circ numeric;
+  v_new_base_price numeric;
+  v_current_price numeric;
+  v_paid numeric;
+  v_graduated boolean;
+  v_result jsonb;
+BEGIN
+  SELECT * INTO v_tx FROM public.transactions WHERE id = _transaction_id FOR UPDATE;
+  IF NOT FOUND THEN RETURN jsonb_build_object('ok', false, 'error', 'Transaction not found'); END IF;
+  IF _idempotency_key IS NOT NULL AND v_tx.idempotency_key IS NOT NULL AND v_tx.idempotency_key <> _idempotency_key THEN
+    RETURN jsonb_build_object('ok', false, 'error', 'Idempotency key does not match this transaction');
+  END IF;
+
+  -- Settled already (callback and status query both land here): hand back
+  -- the original outcome rather than allocating or refunding twice
+  IF v_tx.idempotency_response IS NOT NULL THEN
+    RETURN v_tx.idempotency_response || jsonb_build_object('replayed', true);
+  END IF;
+
+  IF v_tx.status = 'completed' THEN
+    IF _mpesa_receipt IS NOT NULL AND _mpesa_receipt <> '' AND COALESCE(v_tx.mpesa_receipt, '') <> _mpesa_receipt THEN
+      UPDATE public.transactions
+        SET mpesa_receipt = _mpesa_receipt, updated_at = now()
+        WHERE id = _transaction_id;
+    END IF;
+    RETURN jsonb_build_object('ok', true, 'already_completed', true);
+  END IF;
+
+  SELECT * INTO v_coin FROM public.coins WHERE id = v_tx.coin_id FOR UPDATE;
+  IF NOT FOUND THEN RETURN jsonb_build_object('ok', false, 'error', 'Coin not found'); END IF;
+
+  v_remaining_supply := GREATEST(0, COALESCE(v_coin.total_supply, 0) - COALESCE(v_coin.circulating_supply, 0));
+  IF v_tx.amount > v_remaining_supply THEN
+    v_result := jsonb_build_object('ok', false, 'error', 'Coin supply exhausted');
+    UPDATE public.transactions
+      SET status = 'failed',
+          mpesa_receipt = COALESCE(NULLIF(_mpesa_receipt, ''), mpesa_receipt),
+          idempotency_key = COALESCE(idempotency_key, _idempotency_key),
+          idempotency_response = v_result,
+          updated_at = now()
+      WHERE id = _transaction_id;
+    RETURN v_result;
+  END IF;
+  IF v_coin.is_graduated AND v_tx.amount >= v_coin.pool_token_reserve THEN
+    v_result := jsonb_build_object('ok', false, 'error', 'Insufficient pool liquidity');
+    UPDATE public.transactions
+      SET status = 'failed',
+          mpesa_receipt = COALESCE(NULLIF(_mpesa_receipt, ''), mpesa_receipt),
+          idempotency_key = COALESCE(idempotency_key, _idempotency_key),
+          idempotency_response = v_result,
+          updated_at = now()
+      WHERE id = _transaction_id;
+    RETURN v_result;
+  END IF;
+
+  SELECT fee_percentage, creator_commission_percentage INTO v_settings
+    FROM public.site_settings LIMIT 1;
+
+  -- The price was quoted when the STK push went out; reject the fill if the
+  -- curve has since moved past the buyer's tolerance. The payment has already
+  -- cleared, so it is kept as wallet balance instead.
+  IF v_tx.max_slippage_pct IS NOT NULL THEN
+    SELECT average_price INTO v_current_price
+      FROM public.price_curve_trade(v_tx.coin_id, 'buy', v_tx.amount);
+    IF v_current_price > v_tx.price_per_coin * (1 + v_tx.max_slippage_pct / 100.0) THEN
+      v_paid := round(v_tx.total_value * (1 + COALESCE(v_settings.fee_percentage, 0) / 100.0));
+      INSERT INTO public.wallets (user_id, fiat_balance) VALUES (v_tx.user_id, v_paid)
+        ON CONFLICT (user_id) DO UPDATE SET fiat_balance = public.wallets.fiat_balance + v_paid;
+      v_result := jsonb_build_object('ok', false, 'error', 'Price moved beyond slippage tolerance',
+        'credited_to_wallet', v_paid, 'quoted_price', v_tx.price_per_coin, 'current_price', v_current_price);
+      UPDATE public.transactions
+        SET status = 'cancelled',
+            mpesa_receipt = COALESCE(NULLIF(_mpesa_receipt, ''), mpesa_receipt),
+            idempotency_key = COALESCE(idempotency_key, _idempotency_key),
+            idempotency_response = v_result,
+            updated_at = now()
+        WHERE id = _transaction_id;
+      RETURN v_result;
+    END IF;
+  END IF;
+
+  UPDATE public.transactions
+    SET status = 'completed',
+        mpesa_receipt = COALESCE(NULLIF(_mpesa_receipt, ''), mpesa_receipt),
+        updated_at = now()
+    WHERE id = _transaction_id;
+
+  SELECT * INTO v_holding FROM public.holdings
+    WHERE user_id = v_tx.user_id AND coin_id = v_tx.coin_id FOR UPDATE;
+
+  IF v_holding.id IS NULL THEN
+    INSERT INTO public.holdings (user_id, coin_id, amount, average_buy_price)
+      VALUES (v_tx.user_id, v_tx.coin_id, v_tx.amount, v_tx.price_per_coin);
+    v_holders_delta := 1;
+  ELSE
+    UPDATE public.holdings
+      SET amount = v_holding.amount + v_tx.amount,
+          average_buy_price = ((v_holding.amount * v_holding.average_buy_price)
+            + (v_tx.amount * v_tx.price_per_coin)) / (v_holding.amount + v_tx.amount),
+          updated_at = now()
+      WHERE id = v_holding.id;
+  END IF;
+
+  SELECT count(*) INTO v_holders_count FROM public.holdings
+    WHERE coin_id = v_tx.coin_id AND amount > 0;
+
+  v_new_circ := v_coin.circulating_supply + v_tx.amount;
+
+  PERFORM set_config('app.skip_price_trigger', '1', true);
+  IF v_coin.is_graduated THEN
+    -- The buyer paid the quoted amount; it all goes into the pool
+    v_new_base_price := (v_coin.pool_quote_reserve + v_tx.total_value) / (v_coin.pool_token_reserve - v_tx.amount);
+    UPDATE public.coins
+      SET circulating_supply = v_new_circ,
+          pool_token_reserve = pool_token_reserve - v_tx.amount,
+          pool_quote_reserve = pool_quote_reserve + v_tx.total_value,
+          liquidity = pool_quote_reserve + v_tx.total_value,
+          price = v_new_base_price,
+          market_cap = v_new_base_price * v_new_circ,
+          holders_count = v_holders_count,
+          updated_at = now()
+      WHERE id = v_tx.coin_id;
+  ELSE
+    v_new_base_price := public.calculate_bonding_price(v_coin.initial_price, v_coin.bonding_curve_factor, v_new_circ);
+    UPDATE public.coins
+      SET circulating_supply = v_new_circ,
+          price = v_new_base_price,
+          market_cap = v_new_base_price * v_new_circ,
+          liquidity = COALESCE(liquidity, 0) + v_tx.total_value,
+          holders_count = v_holders_count,
+          updated_at = now()
+      WHERE id = v_tx.coin_id;
+  END IF;
+  PERFORM set_config('app.skip_price_trigger', '0', true);
+
+  INSERT INTO public.price_history (coin_id, price, volume, trade_type)
+    VALUES (v_tx.coin_id, v_new_base_price, v_tx.total_value, 'buy');
+
+  IF COALESCE(v_settings.fee_percentage, 0) > 0 THEN
+    INSERT INTO public.commission_transactions (transaction_id, amount, commission_rate)
+      VALUES (_transaction_id, v_tx.total_value * (v_settings.fee_percentage / 100.0), v_settings.fee_percentage);
+  END IF;
+
+  IF v_coin.creator_id IS NOT NULL
+     AND v_coin.creator_id <> v_tx.user_id
+     AND COALESCE(v_settings.creator_commission_percentage, 0) > 0 THEN
+    v_creator_share := v_tx.total_value * (v_settings.creator_commission_percentage / 100.0);
+    PERFORM public.credit_creator_commission(v_coin.creator_id, v_tx.coin_id, _transaction_id, 'mpesa_buy', 'buy',
+      v_tx.total_value, v_settings.creator_commission_percentage, v_creator_share);
+  END IF;
+
+  v_graduated := NOT v_coin.is_graduated AND public.maybe_graduate_coin(v_tx.coin_id);
+
+  v_result := jsonb_build_object('ok', true, 'allocated', v_tx.amount, 'new_market_price', v_new_base_price,
+    'graduated', v_graduated);
+  UPDATE public.transactions
+    SET idempotency_key = COALESCE(idempotency_key, _idempotency_key),
+        idempotency_response = v_result
+    WHERE id = _transaction_id;
+  RETURN v_result;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.record_holder_counts()
+RETURNS void
+LANGUAGE sql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+  INSERT INTO coin_holder_counts (coin_id, day, holders)
+  SELECT id, current_date, COALESCE(holders_count, 0) FROM coins
+  ON CONFLICT (coin_id, day) DO UPDATE SET holders = EXCLUDED.holders;
+$$;
+
+-- Past days: replay each account's completed buys, sells, allocations and
+-- burns and count who held a positive balance at the end of every day
+WITH deltas AS (
+  SELECT coin_id, user_id, created_at::date AS day,
+         sum(CASE WHEN type IN ('buy', 'allocation') THEN amount ELSE -amount END) AS delta
+    FROM public.transactions
+   WHERE status = 'completed' AND type IN ('buy', 'sell', 'allocation', 'burn')
+   GROUP BY 1, 2, 3
+),
+balances AS (
+  SELECT coin_id, user_id, day,
+         sum(delta) OVER (PARTITION BY coin_id, user_id ORDER BY day) AS balance
+    FROM deltas
+),
+days AS (
+  SELECT c.id AS coin_id, d::date AS day
+    FROM public.coins c,
+         generate_series(c.created_at::date, current_date - 1, interval '1 day') d
+)
+INSERT INTO public.coin_holder_counts (coin_id, day, holders)
+SELECT d.coin_id, d.day,
+       (SELECT count(*) FROM (
+          SELECT DISTINCT ON (b.user_id) b.balance
+            FROM balances b
+           WHERE b.coin_id = d.coin_id AND b.day <= d.day
+           ORDER BY b.user_id, b.day DESC
+        ) latest WHERE latest.balance > 0)
+  FROM days d
+ON CONFLICT (coin_id, day) DO NOTHING;
+
+SELECT public.record_holder_counts();
+
+-- When a stream counts as live: from going live until it was switched off or
+-- expired. Streams are switched off by updating the row, so updated_at marks
+-- the end of an inactive stream.
+CREATE OR REPLACE FUNCTION public.live_stream_windows(_coin_ids uuid[])
+RETURNS TABLE (id uuid, coin_id uuid, title text, is_active boolean, started_at timestamptz, ended_at timestamptz)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+  SELECT ls.id, ls.coin_id, ls.title, ls.is_active AND ls.expires_at > now(), ls.created_at,
+         CASE WHEN ls.is_active THEN LEAST(ls.expires_at, now())
+              ELSE LEAST(ls.expires_at, ls.updated_at) END
+    FROM live_streams ls
+   WHERE ls.coin_id = ANY(_coin_ids);
+$$;
+
+-- Overview of every coin the caller created over the last _days days
+CREATE OR REPLACE FUNCTION public.get_creator_dashboard(_days integer DEFAULT 30)
+RETURNS jsonb
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+DECLARE
+  v_uid uuid := auth.uid();
+  v_days integer := least(greatest(coalesce(_days, 30), 1), 365);
+  v_since timestamptz;
+  v_coin_ids uuid[];
+  v_result jsonb;
+BEGIN
+  IF v_uid IS NULL THEN RAISE EXCEPTION 'Not authenticated'; END IF;
+  v_since := date_trunc('day', now()) - (v_days - 1) * interval '1 day';
+
+  SELECT COALESCE(array_agg(id), '{}') INTO v_coin_ids FROM coins WHERE creator_id = v_uid;
+
+  WITH trades AS (
+    SELECT t.coin_id, t.user_id, t.total_value, t.created_at
+      FROM transactions t
+     WHERE t.coin_id = ANY(v_coin_ids) AND t.status = 'completed' AND t.type IN ('buy', 'sell')
+       AND t.created_at >= v_since
+  ),
+  windows AS (
+    SELECT w.coin_id, w.started_at, w.ended_at FROM public.live_stream_windows(v_coin_ids) w
+     WHERE w.ended_at >= v_since
+  ),
+  earnings AS (
+    SELECT e.coin_id, e.amount, e.created_at FROM creator_earnings e WHERE e.creator_id = v_uid
+  ),
+  per_coin AS (
+    SELECT c.id, c.name, c.symbol, c.logo_url, c.price, c.market_cap, c.is_approved,
+           COALESCE(c.holders_count, 0) AS holders,
+           (SELECT h.holders FROM coin_holder_counts h
+             WHERE h.coin_id = c.id AND h.day < v_since::date
+             ORDER BY h.day DESC LIMIT 1) AS holders_before,
+           COALESCE((SELECT sum(t.total_value) FROM trades t WHERE t.coin_id = c.id), 0) AS volume,
+           (SELECT count(*) FROM trades t WHERE t.coin_id = c.id) AS trades,
+           (SELECT count(DISTINCT t.user_id) FROM trades t WHERE t.coin_id = c.id) AS traders,
+           COALESCE((SELECT sum(t.total_value) FROM trades t
+                      WHERE t.coin_id = c.id
+                        AND EXISTS (SELECT 1 FROM windows w
+                                     WHERE w.coin_id = c.id
+                                       AND t.created_at >= w.started_at AND t.created_at < w.ended_at)), 0) AS live_volume,
+           COALESCE((SELECT sum(e.amount) FROM earnings e WHERE e.coin_id = c.id AND e.created_at >= v_since), 0) AS earnings,
+           COALESCE((SELECT sum(e.amount) FROM earnings e WHERE e.coin_id = c.id), 0) AS earnings_total
+      FROM coins c
+     WHERE c.id = ANY(v_coin_ids)
+  )
+  SELECT jsonb_build_object(
+    'days', v_days,
+    'since', v_since,
+    'earnings_tracked_since', (SELECT min(created_at) FROM earnings),
+    'totals', jsonb_build_object(
+      'coins', count(*),
+      'holders', COALESCE(sum(p.holders), 0),
+      'volume', COALESCE(sum(p.volume), 0),
+      'trades', COALESCE(sum(p.trades), 0),
+      'live_volume', COALESCE(sum(p.live_volume), 0),
+      'earnings', COALESCE(sum(p.earnings), 0),
+      'earnings_total', COALESCE(sum(p.earnings_total), 0)
+    ),
+    'coins', COALESCE(jsonb_agg(jsonb_build_object(
+      'id', p.id,
+      'name', p.name,
+      'symbol', p.symbol,
+      'logo_url', p.logo_url,
+      'price', p.price,
+      'market_cap', p.market_cap,
+      'is_approved', p.is_approved,
+      'holders', p.holders,
+      'holders_change', p.holders - COALESCE(p.holders_before, 0),
+      'volume', p.volume,
+      'trades', p.trades,
+      'traders', p.traders,
+      'live_volume', p.live_volume,
+      'earnings', p.earnings,
+      'earnings_total', p.earnings_total
+    ) ORDER BY p.volume DESC, p.name), '[]'::jsonb),
+    'daily', (
+      SELECT jsonb_agg(jsonb_build_object(
+               'day', d.day::date,
+               'volume', COALESCE((SELECT sum(t.total_value) FROM trades t WHERE t.created_at::date = d.day), 0),
+               'earnings', COALESCE((SELECT sum(e.amount) FROM earnings e WHERE e.created_at::date = d.day), 0)
+             ) ORDER BY d.day)
+        FROM generate_series(v_since::date, current_date, interval '1 day') AS d(day)
+    )
+  ) INTO v_result
+  FROM per_coin p;
+
+  RETURN v_result;
+END;
+$$;
+
+-- Day-by-day activity for one coin, its biggest buyers and how each live
+-- stream did. Trades are attributed to a stream when they happened while it
+-- was live.
+CREATE OR REPLACE FUNCTION public.get_creator_coin_insights(_coin_id uuid, _days integer DEFAULT 30)
+RETURNS jsonb
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+DECLARE
+  v_coin RECORD;
+  v_days integer := least(greatest(coalesce(_days, 30), 1), 365);
+  v_since timestamptz;
+  v_hours numeric;
+  v_result jsonb;
+BEGIN
+  SELECT id, creator_id, holders_count INTO v_coin FROM coins WHERE id = _coin_id;
+  IF NOT FOUND THEN RAISE EXCEPTION 'Coin not found'; END IF;
+  IF v_coin.creator_id IS DISTINCT FROM auth.uid() AND NOT public.is_admin(auth.uid()) THEN
+    RAISE EXCEPTION 'Only the coin creator can view these insights';
+  END IF;
+  v_since := date_trunc('day', now()) - (v_days - 1) * interval '1 day';
+  v_hours := GREATEST(extract(epoch FROM now() - v_since) / 3600, 1);
+
+  WITH trades AS (
+    SELECT t.user_id, t.type, t.amount, t.total_value, t.created_at
+      FROM transactions t
+     WHERE t.coin_id = _coin_id AND t.status = 'completed' AND t.type IN ('buy', 'sell')
+       AND t.created_at >= v_since
+  ),
+  first_buys AS (
+    SELECT t.user_id, min(t.created_at) AS first_at
+      FROM transactions t
+     WHERE t.coin_id = _coin_id AND t.status = 'completed' AND t.type = 'buy'
+     GROUP BY t.user_id
+  ),
+  earnings AS (
+    SELECT e.amount, e.created_at FROM creator_earnings e WHERE e.coin_id = _coin_id
+  ),
+  windows AS (
+    SELECT * FROM public.live_stream_windows(ARRAY[_coin_id]) w
+     WHERE w.ended_at >= v_since
+     ORDER BY w.started_at DESC
+     LIMIT 20
+  )
+  SELECT jsonb_build_object(
+    'days', v_days,
+    'since', v_since,
+    'volume_per_hour', round(COALESCE((SELECT sum(total_value) FROM trades), 0) / v_hours, 2),
+    'daily', (
+      SELECT jsonb_agg(jsonb_build_object(
+               'day', d.day::date,
+               'volume', COALESCE((SELECT sum(t.total_value) FROM trades t WHERE t.created_at::date = d.day), 0),
+               'buys', (SELECT count(*) FROM trades t WHERE t.type = 'buy' AND t.created_at::date = d.day),
+               'sells', (SELECT count(*) FROM trades t WHERE t.type = 'sell' AND t.created_at::date = d.day),
+               'earnings', COALESCE((SELECT sum(e.amount) FROM earnings e WHERE e.created_at::date = d.day), 0),
+               'holders', CASE WHEN d.day = current_date THEN COALESCE(v_coin.holders_count, 0)
+                               ELSE COALESCE((SELECT h.holders FROM coin_holder_counts h
+                                               WHERE h.coin_id = _coin_id AND h.day <= d.day
+                                               ORDER BY h.day DESC LIMIT 1), 0) END
+             ) ORDER BY d.day)
+        FROM generate_series(v_since::date, current_date, interval '1 day') AS d(day)
+    ),
+    'top_buyers', COALESCE((
+      SELECT jsonb_agg(jsonb_build_object(
+               'alias', public.holder_alias(_coin_id, b.user_id),
+               'spent', b.spent,
+               'bought', b.bought,
+               'buys', b.buys,
+               'holding', COALESCE((SELECT h.amount FROM holdings h WHERE h.coin_id = _coin_id AND h.user_id = b.user_id), 0)
+             ) ORDER BY b.spent DESC)
+        FROM (SELECT t.user_id, sum(t.total_value) AS spent, sum(t.amount) AS bought, count(*) AS buys
+                FROM trades t WHERE t.type = 'buy'
+               GROUP BY t.user_id ORDER BY spent DESC LIMIT 10) b
+    ), '[]'::jsonb),
+    'streams', COALESCE((
+      SELECT jsonb_agg(jsonb_build_object(
+               'id', w.id,
+               'title', w.title,
+               'is_active', w.is_active,
+               'started_at', w.started_at,
+               'ended_at', w.ended_at,
+               'trades', s.trades,
+               'volume', s.volume,
+               'buyers', s.buyers,
+               'new_holders', (SELECT count(*) FROM first_buys f
+                                WHERE f.first_at >= w.started_at AND f.first_at < w.ended_at),
+               'earnings', COALESCE((SELECT sum(e.amount) FROM earnings e
+                                      WHERE e.created_at >= w.started_at AND e.created_at < w.ended_at), 0),
+               'volume_per_hour', round(s.volume / GREATEST(extract(epoch FROM w.ended_at - w.started_at) / 3600, 1.0 / 60), 2)
+             ) ORDER BY w.started_at DESC)
+        FROM windows w
+        CROSS JOIN LATERAL (
+          SELECT count(*) AS trades,
+                 COALESCE(sum(t.total_value), 0) AS volume,
+                 count(DISTINCT t.user_id) FILTER (WHERE t.type = 'buy') AS buyers
+            FROM transactions t
+           WHERE t.coin_id = _coin_id AND t.status = 'completed' AND t.type IN ('buy', 'sell')
+             AND t.created_at >= w.started_at AND t.created_at < w.ended_at
+        ) s
+    ), '[]'::jsonb)
+  ) INTO v_result;
+
+  RETURN v_result;
+END;
+$$;
+
+-- Every commission credit, newest first, with the wallet balance it left
+CREATE OR REPLACE FUNCTION public.get_creator_payouts(
+  _coin_id uuid DEFAULT NULL, _limit integer DEFAULT 50, _offset integer DEFAULT 0
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+DECLARE
+  v_uid uuid := auth.uid();
+  v_result jsonb;
+BEGIN
+  IF v_uid IS NULL THEN RAISE EXCEPTION 'Not authenticated'; END IF;
+
+  SELECT jsonb_build_object(
+    'total_count', count(*),
+    'total_amount', COALESCE(sum(e.amount), 0),
+    'payouts', COALESCE((
+      SELECT jsonb_agg(jsonb_build_object(
+               'id', x.id,
+               'created_at', x.created_at,
+               'coin_id', x.coin_id,
+               'symbol', x.symbol,
+               'source', x.source,
+               'trade_type', x.trade_type,
+               'trade_value', x.trade_value,
+               'commission_rate', x.commission_rate,
+               'amount', x.amount,
+               'balance_after', x.balance_after,
+               'transaction_id', x.transaction_id
+             ) ORDER BY x.created_at DESC)
+        FROM (
+          SELECT pe.*, c.symbol, l.balance_after
+            FROM creator_earnings pe
+            JOIN coins c ON c.id = pe.coin_id
+            LEFT JOIN wallet_ledger l ON l.id = pe.ledger_id
+           WHERE pe.creator_id = v_uid AND (_coin_id IS NULL OR pe.coin_id = _coin_id)
+           ORDER BY pe.created_at DESC
+           LIMIT least(greatest(coalesce(_limit, 50), 1), 200)
+          OFFSET greatest(coalesce(_offset, 0), 0)
+        ) x
+    ), '[]'::jsonb)
+  ) INTO v_result
+  FROM creator_earnings e
+  WHERE e.creator_id = v_uid AND (_coin_id IS NULL OR e.coin_id = _coin_id);
+
+  RETURN v_result;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.credit_creator_commission(uuid, uuid, uuid, text, text, numeric, numeric, numeric) FROM anon, authenticated, public;
+REVOKE EXECUTE ON FUNCTION public.record_holder_counts() FROM anon, authenticated, public;
+REVOKE EXECUTE ON FUNCTION public.live_stream_windows(uuid[]) FROM anon, authenticated, public;
+REVOKE EXECUTE ON FUNCTION public.get_creator_dashboard(integer) FROM anon, public;
+REVOKE EXECUTE ON FUNCTION public.get_creator_coin_insights(uuid, integer) FROM anon, public;
+REVOKE EXECUTE ON FUNCTION public.get_creator_payouts(uuid, integer, integer) FROM anon, public;
+GRANT EXECUTE ON FUNCTION public.get_creator_dashboard(integer) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.get_creator_coin_insights(uuid, integer) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.get_creator_payouts(uuid, integer, integer) TO authenticated;
+
+SELECT cron.schedule('record-holder-counts', '5 * * * *', $$SELECT public.record_holder_counts()$$);
@@ -0,0 +1,26 @@
+-- Emptied order book levels are zeroed instead of deleted. Realtime does not
+-- deliver DELETE events to subscribers that filter by coin_id, so a level that
+-- emptied used to stay on screen until something else changed. An UPDATE to
+-- zero reaches the filtered subscription and the client drops the row;
+-- daily-cleanup purges zero rows once they are a day old.
+CREATE OR REPLACE FUNCTION public.apply_order_book_delta(_coin_id uuid, _side text, _price numeric, _amount numeric, _count integer)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+BEGIN
+  INSERT INTO public.order_book_levels (coin_id, side, price, amount, order_count)
+    VALUES (_coin_id, _side, _price, GREATEST(_amount, 0), GREATEST(_count, 0))
+    ON CONFLICT (coin_id, side, price) DO UPDATE
+      SET amount = GREATEST(public.order_book_levels.amount + _amount, 0),
+          order_count = GREATEST(public.order_book_levels.order_count + _count, 0),
+          updated_at = now();
+
+  UPDATE public.order_book_levels
+     SET amount = 0, order_count = 0
+   WHERE coin_id = _coin_id AND side = _side AND price = _price
+     AND (order_count <= 0 OR amount <= 0)
+     AND (order_count <> 0 OR amount <> 0);
+END;
+$$;
@@ -0,0 +1,188 @@
+-- When an M-Pesa buy is cancelled for slippage, complete_mpesa_buy credited
+-- the wallet with the quoted value plus today's fee rate, which is not
+-- necessarily what the STK prompt charged. mpesa-stk-push now records the
+-- amount it asked for on the transaction and that is what gets refunded.
+-- Buys prompted before this column existed fall back to the old estimate.
+ALTER TABLE public.transactions ADD COLUMN IF NOT EXISTS amount_paid numeric;
+
+CREATE OR REPLACE FUNCTION public.complete_mpesa_buy(_transaction_id uuid, _mpesa_receipt text, _idempotency_key text DEFAULT NULL)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+DECLARE
+  v_tx RECORD;
+  v_coin RECORD;
+  v_settings RECORD;
+  v_holding RECORD;
+  v_holders_delta integer := 0;
+  v_creator_share numeric;
+  v_holders_count integer;
+  v_remaining_supply numeric;
+  v_new_circ numeric;
+  v_new_base_price numeric;
+  v_current_price numeric;
+  v_paid numeric;
+  v_graduated boolean;
+  v_result jsonb;
+BEGIN
+  SELECT * INTO v_tx FROM public.transactions WHERE id = _transaction_id FOR UPDATE;
+  IF NOT FOUND THEN RETURN jsonb_build_object('ok', false, 'error', 'Transaction not found'); END IF;
+  IF _idempotency_key IS NOT NULL AND v_tx.idempotency_key IS NOT NULL AND v_tx.idempotency_key <> _idempotency_key THEN
+    RETURN jsonb_build_object('ok', false, 'error', 'Idempotency key does not match this transaction');
+  END IF;
+
+  -- Settled already (callback and status query both land here): hand back
+  -- the original outcome rather than allocating or refunding twice
+  IF v_tx.idempotency_response IS NOT NULL THEN
+    RETURN v_tx.idempotency_response || jsonb_build_object('replayed', true);
+  END IF;
+
+  IF v_tx.status = 'completed' THEN
+    IF _mpesa_receipt IS NOT NULL AND _mpesa_receipt <> '' AND COALESCE(v_tx.mpesa_receipt, '') <> _mpesa_receipt THEN
+      UPDATE public.transactions
+        SET mpesa_receipt = _mpesa_receipt, updated_at = now()
+        WHERE id = _transaction_id;
+    END IF;
+    RETURN jsonb_build_object('ok', true, 'already_completed', true);
+  END IF;
+
+  SELECT * INTO v_coin FROM public.coins WHERE id = v_tx.coin_id FOR UPDATE;
+  IF NOT FOUND THEN RETURN jsonb_build_object('ok', false, 'error', 'Coin not found'); END IF;
+
+  v_remaining_supply := GREATEST(0, COALESCE(v_coin.total_supply, 0) - COALESCE(v_coin.circulating_supply, 0));
+  IF v_tx.amount > v_remaining_supply THEN
+    v_result := jsonb_build_object('ok', false, 'error', 'Coin supply exhausted');
+    UPDATE public.transactions
+      SET status = 'failed',
+          mpesa_receipt = COALESCE(NULLIF(_mpesa_receipt, ''), mpesa_receipt),
+          idempotency_key = COALESCE(idempotency_key, _idempotency_key),
+          idempotency_response = v_result,
+          updated_at = now()
+      WHERE id = _transaction_id;
+    RETURN v_result;
+  END IF;
+  IF v_coin.is_graduated AND v_tx.amount >= v_coin.pool_token_reserve THEN
+    v_result := jsonb_build_object('ok', false, 'error', 'Insufficient pool liquidity');
+    UPDATE public.transactions
+      SET status = 'failed',
+          mpesa_receipt = COALESCE(NULLIF(_mpesa_receipt, ''), mpesa_receipt),
+          idempotency_key = COALESCE(idempotency_key, _idempotency_key),
+          idempotency_response = v_result,
+          updated_at = now()
+      WHERE id = _transaction_id;
+    RETURN v_result;
+  END IF;
+
+  SELECT fee_percentage, creator_commission_percentage INTO v_settings
+    FROM public.site_settings LIMIT 1;
+
+  -- The price was quoted when the STK push went out; reject the fill if the
+  -- curve has since moved past the buyer's tolerance. The payment has already
+  -- cleared, so it is kept as wallet balance instead.
+  IF v_tx.max_slippage_pct IS NOT NULL THEN
+    SELECT average_price INTO v_current_price
+      FROM public.price_curve_trade(v_tx.coin_id, 'buy', v_tx.amount);
+    IF v_current_price > v_tx.price_per_coin * (1 + v_tx.max_slippage_pct / 100.0) THEN
+      v_paid := COALESCE(v_tx.amount_paid,
+        round(v_tx.total_value * (1 + COALESCE(v_settings.fee_percentage, 0) / 100.0)));
+      INSERT INTO public.wallets (user_id, fiat_balance) VALUES (v_tx.user_id, v_paid)
+        ON CONFLICT (user_id) DO UPDATE SET fiat_balance = public.wallets.fiat_balance + v_paid;
+      v_result := jsonb_build_object('ok', false, 'error', 'Price moved beyond slippage tolerance',
+        'credited_to_wallet', v_paid, 'quoted_price', v_tx.price_per_coin, 'current_price', v_current_price);
+      UPDATE public.transactions
+        SET status = 'cancelled',
+            mpesa_receipt = COALESCE(NULLIF(_mpesa_receipt, ''), mpesa_receipt),
+            idempotency_key = COALESCE(idempotency_key, _idempotency_key),
+            idempotency_response = v_result,
+            updated_at = now()
+        WHERE id = _transaction_id;
+      RETURN v_result;
+    END IF;
+  END IF;
+
+  UPDATE public.transactions
+    SET status = 'completed',
+        mpesa_receipt = COALESCE(NULLIF(_mpesa_receipt, ''), mpesa_receipt),
+        updated_at = now()
+    WHERE id = _transaction_id;
+
+  SELECT * INTO v_holding FROM public.holdings
+    WHERE user_id = v_tx.user_id AND coin_id = v_tx.coin_id FOR UPDATE;
+
+  IF v_holding.id IS NULL THEN
+    INSERT INTO public.holdings (user_id, coin_id, amount, average_buy_price)
+      VALUES (v_tx.user_id, v_tx.coin_id, v_tx.amount, v_tx.price_per_coin);
+    v_holders_delta := 1;
+  ELSE
+    UPDATE public.holdings
+      SET amount = v_holding.amount + v_tx.amount,
+          average_buy_price = ((v_holding.amount * v_holding.average_buy_price)
+            + (v_tx.amount * v_tx.price_per_coin)) / (v_holding.amount + v_tx.amount),
+          updated_at = now()
+      WHERE id = v_holding.id;
+  END IF;
+
+  SELECT count(*) INTO v_holders_count FROM public.holdings
+    WHERE coin_id = v_tx.coin_id AND amount > 0;
+
+  v_new_circ := v_coin.circulating_supply + v_tx.amount;
+
+  PERFORM set_config('app.skip_price_trigger', '1', true);
+  IF v_coin.is_graduated THEN
+    -- The buyer paid the quoted amount; it all goes into the pool
+    v_new_base_price := (v_coin.pool_quote_reserve + v_tx.total_value) / (v_coin.pool_token_reserve - v_tx.amount);
+    UPDATE public.coins
+      SET circulating_supply = v_new_circ,
+          pool_token_reserve = pool_token_reserve - v_tx.amount,
+          pool_quote_reserve = pool_quote_reserve + v_tx.total_value,
+          liquidity = pool_quote_reserve + v_tx.total_value,
+          price = v_new_base_price,
+          market_cap = v_new_base_price * v_new_circ,
+          holders_count = v_holders_count,
+          updated_at = now()
+      WHERE id = v_tx.coin_id;
+  ELSE
+    SELECT new_price INTO v_new_base_price FROM public.price_curve_trade(v_tx.coin_id, 'buy', v_tx.amount);
+    UPDATE public.coins
+      SET circulating_supply = v_new_circ,
+          price = v_new_base_price,
+          market_cap = v_new_base_price * v_new_circ,
+          liquidity = COALESCE(liquidity, 0) + v_tx.total_value,
+          holders_count = v_holders_count,
+          updated_at = now()
+      WHERE id = v_tx.coin_id;
+  END IF;
+  PERFORM set_config('app.skip_price_trigger', '0', true);
+
+  INSERT INTO public.price_history (coin_id, price, volume, trade_type)
+    VALUES (v_tx.coin_id, v_new_base_price, v_tx.total_value, 'buy');
+
+  IF COALESCE(v_settings.fee_percentage, 0) > 0 THEN
+    INSERT INTO public.commission_transactions (transaction_id, amount, commission_rate)
+      VALUES (_transaction_id, v_tx.total_value * (v_settings.fee_percentage / 100.0), v_settings.fee_percentage);
+  END IF;
+
+  IF v_coin.creator_id IS NOT NULL
+     AND v_coin.creator_id <> v_tx.user_id
+     AND COALESCE(v_settings.creator_commission_percentage, 0) > 0 THEN
+    v_creator_share := v_tx.total_value * (v_settings.creator_commission_percentage / 100.0);
+    PERFORM public.credit_creator_commission(v_coin.creator_id, v_tx.coin_id, _transaction_id, 'mpesa_buy', 'buy',
+      v_tx.total_value, v_settings.creator_commission_percentage, v_creator_share);
+  END IF;
+
+  v_graduated := NOT v_coin.is_graduated AND public.maybe_graduate_coin(v_tx.coin_id);
+
+  v_result := jsonb_build_object('ok', true, 'allocated', v_tx.amount, 'new_market_price', v_new_base_price,
+    'graduated', v_graduated);
+  UPDATE public.transactions
+    SET idempotency_key = COALESCE(idempotency_key, _idempotency_key),
+        idempotency_response = v_result
+    WHERE id = _transaction_id;
+  RETURN v_result;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.complete_mpesa_buy(uuid, text, text) FROM anon, authenticated, public;
+GRANT EXECUTE ON FUNCTION public.complete_mpesa_buy(uuid, text, text) TO service_role;
@@ -0,0 +1,19 @@
+-- candle_bucket is IMMUTABLE, but date_trunc on a timestamptz truncates in
+-- the session's time zone, so the same tick could land in a different 1h
+-- bucket depending on who recorded it. Truncate in UTC explicitly so the
+-- result only depends on the arguments, like the date_bin intervals.
+CREATE OR REPLACE FUNCTION public.candle_bucket(_interval text, _ts timestamptz)
+RETURNS timestamptz
+LANGUAGE sql
+IMMUTABLE
+SET search_path TO 'public'
+AS $$
+  SELECT CASE _interval
+    WHEN '1m'  THEN date_trunc('minute', _ts AT TIME ZONE 'UTC') AT TIME ZONE 'UTC'
+    WHEN '5m'  THEN date_bin('5 minutes', _ts, TIMESTAMPTZ '2000-01-01 00:00:00+00')
+    WHEN '15m' THEN date_bin('15 minutes', _ts, TIMESTAMPTZ '2000-01-01 00:00:00+00')
+    WHEN '1h'  THEN date_trunc('hour', _ts AT TIME ZONE 'UTC') AT TIME ZONE 'UTC'
+    WHEN '4h'  THEN date_bin('4 hours', _ts, TIMESTAMPTZ '2000-01-01 00:00:00+00')
+    WHEN '1d'  THEN date_bin('1 day', _ts, TIMESTAMPTZ '2000-01-01 00:00:00+00')
+  END;
+$$;
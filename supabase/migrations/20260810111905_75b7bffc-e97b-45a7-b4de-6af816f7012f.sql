@@ -0,0 +1,450 @@
+-- Limit orders were never held to the rolling trade limits: book fills
+-- skipped trade_limit_violation entirely, and the curve slice's rejection
+-- from execute_trade was swallowed so the order just kept resting. Buy
+-- orders are now checked when placed or amended (raising like execute_trade
+-- does) and again whenever they are matched; a resting order that no longer
+-- fits is rejected with the violation's code and its escrow refunded. The
+-- cooldown is the exception: it only holds an order back until a later
+-- sweep, since an order's own partial fills would otherwise trip it.
+ALTER TABLE public.limit_orders
+  ADD COLUMN IF NOT EXISTS failure_code text,
+  ADD COLUMN IF NOT EXISTS failure_reason text;
+
+ALTER TABLE public.limit_orders DROP CONSTRAINT IF EXISTS limit_orders_status_check;
+ALTER TABLE public.limit_orders ADD CONSTRAINT limit_orders_status_check
+  CHECK (status IN ('open', 'partially_filled', 'filled', 'cancelled', 'rejected'));
+
+CREATE OR REPLACE FUNCTION public.trade_limit_violation(_user_id uuid, _coin_id uuid, _amount numeric, _total_value numeric)
+RETURNS jsonb
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+DECLARE
+  v_coin RECORD;
+  v_settings RECORD;
+  v_spend numeric;
+  v_max_buy numeric;
+  v_per_hour numeric;
+  v_per_day numeric;
+  v_max_holding_pct numeric;
+  v_cooldown integer;
+  v_last_trade_at timestamptz;
+  v_used numeric;
+  v_oldest timestamptz;
+  v_held numeric;
+BEGIN
+  -- match_limit_order checks the whole order up front; the curve slice it
+  -- hands to execute_trade must not trip the cooldown on its own book fills
+  IF current_setting('app.skip_trade_limits', true) = '1' THEN
+    RETURN NULL;
+  END IF;
+
+  SELECT * INTO v_coin FROM public.coins WHERE id = _coin_id;
+  IF NOT FOUND THEN RETURN NULL; END IF;
+
+  SELECT fee_percentage, min_buy_amount, max_buy_amount,
+         COALESCE(max_buy_supply_percentage, 25) AS max_buy_supply_percentage,
+         trade_limit_kes_per_hour, trade_limit_kes_per_day,
+         trade_limit_max_holding_pct, trade_limit_cooldown_seconds, market_maker_user_id
+    INTO v_settings FROM public.site_settings LIMIT 1;
+
+  v_per_hour := COALESCE(v_coin.trade_limit_kes_per_hour, v_settings.trade_limit_kes_per_hour, 0);
+  v_per_day := COALESCE(v_coin.trade_limit_kes_per_day, v_settings.trade_limit_kes_per_day, 0);
+  v_max_holding_pct := COALESCE(v_coin.trade_limit_max_holding_pct, v_settings.trade_limit_max_holding_pct, 0);
+  v_cooldown := COALESCE(v_coin.trade_limit_cooldown_seconds, v_settings.trade_limit_cooldown_seconds, 0);
+
+  -- What the buyer pays, which is what recurring buys and the M-Pesa prompt use
+  v_spend := _total_value * (1 + COALESCE(v_settings.fee_percentage, 0) / 100.0);
+
+  IF COALESCE(v_settings.min_buy_amount, 0) > 0 AND v_spend < v_settings.min_buy_amount THEN
+    RETURN jsonb_build_object('code', 'MIN_BUY_AMOUNT',
+      'message', format('Minimum buy is KES %s', v_settings.min_buy_amount),
+      'limit', v_settings.min_buy_amount, 'used', round(v_spend, 2));
+  END IF;
+  IF COALESCE(v_settings.max_buy_amount, 0) > 0 AND _total_value > v_settings.max_buy_amount THEN
+    RETURN jsonb_build_object('code', 'MAX_BUY_AMOUNT',
+      'message', format('Maximum buy is KES %s per trade', v_settings.max_buy_amount),
+      'limit', v_settings.max_buy_amount, 'used', round(_total_value, 2));
+  END IF;
+
+  v_max_buy := GREATEST(0, COALESCE(v_coin.total_supply, 0) - COALESCE(v_coin.circulating_supply, 0))
+               * (v_settings.max_buy_supply_percentage / 100.0);
+  IF v_max_buy > 0 AND _amount > v_max_buy THEN
+    RETURN jsonb_build_object('code', 'MAX_SUPPLY_PER_TRADE',
+      'message', format('Single trade limited to %s percent of remaining supply (max %s)',
+                        v_settings.max_buy_supply_percentage, round(v_max_buy, 2)),
+      'limit', round(v_max_buy, 2), 'used', _amount);
+  END IF;
+
+  -- The house account is held to its market-maker budgets instead
+  IF _user_id = v_settings.market_maker_user_id THEN
+    RETURN NULL;
+  END IF;
+
+  IF v_cooldown > 0 THEN
+    SELECT max(created_at) INTO v_last_trade_at FROM public.transactions
+      WHERE user_id = _user_id AND coin_id = _coin_id AND status = 'completed'
+        AND type IN ('buy', 'sell') AND created_at > now() - make_interval(secs => v_cooldown);
+    IF v_last_trade_at IS NOT NULL THEN
+      RETURN jsonb_build_object('code', 'TRADE_COOLDOWN',
+        'message', format('Wait %s seconds between trades of this coin', v_cooldown),
+        'limit', v_cooldown,
+        'retry_after_seconds', ceil(extract(epoch FROM v_last_trade_at + make_interval(secs => v_cooldown) - now())));
+    END IF;
+  END IF;
+
+  IF v_per_hour > 0 THEN
+    SELECT COALESCE(sum(total_value), 0), min(created_at) INTO v_used, v_oldest FROM public.transactions
+      WHERE user_id = _user_id AND coin_id = _coin_id AND type = 'buy' AND status = 'completed'
+        AND created_at > now() - interval '1 hour';
+    IF v_used + _total_value > v_per_hour THEN
+      RETURN jsonb_build_object('code', 'HOURLY_VOLUME_LIMIT',
+        'message', format('Hourly buy limit of KES %s reached for this coin (KES %s used)', v_per_hour, round(v_used, 2)),
+        'limit', v_per_hour, 'used', round(v_used, 2),
+        'retry_after_seconds', CASE WHEN v_oldest IS NOT NULL
+                                    THEN ceil(extract(epoch FROM v_oldest + interval '1 hour' - now())) END);
+    END IF;
+  END IF;
+
+  IF v_per_day > 0 THEN
+    SELECT COALESCE(sum(total_value), 0), min(created_at) INTO v_used, v_oldest FROM public.transactions
+      WHERE user_id = _user_id AND coin_id = _coin_id AND type = 'buy' AND status = 'completed'
+        AND created_at > now() - interval '1 day';
+    IF v_used + _total_value > v_per_day THEN
+      RETURN jsonb_build_object('code', 'DAILY_VOLUME_LIMIT',
+        'message', format('Daily buy limit of KES %s reached for this coin (KES %s used)', v_per_day, round(v_used, 2)),
+        'limit', v_per_day, 'used', round(v_used, 2),
+        'retry_after_seconds', CASE WHEN v_oldest IS NOT NULL
+                                    THEN ceil(extract(epoch FROM v_oldest + interval '1 day' - now())) END);
+    END IF;
+  END IF;
+
+  IF v_max_holding_pct > 0 AND COALESCE(v_coin.total_supply, 0) > 0 THEN
+    SELECT COALESCE(sum(amount), 0) INTO v_held FROM public.holdings
+      WHERE user_id = _user_id AND coin_id = _coin_id;
+    IF (v_held + _amount) / v_coin.total_supply * 100 > v_max_holding_pct THEN
+      RETURN jsonb_build_object('code', 'MAX_HOLDING_PCT',
+        'message', format('One account may hold at most %s%% of the supply', v_max_holding_pct),
+        'limit', v_max_holding_pct,
+        'used', round(v_held / v_coin.total_supply * 100, 4),
+        'max_amount', GREATEST(0, floor(v_coin.total_supply * v_max_holding_pct / 100 - v_held)));
+    END IF;
+  END IF;
+
+  RETURN NULL;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.match_limit_order(_order_id uuid)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+DECLARE
+  v_order RECORD;
+  v_counter RECORD;
+  v_coin RECORD;
+  v_settings RECORD;
+  v_fee_rate numeric;
+  v_remaining numeric;
+  v_fill numeric;
+  v_curve_spot numeric;
+  v_slope numeric;
+  v_remaining_supply numeric;
+  v_holding_amount numeric;
+  v_slice_reserve numeric;
+  v_result jsonb;
+  v_book_filled numeric := 0;
+  v_curve_filled numeric := 0;
+  v_violation jsonb;
+BEGIN
+  SELECT * INTO v_order FROM public.limit_orders WHERE id = _order_id FOR UPDATE;
+  IF NOT FOUND OR v_order.status NOT IN ('open', 'partially_filled') THEN
+    RETURN jsonb_build_object('ok', true, 'order_id', _order_id, 'filled', 0);
+  END IF;
+
+  SELECT * INTO v_coin FROM public.coins WHERE id = v_order.coin_id FOR UPDATE;
+  IF v_coin.trading_paused THEN
+    RETURN jsonb_build_object('ok', true, 'order_id', _order_id, 'status', v_order.status, 'filled', 0);
+  END IF;
+
+  SELECT fee_percentage,
+         COALESCE(max_buy_supply_percentage, 25) AS max_buy_supply_percentage
+    INTO v_settings FROM public.site_settings LIMIT 1;
+  v_fee_rate := COALESCE(v_settings.fee_percentage, 0) / 100.0;
+
+  v_remaining := v_order.amount - v_order.filled_amount;
+
+  -- A buy is held to the buyer's rolling limits for everything it could
+  -- still buy at its limit price, covering every fill below. A cooldown only
+  -- defers the order to a later sweep (its own earlier fills would trip it);
+  -- any other violation rejects it and returns the escrow.
+  IF v_order.side = 'buy' THEN
+    v_violation := public.trade_limit_violation(v_order.user_id, v_order.coin_id, v_remaining, v_remaining * v_order.price);
+    IF v_violation->>'code' = 'TRADE_COOLDOWN' THEN
+      RETURN jsonb_build_object('ok', true, 'order_id', v_order.id, 'status', v_order.status, 'filled', 0,
+        'retry_after_seconds', v_violation->'retry_after_seconds');
+    ELSIF v_violation IS NOT NULL THEN
+      IF v_order.reserved_fiat > 0 THEN
+        UPDATE public.wallets SET fiat_balance = fiat_balance + v_order.reserved_fiat WHERE user_id = v_order.user_id;
+      END IF;
+      UPDATE public.limit_orders
+        SET status = 'rejected',
+            reserved_fiat = 0,
+            failure_code = v_violation->>'code',
+            failure_reason = v_violation->>'message',
+            updated_at = now()
+        WHERE id = v_order.id;
+      RETURN jsonb_build_object('ok', false, 'order_id', v_order.id, 'status', 'rejected', 'filled', 0) || v_violation;
+    END IF;
+  END IF;
+
+  FOR v_counter IN
+    SELECT * FROM public.limit_orders
+      WHERE coin_id = v_order.coin_id
+        AND side <> v_order.side
+        AND user_id <> v_order.user_id
+        AND status IN ('open', 'partially_filled')
+        AND ((v_order.side = 'buy' AND price <= v_order.price)
+          OR (v_order.side = 'sell' AND price >= v_order.price))
+      ORDER BY CASE WHEN v_order.side = 'buy' THEN price END ASC,
+               CASE WHEN v_order.side = 'sell' THEN price END DESC,
+               created_at ASC
+      FOR UPDATE
+  LOOP
+    EXIT WHEN v_remaining <= 0;
+    v_fill := LEAST(v_remaining, v_counter.amount - v_counter.filled_amount);
+    IF v_order.side = 'buy' THEN
+      v_fill := public.settle_book_fill(v_order.id, v_counter.id, v_fill, v_counter.price, 'buy');
+    ELSE
+      v_fill := public.settle_book_fill(v_counter.id, v_order.id, v_fill, v_counter.price, 'sell');
+    END IF;
+    v_remaining := v_remaining - v_fill;
+    v_book_filled := v_book_filled + v_fill;
+  END LOOP;
+
+  -- Re-read: the order may have been cancelled (seller ran out of tokens)
+  SELECT * INTO v_order FROM public.limit_orders WHERE id = _order_id;
+  SELECT * INTO v_coin FROM public.coins WHERE id = v_order.coin_id;
+
+  -- The average curve price moves linearly with size (slope/2 per token, see
+  -- price_curve_trade), so cap the curve slice where the average hits the limit.
+  -- Pool fills average quote/(tokens -/+ fill), which solves for the cap directly.
+  v_curve_spot := public.calculate_bonding_price(v_coin.initial_price, v_coin.bonding_curve_factor, v_coin.circulating_supply);
+  v_slope := CASE WHEN v_coin.is_graduated THEN 0
+                  WHEN v_curve_spot > 0
+                  THEN (v_coin.price / v_curve_spot) * v_coin.initial_price * COALESCE(v_coin.bonding_curve_factor, 0)
+                  ELSE 0 END;
+
+  IF v_remaining > 0 AND v_order.status IN ('open', 'partially_filled') THEN
+    IF v_order.side = 'buy' THEN
+      v_remaining_supply := GREATEST(0, COALESCE(v_coin.total_supply, 0) - COALESCE(v_coin.circulating_supply, 0));
+      v_fill := LEAST(v_remaining, v_remaining_supply * (v_settings.max_buy_supply_percentage / 100.0));
+      IF v_coin.is_graduated THEN
+        v_fill := LEAST(v_fill, GREATEST(0, v_coin.pool_token_reserve - v_coin.pool_quote_reserve / v_order.price));
+      ELSIF v_slope > 0 THEN
+        v_fill := LEAST(v_fill, GREATEST(0, 2 * (v_order.price - v_coin.price) / v_slope));
+      END IF;
+      IF v_coin.price <= v_order.price AND v_fill > 0 THEN
+        BEGIN
+          -- Hand this slice's escrow back so execute_trade can debit the wallet
+          v_slice_reserve := CASE WHEN v_fill >= v_remaining THEN v_order.reserved_fiat
+                                  ELSE LEAST(v_order.reserved_fiat, v_fill * v_order.price * (1 + v_fee_rate)) END;
+          UPDATE public.wallets SET fiat_balance = fiat_balance + v_slice_reserve WHERE user_id = v_order.user_id;
+          PERFORM set_config('app.skip_trade_limits', '1', true);
+          v_result := public.execute_trade(v_order.user_id, v_order.coin_id, 'buy', v_fill, true, false);
+          PERFORM set_config('app.skip_trade_limits', '0', true);
+          UPDATE public.limit_orders
+            SET filled_amount = filled_amount + v_fill,
+                reserved_fiat = GREATEST(0, reserved_fiat - v_slice_reserve),
+                status = CASE WHEN filled_amount + v_fill >= amount THEN 'filled' ELSE 'partially_filled' END,
+                updated_at = now()
+            WHERE id = v_order.id;
+          INSERT INTO public.limit_order_fills (order_id, coin_id, source, price, amount, transaction_id)
+            VALUES (v_order.id, v_order.coin_id, 'curve', (v_result->>'executed_price')::numeric, v_fill,
+                    (v_result->>'transaction_id')::uuid);
+          v_curve_filled := v_fill;
+        EXCEPTION WHEN OTHERS THEN
+          -- Curve fill not possible right now (pool or supply); the order
+          -- keeps resting. Limits were settled above, not here.
+          PERFORM set_config('app.skip_trade_limits', '0', true);
+          v_curve_filled := 0;
+        END;
+      END IF;
+    ELSE
+      SELECT COALESCE(amount, 0) INTO v_holding_amount FROM public.holdings
+        WHERE user_id = v_order.user_id AND coin_id = v_order.coin_id;
+      v_fill := LEAST(v_remaining, COALESCE(v_holding_amount, 0));
+      IF v_coin.is_graduated THEN
+        v_fill := LEAST(v_fill, GREATEST(0, v_coin.pool_quote_reserve / v_order.price - v_coin.pool_token_reserve));
+      ELSIF v_slope > 0 THEN
+        v_fill := LEAST(v_fill, GREATEST(0, 2 * (v_coin.price - v_order.price) / v_slope));
+      END IF;
+      IF v_coin.price >= v_order.price AND v_fill > 0 THEN
+        BEGIN
+          -- Release the reservation first so execute_trade sees the tokens as free
+          UPDATE public.limit_orders
+            SET filled_amount = filled_amount + v_fill,
+                status = CASE WHEN filled_amount + v_fill >= amount THEN 'filled' ELSE 'partially_filled' END,
+                updated_at = now()
+            WHERE id = v_order.id;
+          v_result := public.execute_trade(v_order.user_id, v_order.coin_id, 'sell', v_fill, false, true);
+          INSERT INTO public.limit_order_fills (order_id, coin_id, source, price, amount, transaction_id)
+            VALUES (v_order.id, v_order.coin_id, 'curve', (v_result->>'executed_price')::numeric, v_fill,
+                    (v_result->>'transaction_id')::uuid);
+          v_curve_filled := v_fill;
+        EXCEPTION WHEN OTHERS THEN
+          v_curve_filled := 0;
+        END;
+      END IF;
+    END IF;
+  END IF;
+
+  SELECT * INTO v_order FROM public.limit_orders WHERE id = _order_id;
+  RETURN jsonb_build_object(
+    'ok', true,
+    'order_id', v_order.id,
+    'status', v_order.status,
+    'filled', v_book_filled + v_curve_filled,
+    'book_filled', v_book_filled,
+    'curve_filled', v_curve_filled,
+    'remaining', v_order.amount - v_order.filled_amount
+  );
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.place_limit_order(_coin_id uuid, _side text, _price numeric, _amount numeric)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+DECLARE
+  v_user_id uuid := auth.uid();
+  v_coin RECORD;
+  v_fee_pct numeric;
+  v_reserve numeric := 0;
+  v_wallet_balance numeric;
+  v_holding_amount numeric;
+  v_locked numeric;
+  v_order_id uuid;
+  v_violation jsonb;
+BEGIN
+  IF v_user_id IS NULL THEN RAISE EXCEPTION 'Not authenticated'; END IF;
+  IF _side NOT IN ('buy', 'sell') THEN RAISE EXCEPTION 'Invalid order side'; END IF;
+  IF _price IS NULL OR _price <= 0 THEN RAISE EXCEPTION 'Limit price must be greater than zero'; END IF;
+  IF _amount IS NULL OR _amount <= 0 THEN RAISE EXCEPTION 'Order amount must be greater than zero'; END IF;
+
+  SELECT * INTO v_coin FROM public.coins WHERE id = _coin_id;
+  IF NOT FOUND OR NOT v_coin.is_active THEN RAISE EXCEPTION 'Coin not found'; END IF;
+  IF v_coin.trading_paused THEN RAISE EXCEPTION 'Trading paused for this coin'; END IF;
+
+  IF _side = 'buy' THEN
+    -- A cooldown only holds the order back until a later sweep
+    v_violation := public.trade_limit_violation(v_user_id, _coin_id, _amount, _amount * _price);
+    IF v_violation->>'code' <> 'TRADE_COOLDOWN' THEN
+      RAISE EXCEPTION USING
+        MESSAGE = v_violation->>'message',
+        DETAIL = v_violation::text,
+        HINT = v_violation->>'code';
+    END IF;
+
+    SELECT COALESCE(fee_percentage, 0) INTO v_fee_pct FROM public.site_settings LIMIT 1;
+    v_reserve := _amount * _price * (1 + COALESCE(v_fee_pct, 0) / 100.0);
+    SELECT fiat_balance INTO v_wallet_balance FROM public.wallets WHERE user_id = v_user_id FOR UPDATE;
+    IF v_wallet_balance IS NULL THEN RAISE EXCEPTION 'Wallet not found'; END IF;
+    IF v_wallet_balance < v_reserve THEN RAISE EXCEPTION 'Insufficient wallet balance'; END IF;
+    UPDATE public.wallets SET fiat_balance = fiat_balance - v_reserve WHERE user_id = v_user_id;
+  ELSE
+    SELECT amount INTO v_holding_amount FROM public.holdings
+      WHERE user_id = v_user_id AND coin_id = _coin_id FOR UPDATE;
+    v_locked := public.locked_sell_amount(v_user_id, _coin_id);
+    IF COALESCE(v_holding_amount, 0) - v_locked < _amount THEN
+      RAISE EXCEPTION 'Insufficient coin balance';
+    END IF;
+  END IF;
+
+  INSERT INTO public.limit_orders (user_id, coin_id, side, price, amount, reserved_fiat)
+    VALUES (v_user_id, _coin_id, _side, _price, _amount, v_reserve)
+    RETURNING id INTO v_order_id;
+
+  RETURN public.match_limit_order(v_order_id);
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.amend_limit_order(_order_id uuid, _price numeric, _amount numeric)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+DECLARE
+  v_order RECORD;
+  v_fee_pct numeric;
+  v_new_reserve numeric;
+  v_delta numeric;
+  v_wallet_balance numeric;
+  v_holding_amount numeric;
+  v_locked numeric;
+  v_violation jsonb;
+BEGIN
+  SELECT * INTO v_order FROM public.limit_orders WHERE id = _order_id FOR UPDATE;
+  IF NOT FOUND OR v_order.user_id <> auth.uid() THEN RAISE EXCEPTION 'Order not found'; END IF;
+  IF v_order.status NOT IN ('open', 'partially_filled') THEN
+    RAISE EXCEPTION 'Order is no longer open';
+  END IF;
+  IF _price IS NULL OR _price <= 0 THEN RAISE EXCEPTION 'Limit price must be greater than zero'; END IF;
+  IF _amount IS NULL OR _amount <= v_order.filled_amount THEN
+    RAISE EXCEPTION 'Order amount must exceed the filled amount (%)', v_order.filled_amount;
+  END IF;
+
+  IF v_order.side = 'buy' THEN
+    v_violation := public.trade_limit_violation(v_order.user_id, v_order.coin_id,
+      _amount - v_order.filled_amount, (_amount - v_order.filled_amount) * _price);
+    IF v_violation->>'code' <> 'TRADE_COOLDOWN' THEN
+      RAISE EXCEPTION USING
+        MESSAGE = v_violation->>'message',
+        DETAIL = v_violation::text,
+        HINT = v_violation->>'code';
+    END IF;
+
+    SELECT COALESCE(fee_percentage, 0) INTO v_fee_pct FROM public.site_settings LIMIT 1;
+    v_new_reserve := (_amount - v_order.filled_amount) * _price * (1 + COALESCE(v_fee_pct, 0) / 100.0);
+    v_delta := v_new_reserve - v_order.reserved_fiat;
+    SELECT fiat_balance INTO v_wallet_balance FROM public.wallets WHERE user_id = v_order.user_id FOR UPDATE;
+    IF v_delta > 0 AND COALESCE(v_wallet_balance, 0) < v_delta THEN
+      RAISE EXCEPTION 'Insufficient wallet balance';
+    END IF;
+    UPDATE public.wallets SET fiat_balance = fiat_balance - v_delta WHERE user_id = v_order.user_id;
+  ELSE
+    v_new_reserve := 0;
+    SELECT amount INTO v_holding_amount FROM public.holdings
+      WHERE user_id = v_order.user_id AND coin_id = v_order.coin_id FOR UPDATE;
+    v_locked := public.locked_sell_amount(v_order.user_id, v_order.coin_id) - (v_order.amount - v_order.filled_amount);
+    IF COALESCE(v_holding_amount, 0) - v_locked < _amount - v_order.filled_amount THEN
+      RAISE EXCEPTION 'Insufficient coin balance';
+    END IF;
+  END IF;
+
+  UPDATE public.limit_orders
+    SET price = _price,
+        amount = _amount,
+        reserved_fiat = v_new_reserve,
+        created_at = CASE WHEN _price <> v_order.price OR _amount > v_order.amount THEN now() ELSE created_at END,
+        updated_at = now()
+    WHERE id = _order_id;
+
+  RETURN public.match_limit_order(_order_id);
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.trade_limit_violation(uuid, uuid, numeric, numeric) FROM anon, authenticated, public;
+REVOKE EXECUTE ON FUNCTION public.match_limit_order(uuid) FROM anon, authenticated, public;
+GRANT EXECUTE ON FUNCTION public.match_limit_order(uuid) TO service_role;
+REVOKE EXECUTE ON FUNCTION public.place_limit_order(uuid, text, numeric, numeric) FROM anon, public;
+REVOKE EXECUTE ON FUNCTION public.amend_limit_order(uuid, numeric, numeric) FROM anon, public;
+GRANT EXECUTE ON FUNCTION public.place_limit_order(uuid, text, numeric, numeric) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.amend_limit_order(uuid, numeric, numeric) TO authenticated;
@@ -0,0 +1,49 @@
+-- The scheduled edge functions only answer requests that carry the service
+-- role key or CRON_SECRET. Jobs read the secret from Vault, stored under the
+-- same value as the function secret:
+--   SELECT vault.create_secret('<secret>', 'cron_secret');
+DO $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM vault.secrets WHERE name = 'cron_secret') THEN
+    RAISE EXCEPTION 'Vault secret cron_secret is missing'
+      USING HINT = 'Run SELECT vault.create_secret(''<CRON_SECRET>'', ''cron_secret''); then apply this migration again';
+  END IF;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.cron_request_headers()
+RETURNS jsonb
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+DECLARE
+  v_secret text;
+BEGIN
+  SELECT decrypted_secret INTO v_secret FROM vault.decrypted_secrets WHERE name = 'cron_secret' LIMIT 1;
+  -- Fail the job run visibly rather than post a request that can only 401
+  IF v_secret IS NULL THEN
+    RAISE EXCEPTION 'Vault secret cron_secret is missing';
+  END IF;
+  RETURN jsonb_build_object(
+    'Content-Type', 'application/json',
+    'Authorization', 'Bearer ' || v_secret
+  );
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.cron_request_headers() FROM anon, authenticated, public;
+
+-- cron.schedule replaces a job with the same name
+SELECT cron.schedule(
+  'process-conditional-orders',
+  '* * * * *',
+  $$
+  SELECT net.http_post(
+    url := 'https://dkuprgiaymljdjatixlc.supabase.co/functions/v1/process-conditional-orders',
+    headers := public.cron_request_headers(),
+    body := '{}'::jsonb
+  );
+  $$
+);
@@ -0,0 +1,12 @@
+-- Send the cron secret so the function accepts the scheduled call
+SELECT cron.schedule(
+  'send-monthly-statements',
+  '0 6 1 * *',
+  $$
+  SELECT net.http_post(
+    url := 'https://dkuprgiaymljdjatixlc.supabase.co/functions/v1/send-monthly-statements',
+    headers := public.cron_request_headers(),
+    body := '{}'::jsonb
+  );
+  $$
+);
@@ -0,0 +1,12 @@
+-- Send the cron secret so the function accepts the scheduled call
+SELECT cron.schedule(
+  'process-circuit-breakers',
+  '* * * * *',
+  $$
+  SELECT net.http_post(
+    url := 'https://dkuprgiaymljdjatixlc.supabase.co/functions/v1/process-circuit-breakers',
+    headers := public.cron_request_headers(),
+    body := '{}'::jsonb
+  );
+  $$
+);
@@ -0,0 +1,12 @@
+-- Send the cron secret so the function accepts the scheduled call
+SELECT cron.schedule(
+  'market-maker',
+  '* * * * *',
+  $$
+  SELECT net.http_post(
+    url := 'https://dkuprgiaymljdjatixlc.supabase.co/functions/v1/market-maker',
+    headers := public.cron_request_headers(),
+    body := '{}'::jsonb
+  );
+  $$
+);
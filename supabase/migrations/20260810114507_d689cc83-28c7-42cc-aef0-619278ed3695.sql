@@ -0,0 +1,7 @@
+-- Graduation moves a coin off the bonding curve for good, so it stays off
+-- until an admin turns it on in platform settings. The column was added
+-- defaulting to on, which no admin chose, so existing settings are reset too.
+ALTER TABLE public.site_settings
+  ALTER COLUMN graduation_enabled SET DEFAULT false;
+
+UPDATE public.site_settings SET graduation_enabled = false WHERE graduation_enabled;
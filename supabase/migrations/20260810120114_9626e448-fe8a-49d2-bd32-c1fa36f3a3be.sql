@@ -0,0 +1,174 @@
+-- M-Pesa buys were only held to the trade limits by the browser's
+-- checkBuyLimits call, and a buy waiting on its STK prompt counted towards
+-- none of the windows. mpesa-stk-push now claims the pending transaction
+-- through claim_mpesa_buy before prompting: it checks trade_limit_violation
+-- under a per-user, per-coin lock and moves the buy to stk_sent, which the
+-- hourly, daily and holding checks now count alongside completed buys.
+CREATE OR REPLACE FUNCTION public.trade_limit_violation(_user_id uuid, _coin_id uuid, _amount numeric, _total_value numeric)
+RETURNS jsonb
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+DECLARE
+  v_coin RECORD;
+  v_settings RECORD;
+  v_spend numeric;
+  v_max_buy numeric;
+  v_per_hour numeric;
+  v_per_day numeric;
+  v_max_holding_pct numeric;
+  v_cooldown integer;
+  v_last_trade_at timestamptz;
+  v_used numeric;
+  v_oldest timestamptz;
+  v_held numeric;
+BEGIN
+  -- match_limit_order checks the whole order up front; the curve slice it
+  -- hands to execute_trade must not trip the cooldown on its own book fills
+  IF current_setting('app.skip_trade_limits', true) = '1' THEN
+    RETURN NULL;
+  END IF;
+
+  SELECT * INTO v_coin FROM public.coins WHERE id = _coin_id;
+  IF NOT FOUND THEN RETURN NULL; END IF;
+
+  SELECT fee_percentage, min_buy_amount, max_buy_amount,
+         COALESCE(max_buy_supply_percentage, 25) AS max_buy_supply_percentage,
+         trade_limit_kes_per_hour, trade_limit_kes_per_day,
+         trade_limit_max_holding_pct, trade_limit_cooldown_seconds, market_maker_user_id
+    INTO v_settings FROM public.site_settings LIMIT 1;
+
+  v_per_hour := COALESCE(v_coin.trade_limit_kes_per_hour, v_settings.trade_limit_kes_per_hour, 0);
+  v_per_day := COALESCE(v_coin.trade_limit_kes_per_day, v_settings.trade_limit_kes_per_day, 0);
+  v_max_holding_pct := COALESCE(v_coin.trade_limit_max_holding_pct, v_settings.trade_limit_max_holding_pct, 0);
+  v_cooldown := COALESCE(v_coin.trade_limit_cooldown_seconds, v_settings.trade_limit_cooldown_seconds, 0);
+
+  -- What the buyer pays, which is what recurring buys and the M-Pesa prompt use
+  v_spend := _total_value * (1 + COALESCE(v_settings.fee_percentage, 0) / 100.0);
+
+  IF COALESCE(v_settings.min_buy_amount, 0) > 0 AND v_spend < v_settings.min_buy_amount THEN
+    RETURN jsonb_build_object('code', 'MIN_BUY_AMOUNT',
+      'message', format('Minimum buy is KES %s', v_settings.min_buy_amount),
+      'limit', v_settings.min_buy_amount, 'used', round(v_spend, 2));
+  END IF;
+  IF COALESCE(v_settings.max_buy_amount, 0) > 0 AND _total_value > v_settings.max_buy_amount THEN
+    RETURN jsonb_build_object('code', 'MAX_BUY_AMOUNT',
+      'message', format('Maximum buy is KES %s per trade', v_settings.max_buy_amount),
+      'limit', v_settings.max_buy_amount, 'used', round(_total_value, 2));
+  END IF;
+
+  v_max_buy := GREATEST(0, COALESCE(v_coin.total_supply, 0) - COALESCE(v_coin.circulating_supply, 0))
+               * (v_settings.max_buy_supply_percentage / 100.0);
+  IF v_max_buy > 0 AND _amount > v_max_buy THEN
+    RETURN jsonb_build_object('code', 'MAX_SUPPLY_PER_TRADE',
+      'message', format('Single trade limited to %s percent of remaining supply (max %s)',
+                        v_settings.max_buy_supply_percentage, round(v_max_buy, 2)),
+      'limit', round(v_max_buy, 2), 'used', _amount);
+  END IF;
+
+  -- The house account is held to its market-maker budgets instead
+  IF _user_id = v_settings.market_maker_user_id THEN
+    RETURN NULL;
+  END IF;
+
+  IF v_cooldown > 0 THEN
+    SELECT max(created_at) INTO v_last_trade_at FROM public.transactions
+      WHERE user_id = _user_id AND coin_id = _coin_id AND status = 'completed'
+        AND type IN ('buy', 'sell') AND created_at > now() - make_interval(secs => v_cooldown);
+    IF v_last_trade_at IS NOT NULL THEN
+      RETURN jsonb_build_object('code', 'TRADE_COOLDOWN',
+        'message', format('Wait %s seconds between trades of this coin', v_cooldown),
+        'limit', v_cooldown,
+        'retry_after_seconds', ceil(extract(epoch FROM v_last_trade_at + make_interval(secs => v_cooldown) - now())));
+    END IF;
+  END IF;
+
+  -- M-Pesa buys whose prompt is out count as bought, so several prompts sent
+  -- at once can't each fit under the same remaining allowance
+  IF v_per_hour > 0 THEN
+    SELECT COALESCE(sum(total_value), 0), min(created_at) INTO v_used, v_oldest FROM public.transactions
+      WHERE user_id = _user_id AND coin_id = _coin_id AND type = 'buy' AND status IN ('completed', 'stk_sent')
+        AND created_at > now() - interval '1 hour';
+    IF v_used + _total_value > v_per_hour THEN
+      RETURN jsonb_build_object('code', 'HOURLY_VOLUME_LIMIT',
+        'message', format('Hourly buy limit of KES %s reached for this coin (KES %s used)', v_per_hour, round(v_used, 2)),
+        'limit', v_per_hour, 'used', round(v_used, 2),
+        'retry_after_seconds', CASE WHEN v_oldest IS NOT NULL
+                                    THEN ceil(extract(epoch FROM v_oldest + interval '1 hour' - now())) END);
+    END IF;
+  END IF;
+
+  IF v_per_day > 0 THEN
+    SELECT COALESCE(sum(total_value), 0), min(created_at) INTO v_used, v_oldest FROM public.transactions
+      WHERE user_id = _user_id AND coin_id = _coin_id AND type = 'buy' AND status IN ('completed', 'stk_sent')
+        AND created_at > now() - interval '1 day';
+    IF v_used + _total_value > v_per_day THEN
+      RETURN jsonb_build_object('code', 'DAILY_VOLUME_LIMIT',
+        'message', format('Daily buy limit of KES %s reached for this coin (KES %s used)', v_per_day, round(v_used, 2)),
+        'limit', v_per_day, 'used', round(v_used, 2),
+        'retry_after_seconds', CASE WHEN v_oldest IS NOT NULL
+                                    THEN ceil(extract(epoch FROM v_oldest + interval '1 day' - now())) END);
+    END IF;
+  END IF;
+
+  IF v_max_holding_pct > 0 AND COALESCE(v_coin.total_supply, 0) > 0 THEN
+    SELECT COALESCE(sum(amount), 0) INTO v_held FROM public.holdings
+      WHERE user_id = _user_id AND coin_id = _coin_id;
+    -- A prompt unanswered for an hour has long expired
+    SELECT v_held + COALESCE(sum(amount), 0) INTO v_held FROM public.transactions
+      WHERE user_id = _user_id AND coin_id = _coin_id AND type = 'buy' AND status = 'stk_sent'
+        AND created_at > now() - interval '1 hour';
+    IF (v_held + _amount) / v_coin.total_supply * 100 > v_max_holding_pct THEN
+      RETURN jsonb_build_object('code', 'MAX_HOLDING_PCT',
+        'message', format('One account may hold at most %s%% of the supply', v_max_holding_pct),
+        'limit', v_max_holding_pct,
+        'used', round(v_held / v_coin.total_supply * 100, 4),
+        'max_amount', GREATEST(0, floor(v_coin.total_supply * v_max_holding_pct / 100 - v_held)));
+    END IF;
+  END IF;
+
+  RETURN NULL;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.claim_mpesa_buy(_transaction_id uuid, _user_id uuid)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+DECLARE
+  v_tx RECORD;
+  v_total_value numeric;
+  v_violation jsonb;
+BEGIN
+  SELECT * INTO v_tx FROM public.transactions
+    WHERE id = _transaction_id AND user_id = _user_id AND type = 'buy'
+    FOR UPDATE;
+  IF NOT FOUND THEN RETURN jsonb_build_object('ok', false, 'error', 'Transaction not found'); END IF;
+  IF v_tx.status <> 'pending' THEN
+    RETURN jsonb_build_object('ok', false, 'error', 'This payment is already being processed');
+  END IF;
+
+  -- Concurrent claims for the same coin queue here, so each one sees the
+  -- buys the others have already moved to stk_sent
+  PERFORM pg_advisory_xact_lock(hashtext(_user_id::text || ':' || v_tx.coin_id::text));
+
+  -- Priced on the curve rather than trusting the client's total_value
+  SELECT total_value INTO v_total_value FROM public.price_curve_trade(v_tx.coin_id, 'buy', v_tx.amount);
+  v_violation := public.trade_limit_violation(_user_id, v_tx.coin_id, v_tx.amount, v_total_value);
+  IF v_violation IS NOT NULL THEN
+    UPDATE public.transactions SET status = 'failed', updated_at = now() WHERE id = _transaction_id;
+    RETURN jsonb_build_object('ok', false, 'error', v_violation->>'message', 'violation', v_violation);
+  END IF;
+
+  UPDATE public.transactions SET status = 'stk_sent', updated_at = now() WHERE id = _transaction_id;
+  RETURN jsonb_build_object('ok', true);
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.trade_limit_violation(uuid, uuid, numeric, numeric) FROM anon, authenticated, public;
+REVOKE EXECUTE ON FUNCTION public.claim_mpesa_buy(uuid, uuid) FROM anon, authenticated, public;
+GRANT EXECUTE ON FUNCTION public.claim_mpesa_buy(uuid, uuid) TO service_role;
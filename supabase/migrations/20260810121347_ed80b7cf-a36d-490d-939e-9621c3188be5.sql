@@ -0,0 +1,486 @@
+-- The between-trades cooldown lived inside trade_limit_violation, which
+-- execute_trade only calls for buys, so sells were never spaced out. It is
+-- now trade_cooldown_violation, checked by trade_limit_violation as before and
+-- by the sell branch of execute_trade. Triggered stop-loss and take-profit
+-- orders skip it, as limit order fills already do.
+CREATE OR REPLACE FUNCTION public.trade_cooldown_violation(_user_id uuid, _coin_id uuid)
+RETURNS jsonb
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+DECLARE
+  v_cooldown integer;
+  v_market_maker uuid;
+  v_last_trade_at timestamptz;
+BEGIN
+  IF current_setting('app.skip_trade_limits', true) = '1' THEN
+    RETURN NULL;
+  END IF;
+
+  SELECT COALESCE(c.trade_limit_cooldown_seconds, s.trade_limit_cooldown_seconds, 0), s.market_maker_user_id
+    INTO v_cooldown, v_market_maker
+    FROM public.coins c LEFT JOIN public.site_settings s ON true
+    WHERE c.id = _coin_id
+    LIMIT 1;
+  -- The house account is held to its market-maker budgets instead
+  IF COALESCE(v_cooldown, 0) <= 0 OR _user_id = v_market_maker THEN
+    RETURN NULL;
+  END IF;
+
+  SELECT max(created_at) INTO v_last_trade_at FROM public.transactions
+    WHERE user_id = _user_id AND coin_id = _coin_id AND status = 'completed'
+      AND type IN ('buy', 'sell') AND created_at > now() - make_interval(secs => v_cooldown);
+  IF v_last_trade_at IS NOT NULL THEN
+    RETURN jsonb_build_object('code', 'TRADE_COOLDOWN',
+      'message', format('Wait %s seconds between trades of this coin', v_cooldown),
+      'limit', v_cooldown,
+      'retry_after_seconds', ceil(extract(epoch FROM v_last_trade_at + make_interval(secs => v_cooldown) - now())));
+  END IF;
+
+  RETURN NULL;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.trade_limit_violation(_user_id uuid, _coin_id uuid, _amount numeric, _total_value numeric)
+RETURNS jsonb
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+DECLARE
+  v_coin RECORD;
+  v_settings RECORD;
+  v_spend numeric;
+  v_max_buy numeric;
+  v_per_hour numeric;
+  v_per_day numeric;
+  v_max_holding_pct numeric;
+  v_used numeric;
+  v_oldest timestamptz;
+  v_held numeric;
+  v_violation jsonb;
+BEGIN
+  -- match_limit_order checks the whole order up front; the curve slice it
+  -- hands to execute_trade must not trip the cooldown on its own book fills
+  IF current_setting('app.skip_trade_limits', true) = '1' THEN
+    RETURN NULL;
+  END IF;
+
+  SELECT * INTO v_coin FROM public.coins WHERE id = _coin_id;
+  IF NOT FOUND THEN RETURN NULL; END IF;
+
+  SELECT fee_percentage, min_buy_amount, max_buy_amount,
+         COALESCE(max_buy_supply_percentage, 25) AS max_buy_supply_percentage,
+         trade_limit_kes_per_hour, trade_limit_kes_per_day,
+         trade_limit_max_holding_pct, market_maker_user_id
+    INTO v_settings FROM public.site_settings LIMIT 1;
+
+  v_per_hour := COALESCE(v_coin.trade_limit_kes_per_hour, v_settings.trade_limit_kes_per_hour, 0);
+  v_per_day := COALESCE(v_coin.trade_limit_kes_per_day, v_settings.trade_limit_kes_per_day, 0);
+  v_max_holding_pct := COALESCE(v_coin.trade_limit_max_holding_pct, v_settings.trade_limit_max_holding_pct, 0);
+
+  -- What the buyer pays, which is what recurring buys and the M-Pesa prompt use
+  v_spend := _total_value * (1 + COALESCE(v_settings.fee_percentage, 0) / 100.0);
+
+  IF COALESCE(v_settings.min_buy_amount, 0) > 0 AND v_spend < v_settings.min_buy_amount THEN
+    RETURN jsonb_build_object('code', 'MIN_BUY_AMOUNT',
+      'message', format('Minimum buy is KES %s', v_settings.min_buy_amount),
+      'limit', v_settings.min_buy_amount, 'used', round(v_spend, 2));
+  END IF;
+  IF COALESCE(v_settings.max_buy_amount, 0) > 0 AND _total_value > v_settings.max_buy_amount THEN
+    RETURN jsonb_build_object('code', 'MAX_BUY_AMOUNT',
+      'message', format('Maximum buy is KES %s per trade', v_settings.max_buy_amount),
+      'limit', v_settings.max_buy_amount, 'used', round(_total_value, 2));
+  END IF;
+
+  v_max_buy := GREATEST(0, COALESCE(v_coin.total_supply, 0) - COALESCE(v_coin.circulating_supply, 0))
+               * (v_settings.max_buy_supply_percentage / 100.0);
+  IF v_max_buy > 0 AND _amount > v_max_buy THEN
+    RETURN jsonb_build_object('code', 'MAX_SUPPLY_PER_TRADE',
+      'message', format('Single trade limited to %s percent of remaining supply (max %s)',
+                        v_settings.max_buy_supply_percentage, round(v_max_buy, 2)),
+      'limit', round(v_max_buy, 2), 'used', _amount);
+  END IF;
+
+  -- The house account is held to its market-maker budgets instead
+  IF _user_id = v_settings.market_maker_user_id THEN
+    RETURN NULL;
+  END IF;
+
+  v_violation := public.trade_cooldown_violation(_user_id, _coin_id);
+  IF v_violation IS NOT NULL THEN RETURN v_violation; END IF;
+
+  -- M-Pesa buys whose prompt is out count as bought, so several prompts sent
+  -- at once can't each fit under the same remaining allowance
+  IF v_per_hour > 0 THEN
+    SELECT COALESCE(sum(total_value), 0), min(created_at) INTO v_used, v_oldest FROM public.transactions
+      WHERE user_id = _user_id AND coin_id = _coin_id AND type = 'buy' AND status IN ('completed', 'stk_sent')
+        AND created_at > now() - interval '1 hour';
+    IF v_used + _total_value > v_per_hour THEN
+      RETURN jsonb_build_object('code', 'HOURLY_VOLUME_LIMIT',
+        'message', format('Hourly buy limit of KES %s reached for this coin (KES %s used)', v_per_hour, round(v_used, 2)),
+        'limit', v_per_hour, 'used', round(v_used, 2),
+        'retry_after_seconds', CASE WHEN v_oldest IS NOT NULL
+                                    THEN ceil(extract(epoch FROM v_oldest + interval '1 hour' - now())) END);
+    END IF;
+  END IF;
+
+  IF v_per_day > 0 THEN
+    SELECT COALESCE(sum(total_value), 0), min(created_at) INTO v_used, v_oldest FROM public.transactions
+      WHERE user_id = _user_id AND coin_id = _coin_id AND type = 'buy' AND status IN ('completed', 'stk_sent')
+        AND created_at > now() - interval '1 day';
+    IF v_used + _total_value > v_per_day THEN
+      RETURN jsonb_build_object('code', 'DAILY_VOLUME_LIMIT',
+        'message', format('Daily buy limit of KES %s reached for this coin (KES %s used)', v_per_day, round(v_used, 2)),
+        'limit', v_per_day, 'used', round(v_used, 2),
+        'retry_after_seconds', CASE WHEN v_oldest IS NOT NULL
+                                    THEN ceil(extract(epoch FROM v_oldest + interval '1 day' - now())) END);
+    END IF;
+  END IF;
+
+  IF v_max_holding_pct > 0 AND COALESCE(v_coin.total_supply, 0) > 0 THEN
+    SELECT COALESCE(sum(amount), 0) INTO v_held FROM public.holdings
+      WHERE user_id = _user_id AND coin_id = _coin_id;
+    -- A prompt unanswered for an hour has long expired
+    SELECT v_held + COALESCE(sum(amount), 0) INTO v_held FROM public.transactions
+      WHERE user_id = _user_id AND coin_id = _coin_id AND type = 'buy' AND status = 'stk_sent'
+        AND created_at > now() - interval '1 hour';
+    IF (v_held + _amount) / v_coin.total_supply * 100 > v_max_holding_pct THEN
+      RETURN jsonb_build_object('code', 'MAX_HOLDING_PCT',
+        'message', format('One account may hold at most %s%% of the supply', v_max_holding_pct),
+        'limit', v_max_holding_pct,
+        'used', round(v_held / v_coin.total_supply * 100, 4),
+        'max_amount', GREATEST(0, floor(v_coin.total_supply * v_max_holding_pct / 100 - v_held)));
+    END IF;
+  END IF;
+
+  RETURN NULL;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.execute_trade(
+  _user_id uuid, _coin_id uuid, _trade_type text, _amount numeric, _use_wallet boolean, _to_wallet boolean,
+  _expected_price numeric DEFAULT NULL, _max_slippage_pct numeric DEFAULT NULL,
+  _idempotency_key text DEFAULT NULL
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+DECLARE
+  v_coin RECORD;
+  v_settings RECORD;
+  v_wallet_balance numeric;
+  v_holding RECORD;
+  v_pricing RECORD;
+  v_exec_price numeric;
+  v_total_value numeric;
+  v_fee numeric;
+  v_creator_share numeric;
+  v_net_value numeric;
+  v_tx_id uuid;
+  v_holders_delta integer := 0;
+  v_remaining_supply numeric;
+  v_new_circ numeric;
+  v_final_price numeric;
+  v_locked numeric;
+  v_vesting numeric;
+  v_graduated boolean;
+  v_violation jsonb;
+  v_replay jsonb;
+  v_result jsonb;
+BEGIN
+  IF _amount IS NULL OR _amount <= 0 THEN
+    RAISE EXCEPTION 'Trade amount must be greater than zero';
+  END IF;
+  IF _trade_type NOT IN ('buy','sell') THEN
+    RAISE EXCEPTION 'Invalid trade type';
+  END IF;
+
+  SELECT * INTO v_coin FROM public.coins WHERE id = _coin_id FOR UPDATE;
+  IF NOT FOUND THEN RAISE EXCEPTION 'Coin not found'; END IF;
+
+  -- Checked under the coin lock so a concurrent duplicate waits for the
+  -- first call to commit and then sees its transaction
+  IF _idempotency_key IS NOT NULL THEN
+    SELECT idempotency_response INTO v_replay FROM public.transactions
+      WHERE user_id = _user_id AND idempotency_key = _idempotency_key;
+    IF FOUND THEN
+      RETURN COALESCE(v_replay, jsonb_build_object('ok', true)) || jsonb_build_object('replayed', true);
+    END IF;
+  END IF;
+
+  IF v_coin.trading_paused THEN RAISE EXCEPTION 'Trading paused for this coin'; END IF;
+
+  SELECT fee_percentage, creator_commission_percentage
+    INTO v_settings FROM public.site_settings LIMIT 1;
+
+  IF _trade_type = 'buy' THEN
+    v_remaining_supply := GREATEST(0, COALESCE(v_coin.total_supply, 0) - COALESCE(v_coin.circulating_supply, 0));
+    IF v_remaining_supply <= 0 THEN
+      RAISE EXCEPTION 'No remaining supply available for purchase';
+    END IF;
+    IF _amount > v_remaining_supply THEN
+      RAISE EXCEPTION 'Requested amount exceeds remaining supply (% available)', v_remaining_supply;
+    END IF;
+
+    SELECT * INTO v_pricing FROM public.price_curve_trade(_coin_id, 'buy', _amount);
+    v_exec_price := v_pricing.average_price;
+    IF _expected_price IS NOT NULL AND _max_slippage_pct IS NOT NULL
+       AND v_exec_price > _expected_price * (1 + _max_slippage_pct / 100.0) THEN
+      RAISE EXCEPTION 'Price moved beyond your slippage tolerance (quoted %, now %)',
+        round(_expected_price, 6), round(v_exec_price, 6);
+    END IF;
+    v_total_value := v_pricing.total_value;
+
+    v_violation := public.trade_limit_violation(_user_id, _coin_id, _amount, v_total_value);
+    IF v_violation IS NOT NULL THEN
+      RAISE EXCEPTION USING
+        MESSAGE = v_violation->>'message',
+        DETAIL = v_violation::text,
+        HINT = v_violation->>'code';
+    END IF;
+
+    v_fee := v_total_value * (COALESCE(v_settings.fee_percentage, 0) / 100.0);
+    v_creator_share := v_total_value * (COALESCE(v_settings.creator_commission_percentage, 0) / 100.0);
+
+    IF _use_wallet THEN
+      SELECT fiat_balance INTO v_wallet_balance FROM public.wallets WHERE user_id = _user_id FOR UPDATE;
+      IF v_wallet_balance IS NULL THEN RAISE EXCEPTION 'Wallet not found'; END IF;
+      IF v_wallet_balance < (v_total_value + v_fee) THEN
+        RAISE EXCEPTION 'Insufficient wallet balance';
+      END IF;
+      UPDATE public.wallets SET fiat_balance = fiat_balance - (v_total_value + v_fee) WHERE user_id = _user_id;
+    END IF;
+
+    INSERT INTO public.transactions (user_id, coin_id, type, amount, price_per_coin, total_value, status, idempotency_key)
+      VALUES (_user_id, _coin_id, 'buy', _amount, v_exec_price, v_total_value, 'completed', _idempotency_key)
+      RETURNING id INTO v_tx_id;
+
+    SELECT * INTO v_holding FROM public.holdings WHERE user_id = _user_id AND coin_id = _coin_id FOR UPDATE;
+    IF v_holding.id IS NULL THEN
+      INSERT INTO public.holdings (user_id, coin_id, amount, average_buy_price)
+        VALUES (_user_id, _coin_id, _amount, v_exec_price);
+      v_holders_delta := 1;
+    ELSE
+      UPDATE public.holdings
+        SET amount = v_holding.amount + _amount,
+            average_buy_price = ((v_holding.amount * v_holding.average_buy_price) + (_amount * v_exec_price)) / (v_holding.amount + _amount),
+            updated_at = now()
+        WHERE id = v_holding.id;
+    END IF;
+
+    v_new_circ := v_pricing.new_circulating;
+    v_final_price := v_pricing.new_price;
+
+  ELSE
+    SELECT * INTO v_holding FROM public.holdings WHERE user_id = _user_id AND coin_id = _coin_id FOR UPDATE;
+    IF v_holding.id IS NULL OR v_holding.amount < _amount THEN
+      RAISE EXCEPTION 'Insufficient coin balance';
+    END IF;
+
+    -- Sells are spaced out like buys; the volume and holding caps only limit buying
+    v_violation := public.trade_cooldown_violation(_user_id, _coin_id);
+    IF v_violation IS NOT NULL THEN
+      RAISE EXCEPTION USING
+        MESSAGE = v_violation->>'message',
+        DETAIL = v_violation::text,
+        HINT = v_violation->>'code';
+    END IF;
+    v_vesting := public.vesting_locked_amount(_user_id, _coin_id);
+    IF v_holding.amount - v_vesting < _amount THEN
+      RAISE EXCEPTION 'Insufficient unlocked balance (% still locked under a vesting schedule)', round(v_vesting, 4);
+    END IF;
+    v_locked := public.locked_sell_amount(_user_id, _coin_id);
+    IF v_holding.amount - v_locked < _amount THEN
+      RAISE EXCEPTION 'Insufficient coin balance (% reserved by open sell orders)', v_locked - v_vesting;
+    END IF;
+    IF _amount > v_coin.circulating_supply THEN
+      RAISE EXCEPTION 'Sell amount exceeds circulating supply';
+    END IF;
+
+    SELECT * INTO v_pricing FROM public.price_curve_trade(_coin_id, 'sell', _amount);
+    v_exec_price := v_pricing.average_price;
+    IF _expected_price IS NOT NULL AND _max_slippage_pct IS NOT NULL
+       AND v_exec_price < _expected_price * (1 - _max_slippage_pct / 100.0) THEN
+      RAISE EXCEPTION 'Price moved beyond your slippage tolerance (quoted %, now %)',
+        round(_expected_price, 6), round(v_exec_price, 6);
+    END IF;
+    v_total_value := v_pricing.total_value;
+    v_fee := v_total_value * (COALESCE(v_settings.fee_percentage, 0) / 100.0);
+    v_creator_share := v_total_value * (COALESCE(v_settings.creator_commission_percentage, 0) / 100.0);
+    v_net_value := GREATEST(0, v_total_value - v_fee);
+
+    INSERT INTO public.transactions (user_id, coin_id, type, amount, price_per_coin, total_value, status, idempotency_key)
+      VALUES (_user_id, _coin_id, 'sell', _amount, v_exec_price, v_total_value, 'completed', _idempotency_key)
+      RETURNING id INTO v_tx_id;
+
+    IF v_holding.amount - _amount <= 0 THEN
+      DELETE FROM public.holdings WHERE id = v_holding.id;
+      v_holders_delta := -1;
+    ELSE
+      UPDATE public.holdings SET amount = v_holding.amount - _amount, updated_at = now() WHERE id = v_holding.id;
+    END IF;
+
+    IF _to_wallet THEN
+      INSERT INTO public.wallets (user_id, fiat_balance) VALUES (_user_id, v_net_value)
+        ON CONFLICT (user_id) DO UPDATE SET fiat_balance = public.wallets.fiat_balance + v_net_value;
+    END IF;
+
+    v_new_circ := v_pricing.new_circulating;
+    v_final_price := v_pricing.new_price;
+  END IF;
+
+  PERFORM set_config('app.skip_price_trigger', '1', true);
+  IF v_coin.is_graduated THEN
+    -- Pool liquidity is the quote reserve itself
+    UPDATE public.coins
+      SET circulating_supply = v_new_circ,
+          pool_token_reserve = CASE WHEN _trade_type = 'buy' THEN pool_token_reserve - _amount
+                                    ELSE pool_token_reserve + _amount END,
+          pool_quote_reserve = CASE WHEN _trade_type = 'buy' THEN pool_quote_reserve + v_total_value
+                                    ELSE pool_quote_reserve - v_total_value END,
+          liquidity = CASE WHEN _trade_type = 'buy' THEN pool_quote_reserve + v_total_value
+                           ELSE pool_quote_reserve - v_total_value END,
+          price = v_final_price,
+          market_cap = v_final_price * v_new_circ,
+          holders_count = GREATEST(0, holders_count + v_holders_delta),
+          updated_at = now()
+      WHERE id = _coin_id;
+  ELSE
+    UPDATE public.coins
+      SET circulating_supply = v_new_circ,
+          price = v_final_price,
+          market_cap = v_final_price * v_new_circ,
+          liquidity = CASE WHEN _trade_type = 'buy'
+                           THEN COALESCE(liquidity, 0) + v_total_value
+                           ELSE GREATEST(0, COALESCE(liquidity, 0) - v_total_value) END,
+          holders_count = GREATEST(0, holders_count + v_holders_delta),
+          updated_at = now()
+      WHERE id = _coin_id;
+  END IF;
+  PERFORM set_config('app.skip_price_trigger', '0', true);
+
+  IF v_fee > 0 THEN
+    INSERT INTO public.commission_transactions (transaction_id, amount, commission_rate)
+      VALUES (v_tx_id, v_fee, COALESCE(v_settings.fee_percentage, 0));
+  END IF;
+
+  IF v_coin.creator_id IS NOT NULL AND v_coin.creator_id <> _user_id AND v_creator_share > 0 THEN
+    PERFORM public.credit_creator_commission(v_coin.creator_id, _coin_id, v_tx_id, 'trade', _trade_type,
+      v_total_value, v_settings.creator_commission_percentage, v_creator_share);
+  END IF;
+
+  INSERT INTO public.price_history (coin_id, price, volume, trade_type)
+    VALUES (_coin_id, v_final_price, v_total_value, _trade_type);
+
+  v_graduated := NOT v_coin.is_graduated AND public.maybe_graduate_coin(_coin_id);
+
+  v_result := jsonb_build_object(
+    'ok', true,
+    'transaction_id', v_tx_id,
+    'executed_price', v_exec_price,
+    'spot_price', v_pricing.spot_price,
+    'total_value', v_total_value,
+    'new_market_price', v_final_price,
+    'fee', v_fee,
+    'graduated', v_graduated
+  );
+  IF _idempotency_key IS NOT NULL THEN
+    UPDATE public.transactions SET idempotency_response = v_result WHERE id = v_tx_id;
+  END IF;
+  RETURN v_result;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.trigger_conditional_order(_order_id uuid, _reference_price numeric)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+DECLARE
+  v_order RECORD;
+  v_paused boolean;
+  v_holding_amount numeric;
+  v_sell_amount numeric;
+  v_trade jsonb;
+  v_error text;
+BEGIN
+  SELECT * INTO v_order FROM public.conditional_orders WHERE id = _order_id FOR UPDATE;
+  IF NOT FOUND THEN RAISE EXCEPTION 'Order not found'; END IF;
+  IF v_order.status <> 'active' THEN
+    RETURN jsonb_build_object('ok', false, 'order_id', _order_id, 'status', v_order.status);
+  END IF;
+
+  -- Leave the order armed while trading is halted
+  SELECT trading_paused INTO v_paused FROM public.coins WHERE id = v_order.coin_id;
+  IF v_paused THEN
+    RETURN jsonb_build_object('ok', false, 'order_id', _order_id, 'status', 'active');
+  END IF;
+
+  SELECT amount INTO v_holding_amount FROM public.holdings
+    WHERE user_id = v_order.user_id AND coin_id = v_order.coin_id;
+  v_sell_amount := LEAST(
+    v_order.amount,
+    GREATEST(0, COALESCE(v_holding_amount, 0) - public.locked_sell_amount(v_order.user_id, v_order.coin_id))
+  );
+
+  IF v_sell_amount <= 0 THEN
+    UPDATE public.conditional_orders
+      SET status = 'failed', triggered_at = now(), trigger_reference_price = _reference_price,
+          failure_reason = 'No available balance to sell'
+      WHERE id = _order_id;
+    RETURN jsonb_build_object('ok', false, 'order_id', _order_id, 'status', 'failed',
+      'error', 'No available balance to sell');
+  END IF;
+
+  -- A stop the user set in advance must not miss its trigger because they
+  -- happened to trade moments before
+  PERFORM set_config('app.skip_trade_limits', '1', true);
+  BEGIN
+    v_trade := public.execute_trade(v_order.user_id, v_order.coin_id, 'sell', v_sell_amount, false, true);
+  EXCEPTION WHEN OTHERS THEN
+    v_error := SQLERRM;
+  END;
+  PERFORM set_config('app.skip_trade_limits', '0', true);
+
+  IF v_error IS NOT NULL THEN
+    UPDATE public.conditional_orders
+      SET status = 'failed', triggered_at = now(), trigger_reference_price = _reference_price,
+          failure_reason = v_error
+      WHERE id = _order_id;
+    RETURN jsonb_build_object('ok', false, 'order_id', _order_id, 'status', 'failed', 'error', v_error);
+  END IF;
+
+  UPDATE public.conditional_orders
+    SET status = 'triggered',
+        triggered_at = now(),
+        trigger_reference_price = _reference_price,
+        executed_price = (v_trade->>'executed_price')::numeric,
+        executed_amount = v_sell_amount,
+        transaction_id = (v_trade->>'transaction_id')::uuid
+    WHERE id = _order_id;
+
+  RETURN jsonb_build_object(
+    'ok', true,
+    'order_id', _order_id,
+    'status', 'triggered',
+    'transaction_id', v_trade->>'transaction_id',
+    'executed_price', (v_trade->>'executed_price')::numeric,
+    'executed_amount', v_sell_amount,
+    'fee', (v_trade->>'fee')::numeric
+  );
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.trade_cooldown_violation(uuid, uuid) FROM anon, authenticated, public;
+REVOKE EXECUTE ON FUNCTION public.trade_limit_violation(uuid, uuid, numeric, numeric) FROM anon, authenticated, public;
+REVOKE EXECUTE ON FUNCTION public.trigger_conditional_order(uuid, numeric) FROM anon, authenticated, public;
+GRANT EXECUTE ON FUNCTION public.trigger_conditional_order(uuid, numeric) TO service_role;
+REVOKE EXECUTE ON FUNCTION public.execute_trade(uuid, uuid, text, numeric, boolean, boolean, numeric, numeric, text) FROM anon, public;
+GRANT EXECUTE ON FUNCTION public.execute_trade(uuid, uuid, text, numeric, boolean, boolean, numeric, numeric, text) TO authenticated;
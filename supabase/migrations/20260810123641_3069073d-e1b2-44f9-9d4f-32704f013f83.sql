@@ -0,0 +1,78 @@
+-- Sell pressure lowered the price a sell left behind but not what the sell
+-- paid out, so selling and buying the same amount straight back returned
+-- more KES than it cost. Sell proceeds now carry the same discount.
+CREATE OR REPLACE FUNCTION public.price_curve_trade(_coin_id uuid, _trade_type text, _amount numeric)
+RETURNS TABLE (spot_price numeric, total_value numeric, average_price numeric, new_circulating numeric, new_price numeric)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+DECLARE
+  v_coin RECORD;
+  v_pressure numeric;
+  v_discount numeric := 1;
+  v_curve_spot numeric;
+  v_anchor numeric := 1;
+  v_from numeric;
+  v_to numeric;
+  v_x numeric;
+  v_y numeric;
+BEGIN
+  SELECT * INTO v_coin FROM public.coins WHERE id = _coin_id;
+  IF NOT FOUND THEN RAISE EXCEPTION 'Coin not found'; END IF;
+
+  IF v_coin.is_graduated THEN
+    v_x := v_coin.pool_token_reserve;
+    v_y := v_coin.pool_quote_reserve;
+    spot_price := v_y / v_x;
+    IF _trade_type = 'buy' THEN
+      IF _amount >= v_x THEN
+        RAISE EXCEPTION 'Insufficient pool liquidity (% tokens in pool)', round(v_x, 6);
+      END IF;
+      total_value := v_y * _amount / (v_x - _amount);
+      new_circulating := v_coin.circulating_supply + _amount;
+      new_price := (v_y + total_value) / (v_x - _amount);
+    ELSE
+      total_value := v_y * _amount / (v_x + _amount);
+      new_circulating := GREATEST(0, v_coin.circulating_supply - _amount);
+      new_price := (v_y - total_value) / (v_x + _amount);
+    END IF;
+    average_price := CASE WHEN _amount > 0 THEN total_value / _amount ELSE spot_price END;
+    RETURN NEXT;
+    RETURN;
+  END IF;
+
+  v_curve_spot := public.calculate_bonding_price(v_coin.initial_price, v_coin.bonding_curve_factor, v_coin.circulating_supply);
+  IF v_curve_spot > 0 THEN
+    v_anchor := v_coin.price / v_curve_spot;
+  END IF;
+
+  IF _trade_type = 'buy' THEN
+    v_from := v_coin.circulating_supply;
+    v_to := v_coin.circulating_supply + _amount;
+    new_circulating := v_to;
+    new_price := public.calculate_bonding_price(v_coin.initial_price, v_coin.bonding_curve_factor, v_to) * v_anchor;
+  ELSE
+    v_from := GREATEST(0, v_coin.circulating_supply - _amount);
+    v_to := v_coin.circulating_supply;
+    new_circulating := v_from;
+    SELECT COALESCE(sell_pressure_multiplier, 1.5) INTO v_pressure FROM public.site_settings LIMIT 1;
+    v_discount := 1 - LEAST(0.5, COALESCE(v_pressure, 1.5) * (_amount / GREATEST(v_coin.circulating_supply, 1)));
+    new_price := GREATEST(
+      v_coin.initial_price * 0.01,
+      public.calculate_bonding_price(v_coin.initial_price, v_coin.bonding_curve_factor, v_from) * v_anchor * v_discount
+    );
+  END IF;
+
+  spot_price := v_coin.price;
+  -- A sell is paid at the pressured price it leaves behind, so buying the
+  -- same amount straight back costs what the sell paid out
+  total_value := public.bonding_curve_area(v_coin.initial_price, v_coin.bonding_curve_factor, v_from, v_to)
+    * v_anchor * v_discount;
+  average_price := CASE WHEN _amount > 0 THEN total_value / _amount ELSE v_coin.price END;
+  RETURN NEXT;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.price_curve_trade(uuid, text, numeric) FROM anon, authenticated, public;
@@ -0,0 +1,112 @@
+-- The conditional-order runner fetched every price tick since the oldest
+-- order's last check in one query, which the API caps at 1000 rows, so busy
+-- coins lost part of their window. The highs and lows are now aggregated here.
+CREATE OR REPLACE FUNCTION public.conditional_order_price_windows(_order_ids uuid[])
+RETURNS TABLE (order_id uuid, window_high numeric, window_low numeric)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+  SELECT o.id, MAX(ph.price), MIN(ph.price)
+  FROM public.conditional_orders o
+  LEFT JOIN public.price_history ph
+    ON ph.coin_id = o.coin_id AND ph.created_at >= o.last_checked_at
+  WHERE o.id = ANY(_order_ids)
+  GROUP BY o.id;
+$$;
+
+-- A take-profit fired on the window's high but sold at whatever the price was
+-- by then. It now re-checks the live price, under the coin lock the sale takes.
+CREATE OR REPLACE FUNCTION public.trigger_conditional_order(_order_id uuid, _reference_price numeric)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+DECLARE
+  v_order RECORD;
+  v_paused boolean;
+  v_price numeric;
+  v_holding_amount numeric;
+  v_sell_amount numeric;
+  v_trade jsonb;
+  v_error text;
+BEGIN
+  SELECT * INTO v_order FROM public.conditional_orders WHERE id = _order_id FOR UPDATE;
+  IF NOT FOUND THEN RAISE EXCEPTION 'Order not found'; END IF;
+  IF v_order.status <> 'active' THEN
+    RETURN jsonb_build_object('ok', false, 'order_id', _order_id, 'status', v_order.status);
+  END IF;
+
+  -- Leave the order armed while trading is halted
+  SELECT trading_paused, price INTO v_paused, v_price FROM public.coins WHERE id = v_order.coin_id FOR UPDATE;
+  IF v_paused THEN
+    RETURN jsonb_build_object('ok', false, 'order_id', _order_id, 'status', 'active');
+  END IF;
+
+  -- The sale fills at the live price, so a take-profit only goes ahead while
+  -- that price still meets its trigger
+  IF v_order.order_type = 'take_profit' AND v_price < v_order.trigger_price THEN
+    RETURN jsonb_build_object('ok', false, 'order_id', _order_id, 'status', 'active');
+  END IF;
+
+  SELECT amount INTO v_holding_amount FROM public.holdings
+    WHERE user_id = v_order.user_id AND coin_id = v_order.coin_id;
+  v_sell_amount := LEAST(
+    v_order.amount,
+    GREATEST(0, COALESCE(v_holding_amount, 0) - public.locked_sell_amount(v_order.user_id, v_order.coin_id))
+  );
+
+  IF v_sell_amount <= 0 THEN
+    UPDATE public.conditional_orders
+      SET status = 'failed', triggered_at = now(), trigger_reference_price = _reference_price,
+          failure_reason = 'No available balance to sell'
+      WHERE id = _order_id;
+    RETURN jsonb_build_object('ok', false, 'order_id', _order_id, 'status', 'failed',
+      'error', 'No available balance to sell');
+  END IF;
+
+  -- A stop the user set in advance must not miss its trigger because they
+  -- happened to trade moments before
+  PERFORM set_config('app.skip_trade_limits', '1', true);
+  BEGIN
+    v_trade := public.execute_trade(v_order.user_id, v_order.coin_id, 'sell', v_sell_amount, false, true);
+  EXCEPTION WHEN OTHERS THEN
+    v_error := SQLERRM;
+  END;
+  PERFORM set_config('app.skip_trade_limits', '0', true);
+
+  IF v_error IS NOT NULL THEN
+    UPDATE public.conditional_orders
+      SET status = 'failed', triggered_at = now(), trigger_reference_price = _reference_price,
+          failure_reason = v_error
+      WHERE id = _order_id;
+    RETURN jsonb_build_object('ok', false, 'order_id', _order_id, 'status', 'failed', 'error', v_error);
+  END IF;
+
+  UPDATE public.conditional_orders
+    SET status = 'triggered',
+        triggered_at = now(),
+        trigger_reference_price = _reference_price,
+        executed_price = (v_trade->>'executed_price')::numeric,
+        executed_amount = v_sell_amount,
+        transaction_id = (v_trade->>'transaction_id')::uuid
+    WHERE id = _order_id;
+
+  RETURN jsonb_build_object(
+    'ok', true,
+    'order_id', _order_id,
+    'status', 'triggered',
+    'transaction_id', v_trade->>'transaction_id',
+    'executed_price', (v_trade->>'executed_price')::numeric,
+    'executed_amount', v_sell_amount,
+    'fee', (v_trade->>'fee')::numeric
+  );
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.conditional_order_price_windows(uuid[]) FROM anon, authenticated, public;
+GRANT EXECUTE ON FUNCTION public.conditional_order_price_windows(uuid[]) TO service_role;
+REVOKE EXECUTE ON FUNCTION public.trigger_conditional_order(uuid, numeric) FROM anon, authenticated, public;
+GRANT EXECUTE ON FUNCTION public.trigger_conditional_order(uuid, numeric) TO service_role;